@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadEnv } from "../env";
+
+describe("loadEnv", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_JWT_SECRET", "a".repeat(40));
+    vi.stubEnv("AUTH_USERNAME", "admin");
+    vi.stubEnv("AUTH_PASSWORD", "correct-horse");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("treats blank optional settings as unset", () => {
+    vi.stubEnv("EMAIL_LINK_SECRET", "");
+    vi.stubEnv("READ_LATER_CREDENTIALS_KEY", "");
+    vi.stubEnv("IMAGE_PROXY_SECRET", "");
+    vi.stubEnv("IMAGE_CACHE_DIR", "");
+
+    const env = loadEnv();
+
+    expect(env.EMAIL_LINK_SECRET).toBeUndefined();
+    expect(env.READ_LATER_CREDENTIALS_KEY).toBeUndefined();
+    expect(env.IMAGE_PROXY_SECRET).toBeUndefined();
+    expect(env.IMAGE_CACHE_DIR).toBeUndefined();
+  });
+
+  it("still rejects secrets that are set but too short", () => {
+    vi.stubEnv("EMAIL_LINK_SECRET", "short");
+
+    expect(() => loadEnv()).toThrow();
+  });
+});
@@ -1,5 +1,13 @@
 import { z } from "zod";
 
+/**
+ * An optional setting that also counts as unset when blank: docker compose
+ * passes keys left empty in .env (or `${KEY:-}`) through as "".
+ */
+function optionalSetting<T extends z.ZodType>(schema: T) {
+  return z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+}
+
 const envSchema = z
   .object({
     NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
@@ -21,6 +29,14 @@ const envSchema = z
       .transform((value) => value === "true"),
     RESEND_API_KEY: z.string().optional(),
     EMAIL_FROM: z.string().min(3).optional(),
+    // Verifies one-click digest email links; must match the worker's value.
+    EMAIL_LINK_SECRET: optionalSetting(z.string().min(32)),
+    // Encrypts read-later connector credentials; must match the worker's value.
+    READ_LATER_CREDENTIALS_KEY: optionalSetting(z.string().min(32)),
+    // Signs image proxy URLs; without it cards load images from the publisher.
+    IMAGE_PROXY_SECRET: optionalSetting(z.string().min(32)),
+    IMAGE_CACHE_DIR: optionalSetting(z.string()),
+    IMAGE_CACHE_MAX_MB: z.coerce.number().int().min(16).default(512),
     VAPID_PUBLIC_KEY: z.string().optional(),
     VAPID_PRIVATE_KEY: z.string().optional(),
     LEMON_SQUEEZY_API_BASE_URL: z.string().url().default("https://api.lemonsqueezy.com/v1"),
@@ -36,6 +52,7 @@ const envSchema = z
     ANTHROPIC_API_KEY: z.string().optional(),
     AI_PROVIDER: z.string().optional(),
     OLLAMA_BASE_URL: z.string().optional(),
+    AI_EMBEDDING_PROVIDER: z.string().optional(),
     RATE_LIMIT_MAX: z.coerce.number().int().min(1).default(100),
     INVITE_CODE: z.string().optional(),
   })
@@ -8,6 +8,8 @@ import { ZodError } from "zod";
 import { loadEnv } from "./config/env";
 import { authPlugin } from "./plugins/auth";
 import { dbPlugin } from "./plugins/db";
+import { feverRoutes } from "./routes/fever";
+import { greaderRoutes } from "./routes/greader";
 import { v1Routes } from "./routes/v1";
 
 async function start() {
@@ -38,18 +40,50 @@ async function start() {
     sign: { algorithm: "HS256" },
     verify: { algorithms: ["HS256"] },
   });
-  // Accept text/xml and application/xml bodies as raw strings (for OPML import)
+  // Accept XML and feed bodies as raw strings (for OPML import and WebSub pushes)
   app.addContentTypeParser(
-    ["text/xml", "application/xml"],
+    [
+      "text/xml",
+      "application/xml",
+      "application/atom+xml",
+      "application/rss+xml",
+      "application/rdf+xml",
+      "application/feed+json",
+    ],
     { parseAs: "string" },
     (_req, body, done) => {
       done(null, body);
     },
   );
+  // Third-party client APIs (Fever, Google Reader) post classic HTML form bodies.
+  // Repeated keys (e.g. edit-tag `i=1&i=2`) are kept as arrays.
+  app.addContentTypeParser(
+    "application/x-www-form-urlencoded",
+    { parseAs: "string" },
+    (_req, body, done) => {
+      const parsed: Record<string, string | string[]> = {};
+      for (const [key, value] of new URLSearchParams(body as string)) {
+        const existing = parsed[key];
+        if (existing === undefined) {
+          parsed[key] = value;
+        } else {
+          parsed[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+        }
+      }
+      done(null, parsed);
+    },
+  );
+
+  // Account archive imports arrive as raw zip bytes
+  app.addContentTypeParser("application/zip", { parseAs: "buffer" }, (_req, body, done) => {
+    done(null, body);
+  });
 
   await app.register(dbPlugin, { databaseUrl: env.DATABASE_URL });
   await app.register(authPlugin);
   await app.register(v1Routes, { env });
+  await app.register(feverRoutes);
+  await app.register(greaderRoutes, { prefix: "/api/greader" });
 
   app.setErrorHandler((error, request, reply) => {
     if (error instanceof ZodError) {
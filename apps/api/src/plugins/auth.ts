@@ -1,8 +1,38 @@
 import type { FastifyReply, FastifyRequest } from "fastify";
 import fp from "fastify-plugin";
+import {
+  API_TOKEN_PREFIX,
+  createApiTokenService,
+  requiredScopesForRoute,
+} from "../services/api-token-service";
 
 export const authPlugin = fp(async (app) => {
+  const apiTokens = createApiTokenService(app.pg);
+
+  async function verifyApiToken(request: FastifyRequest, reply: FastifyReply, token: string) {
+    const identity = await apiTokens.authenticate(token);
+    if (!identity) {
+      return reply.unauthorized("invalid API token");
+    }
+
+    const required = requiredScopesForRoute(request.method, request.routeOptions.url);
+    if (!required || !required.some((scope) => identity.scopes.includes(scope))) {
+      return reply.forbidden("API token lacks the scope for this route");
+    }
+
+    request.authContext = {
+      userId: identity.userId,
+      accountId: identity.accountId,
+      apiTokenId: identity.tokenId,
+    };
+  }
+
   app.decorate("verifyAccessToken", async (request: FastifyRequest, reply: FastifyReply) => {
+    const bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization?.trim() ?? "")?.[1];
+    if (bearer?.startsWith(API_TOKEN_PREFIX)) {
+      return verifyApiToken(request, reply, bearer);
+    }
+
     try {
       const payload = await request.jwtVerify<{
         sub: string;
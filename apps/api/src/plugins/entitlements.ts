@@ -32,7 +32,7 @@ const PLAN_DEFAULTS: Record<PlanId, PlanDefaults> = {
   pro_ai: {
     feedLimit: null,
     itemsPerDayLimit: null,
-    searchMode: "full_text",
+    searchMode: "semantic",
     minPollMinutes: 10,
   },
 };
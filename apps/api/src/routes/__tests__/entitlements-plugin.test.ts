@@ -55,7 +55,7 @@ describe("getAccountEntitlements", () => {
       currentPeriodEndsAt: "2026-03-01T00:00:00.000Z",
       feedLimit: null,
       itemsPerDayLimit: null,
-      searchMode: "full_text",
+      searchMode: "semantic",
       minPollMinutes: 10,
       usage: {
         date: "2026-02-08",
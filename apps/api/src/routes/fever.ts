@@ -0,0 +1,114 @@
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { createClientApiCredentialService } from "../services/client-api-credential-service";
+import {
+  createFeverService,
+  FEVER_API_VERSION,
+  type FeverMark,
+  parseFeverIdList,
+} from "../services/fever-service";
+
+const feverParamsSchema = z.object({
+  api_key: z.string().optional(),
+  groups: z.string().optional(),
+  feeds: z.string().optional(),
+  favicons: z.string().optional(),
+  items: z.string().optional(),
+  links: z.string().optional(),
+  unread_item_ids: z.string().optional(),
+  saved_item_ids: z.string().optional(),
+  since_id: z.coerce.number().int().min(0).optional(),
+  max_id: z.coerce.number().int().min(0).optional(),
+  with_ids: z.string().optional(),
+  mark: z.enum(["item", "feed", "group"]).optional(),
+  as: z.enum(["read", "unread", "saved", "unsaved"]).optional(),
+  id: z.coerce.number().int().min(0).optional(),
+  before: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * Fever API compatibility layer for Reeder, Unread, ReadKit and friends.
+ * Clients authenticate with `api_key = md5(login:password)` using the
+ * workspace-qualified login and client API password from Settings, not the
+ * JWT flow.
+ */
+export const feverRoutes: FastifyPluginAsync = async (app) => {
+  const fever = createFeverService(app.pg);
+  const credentials = createClientApiCredentialService(app.pg);
+
+  async function handle(request: FastifyRequest, reply: FastifyReply) {
+    const body =
+      request.body && typeof request.body === "object"
+        ? (request.body as Record<string, unknown>)
+        : {};
+    const params = feverParamsSchema.parse({
+      ...(request.query as Record<string, unknown>),
+      ...body,
+    });
+
+    const identity = await credentials.authenticateFeverKey(params.api_key);
+    if (!identity) {
+      return reply.send({ api_version: FEVER_API_VERSION, auth: 0 });
+    }
+
+    const { accountId, userId } = identity;
+    const response = await fever.withAccountClient(accountId, async (client) => {
+      const payload: Record<string, unknown> = {
+        api_version: FEVER_API_VERSION,
+        auth: 1,
+      };
+
+      if (params.mark && params.as && params.id !== undefined) {
+        const mark: FeverMark = {
+          mark: params.mark,
+          as: params.as,
+          id: params.id,
+          before: params.before,
+        };
+        await fever.applyMark(client, accountId, userId, mark);
+      }
+
+      payload.last_refreshed_on_time = await fever.lastRefreshedOnTime(client, accountId);
+
+      if (params.groups !== undefined) {
+        payload.groups = await fever.listGroups(client, accountId);
+      }
+      if (params.feeds !== undefined) {
+        payload.feeds = await fever.listFeeds(client, accountId);
+      }
+      if (params.groups !== undefined || params.feeds !== undefined) {
+        payload.feeds_groups = await fever.listFeedsGroups(client, accountId);
+      }
+      if (params.favicons !== undefined) {
+        payload.favicons = fever.listFavicons();
+      }
+      if (params.items !== undefined) {
+        const { items, totalItems } = await fever.listItems(client, accountId, userId, {
+          sinceId: params.since_id,
+          maxId: params.max_id,
+          withIds: params.with_ids !== undefined ? parseFeverIdList(params.with_ids) : undefined,
+        });
+        payload.items = items;
+        payload.total_items = totalItems;
+      }
+      if (params.links !== undefined) {
+        // Fever "Hot" links have no equivalent here.
+        payload.links = [];
+      }
+      if (params.unread_item_ids !== undefined || params.mark) {
+        payload.unread_item_ids = await fever.listItemIds(client, accountId, userId, "unread");
+      }
+      if (params.saved_item_ids !== undefined || params.mark) {
+        payload.saved_item_ids = await fever.listItemIds(client, accountId, userId, "saved");
+      }
+
+      return payload;
+    });
+
+    return reply.send(response);
+  }
+
+  for (const url of ["/fever", "/fever/"]) {
+    app.route({ method: ["GET", "POST"], url, handler: handle });
+  }
+};
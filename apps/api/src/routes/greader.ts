@@ -0,0 +1,299 @@
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import {
+  type ClientApiIdentity,
+  createClientApiCredentialService,
+} from "../services/client-api-credential-service";
+import {
+  createGReaderService,
+  type GReaderStreamQuery,
+  parseItemId,
+  parseStreamId,
+} from "../services/greader-service";
+
+const TOKEN_TTL = "30d";
+
+const stringList = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .transform((value) => (value === undefined ? [] : Array.isArray(value) ? value : [value]));
+
+const clientLoginSchema = z.object({
+  Email: z.string().min(1),
+  Passwd: z.string().min(1),
+});
+
+const streamQuerySchema = z.object({
+  s: z.string().optional(),
+  n: z.coerce.number().int().min(1).optional(),
+  c: z.string().optional(),
+  xt: stringList,
+  ot: z.coerce.number().int().min(0).optional(),
+  nt: z.coerce.number().int().min(0).optional(),
+});
+
+const editTagSchema = z.object({
+  i: stringList,
+  a: stringList,
+  r: stringList,
+});
+
+const markAllAsReadSchema = z.object({
+  s: z.string(),
+  ts: z.coerce.number().int().min(0).optional(),
+});
+
+interface GReaderTokenPayload {
+  sub: string;
+  accountId: string;
+  tokenType: string;
+  credentialVersion: string;
+}
+
+function mergedParams(request: FastifyRequest): Record<string, unknown> {
+  const body =
+    request.body && typeof request.body === "object"
+      ? (request.body as Record<string, unknown>)
+      : {};
+  return { ...(request.query as Record<string, unknown>), ...body };
+}
+
+function toStreamQuery(params: z.infer<typeof streamQuerySchema>): GReaderStreamQuery {
+  return {
+    limit: params.n,
+    continuation: params.c,
+    excludeRead: params.xt.some((tag) => parseStreamId(tag)?.kind === "read"),
+    // `ot` is the oldest timestamp to include, `nt` the newest.
+    newerThan: params.ot,
+    olderThan: params.nt,
+  };
+}
+
+/**
+ * Google Reader API compatibility layer, mounted at /api/greader. Clients log
+ * in with ClientLogin using the client API password from Settings and then
+ * send `Authorization: GoogleLogin auth=<token>`.
+ */
+export const greaderRoutes: FastifyPluginAsync = async (app) => {
+  const greader = createGReaderService(app.pg);
+  const credentials = createClientApiCredentialService(app.pg);
+
+  async function authenticate(request: FastifyRequest): Promise<ClientApiIdentity | null> {
+    const header = request.headers.authorization ?? "";
+    const match = /^GoogleLogin\s+auth=(\S+)$/i.exec(header.trim());
+    if (!match?.[1]) return null;
+
+    let payload: GReaderTokenPayload;
+    try {
+      payload = app.jwt.verify<GReaderTokenPayload>(match[1]);
+    } catch {
+      return null;
+    }
+    if (payload.tokenType !== "greader") return null;
+
+    const identity = {
+      userId: payload.sub,
+      accountId: payload.accountId,
+      credentialVersion: payload.credentialVersion,
+    };
+    return (await credentials.verifyIdentity(identity)) ? identity : null;
+  }
+
+  async function requireIdentity(
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): Promise<ClientApiIdentity | null> {
+    const identity = await authenticate(request);
+    if (!identity) {
+      await reply.code(401).type("text/plain").send("Unauthorized");
+      return null;
+    }
+    return identity;
+  }
+
+  app.route({
+    method: ["GET", "POST"],
+    url: "/accounts/ClientLogin",
+    config: {
+      rateLimit: {
+        max: 10,
+        timeWindow: "1 minute",
+      },
+    },
+    handler: async (request, reply) => {
+      const parsed = clientLoginSchema.safeParse(mergedParams(request));
+      const identity = parsed.success
+        ? await credentials.authenticatePassword(parsed.data.Email, parsed.data.Passwd)
+        : null;
+      if (!identity) {
+        return reply.code(401).type("text/plain").send("Error=BadAuthentication\n");
+      }
+
+      const token = app.jwt.sign(
+        {
+          sub: identity.userId,
+          accountId: identity.accountId,
+          tokenType: "greader",
+          credentialVersion: identity.credentialVersion,
+        },
+        { expiresIn: TOKEN_TTL },
+      );
+      return reply.type("text/plain").send(`SID=${token}\nLSID=${token}\nAuth=${token}\n`);
+    },
+  });
+
+  app.get("/reader/api/0/token", async (request, reply) => {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+    // Write requests are authenticated by the Authorization header alone, so
+    // the action token only needs to be stable for the session.
+    return reply.type("text/plain").send(identity.credentialVersion.replace(/\D/g, ""));
+  });
+
+  app.get("/reader/api/0/user-info", async (request, reply) => {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+    const status = await greader.withAccountClient(identity.accountId, (client) =>
+      credentials.getStatus(client, identity.accountId, identity.userId),
+    );
+    return reply.send({
+      userId: identity.userId,
+      userName: status?.username ?? "",
+      userProfileId: identity.userId,
+      userEmail: "",
+    });
+  });
+
+  app.get("/reader/api/0/subscription/list", async (request, reply) => {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+    const subscriptions = await greader.withAccountClient(identity.accountId, (client) =>
+      greader.listSubscriptions(client, identity.accountId),
+    );
+    return reply.send({ subscriptions });
+  });
+
+  app.get("/reader/api/0/tag/list", async (request, reply) => {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+    const tags = await greader.withAccountClient(identity.accountId, (client) =>
+      greader.listTags(client, identity.accountId, identity.userId),
+    );
+    return reply.send({ tags });
+  });
+
+  app.get("/reader/api/0/unread-count", async (request, reply) => {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+    const unreadcounts = await greader.withAccountClient(identity.accountId, (client) =>
+      greader.unreadCounts(client, identity.accountId, identity.userId),
+    );
+    return reply.send({ max: 1000, unreadcounts });
+  });
+
+  async function handleStreamContents(request: FastifyRequest, reply: FastifyReply) {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+
+    const params = streamQuerySchema.parse(mergedParams(request));
+    const rawStreamId = (request.params as { "*"?: string })["*"] || params.s;
+    const stream = parseStreamId(rawStreamId);
+    if (!stream) return reply.notFound("Unknown stream");
+
+    const result = await greader.withAccountClient(identity.accountId, (client) =>
+      greader.streamContents(
+        client,
+        identity.accountId,
+        identity.userId,
+        stream,
+        toStreamQuery(params),
+      ),
+    );
+    return reply.send({
+      direction: "ltr",
+      id: rawStreamId ?? "user/-/state/com.google/reading-list",
+      updated: Math.floor(Date.now() / 1000),
+      items: result.items,
+      ...(result.continuation ? { continuation: result.continuation } : {}),
+    });
+  }
+
+  app.get("/reader/api/0/stream/contents", handleStreamContents);
+  app.get("/reader/api/0/stream/contents/*", handleStreamContents);
+
+  app.route({
+    method: ["GET", "POST"],
+    url: "/reader/api/0/stream/items/ids",
+    handler: async (request, reply) => {
+      const identity = await requireIdentity(request, reply);
+      if (!identity) return reply;
+
+      const params = streamQuerySchema.parse(mergedParams(request));
+      const stream = parseStreamId(params.s);
+      if (!stream) return reply.notFound("Unknown stream");
+
+      const result = await greader.withAccountClient(identity.accountId, (client) =>
+        greader.streamItemIds(
+          client,
+          identity.accountId,
+          identity.userId,
+          stream,
+          toStreamQuery(params),
+        ),
+      );
+      return reply.send({
+        itemRefs: result.itemRefs,
+        ...(result.continuation ? { continuation: result.continuation } : {}),
+      });
+    },
+  });
+
+  app.route({
+    method: ["GET", "POST"],
+    url: "/reader/api/0/stream/items/contents",
+    handler: async (request, reply) => {
+      const identity = await requireIdentity(request, reply);
+      if (!identity) return reply;
+
+      const { i } = editTagSchema.parse(mergedParams(request));
+      const seqIds = i.map(parseItemId).filter((id): id is number => id !== null);
+      const items = await greader.withAccountClient(identity.accountId, (client) =>
+        greader.itemContents(client, identity.accountId, identity.userId, seqIds),
+      );
+      return reply.send({
+        direction: "ltr",
+        id: "user/-/state/com.google/reading-list",
+        updated: Math.floor(Date.now() / 1000),
+        items,
+      });
+    },
+  });
+
+  app.post("/reader/api/0/edit-tag", async (request, reply) => {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+
+    const { i, a, r } = editTagSchema.parse(mergedParams(request));
+    const seqIds = i.map(parseItemId).filter((id): id is number => id !== null);
+    await greader.withAccountClient(identity.accountId, (client) =>
+      greader.editTag(client, identity.accountId, identity.userId, seqIds, a, r),
+    );
+    return reply.type("text/plain").send("OK");
+  });
+
+  app.post("/reader/api/0/mark-all-as-read", async (request, reply) => {
+    const identity = await requireIdentity(request, reply);
+    if (!identity) return reply;
+
+    const params = markAllAsReadSchema.parse(mergedParams(request));
+    const stream = parseStreamId(params.s);
+    if (!stream) return reply.notFound("Unknown stream");
+
+    // `ts` is in microseconds per the Reader API.
+    const before = params.ts ? new Date(Math.floor(params.ts / 1000)) : new Date();
+    await greader.withAccountClient(identity.accountId, (client) =>
+      greader.markAllAsRead(client, identity.accountId, identity.userId, stream, before),
+    );
+    return reply.type("text/plain").send("OK");
+  });
+};
@@ -1,8 +1,13 @@
+import os from "node:os";
+import path from "node:path";
 import {
   accountDataExportStatusSchema,
   accountEntitlementsSchema,
+  accountImportQuerySchema,
+  accountImportReportSchema,
   addFeedRequestSchema,
   aiUsageSummarySchema,
+  apiTokenSchema,
   billingCheckoutRequestSchema,
   billingCheckoutResponseSchema,
   billingOverviewSchema,
@@ -11,19 +16,42 @@ import {
   billingSubscriptionActionResponseSchema,
   type ClusterCard,
   changePasswordRequestSchema,
+  clientApiCredentialStatusSchema,
   clusterAiSummaryResponseSchema,
   clusterFeedbackRequestSchema,
   createAiRegistry,
   createAnnotationRequestSchema,
+  createApiTokenRequestSchema,
+  createApiTokenResponseSchema,
+  createExtractionRuleRequestSchema,
+  createFeedOutputRequestSchema,
   createFilterRuleRequestSchema,
+  createFolderRequestSchema,
   createMemberInviteRequestSchema,
+  createReadLaterConnectionRequestSchema,
+  createWebhookSubscriptionRequestSchema,
+  deleteFolderQuerySchema,
+  digestPreviewRequestSchema,
+  digestPreviewSchema,
   directoryEntrySchema,
   directoryListResponseSchema,
   directoryQuerySchema,
+  discoverFeedsRequestSchema,
   estimateCostUsd,
   eventsBatchRequestSchema,
+  extractionPreviewRequestSchema,
+  extractionPreviewSchema,
+  extractionRuleSchema,
+  extractionRulesResponseSchema,
+  feedOutputFormatSchema,
+  feedOutputSchema,
+  feedOutputTokenResponseSchema,
   feedRecommendationsResponseSchema,
   forgotPasswordRequestSchema,
+  highlightExportQuerySchema,
+  highlightExportStatusSchema,
+  highlightListQuerySchema,
+  highlightListResponseSchema,
   joinAccountRequestSchema,
   listClustersQuerySchema,
   loginRequestSchema,
@@ -33,10 +61,19 @@ import {
   opmlImportResponseSchema,
   pollFeedNowRequestSchema,
   privacyConsentSchema,
+  pushHighlightsToReadwiseRequestSchema,
+  pushHighlightsToReadwiseResponseSchema,
   pushSubscribeRequestSchema,
   pushUnsubscribeRequestSchema,
+  readerImportJobSchema,
+  readerImportRequestSchema,
+  readLaterConnectionSchema,
+  readLaterDeliveryQuerySchema,
+  readLaterDeliverySchema,
   recordDwellRequestSchema,
+  relatedClustersResponseSchema,
   renameTopicRequestSchema,
+  reorderFoldersRequestSchema,
   requestAccountDeletionSchema,
   resendVerificationRequestSchema,
   resetPasswordRequestSchema,
@@ -44,32 +81,65 @@ import {
   type SearchQuery,
   sanitizeForPrompt,
   searchQuerySchema,
+  sendToReadLaterRequestSchema,
+  setClientApiPasswordRequestSchema,
   signupRequestSchema,
   statsQuerySchema,
+  updateExtractionRuleRequestSchema,
   updateFeedRequestSchema,
   updateFilterRuleRequestSchema,
+  updateFolderRequestSchema,
+  updateMediaProgressRequestSchema,
   updateMemberRequestSchema,
   updatePrivacyConsentRequestSchema,
+  updateReadLaterConnectionRequestSchema,
   updateSettingsRequestSchema,
+  updateWebhookSubscriptionRequestSchema,
+  updateWorkspaceSettingsRequestSchema,
+  webhookDeliverySchema,
+  webhookSubscriptionSchema,
 } from "@rss-wrangler/contracts";
 import type { FastifyPluginAsync, FastifyRequest } from "fastify";
 import { PgBoss } from "pg-boss";
 import { z } from "zod";
 import type { ApiEnv } from "../config/env";
 import { getAccountEntitlements } from "../plugins/entitlements";
+import { createAccountArchiveService } from "../services/account-archive-service";
 import {
   checkBudget,
   ensureAiUsageTable,
   getMonthlyUsage,
   recordAiUsage,
 } from "../services/ai-usage-service";
+import { createApiTokenService } from "../services/api-token-service";
 import { createAuthService } from "../services/auth-service";
 import { createBillingService } from "../services/billing-service";
+import { createClientApiCredentialService } from "../services/client-api-credential-service";
+import { createDigestEmailService, type DigestEmailAction } from "../services/digest-email-service";
+import { discoverFeeds, discoverFeedUrl } from "../services/feed-discovery-service";
+import { createFeedOutputService, renderFeedOutput } from "../services/feed-output-service";
+import { createHighlightExportService } from "../services/highlight-export-service";
+import {
+  createImageProxyService,
+  rewritePayloadImages,
+  verifyImageSignature,
+} from "../services/image-proxy-service";
 import { parseOpml } from "../services/opml-parser";
-import { computeDisplayMode, PostgresStore } from "../services/postgres-store";
+import {
+  computeDisplayMode,
+  memberStateJoinSql,
+  PostgresStore,
+  repVideoJoinSql,
+  toVideoEmbed,
+} from "../services/postgres-store";
 import { requiresExplicitConsent, resolveCountryCode } from "../services/privacy-consent-service";
+import { createReadLaterService } from "../services/read-later-service";
+import { createReaderImportService } from "../services/reader-import-service";
 import { dismissRecommendation, getRecommendations } from "../services/recommendation-service";
+import { resolveSearchMode } from "../services/semantic-search-service";
 import { validateFeedUrl } from "../services/url-validator";
+import { createWebhookService } from "../services/webhook-service";
+import { createWebSubService } from "../services/websub-service";
 
 const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
 
@@ -78,8 +148,19 @@ const feedIdParams = z.object({ id: z.string().uuid() });
 const filterIdParams = z.object({ id: z.string().uuid() });
 const annotationIdParams = z.object({ id: z.string().uuid() });
 const topicIdParams = z.object({ id: z.string().uuid() });
+const folderIdParams = z.object({ id: z.string().uuid() });
+const extractionRuleIdParams = z.object({ id: z.string().uuid() });
+const extractionPreviewIdParams = z.object({ id: z.string().uuid() });
 const inviteIdParams = z.object({ id: z.string().uuid() });
 const memberIdParams = z.object({ id: z.string().uuid() });
+const apiTokenIdParams = z.object({ id: z.string().uuid() });
+const feedOutputIdParams = z.object({ id: z.string().uuid() });
+const webhookIdParams = z.object({ id: z.string().uuid() });
+const readLaterConnectionIdParams = z.object({ id: z.string().uuid() });
+const itemIdParams = z.object({ id: z.string().uuid() });
+const relatedClustersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
 
 const authRefreshSchema = z.object({
   refreshToken: z.string().min(1),
@@ -89,16 +170,91 @@ const authLogoutSchema = z.object({
   refreshToken: z.string().optional(),
 });
 
+const webSubCallbackParams = z.object({
+  accountId: z.string().uuid(),
+  feedId: z.string().uuid(),
+});
+
+const webSubIntentQuerySchema = z.object({
+  "hub.mode": z.enum(["subscribe", "unsubscribe", "denied"]),
+  "hub.topic": z.string().min(1),
+  "hub.challenge": z.string().min(1).max(1024).optional(),
+  "hub.lease_seconds": z.coerce.number().int().min(0).optional(),
+  token: z.string().min(1).max(128).optional(),
+});
+
 const verifyEmailQuerySchema = z.object({
   token: z.string().min(12).max(512),
 });
 
+const digestEmailActionQuerySchema = z.object({
+  token: z.string().min(16).max(1024),
+});
+
+const imageProxyParams = z.object({
+  signature: z.string().regex(/^[A-Za-z0-9_-]{16,64}$/),
+});
+
+const imageProxyQuerySchema = z.object({
+  url: z.string().url().max(4096),
+  size: z.enum(["thumbnail", "card", "article"]).default("card"),
+});
+
+const feedOutputFeedParams = z.object({
+  token: z.string().min(16).max(256),
+  format: feedOutputFormatSchema,
+});
+
+const digestEmailActionBodySchema = z.object({
+  confirm: z.string().optional(),
+  "List-Unsubscribe": z.string().optional(),
+});
+
+const DIGEST_EMAIL_ACTION_PROMPTS: Record<DigestEmailAction, { question: string; button: string }> =
+  {
+    read: { question: "Mark this story as read?", button: "Mark as read" },
+    save: { question: "Save this story for later?", button: "Save for later" },
+    unsubscribe: { question: "Stop receiving digest emails?", button: "Unsubscribe" },
+  };
+
+const DIGEST_EMAIL_ACTION_MESSAGES: Record<DigestEmailAction, string> = {
+  read: "Marked as read.",
+  save: "Saved for later.",
+  unsubscribe: "You will no longer receive digest emails.",
+};
+
+/** A minimal standalone page for digest email links, which open outside the app. */
+function digestEmailActionPage(title: string, body: string): string {
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head><body style="font-family:sans-serif;padding:32px;text-align:center;">${body}</body></html>`;
+}
+
 const PROCESS_FEED_JOB = "process-feed";
 const GENERATE_DIGEST_FOR_ACCOUNT_JOB = "generate-digest-for-account";
+const DELIVER_WEBHOOKS_JOB = "deliver-webhooks";
+const DELIVER_READ_LATER_JOB = "deliver-read-later";
+const PREVIEW_EXTRACTION_JOB = "preview-extraction";
+const ACCOUNT_ARCHIVE_BODY_LIMIT_BYTES = 50 * 1024 * 1024;
+const READER_IMPORT_BODY_LIMIT_BYTES = 25 * 1024 * 1024;
 
 export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }) => {
   const auth = createAuthService(app, env, app.pg);
   const billing = createBillingService(env, app.pg, app.log);
+  const webSub = createWebSubService(app.pg);
+  const digestEmail = createDigestEmailService(app.pg, env.EMAIL_LINK_SECRET);
+  const clientApiCredentials = createClientApiCredentialService(app.pg);
+  const apiTokens = createApiTokenService(app.pg);
+  const feedOutputs = createFeedOutputService(app.pg);
+  const webhooks = createWebhookService();
+  const accountArchive = createAccountArchiveService();
+  const readerImports = createReaderImportService(app.pg, app.log);
+  const readLater = createReadLaterService(env.READ_LATER_CREDENTIALS_KEY);
+  const highlightExports = createHighlightExportService(env.READ_LATER_CREDENTIALS_KEY);
+  const imageProxySecret = env.IMAGE_PROXY_SECRET;
+  const imageProxy = createImageProxyService({
+    cacheDirectory: env.IMAGE_CACHE_DIR ?? path.join(os.tmpdir(), "rss-wrangler-images"),
+    cacheMaxBytes: env.IMAGE_CACHE_MAX_MB * 1024 * 1024,
+    log: app.log,
+  });
   const jobs = new PgBoss({
     connectionString: env.DATABASE_URL,
     application_name: "rss-wrangler-api",
@@ -107,6 +263,9 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
   await jobs.start();
   await jobs.createQueue(PROCESS_FEED_JOB);
   await jobs.createQueue(GENERATE_DIGEST_FOR_ACCOUNT_JOB);
+  await jobs.createQueue(DELIVER_WEBHOOKS_JOB);
+  await jobs.createQueue(DELIVER_READ_LATER_JOB);
+  await jobs.createQueue(PREVIEW_EXTRACTION_JOB);
   await ensureAiUsageTable(app.pg);
 
   app.addHook("onClose", async () => {
@@ -208,6 +367,82 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
     return directoryListResponseSchema.parse({ items, total });
   });
 
+  // Re-published digests and views for feed readers; the URL token is the credential.
+  app.get(
+    "/v1/outputs/:token/:format",
+    {
+      config: {
+        rateLimit: {
+          max: 60,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = feedOutputFeedParams.safeParse(request.params);
+      if (!params.success) {
+        return reply.notFound("feed output not found");
+      }
+      const identity = await feedOutputs.authenticate(params.data.token);
+      if (!identity) {
+        return reply.notFound("feed output not found");
+      }
+
+      const feed = await feedOutputs.buildFeed(identity, {
+        appBaseUrl: env.APP_BASE_URL,
+        feedUrl: `${request.protocol}://${request.host}${request.url}`,
+      });
+      if (feed === "not_found") {
+        return reply.notFound(
+          "the folder, topic or saved search behind this feed no longer exists",
+        );
+      }
+
+      const rendered = renderFeedOutput(feed, params.data.format);
+      return reply
+        .header("cache-control", "private, max-age=300")
+        .type(rendered.contentType)
+        .send(rendered.body);
+    },
+  );
+
+  // Hero and article images, fetched and resized on behalf of readers so
+  // publishers never see their IPs. Public, because <img> cannot send a bearer
+  // token; the signature keeps it from being an open proxy.
+  app.get(
+    "/v1/images/:signature",
+    {
+      config: {
+        rateLimit: {
+          max: 1200,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!imageProxySecret) {
+        return reply.code(503).send({
+          error: "image_proxy_not_configured",
+          message: "IMAGE_PROXY_SECRET is not set",
+        });
+      }
+      const { signature } = imageProxyParams.parse(request.params);
+      const { url, size } = imageProxyQuerySchema.parse(request.query);
+      if (!verifyImageSignature(imageProxySecret, url, signature)) {
+        return reply.forbidden("invalid image signature");
+      }
+
+      const image = await imageProxy.getImage(url, size);
+      return reply
+        .header("cache-control", image.cacheControl)
+        .header("content-security-policy", "default-src 'none'; style-src 'unsafe-inline'")
+        .header("x-content-type-options", "nosniff")
+        .header("x-image-proxy", image.source)
+        .type(image.contentType)
+        .send(image.body);
+    },
+  );
+
   app.post(
     "/v1/billing/webhooks/lemon-squeezy",
     {
@@ -248,6 +483,135 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
     },
   );
 
+  // WebSub intent verification: hubs confirm (un)subscribe requests here.
+  app.get("/v1/websub/:accountId/:feedId", async (request, reply) => {
+    const { accountId, feedId } = webSubCallbackParams.parse(request.params);
+    const query = webSubIntentQuerySchema.parse(request.query);
+
+    const result = await webSub.confirmIntent(accountId, feedId, {
+      mode: query["hub.mode"],
+      topic: query["hub.topic"],
+      callbackToken: query.token,
+      challenge: query["hub.challenge"],
+      leaseSeconds: query["hub.lease_seconds"],
+    });
+    if (result === "not_found" || result === "topic_mismatch" || result === "not_pending") {
+      return reply.notFound("unknown subscription");
+    }
+    if (query["hub.mode"] === "subscribe" && !result.challenge) {
+      return reply.badRequest("missing hub.challenge");
+    }
+
+    return reply.type("text/plain").send(result.challenge ?? "");
+  });
+
+  // WebSub content distribution: hubs push updated feed documents here.
+  app.post(
+    "/v1/websub/:accountId/:feedId",
+    {
+      config: {
+        rawBody: true,
+        rateLimit: {
+          max: 120,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request, reply) => {
+      const { accountId, feedId } = webSubCallbackParams.parse(request.params);
+      const signatureHeader = Array.isArray(request.headers["x-hub-signature"])
+        ? request.headers["x-hub-signature"][0]
+        : request.headers["x-hub-signature"];
+
+      if (typeof request.rawBody !== "string" || request.rawBody.length === 0) {
+        return reply.badRequest("missing push body");
+      }
+
+      const result = await webSub.acceptPush(accountId, feedId, request.rawBody, signatureHeader);
+      if (result === "not_found") {
+        return reply.notFound("unknown subscription");
+      }
+      if (result === "invalid_signature") {
+        // Per spec, acknowledge but drop content that fails authentication.
+        request.log.warn({ feedId }, "websub push signature mismatch");
+        return reply.code(202).send({ ok: true });
+      }
+
+      await jobs.send(PROCESS_FEED_JOB, {
+        ...result.feed,
+        tenantId: result.feed.accountId,
+        backfillSince: null,
+        pushedPayload: request.rawBody,
+      });
+
+      return reply.code(202).send({ ok: true });
+    },
+  );
+
+  // Links from digest emails. GET only shows a confirmation form, so mail
+  // scanners and prefetchers that follow links change nothing; the form POSTs
+  // back with `confirm=1`. A POST carrying `List-Unsubscribe=One-Click` is the
+  // RFC 8058 List-Unsubscribe-Post target mail clients call directly.
+  const digestEmailActionConfig = {
+    config: {
+      rateLimit: {
+        max: 30,
+        timeWindow: "1 minute",
+      },
+    },
+  };
+
+  app.get("/v1/digest-email/action", digestEmailActionConfig, async (request, reply) => {
+    const query = digestEmailActionQuerySchema.parse(request.query);
+    const action = digestEmail.describeAction(query.token);
+    if (action === "invalid_token") {
+      return reply.badRequest("invalid or expired link");
+    }
+
+    const prompt = DIGEST_EMAIL_ACTION_PROMPTS[action];
+    return reply
+      .type("text/html; charset=utf-8")
+      .send(
+        digestEmailActionPage(
+          prompt.question,
+          `<p>${prompt.question}</p><form method="post" action="?token=${encodeURIComponent(query.token)}"><input type="hidden" name="confirm" value="1"><button type="submit">${prompt.button}</button></form>`,
+        ),
+      );
+  });
+
+  app.post("/v1/digest-email/action", digestEmailActionConfig, async (request, reply) => {
+    const query = digestEmailActionQuerySchema.parse(request.query);
+    const body = digestEmailActionBodySchema.parse(request.body ?? {});
+    const oneClick = body["List-Unsubscribe"] === "One-Click";
+    if (!oneClick && body.confirm !== "1") {
+      return reply.badRequest("confirm the action from the link in the email");
+    }
+
+    const result = await digestEmail.applyAction(query.token, { oneClick });
+    if (result === "invalid_token") {
+      return reply.badRequest("invalid or expired link");
+    }
+    if (result === "not_found") {
+      return reply.notFound("story or member not found");
+    }
+    if (oneClick) {
+      return { ok: true };
+    }
+
+    const message = DIGEST_EMAIL_ACTION_MESSAGES[result.action];
+    const target = result.clusterId
+      ? `${env.APP_BASE_URL}/clusters/${result.clusterId}`
+      : `${env.APP_BASE_URL}/settings`;
+    return reply
+      .type("text/html; charset=utf-8")
+      .send(
+        digestEmailActionPage(
+          message,
+          `<p>${message}</p><p><a href="${target}">Open RSS Wrangler</a></p>`,
+        ),
+      );
+  });
+
   app.post(
     "/v1/auth/login",
     {
@@ -415,6 +779,11 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       // Debounced activity tracking (fire-and-forget, doesn't block response)
       touchLastActive(accountId);
     });
+    if (imageProxySecret) {
+      protectedRoutes.addHook("preSerialization", async (request, _reply, payload) =>
+        rewritePayloadImages(payload, imageProxySecret, `${request.protocol}://${request.host}`),
+      );
+    }
     protectedRoutes.addHook("onResponse", async (request) => {
       await releaseAccountClient(request);
     });
@@ -423,25 +792,25 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
     });
 
     const storeFor = (request: FastifyRequest) => {
-      const accountId = request.authContext?.accountId;
-      if (!accountId) {
+      const { accountId, userId } = request.authContext ?? {};
+      if (!accountId || !userId) {
         throw app.httpErrors.unauthorized("missing account context");
       }
       if (!request.dbClient) {
         throw app.httpErrors.internalServerError("missing account db context");
       }
-      return new PostgresStore(request.dbClient, accountId);
+      return new PostgresStore(request.dbClient, accountId, userId);
     };
 
     const accountContextFor = (request: FastifyRequest) => {
-      const accountId = request.authContext?.accountId;
-      if (!accountId) {
+      const { accountId, userId } = request.authContext ?? {};
+      if (!accountId || !userId) {
         throw app.httpErrors.unauthorized("missing account context");
       }
       if (!request.dbClient) {
         throw app.httpErrors.internalServerError("missing account db context");
       }
-      return { accountId, dbClient: request.dbClient };
+      return { accountId, userId, dbClient: request.dbClient };
     };
 
     const entitlementsFor = async (request: FastifyRequest) => {
@@ -449,6 +818,37 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       return getAccountEntitlements(dbClient, accountId);
     };
 
+    /**
+     * Embeds a search query with the account's embedding provider. Returns null
+     * when AI is off, no provider can embed, or the monthly budget is spent, so
+     * callers can fall back to full-text search.
+     */
+    const embedSearchQuery = async (request: FastifyRequest, text: string) => {
+      const provider = aiRegistry.getEmbeddingProvider();
+      if (!provider?.embed) return null;
+      const { accountId } = accountContextFor(request);
+      const settings = await storeFor(request).getSettings();
+      if (settings.aiMode === "off") return null;
+      const budget = await checkBudget(app.pg, accountId);
+      if (!budget.allowed) return null;
+
+      const response = await provider.embed({ input: [text] });
+      const vector = response.vectors[0];
+      if (response.error || !vector) return null;
+
+      await recordAiUsage(app.pg, {
+        accountId,
+        provider: response.provider,
+        model: response.model,
+        inputTokens: response.inputTokens,
+        outputTokens: 0,
+        estimatedCostUsd: estimateCostUsd(response.model, response.inputTokens, 0),
+        feature: "embedding",
+        durationMs: response.durationMs,
+      });
+      return { vector, model: response.model };
+    };
+
     protectedRoutes.get("/v1/clusters", async (request) => {
       const query = listClustersQuerySchema.parse(request.query);
       const store = storeFor(request);
@@ -499,6 +899,24 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       return { ok: true };
     });
 
+    protectedRoutes.post("/v1/clusters/:id/shared-save", async (request, reply) => {
+      const { id } = clusterIdParams.parse(request.params);
+      const store = storeFor(request);
+      if (!(await store.shareSavedCluster(id))) {
+        return reply.notFound("cluster not found");
+      }
+      return { ok: true };
+    });
+
+    protectedRoutes.delete("/v1/clusters/:id/shared-save", async (request, reply) => {
+      const { id } = clusterIdParams.parse(request.params);
+      const store = storeFor(request);
+      if (!(await store.unshareSavedCluster(id))) {
+        return reply.notFound("cluster is not in the shared collection");
+      }
+      return { ok: true };
+    });
+
     protectedRoutes.post("/v1/clusters/:id/split", async (request, reply) => {
       const { id } = clusterIdParams.parse(request.params);
       const store = storeFor(request);
@@ -544,6 +962,61 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       return { ok: true };
     });
 
+    // ---------- Highlights library & export ----------
+
+    protectedRoutes.get("/v1/highlights", async (request) => {
+      const query = highlightListQuerySchema.parse(request.query ?? {});
+      const { accountId, dbClient } = accountContextFor(request);
+      const page = await highlightExports.listHighlights(dbClient, accountId, query);
+      return highlightListResponseSchema.parse(page);
+    });
+
+    protectedRoutes.get("/v1/highlights/export/status", async (request) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const status = await highlightExports.listStatus(dbClient, accountId, userId);
+      return z.array(highlightExportStatusSchema).parse(status);
+    });
+
+    protectedRoutes.get("/v1/highlights/export", async (request, reply) => {
+      const { format, incremental } = highlightExportQuerySchema.parse(request.query ?? {});
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const result = await highlightExports.exportHighlights(
+        dbClient,
+        accountId,
+        userId,
+        format,
+        incremental,
+      );
+      if (result === "empty") {
+        return reply.notFound(
+          incremental ? "no new highlights since the last export" : "no highlights to export",
+        );
+      }
+      return reply
+        .header("Content-Type", result.contentType)
+        .header("Content-Disposition", `attachment; filename="${result.filename}"`)
+        .send(result.body);
+    });
+
+    protectedRoutes.post("/v1/highlights/readwise", async (request, reply) => {
+      const payload = pushHighlightsToReadwiseRequestSchema.parse(request.body ?? {});
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const result = await highlightExports.pushToReadwise(dbClient, accountId, userId, payload);
+      if (result === "not_configured") {
+        return reply.code(503).send({
+          error: result,
+          message: "Read-later connectors are not configured on this server.",
+        });
+      }
+      if (result === "no_connection") {
+        return reply.badRequest("connect Readwise under read-later services first");
+      }
+      if ("failed" in result) {
+        return reply.code(502).send({ error: "readwise_failed", message: result.failed });
+      }
+      return pushHighlightsToReadwiseResponseSchema.parse(result);
+    });
+
     // ---------- Cluster AI summary ----------
 
     protectedRoutes.get("/v1/clusters/:id/summary", async (request, reply) => {
@@ -678,11 +1151,140 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       }
     });
 
+    protectedRoutes.get("/v1/clusters/:id/related", async (request, reply) => {
+      const { id } = clusterIdParams.parse(request.params);
+      const { limit } = relatedClustersQuerySchema.parse(request.query);
+      const store = storeFor(request);
+      const related = await store.listRelatedClusters(id, limit);
+      if (!related) {
+        return reply.notFound("cluster not found");
+      }
+      return relatedClustersResponseSchema.parse({ data: related });
+    });
+
     protectedRoutes.get("/v1/folders", async (request) => {
       const store = storeFor(request);
       return store.listFolders();
     });
 
+    protectedRoutes.post("/v1/folders", async (request, reply) => {
+      const payload = createFolderRequestSchema.parse(request.body);
+      const store = storeFor(request);
+      const folder = await store.createFolder(payload);
+      if (folder === "parent_not_found") return reply.badRequest("parent folder not found");
+      if (folder === "name_taken") return reply.conflict("a folder with that name already exists");
+      return folder;
+    });
+
+    protectedRoutes.put("/v1/folders/order", async (request, reply) => {
+      const payload = reorderFoldersRequestSchema.parse(request.body);
+      const store = storeFor(request);
+      const ok = await store.reorderFolders(payload);
+      if (!ok) return reply.badRequest("every folder must be a child of parentId");
+      return { ok: true };
+    });
+
+    protectedRoutes.patch("/v1/folders/:id", async (request, reply) => {
+      const { id } = folderIdParams.parse(request.params);
+      const patch = updateFolderRequestSchema.parse(request.body);
+      const store = storeFor(request);
+      const folder = await store.updateFolder(id, patch);
+      if (!folder) return reply.notFound("folder not found");
+      if (folder === "built_in") return reply.conflict("built-in folders cannot be renamed");
+      if (folder === "name_taken") return reply.conflict("a folder with that name already exists");
+      if (folder === "invalid_parent") {
+        return reply.badRequest("a folder cannot move into itself or one of its subfolders");
+      }
+      return folder;
+    });
+
+    protectedRoutes.delete("/v1/folders/:id", async (request, reply) => {
+      const { id } = folderIdParams.parse(request.params);
+      const { reassignTo } = deleteFolderQuerySchema.parse(request.query);
+      const store = storeFor(request);
+      const result = await store.deleteFolder(id, reassignTo);
+      if (!result) return reply.notFound("folder not found");
+      if (result === "protected") return reply.conflict("the Other folder cannot be deleted");
+      if (result === "invalid_target") {
+        return reply.badRequest("reassignTo must be a different, existing folder");
+      }
+      return { ok: true };
+    });
+
+    // ---------- Extraction rules ----------
+
+    protectedRoutes.get("/v1/extraction-rules", async (request) => {
+      const store = storeFor(request);
+      return extractionRulesResponseSchema.parse(await store.listExtractionRules());
+    });
+
+    protectedRoutes.post("/v1/extraction-rules", async (request, reply) => {
+      const payload = createExtractionRuleRequestSchema.parse(request.body);
+      const store = storeFor(request);
+      const rule = await store.createExtractionRule(payload);
+      if (rule === "domain_taken") {
+        return reply.conflict("a rule for that domain already exists");
+      }
+      return extractionRuleSchema.parse(rule);
+    });
+
+    protectedRoutes.patch("/v1/extraction-rules/:id", async (request, reply) => {
+      const { id } = extractionRuleIdParams.parse(request.params);
+      const patch = updateExtractionRuleRequestSchema.parse(request.body);
+      const store = storeFor(request);
+      const rule = await store.updateExtractionRule(id, patch);
+      if (!rule) return reply.notFound("extraction rule not found");
+      if (rule === "domain_taken") {
+        return reply.conflict("a rule for that domain already exists");
+      }
+      return extractionRuleSchema.parse(rule);
+    });
+
+    protectedRoutes.delete("/v1/extraction-rules/:id", async (request, reply) => {
+      const { id } = extractionRuleIdParams.parse(request.params);
+      const store = storeFor(request);
+      const deleted = await store.deleteExtractionRule(id);
+      if (!deleted) return reply.notFound("extraction rule not found");
+      return { ok: true };
+    });
+
+    protectedRoutes.post("/v1/extraction-previews", async (request, reply) => {
+      const { url } = extractionPreviewRequestSchema.parse(request.body);
+      const urlError = validateFeedUrl(url);
+      if (urlError) {
+        return reply.badRequest(urlError);
+      }
+      const { accountId } = accountContextFor(request);
+      const store = storeFor(request);
+      const preview = await store.createExtractionPreview(url);
+
+      let jobId: string | null = null;
+      try {
+        jobId = await jobs.send(PREVIEW_EXTRACTION_JOB, { accountId, previewId: preview.id });
+      } catch (error) {
+        request.log.error(
+          { err: error, accountId, previewId: preview.id },
+          "extraction preview queue send failed",
+        );
+      }
+      if (!jobId) {
+        await store.failExtractionPreview(preview.id, "could not queue extraction preview");
+        return reply.code(503).send({
+          error: "queue_unavailable",
+          message: "could not queue extraction preview job",
+        });
+      }
+      return reply.code(202).send(extractionPreviewSchema.parse(preview));
+    });
+
+    protectedRoutes.get("/v1/extraction-previews/:id", async (request, reply) => {
+      const { id } = extractionPreviewIdParams.parse(request.params);
+      const store = storeFor(request);
+      const preview = await store.getExtractionPreview(id);
+      if (!preview) return reply.notFound("extraction preview not found");
+      return extractionPreviewSchema.parse(preview);
+    });
+
     // ---------- Topics ----------
 
     protectedRoutes.get("/v1/topics", async (request) => {
@@ -764,12 +1366,37 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       return { categories: suggestions };
     });
 
+    protectedRoutes.post(
+      "/v1/feeds/discover",
+      {
+        config: {
+          rateLimit: {
+            max: 20,
+            timeWindow: "1 minute",
+          },
+        },
+      },
+      async (request, reply) => {
+        const payload = discoverFeedsRequestSchema.parse(request.body);
+        const urlError = validateFeedUrl(payload.url);
+        if (urlError) {
+          return reply.badRequest(urlError);
+        }
+        const candidates = await discoverFeeds(payload.url);
+        return { candidates };
+      },
+    );
+
     protectedRoutes.post("/v1/feeds", async (request, reply) => {
       const payload = addFeedRequestSchema.parse(request.body);
       const urlError = validateFeedUrl(payload.url);
       if (urlError) {
         return reply.badRequest(urlError);
       }
+      const feedUrl = await discoverFeedUrl(payload.url);
+      if (!feedUrl) {
+        return reply.badRequest("could not find a feed for this URL");
+      }
 
       const entitlements = await entitlementsFor(request);
       if (entitlements.feedLimit !== null && entitlements.usage.feeds >= entitlements.feedLimit) {
@@ -781,7 +1408,7 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       }
 
       const store = storeFor(request);
-      const feed = await store.addFeed(payload);
+      const feed = await store.addFeed({ ...payload, url: feedUrl });
 
       // Queue immediate poll so the user sees stories right away
       const authContext = request.authContext;
@@ -1055,6 +1682,14 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
       return store.listDigests();
     });
 
+    protectedRoutes.post("/v1/digest/preview", async (request) => {
+      const payload = digestPreviewRequestSchema.parse(request.body ?? {});
+      const store = storeFor(request);
+      return digestPreviewSchema.parse(
+        await store.previewDigest(payload.sections, payload.windowHours),
+      );
+    });
+
     protectedRoutes.post(
       "/v1/digest/generate",
       {
@@ -1074,6 +1709,7 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
         try {
           const jobId = await jobs.send(GENERATE_DIGEST_FOR_ACCOUNT_JOB, {
             accountId: authContext.accountId,
+            userId: authContext.userId,
           });
 
           if (!jobId) {
@@ -1326,6 +1962,400 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
         .send(body);
     });
 
+    protectedRoutes.get("/v1/account/archive", async (request, reply) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const result = await accountArchive.exportArchive(dbClient, accountId, userId);
+      if (result === "not_found") {
+        return reply.notFound("account not found");
+      }
+      return reply
+        .header("Content-Type", "application/zip")
+        .header("Content-Disposition", `attachment; filename="${result.filename}"`)
+        .send(result.archive);
+    });
+
+    protectedRoutes.post(
+      "/v1/account/archive/import",
+      { bodyLimit: ACCOUNT_ARCHIVE_BODY_LIMIT_BYTES },
+      async (request, reply) => {
+        const query = accountImportQuerySchema.parse(request.query ?? {});
+        if (!Buffer.isBuffer(request.body)) {
+          return reply.badRequest("send the archive as an application/zip body");
+        }
+
+        const entitlements = await entitlementsFor(request);
+        const feedSlots =
+          entitlements.feedLimit === null
+            ? null
+            : Math.max(entitlements.feedLimit - entitlements.usage.feeds, 0);
+
+        const { accountId, userId, dbClient } = accountContextFor(request);
+        const result = await accountArchive.importArchive(
+          dbClient,
+          accountId,
+          userId,
+          request.body,
+          { ...query, feedSlots },
+        );
+        if ("invalid" in result) {
+          return reply.badRequest(result.invalid);
+        }
+        return accountImportReportSchema.parse(result);
+      },
+    );
+
+    // ---------- Imports from other readers ----------
+
+    protectedRoutes.get("/v1/imports", async (request) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const jobs = await readerImports.listJobs(dbClient, accountId, userId);
+      return jobs.map((job) => readerImportJobSchema.parse(job));
+    });
+
+    protectedRoutes.post(
+      "/v1/imports",
+      { bodyLimit: READER_IMPORT_BODY_LIMIT_BYTES },
+      async (request, reply) => {
+        const body = readerImportRequestSchema.parse(request.body);
+        const entitlements = await entitlementsFor(request);
+        const feedSlots =
+          entitlements.feedLimit === null
+            ? null
+            : Math.max(entitlements.feedLimit - entitlements.usage.feeds, 0);
+
+        const { accountId, userId, dbClient } = accountContextFor(request);
+        const result = await readerImports.startImport(
+          dbClient,
+          accountId,
+          userId,
+          body,
+          feedSlots,
+        );
+        if (result === "already_running") {
+          return reply.conflict("an import is already running");
+        }
+        if ("invalid" in result) {
+          return reply.badRequest(result.invalid);
+        }
+        return reply.code(202).send(readerImportJobSchema.parse(result));
+      },
+    );
+
+    protectedRoutes.get("/v1/imports/:id", async (request, reply) => {
+      const { id } = z.object({ id: z.string().uuid() }).parse(request.params);
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const job = await readerImports.getJob(dbClient, accountId, userId, id);
+      if (!job) {
+        return reply.notFound("import not found");
+      }
+      return readerImportJobSchema.parse(job);
+    });
+
+    // ---------- Read-later connectors ----------
+
+    protectedRoutes.get("/v1/read-later/connections", async (request) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const connections = await readLater.listConnections(dbClient, accountId, userId);
+      return z.array(readLaterConnectionSchema).parse(connections);
+    });
+
+    protectedRoutes.post("/v1/read-later/connections", async (request, reply) => {
+      const payload = createReadLaterConnectionRequestSchema.parse(request.body);
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const result = await readLater.createConnection(dbClient, accountId, userId, payload);
+      if (result === "not_configured") {
+        return reply.code(503).send({
+          error: result,
+          message: "Read-later connectors are not configured on this server.",
+        });
+      }
+      if (result === "not_found") {
+        return reply.notFound("connection not found");
+      }
+      if ("invalid" in result) {
+        return reply.badRequest(result.invalid);
+      }
+      return reply.code(201).send(readLaterConnectionSchema.parse(result));
+    });
+
+    protectedRoutes.patch("/v1/read-later/connections/:id", async (request, reply) => {
+      const { id } = readLaterConnectionIdParams.parse(request.params);
+      const payload = updateReadLaterConnectionRequestSchema.parse(request.body);
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const result = await readLater.updateConnection(dbClient, accountId, userId, id, payload);
+      if (result === "not_configured") {
+        return reply.code(503).send({
+          error: result,
+          message: "Read-later connectors are not configured on this server.",
+        });
+      }
+      if (result === "not_found") {
+        return reply.notFound("connection not found");
+      }
+      if ("invalid" in result) {
+        return reply.badRequest(result.invalid);
+      }
+      return readLaterConnectionSchema.parse(result);
+    });
+
+    protectedRoutes.delete("/v1/read-later/connections/:id", async (request, reply) => {
+      const { id } = readLaterConnectionIdParams.parse(request.params);
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      if (!(await readLater.deleteConnection(dbClient, accountId, userId, id))) {
+        return reply.notFound("connection not found");
+      }
+      return { ok: true };
+    });
+
+    protectedRoutes.get("/v1/read-later/deliveries", async (request) => {
+      const { clusterId } = readLaterDeliveryQuerySchema.parse(request.query);
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const deliveries = await readLater.listDeliveries(dbClient, accountId, userId, clusterId);
+      return z.array(readLaterDeliverySchema).parse(deliveries);
+    });
+
+    protectedRoutes.post("/v1/clusters/:id/read-later", async (request, reply) => {
+      const { id } = clusterIdParams.parse(request.params);
+      const { connectionId } = sendToReadLaterRequestSchema.parse(request.body);
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const result = await readLater.sendCluster(dbClient, accountId, userId, id, connectionId);
+      if (result === "not_found") {
+        return reply.notFound("story or connection not found");
+      }
+      if (result === "disabled") {
+        return reply.conflict("connection is disabled");
+      }
+      // Send right away instead of waiting for the next scheduled run.
+      await jobs.send(DELIVER_READ_LATER_JOB, { accountId });
+      return reply.code(202).send(readLaterDeliverySchema.parse(result));
+    });
+
+    // ---------- Client API password (Fever) ----------
+
+    protectedRoutes.get("/v1/account/client-api", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const status = await clientApiCredentials.getStatus(dbClient, accountId, userId);
+      if (!status) {
+        return reply.notFound("user not found");
+      }
+      return clientApiCredentialStatusSchema.parse(status);
+    });
+
+    protectedRoutes.put("/v1/account/client-api", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const payload = setClientApiPasswordRequestSchema.parse(request.body);
+      const result = await clientApiCredentials.setPassword(
+        dbClient,
+        accountId,
+        userId,
+        payload.password,
+      );
+      if (result === "user_not_found") {
+        return reply.notFound("user not found");
+      }
+      const status = await clientApiCredentials.getStatus(dbClient, accountId, userId);
+      return clientApiCredentialStatusSchema.parse(status);
+    });
+
+    protectedRoutes.delete("/v1/account/client-api", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      await clientApiCredentials.revokePassword(dbClient, accountId, userId);
+      return { ok: true };
+    });
+
+    // ---------- Personal API tokens ----------
+
+    protectedRoutes.get("/v1/account/api-tokens", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const tokens = await apiTokens.listTokens(dbClient, accountId, userId);
+      return z.array(apiTokenSchema).parse(tokens);
+    });
+
+    protectedRoutes.post("/v1/account/api-tokens", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const payload = createApiTokenRequestSchema.parse(request.body);
+      const created = await apiTokens.createToken(dbClient, accountId, userId, payload);
+      return reply.code(201).send(createApiTokenResponseSchema.parse(created));
+    });
+
+    protectedRoutes.delete("/v1/account/api-tokens/:id", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const { id } = apiTokenIdParams.parse(request.params);
+      const result = await apiTokens.revokeToken(dbClient, accountId, userId, id);
+      if (result === "not_found") {
+        return reply.notFound("API token not found");
+      }
+      return { ok: true };
+    });
+
+    // ---------- Feed outputs ----------
+
+    protectedRoutes.get("/v1/feed-outputs", async (request) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const outputs = await feedOutputs.listOutputs(dbClient, accountId, userId);
+      return z.array(feedOutputSchema).parse(outputs);
+    });
+
+    protectedRoutes.post("/v1/feed-outputs", async (request, reply) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const payload = createFeedOutputRequestSchema.parse(request.body);
+      const created = await feedOutputs.createOutput(dbClient, accountId, userId, payload);
+      if (created === "not_found") {
+        return reply.notFound(`${payload.kind.replace("_", " ")} not found`);
+      }
+      return reply.code(201).send(feedOutputTokenResponseSchema.parse(created));
+    });
+
+    protectedRoutes.post("/v1/feed-outputs/:id/rotate", async (request, reply) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const { id } = feedOutputIdParams.parse(request.params);
+      const rotated = await feedOutputs.rotateOutput(dbClient, accountId, userId, id);
+      if (rotated === "not_found") {
+        return reply.notFound("feed output not found");
+      }
+      return feedOutputTokenResponseSchema.parse(rotated);
+    });
+
+    protectedRoutes.delete("/v1/feed-outputs/:id", async (request, reply) => {
+      const { accountId, userId, dbClient } = accountContextFor(request);
+      const { id } = feedOutputIdParams.parse(request.params);
+      const result = await feedOutputs.deleteOutput(dbClient, accountId, userId, id);
+      if (result === "not_found") {
+        return reply.notFound("feed output not found");
+      }
+      return { ok: true };
+    });
+
+    // ---------- Outbound webhooks ----------
+
+    protectedRoutes.get("/v1/webhooks", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const result = await webhooks.listSubscriptions(dbClient, accountId, userId);
+      if (result === "not_owner") {
+        return reply.forbidden("only account owner can perform this action");
+      }
+      return z.array(webhookSubscriptionSchema).parse(result);
+    });
+
+    protectedRoutes.post("/v1/webhooks", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const payload = createWebhookSubscriptionRequestSchema.parse(request.body);
+      const result = await webhooks.createSubscription(dbClient, accountId, userId, payload);
+      if (result === "not_owner") {
+        return reply.forbidden("only account owner can perform this action");
+      }
+      if (result === "not_found") {
+        return reply.notFound("webhook not found");
+      }
+      if ("invalidUrl" in result) {
+        return reply.badRequest(result.invalidUrl);
+      }
+      return reply.code(201).send(webhookSubscriptionSchema.parse(result));
+    });
+
+    protectedRoutes.patch("/v1/webhooks/:id", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const { id } = webhookIdParams.parse(request.params);
+      const payload = updateWebhookSubscriptionRequestSchema.parse(request.body);
+      const result = await webhooks.updateSubscription(dbClient, accountId, userId, id, payload);
+      if (result === "not_owner") {
+        return reply.forbidden("only account owner can perform this action");
+      }
+      if (result === "not_found") {
+        return reply.notFound("webhook not found");
+      }
+      if ("invalidUrl" in result) {
+        return reply.badRequest(result.invalidUrl);
+      }
+      return webhookSubscriptionSchema.parse(result);
+    });
+
+    protectedRoutes.delete("/v1/webhooks/:id", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const { id } = webhookIdParams.parse(request.params);
+      const result = await webhooks.deleteSubscription(dbClient, accountId, userId, id);
+      if (result === "not_owner") {
+        return reply.forbidden("only account owner can perform this action");
+      }
+      if (result === "not_found") {
+        return reply.notFound("webhook not found");
+      }
+      return { ok: true };
+    });
+
+    protectedRoutes.post("/v1/webhooks/:id/test", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const { id } = webhookIdParams.parse(request.params);
+      const result = await webhooks.queueTestEvent(dbClient, accountId, userId, id);
+      if (result === "not_owner") {
+        return reply.forbidden("only account owner can perform this action");
+      }
+      if (result === "not_found") {
+        return reply.notFound("webhook not found");
+      }
+      // Deliver right away instead of waiting for the next scheduled run.
+      await jobs.send(DELIVER_WEBHOOKS_JOB, { accountId });
+      return reply.code(202).send(webhookDeliverySchema.parse(result));
+    });
+
+    protectedRoutes.get("/v1/webhooks/:id/deliveries", async (request, reply) => {
+      const { accountId, dbClient } = accountContextFor(request);
+      const userId = request.authContext?.userId;
+      if (!userId) {
+        return reply.unauthorized("missing auth context");
+      }
+      const { id } = webhookIdParams.parse(request.params);
+      const result = await webhooks.listDeliveries(dbClient, accountId, userId, id);
+      if (result === "not_owner") {
+        return reply.forbidden("only account owner can perform this action");
+      }
+      return z.array(webhookDeliverySchema).parse(result);
+    });
+
     protectedRoutes.get("/v1/account/entitlements", async (request) => {
       const entitlements = await entitlementsFor(request);
       return accountEntitlementsSchema.parse(entitlements);
@@ -1514,23 +2544,47 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
 
     protectedRoutes.get("/v1/settings", async (request) => {
       const store = storeFor(request);
-      return store.getSettings();
+      return store.getSettingsView();
     });
 
-    protectedRoutes.post("/v1/settings", async (request) => {
+    protectedRoutes.post("/v1/settings", async (request, reply) => {
       const payload = updateSettingsRequestSchema.parse(request.body);
       const store = storeFor(request);
-      return store.updateSettings(payload);
+      const result = await store.updateSettings(payload, request.body);
+      if ("locked" in result) {
+        return reply.forbidden(`locked by the workspace owner: ${result.locked.join(", ")}`);
+      }
+      return result;
+    });
+
+    protectedRoutes.post("/v1/settings/workspace", async (request, reply) => {
+      const payload = updateWorkspaceSettingsRequestSchema.parse(request.body);
+      const store = storeFor(request);
+      const result = await store.updateWorkspaceSettings(payload);
+      if (result === "not_owner") {
+        return reply.forbidden("only account owner can perform this action");
+      }
+      return result;
     });
 
-    protectedRoutes.get("/v1/search", async (request) => {
+    protectedRoutes.get("/v1/search", async (request, reply) => {
       const query = searchQuerySchema.parse(request.query);
       const entitlements = await entitlementsFor(request);
-      if (entitlements.searchMode === "title_source") {
-        const { accountId, dbClient } = accountContextFor(request);
-        return searchClustersTitleAndSource(dbClient, accountId, query);
+      const mode = resolveSearchMode(query.mode, entitlements.searchMode);
+      if (!mode) {
+        return reply.forbidden(`${query.mode} search is not available on the current plan`);
+      }
+      if (mode === "title_source") {
+        const { accountId, userId, dbClient } = accountContextFor(request);
+        return searchClustersTitleAndSource(dbClient, accountId, userId, query);
       }
       const store = storeFor(request);
+      if (mode === "semantic") {
+        const embedding = await embedSearchQuery(request, query.q);
+        if (embedding) {
+          return store.searchClustersSemantic(query, embedding);
+        }
+      }
       return store.searchClusters(query);
     });
 
@@ -1556,6 +2610,17 @@ export const v1Routes: FastifyPluginAsync<{ env: ApiEnv }> = async (app, { env }
 
     // ---------- Dwell tracking ----------
 
+    protectedRoutes.post("/v1/items/:id/media-progress", async (request, reply) => {
+      const { id } = itemIdParams.parse(request.params);
+      const payload = updateMediaProgressRequestSchema.parse(request.body);
+      const store = storeFor(request);
+      const progress = await store.saveMediaProgress(id, payload);
+      if (!progress) {
+        return reply.notFound("item not found");
+      }
+      return progress;
+    });
+
     protectedRoutes.post("/v1/clusters/:id/dwell", async (request, reply) => {
       const { id } = clusterIdParams.parse(request.params);
       const payload = recordDwellRequestSchema.parse(request.body);
@@ -1770,6 +2835,7 @@ async function searchClustersTitleAndSource(
     query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) => Promise<{ rows: T[] }>;
   },
   accountId: string,
+  userId: string,
   query: SearchQuery,
 ): Promise<{ data: ClusterCard[]; nextCursor: string | null }> {
   const offset = query.cursor ? Number.parseInt(query.cursor, 10) || 0 : 0;
@@ -1779,8 +2845,8 @@ async function searchClustersTitleAndSource(
     "i.tenant_id = $2",
     "to_tsvector('english', COALESCE(i.title, '') || ' ' || COALESCE(source_feed.title, '')) @@ websearch_to_tsquery('english', $1)",
   ];
-  const params: unknown[] = [query.q, accountId];
-  let nextParam = 3;
+  const params: unknown[] = [query.q, accountId, userId];
+  let nextParam = 4;
 
   if (query.folderId) {
     whereConditions.push(`c.folder_id = $${nextParam}`);
@@ -1798,6 +2864,8 @@ async function searchClustersTitleAndSource(
         c.id,
         COALESCE(rep_i.title, 'Untitled') AS headline,
         rep_i.hero_image_url,
+        rep_video.url AS video_url,
+        rep_video.duration_seconds AS video_duration_seconds,
         COALESCE(rep_feed.id, '00000000-0000-0000-0000-000000000000') AS primary_feed_id,
         COALESCE(rep_feed.title, 'Unknown') AS primary_source,
         COALESCE(rep_i.published_at, c.created_at) AS primary_source_published_at,
@@ -1814,6 +2882,7 @@ async function searchClustersTitleAndSource(
         END AS muted_breakout_reason,
         rs.read_at,
         rs.saved_at,
+        ss.saved_at AS shared_saved_at,
         ts_rank(
           to_tsvector('english', COALESCE(i.title, '') || ' ' || COALESCE(source_feed.title, '')),
           websearch_to_tsquery('english', $1)
@@ -1838,9 +2907,7 @@ async function searchClustersTitleAndSource(
       LEFT JOIN topic t
         ON t.id = c.topic_id
        AND t.tenant_id = c.tenant_id
-      LEFT JOIN read_state rs
-        ON rs.cluster_id = c.id
-       AND rs.tenant_id = c.tenant_id
+      ${memberStateJoinSql("c", "$3")}
       LEFT JOIN LATERAL (
         SELECT fe.action, fr.pattern AS rule_pattern
         FROM filter_event fe
@@ -1852,6 +2919,7 @@ async function searchClustersTitleAndSource(
         ORDER BY fe.ts DESC
         LIMIT 1
       ) latest_filter_event ON TRUE
+      ${repVideoJoinSql("rep_i")}
       WHERE ${whereConditions.join("\n        AND ")}
       ORDER BY c.id, rank DESC
   `;
@@ -1868,6 +2936,8 @@ async function searchClustersTitleAndSource(
       id: string;
       headline: string;
       hero_image_url: string | null;
+      video_url: string | null;
+      video_duration_seconds: number | null;
       primary_feed_id: string;
       primary_source: string;
       primary_source_published_at: Date;
@@ -1880,6 +2950,7 @@ async function searchClustersTitleAndSource(
       muted_breakout_reason: string | null;
       read_at: Date | null;
       saved_at: Date | null;
+      shared_saved_at: Date | null;
     }>(wrappedSql, params),
     dbClient.query<{ data: unknown }>(
       "SELECT data FROM app_settings WHERE tenant_id = $1 AND key = 'main' LIMIT 1",
@@ -1902,6 +2973,7 @@ async function searchClustersTitleAndSource(
       id: row.id,
       headline: row.headline,
       heroImageUrl: row.hero_image_url,
+      video: toVideoEmbed(row),
       primaryFeedId: row.primary_feed_id,
       primarySource: row.primary_source,
       primarySourcePublishedAt: publishedAt,
@@ -1919,6 +2991,7 @@ async function searchClustersTitleAndSource(
       aiSuggestedTags: null,
       isRead: row.read_at != null,
       isSaved: row.saved_at != null,
+      isSharedSaved: row.shared_saved_at != null,
     };
   });
 
@@ -0,0 +1,320 @@
+import type { PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildAccountArchive,
+  createAccountArchiveService,
+  parseAccountArchive,
+} from "../account-archive-service";
+import { createZip, readZip } from "../zip-archive";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const TECH_FOLDER_ID = "44444444-4444-4444-4444-444444444444";
+const OTHER_FOLDER_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function buildClient(role: string, handler: QueryHandler = () => undefined) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    const handled = handler(sql, params);
+    if (handled) return handled;
+    if (sql.includes("FROM user_account")) {
+      return { rows: [{ role, username: "ada" }] };
+    }
+    if (sql.includes("FROM folder")) {
+      return {
+        rows: [
+          { id: TECH_FOLDER_ID, name: "Tech" },
+          { id: OTHER_FOLDER_ID, name: "Other" },
+        ],
+      };
+    }
+    if (sql.includes("RETURNING (xmax = 0) AS inserted")) {
+      return { rows: [{ inserted: true }] };
+    }
+    const insert = /INSERT INTO (\w+)[\s\S]*RETURNING id/.exec(sql);
+    if (insert) {
+      return { rows: [{ id: `new-${insert[1]}` }] };
+    }
+    return { rows: [] };
+  });
+  return { query, client: { query } as unknown as PoolClient };
+}
+
+function sourceArchive(overrides: Partial<Parameters<typeof buildAccountArchive>[1]> = {}) {
+  return buildAccountArchive(
+    { accountId: "src-account", userId: "src-user", username: "ada" },
+    {
+      folders: [
+        { id: "src-tech", name: "Tech" },
+        { id: "src-knitting", name: "Knitting" },
+      ],
+      topics: [{ id: "src-topic", name: "Rust" }],
+      feeds: [
+        {
+          id: "src-feed",
+          url: "https://example.com/feed.xml",
+          title: "Example",
+          siteUrl: "https://example.com",
+          folderId: "src-tech",
+          weight: "prefer",
+          muted: false,
+          trial: false,
+          defaultReaderMode: null,
+        },
+      ],
+      feed_topics: [
+        { feedId: "src-feed", topicId: "src-topic", status: "approved", confidence: 0.9 },
+      ],
+      filters: [],
+      stories: [
+        {
+          id: "src-story",
+          feedId: "src-feed",
+          guid: "post-1",
+          url: "https://example.com/post-1",
+          canonicalUrl: "https://example.com/post-1",
+          title: "Post 1",
+          summary: null,
+          author: null,
+          publishedAt: "2026-03-01T10:00:00.000Z",
+          heroImageUrl: null,
+        },
+      ],
+      read_state: [
+        {
+          storyId: "src-story",
+          readAt: "2026-03-02T10:00:00.000Z",
+          savedAt: "2026-03-02T10:00:00.000Z",
+          notInterestedAt: null,
+          clickedAt: null,
+          dwellSeconds: 42,
+        },
+      ],
+      annotations: [],
+      settings: [
+        {
+          scope: "member",
+          data: {
+            digestSchedule: "weekly",
+            savedSearches: [
+              {
+                id: "s1",
+                name: "Rust news",
+                query: "rust",
+                folderId: null,
+                feedId: "src-feed",
+                createdAt: "2026-03-01T00:00:00.000Z",
+              },
+            ],
+          },
+        },
+        { scope: "workspace", data: { feedPollMinutes: 30 } },
+      ],
+      ...overrides,
+    },
+    new Date("2026-03-03T00:00:00.000Z"),
+  );
+}
+
+function sqlCalls(query: ReturnType<typeof buildClient>["query"], fragment: string) {
+  return query.mock.calls.filter(([sql]) => sql.includes(fragment)) as Array<[string, unknown[]]>;
+}
+
+describe("parseAccountArchive", () => {
+  it("rejects non-zips, foreign manifests and newer versions", () => {
+    expect(parseAccountArchive(Buffer.from("nope"))).toEqual({
+      invalid: "not a readable zip archive",
+    });
+    expect(
+      parseAccountArchive(createZip([{ name: "manifest.json", data: Buffer.from("{}") }])),
+    ).toHaveProperty("invalid");
+
+    const manifest = {
+      format: "rss-wrangler-archive",
+      version: 99,
+      exportedAt: "2026-03-03T00:00:00.000Z",
+      source: { accountId: "a", userId: "u", username: "ada" },
+      files: [],
+    };
+    const result = parseAccountArchive(
+      createZip([{ name: "manifest.json", data: Buffer.from(JSON.stringify(manifest)) }]),
+    );
+    expect(result).toEqual({
+      invalid: "archive version 99 is newer than this server supports (1)",
+    });
+  });
+
+  it("names the file and line of a malformed record", () => {
+    const files = readZip(sourceArchive(), 1024 * 1024);
+    const entries = [...(files?.entries() ?? [])].map(([name, data]) => ({
+      name,
+      data: name === "topics.ndjson" ? Buffer.from('{"id":"t1","name":"ok"}\n{"id":"t2"}\n') : data,
+    }));
+
+    const result = parseAccountArchive(createZip(entries));
+    expect(result).toHaveProperty("invalid");
+    expect((result as { invalid: string }).invalid).toMatch(/^topics\.ndjson line 2:/);
+  });
+});
+
+describe("createAccountArchiveService", () => {
+  const archives = createAccountArchiveService();
+
+  it("exports a manifest followed by one NDJSON file per record kind", async () => {
+    const { client } = buildClient("owner", (sql) => {
+      if (sql.includes("FROM app_settings")) {
+        return { rows: [{ data: { feedPollMinutes: 30, openaiApiKey: "sk-secret" } }] };
+      }
+      if (sql.includes("FROM read_state")) {
+        return {
+          rows: [
+            {
+              cluster_id: "c1",
+              read_at: new Date("2026-03-02T10:00:00Z"),
+              saved_at: null,
+              not_interested_at: null,
+              clicked_at: null,
+              dwell_seconds: 5,
+            },
+            { cluster_id: "gone", read_at: new Date(), saved_at: null, not_interested_at: null },
+          ],
+        };
+      }
+      if (sql.includes("FROM cluster c")) {
+        return {
+          rows: [
+            {
+              id: "c1",
+              feed_id: "f1",
+              guid: "g1",
+              url: "https://example.com/1",
+              canonical_url: "https://example.com/1",
+              title: "One",
+              summary: null,
+              author: null,
+              published_at: new Date("2026-03-01T10:00:00Z"),
+              hero_image_url: null,
+            },
+          ],
+        };
+      }
+      return undefined;
+    });
+
+    const result = await archives.exportArchive(client, ACCOUNT_ID, USER_ID);
+    if (result === "not_found") throw new Error("expected an archive");
+    expect(result.filename).toMatch(/^rss-wrangler-archive-.*\.zip$/);
+
+    const files = readZip(result.archive, 1024 * 1024);
+    expect([...(files?.keys() ?? [])][0]).toBe("manifest.json");
+    const manifest = JSON.parse(files?.get("manifest.json")?.toString() ?? "{}");
+    expect(manifest).toMatchObject({ format: "rss-wrangler-archive", version: 1 });
+    expect(manifest.files).toContainEqual({
+      kind: "read_state",
+      name: "read_state.ndjson",
+      records: 1,
+    });
+    expect(files?.get("stories.ndjson")?.toString()).toContain('"id":"c1"');
+    expect(files?.get("settings.ndjson")?.toString()).not.toContain("sk-secret");
+  });
+
+  it("replays an archive with remapped ids and reports what it did", async () => {
+    const { query, client } = buildClient("owner");
+
+    const report = await archives.importArchive(client, ACCOUNT_ID, USER_ID, sourceArchive(), {
+      dryRun: false,
+      onConflict: "keep",
+      feedSlots: null,
+    });
+    if ("invalid" in report) throw new Error(report.invalid);
+
+    expect(report.counts.folders).toEqual({ created: 0, matched: 1, updated: 0, skipped: 1 });
+    expect(report.counts.feeds.created).toBe(1);
+    expect(report.counts.stories.created).toBe(1);
+    expect(report.counts.read_state.created).toBe(1);
+    expect(report.conflicts).toEqual([
+      {
+        kind: "folders",
+        sourceId: "src-knitting",
+        message: 'no folder named "Knitting"; its feeds go to Other',
+      },
+    ]);
+
+    const [, feedParams] = sqlCalls(query, "INSERT INTO feed ")[0] ?? [];
+    expect(feedParams?.[5]).toBe(TECH_FOLDER_ID);
+
+    const [, itemParams] = sqlCalls(query, "INSERT INTO item")[0] ?? [];
+    expect(itemParams?.[1]).toBe("new-feed");
+    const [, readParams] = sqlCalls(query, "INSERT INTO read_state")[0] ?? [];
+    expect(readParams?.[2]).toBe("new-cluster");
+
+    const [, memberParams] = sqlCalls(query, "INSERT INTO member_settings")[0] ?? [];
+    const memberData = JSON.parse(String(memberParams?.[2]));
+    expect(memberData.digestSchedule).toBe("weekly");
+    expect(memberData.savedSearches[0].feedId).toBe("new-feed");
+
+    expect(query.mock.calls[0]?.[0]).toBe("BEGIN");
+    expect(query.mock.calls.at(-1)?.[0]).toBe("COMMIT");
+  });
+
+  it("rolls a dry run back and stops creating feeds at the plan limit", async () => {
+    const { query, client } = buildClient("member");
+
+    const report = await archives.importArchive(client, ACCOUNT_ID, USER_ID, sourceArchive(), {
+      dryRun: true,
+      onConflict: "keep",
+      feedSlots: 0,
+    });
+    if ("invalid" in report) throw new Error(report.invalid);
+
+    expect(report.dryRun).toBe(true);
+    expect(report.counts.feeds.skipped).toBe(1);
+    expect(report.counts.stories.skipped).toBe(1);
+    expect(report.counts.settings).toMatchObject({ created: 1, skipped: 1 });
+    expect(report.conflicts.map((conflict) => conflict.message)).toEqual(
+      expect.arrayContaining([
+        "https://example.com/feed.xml: feed limit of your plan reached",
+        "workspace settings can only be imported by the owner",
+      ]),
+    );
+    expect(sqlCalls(query, "INSERT INTO app_settings")).toHaveLength(0);
+    expect(query.mock.calls.at(-1)?.[0]).toBe("ROLLBACK");
+  });
+
+  it("matches existing feeds by URL and only overwrites them when replacing", async () => {
+    const existingFeed = (sql: string) =>
+      sql.includes("SELECT id, url_normalized, folder_id FROM feed")
+        ? {
+            rows: [
+              {
+                id: "feed-here",
+                url_normalized: "https://example.com/feed.xml",
+                folder_id: OTHER_FOLDER_ID,
+              },
+            ],
+          }
+        : undefined;
+
+    const keep = buildClient("owner", existingFeed);
+    const kept = await archives.importArchive(keep.client, ACCOUNT_ID, USER_ID, sourceArchive(), {
+      dryRun: false,
+      onConflict: "keep",
+      feedSlots: 0,
+    });
+    expect(kept).toMatchObject({ counts: { feeds: { matched: 1, skipped: 0 } } });
+    expect(sqlCalls(keep.query, "UPDATE feed")).toHaveLength(0);
+
+    const replace = buildClient("owner", existingFeed);
+    const replaced = await archives.importArchive(
+      replace.client,
+      ACCOUNT_ID,
+      USER_ID,
+      sourceArchive(),
+      { dryRun: false, onConflict: "replace", feedSlots: 0 },
+    );
+    expect(replaced).toMatchObject({ counts: { feeds: { updated: 1 } } });
+    expect(sqlCalls(replace.query, "UPDATE feed")[0]?.[1]?.[0]).toBe("feed-here");
+    expect(sqlCalls(replace.query, "INSERT INTO item")[0]?.[1]?.[1]).toBe("feed-here");
+  });
+});
@@ -80,6 +80,30 @@ describe("createAiRegistry", () => {
     expect(provider!.name).toBe("openai");
   });
 
+  it("picks an embedding-capable provider", () => {
+    const registry = createAiRegistry({
+      ANTHROPIC_API_KEY: "sk-ant-test",
+      OLLAMA_BASE_URL: "http://localhost:11434",
+      AI_PROVIDER: "anthropic",
+    });
+    expect(registry.getProvider()!.name).toBe("anthropic");
+    expect(registry.getEmbeddingProvider()!.name).toBe("ollama");
+  });
+
+  it("respects AI_EMBEDDING_PROVIDER preference", () => {
+    const registry = createAiRegistry({
+      OPENAI_API_KEY: "sk-test",
+      OLLAMA_BASE_URL: "http://localhost:11434",
+      AI_EMBEDDING_PROVIDER: "ollama",
+    });
+    expect(registry.getEmbeddingProvider()!.name).toBe("ollama");
+  });
+
+  it("returns no embedding provider when only Anthropic is configured", () => {
+    const registry = createAiRegistry({ ANTHROPIC_API_KEY: "sk-ant-test" });
+    expect(registry.getEmbeddingProvider()).toBeNull();
+  });
+
   it("lists all available providers", () => {
     const registry = createAiRegistry({
       OPENAI_API_KEY: "sk-test",
@@ -385,3 +409,69 @@ describe("Ollama provider complete", () => {
     expect(result.provider).toBe("ollama");
   });
 });
+
+describe("provider embed", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("openai returns vectors in input order", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+        usage: { prompt_tokens: 7 },
+        model: "text-embedding-3-small",
+      }),
+    });
+    globalThis.fetch = fetchMock;
+
+    const provider = createOpenAiProvider("sk-test");
+    const result = await provider.embed!({ input: ["first", "second"] });
+
+    expect(result.vectors).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(result.inputTokens).toBe(7);
+    expect(result.model).toBe("text-embedding-3-small");
+    const [url] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.openai.com/v1/embeddings");
+  });
+
+  it("ollama posts to /api/embed with the default embedding model", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ embeddings: [[0.1, 0.2]], prompt_eval_count: 3 }),
+    });
+    globalThis.fetch = fetchMock;
+
+    const provider = createOllamaProvider("http://myhost:11434/");
+    const result = await provider.embed!({ input: ["hello"] });
+
+    expect(result.vectors).toEqual([[0.1, 0.2]]);
+    expect(result.provider).toBe("ollama");
+    const [url, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("http://myhost:11434/api/embed");
+    expect(JSON.parse(opts.body as string).model).toBe("nomic-embed-text");
+  });
+
+  it("reports errors with no vectors", async () => {
+    globalThis.fetch = vi.fn().mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+    const provider = createOllamaProvider("http://localhost:11434");
+    const result = await provider.embed!({ input: ["hello"] });
+
+    expect(result.vectors).toEqual([]);
+    expect(result.error).toContain("ECONNREFUSED");
+  });
+
+  it("anthropic has no embeddings support", () => {
+    expect(createAnthropicProvider("sk-ant-test").embed).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import {
+  API_TOKEN_PREFIX,
+  API_TOKEN_ROUTE_SCOPES,
+  createApiTokenService,
+  requiredScopesForRoute,
+} from "../api-token-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const TOKEN_ID = "55555555-5555-5555-5555-555555555555";
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function buildClient(handler: QueryHandler) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    return handler(sql, params) ?? { rows: [] };
+  });
+  return { query, release: vi.fn() };
+}
+
+function buildPool(handler: QueryHandler) {
+  const client = buildClient(handler);
+  const pool = {
+    query: client.query,
+    connect: vi.fn(async () => client),
+  } as unknown as Pool;
+  return { pool, client };
+}
+
+describe("requiredScopesForRoute", () => {
+  it("maps routes to scopes and keeps everything else JWT-only", () => {
+    expect(requiredScopesForRoute("GET", "/v1/clusters")).toEqual(["clusters:read"]);
+    expect(requiredScopesForRoute("post", "/v1/feeds")).toEqual(["feeds:write"]);
+    expect(requiredScopesForRoute("DELETE", "/v1/filters/:id")).toEqual(["filters:manage"]);
+    expect(requiredScopesForRoute("GET", "/v1/opml/export")).toEqual(["export"]);
+    expect(requiredScopesForRoute("POST", "/v1/feeds/discover")).toEqual(["feeds:write"]);
+    expect(requiredScopesForRoute("GET", "/v1/highlights/export")).toEqual(["export"]);
+    expect(requiredScopesForRoute("POST", "/v1/feed-outputs/:id/rotate")).toEqual(["export"]);
+    expect(requiredScopesForRoute("POST", "/v1/account/api-tokens")).toBeNull();
+    expect(requiredScopesForRoute("GET", undefined)).toBeNull();
+  });
+
+  it("has an entry for every protected route and none for removed ones", () => {
+    // biome-ignore lint/correctness/noGlobalDirnameFilename: the api package is CommonJS, so import.meta is not available
+    const source = readFileSync(path.join(__dirname, "../../routes/v1.ts"), "utf8");
+    const protectedRoutes = [
+      ...source.matchAll(/protectedRoutes\.(get|post|put|patch|delete)\(\s*"([^"]+)"/g),
+    ].map(([, method, url]) => `${method?.toUpperCase()} ${url}`);
+
+    expect(protectedRoutes.length).toBeGreaterThan(100);
+    expect(new Set(protectedRoutes)).toEqual(new Set(Object.keys(API_TOKEN_ROUTE_SCOPES)));
+  });
+});
+
+describe("createApiTokenService", () => {
+  const tokenRow = {
+    id: TOKEN_ID,
+    user_id: USER_ID,
+    tenant_id: ACCOUNT_ID,
+    scopes: ["clusters:read"],
+  };
+
+  it("ignores bearer values without the personal token prefix", async () => {
+    const { pool, client } = buildPool(() => undefined);
+    const service = createApiTokenService(pool);
+
+    expect(await service.authenticate("eyJhbGciOiJIUzI1NiJ9.x.y")).toBeNull();
+    expect(client.query).not.toHaveBeenCalled();
+  });
+
+  it("resolves an active member's token with its scopes", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("UPDATE api_token")) return { rows: [tokenRow] };
+      if (sql.includes("SELECT status FROM user_account")) return { rows: [{ status: "active" }] };
+      return undefined;
+    });
+    const service = createApiTokenService(pool);
+
+    expect(await service.authenticate(`${API_TOKEN_PREFIX}abc`)).toEqual({
+      tokenId: TOKEN_ID,
+      userId: USER_ID,
+      accountId: ACCOUNT_ID,
+      scopes: ["clusters:read"],
+    });
+  });
+
+  it("rejects tokens belonging to suspended members", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("UPDATE api_token")) return { rows: [tokenRow] };
+      if (sql.includes("SELECT status FROM user_account")) {
+        return { rows: [{ status: "suspended" }] };
+      }
+      return undefined;
+    });
+    const service = createApiTokenService(pool);
+
+    expect(await service.authenticate(`${API_TOKEN_PREFIX}abc`)).toBeNull();
+  });
+
+  it("stores only a hash and records creation in the member event log", async () => {
+    const createdAt = new Date("2026-04-01T00:00:00.000Z");
+    const client = buildClient((sql) => {
+      if (sql.includes("INSERT INTO api_token")) {
+        return {
+          rows: [
+            {
+              id: TOKEN_ID,
+              name: "cron",
+              token_prefix: "rwp_abcdef",
+              scopes: ["export"],
+              created_at: createdAt,
+              expires_at: null,
+              last_used_at: null,
+              revoked_at: null,
+            },
+          ],
+        };
+      }
+      return undefined;
+    });
+    const service = createApiTokenService({} as Pool);
+
+    const { token, apiToken } = await service.createToken(
+      client as unknown as PoolClient,
+      ACCOUNT_ID,
+      USER_ID,
+      { name: "cron", scopes: ["export", "export"], expiresInDays: null },
+    );
+
+    expect(token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(apiToken.scopes).toEqual(["export"]);
+    const insert = client.query.mock.calls.find(([sql]) => sql.includes("INSERT INTO api_token"));
+    expect(insert?.[1]).not.toContain(token);
+    expect(insert?.[1]?.[5]).toEqual(["export"]);
+    const event = client.query.mock.calls.find(([sql]) => sql.includes("api_token_created"));
+    expect(event?.[1]?.[0]).toBe(ACCOUNT_ID);
+  });
+
+  it("reports unknown or already revoked tokens as not found", async () => {
+    const client = buildClient(() => undefined);
+    const service = createApiTokenService({} as Pool);
+
+    const result = await service.revokeToken(
+      client as unknown as PoolClient,
+      ACCOUNT_ID,
+      USER_ID,
+      TOKEN_ID,
+    );
+    expect(result).toBe("not_found");
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+});
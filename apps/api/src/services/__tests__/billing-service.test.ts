@@ -37,6 +37,7 @@ function buildEnv(overrides: Partial<ApiEnv> = {}): ApiEnv {
     AI_PROVIDER: undefined,
     OLLAMA_BASE_URL: undefined,
     RATE_LIMIT_MAX: 100,
+    IMAGE_CACHE_MAX_MB: 512,
     ...overrides,
   };
 }
@@ -0,0 +1,177 @@
+import { createHash } from "node:crypto";
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import {
+  clientApiLogin,
+  computeFeverApiKey,
+  createClientApiCredentialService,
+} from "../client-api-credential-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const CREATED_AT = new Date("2026-01-01T00:00:00.000Z");
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function buildClient(handler: QueryHandler) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    return handler(sql, params) ?? { rows: [] };
+  });
+  return { query, release: vi.fn() };
+}
+
+function buildPool(handler: QueryHandler) {
+  const client = buildClient(handler);
+  const pool = {
+    query: client.query,
+    connect: vi.fn(async () => client),
+  } as unknown as Pool;
+  return { pool, client };
+}
+
+const credentialRow = { user_id: USER_ID, tenant_id: ACCOUNT_ID, created_at: CREATED_AT };
+
+describe("computeFeverApiKey", () => {
+  it("matches the md5(username:password) convention used by Fever clients", () => {
+    const expected = createHash("md5").update("alice@home:hunter22").digest("hex");
+    expect(computeFeverApiKey("alice@home", "hunter22")).toBe(expected);
+  });
+});
+
+describe("clientApiLogin", () => {
+  it("qualifies the username with the workspace and lowercases it", () => {
+    expect(clientApiLogin("Alice", "home")).toBe("alice@home");
+  });
+});
+
+describe("createClientApiCredentialService", () => {
+  it("rejects malformed Fever keys without querying", async () => {
+    const { pool, client } = buildPool(() => undefined);
+    const service = createClientApiCredentialService(pool);
+
+    expect(await service.authenticateFeverKey("not-a-key")).toBeNull();
+    expect(client.query).not.toHaveBeenCalled();
+  });
+
+  it("resolves an active user from a valid Fever key", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("UPDATE client_api_credential")) {
+        return { rows: [credentialRow] };
+      }
+      if (sql.includes("SELECT status FROM user_account")) {
+        return { rows: [{ status: "active" }] };
+      }
+      return undefined;
+    });
+    const service = createClientApiCredentialService(pool);
+
+    const identity = await service.authenticateFeverKey(
+      computeFeverApiKey("alice@home", "hunter22"),
+    );
+    expect(identity).toEqual({
+      userId: USER_ID,
+      accountId: ACCOUNT_ID,
+      credentialVersion: CREATED_AT.toISOString(),
+    });
+  });
+
+  it("denies access to suspended members", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("UPDATE client_api_credential")) {
+        return { rows: [credentialRow] };
+      }
+      if (sql.includes("SELECT status FROM user_account")) {
+        return { rows: [{ status: "suspended" }] };
+      }
+      return undefined;
+    });
+    const service = createClientApiCredentialService(pool);
+
+    expect(
+      await service.authenticateFeverKey(computeFeverApiKey("alice@home", "hunter22")),
+    ).toBeNull();
+    expect(await service.authenticatePassword("alice", "hunter22")).toBeNull();
+  });
+
+  it("matches password logins case-insensitively on the workspace login", async () => {
+    const { pool, client } = buildPool((sql) => {
+      if (sql.includes("UPDATE client_api_credential")) {
+        return { rows: [credentialRow] };
+      }
+      if (sql.includes("SELECT status FROM user_account")) {
+        return { rows: [{ status: "active" }] };
+      }
+      return undefined;
+    });
+    const service = createClientApiCredentialService(pool);
+
+    const identity = await service.authenticatePassword(" Alice@Home ", "hunter22");
+    expect(identity?.userId).toBe(USER_ID);
+    expect(client.query.mock.calls[0]?.[1]).toEqual(["alice@home", "hunter22"]);
+  });
+
+  it("invalidates issued tokens once the password is reset", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("FROM client_api_credential")) {
+        return { rows: [{ ...credentialRow, created_at: new Date("2026-02-01T00:00:00.000Z") }] };
+      }
+      if (sql.includes("SELECT status FROM user_account")) {
+        return { rows: [{ status: "active" }] };
+      }
+      return undefined;
+    });
+    const service = createClientApiCredentialService(pool);
+
+    const valid = await service.verifyIdentity({
+      userId: USER_ID,
+      accountId: ACCOUNT_ID,
+      credentialVersion: CREATED_AT.toISOString(),
+    });
+    expect(valid).toBe(false);
+  });
+
+  it("refuses a Fever key that matches credentials in more than one workspace", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("UPDATE client_api_credential")) {
+        return { rows: [credentialRow, { ...credentialRow, tenant_id: "other-account" }] };
+      }
+      if (sql.includes("SELECT status FROM user_account")) {
+        return { rows: [{ status: "active" }] };
+      }
+      return undefined;
+    });
+    const service = createClientApiCredentialService(pool);
+
+    expect(
+      await service.authenticateFeverKey(computeFeverApiKey("alice@home", "hunter22")),
+    ).toBeNull();
+  });
+
+  it("derives the Fever key from the workspace login without checking other accounts", async () => {
+    const client = buildClient((sql) => {
+      if (sql.includes("FROM user_account u")) {
+        return { rows: [{ username: "Alice", slug: "home" }] };
+      }
+      return undefined;
+    });
+    const service = createClientApiCredentialService({} as Pool);
+
+    const result = await service.setPassword(
+      client as unknown as PoolClient,
+      ACCOUNT_ID,
+      USER_ID,
+      "hunter22",
+    );
+
+    expect(result).toEqual({ ok: true, username: "alice@home" });
+    const statements = client.query.mock.calls.map(([sql]) => String(sql));
+    expect(statements.some((sql) => sql.includes("user_id <>"))).toBe(false);
+    const insert = client.query.mock.calls.find(([sql]) =>
+      String(sql).includes("INSERT INTO client_api_credential"),
+    );
+    const expectedHash = createHash("sha256")
+      .update(computeFeverApiKey("alice@home", "hunter22"))
+      .digest("hex");
+    expect(insert?.[1]).toEqual([USER_ID, ACCOUNT_ID, expectedHash, "alice@home", "hunter22"]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import {
+  createDigestEmailService,
+  signDigestLinkToken,
+  verifyDigestLinkToken,
+} from "../digest-email-service";
+
+const SECRET = "digest-link-secret-at-least-32-chars";
+const ACCOUNT_ID = "11111111-1111-4111-8111-111111111111";
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+const CLUSTER_ID = "33333333-3333-4333-8333-333333333333";
+const NOW = new Date("2026-03-02T07:00:00Z");
+const LATER = Math.floor(NOW.getTime() / 1000) + 3600;
+
+describe("verifyDigestLinkToken", () => {
+  it("accepts a token signed with the shared secret", () => {
+    const token = signDigestLinkToken(SECRET, {
+      accountId: ACCOUNT_ID,
+      userId: USER_ID,
+      action: "save",
+      clusterId: CLUSTER_ID,
+      expiresAt: LATER,
+    });
+
+    expect(verifyDigestLinkToken(SECRET, token, NOW)).toEqual({
+      accountId: ACCOUNT_ID,
+      userId: USER_ID,
+      action: "save",
+      clusterId: CLUSTER_ID,
+      expiresAt: LATER,
+    });
+  });
+
+  it("rejects other secrets, tampered payloads and expired links", () => {
+    const claims = {
+      accountId: ACCOUNT_ID,
+      userId: USER_ID,
+      action: "read" as const,
+      clusterId: CLUSTER_ID,
+      expiresAt: LATER,
+    };
+    const token = signDigestLinkToken(SECRET, claims);
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from(JSON.stringify({ a: ACCOUNT_ID, u: USER_ID, x: "unsubscribe", e: LATER })).toString("base64url")}.${signature}`;
+
+    expect(verifyDigestLinkToken("another-secret-that-is-long-enough", token, NOW)).toBeNull();
+    expect(verifyDigestLinkToken(SECRET, forged, NOW)).toBeNull();
+    expect(verifyDigestLinkToken(SECRET, token, new Date((LATER + 1) * 1000))).toBeNull();
+    expect(verifyDigestLinkToken(SECRET, "not-a-token", NOW)).toBeNull();
+  });
+
+  it("requires a cluster for read and save but not for unsubscribe", () => {
+    const base = { accountId: ACCOUNT_ID, userId: USER_ID, expiresAt: LATER };
+
+    expect(
+      verifyDigestLinkToken(SECRET, signDigestLinkToken(SECRET, { ...base, action: "read" }), NOW),
+    ).toBeNull();
+    expect(
+      verifyDigestLinkToken(
+        SECRET,
+        signDigestLinkToken(SECRET, { ...base, action: "unsubscribe", clusterId: CLUSTER_ID }),
+        NOW,
+      ),
+    ).toBeNull();
+    expect(
+      verifyDigestLinkToken(
+        SECRET,
+        signDigestLinkToken(SECRET, { ...base, action: "unsubscribe" }),
+        NOW,
+      )?.action,
+    ).toBe("unsubscribe");
+  });
+});
+
+describe("createDigestEmailService", () => {
+  const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+  const saveToken = signDigestLinkToken(SECRET, {
+    accountId: ACCOUNT_ID,
+    userId: USER_ID,
+    action: "save",
+    clusterId: CLUSTER_ID,
+    expiresAt,
+  });
+
+  function makeService() {
+    const client = {
+      query: vi.fn(async () => ({ rows: [{ id: USER_ID }], rowCount: 1 })),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn(async () => client) } as unknown as Pool;
+    return { client, service: createDigestEmailService(pool, SECRET) };
+  }
+
+  it("describes a link without applying it", () => {
+    const { client, service } = makeService();
+
+    expect(service.describeAction(saveToken)).toBe("save");
+    expect(service.describeAction("not-a-token")).toBe("invalid_token");
+    expect(client.query).not.toHaveBeenCalled();
+  });
+
+  it("only lets one-click requests unsubscribe", async () => {
+    const { client, service } = makeService();
+
+    expect(await service.applyAction(saveToken, { oneClick: true })).toBe("invalid_token");
+    expect(client.query).not.toHaveBeenCalled();
+
+    const unsubscribeToken = signDigestLinkToken(SECRET, {
+      accountId: ACCOUNT_ID,
+      userId: USER_ID,
+      action: "unsubscribe",
+      expiresAt,
+    });
+    expect(await service.applyAction(unsubscribeToken, { oneClick: true })).toEqual({
+      ok: true,
+      action: "unsubscribe",
+    });
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining("INSERT INTO member_settings"),
+      [ACCOUNT_ID, USER_ID],
+    );
+  });
+});
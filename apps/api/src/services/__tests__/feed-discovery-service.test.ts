@@ -0,0 +1,240 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  discoverFeeds,
+  discoverFeedUrl,
+  extractFeedLinks,
+  type FetchedPage,
+  platformFeedUrls,
+  sniffFeed,
+} from "../feed-discovery-service";
+
+const CHANNEL_ID = "UCabcdefghijklmnopqrstuv";
+const CHANNEL_FEED = `https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_ID}`;
+
+const RSS = `<?xml version="1.0"?><rss version="2.0"><channel><title>Example &amp; Co</title>
+  <item><title>One</title></item><item><title>Two</title></item></channel></rss>`;
+const ATOM = `<?xml version="1.0"?><feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="text"><![CDATA[Example Atom]]></title><entry><title>One</title></entry></feed>`;
+
+/** Serves canned bodies by URL; unknown URLs fail like a 404. */
+function fakeSite(pages: Record<string, string>) {
+  return vi.fn(async (url: string): Promise<FetchedPage | null> => {
+    const body = pages[url];
+    return body === undefined ? null : { url, body };
+  });
+}
+
+describe("discoverFeedUrl", () => {
+  it("returns non-YouTube URLs unchanged without fetching", async () => {
+    const fetchPage = vi.fn();
+    await expect(discoverFeedUrl("https://example.com/feed.xml", fetchPage)).resolves.toBe(
+      "https://example.com/feed.xml",
+    );
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it("maps channel, user and playlist URLs directly", async () => {
+    const fetchPage = vi.fn();
+    await expect(
+      discoverFeedUrl(`https://www.youtube.com/channel/${CHANNEL_ID}/videos`, fetchPage),
+    ).resolves.toBe(CHANNEL_FEED);
+    await expect(discoverFeedUrl("https://youtube.com/user/someone", fetchPage)).resolves.toBe(
+      "https://www.youtube.com/feeds/videos.xml?user=someone",
+    );
+    await expect(
+      discoverFeedUrl("https://www.youtube.com/playlist?list=PL1234567890", fetchPage),
+    ).resolves.toBe("https://www.youtube.com/feeds/videos.xml?playlist_id=PL1234567890");
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it("keeps YouTube feed URLs as they are", async () => {
+    await expect(discoverFeedUrl(CHANNEL_FEED, vi.fn())).resolves.toBe(CHANNEL_FEED);
+  });
+
+  it("resolves handles through the channel page's feed link", async () => {
+    const fetchPage = vi.fn().mockResolvedValue({
+      url: "https://www.youtube.com/@somechannel",
+      body: `<html><head><link rel="alternate" type="application/rss+xml" title="RSS" href="${CHANNEL_FEED}"></head></html>`,
+    });
+
+    await expect(discoverFeedUrl("https://www.youtube.com/@somechannel", fetchPage)).resolves.toBe(
+      CHANNEL_FEED,
+    );
+    expect(fetchPage).toHaveBeenCalledWith("https://www.youtube.com/@somechannel");
+  });
+
+  it("falls back to the channel id embedded in page data", async () => {
+    const fetchPage = vi.fn().mockResolvedValue({
+      url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      body: `{"videoDetails":{"channelId":"${CHANNEL_ID}"}}`,
+    });
+
+    await expect(
+      discoverFeedUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ", fetchPage),
+    ).resolves.toBe(CHANNEL_FEED);
+  });
+
+  it("returns null when the page cannot be resolved", async () => {
+    await expect(
+      discoverFeedUrl("https://www.youtube.com/@missing", vi.fn().mockResolvedValue(null)),
+    ).resolves.toBeNull();
+    await expect(
+      discoverFeedUrl(
+        "https://www.youtube.com/c/nothing",
+        vi.fn().mockResolvedValue({ url: "https://www.youtube.com/c/nothing", body: "<html>" }),
+      ),
+    ).resolves.toBeNull();
+  });
+});
+
+describe("fetching pages", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("stops reading an endless page at the size cap", async () => {
+    const chunk = new TextEncoder().encode(" ".repeat(64 * 1024));
+    let pulled = 0;
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(
+          pulled++ === 0 ? new TextEncoder().encode(`{"channelId":"${CHANNEL_ID}"}`) : chunk,
+        );
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(body, { headers: { "content-type": "text/html" } })),
+    );
+
+    await expect(discoverFeedUrl("https://www.youtube.com/@endless")).resolves.toBe(CHANNEL_FEED);
+    expect(cancelled).toBe(true);
+    expect(pulled * chunk.byteLength).toBeLessThan(4_000_000);
+  });
+});
+
+describe("sniffFeed", () => {
+  it("recognises RSS, Atom and JSON Feed documents", () => {
+    expect(sniffFeed(RSS)).toEqual({ format: "rss", title: "Example & Co", itemCount: 2 });
+    expect(sniffFeed(ATOM)).toEqual({ format: "atom", title: "Example Atom", itemCount: 1 });
+    expect(
+      sniffFeed(
+        JSON.stringify({ version: "https://jsonfeed.org/version/1.1", title: "JSON", items: [{}] }),
+      ),
+    ).toEqual({ format: "json", title: "JSON", itemCount: 1 });
+  });
+
+  it("rejects HTML and arbitrary JSON", () => {
+    expect(sniffFeed("<!DOCTYPE html><html><head><title>Home</title></head></html>")).toBeNull();
+    expect(sniffFeed('{"items":[]}')).toBeNull();
+  });
+});
+
+describe("extractFeedLinks", () => {
+  it("resolves alternate feed links and skips comment feeds", () => {
+    const html = `
+      <link rel="alternate" type="application/rss+xml" title="Posts" href="/feed.xml">
+      <link rel="alternate" type="application/atom+xml" href='https://example.com/atom.xml'>
+      <link rel="alternate" type="application/rss+xml" title="Comments Feed" href="/comments/feed/">
+      <link rel="stylesheet" href="/style.css">`;
+
+    expect(extractFeedLinks(html, "https://example.com/blog/")).toEqual([
+      "https://example.com/feed.xml",
+      "https://example.com/atom.xml",
+    ]);
+  });
+});
+
+describe("platformFeedUrls", () => {
+  it("knows GitHub, Medium, Substack, Ghost and WordPress layouts", () => {
+    expect(platformFeedUrls(new URL("https://github.com/org/repo"), "")).toEqual([
+      "https://github.com/org/repo/releases.atom",
+    ]);
+    expect(platformFeedUrls(new URL("https://medium.com/@writer"), "")).toEqual([
+      "https://medium.com/feed/@writer",
+    ]);
+    expect(platformFeedUrls(new URL("https://news.substack.com/"), "")).toEqual([
+      "https://news.substack.com/feed",
+    ]);
+    expect(
+      platformFeedUrls(
+        new URL("https://blog.example.com/"),
+        '<meta name="generator" content="Ghost 5.0">',
+      ),
+    ).toEqual(["https://blog.example.com/rss/"]);
+    expect(
+      platformFeedUrls(
+        new URL("https://site.example.com/post"),
+        '<meta name="generator" content="WordPress 6.4">',
+      ),
+    ).toEqual(["https://site.example.com/feed/"]);
+  });
+});
+
+describe("discoverFeeds", () => {
+  it("returns a direct feed URL on its own", async () => {
+    const fetchPage = fakeSite({ "https://example.com/feed.xml": RSS });
+
+    await expect(discoverFeeds("https://example.com/feed.xml", fetchPage)).resolves.toEqual([
+      {
+        url: "https://example.com/feed.xml",
+        title: "Example & Co",
+        format: "rss",
+        itemCount: 2,
+        source: "direct",
+      },
+    ]);
+  });
+
+  it("lists feeds advertised by the page and drops ones that do not parse", async () => {
+    const fetchPage = fakeSite({
+      "https://example.com/": `<html><head>
+        <link rel="alternate" type="application/rss+xml" href="/rss.xml">
+        <link rel="alternate" type="application/atom+xml" href="/atom.xml">
+        <link rel="alternate" type="application/rss+xml" href="/broken.xml">
+      </head></html>`,
+      "https://example.com/rss.xml": RSS,
+      "https://example.com/atom.xml": ATOM,
+      "https://example.com/broken.xml": "<html>not a feed</html>",
+    });
+
+    const candidates = await discoverFeeds("https://example.com/", fetchPage);
+    expect(candidates.map((candidate) => [candidate.url, candidate.source])).toEqual([
+      ["https://example.com/rss.xml", "link_tag"],
+      ["https://example.com/atom.xml", "link_tag"],
+    ]);
+  });
+
+  it("falls back to common feed paths", async () => {
+    const fetchPage = fakeSite({
+      "https://example.com/": "<html><head><title>Home</title></head></html>",
+      "https://example.com/index.xml": ATOM,
+    });
+
+    const candidates = await discoverFeeds("https://example.com/", fetchPage);
+    expect(candidates).toEqual([
+      {
+        url: "https://example.com/index.xml",
+        title: "Example Atom",
+        format: "atom",
+        itemCount: 1,
+        source: "common_path",
+      },
+    ]);
+  });
+
+  it("never fetches private addresses", async () => {
+    const fetchPage = fakeSite({
+      "https://example.com/": `<link rel="alternate" type="application/rss+xml" href="http://127.0.0.1/feed">`,
+    });
+
+    await expect(discoverFeeds("http://localhost/", fetchPage)).resolves.toEqual([]);
+    await discoverFeeds("https://example.com/", fetchPage);
+    expect(fetchPage).not.toHaveBeenCalledWith("http://127.0.0.1/feed");
+    expect(fetchPage).not.toHaveBeenCalledWith("http://localhost/");
+  });
+});
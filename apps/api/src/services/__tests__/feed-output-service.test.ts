@@ -0,0 +1,221 @@
+import type { ClusterCard, Digest } from "@rss-wrangler/contracts";
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import {
+  clusterFeedItems,
+  createFeedOutputService,
+  digestFeedItems,
+  FEED_OUTPUT_TOKEN_PREFIX,
+  type OutputFeed,
+  renderAtom,
+  renderFeedOutput,
+  renderJsonFeed,
+  renderRss,
+} from "../feed-output-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const OUTPUT_ID = "66666666-6666-6666-6666-666666666666";
+const APP = "https://app.example.com";
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function buildPool(handler: QueryHandler) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    return handler(sql, params) ?? { rows: [] };
+  });
+  const client = { query, release: vi.fn() };
+  const pool = { query, connect: vi.fn(async () => client) } as unknown as Pool;
+  return { pool, query };
+}
+
+const digest: Digest = {
+  id: "d1",
+  createdAt: "2026-03-02T07:00:00.000Z",
+  startTs: "2026-03-01T07:00:00.000Z",
+  endTs: "2026-03-02T07:00:00.000Z",
+  title: "Daily digest",
+  body: "3 stories",
+  entries: [
+    { clusterId: "c1", headline: "Rates & markets", section: "top_picks", oneLiner: "Up <again>" },
+    { clusterId: "c2", headline: "Launch", section: "quick_scan", oneLiner: null },
+  ],
+};
+
+const cluster = {
+  id: "c3",
+  headline: "Chip export rules",
+  heroImageUrl: "https://img.example.com/c3.jpg",
+  primarySource: "Tech News",
+  primarySourcePublishedAt: "2026-03-02T06:00:00.000Z",
+  outletCount: 4,
+  folderName: "Tech",
+  topicName: null,
+  summary: "New limits announced.",
+} as ClusterCard;
+
+function feedWith(items: OutputFeed["items"]): OutputFeed {
+  return {
+    id: `urn:rss-wrangler:output:${OUTPUT_ID}`,
+    title: "Digest · RSS Wrangler",
+    description: "Digest, filtered and deduplicated by RSS Wrangler",
+    homePageUrl: `${APP}/digest`,
+    feedUrl: "https://api.example.com/v1/outputs/rwf_x/atom",
+    updatedAt: "2026-03-02T07:00:00.000Z",
+    items,
+  };
+}
+
+describe("feed output items", () => {
+  it("turns a digest into one item with escaped, sectioned links", () => {
+    const [item] = digestFeedItems([digest], APP);
+
+    expect(item?.id).toBe("urn:rss-wrangler:digest:d1");
+    expect(item?.contentHtml).toContain("<h3>Top Picks</h3>");
+    expect(item?.contentHtml).toContain(`<a href="${APP}/clusters/c1">Rates &amp; markets</a>`);
+    expect(item?.contentHtml).toContain("Up &lt;again&gt;");
+    expect(item?.contentHtml).not.toContain("Big Stories");
+  });
+
+  it("maps cluster cards to items linking to the cluster", () => {
+    expect(clusterFeedItems([cluster], APP)[0]).toMatchObject({
+      url: `${APP}/clusters/c3`,
+      author: "Tech News",
+      imageUrl: "https://img.example.com/c3.jpg",
+      tags: ["Tech"],
+    });
+  });
+});
+
+describe("feed output rendering", () => {
+  const feed = feedWith([...digestFeedItems([digest], APP), ...clusterFeedItems([cluster], APP)]);
+
+  it("renders Atom with a self link and escaped HTML content", () => {
+    const xml = renderAtom(feed);
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain('<link rel="self" type="application/atom+xml"');
+    expect(xml).toContain("<id>urn:rss-wrangler:cluster:c3</id>");
+    expect(xml).toContain('<content type="html">&lt;h3&gt;Top Picks&lt;/h3&gt;');
+    expect(xml).toContain("<author><name>Tech News</name></author>");
+  });
+
+  it("renders RSS 2.0 with RFC 822 dates and non-permalink guids", () => {
+    const xml = renderRss(feed);
+
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain('<guid isPermaLink="false">urn:rss-wrangler:digest:d1</guid>');
+    expect(xml).toContain("<pubDate>Mon, 02 Mar 2026 07:00:00 GMT</pubDate>");
+    expect(xml).toContain("<dc:creator>Tech News</dc:creator>");
+  });
+
+  it("renders JSON Feed 1.1", () => {
+    const json = JSON.parse(renderJsonFeed(feed));
+
+    expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(json.feed_url).toBe(feed.feedUrl);
+    expect(json.items[1]).toMatchObject({
+      id: "urn:rss-wrangler:cluster:c3",
+      image: "https://img.example.com/c3.jpg",
+      authors: [{ name: "Tech News" }],
+      date_published: "2026-03-02T06:00:00.000Z",
+    });
+  });
+
+  it("picks the content type for each format", () => {
+    expect(renderFeedOutput(feed, "atom").contentType).toMatch(/^application\/atom\+xml/);
+    expect(renderFeedOutput(feed, "rss").contentType).toMatch(/^application\/rss\+xml/);
+    expect(renderFeedOutput(feed, "json").contentType).toMatch(/^application\/feed\+json/);
+  });
+});
+
+describe("createFeedOutputService", () => {
+  const outputRow = {
+    id: OUTPUT_ID,
+    tenant_id: ACCOUNT_ID,
+    user_id: USER_ID,
+    kind: "digest",
+    target_id: null,
+    name: "Digest",
+  };
+
+  it("ignores tokens without the output prefix", async () => {
+    const { pool, query } = buildPool(() => undefined);
+
+    expect(await createFeedOutputService(pool).authenticate("rwp_abc")).toBeNull();
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("resolves an active member's output token", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("UPDATE feed_output")) return { rows: [outputRow] };
+      if (sql.includes("SELECT status FROM user_account")) return { rows: [{ status: "active" }] };
+      return undefined;
+    });
+
+    expect(
+      await createFeedOutputService(pool).authenticate(`${FEED_OUTPUT_TOKEN_PREFIX}abc`),
+    ).toEqual({
+      outputId: OUTPUT_ID,
+      accountId: ACCOUNT_ID,
+      userId: USER_ID,
+      kind: "digest",
+      targetId: null,
+      name: "Digest",
+    });
+  });
+
+  it("rejects tokens of suspended members", async () => {
+    const { pool } = buildPool((sql) => {
+      if (sql.includes("UPDATE feed_output")) return { rows: [outputRow] };
+      if (sql.includes("SELECT status FROM user_account")) {
+        return { rows: [{ status: "suspended" }] };
+      }
+      return undefined;
+    });
+
+    expect(
+      await createFeedOutputService(pool).authenticate(`${FEED_OUTPUT_TOKEN_PREFIX}abc`),
+    ).toBeNull();
+  });
+
+  it("stores only a hash of a new token and rejects unknown folders", async () => {
+    const { pool, query } = buildPool((sql) => {
+      if (sql.includes("FROM folder")) return { rows: [{ id: "f1", name: "Tech" }] };
+      if (sql.includes("INSERT INTO feed_output")) {
+        return {
+          rows: [
+            {
+              id: OUTPUT_ID,
+              kind: "folder",
+              target_id: "f1",
+              name: "Tech",
+              token_prefix: "rwf_abcdef",
+              created_at: new Date("2026-03-02T07:00:00Z"),
+              rotated_at: null,
+              last_used_at: null,
+            },
+          ],
+        };
+      }
+      return undefined;
+    });
+    const client = await pool.connect();
+    const service = createFeedOutputService(pool);
+
+    expect(
+      await service.createOutput(client, ACCOUNT_ID, USER_ID, { kind: "folder", targetId: "f2" }),
+    ).toBe("not_found");
+
+    const created = await service.createOutput(client, ACCOUNT_ID, USER_ID, {
+      kind: "folder",
+      targetId: "f1",
+    });
+    if (created === "not_found") throw new Error("expected an output");
+    expect(created.token.startsWith(FEED_OUTPUT_TOKEN_PREFIX)).toBe(true);
+    expect(created.output.name).toBe("Tech");
+    const insert = query.mock.calls.find(([sql]) => sql.includes("INSERT INTO feed_output"));
+    expect(insert?.[1]).not.toContain(created.token);
+    expect(insert?.[1]?.[4]).toBe("Tech");
+  });
+});
@@ -0,0 +1,48 @@
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { createFeverService, parseFeverIdList } from "../fever-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const CLUSTER_ID = "33333333-3333-3333-3333-333333333333";
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function buildClient(handler: QueryHandler) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    return handler(sql, params) ?? { rows: [] };
+  });
+  return { query, release: vi.fn() };
+}
+
+describe("parseFeverIdList", () => {
+  it("keeps positive integers and drops junk", () => {
+    expect(parseFeverIdList("3, 7,abc,-1,0,12")).toEqual([3, 7, 12]);
+    expect(parseFeverIdList(undefined)).toEqual([]);
+  });
+});
+
+describe("createFeverService", () => {
+  it("marks the whole cluster read when an item is marked read", async () => {
+    const client = buildClient((sql) => {
+      if (sql.includes("JOIN cluster_member cm")) {
+        return { rows: [{ cluster_id: CLUSTER_ID }] };
+      }
+      if (sql.includes("SELECT id FROM cluster")) {
+        return { rows: [{ id: CLUSTER_ID }] };
+      }
+      return undefined;
+    });
+    const service = createFeverService({} as Pool);
+
+    const ok = await service.applyMark(client as unknown as PoolClient, ACCOUNT_ID, USER_ID, {
+      mark: "item",
+      as: "read",
+      id: 42,
+    });
+
+    expect(ok).toBe(true);
+    const insert = client.query.mock.calls.find(([sql]) => sql.includes("INSERT INTO read_state"));
+    expect(insert?.[1]).toEqual([ACCOUNT_ID, USER_ID, CLUSTER_ID]);
+  });
+});
@@ -0,0 +1,122 @@
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import {
+  createGReaderService,
+  formatLongItemId,
+  parseItemId,
+  parseStreamId,
+  READ_TAG,
+  STARRED_TAG,
+} from "../greader-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const CLUSTER_ID = "33333333-3333-3333-3333-333333333333";
+const FEED_ID = "44444444-4444-4444-4444-444444444444";
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function buildClient(handler: QueryHandler) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    return handler(sql, params) ?? { rows: [] };
+  });
+  return { query, release: vi.fn() };
+}
+
+describe("parseStreamId", () => {
+  it("normalizes user ids and recognizes state, feed and label streams", () => {
+    expect(parseStreamId(undefined)).toEqual({ kind: "reading-list" });
+    expect(parseStreamId("user/1005/state/com.google/reading-list")).toEqual({
+      kind: "reading-list",
+    });
+    expect(parseStreamId("user/-/state/com.google/starred")).toEqual({ kind: "starred" });
+    expect(parseStreamId("feed/42")).toEqual({ kind: "feed", seqId: 42 });
+    expect(parseStreamId("user/-/label/Tech News")).toEqual({ kind: "label", name: "Tech News" });
+    expect(parseStreamId("feed/http://example.com/rss")).toBeNull();
+    expect(parseStreamId("splice/whatever")).toBeNull();
+  });
+});
+
+describe("item ids", () => {
+  it("round-trips the long form and accepts short hex and signed decimal", () => {
+    const long = formatLongItemId(255);
+    expect(long).toBe("tag:google.com,2005:reader/item/00000000000000ff");
+    expect(parseItemId(long)).toBe(255);
+    expect(parseItemId("00000000000000ff")).toBe(255);
+    expect(parseItemId("255")).toBe(255);
+    expect(parseItemId("nope")).toBeNull();
+    expect(parseItemId("0")).toBeNull();
+  });
+});
+
+describe("createGReaderService", () => {
+  it("marks the whole cluster read and starred through edit-tag", async () => {
+    const client = buildClient((sql) => {
+      if (sql.includes("SELECT DISTINCT cm.cluster_id")) {
+        return { rows: [{ cluster_id: CLUSTER_ID }] };
+      }
+      if (sql.includes("SELECT id FROM cluster")) {
+        return { rows: [{ id: CLUSTER_ID }] };
+      }
+      return undefined;
+    });
+    const service = createGReaderService({} as Pool);
+
+    const updated = await service.editTag(
+      client as unknown as PoolClient,
+      ACCOUNT_ID,
+      USER_ID,
+      [7],
+      ["user/1005/state/com.google/read", STARRED_TAG],
+      [],
+    );
+
+    expect(updated).toBe(1);
+    const writes = client.query.mock.calls.filter(([sql]) =>
+      sql.includes("INSERT INTO read_state"),
+    );
+    expect(writes).toHaveLength(2);
+    expect(
+      writes.every(([, params]) => params?.[1] === USER_ID && params?.[2] === CLUSTER_ID),
+    ).toBe(true);
+  });
+
+  it("scopes mark-all-as-read for a feed stream to that feed", async () => {
+    const client = buildClient((sql) => {
+      if (sql.includes("SELECT id FROM feed WHERE seq_id")) {
+        return { rows: [{ id: FEED_ID }] };
+      }
+      return undefined;
+    });
+    const service = createGReaderService({} as Pool);
+    const before = new Date("2026-03-01T00:00:00.000Z");
+
+    const ok = await service.markAllAsRead(
+      client as unknown as PoolClient,
+      ACCOUNT_ID,
+      USER_ID,
+      { kind: "feed", seqId: 9 },
+      before,
+    );
+
+    expect(ok).toBe(true);
+    const insert = client.query.mock.calls.find(([sql]) => sql.includes("INSERT INTO read_state"));
+    expect(insert?.[1]).toEqual([ACCOUNT_ID, before.toISOString(), FEED_ID, null, null, USER_ID]);
+  });
+
+  it("ignores mark-all-as-read on the read and starred streams", async () => {
+    const client = buildClient(() => undefined);
+    const service = createGReaderService({} as Pool);
+
+    const ok = await service.markAllAsRead(
+      client as unknown as PoolClient,
+      ACCOUNT_ID,
+      USER_ID,
+      parseStreamId(READ_TAG) ?? { kind: "reading-list" },
+      new Date(),
+    );
+
+    expect(ok).toBe(false);
+    expect(client.query).not.toHaveBeenCalled();
+  });
+});
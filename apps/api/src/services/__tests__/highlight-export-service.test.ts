@@ -0,0 +1,223 @@
+import type { PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { encryptCredentials } from "../credential-cipher";
+import {
+  buildReadwiseCsv,
+  createHighlightExportService,
+  highlightFilename,
+} from "../highlight-export-service";
+import { readZip } from "../zip-archive";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const CLUSTER_ID = "33333333-3333-3333-3333-333333333333";
+const CREDENTIALS_KEY = "k".repeat(32);
+const CURSOR = new Date("2026-03-01T00:00:00Z");
+const MB = 1024 * 1024;
+
+function highlightRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    cluster_id: CLUSTER_ID,
+    highlighted_text: "A quoted passage",
+    note: null,
+    color: "yellow",
+    created_at: new Date("2026-03-02T10:00:00Z"),
+    story_title: "Why: the story?",
+    story_url: "https://example.com/story",
+    feed_title: "Example Feed",
+    author: null,
+    published_at: new Date("2026-02-28T08:00:00Z"),
+    ...overrides,
+  };
+}
+
+function makeClient(handler: (sql: string, params?: unknown[]) => unknown[] | undefined) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => ({
+    rows: handler(sql, params) ?? [],
+    rowCount: 1,
+  }));
+  return { query, client: { query } as unknown as PoolClient };
+}
+
+function cursorWrites(query: ReturnType<typeof makeClient>["query"]) {
+  return query.mock.calls
+    .filter(([sql]) => sql.includes("INSERT INTO highlight_export_cursor"))
+    .map(([, params]) => params);
+}
+
+describe("highlightFilename", () => {
+  it("drops characters that are invalid in file names or Obsidian links", () => {
+    expect(highlightFilename('Why: "AI" / [news] #1?')).toBe("Why AI news 1");
+    expect(highlightFilename("...hidden")).toBe("hidden");
+    expect(highlightFilename("   ")).toBe("Untitled");
+    expect(highlightFilename("x".repeat(300))).toHaveLength(100);
+  });
+});
+
+describe("buildReadwiseCsv", () => {
+  it("writes Readwise's import columns and quotes fields that need it", () => {
+    const csv = buildReadwiseCsv([
+      {
+        id: "a1",
+        clusterId: CLUSTER_ID,
+        highlightedText: 'He said "hi", twice',
+        note: "line one\nline two",
+        color: "yellow",
+        anchor: null,
+        createdAt: "2026-03-02T10:00:00.000Z",
+        storyTitle: "Story",
+        storyUrl: "https://example.com/story",
+        feedTitle: "Example Feed",
+        author: null,
+        publishedAt: null,
+      },
+    ]);
+
+    expect(csv.split("\r\n")).toEqual([
+      "Highlight,Title,Author,URL,Note,Location,Date",
+      '"He said ""hi"", twice",Story,Example Feed,https://example.com/story,"line one\nline two",,2026-03-02 10:00:00',
+      "",
+    ]);
+  });
+});
+
+describe("createHighlightExportService", () => {
+  it("pages the library with an offset cursor", async () => {
+    const rows = [highlightRow("a1"), highlightRow("a2"), highlightRow("a3")];
+    const { query, client } = makeClient(() => rows);
+
+    const page = await createHighlightExportService(undefined).listHighlights(client, ACCOUNT_ID, {
+      q: "passage",
+      color: "yellow",
+      limit: 2,
+    });
+
+    expect(page.data.map((highlight) => highlight.id)).toEqual(["a1", "a2"]);
+    expect(page.data[0]).toMatchObject({
+      storyTitle: "Why: the story?",
+      feedTitle: "Example Feed",
+    });
+    expect(page.nextCursor).toBe("2");
+    expect(query.mock.calls[0]?.[1]).toEqual([ACCOUNT_ID, "yellow", "passage", 3, 0]);
+  });
+
+  it("exports whole stories to an Obsidian zip since the last export and moves the cursor", async () => {
+    const { query, client } = makeClient((sql) => {
+      if (sql.includes("SELECT last_highlight_at")) return [{ last_highlight_at: CURSOR }];
+      if (sql.includes("FROM annotation a")) {
+        return [
+          highlightRow("a1", { created_at: new Date("2026-02-20T09:00:00Z") }),
+          highlightRow("a2", { note: "Worth re-reading", color: "green" }),
+        ];
+      }
+      return undefined;
+    });
+
+    const result = await createHighlightExportService(undefined).exportHighlights(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      "obsidian",
+      true,
+    );
+    if (result === "empty") throw new Error("expected a file");
+
+    const select = query.mock.calls.find(([sql]) => sql.includes("FROM annotation a"));
+    expect(select?.[0]).toContain("a.cluster_id IN");
+    expect(select?.[1]).toEqual([ACCOUNT_ID, CURSOR]);
+    expect(result.contentType).toBe("application/zip");
+
+    const files = readZip(result.body, MB);
+    expect([...(files?.keys() ?? [])]).toEqual(["RSS Wrangler/Highlights/Why the story.md"]);
+    const note = files?.get("RSS Wrangler/Highlights/Why the story.md")?.toString("utf8") ?? "";
+    expect(note).toContain('title: "Why: the story?"\nsource: "Example Feed"');
+    expect(note).toContain('url: "https://example.com/story"');
+    expect(note).toContain("date: 2026-02-28");
+    expect(note).toContain("tags: [highlights, rss-wrangler]");
+    expect(note).toContain("> [!quote] 2026-02-20\n> A quoted passage\n\n^a1");
+    expect(note).toContain("> **Note:** Worth re-reading\n\n^a2");
+
+    expect(cursorWrites(query)).toEqual([
+      [ACCOUNT_ID, USER_ID, "obsidian", "2026-03-02T10:00:00.000Z"],
+    ]);
+  });
+
+  it("reports an empty export without touching the cursor", async () => {
+    const { query, client } = makeClient(() => undefined);
+
+    const result = await createHighlightExportService(undefined).exportHighlights(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      "readwise_csv",
+      false,
+    );
+
+    expect(result).toBe("empty");
+    const select = query.mock.calls.find(([sql]) => sql.includes("FROM annotation a"));
+    expect(select?.[0]).not.toContain("a.cluster_id IN");
+    expect(select?.[1]).toEqual([ACCOUNT_ID, null]);
+    expect(cursorWrites(query)).toEqual([]);
+  });
+
+  it("refuses a Readwise push without a key or a Readwise connection", async () => {
+    const { client } = makeClient(() => undefined);
+
+    expect(
+      await createHighlightExportService(undefined).pushToReadwise(client, ACCOUNT_ID, USER_ID, {}),
+    ).toBe("not_configured");
+    expect(
+      await createHighlightExportService(CREDENTIALS_KEY).pushToReadwise(
+        client,
+        ACCOUNT_ID,
+        USER_ID,
+        {},
+      ),
+    ).toBe("no_connection");
+  });
+
+  it("pushes to Readwise in batches and keeps the cursor at the last accepted batch", async () => {
+    const highlights = Array.from({ length: 150 }, (_, index) =>
+      highlightRow(`a${index}`, { created_at: new Date(Date.UTC(2026, 2, 2, 0, index)) }),
+    );
+    const { query, client } = makeClient((sql) => {
+      if (sql.includes("FROM read_later_connection")) {
+        return [{ credentials_encrypted: encryptCredentials(CREDENTIALS_KEY, { token: "rw-1" }) }];
+      }
+      if (sql.includes("SELECT last_highlight_at")) return [{ last_highlight_at: CURSOR }];
+      if (sql.includes("FROM annotation a")) return highlights;
+      return undefined;
+    });
+    const fetchFn = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+      fetchFn.mock.calls.length === 1
+        ? new Response("{}", { status: 200 })
+        : new Response("slow down", { status: 429 }),
+    );
+
+    const result = await createHighlightExportService(CREDENTIALS_KEY, fetchFn).pushToReadwise(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      {},
+    );
+
+    expect(result).toEqual({ failed: "Readwise returned HTTP 429: slow down" });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchFn.mock.calls[0] ?? [];
+    expect(url).toBe("https://readwise.io/api/v2/highlights/");
+    expect((init?.headers as Record<string, string>).Authorization).toBe("Token rw-1");
+    const body = JSON.parse(String(init?.body)) as { highlights: Array<Record<string, unknown>> };
+    expect(body.highlights).toHaveLength(100);
+    expect(body.highlights[0]).toMatchObject({
+      text: "A quoted passage",
+      title: "Why: the story?",
+      author: "Example Feed",
+      source_url: "https://example.com/story",
+      category: "articles",
+    });
+    expect(cursorWrites(query)).toEqual([
+      [ACCOUNT_ID, USER_ID, "readwise_api", "2026-03-02T01:39:00.000Z"],
+    ]);
+  });
+});
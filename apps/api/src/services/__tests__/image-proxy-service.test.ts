@@ -0,0 +1,208 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { FastifyBaseLogger } from "fastify";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createImageCache } from "../image-cache";
+import {
+  createImageProxyService,
+  proxiedImageUrl,
+  rewriteArticleImages,
+  rewritePayloadImages,
+  signImageUrl,
+  verifyImageSignature,
+} from "../image-proxy-service";
+
+const SECRET = "s".repeat(40);
+const API_ORIGIN = "https://api.example.com";
+const IMAGE_URL = "https://cdn.example.org/photos/lead.jpg?w=2000&fit=crop";
+
+const log = { info: vi.fn(), warn: vi.fn() } as unknown as FastifyBaseLogger;
+
+function cacheKey(char: string): string {
+  return char.repeat(64);
+}
+
+describe("image proxy URLs", () => {
+  it("signs the origin URL and rejects other URLs or tampered signatures", () => {
+    const signature = signImageUrl(SECRET, IMAGE_URL);
+    expect(verifyImageSignature(SECRET, IMAGE_URL, signature)).toBe(true);
+    expect(verifyImageSignature(SECRET, `${IMAGE_URL}&x=1`, signature)).toBe(false);
+    expect(verifyImageSignature(SECRET, IMAGE_URL, `${signature.slice(0, -1)}A`)).toBe(false);
+    expect(verifyImageSignature("t".repeat(40), IMAGE_URL, signature)).toBe(false);
+  });
+
+  it("builds proxied URLs only for http(s) images and leaves proxied ones alone", () => {
+    const proxied = proxiedImageUrl(SECRET, API_ORIGIN, IMAGE_URL, "card");
+    const parsed = new URL(proxied ?? "");
+    expect(parsed.origin).toBe(API_ORIGIN);
+    expect(parsed.pathname).toBe(`/v1/images/${signImageUrl(SECRET, IMAGE_URL)}`);
+    expect(parsed.searchParams.get("url")).toBe(IMAGE_URL);
+    expect(parsed.searchParams.get("size")).toBe("card");
+
+    expect(proxiedImageUrl(SECRET, API_ORIGIN, proxied ?? "", "card")).toBe(proxied);
+    expect(proxiedImageUrl(SECRET, API_ORIGIN, "data:image/png;base64,AAAA", "card")).toBeNull();
+    expect(proxiedImageUrl(SECRET, API_ORIGIN, "/relative.png", "card")).toBeNull();
+  });
+
+  it("rewrites article images and drops srcset", () => {
+    const html =
+      '<p>Lead</p><img src="https://cdn.example.org/a.jpg?x=1&amp;y=2" srcset="https://cdn.example.org/a-2x.jpg 2x" alt="A" loading="lazy">';
+    const rewritten = rewriteArticleImages(html, SECRET, API_ORIGIN);
+
+    expect(rewritten).not.toContain("srcset");
+    expect(rewritten).toContain('alt="A" loading="lazy"');
+    const src = /src="([^"]*)"/.exec(rewritten)?.[1]?.replace(/&amp;/g, "&") ?? "";
+    const parsed = new URL(src);
+    expect(parsed.searchParams.get("url")).toBe("https://cdn.example.org/a.jpg?x=1&y=2");
+    expect(parsed.searchParams.get("size")).toBe("article");
+    expect(
+      verifyImageSignature(
+        SECRET,
+        "https://cdn.example.org/a.jpg?x=1&y=2",
+        parsed.pathname.split("/").pop() ?? "",
+      ),
+    ).toBe(true);
+  });
+
+  it("rewrites hero images and story HTML anywhere in a payload", () => {
+    const payload = {
+      data: [
+        { id: "c1", heroImageUrl: IMAGE_URL },
+        { id: "c2", heroImageUrl: null },
+      ],
+      cluster: { storyHtml: '<img src="https://cdn.example.org/b.png">' },
+      nextCursor: null,
+    };
+
+    const rewritten = rewritePayloadImages(payload, SECRET, API_ORIGIN) as typeof payload;
+
+    expect(rewritten.data[0]?.heroImageUrl).toBe(
+      proxiedImageUrl(SECRET, API_ORIGIN, IMAGE_URL, "card"),
+    );
+    expect(rewritten.data[1]?.heroImageUrl).toBeNull();
+    expect(rewritten.cluster.storyHtml).toContain(`${API_ORIGIN}/v1/images/`);
+    expect(payload.data[0]?.heroImageUrl).toBe(IMAGE_URL);
+  });
+});
+
+describe("createImageCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "image-cache-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("evicts the least recently used images once over the size limit", async () => {
+    const cache = createImageCache({ directory, maxBytes: 30 });
+    await cache.put(cacheKey("a"), Buffer.alloc(10, 1));
+    await cache.put(cacheKey("b"), Buffer.alloc(10, 2));
+    await cache.put(cacheKey("c"), Buffer.alloc(10, 3));
+    // Reading "a" makes "b" the oldest.
+    expect(await cache.get(cacheKey("a"))).toEqual(Buffer.alloc(10, 1));
+
+    await cache.put(cacheKey("d"), Buffer.alloc(10, 4));
+
+    expect(await cache.get(cacheKey("b"))).toBeNull();
+    expect((await readdir(directory)).sort()).toEqual(
+      [cacheKey("a"), cacheKey("c"), cacheKey("d")].sort(),
+    );
+
+    // A new cache over the same directory picks the files up again.
+    const reopened = createImageCache({ directory, maxBytes: 30 });
+    expect(await reopened.get(cacheKey("d"))).toEqual(Buffer.alloc(10, 4));
+  });
+});
+
+describe("createImageProxyService", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "image-proxy-test-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("resizes origin images to WebP and serves repeats from the cache", async () => {
+    const png = await sharp({
+      create: { width: 2000, height: 1000, channels: 3, background: "#336699" },
+    })
+      .png()
+      .toBuffer();
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(new Uint8Array(png), {
+          status: 200,
+          headers: { "content-type": "image/png" },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const service = createImageProxyService({
+      cacheDirectory: directory,
+      cacheMaxBytes: 1024 * 1024,
+      log,
+    });
+
+    const first = await service.getImage(IMAGE_URL, "thumbnail");
+    const second = await service.getImage(IMAGE_URL, "thumbnail");
+
+    expect(first.source).toBe("origin");
+    expect(first.contentType).toBe("image/webp");
+    const metadata = await sharp(first.body).metadata();
+    expect(metadata.format).toBe("webp");
+    expect(metadata.width).toBe(480);
+    expect(second.source).toBe("cache");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves the placeholder for redirects to private addresses and for failed origins", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.startsWith("https://cdn.example.org/")
+        ? Response.redirect("http://127.0.0.1/admin.png", 302)
+        : new Response("nope", { status: 500 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const service = createImageProxyService({
+      cacheDirectory: directory,
+      cacheMaxBytes: 1024 * 1024,
+      log,
+    });
+
+    const redirected = await service.getImage(IMAGE_URL, "card");
+    expect(redirected.source).toBe("placeholder");
+    expect(redirected.contentType).toBe("image/svg+xml");
+    // The private address is never requested.
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // The failed origin is not fetched again during its cooldown.
+    await service.getImage(IMAGE_URL, "card");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects non-image responses", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response("<svg/>", { status: 200, headers: { "content-type": "image/svg+xml" } }),
+      ),
+    );
+    const service = createImageProxyService({
+      cacheDirectory: directory,
+      cacheMaxBytes: 1024 * 1024,
+      log,
+    });
+
+    expect((await service.getImage("https://cdn.example.org/logo.svg", "card")).source).toBe(
+      "placeholder",
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import type { PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { decryptCredentials, encryptCredentials } from "../credential-cipher";
+import { createReadLaterService, enqueueReadLaterAutoSend } from "../read-later-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const CONNECTION_ID = "33333333-3333-3333-3333-333333333333";
+const CLUSTER_ID = "44444444-4444-4444-4444-444444444444";
+const CREDENTIALS_KEY = "k".repeat(32);
+const NOW = new Date("2026-03-01T00:00:00Z");
+
+function connectionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: CONNECTION_ID,
+    provider: "wallabag",
+    label: "Wallabag",
+    base_url: "https://wallabag.example.com",
+    auto_send: false,
+    enabled: true,
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  };
+}
+
+function makeClient(handler: (sql: string, params?: unknown[]) => unknown[] | undefined) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => ({
+    rows: handler(sql, params) ?? [],
+    rowCount: 1,
+  }));
+  return { query, client: { query } as unknown as PoolClient };
+}
+
+const WALLABAG_CREDENTIALS = {
+  clientId: "client",
+  clientSecret: "secret",
+  username: "reader",
+  password: "hunter22",
+};
+
+describe("credential cipher", () => {
+  it("round-trips credentials and rejects another key", () => {
+    const encrypted = encryptCredentials(CREDENTIALS_KEY, { token: "abc" });
+    expect(encrypted.startsWith("v1.")).toBe(true);
+    expect(encrypted).not.toContain("abc");
+    expect(decryptCredentials(CREDENTIALS_KEY, encrypted)).toEqual({ token: "abc" });
+    expect(decryptCredentials("x".repeat(32), encrypted)).toBeNull();
+  });
+});
+
+describe("createReadLaterService", () => {
+  it("refuses to store credentials when no encryption key is configured", async () => {
+    const { query, client } = makeClient(() => undefined);
+    const result = await createReadLaterService(undefined).createConnection(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      { provider: "readwise", credentials: { token: "t" } },
+    );
+
+    expect(result).toBe("not_configured");
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("checks the server URL and credential fields each provider needs", async () => {
+    const readLater = createReadLaterService(CREDENTIALS_KEY);
+    const { client } = makeClient(() => undefined);
+
+    expect(
+      await readLater.createConnection(client, ACCOUNT_ID, USER_ID, {
+        provider: "linkding",
+        credentials: { token: "t" },
+      }),
+    ).toEqual({ invalid: "Linkding needs the URL of your server" });
+    expect(
+      await readLater.createConnection(client, ACCOUNT_ID, USER_ID, {
+        provider: "wallabag",
+        baseUrl: "https://wallabag.example.com",
+        credentials: { clientId: "c", username: "u" },
+      }),
+    ).toEqual({ invalid: "missing clientSecret, password for Wallabag" });
+    expect(
+      await readLater.createConnection(client, ACCOUNT_ID, USER_ID, {
+        provider: "shaarli",
+        baseUrl: "http://localhost:8000",
+        credentials: { apiSecret: "s" },
+      }),
+    ).toEqual({ invalid: expect.stringContaining("localhost") });
+  });
+
+  it("stores only the provider's credential fields, encrypted", async () => {
+    const { query, client } = makeClient((sql) =>
+      sql.includes("INSERT INTO read_later_connection") ? [connectionRow()] : undefined,
+    );
+    const result = await createReadLaterService(CREDENTIALS_KEY).createConnection(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      {
+        provider: "wallabag",
+        baseUrl: "https://wallabag.example.com/",
+        credentials: { ...WALLABAG_CREDENTIALS, stray: "ignored" },
+      },
+    );
+
+    expect(result).toMatchObject({ id: CONNECTION_ID, provider: "wallabag", autoSend: false });
+    const params = query.mock.calls[0]?.[1] ?? [];
+    expect(params.slice(2, 5)).toEqual(["wallabag", "Wallabag", "https://wallabag.example.com"]);
+    expect(params[5]).not.toContain("hunter22");
+    expect(decryptCredentials(CREDENTIALS_KEY, String(params[5]))).toEqual(WALLABAG_CREDENTIALS);
+  });
+
+  it("merges a partial credential update with the stored values", async () => {
+    const stored = encryptCredentials(CREDENTIALS_KEY, WALLABAG_CREDENTIALS);
+    const { query, client } = makeClient((sql) => {
+      if (sql.includes("SELECT")) return [connectionRow({ credentials_encrypted: stored })];
+      if (sql.includes("UPDATE read_later_connection")) return [connectionRow({ auto_send: true })];
+      return undefined;
+    });
+
+    const result = await createReadLaterService(CREDENTIALS_KEY).updateConnection(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      CONNECTION_ID,
+      { credentials: { password: "new-password" }, autoSend: true },
+    );
+
+    expect(result).toMatchObject({ autoSend: true });
+    const params = query.mock.calls[1]?.[1] ?? [];
+    expect(decryptCredentials(CREDENTIALS_KEY, String(params[5]))).toEqual({
+      ...WALLABAG_CREDENTIALS,
+      password: "new-password",
+    });
+    expect(params[6]).toBe(true);
+  });
+
+  it("queues a manual send and reports missing or disabled connections", async () => {
+    const deliveryRow = {
+      id: "delivery-1",
+      connection_id: CONNECTION_ID,
+      provider: "wallabag",
+      connection_label: "Wallabag",
+      cluster_id: CLUSTER_ID,
+      url: "https://example.com/post",
+      title: "Post",
+      status: "pending",
+      attempt_count: 0,
+      last_status_code: null,
+      last_error: null,
+      next_attempt_at: NOW,
+      delivered_at: null,
+      created_at: NOW,
+    };
+    let enabled = true;
+    const { query, client } = makeClient((sql) => {
+      if (sql.startsWith("SELECT enabled")) return [{ enabled }];
+      if (sql.includes("INSERT INTO read_later_delivery")) return [{ id: "delivery-1" }];
+      if (sql.includes("FROM read_later_delivery d")) return [deliveryRow];
+      return undefined;
+    });
+    const readLater = createReadLaterService(CREDENTIALS_KEY);
+
+    const delivery = await readLater.sendCluster(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      CLUSTER_ID,
+      CONNECTION_ID,
+    );
+    expect(delivery).toMatchObject({ id: "delivery-1", status: "pending", clusterId: CLUSTER_ID });
+    const insert = query.mock.calls.find(([sql]) =>
+      sql.includes("INSERT INTO read_later_delivery"),
+    );
+    expect(insert?.[0]).toContain("DO UPDATE");
+    expect(insert?.[1]).toEqual([CLUSTER_ID, ACCOUNT_ID, USER_ID, CONNECTION_ID]);
+
+    enabled = false;
+    expect(
+      await readLater.sendCluster(client, ACCOUNT_ID, USER_ID, CLUSTER_ID, CONNECTION_ID),
+    ).toBe("disabled");
+    const { client: none } = makeClient(() => undefined);
+    expect(await readLater.sendCluster(none, ACCOUNT_ID, USER_ID, CLUSTER_ID, CONNECTION_ID)).toBe(
+      "not_found",
+    );
+  });
+});
+
+describe("enqueueReadLaterAutoSend", () => {
+  it("queues the story for the member's enabled auto-send connections only", async () => {
+    const { query, client } = makeClient(() => undefined);
+    await enqueueReadLaterAutoSend(client, ACCOUNT_ID, USER_ID, CLUSTER_ID);
+
+    const [sql, params] = query.mock.calls[0] ?? [];
+    expect(sql).toContain("c.auto_send = TRUE");
+    expect(sql).toContain("c.enabled = TRUE");
+    expect(sql).toContain("ON CONFLICT (connection_id, cluster_id) DO NOTHING");
+    expect(params).toEqual([ACCOUNT_ID, USER_ID, CLUSTER_ID]);
+  });
+});
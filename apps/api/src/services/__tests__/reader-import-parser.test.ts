@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { type ParsedReaderImport, parseCsv, parseReaderImport } from "../reader-import-parser.js";
+
+function parsed(result: ParsedReaderImport | { invalid: string }): ParsedReaderImport {
+  if ("invalid" in result) throw new Error(result.invalid);
+  return result;
+}
+
+describe("parseReaderImport", () => {
+  it("reads Feedly saved entries with boards, origin feed and timestamps", () => {
+    const json = JSON.stringify({
+      items: [
+        {
+          id: "entry-1",
+          originId: "https://example.com/?p=1",
+          title: "Rust 2.0",
+          canonicalUrl: "https://example.com/rust-2",
+          origin: { streamId: "feed/https://example.com/feed", title: "Example" },
+          published: 1767225600000,
+          actionTimestamp: 1767312000000,
+          summary: { content: "<p>Big &amp; bold</p>" },
+          tags: [
+            { id: "user/1/tag/global.saved", label: "Saved" },
+            { id: "user/1/tag/Programming", label: "Programming" },
+          ],
+          unread: false,
+        },
+        { id: "entry-2", title: "No link" },
+      ],
+    });
+
+    const result = parsed(parseReaderImport("feedly", json));
+    expect(result.articles).toEqual([
+      {
+        url: "https://example.com/rust-2",
+        title: "Rust 2.0",
+        guid: "https://example.com/?p=1",
+        feedUrl: "https://example.com/feed",
+        publishedAt: "2026-01-01T00:00:00.000Z",
+        savedAt: "2026-01-02T00:00:00.000Z",
+        author: null,
+        summary: "Big & bold",
+        labels: ["Programming"],
+        annotations: [],
+        read: true,
+      },
+    ]);
+    expect(result.errors).toEqual([{ entry: "No link", message: "article has no link" }]);
+  });
+
+  it("reads Inoreader labels, read state, annotations and subscriptions", () => {
+    const json = JSON.stringify({
+      subscriptions: [
+        {
+          id: "feed/https://blog.example.org/rss",
+          title: "Blog",
+          htmlUrl: "https://blog.example.org",
+          categories: [{ id: "user/1/label/Tech", label: "Tech" }],
+        },
+      ],
+      items: [
+        {
+          title: "Post",
+          published: 1767225600,
+          canonical: [{ href: "https://blog.example.org/post" }],
+          origin: { streamId: "feed/https://blog.example.org/rss" },
+          categories: [
+            "user/1/state/com.google/starred",
+            "user/1/state/com.google/read",
+            "user/1/label/Rust",
+          ],
+          annotations: [{ text: "quoted line", note: "remember this" }],
+        },
+      ],
+    });
+
+    const result = parsed(parseReaderImport("inoreader", json));
+    expect(result.subscriptions).toEqual([
+      {
+        feedUrl: "https://blog.example.org/rss",
+        title: "Blog",
+        siteUrl: "https://blog.example.org/",
+        labels: ["Tech"],
+      },
+    ]);
+    expect(result.articles[0]).toMatchObject({
+      url: "https://blog.example.org/post",
+      feedUrl: "https://blog.example.org/rss",
+      labels: ["Rust"],
+      read: true,
+      annotations: [{ text: "quoted line", note: "remember this" }],
+    });
+  });
+
+  it("recovers NewsBlur story feeds and turns highlights and notes into annotations", () => {
+    const json = JSON.stringify({
+      stories: [
+        {
+          id: "guid-1",
+          story_title: "Starred",
+          story_permalink: "https://news.example.net/a",
+          story_date: "2026-01-31 08:15:00",
+          story_feed_id: 42,
+          user_tags: ["Later", "later"],
+          highlights: ["a highlight"],
+          user_notes: "my note",
+        },
+      ],
+      feeds: { "42": { feed_address: "https://news.example.net/rss" } },
+    });
+
+    const [article] = parsed(parseReaderImport("newsblur", json)).articles;
+    expect(article).toMatchObject({
+      guid: "guid-1",
+      feedUrl: "https://news.example.net/rss",
+      publishedAt: "2026-01-31T08:15:00.000Z",
+      labels: ["Later"],
+      annotations: [
+        { text: "a highlight", note: null },
+        { text: "Starred", note: "my note" },
+      ],
+    });
+  });
+
+  it("reads Pocket HTML sections and tags", () => {
+    const html = `<!DOCTYPE html><html><body>
+<h1>Unread</h1>
+<ul><li><a href="https://a.example/1" time_added="1767225600" tags="cooking,Tech">One &amp; only</a></li></ul>
+<h1>Read Archive</h1>
+<ul><li><a href="https://a.example/2" time_added="1767225600" tags="">Two</a></li>
+<li><a href="javascript:void(0)">Bad</a></li></ul>
+</body></html>`;
+
+    const { articles } = parsed(parseReaderImport("pocket", html));
+    expect(articles.map((article) => [article.title, article.read, article.labels])).toEqual([
+      ["One & only", false, ["cooking", "Tech"]],
+      ["Two", true, []],
+    ]);
+    expect(articles[0]?.savedAt).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("reads Pocket and Instapaper CSV and reports bad rows", () => {
+    const pocket = parsed(
+      parseReaderImport(
+        "pocket",
+        "title,url,time_added,tags,status\nHello,https://p.example/h,1767225600,a|b,archive\n",
+      ),
+    );
+    expect(pocket.articles[0]).toMatchObject({ labels: ["a", "b"], read: true });
+
+    const instapaper = parsed(
+      parseReaderImport(
+        "instapaper",
+        'URL,Title,Selection,Folder,Timestamp\nhttps://i.example/x,"Quoted, title","A ""key"" line",Recipes,1767225600\nnot-a-url,Broken,,Unread,1\n',
+      ),
+    );
+    expect(instapaper.articles).toHaveLength(1);
+    expect(instapaper.articles[0]).toMatchObject({
+      title: "Quoted, title",
+      labels: ["Recipes"],
+      annotations: [{ text: 'A "key" line', note: null }],
+    });
+    expect(instapaper.errors).toEqual([{ entry: "row 3", message: "invalid URL: not-a-url" }]);
+  });
+
+  it("accepts OPML from feed readers and rejects unusable files", () => {
+    const opml = `<opml version="1.0"><body><outline text="Tech"><outline text="HN" xmlUrl="https://news.ycombinator.com/rss"/></outline></body></opml>`;
+    expect(parsed(parseReaderImport("newsblur", opml)).subscriptions).toEqual([
+      { feedUrl: "https://news.ycombinator.com/rss", title: "HN", siteUrl: null, labels: ["Tech"] },
+    ]);
+
+    expect(parseReaderImport("pocket", "{}")).toEqual({
+      invalid: "pocket exports are HTML or CSV, not JSON",
+    });
+    expect(parseReaderImport("feedly", "{not json")).toEqual({ invalid: "file is not valid JSON" });
+    expect(parseReaderImport("feedly", '{"items":[]}')).toEqual({
+      invalid: "no feeds or articles found in the file",
+    });
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes, CRLF and embedded newlines", () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"\nthere'],
+    ]);
+  });
+});
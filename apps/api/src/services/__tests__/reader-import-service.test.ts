@@ -0,0 +1,214 @@
+import type { FastifyBaseLogger } from "fastify";
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { createReaderImportService } from "../reader-import-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const JOB_ID = "33333333-3333-3333-3333-333333333333";
+const TECH_FOLDER_ID = "44444444-4444-4444-4444-444444444444";
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function jobRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: JOB_ID,
+    source: "inoreader",
+    filename: "export.json",
+    status: "pending",
+    total_entries: 3,
+    processed_entries: 0,
+    counts: {},
+    errors: [],
+    truncated_errors: 0,
+    error_message: null,
+    created_at: new Date("2026-03-01T00:00:00Z"),
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+function buildPool(handler: QueryHandler = () => undefined) {
+  // Topics behave transactionally so cache reloads after a rollback see what a database would.
+  const topics: Array<{ id: string; name: string }> = [];
+  let pendingTopics: Array<{ id: string; name: string }> = [];
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    const handled = handler(sql, params);
+    if (handled) return handled;
+    if (sql === "COMMIT") topics.push(...pendingTopics.splice(0));
+    if (sql === "ROLLBACK") pendingTopics = [];
+    if (sql.includes("FROM topic WHERE tenant_id")) return { rows: [...topics] };
+    if (sql.includes("INSERT INTO topic")) {
+      pendingTopics.push({ id: "new-topic", name: String(params?.[1]) });
+      return { rows: [{ id: "new-topic" }] };
+    }
+    if (sql.includes("INSERT INTO reader_import_job")) return { rows: [jobRow()] };
+    if (sql.includes("SET status = 'processing'")) return { rows: [{ id: JOB_ID }] };
+    if (sql.includes("FROM folder")) return { rows: [{ id: TECH_FOLDER_ID, name: "Tech" }] };
+    if (sql.includes("INSERT INTO annotation")) return { rows: [], rowCount: 1 };
+    const insert = /INSERT INTO (\w+)[\s\S]*RETURNING id/.exec(sql);
+    if (insert) return { rows: [{ id: `new-${insert[1]}` }] };
+    return { rows: [] };
+  });
+  const client = { query, release: vi.fn() } as unknown as PoolClient;
+  const pool = { connect: vi.fn(async () => client) } as unknown as Pool;
+  const logger = { info: vi.fn(), error: vi.fn() } as unknown as FastifyBaseLogger;
+  return { query, client, pool, logger };
+}
+
+function sqlCalls(query: ReturnType<typeof buildPool>["query"], fragment: string) {
+  return query.mock.calls.filter(([sql]) => sql.includes(fragment)) as Array<[string, unknown[]]>;
+}
+
+const inoreaderExport = JSON.stringify({
+  subscriptions: [
+    {
+      id: "feed/https://blog.example.org/rss",
+      title: "Blog",
+      categories: [{ label: "Tech" }, { label: "Rust" }],
+    },
+    { id: "feed/http://localhost/feed", title: "Local" },
+  ],
+  items: [
+    {
+      title: "Post",
+      published: 1767225600,
+      canonical: [{ href: "https://blog.example.org/post?utm_source=x" }],
+      origin: { streamId: "feed/https://blog.example.org/rss" },
+      categories: ["user/1/label/Rust"],
+      annotations: [{ text: "quoted line", note: null }],
+    },
+  ],
+});
+
+async function finished(query: ReturnType<typeof buildPool>["query"]) {
+  await vi.waitFor(() => {
+    if (sqlCalls(query, "SET status = 'completed'").length === 0) {
+      throw new Error("import job has not completed");
+    }
+  });
+  const [, params] = sqlCalls(query, "SET status = 'completed'")[0] ?? [];
+  return {
+    processed: params?.[2],
+    counts: JSON.parse(String(params?.[3])),
+    errors: JSON.parse(String(params?.[4])),
+  };
+}
+
+describe("createReaderImportService", () => {
+  it("rejects unreadable files and a second concurrent import", async () => {
+    const { client, pool, logger } = buildPool((sql) =>
+      sql.includes("status IN ('pending', 'processing')") ? { rows: [{ id: JOB_ID }] } : undefined,
+    );
+    const imports = createReaderImportService(pool, logger);
+
+    expect(
+      await imports.startImport(
+        client,
+        ACCOUNT_ID,
+        USER_ID,
+        { source: "pocket", content: "{}" },
+        null,
+      ),
+    ).toEqual({ invalid: "pocket exports are HTML or CSV, not JSON" });
+    expect(
+      await imports.startImport(
+        client,
+        ACCOUNT_ID,
+        USER_ID,
+        { source: "inoreader", content: inoreaderExport },
+        null,
+      ),
+    ).toBe("already_running");
+  });
+
+  it("imports feeds and saved articles in the background with a per-entry report", async () => {
+    const { query, client, pool, logger } = buildPool();
+    const imports = createReaderImportService(pool, logger);
+
+    const job = await imports.startImport(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      { source: "inoreader", filename: "export.json", content: inoreaderExport },
+      null,
+    );
+    expect(job).toMatchObject({ id: JOB_ID, status: "pending", totalEntries: 3 });
+
+    const report = await finished(query);
+    expect(report.processed).toBe(3);
+    expect(report.counts).toMatchObject({
+      feedsAdded: 1,
+      topicsAdded: 1,
+      articlesSaved: 1,
+      articlesBackfilled: 1,
+      annotationsAdded: 1,
+      failed: 1,
+    });
+    expect(report.errors).toEqual([{ entry: "Local", message: expect.any(String) }]);
+
+    const [, feedParams] = sqlCalls(query, "INSERT INTO feed (")[0] ?? [];
+    expect(feedParams?.[5]).toBe(TECH_FOLDER_ID);
+    expect(sqlCalls(query, "INSERT INTO feed_topic")[0]?.[1]).toEqual([
+      ACCOUNT_ID,
+      "new-feed",
+      "new-topic",
+    ]);
+
+    // The article joins the subscription created above, under its canonical URL.
+    const [, itemParams] = sqlCalls(query, "INSERT INTO item")[0] ?? [];
+    expect(itemParams?.[1]).toBe("new-feed");
+    expect(itemParams?.[3]).toBe("https://blog.example.org/post");
+    const [, readParams] = sqlCalls(query, "INSERT INTO read_state")[0] ?? [];
+    expect(readParams?.slice(0, 3)).toEqual([ACCOUNT_ID, USER_ID, "new-cluster"]);
+    expect(readParams?.[3]).toEqual(expect.any(String));
+  });
+
+  it("keeps articles without a subscribed feed in a muted holding feed", async () => {
+    const { query, client, pool, logger } = buildPool();
+    const imports = createReaderImportService(pool, logger);
+
+    await imports.startImport(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      {
+        source: "pocket",
+        content: "title,url,time_added,tags,status\nHello,https://p.example/h,1767225600,,unread\n",
+      },
+      0,
+    );
+    await finished(query);
+
+    const [sql, params] = sqlCalls(query, "INSERT INTO feed (")[0] ?? [];
+    expect(sql).toContain("true, false, NULL");
+    expect(params?.slice(1, 4)).toEqual([
+      "urn:rss-wrangler:import:pocket",
+      expect.any(String),
+      "Saved from Pocket",
+    ]);
+  });
+
+  it("stops adding feeds at the plan limit and rolls back the failed entry", async () => {
+    const { query, client, pool, logger } = buildPool();
+    const imports = createReaderImportService(pool, logger);
+
+    await imports.startImport(
+      client,
+      ACCOUNT_ID,
+      USER_ID,
+      { source: "inoreader", content: inoreaderExport },
+      0,
+    );
+    const report = await finished(query);
+
+    expect(report.counts.feedsAdded).toBe(0);
+    expect(report.errors[0]).toEqual({
+      entry: "Blog",
+      message: "feed limit of your plan reached",
+    });
+    // The topic created for the rejected feed is rolled back with it.
+    expect(report.counts.topicsAdded).toBe(1);
+    expect(sqlCalls(query, "ROLLBACK").length).toBeGreaterThanOrEqual(2);
+  });
+});
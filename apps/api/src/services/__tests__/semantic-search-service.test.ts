@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { rankClustersBySimilarity, resolveSearchMode } from "../semantic-search-service";
+
+describe("resolveSearchMode", () => {
+  it("uses the plan mode when none is requested", () => {
+    expect(resolveSearchMode(undefined, "title_source")).toBe("title_source");
+    expect(resolveSearchMode(undefined, "full_text")).toBe("full_text");
+  });
+
+  it("keeps semantic search opt-in", () => {
+    expect(resolveSearchMode(undefined, "semantic")).toBe("full_text");
+    expect(resolveSearchMode("semantic", "semantic")).toBe("semantic");
+  });
+
+  it("allows less capable modes than the plan", () => {
+    expect(resolveSearchMode("title_source", "semantic")).toBe("title_source");
+    expect(resolveSearchMode("full_text", "semantic")).toBe("full_text");
+  });
+
+  it("rejects modes above the plan", () => {
+    expect(resolveSearchMode("semantic", "full_text")).toBeNull();
+    expect(resolveSearchMode("full_text", "title_source")).toBeNull();
+  });
+});
+
+describe("rankClustersBySimilarity", () => {
+  it("scores each cluster by its best member and sorts descending", () => {
+    const ranked = rankClustersBySimilarity(
+      [1, 0],
+      [
+        { cluster_id: "a", embedding: [0.6, 0.8] },
+        { cluster_id: "b", embedding: [1, 0.1] },
+        { cluster_id: "a", embedding: [1, 0] },
+      ],
+      0.5,
+    );
+
+    expect(ranked.map((match) => match.clusterId)).toEqual(["a", "b"]);
+    expect(ranked[0]?.similarity).toBeCloseTo(1);
+  });
+
+  it("drops clusters below the threshold or with incomparable vectors", () => {
+    const ranked = rankClustersBySimilarity(
+      [1, 0],
+      [
+        { cluster_id: "orthogonal", embedding: [0, 1] },
+        { cluster_id: "other-model", embedding: [1, 0, 0] },
+      ],
+      0.3,
+    );
+
+    expect(ranked).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { type Settings, settingsSchema } from "@rss-wrangler/contracts";
+import { describe, expect, it } from "vitest";
+import {
+  layerSettings,
+  planSettingsUpdate,
+  providedSettings,
+  type SettingsLayers,
+  workspaceSettings,
+} from "../settings-service";
+
+const DEFAULTS: Settings = settingsSchema.parse({
+  aiMode: "summaries_digest",
+  aiProvider: "openai",
+  monthlyAiCapUsd: 20,
+  aiFallbackToLocal: false,
+  digestAwayHours: 24,
+  digestBacklogThreshold: 50,
+  feedPollMinutes: 60,
+});
+
+function layers(overrides: Partial<SettingsLayers> = {}): SettingsLayers {
+  return { defaults: DEFAULTS, workspace: {}, member: {}, isOwner: false, ...overrides };
+}
+
+describe("layerSettings", () => {
+  it("annotates where each value came from", () => {
+    const view = layerSettings(
+      layers({
+        workspace: { aiMode: "full", digestAwayHours: 12 },
+        member: { digestAwayHours: 6, markReadOnScroll: "on_open" },
+      }),
+    );
+
+    expect(view.aiMode).toBe("full");
+    expect(view.digestAwayHours).toBe(6);
+    expect(view.markReadOnScroll).toBe("on_open");
+    expect(view.feedPollMinutes).toBe(60);
+    expect(view.sources.aiMode).toBe("workspace");
+    expect(view.sources.digestAwayHours).toBe("member");
+    expect(view.sources.feedPollMinutes).toBe("default");
+    expect(view.canManageWorkspace).toBe(false);
+  });
+
+  it("ignores member overrides of policy and locked keys", () => {
+    const view = layerSettings(
+      layers({
+        workspace: {
+          monthlyAiCapUsd: 5,
+          wallabagUrl: "https://team.example",
+          lockedKeys: ["wallabagUrl"],
+        },
+        member: { monthlyAiCapUsd: 500, wallabagUrl: "https://mine.example" },
+      }),
+    );
+
+    expect(view.monthlyAiCapUsd).toBe(5);
+    expect(view.wallabagUrl).toBe("https://team.example");
+    expect(view.sources.wallabagUrl).toBe("workspace");
+    expect(view.lockedKeys).toEqual(["wallabagUrl"]);
+  });
+
+  it("falls through stored values that no longer validate", () => {
+    const view = layerSettings(
+      layers({ workspace: { feedPollMinutes: 1 }, member: { digestAwayHours: "soon" } }),
+    );
+
+    expect(view.feedPollMinutes).toBe(60);
+    expect(view.digestAwayHours).toBe(24);
+    expect(view.sources.digestAwayHours).toBe("default");
+  });
+});
+
+describe("planSettingsUpdate", () => {
+  it("stores personal keys as member overrides", () => {
+    const plan = planSettingsUpdate({ digestAwayHours: 8 }, layers());
+    expect(plan).toEqual({ workspace: {}, member: { digestAwayHours: 8 }, locked: [] });
+  });
+
+  it("skips unchanged values so full-object saves work for members", () => {
+    const plan = planSettingsUpdate({ ...DEFAULTS, digestBacklogThreshold: 10 }, layers());
+    expect(plan).toEqual({ workspace: {}, member: { digestBacklogThreshold: 10 }, locked: [] });
+  });
+
+  it("reports changed policy and locked keys for members", () => {
+    const plan = planSettingsUpdate(
+      { aiMode: "off", wallabagUrl: "https://mine.example" },
+      layers({ workspace: { lockedKeys: ["wallabagUrl"] } }),
+    );
+    expect(plan.locked).toEqual(["aiMode", "wallabagUrl"]);
+  });
+
+  it("writes policy and locked keys to the workspace for the owner", () => {
+    const plan = planSettingsUpdate(
+      { aiMode: "off", wallabagUrl: "https://team.example", digestAwayHours: 2 },
+      layers({ workspace: { lockedKeys: ["wallabagUrl"] }, isOwner: true }),
+    );
+    expect(plan).toEqual({
+      workspace: { aiMode: "off", wallabagUrl: "https://team.example" },
+      member: { digestAwayHours: 2 },
+      locked: [],
+    });
+  });
+});
+
+describe("providedSettings", () => {
+  it("drops defaults the partial schema filled in", () => {
+    const body = { onboardingCompletedAt: "2026-01-01T00:00:00.000Z" };
+    const payload = settingsSchema.partial().parse(body);
+
+    expect(payload.markReadOnScroll).toBe("off");
+    expect(providedSettings(payload, body)).toEqual(body);
+  });
+});
+
+describe("workspaceSettings", () => {
+  it("returns workspace values without member overrides", () => {
+    expect(workspaceSettings(DEFAULTS, { digestAwayHours: 12 }).digestAwayHours).toBe(12);
+  });
+});
@@ -0,0 +1,146 @@
+import type { PoolClient } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { createWebhookService, enqueueWebhookEvent, WEBHOOK_TEST_EVENT } from "../webhook-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const USER_ID = "22222222-2222-2222-2222-222222222222";
+const WEBHOOK_ID = "33333333-3333-3333-3333-333333333333";
+
+type QueryHandler = (sql: string, params?: unknown[]) => { rows: unknown[] } | undefined;
+
+function buildClient(role: string, handler: QueryHandler = () => undefined) {
+  const query = vi.fn(async (sql: string, params?: unknown[]) => {
+    if (sql.includes("FROM user_account")) {
+      return { rows: [{ role }] };
+    }
+    return handler(sql, params) ?? { rows: [] };
+  });
+  return { query, client: { query } as unknown as PoolClient };
+}
+
+function subscriptionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: WEBHOOK_ID,
+    url: "https://hooks.example.com/rss",
+    event_types: ["cluster.created"],
+    secret: "abc",
+    enabled: true,
+    created_at: new Date("2026-01-01T00:00:00Z"),
+    updated_at: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("enqueueWebhookEvent", () => {
+  it("fans the event out to matching enabled subscriptions", async () => {
+    const { query, client } = buildClient("owner");
+    await enqueueWebhookEvent(client, ACCOUNT_ID, "cluster.saved", { clusterId: "c1" });
+
+    const [sql, params] = query.mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain("s.enabled = TRUE");
+    expect(params[2]).toBe("cluster.saved");
+    expect(JSON.parse(params[3] as string)).toMatchObject({
+      type: "cluster.saved",
+      accountId: ACCOUNT_ID,
+      data: { clusterId: "c1" },
+    });
+  });
+});
+
+describe("createWebhookService", () => {
+  const webhooks = createWebhookService();
+
+  it("rejects members who are not the account owner", async () => {
+    const { query, client } = buildClient("member");
+    expect(await webhooks.listSubscriptions(client, ACCOUNT_ID, USER_ID)).toBe("not_owner");
+    expect(
+      await webhooks.createSubscription(client, ACCOUNT_ID, USER_ID, {
+        url: "https://hooks.example.com/rss",
+        eventTypes: ["cluster.created"],
+        enabled: true,
+      }),
+    ).toBe("not_owner");
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses private endpoint URLs", async () => {
+    const { query, client } = buildClient("owner");
+    const result = await webhooks.createSubscription(client, ACCOUNT_ID, USER_ID, {
+      url: "http://127.0.0.1:9000/hook",
+      eventTypes: ["cluster.created"],
+      enabled: true,
+    });
+    expect(result).toHaveProperty("invalidUrl");
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it("creates a subscription with a generated secret and de-duplicated events", async () => {
+    const { client } = buildClient("owner", (sql, params) => {
+      if (sql.includes("INSERT INTO webhook_subscription")) {
+        return {
+          rows: [subscriptionRow({ event_types: params?.[2], secret: params?.[3] })],
+        };
+      }
+      return undefined;
+    });
+
+    const result = await webhooks.createSubscription(client, ACCOUNT_ID, USER_ID, {
+      url: "https://hooks.example.com/rss",
+      eventTypes: ["cluster.created", "cluster.created", "feed.failed"],
+      enabled: true,
+    });
+
+    expect(result).toMatchObject({
+      id: WEBHOOK_ID,
+      eventTypes: ["cluster.created", "feed.failed"],
+      enabled: true,
+    });
+    expect(typeof result === "object" && "secret" in result && result.secret).toMatch(
+      /^[0-9a-f]{64}$/,
+    );
+  });
+
+  it("returns not_found when updating or testing an unknown subscription", async () => {
+    const { client } = buildClient("owner");
+    expect(
+      await webhooks.updateSubscription(client, ACCOUNT_ID, USER_ID, WEBHOOK_ID, {
+        enabled: false,
+      }),
+    ).toBe("not_found");
+    expect(await webhooks.queueTestEvent(client, ACCOUNT_ID, USER_ID, WEBHOOK_ID)).toBe(
+      "not_found",
+    );
+  });
+
+  it("queues a test delivery for the subscription", async () => {
+    const { client } = buildClient("owner", (sql, params) => {
+      if (sql.includes("INSERT INTO webhook_delivery")) {
+        return {
+          rows: [
+            {
+              id: "44444444-4444-4444-4444-444444444444",
+              subscription_id: params?.[1],
+              event_id: params?.[2],
+              event_type: params?.[3],
+              status: "pending",
+              attempt_count: 0,
+              last_status_code: null,
+              last_error: null,
+              next_attempt_at: new Date(),
+              delivered_at: null,
+              created_at: new Date(),
+            },
+          ],
+        };
+      }
+      return undefined;
+    });
+
+    const result = await webhooks.queueTestEvent(client, ACCOUNT_ID, USER_ID, WEBHOOK_ID);
+    expect(result).toMatchObject({
+      subscriptionId: WEBHOOK_ID,
+      eventType: WEBHOOK_TEST_EVENT,
+      status: "pending",
+    });
+  });
+});
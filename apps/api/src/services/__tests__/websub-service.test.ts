@@ -0,0 +1,172 @@
+import { createHmac } from "node:crypto";
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { createWebSubService, verifyWebSubSignature } from "../websub-service";
+
+const ACCOUNT_ID = "11111111-1111-1111-1111-111111111111";
+const FEED_ID = "22222222-2222-2222-2222-222222222222";
+const SECRET = "hub-secret";
+const CALLBACK_TOKEN = "cb-token";
+
+function feedRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: FEED_ID,
+    tenant_id: ACCOUNT_ID,
+    url: "https://example.com/feed.xml",
+    title: "Example",
+    site_url: "https://example.com",
+    folder_id: "folder-1",
+    weight: "neutral",
+    etag: null,
+    last_modified: null,
+    last_polled_at: null,
+    classification_status: "approved",
+    websub_topic_url: "https://example.com/feed.xml",
+    websub_secret: SECRET,
+    websub_state: "active",
+    websub_callback_token: CALLBACK_TOKEN,
+    ...overrides,
+  };
+}
+
+function buildPool(row: Record<string, unknown> | null) {
+  const query = vi.fn(async (sql: string, _params?: unknown[]) => {
+    if (sql.includes("FROM feed")) {
+      return { rows: row ? [row] : [] };
+    }
+    return { rows: [] };
+  });
+  const client = { query, release: vi.fn() };
+  const pool = { connect: vi.fn(async () => client) } as unknown as Pool;
+  return { pool, query };
+}
+
+function sign(body: string, algorithm = "sha256"): string {
+  return `${algorithm}=${createHmac(algorithm, SECRET).update(body, "utf8").digest("hex")}`;
+}
+
+describe("verifyWebSubSignature", () => {
+  it("accepts sha1 and sha256 signatures", () => {
+    expect(verifyWebSubSignature(SECRET, "<feed/>", sign("<feed/>", "sha1"))).toBe(true);
+    expect(verifyWebSubSignature(SECRET, "<feed/>", sign("<feed/>"))).toBe(true);
+  });
+
+  it("rejects missing, unknown-algorithm, and tampered signatures", () => {
+    expect(verifyWebSubSignature(SECRET, "<feed/>", undefined)).toBe(false);
+    expect(verifyWebSubSignature(SECRET, "<feed/>", "md5=abcd")).toBe(false);
+    expect(verifyWebSubSignature(SECRET, "<feed>x</feed>", sign("<feed/>"))).toBe(false);
+  });
+});
+
+describe("createWebSubService", () => {
+  it("activates the lease and echoes the challenge for a matching topic", async () => {
+    const { pool, query } = buildPool(feedRow());
+    const service = createWebSubService(pool);
+
+    const result = await service.confirmIntent(ACCOUNT_ID, FEED_ID, {
+      mode: "subscribe",
+      topic: "https://example.com/feed.xml",
+      callbackToken: CALLBACK_TOKEN,
+      challenge: "abc123",
+      leaseSeconds: 86400,
+    });
+
+    expect(result).toEqual({ ok: true, challenge: "abc123" });
+    const update = query.mock.calls.find(([sql]) =>
+      String(sql).includes("websub_state = 'active'"),
+    );
+    expect(update?.[1]).toEqual([FEED_ID, ACCOUNT_ID, 86400]);
+  });
+
+  it("refuses to confirm a topic it did not request", async () => {
+    const { pool } = buildPool(feedRow());
+    const service = createWebSubService(pool);
+
+    const result = await service.confirmIntent(ACCOUNT_ID, FEED_ID, {
+      mode: "subscribe",
+      topic: "https://attacker.example/feed.xml",
+      callbackToken: CALLBACK_TOKEN,
+      challenge: "abc123",
+    });
+
+    expect(result).toBe("topic_mismatch");
+  });
+
+  it("requires the callback token on every intent", async () => {
+    const { pool } = buildPool(feedRow());
+    const service = createWebSubService(pool);
+    const intent = {
+      mode: "subscribe" as const,
+      topic: "https://example.com/feed.xml",
+      challenge: "abc123",
+    };
+
+    expect(await service.confirmIntent(ACCOUNT_ID, FEED_ID, intent)).toBe("topic_mismatch");
+    expect(
+      await service.confirmIntent(ACCOUNT_ID, FEED_ID, { ...intent, callbackToken: "guess" }),
+    ).toBe("topic_mismatch");
+    expect(
+      await service.confirmIntent(ACCOUNT_ID, FEED_ID, {
+        ...intent,
+        callbackToken: CALLBACK_TOKEN,
+      }),
+    ).toEqual({ ok: true, challenge: "abc123" });
+  });
+
+  it("only records a denial for a pending subscription with a matching token", async () => {
+    const denial = {
+      mode: "denied" as const,
+      topic: "https://example.com/feed.xml",
+      callbackToken: CALLBACK_TOKEN,
+    };
+
+    const pending = buildPool(feedRow({ websub_state: "pending" }));
+    expect(
+      await createWebSubService(pending.pool).confirmIntent(ACCOUNT_ID, FEED_ID, denial),
+    ).toEqual({ ok: true, challenge: null });
+    expect(
+      pending.query.mock.calls.some(([sql]) => String(sql).includes("websub_state = 'denied'")),
+    ).toBe(true);
+
+    const active = buildPool(feedRow());
+    expect(await createWebSubService(active.pool).confirmIntent(ACCOUNT_ID, FEED_ID, denial)).toBe(
+      "not_pending",
+    );
+
+    const forged = buildPool(feedRow({ websub_state: "pending" }));
+    expect(
+      await createWebSubService(forged.pool).confirmIntent(ACCOUNT_ID, FEED_ID, {
+        ...denial,
+        callbackToken: "guess",
+      }),
+    ).toBe("topic_mismatch");
+    for (const { query } of [active, forged]) {
+      expect(query.mock.calls.some(([sql]) => String(sql).includes("'denied'"))).toBe(false);
+    }
+  });
+
+  it("returns the feed job payload for a correctly signed push", async () => {
+    const { pool } = buildPool(feedRow());
+    const service = createWebSubService(pool);
+    const body = "<feed><entry/></feed>";
+
+    const result = await service.acceptPush(ACCOUNT_ID, FEED_ID, body, sign(body));
+
+    expect(result).toMatchObject({
+      ok: true,
+      feed: { id: FEED_ID, accountId: ACCOUNT_ID, url: "https://example.com/feed.xml" },
+    });
+  });
+
+  it("flags pushes with a bad signature and unknown feeds", async () => {
+    const signed = createWebSubService(buildPool(feedRow()).pool);
+    expect(await signed.acceptPush(ACCOUNT_ID, FEED_ID, "<feed/>", "sha256=00")).toBe(
+      "invalid_signature",
+    );
+
+    const missing = createWebSubService(buildPool(null).pool);
+    expect(await missing.acceptPush(ACCOUNT_ID, FEED_ID, "<feed/>", sign("<feed/>"))).toBe(
+      "not_found",
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "../zip-archive";
+
+const MB = 1024 * 1024;
+
+describe("zip-archive", () => {
+  it("reads back what it writes, including UTF-8 names and empty files", () => {
+    const zip = createZip([
+      { name: "manifest.json", data: Buffer.from('{"ok":true}') },
+      { name: "notes/résumé.ndjson", data: Buffer.from("line 1\nline 2\n") },
+      { name: "empty.ndjson", data: Buffer.alloc(0) },
+    ]);
+
+    const files = readZip(zip, MB);
+    expect([...(files?.keys() ?? [])]).toEqual([
+      "manifest.json",
+      "notes/résumé.ndjson",
+      "empty.ndjson",
+    ]);
+    expect(files?.get("notes/résumé.ndjson")?.toString()).toBe("line 1\nline 2\n");
+    expect(files?.get("empty.ndjson")?.length).toBe(0);
+  });
+
+  it("rejects buffers that are not zips or fail their checksum", () => {
+    expect(readZip(Buffer.from("not a zip at all, just some text"), MB)).toBeNull();
+
+    const data = Buffer.from("stored payload");
+    const zip = createZip([{ name: "a.txt", data }]);
+    const compressed = deflateRawSync(data);
+    const corrupted = Buffer.from(zip);
+    // Flip a byte of the compressed payload, which starts after the 30-byte header and name.
+    const lastPayloadByte = 30 + "a.txt".length + compressed.length - 1;
+    corrupted.writeUInt8(corrupted.readUInt8(lastPayloadByte) ^ 0xff, lastPayloadByte);
+    expect(readZip(corrupted, MB)).toBeNull();
+  });
+
+  it("refuses archives that inflate past the size cap", () => {
+    const zip = createZip([{ name: "big.ndjson", data: Buffer.alloc(64 * 1024, "a") }]);
+    expect(zip.length).toBeLessThan(1024);
+    expect(readZip(zip, 32 * 1024)).toBeNull();
+    expect(readZip(zip, MB)?.get("big.ndjson")?.length).toBe(64 * 1024);
+  });
+});
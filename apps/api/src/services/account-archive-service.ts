@@ -0,0 +1,901 @@
+import {
+  ACCOUNT_ARCHIVE_VERSION,
+  type AccountArchiveKind,
+  type AccountArchiveManifest,
+  type AccountImportConflictMode,
+  type AccountImportCounts,
+  type AccountImportReport,
+  accountArchiveKindSchema,
+  accountArchiveManifestSchema,
+  annotationColorSchema,
+  feedWeightSchema,
+  filterModeSchema,
+  filterTargetSchema,
+  filterTypeSchema,
+  memberSettingKeySchema,
+  readerModeSchema,
+  settingsSchema,
+} from "@rss-wrangler/contracts";
+import { z } from "zod";
+import { normalizeUrl } from "./postgres-store";
+import { findOrBackfillStory } from "./story-backfill";
+import { validateFeedUrl } from "./url-validator";
+import { createZip, readZip } from "./zip-archive";
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[],
+  ) => Promise<{ rows: T[]; rowCount?: number | null }>;
+};
+
+const ARCHIVE_FORMAT = "rss-wrangler-archive";
+const MANIFEST_NAME = "manifest.json";
+/** Guards the import against zip bombs; real archives are far smaller. */
+const MAX_ARCHIVE_UNCOMPRESSED_BYTES = 256 * 1024 * 1024;
+const CONFLICT_REPORT_LIMIT = 200;
+const OTHER_FOLDER_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+/** Secrets stay on the instance they were entered on. */
+const UNEXPORTED_SETTING_KEYS = new Set(["openaiApiKey"]);
+
+const timestampSchema = z.string().datetime();
+
+/**
+ * Record shapes, one NDJSON line each. Ids are the source account's and are
+ * only used to link records inside the archive; the import remaps them.
+ * Stories are the representative item of each cluster the member's read
+ * state or the workspace's annotations refer to.
+ */
+const archiveRecordSchemas = {
+  folders: z.object({ id: z.string(), name: z.string().min(1) }),
+  topics: z.object({ id: z.string(), name: z.string().min(1) }),
+  feeds: z.object({
+    id: z.string(),
+    url: z.string().min(1),
+    title: z.string(),
+    siteUrl: z.string().nullable(),
+    folderId: z.string(),
+    weight: feedWeightSchema,
+    muted: z.boolean(),
+    trial: z.boolean(),
+    defaultReaderMode: readerModeSchema.nullable(),
+  }),
+  feed_topics: z.object({
+    feedId: z.string(),
+    topicId: z.string(),
+    status: z.enum(["pending", "approved", "rejected"]),
+    confidence: z.number().min(0).max(1),
+  }),
+  filters: z.object({
+    id: z.string(),
+    pattern: z.string().min(1),
+    target: filterTargetSchema,
+    type: filterTypeSchema,
+    mode: filterModeSchema,
+    breakoutEnabled: z.boolean(),
+    feedId: z.string().nullable(),
+    folderId: z.string().nullable(),
+    createdAt: timestampSchema,
+  }),
+  stories: z.object({
+    id: z.string(),
+    feedId: z.string(),
+    guid: z.string().nullable(),
+    url: z.string(),
+    canonicalUrl: z.string(),
+    title: z.string(),
+    summary: z.string().nullable(),
+    author: z.string().nullable(),
+    publishedAt: timestampSchema,
+    heroImageUrl: z.string().nullable(),
+  }),
+  read_state: z.object({
+    storyId: z.string(),
+    readAt: timestampSchema.nullable(),
+    savedAt: timestampSchema.nullable(),
+    notInterestedAt: timestampSchema.nullable(),
+    clickedAt: timestampSchema.nullable(),
+    dwellSeconds: z.number().int().min(0),
+  }),
+  annotations: z.object({
+    id: z.string(),
+    storyId: z.string(),
+    highlightedText: z.string().min(1),
+    note: z.string().nullable(),
+    color: annotationColorSchema,
+    createdAt: timestampSchema.nullable(),
+  }),
+  settings: z.object({
+    scope: z.enum(["workspace", "member"]),
+    data: z.record(z.string(), z.unknown()),
+  }),
+} satisfies Record<AccountArchiveKind, z.ZodType>;
+
+type ArchiveRecords = {
+  [K in AccountArchiveKind]: z.infer<(typeof archiveRecordSchemas)[K]>[];
+};
+
+export interface ParsedArchive {
+  manifest: AccountArchiveManifest;
+  records: ArchiveRecords;
+}
+
+export interface AccountImportOptions {
+  dryRun: boolean;
+  onConflict: AccountImportConflictMode;
+  /** Feeds the plan still allows; null when unlimited. */
+  feedSlots: number | null;
+}
+
+function fileName(kind: AccountArchiveKind): string {
+  return `${kind}.ndjson`;
+}
+
+function toNdjson(records: unknown[]): Buffer {
+  return Buffer.from(records.map((record) => `${JSON.stringify(record)}\n`).join(""), "utf8");
+}
+
+function iso(value: Date | null): string | null {
+  return value ? value.toISOString() : null;
+}
+
+export function buildAccountArchive(
+  source: AccountArchiveManifest["source"],
+  records: ArchiveRecords,
+  exportedAt = new Date(),
+): Buffer {
+  const kinds = accountArchiveKindSchema.options;
+  const manifest: AccountArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ACCOUNT_ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    source,
+    files: kinds.map((kind) => ({
+      kind,
+      name: fileName(kind),
+      records: records[kind].length,
+    })),
+  };
+  return createZip(
+    [
+      { name: MANIFEST_NAME, data: Buffer.from(JSON.stringify(manifest, null, 2), "utf8") },
+      ...kinds.map((kind) => ({ name: fileName(kind), data: toNdjson(records[kind]) })),
+    ],
+    exportedAt,
+  );
+}
+
+/**
+ * Unpacks and validates an archive. Files missing from the zip count as
+ * empty; any malformed line rejects the whole archive so an import never
+ * applies half of a file.
+ */
+export function parseAccountArchive(zip: Buffer): ParsedArchive | { invalid: string } {
+  const files = readZip(zip, MAX_ARCHIVE_UNCOMPRESSED_BYTES);
+  if (!files) return { invalid: "not a readable zip archive" };
+
+  const manifestFile = files.get(MANIFEST_NAME);
+  if (!manifestFile) return { invalid: `archive has no ${MANIFEST_NAME}` };
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(manifestFile.toString("utf8"));
+  } catch {
+    return { invalid: `${MANIFEST_NAME} is not valid JSON` };
+  }
+  const manifest = accountArchiveManifestSchema.safeParse(manifestJson);
+  if (!manifest.success) return { invalid: `${MANIFEST_NAME} is not an RSS Wrangler archive` };
+  if (manifest.data.version > ACCOUNT_ARCHIVE_VERSION) {
+    return {
+      invalid: `archive version ${manifest.data.version} is newer than this server supports (${ACCOUNT_ARCHIVE_VERSION})`,
+    };
+  }
+
+  const records = {} as Record<AccountArchiveKind, unknown[]>;
+  for (const kind of accountArchiveKindSchema.options) {
+    const name = manifest.data.files.find((file) => file.kind === kind)?.name ?? fileName(kind);
+    const lines = files.get(name)?.toString("utf8").split("\n") ?? [];
+    const parsed: unknown[] = [];
+    for (const [index, line] of lines.entries()) {
+      if (line.trim() === "") continue;
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        return { invalid: `${name} line ${index + 1} is not valid JSON` };
+      }
+      const record = archiveRecordSchemas[kind].safeParse(value);
+      if (!record.success) {
+        return { invalid: `${name} line ${index + 1}: ${record.error.issues[0]?.message}` };
+      }
+      parsed.push(record.data);
+    }
+    records[kind] = parsed;
+  }
+
+  return { manifest: manifest.data, records: records as ArchiveRecords };
+}
+
+/** Ids in the archive mapped to the ids of the same records in this account. */
+interface IdMaps {
+  folders: Map<string, string>;
+  topics: Map<string, string>;
+  feeds: Map<string, string>;
+}
+
+/**
+ * Rewrites the folder, topic and feed ids personal settings refer to.
+ * References to anything that was not imported are dropped.
+ */
+export function remapSettingIds(
+  data: Record<string, unknown>,
+  maps: IdMaps,
+): Record<string, unknown> {
+  const mapIds = (ids: unknown, map: Map<string, string>) =>
+    Array.isArray(ids) ? ids.flatMap((id) => (map.has(id) ? [map.get(id)] : [])) : ids;
+  const remapped = { ...data };
+
+  if (Array.isArray(data.savedSearches)) {
+    remapped.savedSearches = data.savedSearches.map((search: Record<string, unknown>) => ({
+      ...search,
+      folderId: search.folderId ? (maps.folders.get(String(search.folderId)) ?? null) : null,
+      feedId: search.feedId ? (maps.feeds.get(String(search.feedId)) ?? null) : null,
+    }));
+  }
+  if (Array.isArray(data.digestSections)) {
+    remapped.digestSections = data.digestSections.map((section: Record<string, unknown>) => ({
+      ...section,
+      folderIds: mapIds(section.folderIds, maps.folders),
+      topicIds: mapIds(section.topicIds, maps.topics),
+      feedIds: mapIds(section.feedIds, maps.feeds),
+    }));
+  }
+  const overrides = data.markReadOnScrollFeedOverrides;
+  if (overrides && typeof overrides === "object") {
+    remapped.markReadOnScrollFeedOverrides = Object.fromEntries(
+      Object.entries(overrides).flatMap(([feedId, value]) => {
+        const target = maps.feeds.get(feedId);
+        return target ? [[target, value]] : [];
+      }),
+    );
+  }
+  return remapped;
+}
+
+function emptyCounts(): Record<AccountArchiveKind, AccountImportCounts> {
+  return Object.fromEntries(
+    accountArchiveKindSchema.options.map((kind) => [
+      kind,
+      { created: 0, matched: 0, updated: 0, skipped: 0 },
+    ]),
+  ) as Record<AccountArchiveKind, AccountImportCounts>;
+}
+
+export function createAccountArchiveService() {
+  async function isOwner(client: Queryable, accountId: string, userId: string) {
+    const { rows } = await client.query<{ role: string }>(
+      "SELECT role FROM user_account WHERE id = $1 AND tenant_id = $2 LIMIT 1",
+      [userId, accountId],
+    );
+    return rows[0]?.role === "owner";
+  }
+
+  async function exportArchive(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+  ): Promise<{ filename: string; archive: Buffer } | "not_found"> {
+    const user = await client.query<{ username: string }>(
+      "SELECT username FROM user_account WHERE id = $1 AND tenant_id = $2 LIMIT 1",
+      [userId, accountId],
+    );
+    const username = user.rows[0]?.username;
+    if (!username) return "not_found";
+
+    const folders = await client.query<{ id: string; name: string }>(
+      "SELECT id, name FROM folder ORDER BY name ASC",
+    );
+    const topics = await client.query<{ id: string; name: string }>(
+      "SELECT id, name FROM topic WHERE tenant_id = $1 ORDER BY name ASC",
+      [accountId],
+    );
+    const feeds = await client.query<{
+      id: string;
+      url: string;
+      title: string;
+      site_url: string | null;
+      folder_id: string;
+      weight: "prefer" | "neutral" | "deprioritize";
+      muted: boolean;
+      trial: boolean;
+      default_reader_mode: "feed" | "original" | "text" | "video" | null;
+    }>(
+      `SELECT id, url, title, site_url, folder_id, weight, muted, trial, default_reader_mode
+       FROM feed
+       WHERE tenant_id = $1
+       ORDER BY created_at ASC`,
+      [accountId],
+    );
+    const feedTopics = await client.query<{
+      feed_id: string;
+      topic_id: string;
+      status: "pending" | "approved" | "rejected";
+      confidence: string;
+    }>(
+      `SELECT feed_id, topic_id, status, confidence::text
+       FROM feed_topic
+       WHERE tenant_id = $1
+       ORDER BY proposed_at ASC`,
+      [accountId],
+    );
+    const filters = await client.query<{
+      id: string;
+      pattern: string;
+      target: "keyword" | "author" | "domain" | "url_pattern";
+      type: "phrase" | "regex";
+      mode: "mute" | "block" | "keep";
+      breakout_enabled: boolean;
+      feed_id: string | null;
+      folder_id: string | null;
+      created_at: Date;
+    }>(
+      `SELECT id, pattern, target, type, mode, breakout_enabled, feed_id, folder_id, created_at
+       FROM filter_rule
+       WHERE tenant_id = $1
+       ORDER BY created_at ASC`,
+      [accountId],
+    );
+    const readState = await client.query<{
+      cluster_id: string;
+      read_at: Date | null;
+      saved_at: Date | null;
+      not_interested_at: Date | null;
+      clicked_at: Date | null;
+      dwell_seconds: number | null;
+    }>(
+      `SELECT cluster_id, read_at, saved_at, not_interested_at, clicked_at, dwell_seconds
+       FROM read_state
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND (read_at IS NOT NULL OR saved_at IS NOT NULL OR not_interested_at IS NOT NULL)`,
+      [accountId, userId],
+    );
+    const annotations = await client.query<{
+      id: string;
+      cluster_id: string;
+      highlighted_text: string;
+      note: string | null;
+      color: "yellow" | "green" | "blue" | "pink";
+      created_at: Date | null;
+    }>(
+      `SELECT id, cluster_id, highlighted_text, note, color, created_at
+       FROM annotation
+       WHERE tenant_id = $1
+       ORDER BY created_at ASC`,
+      [accountId],
+    );
+
+    const clusterIds = [
+      ...new Set([
+        ...readState.rows.map((row) => row.cluster_id),
+        ...annotations.rows.map((row) => row.cluster_id),
+      ]),
+    ];
+    const stories =
+      clusterIds.length === 0
+        ? { rows: [] }
+        : await client.query<{
+            id: string;
+            feed_id: string;
+            guid: string | null;
+            url: string;
+            canonical_url: string;
+            title: string;
+            summary: string | null;
+            author: string | null;
+            published_at: Date;
+            hero_image_url: string | null;
+          }>(
+            `SELECT c.id, i.feed_id, i.guid, i.url, i.canonical_url, i.title, i.summary, i.author,
+                    i.published_at, i.hero_image_url
+             FROM cluster c
+             JOIN item i ON i.id = c.rep_item_id AND i.tenant_id = c.tenant_id
+             WHERE c.tenant_id = $1
+               AND c.id = ANY($2::uuid[])`,
+            [accountId, clusterIds],
+          );
+    const storyIds = new Set(stories.rows.map((row) => row.id));
+
+    const workspace = await client.query<{ data: Record<string, unknown> }>(
+      "SELECT data FROM app_settings WHERE tenant_id = $1 AND key = 'main' LIMIT 1",
+      [accountId],
+    );
+    const member = await client.query<{ data: Record<string, unknown> }>(
+      "SELECT data FROM member_settings WHERE tenant_id = $1 AND user_id = $2 LIMIT 1",
+      [accountId, userId],
+    );
+    const workspaceData = Object.fromEntries(
+      Object.entries(workspace.rows[0]?.data ?? {}).filter(
+        ([key]) => !UNEXPORTED_SETTING_KEYS.has(key),
+      ),
+    );
+
+    const exportedAt = new Date();
+    const archive = buildAccountArchive(
+      { accountId, userId, username },
+      {
+        folders: folders.rows.map((row) => ({ id: row.id, name: row.name })),
+        topics: topics.rows.map((row) => ({ id: row.id, name: row.name })),
+        feeds: feeds.rows.map((row) => ({
+          id: row.id,
+          url: row.url,
+          title: row.title,
+          siteUrl: row.site_url,
+          folderId: row.folder_id,
+          weight: row.weight,
+          muted: row.muted,
+          trial: row.trial,
+          defaultReaderMode: row.default_reader_mode,
+        })),
+        feed_topics: feedTopics.rows.map((row) => ({
+          feedId: row.feed_id,
+          topicId: row.topic_id,
+          status: row.status,
+          confidence: Number(row.confidence),
+        })),
+        filters: filters.rows.map((row) => ({
+          id: row.id,
+          pattern: row.pattern,
+          target: row.target,
+          type: row.type,
+          mode: row.mode,
+          breakoutEnabled: row.breakout_enabled,
+          feedId: row.feed_id,
+          folderId: row.folder_id,
+          createdAt: row.created_at.toISOString(),
+        })),
+        stories: stories.rows.map((row) => ({
+          id: row.id,
+          feedId: row.feed_id,
+          guid: row.guid,
+          url: row.url,
+          canonicalUrl: row.canonical_url,
+          title: row.title,
+          summary: row.summary,
+          author: row.author,
+          publishedAt: row.published_at.toISOString(),
+          heroImageUrl: row.hero_image_url,
+        })),
+        read_state: readState.rows
+          .filter((row) => storyIds.has(row.cluster_id))
+          .map((row) => ({
+            storyId: row.cluster_id,
+            readAt: iso(row.read_at),
+            savedAt: iso(row.saved_at),
+            notInterestedAt: iso(row.not_interested_at),
+            clickedAt: iso(row.clicked_at),
+            dwellSeconds: row.dwell_seconds ?? 0,
+          })),
+        annotations: annotations.rows
+          .filter((row) => storyIds.has(row.cluster_id))
+          .map((row) => ({
+            id: row.id,
+            storyId: row.cluster_id,
+            highlightedText: row.highlighted_text,
+            note: row.note,
+            color: row.color,
+            createdAt: iso(row.created_at),
+          })),
+        settings: [
+          { scope: "workspace" as const, data: workspaceData },
+          { scope: "member" as const, data: member.rows[0]?.data ?? {} },
+        ],
+      },
+      exportedAt,
+    );
+
+    const stamp = exportedAt
+      .toISOString()
+      .replace(/[:]/g, "-")
+      .replace(/\.\d{3}Z$/, "Z");
+    return { filename: `rss-wrangler-archive-${stamp}.zip`, archive };
+  }
+
+  /**
+   * Replays an archive into the caller's account inside one transaction.
+   * Records are matched to existing ones by natural key (folder and topic
+   * name, normalized feed URL, item guid or canonical URL, filter pattern and
+   * scope, highlighted text) and everything else is created with new ids. A
+   * dry run performs the same writes and rolls them back, so its report is
+   * exactly what a real import would do.
+   */
+  async function importArchive(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    zip: Buffer,
+    options: AccountImportOptions,
+  ): Promise<AccountImportReport | { invalid: string }> {
+    const parsed = parseAccountArchive(zip);
+    if ("invalid" in parsed) return parsed;
+
+    await client.query("BEGIN");
+    try {
+      const report = await replayArchive(client, accountId, userId, parsed, options);
+      await client.query(options.dryRun ? "ROLLBACK" : "COMMIT");
+      return report;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    }
+  }
+
+  async function replayArchive(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    { manifest, records }: ParsedArchive,
+    options: AccountImportOptions,
+  ): Promise<AccountImportReport> {
+    const replace = options.onConflict === "replace";
+    const counts = emptyCounts();
+    const conflicts: AccountImportReport["conflicts"] = [];
+    let truncated = 0;
+    const note = (kind: AccountArchiveKind, sourceId: string | null, message: string) => {
+      if (conflicts.length < CONFLICT_REPORT_LIMIT) {
+        conflicts.push({ kind, sourceId, message });
+      } else {
+        truncated++;
+      }
+    };
+    const skip = (kind: AccountArchiveKind, sourceId: string | null, message: string) => {
+      counts[kind].skipped++;
+      note(kind, sourceId, message);
+    };
+    const maps: IdMaps = { folders: new Map(), topics: new Map(), feeds: new Map() };
+    let feedSlots = options.feedSlots;
+
+    // Folders are shared by every account, so they are matched by name only.
+    const folderRows = await client.query<{ id: string; name: string }>(
+      "SELECT id, name FROM folder",
+    );
+    const foldersByName = new Map(folderRows.rows.map((row) => [row.name.toLowerCase(), row.id]));
+    const otherFolderId = foldersByName.get("other") ?? OTHER_FOLDER_ID;
+    for (const folder of records.folders) {
+      const target = foldersByName.get(folder.name.toLowerCase());
+      if (target) {
+        maps.folders.set(folder.id, target);
+        counts.folders.matched++;
+      } else {
+        skip("folders", folder.id, `no folder named "${folder.name}"; its feeds go to Other`);
+      }
+    }
+
+    const topicRows = await client.query<{ id: string; name: string }>(
+      "SELECT id, name FROM topic WHERE tenant_id = $1",
+      [accountId],
+    );
+    const topicsByName = new Map(topicRows.rows.map((row) => [row.name.toLowerCase(), row.id]));
+    for (const topic of records.topics) {
+      const existing = topicsByName.get(topic.name.toLowerCase());
+      if (existing) {
+        maps.topics.set(topic.id, existing);
+        counts.topics.matched++;
+        continue;
+      }
+      const inserted = await client.query<{ id: string }>(
+        "INSERT INTO topic (tenant_id, name) VALUES ($1, $2) RETURNING id",
+        [accountId, topic.name],
+      );
+      const id = inserted.rows[0]?.id;
+      if (!id) throw new Error("failed to create topic");
+      topicsByName.set(topic.name.toLowerCase(), id);
+      maps.topics.set(topic.id, id);
+      counts.topics.created++;
+    }
+
+    const feedRows = await client.query<{ id: string; url_normalized: string; folder_id: string }>(
+      "SELECT id, url_normalized, folder_id FROM feed WHERE tenant_id = $1",
+      [accountId],
+    );
+    const feedsByUrl = new Map(feedRows.rows.map((row) => [row.url_normalized, row.id]));
+    const feedFolders = new Map(feedRows.rows.map((row) => [row.id, row.folder_id]));
+    for (const feed of records.feeds) {
+      const urlError = validateFeedUrl(feed.url);
+      if (urlError) {
+        skip("feeds", feed.id, `${feed.url}: ${urlError}`);
+        continue;
+      }
+      const folderId = maps.folders.get(feed.folderId) ?? otherFolderId;
+      const urlNormalized = normalizeUrl(feed.url);
+      const existing = feedsByUrl.get(urlNormalized);
+      if (existing) {
+        maps.feeds.set(feed.id, existing);
+        if (!replace) {
+          counts.feeds.matched++;
+          continue;
+        }
+        await client.query(
+          `UPDATE feed
+           SET title = $3, site_url = $4, folder_id = $5, weight = $6, muted = $7, trial = $8,
+               default_reader_mode = $9
+           WHERE id = $1
+             AND tenant_id = $2`,
+          [
+            existing,
+            accountId,
+            feed.title,
+            feed.siteUrl,
+            folderId,
+            feed.weight,
+            feed.muted,
+            feed.trial,
+            feed.defaultReaderMode,
+          ],
+        );
+        feedFolders.set(existing, folderId);
+        counts.feeds.updated++;
+        continue;
+      }
+      if (feedSlots !== null && feedSlots <= 0) {
+        skip("feeds", feed.id, `${feed.url}: feed limit of your plan reached`);
+        continue;
+      }
+      const inserted = await client.query<{ id: string }>(
+        `INSERT INTO feed (tenant_id, url, url_normalized, title, site_url, folder_id, folder_confidence, weight, muted, trial, classification_status, default_reader_mode)
+         VALUES ($1, $2, $3, $4, $5, $6, 1, $7, $8, $9, 'approved', $10)
+         RETURNING id`,
+        [
+          accountId,
+          feed.url,
+          urlNormalized,
+          feed.title,
+          feed.siteUrl,
+          folderId,
+          feed.weight,
+          feed.muted,
+          feed.trial,
+          feed.defaultReaderMode,
+        ],
+      );
+      const id = inserted.rows[0]?.id;
+      if (!id) throw new Error("failed to create feed");
+      feedsByUrl.set(urlNormalized, id);
+      feedFolders.set(id, folderId);
+      maps.feeds.set(feed.id, id);
+      if (feedSlots !== null) feedSlots--;
+      counts.feeds.created++;
+    }
+
+    for (const link of records.feed_topics) {
+      const feedId = maps.feeds.get(link.feedId);
+      const topicId = maps.topics.get(link.topicId);
+      if (!feedId || !topicId) {
+        skip("feed_topics", `${link.feedId}:${link.topicId}`, "feed or topic was not imported");
+        continue;
+      }
+      const { rows } = await client.query<{ inserted: boolean }>(
+        `INSERT INTO feed_topic (tenant_id, feed_id, topic_id, status, confidence, resolved_at)
+         VALUES ($1, $2, $3, $4, $5, CASE WHEN $4 = 'pending' THEN NULL ELSE NOW() END)
+         ON CONFLICT (feed_id, topic_id) DO ${
+           replace
+             ? "UPDATE SET status = EXCLUDED.status, confidence = EXCLUDED.confidence, resolved_at = EXCLUDED.resolved_at"
+             : "NOTHING"
+         }
+         RETURNING (xmax = 0) AS inserted`,
+        [accountId, feedId, topicId, link.status, link.confidence],
+      );
+      counts.feed_topics[
+        rows.length === 0 ? "matched" : rows[0]?.inserted ? "created" : "updated"
+      ]++;
+    }
+
+    for (const filter of records.filters) {
+      const feedId = filter.feedId ? maps.feeds.get(filter.feedId) : null;
+      const folderId = filter.folderId ? maps.folders.get(filter.folderId) : null;
+      if (feedId === undefined || folderId === undefined) {
+        skip("filters", filter.id, `"${filter.pattern}": its feed or folder was not imported`);
+        continue;
+      }
+      if (filter.type === "regex") {
+        try {
+          new RegExp(filter.pattern);
+        } catch {
+          skip("filters", filter.id, `"${filter.pattern}": invalid regex`);
+          continue;
+        }
+      }
+      const existing = await client.query<{ id: string }>(
+        `SELECT id
+         FROM filter_rule
+         WHERE tenant_id = $1
+           AND pattern = $2
+           AND target = $3
+           AND type = $4
+           AND mode = $5
+           AND feed_id IS NOT DISTINCT FROM $6
+           AND folder_id IS NOT DISTINCT FROM $7
+         LIMIT 1`,
+        [accountId, filter.pattern, filter.target, filter.type, filter.mode, feedId, folderId],
+      );
+      const existingId = existing.rows[0]?.id;
+      if (existingId) {
+        if (replace) {
+          await client.query(
+            "UPDATE filter_rule SET breakout_enabled = $3 WHERE id = $1 AND tenant_id = $2",
+            [existingId, accountId, filter.breakoutEnabled],
+          );
+          counts.filters.updated++;
+        } else {
+          counts.filters.matched++;
+        }
+        continue;
+      }
+      await client.query(
+        `INSERT INTO filter_rule (tenant_id, pattern, target, type, mode, breakout_enabled, feed_id, folder_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          accountId,
+          filter.pattern,
+          filter.target,
+          filter.type,
+          filter.mode,
+          filter.breakoutEnabled,
+          feedId,
+          folderId,
+          filter.createdAt,
+        ],
+      );
+      counts.filters.created++;
+    }
+
+    const stories = new Map<string, string>();
+    for (const story of records.stories) {
+      const feedId = maps.feeds.get(story.feedId);
+      if (!feedId) {
+        skip("stories", story.id, `"${story.title}": its feed was not imported`);
+        continue;
+      }
+      const { clusterId, created } = await findOrBackfillStory(client, accountId, {
+        ...story,
+        feedId,
+        folderId: feedFolders.get(feedId) ?? otherFolderId,
+      });
+      stories.set(story.id, clusterId);
+      counts.stories[created ? "created" : "matched"]++;
+    }
+
+    // `keep` only fills in timestamps the member does not have yet.
+    const pick = (column: string) =>
+      replace
+        ? `${column} = COALESCE(EXCLUDED.${column}, read_state.${column})`
+        : `${column} = COALESCE(read_state.${column}, EXCLUDED.${column})`;
+    for (const state of records.read_state) {
+      const clusterId = stories.get(state.storyId);
+      if (!clusterId) {
+        skip("read_state", state.storyId, "story was not imported");
+        continue;
+      }
+      const { rows } = await client.query<{ inserted: boolean }>(
+        `INSERT INTO read_state (tenant_id, user_id, cluster_id, read_at, saved_at, not_interested_at, clicked_at, dwell_seconds)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE
+         SET ${["read_at", "saved_at", "not_interested_at", "clicked_at"].map(pick).join(", ")},
+             dwell_seconds = GREATEST(read_state.dwell_seconds, EXCLUDED.dwell_seconds)
+         RETURNING (xmax = 0) AS inserted`,
+        [
+          accountId,
+          userId,
+          clusterId,
+          state.readAt,
+          state.savedAt,
+          state.notInterestedAt,
+          state.clickedAt,
+          state.dwellSeconds,
+        ],
+      );
+      counts.read_state[rows[0]?.inserted ? "created" : replace ? "updated" : "matched"]++;
+    }
+
+    for (const annotation of records.annotations) {
+      const clusterId = stories.get(annotation.storyId);
+      if (!clusterId) {
+        skip("annotations", annotation.id, "story was not imported");
+        continue;
+      }
+      const existing = await client.query<{ id: string }>(
+        `SELECT id
+         FROM annotation
+         WHERE tenant_id = $1
+           AND cluster_id = $2
+           AND highlighted_text = $3
+         LIMIT 1`,
+        [accountId, clusterId, annotation.highlightedText],
+      );
+      const existingId = existing.rows[0]?.id;
+      if (existingId) {
+        if (replace) {
+          await client.query(
+            "UPDATE annotation SET note = $3, color = $4 WHERE id = $1 AND tenant_id = $2",
+            [existingId, accountId, annotation.note, annotation.color],
+          );
+          counts.annotations.updated++;
+        } else {
+          counts.annotations.matched++;
+        }
+        continue;
+      }
+      await client.query(
+        `INSERT INTO annotation (tenant_id, cluster_id, highlighted_text, note, color, created_at)
+         VALUES ($1, $2, $3, $4, $5, COALESCE($6::timestamptz, NOW()))`,
+        [
+          accountId,
+          clusterId,
+          annotation.highlightedText,
+          annotation.note,
+          annotation.color,
+          annotation.createdAt,
+        ],
+      );
+      counts.annotations.created++;
+    }
+
+    const owner = await isOwner(client, accountId, userId);
+    for (const entry of records.settings) {
+      if (entry.scope === "workspace" && !owner) {
+        skip("settings", "workspace", "workspace settings can only be imported by the owner");
+        continue;
+      }
+      const allowed = (key: string) =>
+        entry.scope === "workspace"
+          ? key === "lockedKeys" ||
+            (key in settingsSchema.shape && !UNEXPORTED_SETTING_KEYS.has(key))
+          : memberSettingKeySchema.safeParse(key).success;
+      const data: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(remapSettingIds(entry.data, maps))) {
+        if (!allowed(key)) continue;
+        const schema =
+          key === "lockedKeys"
+            ? z.array(memberSettingKeySchema)
+            : settingsSchema.shape[key as keyof typeof settingsSchema.shape];
+        if (schema.safeParse(value).success) {
+          data[key] = value;
+        } else {
+          note("settings", entry.scope, `${key}: invalid value ignored`);
+        }
+      }
+      if (Object.keys(data).length === 0) continue;
+
+      // `keep` lets values already stored win over the archive.
+      const merge = (table: string) =>
+        replace ? `${table}.data || EXCLUDED.data` : `EXCLUDED.data || ${table}.data`;
+      const { rows } =
+        entry.scope === "workspace"
+          ? await client.query<{ inserted: boolean }>(
+              `INSERT INTO app_settings (tenant_id, key, data) VALUES ($1, 'main', $2)
+               ON CONFLICT (tenant_id, key) DO UPDATE SET data = ${merge("app_settings")}
+               RETURNING (xmax = 0) AS inserted`,
+              [accountId, JSON.stringify(data)],
+            )
+          : await client.query<{ inserted: boolean }>(
+              `INSERT INTO member_settings (tenant_id, user_id, data) VALUES ($1, $2, $3)
+               ON CONFLICT (tenant_id, user_id)
+               DO UPDATE SET data = ${merge("member_settings")}, updated_at = NOW()
+               RETURNING (xmax = 0) AS inserted`,
+              [accountId, userId, JSON.stringify(data)],
+            );
+      counts.settings[rows[0]?.inserted ? "created" : replace ? "updated" : "matched"]++;
+    }
+
+    return {
+      dryRun: options.dryRun,
+      onConflict: options.onConflict,
+      archiveVersion: manifest.version,
+      exportedAt: manifest.exportedAt,
+      counts,
+      conflicts,
+      truncated,
+    };
+  }
+
+  return { exportArchive, importArchive };
+}
@@ -0,0 +1,328 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { ApiToken, ApiTokenScope } from "@rss-wrangler/contracts";
+import type { Pool } from "pg";
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+
+/** Personal tokens are recognisable so the auth plugin can skip JWT parsing. */
+export const API_TOKEN_PREFIX = "rwp_";
+
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export interface ApiTokenIdentity {
+  tokenId: string;
+  userId: string;
+  accountId: string;
+  scopes: ApiTokenScope[];
+}
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) => Promise<{ rows: T[] }>;
+};
+
+interface ApiTokenRow {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  created_at: Date;
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+const READ_SCOPES: ApiTokenScope[] = ["clusters:read"];
+const FEED_READ_SCOPES: ApiTokenScope[] = ["clusters:read", "feeds:write"];
+const FEED_SCOPES: ApiTokenScope[] = ["feeds:write"];
+const FILTER_SCOPES: ApiTokenScope[] = ["filters:manage"];
+const EXPORT_SCOPES: ApiTokenScope[] = ["export"];
+
+/**
+ * Scopes a personal token needs for each protected route, keyed by
+ * `METHOD route-pattern`. Every protected route is listed; `null` routes
+ * (account, billing, token management, per-story state, ...) refuse personal
+ * tokens. A test checks this against the registered routes.
+ */
+export const API_TOKEN_ROUTE_SCOPES: Record<string, ApiTokenScope[] | null> = {
+  "GET /v1/clusters": READ_SCOPES,
+  "GET /v1/clusters/:id": READ_SCOPES,
+  "GET /v1/clusters/:id/annotations": READ_SCOPES,
+  "GET /v1/clusters/:id/summary": READ_SCOPES,
+  "GET /v1/clusters/:id/related": READ_SCOPES,
+  "GET /v1/highlights": READ_SCOPES,
+  "GET /v1/folders": READ_SCOPES,
+  "GET /v1/topics": READ_SCOPES,
+  "GET /v1/digests": READ_SCOPES,
+  "POST /v1/digest/preview": READ_SCOPES,
+  "GET /v1/search": READ_SCOPES,
+  "GET /v1/stats": READ_SCOPES,
+
+  "GET /v1/feeds": FEED_READ_SCOPES,
+  "GET /v1/feeds/pending": FEED_SCOPES,
+  "GET /v1/feeds/suggestions": FEED_SCOPES,
+  "POST /v1/feeds/discover": FEED_SCOPES,
+  "GET /v1/feeds/:id/topics": FEED_SCOPES,
+  "POST /v1/feeds": FEED_SCOPES,
+  "PATCH /v1/feeds/:id": FEED_SCOPES,
+  "POST /v1/feeds/:id/poll-now": FEED_SCOPES,
+  "POST /v1/feeds/:id/topics/resolve": FEED_SCOPES,
+  "POST /v1/feeds/:id/topics/approve-all": FEED_SCOPES,
+  "POST /v1/opml/import": FEED_SCOPES,
+  "GET /v1/imports": FEED_SCOPES,
+  "POST /v1/imports": FEED_SCOPES,
+  "GET /v1/imports/:id": FEED_SCOPES,
+  "GET /v1/extraction-rules": FEED_SCOPES,
+  "POST /v1/extraction-rules": FEED_SCOPES,
+  "PATCH /v1/extraction-rules/:id": FEED_SCOPES,
+  "DELETE /v1/extraction-rules/:id": FEED_SCOPES,
+  "POST /v1/extraction-previews": FEED_SCOPES,
+  "GET /v1/extraction-previews/:id": FEED_SCOPES,
+
+  "GET /v1/filters": FILTER_SCOPES,
+  "POST /v1/filters": FILTER_SCOPES,
+  "PATCH /v1/filters/:id": FILTER_SCOPES,
+  "DELETE /v1/filters/:id": FILTER_SCOPES,
+
+  "GET /v1/opml/export": EXPORT_SCOPES,
+  "GET /v1/account/data-export": EXPORT_SCOPES,
+  "POST /v1/account/data-export/request": EXPORT_SCOPES,
+  "GET /v1/account/data-export/download": EXPORT_SCOPES,
+  "GET /v1/account/archive": EXPORT_SCOPES,
+  "GET /v1/highlights/export/status": EXPORT_SCOPES,
+  "GET /v1/highlights/export": EXPORT_SCOPES,
+  "POST /v1/highlights/readwise": EXPORT_SCOPES,
+  "GET /v1/feed-outputs": EXPORT_SCOPES,
+  "POST /v1/feed-outputs": EXPORT_SCOPES,
+  "POST /v1/feed-outputs/:id/rotate": EXPORT_SCOPES,
+  "DELETE /v1/feed-outputs/:id": EXPORT_SCOPES,
+
+  "POST /v1/clusters/mark-all-read": null,
+  "POST /v1/clusters/:id/read": null,
+  "POST /v1/clusters/:id/unread": null,
+  "POST /v1/clusters/:id/save": null,
+  "POST /v1/clusters/:id/shared-save": null,
+  "DELETE /v1/clusters/:id/shared-save": null,
+  "POST /v1/clusters/:id/split": null,
+  "POST /v1/clusters/:id/feedback": null,
+  "POST /v1/clusters/:id/annotations": null,
+  "DELETE /v1/annotations/:id": null,
+  "POST /v1/clusters/:id/read-later": null,
+  "POST /v1/clusters/:id/dwell": null,
+  "POST /v1/items/:id/media-progress": null,
+  "POST /v1/folders": null,
+  "PUT /v1/folders/order": null,
+  "PATCH /v1/folders/:id": null,
+  "DELETE /v1/folders/:id": null,
+  "PATCH /v1/topics/:id": null,
+  "DELETE /v1/topics/:id": null,
+  "POST /v1/digest/generate": null,
+  "POST /v1/events": null,
+  "POST /v1/account/password": null,
+  "GET /v1/account/deletion": null,
+  "POST /v1/account/deletion/request": null,
+  "POST /v1/account/deletion/cancel": null,
+  "GET /v1/account/invites": null,
+  "POST /v1/account/invites": null,
+  "POST /v1/account/invites/:id/revoke": null,
+  "GET /v1/account/members": null,
+  "PATCH /v1/account/members/:id": null,
+  "POST /v1/account/members/:id/remove": null,
+  // Importing an archive replaces account data, so it stays interactive.
+  "POST /v1/account/archive/import": null,
+  "GET /v1/read-later/connections": null,
+  "POST /v1/read-later/connections": null,
+  "PATCH /v1/read-later/connections/:id": null,
+  "DELETE /v1/read-later/connections/:id": null,
+  "GET /v1/read-later/deliveries": null,
+  "GET /v1/account/client-api": null,
+  "PUT /v1/account/client-api": null,
+  "DELETE /v1/account/client-api": null,
+  "GET /v1/account/api-tokens": null,
+  "POST /v1/account/api-tokens": null,
+  "DELETE /v1/account/api-tokens/:id": null,
+  "GET /v1/webhooks": null,
+  "POST /v1/webhooks": null,
+  "PATCH /v1/webhooks/:id": null,
+  "DELETE /v1/webhooks/:id": null,
+  "POST /v1/webhooks/:id/test": null,
+  "GET /v1/webhooks/:id/deliveries": null,
+  "GET /v1/account/entitlements": null,
+  "GET /v1/billing": null,
+  "POST /v1/billing/checkout": null,
+  "GET /v1/billing/portal": null,
+  "POST /v1/billing/subscription-action": null,
+  "GET /v1/privacy/consent": null,
+  "PUT /v1/privacy/consent": null,
+  "GET /v1/settings": null,
+  "POST /v1/settings": null,
+  "POST /v1/settings/workspace": null,
+  "GET /v1/push/vapid-key": null,
+  "POST /v1/push/subscribe": null,
+  "DELETE /v1/push/subscribe": null,
+  "GET /v1/ai/usage": null,
+  "GET /v1/sponsored-placements": null,
+  "POST /v1/sponsored-placements/:id/impression": null,
+  "POST /v1/sponsored-placements/:id/click": null,
+  "GET /v1/recommendations": null,
+  "POST /v1/recommendations/:id/dismiss": null,
+};
+
+export function requiredScopesForRoute(
+  method: string,
+  routeUrl: string | undefined,
+): ApiTokenScope[] | null {
+  if (!routeUrl) return null;
+  return API_TOKEN_ROUTE_SCOPES[`${method.toUpperCase()} ${routeUrl}`] ?? null;
+}
+
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    scopes: row.scopes as ApiTokenScope[],
+    createdAt: row.created_at.toISOString(),
+    expiresAt: row.expires_at?.toISOString() ?? null,
+    lastUsedAt: row.last_used_at?.toISOString() ?? null,
+    revokedAt: row.revoked_at?.toISOString() ?? null,
+  };
+}
+
+export function createApiTokenService(pool: Pool) {
+  async function isActiveMember(accountId: string, userId: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      const result = await client.query<{ status: string }>(
+        "SELECT status FROM user_account WHERE id = $1 AND tenant_id = $2",
+        [userId, accountId],
+      );
+      return result.rows[0]?.status === "active";
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * Resolves a bearer token to its owner and bumps `last_used_at`. Revoked and
+   * expired tokens, and tokens of suspended members, are rejected.
+   */
+  async function authenticate(token: string): Promise<ApiTokenIdentity | null> {
+    if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+
+    const { rows } = await pool.query<{
+      id: string;
+      user_id: string;
+      tenant_id: string;
+      scopes: string[];
+    }>(
+      `UPDATE api_token
+       SET last_used_at = NOW()
+       WHERE token_hash = $1
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())
+       RETURNING id, user_id, tenant_id, scopes`,
+      [hashApiToken(token)],
+    );
+    const row = rows[0];
+    if (!row) return null;
+    if (!(await isActiveMember(row.tenant_id, row.user_id))) return null;
+
+    return {
+      tokenId: row.id,
+      userId: row.user_id,
+      accountId: row.tenant_id,
+      scopes: row.scopes as ApiTokenScope[],
+    };
+  }
+
+  async function listTokens(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+  ): Promise<ApiToken[]> {
+    const { rows } = await client.query<ApiTokenRow>(
+      `SELECT id, name, token_prefix, scopes, created_at, expires_at, last_used_at, revoked_at
+       FROM api_token
+       WHERE tenant_id = $1 AND user_id = $2
+       ORDER BY created_at DESC`,
+      [accountId, userId],
+    );
+    return rows.map(toApiToken);
+  }
+
+  async function createToken(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    payload: { name: string; scopes: ApiTokenScope[]; expiresInDays: number | null },
+  ): Promise<{ token: string; apiToken: ApiToken }> {
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("hex")}`;
+    const scopes = [...new Set(payload.scopes)];
+
+    const { rows } = await client.query<ApiTokenRow>(
+      `INSERT INTO api_token (tenant_id, user_id, name, token_hash, token_prefix, scopes, expires_at)
+       VALUES (
+         $1, $2, $3, $4, $5, $6::text[],
+         CASE WHEN $7::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $7::int) END
+       )
+       RETURNING id, name, token_prefix, scopes, created_at, expires_at, last_used_at, revoked_at`,
+      [
+        accountId,
+        userId,
+        payload.name,
+        hashApiToken(token),
+        token.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes,
+        payload.expiresInDays,
+      ],
+    );
+    const row = rows[0];
+    if (!row) {
+      throw new Error("failed to create API token");
+    }
+
+    await client.query(
+      `INSERT INTO member_event (tenant_id, target_user_id, actor_user_id, event_type, metadata)
+       VALUES ($1, $2, $2, 'api_token_created', $3::jsonb)`,
+      [accountId, userId, JSON.stringify({ tokenId: row.id, name: row.name, scopes })],
+    );
+
+    return { token, apiToken: toApiToken(row) };
+  }
+
+  async function revokeToken(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    tokenId: string,
+  ): Promise<"ok" | "not_found"> {
+    const { rows } = await client.query<{ id: string; name: string }>(
+      `UPDATE api_token
+       SET revoked_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND user_id = $3 AND revoked_at IS NULL
+       RETURNING id, name`,
+      [tokenId, accountId, userId],
+    );
+    const row = rows[0];
+    if (!row) return "not_found";
+
+    await client.query(
+      `INSERT INTO member_event (tenant_id, target_user_id, actor_user_id, event_type, metadata)
+       VALUES ($1, $2, $2, 'api_token_revoked', $3::jsonb)`,
+      [accountId, userId, JSON.stringify({ tokenId: row.id, name: row.name })],
+    );
+    return "ok";
+  }
+
+  return { authenticate, listTokens, createToken, revokeToken };
+}
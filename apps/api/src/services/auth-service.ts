@@ -1145,6 +1145,15 @@ export function createAuthService(app: FastifyInstance, env: ApiEnv, pool: Pool)
         [accountId],
       );
 
+      const memberSettingsResult = await client.query<{ data: unknown }>(
+        `SELECT data
+         FROM member_settings
+         WHERE tenant_id = $1
+           AND user_id = $2
+         LIMIT 1`,
+        [accountId, userId],
+      );
+
       const folderRows = await client.query<{
         id: string;
         name: string;
@@ -1237,9 +1246,10 @@ export function createAuthService(app: FastifyInstance, env: ApiEnv, pool: Pool)
            ON f.id = i.feed_id
           AND f.tenant_id = i.tenant_id
          WHERE rs.tenant_id = $1
+           AND rs.user_id = $2
            AND rs.saved_at IS NOT NULL
          ORDER BY rs.saved_at DESC`,
-        [accountId],
+        [accountId, userId],
       );
 
       const annotationRows = await client.query<{
@@ -1283,8 +1293,9 @@ export function createAuthService(app: FastifyInstance, env: ApiEnv, pool: Pool)
         `SELECT id, created_at, start_ts, end_ts, title, body, entries_json
          FROM digest
          WHERE tenant_id = $1
+           AND (user_id = $2 OR user_id IS NULL)
          ORDER BY created_at DESC`,
-        [accountId],
+        [accountId, userId],
       );
 
       return {
@@ -1300,6 +1311,7 @@ export function createAuthService(app: FastifyInstance, env: ApiEnv, pool: Pool)
           lastLoginAt: user.last_login_at?.toISOString() ?? null,
         },
         settings: settingsResult.rows[0]?.data ?? {},
+        memberSettings: memberSettingsResult.rows[0]?.data ?? {},
         folders: folderRows.rows.map((row) => ({
           id: row.id,
           name: row.name,
@@ -0,0 +1,221 @@
+import { createHash } from "node:crypto";
+import type { Pool, PoolClient } from "pg";
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+
+export interface ClientApiIdentity {
+  userId: string;
+  accountId: string;
+  /** Changes whenever the password is reset, invalidating issued client tokens. */
+  credentialVersion: string;
+}
+
+export type SetClientApiPasswordResult = { ok: true; username: string } | "user_not_found";
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) => Promise<{ rows: T[] }>;
+};
+
+interface CredentialRow {
+  user_id: string;
+  tenant_id: string;
+  created_at: Date;
+}
+
+/**
+ * The username client apps sign in with: the member's username qualified with
+ * the workspace slug, lowercased. Usernames are only unique per workspace, so
+ * the bare username would let Fever keys and logins match another workspace.
+ */
+export function clientApiLogin(username: string, workspaceSlug: string): string {
+  return `${username}@${workspaceSlug}`.trim().toLowerCase();
+}
+
+/** Fever clients send `md5(login:password)` as the API key. */
+export function computeFeverApiKey(login: string, password: string): string {
+  return createHash("md5").update(`${login}:${password}`, "utf8").digest("hex");
+}
+
+function hashFeverApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey.trim().toLowerCase(), "utf8").digest("hex");
+}
+
+function toIdentity(row: CredentialRow): ClientApiIdentity {
+  return {
+    userId: row.user_id,
+    accountId: row.tenant_id,
+    credentialVersion: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Client API passwords are separate from the web login and shared by the
+ * Fever and Google Reader compatibility endpoints, which both use the
+ * workspace-qualified login from `clientApiLogin`. Credentials are looked up
+ * before any tenant context exists, so the table sits outside RLS.
+ */
+export function createClientApiCredentialService(pool: Pool) {
+  async function withAccountClient<T>(
+    accountId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  async function isActiveMember(row: CredentialRow): Promise<boolean> {
+    // Suspended members lose client access along with web access.
+    return withAccountClient(row.tenant_id, async (client) => {
+      const result = await client.query<{ status: string }>(
+        "SELECT status FROM user_account WHERE id = $1 AND tenant_id = $2",
+        [row.user_id, row.tenant_id],
+      );
+      return result.rows[0]?.status === "active";
+    });
+  }
+
+  async function authenticateFeverKey(
+    apiKey: string | undefined,
+  ): Promise<ClientApiIdentity | null> {
+    if (!apiKey || !/^[a-f0-9]{32}$/i.test(apiKey.trim())) {
+      return null;
+    }
+
+    const { rows } = await pool.query<CredentialRow>(
+      `UPDATE client_api_credential
+       SET last_used_at = NOW()
+       WHERE fever_key_hash = $1
+       RETURNING user_id, tenant_id, created_at`,
+      [hashFeverApiKey(apiKey)],
+    );
+    // The key covers the workspace, so it can only match across workspaces
+    // through an md5 collision; refuse rather than pick one.
+    const row = rows.length === 1 ? rows[0] : undefined;
+    if (!row) return null;
+
+    return (await isActiveMember(row)) ? toIdentity(row) : null;
+  }
+
+  /** Login/password sign-in for Google Reader clients. */
+  async function authenticatePassword(
+    username: string,
+    password: string,
+  ): Promise<ClientApiIdentity | null> {
+    if (!username || !password) return null;
+
+    const { rows } = await pool.query<CredentialRow>(
+      `UPDATE client_api_credential
+       SET last_used_at = NOW()
+       WHERE username = $1
+         AND password_hash IS NOT NULL
+         AND password_hash = crypt($2, password_hash)
+       RETURNING user_id, tenant_id, created_at`,
+      [username.trim().toLowerCase(), password],
+    );
+    const row = rows[0];
+    if (!row) return null;
+
+    return (await isActiveMember(row)) ? toIdentity(row) : null;
+  }
+
+  /** Re-checks a previously issued client token against the stored credential. */
+  async function verifyIdentity(identity: ClientApiIdentity): Promise<boolean> {
+    const { rows } = await pool.query<CredentialRow>(
+      `SELECT user_id, tenant_id, created_at
+       FROM client_api_credential
+       WHERE user_id = $1 AND tenant_id = $2`,
+      [identity.userId, identity.accountId],
+    );
+    const row = rows[0];
+    if (!row || row.created_at.toISOString() !== identity.credentialVersion) {
+      return false;
+    }
+    return isActiveMember(row);
+  }
+
+  async function getStatus(client: Queryable, accountId: string, userId: string) {
+    const { rows } = await client.query<{
+      username: string;
+      slug: string;
+      login: string | null;
+      created_at: Date | null;
+      last_used_at: Date | null;
+    }>(
+      `SELECT u.username, t.slug, c.username AS login, c.created_at, c.last_used_at
+       FROM user_account u
+       JOIN tenant t ON t.id = u.tenant_id
+       LEFT JOIN client_api_credential c ON c.user_id = u.id
+       WHERE u.id = $1 AND u.tenant_id = $2`,
+      [userId, accountId],
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return {
+      enabled: row.created_at !== null,
+      // The login stored with the credential is what clients were set up with.
+      username: row.login ?? clientApiLogin(row.username, row.slug),
+      createdAt: row.created_at ? row.created_at.toISOString() : null,
+      lastUsedAt: row.last_used_at ? row.last_used_at.toISOString() : null,
+    };
+  }
+
+  async function setPassword(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    password: string,
+  ): Promise<SetClientApiPasswordResult> {
+    const { rows } = await client.query<{ username: string; slug: string }>(
+      `SELECT u.username, t.slug
+       FROM user_account u
+       JOIN tenant t ON t.id = u.tenant_id
+       WHERE u.id = $1 AND u.tenant_id = $2`,
+      [userId, accountId],
+    );
+    const row = rows[0];
+    if (!row) return "user_not_found";
+
+    const login = clientApiLogin(row.username, row.slug);
+    const keyHash = hashFeverApiKey(computeFeverApiKey(login, password));
+
+    await client.query(
+      `INSERT INTO client_api_credential (user_id, tenant_id, fever_key_hash, username, password_hash)
+       VALUES ($1, $2, $3, $4, crypt($5, gen_salt('bf')))
+       ON CONFLICT (user_id) DO UPDATE
+       SET fever_key_hash = EXCLUDED.fever_key_hash,
+           username = EXCLUDED.username,
+           password_hash = EXCLUDED.password_hash,
+           created_at = NOW(),
+           last_used_at = NULL`,
+      [userId, accountId, keyHash, login, password],
+    );
+    return { ok: true, username: login };
+  }
+
+  async function revokePassword(client: Queryable, accountId: string, userId: string) {
+    await client.query("DELETE FROM client_api_credential WHERE user_id = $1 AND tenant_id = $2", [
+      userId,
+      accountId,
+    ]);
+  }
+
+  return {
+    withAccountClient,
+    authenticateFeverKey,
+    authenticatePassword,
+    verifyIdentity,
+    getStatus,
+    setPassword,
+    revokePassword,
+  };
+}
@@ -0,0 +1,50 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+const CIPHER_VERSION = "v1";
+
+function deriveKey(secret: string): Buffer {
+  return createHash("sha256").update(secret, "utf8").digest();
+}
+
+/**
+ * Encrypts third-party credentials with AES-256-GCM as
+ * `v1.<iv>.<tag>.<ciphertext>` (base64url). The worker decrypts with the same
+ * secret; see apps/worker/src/services/read-later-service.ts.
+ */
+export function encryptCredentials(secret: string, credentials: Record<string, string>): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(credentials), "utf8"),
+    cipher.final(),
+  ]);
+  return [
+    CIPHER_VERSION,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(".");
+}
+
+/** Returns null when the value was not produced by `encryptCredentials` with this secret. */
+export function decryptCredentials(secret: string, value: string): Record<string, string> | null {
+  const [version, iv, tag, ciphertext] = value.split(".");
+  if (version !== CIPHER_VERSION || !iv || !tag || ciphertext === undefined) return null;
+
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(secret),
+      Buffer.from(iv, "base64url"),
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+    const parsed: unknown = JSON.parse(plaintext);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, string>) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,168 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Pool, PoolClient } from "pg";
+import { z } from "zod";
+import { PostgresStore } from "./postgres-store";
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+
+export type DigestEmailAction = "read" | "save" | "unsubscribe";
+
+export interface DigestLinkClaims {
+  accountId: string;
+  userId: string;
+  action: DigestEmailAction;
+  clusterId?: string;
+  /** Unix seconds. */
+  expiresAt: number;
+}
+
+export type DigestEmailActionResult =
+  | { ok: true; action: DigestEmailAction; clusterId?: string }
+  | "invalid_token"
+  | "not_found";
+
+const claimsSchema = z.object({
+  a: z.string().uuid(),
+  u: z.string().uuid(),
+  x: z.enum(["read", "save", "unsubscribe"]),
+  c: z.string().uuid().optional(),
+  e: z.number().int(),
+});
+
+function signPayload(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload, "utf8").digest("base64url");
+}
+
+/** Mirrors the worker's signer; used by tests and kept next to the verifier. */
+export function signDigestLinkToken(secret: string, claims: DigestLinkClaims): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      a: claims.accountId,
+      u: claims.userId,
+      x: claims.action,
+      c: claims.clusterId,
+      e: claims.expiresAt,
+    }),
+    "utf8",
+  ).toString("base64url");
+  return `${payload}.${signPayload(secret, payload)}`;
+}
+
+/**
+ * Checks the signature and expiry of a one-click digest link. Cluster
+ * actions must name a cluster; unsubscribe links must not.
+ */
+export function verifyDigestLinkToken(
+  secret: string,
+  token: string,
+  now = new Date(),
+): DigestLinkClaims | null {
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(signPayload(secret, payload), "base64url");
+  const provided = Buffer.from(signature, "base64url");
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  const parsed = claimsSchema.safeParse(decoded);
+  if (!parsed.success) return null;
+
+  const claims = parsed.data;
+  if (claims.e * 1000 < now.getTime()) return null;
+  if ((claims.x === "unsubscribe") !== (claims.c === undefined)) return null;
+
+  return {
+    accountId: claims.a,
+    userId: claims.u,
+    action: claims.x,
+    clusterId: claims.c,
+    expiresAt: claims.e,
+  };
+}
+
+export function createDigestEmailService(pool: Pool, secret: string | undefined) {
+  async function withAccountClient<T>(
+    accountId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  /** The action a digest link would apply, so it can be confirmed first. */
+  function describeAction(token: string): DigestEmailAction | "invalid_token" {
+    const claims = secret ? verifyDigestLinkToken(secret, token) : null;
+    return claims?.action ?? "invalid_token";
+  }
+
+  /**
+   * Applies a confirmed link from a digest email: marks the story read,
+   * saves it, or switches the member's digest channel back to in-app.
+   * `oneClick` requests (RFC 8058 List-Unsubscribe-Post) may only unsubscribe.
+   */
+  async function applyAction(
+    token: string,
+    options: { oneClick?: boolean } = {},
+  ): Promise<DigestEmailActionResult> {
+    const claims = secret ? verifyDigestLinkToken(secret, token) : null;
+    if (!claims || (options.oneClick && claims.action !== "unsubscribe")) {
+      return "invalid_token";
+    }
+
+    return withAccountClient(claims.accountId, async (client) => {
+      const member = await client.query(
+        `SELECT id
+         FROM user_account
+         WHERE id = $1
+           AND tenant_id = $2
+           AND status = 'active'`,
+        [claims.userId, claims.accountId],
+      );
+      if (member.rows.length === 0) {
+        return "not_found";
+      }
+
+      if (claims.action === "unsubscribe") {
+        await client.query(
+          `INSERT INTO member_settings (tenant_id, user_id, data)
+           VALUES ($1, $2, '{"digestChannel":"in_app"}'::jsonb)
+           ON CONFLICT (tenant_id, user_id)
+           DO UPDATE SET data = member_settings.data || EXCLUDED.data, updated_at = NOW()`,
+          [claims.accountId, claims.userId],
+        );
+        return { ok: true as const, action: claims.action };
+      }
+
+      const clusterId = claims.clusterId as string;
+      const store = new PostgresStore(client, claims.accountId, claims.userId);
+      const applied =
+        claims.action === "read"
+          ? await store.markRead(clusterId)
+          : await store.saveCluster(clusterId);
+      if (!applied) {
+        return "not_found";
+      }
+      return { ok: true as const, action: claims.action, clusterId: claims.clusterId };
+    });
+  }
+
+  return { describeAction, applyAction };
+}
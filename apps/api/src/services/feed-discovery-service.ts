@@ -0,0 +1,382 @@
+import type { DiscoveredFeed, FeedDiscoverySource, FeedFormat } from "@rss-wrangler/contracts";
+import {
+  isYouTubeHost,
+  youtubeChannelFeedUrl,
+  youtubePlaylistFeedUrl,
+  youtubeUserFeedUrl,
+} from "@rss-wrangler/contracts";
+import { validateFeedUrl } from "./url-validator";
+
+const DISCOVERY_TIMEOUT_MS = 10_000;
+const DISCOVERY_MAX_REDIRECTS = 5;
+/** Pages and feeds are cut off at this many bytes; the rest is never read. */
+const DISCOVERY_MAX_BODY_BYTES = 2_000_000;
+/** Upper bound on candidate URLs probed per discovery request. */
+const DISCOVERY_MAX_PROBES = 8;
+
+const COMMON_FEED_PATHS = ["/feed", "/rss.xml", "/atom.xml", "/index.xml"];
+
+const CHANNEL_ID_PATTERN = /^UC[A-Za-z0-9_-]{22}$/;
+const CHANNEL_FEED_LINK_PATTERN =
+  /https:\/\/www\.youtube\.com\/feeds\/videos\.xml\?channel_id=(UC[A-Za-z0-9_-]{22})/;
+const CHANNEL_ID_PAGE_PATTERNS = [
+  /<link[^>]+rel="canonical"[^>]+href="https:\/\/www\.youtube\.com\/channel\/(UC[A-Za-z0-9_-]{22})"/,
+  /<meta[^>]+itemprop="(?:channelId|identifier)"[^>]+content="(UC[A-Za-z0-9_-]{22})"/,
+  /"(?:externalId|channelId)":"(UC[A-Za-z0-9_-]{22})"/,
+];
+
+const FEED_LINK_TYPES = new Set([
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/rdf+xml",
+  "application/feed+json",
+  "application/json",
+]);
+
+export interface FetchedPage {
+  /** Final URL after redirects; relative links resolve against it. */
+  url: string;
+  body: string;
+}
+
+export type FetchPage = (url: string) => Promise<FetchedPage | null>;
+
+/**
+ * Fetches a page for discovery. Redirects are followed by hand so every hop
+ * goes through the same SSRF checks as the original URL.
+ */
+async function fetchPage(url: string): Promise<FetchedPage | null> {
+  let current = url;
+  try {
+    for (let hop = 0; hop <= DISCOVERY_MAX_REDIRECTS; hop++) {
+      if (validateFeedUrl(current)) return null;
+      const response = await fetch(current, {
+        headers: {
+          "User-Agent": "RSSWrangler/1.0",
+          Accept:
+            "text/html, application/rss+xml, application/atom+xml, application/feed+json, */*;q=0.8",
+        },
+        redirect: "manual",
+        signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+      });
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get("location");
+        if (!location) return null;
+        current = new URL(location, current).toString();
+        continue;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        return null;
+      }
+      const body = await readBodyPrefix(response, DISCOVERY_MAX_BODY_BYTES);
+      return { url: current, body };
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+/**
+ * Reads at most `maxBytes` of the body and cancels the rest of the stream, so
+ * an endless or huge response is never held in memory.
+ */
+async function readBodyPrefix(response: Response, maxBytes: number): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return "";
+
+  const decoder = new TextDecoder();
+  let body = "";
+  let totalBytes = 0;
+  while (totalBytes < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return body + decoder.decode();
+    const chunk = value.subarray(0, maxBytes - totalBytes);
+    totalBytes += chunk.byteLength;
+    body += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel();
+  return body + decoder.decode();
+}
+
+/**
+ * Maps a URL the user pasted to the feed URL to subscribe to. YouTube channel,
+ * handle, user, playlist and video URLs resolve to the matching Atom feed;
+ * anything else is returned unchanged. Returns null when a YouTube page cannot
+ * be resolved to a channel.
+ */
+export async function discoverFeedUrl(
+  rawUrl: string,
+  fetchImpl: FetchPage = fetchPage,
+): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return rawUrl;
+  }
+  if (!isYouTubeHost(url.hostname)) return rawUrl;
+  return resolveYouTubeFeedUrl(url, fetchImpl);
+}
+
+/**
+ * Finds the feeds behind a website URL so the user can pick one before
+ * subscribing. A URL that already serves a feed is returned on its own.
+ * Otherwise candidates come from `<link rel="alternate">` tags and known
+ * platform layouts, falling back to common feed paths. Every candidate is
+ * fetched so only parseable feeds are returned, with their title and size.
+ */
+export async function discoverFeeds(
+  rawUrl: string,
+  fetchImpl: FetchPage = fetchPage,
+): Promise<DiscoveredFeed[]> {
+  if (validateFeedUrl(rawUrl)) return [];
+
+  const resolvedUrl = await discoverFeedUrl(rawUrl, fetchImpl);
+  if (!resolvedUrl) return [];
+  const viaPlatform = resolvedUrl !== rawUrl;
+
+  const page = await fetchImpl(resolvedUrl);
+  if (!page) return [];
+
+  const direct = sniffFeed(page.body);
+  if (direct) {
+    return [{ url: page.url, ...direct, source: viaPlatform ? "platform" : "direct" }];
+  }
+
+  const proposals: Array<{ url: string; source: FeedDiscoverySource }> = [
+    ...extractFeedLinks(page.body, page.url).map((url) => ({
+      url,
+      source: "link_tag" as const,
+    })),
+    ...platformFeedUrls(new URL(page.url), page.body).map((url) => ({
+      url,
+      source: "platform" as const,
+    })),
+  ];
+
+  let candidates = await probeCandidates(proposals, fetchImpl);
+  if (candidates.length === 0) {
+    const origin = new URL(page.url).origin;
+    candidates = await probeCandidates(
+      COMMON_FEED_PATHS.map((path) => ({ url: `${origin}${path}`, source: "common_path" })),
+      fetchImpl,
+    );
+  }
+  return candidates;
+}
+
+async function probeCandidates(
+  proposals: Array<{ url: string; source: FeedDiscoverySource }>,
+  fetchImpl: FetchPage,
+): Promise<DiscoveredFeed[]> {
+  const seen = new Set<string>();
+  const unique = proposals.filter((proposal) => {
+    if (seen.has(proposal.url) || validateFeedUrl(proposal.url)) return false;
+    seen.add(proposal.url);
+    return true;
+  });
+
+  const probed = await Promise.all(
+    unique.slice(0, DISCOVERY_MAX_PROBES).map(async (proposal) => {
+      const fetched = await fetchImpl(proposal.url);
+      const feed = fetched ? sniffFeed(fetched.body) : null;
+      return feed ? { url: proposal.url, ...feed, source: proposal.source } : null;
+    }),
+  );
+
+  // Redirects can make two candidates the same feed; keep the first.
+  const results: DiscoveredFeed[] = [];
+  const keys = new Set<string>();
+  for (const candidate of probed) {
+    if (!candidate) continue;
+    const key = `${candidate.format}|${candidate.title}|${candidate.itemCount}`;
+    if (keys.has(key)) continue;
+    keys.add(key);
+    results.push(candidate);
+  }
+  return results;
+}
+
+/**
+ * Recognises a feed document from its root element (or JSON Feed version)
+ * without a full parse, returning its title and number of entries.
+ */
+export function sniffFeed(
+  body: string,
+): { format: FeedFormat; title: string | null; itemCount: number } | null {
+  const trimmed = body.replace(/^\uFEFF/, "").trimStart();
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed) as { version?: unknown; title?: unknown; items?: unknown };
+      if (typeof json.version !== "string" || !json.version.includes("jsonfeed.org")) {
+        return null;
+      }
+      return {
+        format: "json",
+        title: typeof json.title === "string" && json.title.trim() ? json.title.trim() : null,
+        itemCount: Array.isArray(json.items) ? json.items.length : 0,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  const withoutProlog = trimmed.replace(
+    /^(<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>|\s)+/i,
+    "",
+  );
+  let format: FeedFormat;
+  let itemPattern: RegExp;
+  if (/^<rss[\s>]/i.test(withoutProlog)) {
+    format = "rss";
+    itemPattern = /<item[\s>]/gi;
+  } else if (/^<feed[\s>]/i.test(withoutProlog)) {
+    format = "atom";
+    itemPattern = /<entry[\s>]/gi;
+  } else if (/^<rdf:RDF[\s>]/i.test(withoutProlog)) {
+    format = "rdf";
+    itemPattern = /<item[\s>]/gi;
+  } else {
+    return null;
+  }
+
+  return {
+    format,
+    title: extractXmlTitle(withoutProlog),
+    itemCount: withoutProlog.match(itemPattern)?.length ?? 0,
+  };
+}
+
+function extractXmlTitle(xml: string): string | null {
+  const match = xml.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (!match?.[1]) return null;
+  const title = decodeEntities(
+    match[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, "$1").replace(/<[^>]*>/g, ""),
+  ).trim();
+  return title || null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+/** Reads `<link rel="alternate">` feed links from an HTML page. */
+export function extractFeedLinks(html: string, baseUrl: string): string[] {
+  const links: string[] = [];
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    const attrs = parseAttributes(tag);
+    const rel = attrs.get("rel")?.toLowerCase().split(/\s+/) ?? [];
+    const type = attrs.get("type")?.toLowerCase().split(";")[0]?.trim();
+    const href = attrs.get("href");
+    if (!rel.includes("alternate") || !type || !FEED_LINK_TYPES.has(type) || !href) continue;
+    // Comment feeds are rarely what someone adding a site wants.
+    if (/comments?\b/i.test(attrs.get("title") ?? "") || /\/comments\/feed\/?$/i.test(href)) {
+      continue;
+    }
+    try {
+      links.push(new URL(decodeEntities(href), baseUrl).toString());
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+  return links;
+}
+
+function parseAttributes(tag: string): Map<string, string> {
+  const attrs = new Map<string, string>();
+  for (const match of tag.matchAll(/([a-zA-Z_:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    const name = match[1]?.toLowerCase();
+    if (!name) continue;
+    attrs.set(name, match[3] ?? match[4] ?? match[5] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Feed locations for platforms whose pages do not always advertise them:
+ * WordPress, Substack, Ghost, Medium and GitHub (releases and user activity).
+ */
+export function platformFeedUrls(url: URL, html: string): string[] {
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split("/").filter(Boolean);
+  const generator =
+    html.match(/<meta[^>]+name=["']generator["'][^>]+content=["']([^"']+)["']/i)?.[1] ?? "";
+
+  if (host === "github.com") {
+    const [owner, repo] = segments;
+    if (owner && repo) return [`https://github.com/${owner}/${repo}/releases.atom`];
+    if (owner) return [`https://github.com/${owner}.atom`];
+    return [];
+  }
+
+  if (host === "medium.com") {
+    const [first] = segments;
+    return first ? [`https://medium.com/feed/${first}`] : [];
+  }
+
+  if (
+    host.endsWith(".medium.com") ||
+    host.endsWith(".substack.com") ||
+    html.includes("substackcdn.com")
+  ) {
+    return [`${url.origin}/feed`];
+  }
+
+  if (/^ghost\b/i.test(generator)) {
+    return [`${url.origin}/rss/`];
+  }
+
+  if (/^wordpress\b/i.test(generator) || html.includes("/wp-content/")) {
+    return [`${url.origin}/feed/`];
+  }
+
+  return [];
+}
+
+async function resolveYouTubeFeedUrl(url: URL, fetchImpl: FetchPage): Promise<string | null> {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const [first, second] = segments;
+
+  if (first === "feeds") return url.toString();
+
+  const playlistId = url.searchParams.get("list");
+  if (first === "playlist" && playlistId) {
+    return youtubePlaylistFeedUrl(playlistId);
+  }
+
+  if (first === "channel" && second && CHANNEL_ID_PATTERN.test(second)) {
+    return youtubeChannelFeedUrl(second);
+  }
+
+  if (first === "user" && second) {
+    return youtubeUserFeedUrl(second);
+  }
+
+  // Handles (/@name), custom URLs (/c/name) and video pages need the page
+  // itself to find the owning channel id.
+  const page = await fetchImpl(url.toString());
+  if (!page) return null;
+  const channelId = extractChannelId(page.body);
+  return channelId ? youtubeChannelFeedUrl(channelId) : null;
+}
+
+function extractChannelId(html: string): string | null {
+  const feedLink = html.match(CHANNEL_FEED_LINK_PATTERN);
+  if (feedLink?.[1]) return feedLink[1];
+
+  for (const pattern of CHANNEL_ID_PAGE_PATTERNS) {
+    const match = html.match(pattern);
+    if (match?.[1]) return match[1];
+  }
+  return null;
+}
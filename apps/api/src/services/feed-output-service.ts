@@ -0,0 +1,490 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  type ClusterCard,
+  type Digest,
+  digestSectionHeadings,
+  type FeedOutput,
+  type FeedOutputFormat,
+  type FeedOutputKind,
+} from "@rss-wrangler/contracts";
+import type { Pool, PoolClient } from "pg";
+import { PostgresStore } from "./postgres-store";
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+
+/** Output tokens are recognisable in logs and distinct from personal API tokens. */
+export const FEED_OUTPUT_TOKEN_PREFIX = "rwf_";
+
+const DISPLAY_PREFIX_LENGTH = FEED_OUTPUT_TOKEN_PREFIX.length + 6;
+const MAX_DIGESTS = 20;
+const MAX_CLUSTERS = 50;
+
+export interface FeedOutputIdentity {
+  outputId: string;
+  accountId: string;
+  userId: string;
+  kind: FeedOutputKind;
+  targetId: string | null;
+  name: string;
+}
+
+export interface OutputFeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  contentHtml: string | null;
+  publishedAt: string;
+  author: string | null;
+  imageUrl: string | null;
+  tags: string[];
+}
+
+export interface OutputFeed {
+  id: string;
+  title: string;
+  description: string;
+  homePageUrl: string;
+  feedUrl: string;
+  updatedAt: string;
+  items: OutputFeedItem[];
+}
+
+interface FeedOutputRow {
+  id: string;
+  kind: FeedOutputKind;
+  target_id: string | null;
+  name: string;
+  token_prefix: string;
+  created_at: Date;
+  rotated_at: Date | null;
+  last_used_at: Date | null;
+}
+
+function hashOutputToken(token: string): string {
+  return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+function newOutputToken(): string {
+  return `${FEED_OUTPUT_TOKEN_PREFIX}${randomBytes(24).toString("hex")}`;
+}
+
+function toFeedOutput(row: FeedOutputRow): FeedOutput {
+  return {
+    id: row.id,
+    kind: row.kind,
+    targetId: row.target_id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    createdAt: row.created_at.toISOString(),
+    rotatedAt: row.rotated_at?.toISOString() ?? null,
+    lastUsedAt: row.last_used_at?.toISOString() ?? null,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// ---------- Items ----------
+
+/** One feed item per digest, with its entries grouped by section. */
+export function digestFeedItems(digests: Digest[], appBaseUrl: string): OutputFeedItem[] {
+  return digests.map((digest) => {
+    const sections = digestSectionHeadings(digest)
+      .map((section) => {
+        const entries = digest.entries.filter((entry) => entry.section === section.id);
+        if (entries.length === 0) return "";
+        const list = entries
+          .map((entry) => {
+            const link = `<a href="${escapeXml(`${appBaseUrl}/clusters/${entry.clusterId}`)}">${escapeXml(entry.headline)}</a>`;
+            return entry.oneLiner
+              ? `<li>${link} — ${escapeXml(entry.oneLiner)}</li>`
+              : `<li>${link}</li>`;
+          })
+          .join("");
+        return `<h3>${escapeXml(section.title)}</h3><ul>${list}</ul>`;
+      })
+      .join("");
+
+    return {
+      id: `urn:rss-wrangler:digest:${digest.id}`,
+      url: `${appBaseUrl}/digest`,
+      title: digest.title,
+      summary: digest.body || null,
+      contentHtml: sections || null,
+      publishedAt: digest.createdAt,
+      author: null,
+      imageUrl: null,
+      tags: [],
+    };
+  });
+}
+
+export function clusterFeedItems(clusters: ClusterCard[], appBaseUrl: string): OutputFeedItem[] {
+  return clusters.map((cluster) => {
+    const outlets =
+      cluster.outletCount > 1 ? `<p>Covered by ${cluster.outletCount} outlets.</p>` : "";
+    return {
+      id: `urn:rss-wrangler:cluster:${cluster.id}`,
+      url: `${appBaseUrl}/clusters/${cluster.id}`,
+      title: cluster.headline,
+      summary: cluster.summary,
+      contentHtml: cluster.summary
+        ? `<p>${escapeXml(cluster.summary)}</p>${outlets}`
+        : outlets || null,
+      publishedAt: cluster.primarySourcePublishedAt,
+      author: cluster.primarySource,
+      imageUrl: cluster.heroImageUrl,
+      tags: [cluster.folderName, cluster.topicName].filter((tag): tag is string => Boolean(tag)),
+    };
+  });
+}
+
+// ---------- Rendering ----------
+
+export function renderAtom(feed: OutputFeed): string {
+  const entries = feed.items.map((item) =>
+    [
+      "  <entry>",
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(item.url)}"/>`,
+      `    <published>${item.publishedAt}</published>`,
+      `    <updated>${item.publishedAt}</updated>`,
+      item.author ? `    <author><name>${escapeXml(item.author)}</name></author>` : null,
+      ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      item.summary ? `    <summary type="text">${escapeXml(item.summary)}</summary>` : null,
+      item.contentHtml ? `    <content type="html">${escapeXml(item.contentHtml)}</content>` : null,
+      "  </entry>",
+    ]
+      .filter((line): line is string => line !== null)
+      .join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <updated>${feed.updatedAt}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <link rel="alternate" href="${escapeXml(feed.homePageUrl)}"/>`,
+    "  <generator>RSS Wrangler</generator>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+export function renderRss(feed: OutputFeed): string {
+  const items = feed.items.map((item) =>
+    [
+      "    <item>",
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+      item.author ? `      <dc:creator>${escapeXml(item.author)}</dc:creator>` : null,
+      ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      item.contentHtml || item.summary
+        ? `      <description>${escapeXml(item.contentHtml ?? item.summary ?? "")}</description>`
+        : null,
+      "    </item>",
+    ]
+      .filter((line): line is string => line !== null)
+      .join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homePageUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <lastBuildDate>${new Date(feed.updatedAt).toUTCString()}</lastBuildDate>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    "    <generator>RSS Wrangler</generator>",
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/** JSON Feed 1.1, https://jsonfeed.org/version/1.1 */
+export function renderJsonFeed(feed: OutputFeed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrl,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      ...(item.contentHtml
+        ? { content_html: item.contentHtml }
+        : { content_text: item.summary ?? "" }),
+      ...(item.summary ? { summary: item.summary } : {}),
+      ...(item.imageUrl ? { image: item.imageUrl } : {}),
+      date_published: item.publishedAt,
+      ...(item.author ? { authors: [{ name: item.author }] } : {}),
+      ...(item.tags.length > 0 ? { tags: item.tags } : {}),
+    })),
+  });
+}
+
+export function renderFeedOutput(
+  feed: OutputFeed,
+  format: FeedOutputFormat,
+): { contentType: string; body: string } {
+  switch (format) {
+    case "atom":
+      return { contentType: "application/atom+xml; charset=utf-8", body: renderAtom(feed) };
+    case "rss":
+      return { contentType: "application/rss+xml; charset=utf-8", body: renderRss(feed) };
+    case "json":
+      return { contentType: "application/feed+json; charset=utf-8", body: renderJsonFeed(feed) };
+  }
+}
+
+// ---------- Service ----------
+
+export function createFeedOutputService(pool: Pool) {
+  async function withAccountClient<T>(
+    accountId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * Resolves an output token and bumps `last_used_at`. Tokens of suspended
+   * or removed members stop working along with their web access.
+   */
+  async function authenticate(token: string): Promise<FeedOutputIdentity | null> {
+    if (!token.startsWith(FEED_OUTPUT_TOKEN_PREFIX)) return null;
+
+    const { rows } = await pool.query<{
+      id: string;
+      tenant_id: string;
+      user_id: string;
+      kind: FeedOutputKind;
+      target_id: string | null;
+      name: string;
+    }>(
+      `UPDATE feed_output
+       SET last_used_at = NOW()
+       WHERE token_hash = $1
+       RETURNING id, tenant_id, user_id, kind, target_id, name`,
+      [hashOutputToken(token)],
+    );
+    const row = rows[0];
+    if (!row) return null;
+
+    const active = await withAccountClient(row.tenant_id, async (client) => {
+      const result = await client.query<{ status: string }>(
+        "SELECT status FROM user_account WHERE id = $1 AND tenant_id = $2",
+        [row.user_id, row.tenant_id],
+      );
+      return result.rows[0]?.status === "active";
+    });
+    if (!active) return null;
+
+    return {
+      outputId: row.id,
+      accountId: row.tenant_id,
+      userId: row.user_id,
+      kind: row.kind,
+      targetId: row.target_id,
+      name: row.name,
+    };
+  }
+
+  /** Default output name, or null when the folder, topic or saved search is gone. */
+  async function targetName(
+    store: PostgresStore,
+    kind: FeedOutputKind,
+    targetId: string | null,
+  ): Promise<string | null> {
+    switch (kind) {
+      case "digest":
+        return "Digest";
+      case "folder":
+        return (await store.listFolders()).find((folder) => folder.id === targetId)?.name ?? null;
+      case "topic":
+        return (await store.listTopics()).find((topic) => topic.id === targetId)?.name ?? null;
+      case "saved_search":
+        return (
+          (await store.getSettings()).savedSearches.find((search) => search.id === targetId)
+            ?.name ?? null
+        );
+    }
+  }
+
+  async function listOutputs(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+  ): Promise<FeedOutput[]> {
+    const { rows } = await client.query<FeedOutputRow>(
+      `SELECT id, kind, target_id, name, token_prefix, created_at, rotated_at, last_used_at
+       FROM feed_output
+       WHERE tenant_id = $1 AND user_id = $2
+       ORDER BY created_at DESC`,
+      [accountId, userId],
+    );
+    return rows.map(toFeedOutput);
+  }
+
+  async function createOutput(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+    payload: { kind: FeedOutputKind; targetId: string | null; name?: string },
+  ): Promise<{ token: string; output: FeedOutput } | "not_found"> {
+    const store = new PostgresStore(client, accountId, userId);
+    const defaultName = await targetName(store, payload.kind, payload.targetId);
+    if (!defaultName) return "not_found";
+
+    const token = newOutputToken();
+    const { rows } = await client.query<FeedOutputRow>(
+      `INSERT INTO feed_output (tenant_id, user_id, kind, target_id, name, token_hash, token_prefix)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id, kind, target_id, name, token_prefix, created_at, rotated_at, last_used_at`,
+      [
+        accountId,
+        userId,
+        payload.kind,
+        payload.targetId,
+        payload.name ?? defaultName,
+        hashOutputToken(token),
+        token.slice(0, DISPLAY_PREFIX_LENGTH),
+      ],
+    );
+    const row = rows[0];
+    if (!row) {
+      throw new Error("failed to create feed output");
+    }
+    return { token, output: toFeedOutput(row) };
+  }
+
+  /** Issues a new token; the old URL stops working immediately. */
+  async function rotateOutput(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+    outputId: string,
+  ): Promise<{ token: string; output: FeedOutput } | "not_found"> {
+    const token = newOutputToken();
+    const { rows } = await client.query<FeedOutputRow>(
+      `UPDATE feed_output
+       SET token_hash = $4, token_prefix = $5, rotated_at = NOW(), last_used_at = NULL
+       WHERE id = $1 AND tenant_id = $2 AND user_id = $3
+       RETURNING id, kind, target_id, name, token_prefix, created_at, rotated_at, last_used_at`,
+      [outputId, accountId, userId, hashOutputToken(token), token.slice(0, DISPLAY_PREFIX_LENGTH)],
+    );
+    const row = rows[0];
+    if (!row) return "not_found";
+    return { token, output: toFeedOutput(row) };
+  }
+
+  async function deleteOutput(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+    outputId: string,
+  ): Promise<"ok" | "not_found"> {
+    const result = await client.query(
+      "DELETE FROM feed_output WHERE id = $1 AND tenant_id = $2 AND user_id = $3",
+      [outputId, accountId, userId],
+    );
+    return (result.rowCount ?? 0) > 0 ? "ok" : "not_found";
+  }
+
+  /**
+   * Builds the output's current feed as seen by its owner: their digests, or
+   * the newest clusters in the folder, topic or saved search, read or not.
+   */
+  async function buildFeed(
+    identity: FeedOutputIdentity,
+    urls: { appBaseUrl: string; feedUrl: string },
+  ): Promise<OutputFeed | "not_found"> {
+    return withAccountClient(identity.accountId, async (client) => {
+      const store = new PostgresStore(client, identity.accountId, identity.userId);
+      let items: OutputFeedItem[];
+      let homePageUrl = urls.appBaseUrl;
+
+      switch (identity.kind) {
+        case "digest": {
+          const digests = await store.listDigests();
+          items = digestFeedItems(digests.slice(0, MAX_DIGESTS), urls.appBaseUrl);
+          homePageUrl = `${urls.appBaseUrl}/digest`;
+          break;
+        }
+        case "folder":
+        case "topic": {
+          const targetId = identity.targetId ?? "";
+          if (!(await targetName(store, identity.kind, targetId))) return "not_found";
+          const { data } = await store.listClusters({
+            ...(identity.kind === "folder" ? { folder_id: targetId } : { topic_id: targetId }),
+            limit: MAX_CLUSTERS,
+            state: "all",
+            sort: "latest",
+          });
+          items = clusterFeedItems(data, urls.appBaseUrl);
+          break;
+        }
+        case "saved_search": {
+          const settings = await store.getSettings();
+          const search = settings.savedSearches.find((entry) => entry.id === identity.targetId);
+          if (!search) return "not_found";
+          const { data } = await store.searchClusters({
+            q: search.query,
+            limit: MAX_CLUSTERS,
+            folderId: search.folderId ?? undefined,
+            feedId: search.feedId ?? undefined,
+          });
+          items = clusterFeedItems(data, urls.appBaseUrl);
+          break;
+        }
+      }
+
+      const updatedAt = items.reduce(
+        (latest, item) => (item.publishedAt > latest ? item.publishedAt : latest),
+        new Date(0).toISOString(),
+      );
+      return {
+        id: `urn:rss-wrangler:output:${identity.outputId}`,
+        title: `${identity.name} · RSS Wrangler`,
+        description: `${identity.name}, filtered and deduplicated by RSS Wrangler`,
+        homePageUrl,
+        feedUrl: urls.feedUrl,
+        updatedAt,
+        items,
+      };
+    });
+  }
+
+  return { authenticate, listOutputs, createOutput, rotateOutput, deleteOutput, buildFeed };
+}
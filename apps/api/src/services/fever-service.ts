@@ -0,0 +1,330 @@
+import type { Pool, PoolClient } from "pg";
+import { PostgresStore } from "./postgres-store";
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+
+export const FEVER_API_VERSION = 3;
+const ITEMS_PER_PAGE = 50;
+
+// Fever expects base64 image data per favicon. We don't store site icons, so every
+// feed points at one transparent placeholder.
+const DEFAULT_FAVICON_ID = 1;
+const DEFAULT_FAVICON_DATA =
+  "image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+export interface FeverGroup {
+  id: number;
+  title: string;
+}
+
+export interface FeverFeedsGroup {
+  group_id: number;
+  feed_ids: string;
+}
+
+export interface FeverFeed {
+  id: number;
+  favicon_id: number;
+  title: string;
+  url: string;
+  site_url: string;
+  is_spark: 0;
+  last_updated_on_time: number;
+}
+
+export interface FeverItem {
+  id: number;
+  feed_id: number;
+  title: string;
+  author: string;
+  html: string;
+  url: string;
+  is_saved: 0 | 1;
+  is_read: 0 | 1;
+  created_on_time: number;
+}
+
+export interface FeverItemsQuery {
+  sinceId?: number;
+  maxId?: number;
+  withIds?: number[];
+}
+
+export interface FeverMark {
+  mark: "item" | "feed" | "group";
+  as: "read" | "unread" | "saved" | "unsaved";
+  id: number;
+  before?: number;
+}
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) => Promise<{ rows: T[] }>;
+};
+
+function toUnixSeconds(value: Date | null | undefined): number {
+  return value ? Math.floor(value.getTime() / 1000) : 0;
+}
+
+export function parseFeverIdList(raw: string | undefined): number[] {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((part) => Number.parseInt(part.trim(), 10))
+    .filter((value) => Number.isSafeInteger(value) && value > 0)
+    .slice(0, ITEMS_PER_PAGE);
+}
+
+export function createFeverService(pool: Pool) {
+  async function withAccountClient<T>(
+    accountId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  async function lastRefreshedOnTime(client: Queryable, accountId: string): Promise<number> {
+    const { rows } = await client.query<{ last: Date | null }>(
+      "SELECT MAX(last_polled_at) AS last FROM feed WHERE tenant_id = $1",
+      [accountId],
+    );
+    return toUnixSeconds(rows[0]?.last);
+  }
+
+  async function listGroups(client: Queryable, accountId: string): Promise<FeverGroup[]> {
+    const { rows } = await client.query<{ seq_id: string; name: string }>(
+      `SELECT DISTINCT fo.seq_id, fo.name
+       FROM folder fo
+       JOIN feed f ON f.folder_id = fo.id AND f.tenant_id = $1
+       ORDER BY fo.name`,
+      [accountId],
+    );
+    return rows.map((r) => ({ id: Number(r.seq_id), title: r.name }));
+  }
+
+  async function listFeedsGroups(client: Queryable, accountId: string): Promise<FeverFeedsGroup[]> {
+    const { rows } = await client.query<{ group_id: string; feed_ids: string }>(
+      `SELECT fo.seq_id AS group_id, string_agg(f.seq_id::text, ',' ORDER BY f.seq_id) AS feed_ids
+       FROM feed f
+       JOIN folder fo ON fo.id = f.folder_id
+       WHERE f.tenant_id = $1
+       GROUP BY fo.seq_id`,
+      [accountId],
+    );
+    return rows.map((r) => ({ group_id: Number(r.group_id), feed_ids: r.feed_ids }));
+  }
+
+  async function listFeeds(client: Queryable, accountId: string): Promise<FeverFeed[]> {
+    const { rows } = await client.query<{
+      seq_id: string;
+      title: string;
+      url: string;
+      site_url: string | null;
+      last_polled_at: Date | null;
+    }>(
+      `SELECT seq_id, title, url, site_url, last_polled_at
+       FROM feed
+       WHERE tenant_id = $1
+       ORDER BY title`,
+      [accountId],
+    );
+    return rows.map((r) => ({
+      id: Number(r.seq_id),
+      favicon_id: DEFAULT_FAVICON_ID,
+      title: r.title,
+      url: r.url,
+      site_url: r.site_url ?? "",
+      is_spark: 0,
+      last_updated_on_time: toUnixSeconds(r.last_polled_at),
+    }));
+  }
+
+  function listFavicons() {
+    return [{ id: DEFAULT_FAVICON_ID, data: DEFAULT_FAVICON_DATA }];
+  }
+
+  async function listItems(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    query: FeverItemsQuery,
+  ): Promise<{ items: FeverItem[]; totalItems: number }> {
+    const params: unknown[] = [accountId, userId];
+    let where = "i.tenant_id = $1";
+    let order = "i.seq_id DESC";
+
+    if (query.withIds && query.withIds.length > 0) {
+      params.push(query.withIds);
+      where += ` AND i.seq_id = ANY($${params.length}::bigint[])`;
+      order = "i.seq_id ASC";
+    } else if (query.sinceId !== undefined) {
+      params.push(query.sinceId);
+      where += ` AND i.seq_id > $${params.length}`;
+      order = "i.seq_id ASC";
+    } else if (query.maxId !== undefined) {
+      params.push(query.maxId);
+      where += ` AND i.seq_id < $${params.length}`;
+    }
+
+    const { rows } = await client.query<{
+      seq_id: string;
+      feed_seq_id: string;
+      title: string;
+      author: string | null;
+      summary: string | null;
+      url: string;
+      published_at: Date;
+      read_at: Date | null;
+      saved_at: Date | null;
+    }>(
+      `SELECT i.seq_id, f.seq_id AS feed_seq_id, i.title, i.author, i.summary, i.url,
+              i.published_at, rs.read_at, rs.saved_at
+       FROM item i
+       JOIN feed f ON f.id = i.feed_id AND f.tenant_id = i.tenant_id
+       LEFT JOIN cluster_member cm ON cm.item_id = i.id AND cm.tenant_id = i.tenant_id
+       LEFT JOIN read_state rs
+         ON rs.cluster_id = cm.cluster_id
+        AND rs.tenant_id = i.tenant_id
+        AND rs.user_id = $2
+       WHERE ${where}
+       ORDER BY ${order}
+       LIMIT ${ITEMS_PER_PAGE}`,
+      params,
+    );
+
+    const countResult = await client.query<{ total: string }>(
+      "SELECT COUNT(*) AS total FROM item WHERE tenant_id = $1",
+      [accountId],
+    );
+
+    return {
+      items: rows.map((r) => ({
+        id: Number(r.seq_id),
+        feed_id: Number(r.feed_seq_id),
+        title: r.title,
+        author: r.author ?? "",
+        html: r.summary ?? "",
+        url: r.url,
+        is_saved: r.saved_at ? 1 : 0,
+        is_read: r.read_at ? 1 : 0,
+        created_on_time: toUnixSeconds(r.published_at),
+      })),
+      totalItems: Number(countResult.rows[0]?.total ?? 0),
+    };
+  }
+
+  async function listItemIds(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    state: "unread" | "saved",
+  ): Promise<string> {
+    const condition = state === "unread" ? "rs.read_at IS NULL" : "rs.saved_at IS NOT NULL";
+    const { rows } = await client.query<{ seq_id: string }>(
+      `SELECT i.seq_id
+       FROM item i
+       JOIN cluster_member cm ON cm.item_id = i.id AND cm.tenant_id = i.tenant_id
+       LEFT JOIN read_state rs
+         ON rs.cluster_id = cm.cluster_id
+        AND rs.tenant_id = i.tenant_id
+        AND rs.user_id = $2
+       WHERE i.tenant_id = $1
+         AND ${condition}
+       ORDER BY i.seq_id`,
+      [accountId, userId],
+    );
+    return rows.map((r) => r.seq_id).join(",");
+  }
+
+  /**
+   * Applies a Fever `mark` request. Read/saved state lives on clusters, so
+   * marking one item updates every item in its story, same as the web app.
+   */
+  async function applyMark(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+    mark: FeverMark,
+  ): Promise<boolean> {
+    const store = new PostgresStore(client, accountId, userId);
+
+    if (mark.mark === "item") {
+      const { rows } = await client.query<{ cluster_id: string }>(
+        `SELECT cm.cluster_id
+         FROM item i
+         JOIN cluster_member cm ON cm.item_id = i.id AND cm.tenant_id = i.tenant_id
+         WHERE i.seq_id = $1 AND i.tenant_id = $2
+         LIMIT 1`,
+        [mark.id, accountId],
+      );
+      const clusterId = rows[0]?.cluster_id;
+      if (!clusterId) return false;
+
+      switch (mark.as) {
+        case "read":
+          return store.markRead(clusterId);
+        case "unread":
+          return store.markUnread(clusterId);
+        case "saved":
+          return store.saveCluster(clusterId);
+        case "unsaved":
+          return store.unsaveCluster(clusterId);
+      }
+    }
+
+    if (mark.as !== "read") return false;
+
+    // Group 0 is Fever's "Kindling" super-group (everything).
+    const before = mark.before ? new Date(mark.before * 1000) : new Date();
+    const scope =
+      mark.mark === "feed"
+        ? "f.seq_id = $3"
+        : mark.id === 0
+          ? "$3::bigint IS NOT NULL"
+          : "fo.seq_id = $3";
+
+    const { rows } = await client.query<{ cluster_id: string }>(
+      `SELECT DISTINCT cm.cluster_id
+       FROM item i
+       JOIN feed f ON f.id = i.feed_id AND f.tenant_id = i.tenant_id
+       JOIN folder fo ON fo.id = f.folder_id
+       JOIN cluster_member cm ON cm.item_id = i.id AND cm.tenant_id = i.tenant_id
+       LEFT JOIN read_state rs
+         ON rs.cluster_id = cm.cluster_id
+        AND rs.tenant_id = i.tenant_id
+        AND rs.user_id = $4
+       WHERE i.tenant_id = $1
+         AND i.created_at <= $2
+         AND rs.read_at IS NULL
+         AND ${scope}`,
+      [accountId, before.toISOString(), mark.id, userId],
+    );
+
+    for (const row of rows) {
+      await store.markRead(row.cluster_id);
+    }
+    return true;
+  }
+
+  return {
+    withAccountClient,
+    lastRefreshedOnTime,
+    listGroups,
+    listFeedsGroups,
+    listFeeds,
+    listFavicons,
+    listItems,
+    listItemIds,
+    applyMark,
+  };
+}
@@ -0,0 +1,520 @@
+import type { Pool, PoolClient } from "pg";
+import { PostgresStore } from "./postgres-store";
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+
+export const GREADER_STATE_PREFIX = "user/-/state/com.google/";
+export const GREADER_LABEL_PREFIX = "user/-/label/";
+const ITEM_ID_PREFIX = "tag:google.com,2005:reader/item/";
+
+export const READING_LIST_STREAM = `${GREADER_STATE_PREFIX}reading-list`;
+export const READ_TAG = `${GREADER_STATE_PREFIX}read`;
+export const STARRED_TAG = `${GREADER_STATE_PREFIX}starred`;
+export const KEPT_UNREAD_TAG = `${GREADER_STATE_PREFIX}kept-unread`;
+
+const MAX_CONTENTS_PAGE = 100;
+const MAX_IDS_PAGE = 10000;
+
+export type GReaderStream =
+  | { kind: "reading-list" }
+  | { kind: "starred" }
+  | { kind: "read" }
+  | { kind: "feed"; seqId: number }
+  | { kind: "label"; name: string };
+
+export interface GReaderStreamQuery {
+  limit?: number;
+  continuation?: string;
+  excludeRead?: boolean;
+  /** Unix seconds; only items published after this. */
+  newerThan?: number;
+  /** Unix seconds; only items published before this. */
+  olderThan?: number;
+}
+
+export interface GReaderItem {
+  id: string;
+  crawlTimeMsec: string;
+  timestampUsec: string;
+  published: number;
+  updated: number;
+  title: string;
+  canonical: Array<{ href: string }>;
+  alternate: Array<{ href: string; type: string }>;
+  summary: { direction: "ltr"; content: string };
+  author: string;
+  categories: string[];
+  origin: { streamId: string; title: string; htmlUrl: string };
+}
+
+export interface GReaderItemRef {
+  id: string;
+  directStreamIds: string[];
+  timestampUsec: string;
+}
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) => Promise<{ rows: T[] }>;
+};
+
+interface ItemRow {
+  cluster_id: string;
+  seq_id: string;
+  title: string;
+  author: string | null;
+  summary: string | null;
+  url: string;
+  published_at: Date | null;
+  created_at: Date;
+  feed_seq_id: string;
+  feed_title: string;
+  site_url: string | null;
+  folder_name: string | null;
+  topic_name: string | null;
+  read_at: Date | null;
+  saved_at: Date | null;
+}
+
+/** Accepts `user/<anything>/...` and normalizes it to the `user/-/` form. */
+export function parseStreamId(raw: string | undefined): GReaderStream | null {
+  if (!raw) return { kind: "reading-list" };
+  const streamId = raw.replace(/^user\/[^/]+\//, "user/-/");
+
+  if (streamId === READING_LIST_STREAM) return { kind: "reading-list" };
+  if (streamId === STARRED_TAG) return { kind: "starred" };
+  if (streamId === READ_TAG) return { kind: "read" };
+  if (streamId.startsWith(GREADER_LABEL_PREFIX)) {
+    const name = streamId.slice(GREADER_LABEL_PREFIX.length);
+    return name ? { kind: "label", name } : null;
+  }
+  if (streamId.startsWith("feed/")) {
+    const seqId = Number.parseInt(streamId.slice("feed/".length), 10);
+    return Number.isSafeInteger(seqId) && seqId > 0 ? { kind: "feed", seqId } : null;
+  }
+  return null;
+}
+
+/** Normalizes a state or label tag from edit-tag to the `user/-/` form. */
+export function normalizeTag(raw: string): string {
+  return raw.replace(/^user\/[^/]+\//, "user/-/");
+}
+
+export function formatLongItemId(seqId: number | string): string {
+  return `${ITEM_ID_PREFIX}${BigInt(seqId).toString(16).padStart(16, "0")}`;
+}
+
+/**
+ * Clients send item ids back in the long tag form, as bare 16-digit hex, or as
+ * the decimal ids returned by stream/items/ids.
+ */
+export function parseItemId(raw: string): number | null {
+  const value = raw.trim();
+  let parsed: bigint;
+  try {
+    if (value.startsWith(ITEM_ID_PREFIX)) {
+      parsed = BigInt(`0x${value.slice(ITEM_ID_PREFIX.length)}`);
+    } else if (/^[0-9a-f]{16}$/i.test(value)) {
+      parsed = BigInt(`0x${value}`);
+    } else if (/^-?\d+$/.test(value)) {
+      parsed = BigInt.asUintN(64, BigInt(value));
+    } else {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+  const seqId = Number(parsed);
+  return Number.isSafeInteger(seqId) && seqId > 0 ? seqId : null;
+}
+
+function toUnixSeconds(value: Date | null | undefined): number {
+  return value ? Math.floor(value.getTime() / 1000) : 0;
+}
+
+function toItem(row: ItemRow): GReaderItem {
+  const published = row.published_at ?? row.created_at;
+  const categories = [READING_LIST_STREAM];
+  if (row.folder_name) categories.push(`${GREADER_LABEL_PREFIX}${row.folder_name}`);
+  if (row.topic_name) categories.push(`${GREADER_LABEL_PREFIX}${row.topic_name}`);
+  if (row.read_at) categories.push(READ_TAG);
+  if (row.saved_at) categories.push(STARRED_TAG);
+
+  return {
+    id: formatLongItemId(row.seq_id),
+    crawlTimeMsec: String(row.created_at.getTime()),
+    timestampUsec: String(published.getTime() * 1000),
+    published: toUnixSeconds(published),
+    updated: toUnixSeconds(published),
+    title: row.title,
+    canonical: [{ href: row.url }],
+    alternate: [{ href: row.url, type: "text/html" }],
+    summary: { direction: "ltr", content: row.summary ?? "" },
+    author: row.author ?? "",
+    categories,
+    origin: {
+      streamId: `feed/${row.feed_seq_id}`,
+      title: row.feed_title,
+      htmlUrl: row.site_url ?? "",
+    },
+  };
+}
+
+const ITEM_SELECT = `
+  SELECT c.id AS cluster_id, i.seq_id, i.title, i.author, i.summary, i.url,
+         i.published_at, i.created_at, f.seq_id AS feed_seq_id, f.title AS feed_title,
+         f.site_url, fo.name AS folder_name, t.name AS topic_name, rs.read_at, rs.saved_at
+  FROM cluster c
+  JOIN cluster_member cm ON cm.cluster_id = c.id AND cm.tenant_id = c.tenant_id
+  JOIN item i ON i.id = cm.item_id AND i.tenant_id = c.tenant_id
+  JOIN feed f ON f.id = i.feed_id AND f.tenant_id = c.tenant_id
+  LEFT JOIN folder fo ON fo.id = c.folder_id
+  LEFT JOIN topic t ON t.id = c.topic_id AND t.tenant_id = c.tenant_id
+  LEFT JOIN read_state rs ON rs.cluster_id = c.id AND rs.tenant_id = c.tenant_id AND rs.user_id = $2`;
+
+/**
+ * Google Reader API compatibility (Reeder, NetNewsWire, FeedMe, ...). Each
+ * story cluster is exposed as one item identified by its representative
+ * article, and read/starred state goes through PostgresStore so it stays in
+ * sync with the web app.
+ */
+export function createGReaderService(pool: Pool) {
+  async function withAccountClient<T>(
+    accountId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  async function resolveScope(
+    client: Queryable,
+    accountId: string,
+    stream: GReaderStream,
+  ): Promise<{ feedId?: string; folderId?: string; topicId?: string } | null> {
+    if (stream.kind === "feed") {
+      const { rows } = await client.query<{ id: string }>(
+        "SELECT id FROM feed WHERE seq_id = $1 AND tenant_id = $2",
+        [stream.seqId, accountId],
+      );
+      return rows[0] ? { feedId: rows[0].id } : null;
+    }
+    if (stream.kind === "label") {
+      // Folders win over topics when both share a name.
+      const folder = await client.query<{ id: string }>(
+        "SELECT id FROM folder WHERE name = $1 LIMIT 1",
+        [stream.name],
+      );
+      if (folder.rows[0]) return { folderId: folder.rows[0].id };
+      const topic = await client.query<{ id: string }>(
+        "SELECT id FROM topic WHERE name = $1 AND tenant_id = $2 LIMIT 1",
+        [stream.name, accountId],
+      );
+      return topic.rows[0] ? { topicId: topic.rows[0].id } : null;
+    }
+    return {};
+  }
+
+  async function listSubscriptions(client: Queryable, accountId: string) {
+    const { rows } = await client.query<{
+      seq_id: string;
+      title: string;
+      url: string;
+      site_url: string | null;
+      folder_name: string | null;
+    }>(
+      `SELECT f.seq_id, f.title, f.url, f.site_url, fo.name AS folder_name
+       FROM feed f
+       LEFT JOIN folder fo ON fo.id = f.folder_id
+       WHERE f.tenant_id = $1
+       ORDER BY f.title`,
+      [accountId],
+    );
+    return rows.map((r) => ({
+      id: `feed/${r.seq_id}`,
+      title: r.title,
+      categories: r.folder_name
+        ? [{ id: `${GREADER_LABEL_PREFIX}${r.folder_name}`, label: r.folder_name }]
+        : [],
+      url: r.url,
+      htmlUrl: r.site_url ?? "",
+      iconUrl: "",
+    }));
+  }
+
+  async function listTags(client: PoolClient, accountId: string, userId: string) {
+    const store = new PostgresStore(client, accountId, userId);
+    const [folders, topics] = await Promise.all([store.listFolders(), store.listTopics()]);
+    const folderNames = new Set(folders.map((f) => f.name));
+    return [
+      { id: STARRED_TAG },
+      ...folders.map((f) => ({ id: `${GREADER_LABEL_PREFIX}${f.name}`, type: "folder" })),
+      ...topics
+        .filter((t) => !folderNames.has(t.name))
+        .map((t) => ({ id: `${GREADER_LABEL_PREFIX}${t.name}`, type: "tag" })),
+    ];
+  }
+
+  async function loadItems(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    filter: { clusterIds: string[] } | { seqIds: number[] },
+  ): Promise<ItemRow[]> {
+    if ("clusterIds" in filter) {
+      const { rows } = await client.query<ItemRow>(
+        `${ITEM_SELECT}
+         WHERE c.tenant_id = $1 AND c.id = ANY($3::uuid[]) AND i.id = c.rep_item_id`,
+        [accountId, userId, filter.clusterIds],
+      );
+      const byCluster = new Map(rows.map((r) => [r.cluster_id, r]));
+      return filter.clusterIds.flatMap((id) => byCluster.get(id) ?? []);
+    }
+    const { rows } = await client.query<ItemRow>(
+      `${ITEM_SELECT}
+       WHERE c.tenant_id = $1 AND i.seq_id = ANY($3::bigint[])
+       ORDER BY i.seq_id DESC`,
+      [accountId, userId, filter.seqIds],
+    );
+    return rows;
+  }
+
+  /**
+   * Serves stream/contents from the same listing the web app uses (latest
+   * sort), so a phone and the browser page through identical stories.
+   */
+  async function streamContents(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+    stream: GReaderStream,
+    query: GReaderStreamQuery,
+  ): Promise<{ items: GReaderItem[]; continuation: string | null }> {
+    const scope = await resolveScope(client, accountId, stream);
+    if (!scope) return { items: [], continuation: null };
+
+    const state =
+      stream.kind === "starred"
+        ? "saved"
+        : query.excludeRead && stream.kind !== "read"
+          ? "unread"
+          : "all";
+    const store = new PostgresStore(client, accountId, userId);
+    const page = await store.listClusters({
+      feed_id: scope.feedId,
+      folder_id: scope.folderId,
+      topic_id: scope.topicId,
+      cursor: query.continuation,
+      limit: Math.min(Math.max(query.limit ?? 20, 1), MAX_CONTENTS_PAGE),
+      state,
+      sort: "latest",
+    });
+
+    const rows = await loadItems(client, accountId, userId, {
+      clusterIds: page.data.map((c) => c.id),
+    });
+    let reachedOlderThan = false;
+    const items = rows
+      .filter((row) => {
+        const published = toUnixSeconds(row.published_at ?? row.created_at);
+        if (query.newerThan !== undefined && published <= query.newerThan) {
+          // Latest sort is newest first, so nothing further down can match.
+          reachedOlderThan = true;
+          return false;
+        }
+        if (query.olderThan !== undefined && published >= query.olderThan) return false;
+        if (stream.kind === "read" && !row.read_at) return false;
+        return true;
+      })
+      .map(toItem);
+
+    return { items, continuation: reachedOlderThan ? null : page.nextCursor };
+  }
+
+  async function streamItemIds(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    stream: GReaderStream,
+    query: GReaderStreamQuery,
+  ): Promise<{ itemRefs: GReaderItemRef[]; continuation: string | null }> {
+    const scope = await resolveScope(client, accountId, stream);
+    if (!scope) return { itemRefs: [], continuation: null };
+
+    const limit = Math.min(Math.max(query.limit ?? 20, 1), MAX_IDS_PAGE);
+    const offset = query.continuation ? Number.parseInt(query.continuation, 10) || 0 : 0;
+    const conditions = ["c.tenant_id = $1"];
+    const params: unknown[] = [accountId, userId];
+
+    if (scope.feedId) {
+      params.push(scope.feedId);
+      conditions.push(`i.feed_id = $${params.length}`);
+    }
+    if (scope.folderId) {
+      params.push(scope.folderId);
+      conditions.push(`c.folder_id = $${params.length}`);
+    }
+    if (scope.topicId) {
+      params.push(scope.topicId);
+      conditions.push(`c.topic_id = $${params.length}`);
+    }
+    if (stream.kind === "starred") conditions.push("rs.saved_at IS NOT NULL");
+    if (stream.kind === "read") conditions.push("rs.read_at IS NOT NULL");
+    if (query.excludeRead && stream.kind !== "read") conditions.push("rs.read_at IS NULL");
+    if (query.newerThan !== undefined) {
+      params.push(query.newerThan);
+      conditions.push(`COALESCE(i.published_at, i.created_at) > to_timestamp($${params.length})`);
+    }
+    if (query.olderThan !== undefined) {
+      params.push(query.olderThan);
+      conditions.push(`COALESCE(i.published_at, i.created_at) < to_timestamp($${params.length})`);
+    }
+    params.push(offset, limit + 1);
+
+    const { rows } = await client.query<{ seq_id: string; published_at: Date }>(
+      `SELECT i.seq_id, COALESCE(i.published_at, i.created_at) AS published_at
+       FROM cluster c
+       JOIN item i ON i.id = c.rep_item_id AND i.tenant_id = c.tenant_id
+       LEFT JOIN read_state rs
+         ON rs.cluster_id = c.id
+        AND rs.tenant_id = c.tenant_id
+        AND rs.user_id = $2
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY COALESCE(i.published_at, i.created_at) DESC, i.seq_id DESC
+       OFFSET $${params.length - 1} LIMIT $${params.length}`,
+      params,
+    );
+
+    const hasMore = rows.length > limit;
+    return {
+      itemRefs: rows.slice(0, limit).map((r) => ({
+        id: String(r.seq_id),
+        directStreamIds: [],
+        timestampUsec: String(r.published_at.getTime() * 1000),
+      })),
+      continuation: hasMore ? String(offset + limit) : null,
+    };
+  }
+
+  async function itemContents(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    seqIds: number[],
+  ): Promise<GReaderItem[]> {
+    if (seqIds.length === 0) return [];
+    const rows = await loadItems(client, accountId, userId, { seqIds });
+    return rows.map(toItem);
+  }
+
+  /**
+   * Applies edit-tag. State lives on clusters, so tagging one article marks
+   * its whole story, matching the web app and the Fever endpoint.
+   */
+  async function editTag(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+    seqIds: number[],
+    add: string[],
+    remove: string[],
+  ): Promise<number> {
+    if (seqIds.length === 0) return 0;
+    const { rows } = await client.query<{ cluster_id: string }>(
+      `SELECT DISTINCT cm.cluster_id
+       FROM item i
+       JOIN cluster_member cm ON cm.item_id = i.id AND cm.tenant_id = i.tenant_id
+       WHERE i.tenant_id = $1 AND i.seq_id = ANY($2::bigint[])`,
+      [accountId, seqIds],
+    );
+
+    const adding = new Set(add.map(normalizeTag));
+    const removing = new Set(remove.map(normalizeTag));
+    const store = new PostgresStore(client, accountId, userId);
+
+    for (const { cluster_id: clusterId } of rows) {
+      if (adding.has(READ_TAG)) await store.markRead(clusterId);
+      if (removing.has(READ_TAG) || adding.has(KEPT_UNREAD_TAG)) await store.markUnread(clusterId);
+      if (adding.has(STARRED_TAG)) await store.saveCluster(clusterId);
+      if (removing.has(STARRED_TAG)) await store.unsaveCluster(clusterId);
+    }
+    return rows.length;
+  }
+
+  async function markAllAsRead(
+    client: PoolClient,
+    accountId: string,
+    userId: string,
+    stream: GReaderStream,
+    before: Date,
+  ): Promise<boolean> {
+    if (stream.kind === "starred" || stream.kind === "read") return false;
+    const scope = await resolveScope(client, accountId, stream);
+    if (!scope) return false;
+    await new PostgresStore(client, accountId, userId).markReadBefore(scope, before);
+    return true;
+  }
+
+  async function unreadCounts(client: Queryable, accountId: string, userId: string) {
+    const { rows } = await client.query<{
+      feed_seq_id: string;
+      folder_name: string | null;
+      count: string;
+      newest: Date;
+    }>(
+      `SELECT f.seq_id AS feed_seq_id, fo.name AS folder_name, COUNT(*) AS count,
+              MAX(COALESCE(i.published_at, i.created_at)) AS newest
+       FROM cluster c
+       JOIN item i ON i.id = c.rep_item_id AND i.tenant_id = c.tenant_id
+       JOIN feed f ON f.id = i.feed_id AND f.tenant_id = c.tenant_id
+       LEFT JOIN folder fo ON fo.id = c.folder_id
+       LEFT JOIN read_state rs
+         ON rs.cluster_id = c.id
+        AND rs.tenant_id = c.tenant_id
+        AND rs.user_id = $2
+       WHERE c.tenant_id = $1 AND rs.read_at IS NULL
+       GROUP BY f.seq_id, fo.name`,
+      [accountId, userId],
+    );
+
+    const totals = new Map<string, { count: number; newest: number }>();
+    const bump = (id: string, count: number, newest: number) => {
+      const current = totals.get(id) ?? { count: 0, newest: 0 };
+      totals.set(id, { count: current.count + count, newest: Math.max(current.newest, newest) });
+    };
+    for (const row of rows) {
+      const count = Number(row.count);
+      const newest = row.newest.getTime() * 1000;
+      bump(`feed/${row.feed_seq_id}`, count, newest);
+      if (row.folder_name) bump(`${GREADER_LABEL_PREFIX}${row.folder_name}`, count, newest);
+      bump(READING_LIST_STREAM, count, newest);
+    }
+
+    return [...totals.entries()].map(([id, value]) => ({
+      id,
+      count: value.count,
+      newestItemTimestampUsec: String(value.newest),
+    }));
+  }
+
+  return {
+    withAccountClient,
+    listSubscriptions,
+    listTags,
+    streamContents,
+    streamItemIds,
+    itemContents,
+    editTag,
+    markAllAsRead,
+    unreadCounts,
+  };
+}
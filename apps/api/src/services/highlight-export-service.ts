@@ -0,0 +1,491 @@
+import {
+  type Highlight,
+  type HighlightExportFormat,
+  type HighlightExportStatus,
+  type HighlightExportTarget,
+  type HighlightListQuery,
+  type HighlightListResponse,
+  highlightExportTargetSchema,
+  type PushHighlightsToReadwiseRequest,
+} from "@rss-wrangler/contracts";
+import { decryptCredentials } from "./credential-cipher";
+import { createZip } from "./zip-archive";
+
+const READWISE_HIGHLIGHTS_URL = "https://readwise.io/api/v2/highlights/";
+const READWISE_BATCH_SIZE = 100;
+const READWISE_TIMEOUT_MS = 20_000;
+// Readwise rejects longer values rather than truncating them.
+const READWISE_TEXT_LIMIT = 8191;
+const READWISE_TITLE_LIMIT = 511;
+const READWISE_AUTHOR_LIMIT = 1024;
+const FILENAME_LIMIT = 100;
+const OBSIDIAN_FOLDER = "RSS Wrangler/Highlights";
+const MARKDOWN_FOLDER = "highlights";
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[],
+  ) => Promise<{ rows: T[]; rowCount?: number | null }>;
+};
+
+type FetchFn = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+interface HighlightRow {
+  id: string;
+  cluster_id: string;
+  highlighted_text: string;
+  note: string | null;
+  color: Highlight["color"];
+  anchor: Highlight["anchor"];
+  created_at: Date;
+  story_title: string;
+  story_url: string | null;
+  feed_title: string | null;
+  author: string | null;
+  published_at: Date | null;
+}
+
+interface StatusRow {
+  target: HighlightExportTarget;
+  last_highlight_at: Date | null;
+  exported_at: Date | null;
+  pending_count: number;
+}
+
+export interface HighlightExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export type ReadwisePushResult =
+  | { exported: number; status: HighlightExportStatus }
+  | "not_configured"
+  | "no_connection"
+  | { failed: string };
+
+const HIGHLIGHT_SELECT = `SELECT a.id, a.cluster_id, a.highlighted_text, a.note, a.color, a.anchor,
+         a.created_at,
+         COALESCE(i.title, 'Untitled') AS story_title, i.url AS story_url,
+         f.title AS feed_title, i.author, i.published_at
+  FROM annotation a
+  JOIN cluster c ON c.id = a.cluster_id AND c.tenant_id = a.tenant_id
+  LEFT JOIN item i ON i.id = c.rep_item_id AND i.tenant_id = c.tenant_id
+  LEFT JOIN feed f ON f.id = i.feed_id AND f.tenant_id = i.tenant_id`;
+
+function toHighlight(row: HighlightRow): Highlight {
+  return {
+    id: row.id,
+    clusterId: row.cluster_id,
+    highlightedText: row.highlighted_text,
+    note: row.note,
+    color: row.color ?? "yellow",
+    anchor: row.anchor ?? null,
+    createdAt: row.created_at.toISOString(),
+    storyTitle: row.story_title,
+    storyUrl: row.story_url,
+    feedTitle: row.feed_title,
+    author: row.author,
+    publishedAt: row.published_at?.toISOString() ?? null,
+  };
+}
+
+function toStatus(row: StatusRow): HighlightExportStatus {
+  return {
+    target: row.target,
+    lastHighlightAt: row.last_highlight_at?.toISOString() ?? null,
+    lastExportedAt: row.exported_at?.toISOString() ?? null,
+    pendingCount: row.pending_count,
+  };
+}
+
+// ---------- Rendering ----------
+
+interface StoryHighlights {
+  clusterId: string;
+  title: string;
+  url: string | null;
+  feedTitle: string | null;
+  author: string | null;
+  publishedAt: string | null;
+  highlights: Highlight[];
+}
+
+/** Groups highlights by story, keeping the order stories first appear in. */
+function groupByStory(highlights: Highlight[]): StoryHighlights[] {
+  const stories = new Map<string, StoryHighlights>();
+  for (const highlight of highlights) {
+    let story = stories.get(highlight.clusterId);
+    if (!story) {
+      story = {
+        clusterId: highlight.clusterId,
+        title: highlight.storyTitle,
+        url: highlight.storyUrl,
+        feedTitle: highlight.feedTitle,
+        author: highlight.author,
+        publishedAt: highlight.publishedAt,
+        highlights: [],
+      };
+      stories.set(highlight.clusterId, story);
+    }
+    story.highlights.push(highlight);
+  }
+  return [...stories.values()];
+}
+
+/** A file name that is valid on common filesystems and as an Obsidian note title. */
+export function highlightFilename(title: string): string {
+  const cleaned = Array.from(title, (char) => (char.charCodeAt(0) < 32 ? " " : char))
+    .join("")
+    .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "")
+    .slice(0, FILENAME_LIMIT)
+    .trim();
+  return cleaned || "Untitled";
+}
+
+function quoteLines(text: string): string {
+  return text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+/**
+ * One Markdown note per story with YAML front-matter (title, source, URL,
+ * author, date). The Obsidian flavor adds tags, renders highlights as quote
+ * callouts and gives each a block id so notes can link to single highlights.
+ */
+function renderStoryMarkdown(story: StoryHighlights, flavor: "markdown" | "obsidian"): string {
+  const date = (story.publishedAt ?? story.highlights[0]?.createdAt ?? "").slice(0, 10);
+  const frontMatter = [
+    "---",
+    `title: ${JSON.stringify(story.title)}`,
+    story.feedTitle ? `source: ${JSON.stringify(story.feedTitle)}` : null,
+    story.url ? `url: ${JSON.stringify(story.url)}` : null,
+    story.author ? `author: ${JSON.stringify(story.author)}` : null,
+    date ? `date: ${date}` : null,
+    flavor === "obsidian" ? "tags: [highlights, rss-wrangler]" : null,
+    "---",
+  ].filter((line): line is string => line !== null);
+
+  const lines = [...frontMatter, "", `# ${story.title}`, ""];
+  if (story.url) {
+    lines.push(`[Read the original](${story.url})`, "");
+  }
+  for (const highlight of story.highlights) {
+    if (flavor === "obsidian") {
+      lines.push(`> [!quote] ${highlight.createdAt.slice(0, 10)}`);
+      lines.push(quoteLines(highlight.highlightedText));
+      if (highlight.note) {
+        lines.push(">", quoteLines(`**Note:** ${highlight.note}`));
+      }
+      // Obsidian needs a blank line between a callout and its block id.
+      lines.push("", `^${highlight.id}`, "");
+    } else {
+      lines.push(quoteLines(highlight.highlightedText), "");
+      if (highlight.note) {
+        lines.push(`**Note:** ${highlight.note.trim()}`, "");
+      }
+    }
+  }
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function buildMarkdownArchive(highlights: Highlight[], flavor: "markdown" | "obsidian"): Buffer {
+  const folder = flavor === "obsidian" ? OBSIDIAN_FOLDER : MARKDOWN_FOLDER;
+  const used = new Set<string>();
+  const entries = groupByStory(highlights).map((story) => {
+    let name = highlightFilename(story.title);
+    if (used.has(name.toLowerCase())) {
+      name = `${name} (${story.clusterId.slice(0, 8)})`;
+    }
+    used.add(name.toLowerCase());
+    return {
+      name: `${folder}/${name}.md`,
+      data: Buffer.from(renderStoryMarkdown(story, flavor), "utf8"),
+    };
+  });
+  return createZip(entries);
+}
+
+function csvField(value: string | null): string {
+  if (!value) return "";
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Readwise's CSV import columns: Highlight, Title, Author, URL, Note, Location, Date. */
+export function buildReadwiseCsv(highlights: Highlight[]): string {
+  const rows = [["Highlight", "Title", "Author", "URL", "Note", "Location", "Date"].join(",")];
+  for (const highlight of highlights) {
+    rows.push(
+      [
+        csvField(highlight.highlightedText),
+        csvField(highlight.storyTitle),
+        csvField(highlight.author ?? highlight.feedTitle),
+        csvField(highlight.storyUrl),
+        csvField(highlight.note),
+        "",
+        highlight.createdAt.slice(0, 19).replace("T", " "),
+      ].join(","),
+    );
+  }
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+function toReadwiseHighlight(highlight: Highlight) {
+  return {
+    text: highlight.highlightedText.slice(0, READWISE_TEXT_LIMIT),
+    title: highlight.storyTitle.slice(0, READWISE_TITLE_LIMIT),
+    author: (highlight.author ?? highlight.feedTitle)?.slice(0, READWISE_AUTHOR_LIMIT) ?? undefined,
+    source_url: highlight.storyUrl ?? undefined,
+    source_type: "rss_wrangler",
+    category: "articles",
+    note: highlight.note?.slice(0, READWISE_TEXT_LIMIT) ?? undefined,
+    highlighted_at: highlight.createdAt,
+  };
+}
+
+// ---------- Service ----------
+
+/**
+ * Highlights library plus Markdown, Obsidian, Readwise CSV and Readwise API
+ * exports. Annotations are shared by the workspace; "since last export"
+ * cursors are kept per member and target. `credentialsKey` is
+ * READ_LATER_CREDENTIALS_KEY, used to read a Readwise connection's token.
+ */
+export function createHighlightExportService(
+  credentialsKey: string | undefined,
+  fetchFn: FetchFn = fetch,
+) {
+  async function listHighlights(
+    client: Queryable,
+    accountId: string,
+    query: HighlightListQuery,
+  ): Promise<HighlightListResponse> {
+    const limit = query.limit;
+    const offset = Math.max(Number.parseInt(query.cursor ?? "0", 10) || 0, 0);
+    const { rows } = await client.query<HighlightRow>(
+      `${HIGHLIGHT_SELECT}
+       WHERE a.tenant_id = $1
+         AND ($2::text IS NULL OR a.color = $2)
+         AND (
+           $3::text IS NULL
+           OR strpos(lower(a.highlighted_text), lower($3)) > 0
+           OR strpos(lower(COALESCE(a.note, '')), lower($3)) > 0
+           OR strpos(lower(COALESCE(i.title, '')), lower($3)) > 0
+         )
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT $4 OFFSET $5`,
+      [accountId, query.color ?? null, query.q ?? null, limit + 1, offset],
+    );
+    const hasMore = rows.length > limit;
+    return {
+      data: rows.slice(0, limit).map(toHighlight),
+      nextCursor: hasMore ? String(offset + limit) : null,
+    };
+  }
+
+  async function listStatus(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+  ): Promise<HighlightExportStatus[]> {
+    const { rows } = await client.query<StatusRow>(
+      `SELECT t.target, cur.last_highlight_at, cur.exported_at,
+              (
+                SELECT COUNT(*)::int
+                FROM annotation a
+                WHERE a.tenant_id = $1
+                  AND (cur.last_highlight_at IS NULL OR a.created_at > cur.last_highlight_at)
+              ) AS pending_count
+       FROM unnest($3::text[]) WITH ORDINALITY AS t(target, position)
+       LEFT JOIN highlight_export_cursor cur
+         ON cur.tenant_id = $1 AND cur.user_id = $2 AND cur.target = t.target
+       ORDER BY t.position`,
+      [accountId, userId, highlightExportTargetSchema.options],
+    );
+    return rows.map(toStatus);
+  }
+
+  async function readCursor(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    target: HighlightExportTarget,
+  ): Promise<Date | null> {
+    const { rows } = await client.query<{ last_highlight_at: Date }>(
+      `SELECT last_highlight_at
+       FROM highlight_export_cursor
+       WHERE tenant_id = $1 AND user_id = $2 AND target = $3`,
+      [accountId, userId, target],
+    );
+    return rows[0]?.last_highlight_at ?? null;
+  }
+
+  async function advanceCursor(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    target: HighlightExportTarget,
+    lastHighlightAt: string,
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO highlight_export_cursor (tenant_id, user_id, target, last_highlight_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (tenant_id, user_id, target) DO UPDATE
+         SET last_highlight_at = GREATEST(
+               highlight_export_cursor.last_highlight_at,
+               EXCLUDED.last_highlight_at
+             ),
+             exported_at = NOW()`,
+      [accountId, userId, target, lastHighlightAt],
+    );
+  }
+
+  /**
+   * Highlights for an export, oldest first. With `wholeStories` an
+   * incremental export returns every highlight of each story that gained a
+   * new one, so re-exported notes replace the previous files completely.
+   */
+  async function loadForExport(
+    client: Queryable,
+    accountId: string,
+    since: Date | null,
+    wholeStories: boolean,
+  ): Promise<Highlight[]> {
+    const sinceFilter = wholeStories
+      ? `a.cluster_id IN (
+           SELECT cluster_id FROM annotation WHERE tenant_id = $1 AND created_at > $2
+         )`
+      : "a.created_at > $2";
+    const { rows } = await client.query<HighlightRow>(
+      `${HIGHLIGHT_SELECT}
+       WHERE a.tenant_id = $1
+         AND ($2::timestamptz IS NULL OR ${sinceFilter})
+       ORDER BY ${wholeStories ? "a.cluster_id, " : ""}a.created_at ASC, a.id ASC`,
+      [accountId, since],
+    );
+    return rows.map(toHighlight);
+  }
+
+  function newestCreatedAt(highlights: Highlight[]): string | null {
+    let newest: string | null = null;
+    for (const highlight of highlights) {
+      if (!newest || highlight.createdAt > newest) newest = highlight.createdAt;
+    }
+    return newest;
+  }
+
+  async function exportHighlights(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    format: HighlightExportFormat,
+    incremental: boolean,
+  ): Promise<HighlightExportFile | "empty"> {
+    const since = incremental ? await readCursor(client, accountId, userId, format) : null;
+    const highlights = await loadForExport(client, accountId, since, format !== "readwise_csv");
+    const newest = newestCreatedAt(highlights);
+    if (!newest) return "empty";
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    let file: HighlightExportFile;
+    if (format === "readwise_csv") {
+      file = {
+        filename: `rss-wrangler-highlights-${stamp}.csv`,
+        contentType: "text/csv; charset=utf-8",
+        body: Buffer.from(buildReadwiseCsv(highlights), "utf8"),
+      };
+    } else {
+      file = {
+        filename: `rss-wrangler-${format === "obsidian" ? "obsidian" : "highlights"}-${stamp}.zip`,
+        contentType: "application/zip",
+        body: buildMarkdownArchive(highlights, format),
+      };
+    }
+    await advanceCursor(client, accountId, userId, format, newest);
+    return file;
+  }
+
+  /**
+   * Pushes highlights through the Readwise highlights API using the token of
+   * one of the member's Readwise read-later connections. Batches are sent
+   * oldest first and the cursor advances after each accepted batch, so a
+   * failed push resumes where it stopped.
+   */
+  async function pushToReadwise(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    payload: PushHighlightsToReadwiseRequest,
+  ): Promise<ReadwisePushResult> {
+    if (!credentialsKey) return "not_configured";
+    const { rows: connections } = await client.query<{ credentials_encrypted: string }>(
+      `SELECT credentials_encrypted
+       FROM read_later_connection
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND provider = 'readwise'
+         AND enabled = TRUE
+         AND ($3::uuid IS NULL OR id = $3)
+       ORDER BY created_at ASC
+       LIMIT 1`,
+      [accountId, userId, payload.connectionId ?? null],
+    );
+    const connection = connections[0];
+    if (!connection) return "no_connection";
+    const token = decryptCredentials(credentialsKey, connection.credentials_encrypted)?.token;
+    if (!token) return { failed: "the stored Readwise token could not be read" };
+
+    const incremental = payload.incremental ?? true;
+    const since = incremental ? await readCursor(client, accountId, userId, "readwise_api") : null;
+    const highlights = await loadForExport(client, accountId, since, false);
+
+    let exported = 0;
+    for (let start = 0; start < highlights.length; start += READWISE_BATCH_SIZE) {
+      const batch = highlights.slice(start, start + READWISE_BATCH_SIZE);
+      let response: Response;
+      try {
+        response = await fetchFn(READWISE_HIGHLIGHTS_URL, {
+          method: "POST",
+          headers: { Authorization: `Token ${token}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ highlights: batch.map(toReadwiseHighlight) }),
+          signal: AbortSignal.timeout(READWISE_TIMEOUT_MS),
+        });
+      } catch (err) {
+        return { failed: `Readwise could not be reached: ${(err as Error).message}` };
+      }
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => "")).slice(0, 200);
+        return {
+          failed: `Readwise returned HTTP ${response.status}${detail ? `: ${detail}` : ""}`,
+        };
+      }
+      exported += batch.length;
+      const newest = newestCreatedAt(batch);
+      if (newest) {
+        await advanceCursor(client, accountId, userId, "readwise_api", newest);
+      }
+    }
+
+    const status = (await listStatus(client, accountId, userId)).find(
+      (entry) => entry.target === "readwise_api",
+    );
+    if (!status) {
+      throw new Error("missing readwise_api export status");
+    }
+    return { exported, status };
+  }
+
+  return {
+    listHighlights,
+    listStatus,
+    exportHighlights,
+    pushToReadwise,
+  };
+}
@@ -0,0 +1,115 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+const CACHE_FILE_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface ImageCache {
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, body: Buffer): Promise<void>;
+}
+
+/**
+ * Disk cache for resized images with least-recently-used eviction once the
+ * files add up to more than `maxBytes`. Keys are hex SHA-256 digests and name
+ * the files. Access times are written back as file mtimes, so the eviction
+ * order survives restarts; the index is rebuilt from the directory on first
+ * use.
+ */
+export function createImageCache(options: { directory: string; maxBytes: number }): ImageCache {
+  const { directory, maxBytes } = options;
+  // Map iteration order is the LRU order: oldest first.
+  const index = new Map<string, number>();
+  let totalBytes = 0;
+  let ready: Promise<void> | null = null;
+
+  function fileFor(key: string): string {
+    return path.join(directory, key);
+  }
+
+  async function load(): Promise<void> {
+    await mkdir(directory, { recursive: true });
+    const entries: Array<{ key: string; bytes: number; usedAt: number }> = [];
+    for (const name of await readdir(directory)) {
+      if (!CACHE_FILE_PATTERN.test(name)) continue;
+      try {
+        const info = await stat(fileFor(name));
+        entries.push({ key: name, bytes: info.size, usedAt: info.mtimeMs });
+      } catch {
+        // Removed while listing
+      }
+    }
+    entries.sort((a, b) => a.usedAt - b.usedAt);
+    for (const entry of entries) {
+      index.set(entry.key, entry.bytes);
+      totalBytes += entry.bytes;
+    }
+    await evict();
+  }
+
+  function ensureLoaded(): Promise<void> {
+    ready ??= load().catch((err) => {
+      ready = null;
+      throw err;
+    });
+    return ready;
+  }
+
+  function forget(key: string): void {
+    const bytes = index.get(key);
+    if (bytes === undefined) return;
+    index.delete(key);
+    totalBytes -= bytes;
+  }
+
+  async function evict(): Promise<void> {
+    for (const [key] of index) {
+      if (totalBytes <= maxBytes) return;
+      forget(key);
+      await unlink(fileFor(key)).catch(() => undefined);
+    }
+  }
+
+  return {
+    async get(key) {
+      if (!CACHE_FILE_PATTERN.test(key)) return null;
+      await ensureLoaded();
+      const bytes = index.get(key);
+      if (bytes === undefined) return null;
+
+      let body: Buffer;
+      try {
+        body = await readFile(fileFor(key));
+      } catch {
+        forget(key);
+        return null;
+      }
+      index.delete(key);
+      index.set(key, bytes);
+      const now = new Date();
+      void utimes(fileFor(key), now, now).catch(() => undefined);
+      return body;
+    },
+
+    async put(key, body) {
+      if (!CACHE_FILE_PATTERN.test(key) || body.byteLength > maxBytes) return;
+      await ensureLoaded();
+      // Write then rename, so readers never see a partial file.
+      const temporary = `${fileFor(key)}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temporary, body);
+      await rename(temporary, fileFor(key));
+      forget(key);
+      index.set(key, body.byteLength);
+      totalBytes += body.byteLength;
+      await evict();
+    },
+  };
+}
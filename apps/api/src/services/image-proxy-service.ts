@@ -0,0 +1,302 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import {
+  IMAGE_PROXY_PATH_PREFIX,
+  IMAGE_PROXY_WIDTHS,
+  type ImageProxySize,
+} from "@rss-wrangler/contracts";
+import type { FastifyBaseLogger } from "fastify";
+import sharp from "sharp";
+import { createImageCache, type ImageCache } from "./image-cache";
+import { validateFeedUrl } from "./url-validator";
+
+const IMAGE_FETCH_TIMEOUT_MS = 10_000;
+const IMAGE_MAX_REDIRECTS = 3;
+const IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+// Decompression-bomb guard: about 50 megapixels.
+const IMAGE_MAX_INPUT_PIXELS = 50_000_000;
+const IMAGE_WEBP_QUALITY = 80;
+const ORIGIN_FAILURE_COOLDOWN_MS = 10 * 60 * 1000;
+const FAILURE_COOLDOWN_PRUNE_THRESHOLD = 5_000;
+const SIGNATURE_LENGTH = 32;
+
+/** Raster formats the proxy resizes; SVG and anything else gets the placeholder. */
+const ACCEPTED_CONTENT_TYPES = new Set([
+  "image/avif",
+  "image/gif",
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/webp",
+]);
+
+const PLACEHOLDER_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="900" viewBox="0 0 16 9"><rect width="16" height="9" fill="#e4e4e7"/><path d="M5 6.5l2-2.5 1.5 1.75L10 4l2 2.5z" fill="#a1a1aa"/></svg>`;
+
+export interface ProxiedImage {
+  body: Buffer;
+  contentType: string;
+  cacheControl: string;
+  /** `placeholder` when the origin image could not be fetched or decoded. */
+  source: "cache" | "origin" | "placeholder";
+}
+
+/** Signature of an origin image URL; proxied URLs are only served when it matches. */
+export function signImageUrl(secret: string, url: string): string {
+  return createHmac("sha256", secret)
+    .update(url, "utf8")
+    .digest("base64url")
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+export function verifyImageSignature(secret: string, url: string, signature: string): boolean {
+  const expected = Buffer.from(signImageUrl(secret, url));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** The proxied URL for an http(s) image, or null for anything else. */
+export function proxiedImageUrl(
+  secret: string,
+  apiOrigin: string,
+  url: string,
+  size: ImageProxySize,
+): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+  if (parsed.pathname.startsWith(IMAGE_PROXY_PATH_PREFIX) && parsed.origin === apiOrigin) {
+    return url;
+  }
+
+  const query = new URLSearchParams({ url, size });
+  return `${apiOrigin}${IMAGE_PROXY_PATH_PREFIX}${signImageUrl(secret, url)}?${query}`;
+}
+
+/**
+ * Points the `src` of every image in sanitized article markup at the proxy and
+ * drops `srcset`, whose candidates would load from the origin. Relies on the
+ * serializer's double-quoted attributes, which is what the worker stores.
+ */
+export function rewriteArticleImages(html: string, secret: string, apiOrigin: string): string {
+  return html.replace(/<img\b[^>]*>/gi, (tag) => {
+    const withoutSrcset = tag.replace(/\s+srcset="[^"]*"/i, "");
+    return withoutSrcset.replace(/(\s+src=")([^"]*)(")/i, (match, before, value, after) => {
+      const proxied = proxiedImageUrl(secret, apiOrigin, decodeAttribute(value), "article");
+      return proxied ? `${before}${encodeAttribute(proxied)}${after}` : match;
+    });
+  });
+}
+
+/**
+ * Rewrites hero images (`heroImageUrl`) and article images (`storyHtml`)
+ * anywhere in a response payload to go through the proxy. Returns a copy;
+ * payloads without either field come back as they are.
+ */
+export function rewritePayloadImages(payload: unknown, secret: string, apiOrigin: string): unknown {
+  if (Array.isArray(payload)) {
+    return payload.map((entry) => rewritePayloadImages(entry, secret, apiOrigin));
+  }
+  if (
+    !payload ||
+    typeof payload !== "object" ||
+    Object.getPrototypeOf(payload) !== Object.prototype
+  ) {
+    return payload;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    if (key === "heroImageUrl" && typeof value === "string") {
+      copy[key] = proxiedImageUrl(secret, apiOrigin, value, "card") ?? value;
+    } else if (key === "storyHtml" && typeof value === "string") {
+      copy[key] = rewriteArticleImages(value, secret, apiOrigin);
+    } else {
+      copy[key] = rewritePayloadImages(value, secret, apiOrigin);
+    }
+  }
+  return copy;
+}
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function encodeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Fetches, resizes and caches images for the proxy route. Every redirect hop
+ * goes through the same SSRF checks as the original URL; origins that fail
+ * are served the placeholder for a while without being fetched again.
+ */
+export function createImageProxyService(options: {
+  cacheDirectory: string;
+  cacheMaxBytes: number;
+  log: FastifyBaseLogger;
+}) {
+  const cache: ImageCache = createImageCache({
+    directory: options.cacheDirectory,
+    maxBytes: options.cacheMaxBytes,
+  });
+  const inFlight = new Map<string, Promise<ProxiedImage>>();
+  const failureCooldownUntil = new Map<string, number>();
+
+  function placeholder(): ProxiedImage {
+    return {
+      body: Buffer.from(PLACEHOLDER_SVG),
+      contentType: "image/svg+xml",
+      // Short, so the real image shows up once the origin recovers.
+      cacheControl: "public, max-age=300",
+      source: "placeholder",
+    };
+  }
+
+  function resized(body: Buffer, source: ProxiedImage["source"]): ProxiedImage {
+    return {
+      body,
+      contentType: "image/webp",
+      cacheControl: "public, max-age=2592000, immutable",
+      source,
+    };
+  }
+
+  function inCooldown(url: string): boolean {
+    const until = failureCooldownUntil.get(url);
+    if (!until) return false;
+    if (until > Date.now()) return true;
+    failureCooldownUntil.delete(url);
+    return false;
+  }
+
+  function rememberFailure(url: string): void {
+    if (failureCooldownUntil.size > FAILURE_COOLDOWN_PRUNE_THRESHOLD) {
+      const now = Date.now();
+      for (const [key, until] of failureCooldownUntil) {
+        if (until <= now) failureCooldownUntil.delete(key);
+      }
+    }
+    failureCooldownUntil.set(url, Date.now() + ORIGIN_FAILURE_COOLDOWN_MS);
+  }
+
+  async function load(url: string, size: ImageProxySize, key: string): Promise<ProxiedImage> {
+    const cached = await cache.get(key).catch((err) => {
+      options.log.warn({ err }, "image cache read failed");
+      return null;
+    });
+    if (cached) return resized(cached, "cache");
+    if (inCooldown(url)) return placeholder();
+
+    try {
+      const original = await fetchOriginImage(url);
+      if (typeof original === "string") {
+        rememberFailure(url);
+        options.log.info({ url, reason: original }, "image proxy origin failed");
+        return placeholder();
+      }
+      const body = await resizeImage(original, IMAGE_PROXY_WIDTHS[size]);
+      await cache.put(key, body).catch((err) => {
+        options.log.warn({ err }, "image cache write failed");
+      });
+      return resized(body, "origin");
+    } catch (err) {
+      rememberFailure(url);
+      options.log.info({ url, err }, "image proxy fetch or resize failed");
+      return placeholder();
+    }
+  }
+
+  return {
+    /** The image at `url` resized to `size`, or the placeholder. Never throws. */
+    async getImage(url: string, size: ImageProxySize): Promise<ProxiedImage> {
+      const key = createHash("sha256").update(`${size}\n${url}`).digest("hex");
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      const request = load(url, size, key).finally(() => {
+        inFlight.delete(key);
+      });
+      inFlight.set(key, request);
+      return request;
+    },
+  };
+}
+
+export type ImageProxyService = ReturnType<typeof createImageProxyService>;
+
+/** The image bytes, or why the origin could not be used. */
+async function fetchOriginImage(url: string): Promise<Buffer | string> {
+  let current = url;
+  for (let hop = 0; hop <= IMAGE_MAX_REDIRECTS; hop++) {
+    const urlError = validateFeedUrl(current);
+    if (urlError) return urlError;
+
+    const response = await fetch(current, {
+      headers: {
+        "User-Agent": "RSSWrangler/1.0",
+        Accept: "image/avif,image/webp,image/png,image/jpeg,image/gif;q=0.9,*/*;q=0.5",
+      },
+      redirect: "manual",
+      signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS),
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get("location");
+      if (!location) return `redirect without a location (HTTP ${response.status})`;
+      current = new URL(location, current).toString();
+      continue;
+    }
+    if (!response.ok) return `HTTP ${response.status}`;
+
+    const contentType = (response.headers.get("content-type") ?? "").split(";")[0]?.trim();
+    if (!contentType || !ACCEPTED_CONTENT_TYPES.has(contentType.toLowerCase())) {
+      await response.body?.cancel();
+      return `unsupported content type ${contentType || "(none)"}`;
+    }
+    const declaredLength = Number(response.headers.get("content-length"));
+    if (declaredLength > IMAGE_MAX_BYTES) {
+      await response.body?.cancel();
+      return "image too large";
+    }
+
+    const body = await readBodyWithLimit(response, IMAGE_MAX_BYTES);
+    return body ?? "image too large";
+  }
+  return "too many redirects";
+}
+
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer | null> {
+  const reader = response.body?.getReader();
+  if (!reader) return null;
+
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.byteLength;
+    if (totalBytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Scales down to `width` (never up), applies EXIF orientation and encodes WebP. */
+export async function resizeImage(input: Buffer, width: number): Promise<Buffer> {
+  return sharp(input, { animated: true, limitInputPixels: IMAGE_MAX_INPUT_PIXELS })
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: IMAGE_WEBP_QUALITY })
+    .toBuffer();
+}
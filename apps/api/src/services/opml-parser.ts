@@ -75,7 +75,7 @@ export function parseOpml(xml: string): OpmlFeed[] {
   return feeds;
 }
 
-function extractAttr(attrs: string, name: string): string | undefined {
+export function extractAttr(attrs: string, name: string): string | undefined {
   // Match attribute like: xmlUrl="value" or xmlUrl='value'
   const regex = new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i");
   const m = regex.exec(attrs);
@@ -84,7 +84,7 @@ function extractAttr(attrs: string, name: string): string | undefined {
   return value ? decodeXmlEntities(value) : undefined;
 }
 
-function decodeXmlEntities(str: string): string {
+export function decodeXmlEntities(str: string): string {
   return str
     .replace(/&amp;/g, "&")
     .replace(/&lt;/g, "<")
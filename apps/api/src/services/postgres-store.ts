@@ -6,26 +6,71 @@ import type {
   ClusterDetailMember,
   ClusterFeedbackRequest,
   CreateAnnotationRequest,
+  CreateExtractionRuleRequest,
   CreateFilterRuleRequest,
+  CreateFolderRequest,
   Digest,
+  DigestCandidate,
+  DigestPreview,
+  DigestSectionRule,
   DisplayMode,
   Event,
+  ExtractionPreview,
+  ExtractionRule,
+  ExtractionRulesResponse,
   Feed,
   FeedTopic,
   FilterRule,
   Folder,
+  ItemEnclosure,
   ListClustersQuery,
   MarkAllReadRequest,
+  MediaProgress,
   ReadingStats,
+  RelatedCluster,
+  ReorderFoldersRequest,
   SearchQuery,
   Settings,
+  SettingsView,
   StatsPeriod,
+  UpdateExtractionRuleRequest,
   UpdateFeedRequest,
   UpdateFilterRuleRequest,
+  UpdateFolderRequest,
+  UpdateMediaProgressRequest,
   UpdateSettingsRequest,
+  UpdateWorkspaceSettingsRequest,
+  VideoEmbed,
+} from "@rss-wrangler/contracts";
+import {
+  assignDigestSections,
+  BUNDLED_EXTRACTION_RULES,
+  folderTree,
+  isFolderDescendant,
+  meanVector,
+  resolveTextAnchor,
+  settingsSchema,
+  YOUTUBE_VIDEO_MIME_TYPE,
+  youtubeVideoIdFromUrl,
 } from "@rss-wrangler/contracts";
-import { settingsSchema } from "@rss-wrangler/contracts";
 import type { Pool, PoolClient } from "pg";
+import { enqueueReadLaterAutoSend } from "./read-later-service";
+import {
+  type EmbeddedClusterRow,
+  RELATED_CLUSTER_MIN_SIMILARITY,
+  rankClustersBySimilarity,
+  SEMANTIC_CANDIDATE_LIMIT,
+  SEMANTIC_SEARCH_MIN_SIMILARITY,
+} from "./semantic-search-service";
+import {
+  layerSettings,
+  lockedKeysOf,
+  planSettingsUpdate,
+  providedSettings,
+  type SettingsLayers,
+  workspaceSettings,
+} from "./settings-service";
+import { enqueueWebhookEvent } from "./webhook-service";
 
 export function computeDisplayMode(
   publishedAt: string,
@@ -44,6 +89,139 @@ export function computeDisplayMode(
   return "headline";
 }
 
+/** A position this close to the end counts as a finished episode. */
+const MEDIA_COMPLETION_SLACK_SECONDS = 30;
+
+/** Ranked unread stories a digest preview picks sections from, as in the worker. */
+const DIGEST_CANDIDATE_LIMIT = 200;
+
+interface MediaProgressRow {
+  item_id: string;
+  position_seconds: number;
+  duration_seconds: number | null;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
+function toMediaProgress(row: MediaProgressRow): MediaProgress {
+  return {
+    itemId: row.item_id,
+    positionSeconds: row.position_seconds,
+    durationSeconds: row.duration_seconds,
+    completed: row.completed_at !== null,
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+function toFolder(r: Record<string, unknown>): Folder {
+  return {
+    id: r.id as string,
+    name: r.name as string,
+    parentId: (r.parent_id as string | null) ?? null,
+    position: Number(r.position ?? 0),
+    icon: (r.icon as string | null) ?? null,
+    color: (r.color as string | null) ?? null,
+    builtIn: Boolean(r.built_in),
+  };
+}
+
+const EXTRACTION_RULE_COLUMNS = `id, domain, body_selectors, strip_selectors, next_page_selector,
+  max_pages, headers, cookie, use_feed_content, enabled, updated_at`;
+
+function toExtractionRule(r: Record<string, unknown>): ExtractionRule {
+  return {
+    id: r.id as string,
+    domain: r.domain as string,
+    bodySelectors: (r.body_selectors as string[] | null) ?? [],
+    stripSelectors: (r.strip_selectors as string[] | null) ?? [],
+    nextPageSelector: (r.next_page_selector as string | null) ?? null,
+    maxPages: Number(r.max_pages),
+    headers: (r.headers as Record<string, string> | null) ?? {},
+    cookie: (r.cookie as string | null) ?? null,
+    useFeedContent: Boolean(r.use_feed_content),
+    enabled: Boolean(r.enabled),
+    source: "workspace",
+    updatedAt: (r.updated_at as Date).toISOString(),
+  };
+}
+
+const EXTRACTION_PREVIEW_COLUMNS = "id, url, status, result, error, created_at, completed_at";
+
+/** A preview row; `result` holds the worker's output once it has run. */
+function toExtractionPreview(r: Record<string, unknown>): ExtractionPreview {
+  const result = (r.result as Partial<ExtractionPreview> | null) ?? {};
+  return {
+    id: r.id as string,
+    url: r.url as string,
+    status: r.status as ExtractionPreview["status"],
+    ruleId: result.ruleId ?? null,
+    ruleDomain: result.ruleDomain ?? null,
+    ruleSource: result.ruleSource ?? null,
+    method: result.method ?? null,
+    pages: result.pages ?? 0,
+    title: result.title ?? null,
+    textLength: result.textLength ?? 0,
+    textSample: result.textSample ?? null,
+    html: result.html ?? null,
+    warnings: result.warnings ?? [],
+    error: (r.error as string | null) ?? null,
+    createdAt: (r.created_at as Date).toISOString(),
+    completedAt: r.completed_at ? (r.completed_at as Date).toISOString() : null,
+  };
+}
+
+function toAnnotation(r: Record<string, unknown>): Annotation {
+  return {
+    id: r.id as string,
+    clusterId: r.cluster_id as string,
+    highlightedText: r.highlighted_text as string,
+    note: (r.note as string) ?? null,
+    color: r.color as Annotation["color"],
+    anchor: (r.anchor as Annotation["anchor"]) ?? null,
+    createdAt: (r.created_at as Date).toISOString(),
+  };
+}
+
+/**
+ * Joins the representative item's first YouTube enclosure as `rep_video`;
+ * select `rep_video.url` and `rep_video.duration_seconds` for `toVideoEmbed`.
+ */
+export function repVideoJoinSql(itemAlias: string): string {
+  return `LEFT JOIN LATERAL (
+        SELECT ie.url, ie.duration_seconds
+        FROM item_enclosure ie
+        WHERE ie.item_id = ${itemAlias}.id
+          AND ie.tenant_id = ${itemAlias}.tenant_id
+          AND ie.mime_type = '${YOUTUBE_VIDEO_MIME_TYPE}'
+        ORDER BY ie.position
+        LIMIT 1
+      ) rep_video ON TRUE`;
+}
+
+/**
+ * Joins the calling member's read state as `rs` and the workspace's shared
+ * saved entry as `ss`. `userParam` is the placeholder bound to the member id.
+ */
+export function memberStateJoinSql(clusterAlias: string, userParam: string): string {
+  return `LEFT JOIN read_state rs
+        ON rs.cluster_id = ${clusterAlias}.id
+       AND rs.tenant_id = ${clusterAlias}.tenant_id
+       AND rs.user_id = ${userParam}
+      LEFT JOIN shared_saved ss
+        ON ss.cluster_id = ${clusterAlias}.id
+       AND ss.tenant_id = ${clusterAlias}.tenant_id`;
+}
+
+export function toVideoEmbed(r: Record<string, unknown>): VideoEmbed | null {
+  const videoId = typeof r.video_url === "string" ? youtubeVideoIdFromUrl(r.video_url) : null;
+  if (!videoId) return null;
+  return {
+    provider: "youtube",
+    videoId,
+    durationSeconds: r.video_duration_seconds == null ? null : Number(r.video_duration_seconds),
+  };
+}
+
 const DEFAULT_SETTINGS: Settings = settingsSchema.parse({
   aiMode: "summaries_digest",
   aiProvider: "openai",
@@ -66,12 +244,14 @@ const DEFAULT_SETTINGS: Settings = settingsSchema.parse({
   progressiveSummarizationEnabled: true,
   progressiveFreshHours: 6,
   progressiveAgingDays: 3,
+  semanticClusteringEnabled: false,
 });
 
 export class PostgresStore {
   constructor(
     private readonly pool: Pool | PoolClient,
     private readonly accountId: string,
+    private readonly userId: string,
   ) {}
 
   async listClusters(
@@ -85,6 +265,10 @@ export class PostgresStore {
     params.push(this.accountId);
     paramIndex++;
 
+    // $2 is the member whose read state and affinities shape the list.
+    params.push(this.userId);
+    paramIndex++;
+
     if (query.folder_id) {
       conditions.push(`c.folder_id = $${paramIndex}`);
       params.push(query.folder_id);
@@ -108,6 +292,8 @@ export class PostgresStore {
       conditions.push(`(rs.not_interested_at IS NULL)`);
     } else if (query.state === "saved") {
       conditions.push(`(rs.saved_at IS NOT NULL)`);
+    } else if (query.state === "shared") {
+      conditions.push(`(ss.saved_at IS NOT NULL)`);
     }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
@@ -122,7 +308,7 @@ export class PostgresStore {
             ELSE 0
           END`;
     const engagementFactorSql =
-      "LEAST(COALESCE(rs.dwell_seconds, 0) / 120.0, 0.25) + CASE WHEN rs.clicked_at IS NOT NULL THEN 0.15 ELSE 0 END - CASE WHEN rs.not_interested_at IS NOT NULL THEN 2.5 ELSE 0 END";
+      "LEAST(COALESCE(rs.dwell_seconds, 0) / 120.0, 0.25) + LEAST(COALESCE(rs.listen_seconds, 0) / 2400.0, 0.25) + CASE WHEN rs.clicked_at IS NOT NULL THEN 0.15 ELSE 0 END - CASE WHEN rs.not_interested_at IS NOT NULL THEN 2.5 ELSE 0 END";
     const topicAffinityFactorSql = "LEAST(GREATEST(COALESCE(ta.affinity_score, 0), -0.35), 0.35)";
     const folderAffinityFactorSql = "LEAST(GREATEST(COALESCE(fa.affinity_score, 0), -0.25), 0.25)";
     const diversityPenaltyFactorSql =
@@ -132,6 +318,7 @@ export class PostgresStore {
               AND rs.not_interested_at IS NULL
               AND rs.clicked_at IS NULL
               AND COALESCE(rs.dwell_seconds, 0) < 20
+              AND COALESCE(rs.listen_seconds, 0) < 20
               AND COALESCE(f.weight, 'neutral') = 'neutral'
               AND MOD(ABS(hashtext(c.id::text)::bigint), 100) < 8
             THEN 0.22
@@ -174,6 +361,7 @@ export class PostgresStore {
           ON c2.id = rs2.cluster_id
          AND c2.tenant_id = rs2.tenant_id
         WHERE rs2.tenant_id = $1
+          AND rs2.user_id = $2
           AND c2.topic_id IS NOT NULL
         GROUP BY c2.topic_id
       ),
@@ -191,6 +379,7 @@ export class PostgresStore {
           ON c3.id = rs3.cluster_id
          AND c3.tenant_id = rs3.tenant_id
         WHERE rs3.tenant_id = $1
+          AND rs3.user_id = $2
         GROUP BY c3.folder_id
       ),
       topic_density AS (
@@ -201,6 +390,7 @@ export class PostgresStore {
         LEFT JOIN read_state rs4
           ON rs4.cluster_id = c4.id
          AND rs4.tenant_id = c4.tenant_id
+         AND rs4.user_id = $2
         WHERE c4.tenant_id = $1
           AND c4.topic_id IS NOT NULL
           AND rs4.read_at IS NULL
@@ -211,6 +401,8 @@ export class PostgresStore {
         c.id,
         COALESCE(i.title, 'Untitled') AS headline,
         i.hero_image_url,
+        rep_video.url AS video_url,
+        rep_video.duration_seconds AS video_duration_seconds,
         COALESCE(f.id, '00000000-0000-0000-0000-000000000000') AS primary_feed_id,
         COALESCE(f.title, 'Unknown') AS primary_source,
         COALESCE(i.published_at, c.created_at) AS primary_source_published_at,
@@ -240,13 +432,14 @@ export class PostgresStore {
         i.ai_suggested_tags,
         rs.read_at,
         rs.saved_at,
-        rs.not_interested_at
+        rs.not_interested_at,
+        ss.saved_at AS shared_saved_at
       FROM cluster c
       LEFT JOIN item i ON i.id = c.rep_item_id
       LEFT JOIN feed f ON i.feed_id = f.id
       LEFT JOIN folder fo ON c.folder_id = fo.id
       LEFT JOIN topic t ON c.topic_id = t.id
-      LEFT JOIN read_state rs ON rs.cluster_id = c.id AND rs.tenant_id = c.tenant_id
+      ${memberStateJoinSql("c", "$2")}
       LEFT JOIN topic_affinity ta ON ta.topic_id = c.topic_id
       LEFT JOIN folder_affinity fa ON fa.folder_id = c.folder_id
       LEFT JOIN topic_density td ON td.topic_id = c.topic_id
@@ -261,6 +454,7 @@ export class PostgresStore {
         ORDER BY fe.ts DESC
         LIMIT 1
       ) latest_filter_event ON TRUE
+      ${repVideoJoinSql("i")}
       ${whereClause}
       ${orderClause}
       OFFSET $${paramIndex} LIMIT $${paramIndex + 1}
@@ -279,6 +473,7 @@ export class PostgresStore {
         id: r.id as string,
         headline: r.headline as string,
         heroImageUrl: (r.hero_image_url as string) ?? null,
+        video: toVideoEmbed(r),
         primarySource: r.primary_source as string,
         primaryFeedId: r.primary_feed_id as string,
         primarySourcePublishedAt: publishedAt,
@@ -312,6 +507,7 @@ export class PostgresStore {
         aiSuggestedTags: (r.ai_suggested_tags as string[]) ?? null,
         isRead: r.read_at != null,
         isSaved: r.saved_at != null,
+        isSharedSaved: r.shared_saved_at != null,
       };
     });
 
@@ -325,6 +521,8 @@ export class PostgresStore {
         c.id,
         COALESCE(i.title, 'Untitled') AS headline,
         i.hero_image_url,
+        rep_video.url AS video_url,
+        rep_video.duration_seconds AS video_duration_seconds,
         COALESCE(f.id, '00000000-0000-0000-0000-000000000000') AS primary_feed_id,
         COALESCE(f.title, 'Unknown') AS primary_source,
         COALESCE(i.published_at, c.created_at) AS primary_source_published_at,
@@ -335,6 +533,7 @@ export class PostgresStore {
         t.name AS topic_name,
         i.summary,
         i.extracted_text,
+        i.extracted_html,
         i.extracted_at,
         f.default_reader_mode AS primary_feed_default_reader_mode,
         CASE
@@ -343,13 +542,14 @@ export class PostgresStore {
           ELSE NULL
         END AS muted_breakout_reason,
         rs.read_at,
-        rs.saved_at
+        rs.saved_at,
+        ss.saved_at AS shared_saved_at
       FROM cluster c
       LEFT JOIN item i ON i.id = c.rep_item_id
       LEFT JOIN feed f ON i.feed_id = f.id
       LEFT JOIN folder fo ON c.folder_id = fo.id
       LEFT JOIN topic t ON c.topic_id = t.id
-      LEFT JOIN read_state rs ON rs.cluster_id = c.id AND rs.tenant_id = c.tenant_id
+      ${memberStateJoinSql("c", "$3")}
       LEFT JOIN LATERAL (
         SELECT fe.action, fr.pattern AS rule_pattern
         FROM filter_event fe
@@ -361,11 +561,12 @@ export class PostgresStore {
         ORDER BY fe.ts DESC
         LIMIT 1
       ) latest_filter_event ON TRUE
+      ${repVideoJoinSql("i")}
       WHERE c.id = $1
         AND c.tenant_id = $2
     `;
     const [{ rows: clusterRows }, settings] = await Promise.all([
-      this.pool.query(clusterSql, [clusterId, this.accountId]),
+      this.pool.query(clusterSql, [clusterId, this.accountId, this.userId]),
       this.getSettings(),
     ]);
     if (clusterRows.length === 0) {
@@ -394,6 +595,7 @@ export class PostgresStore {
       id: r.id as string,
       headline: r.headline as string,
       heroImageUrl: (r.hero_image_url as string) ?? null,
+      video: toVideoEmbed(r),
       primarySource: r.primary_source as string,
       primaryFeedId: r.primary_feed_id as string,
       primarySourcePublishedAt: (r.primary_source_published_at as Date).toISOString(),
@@ -413,14 +615,23 @@ export class PostgresStore {
       rankingExplainability: null,
       isRead: r.read_at != null,
       isSaved: r.saved_at != null,
+      isSharedSaved: r.shared_saved_at != null,
     };
 
+    const memberItemIds = memberRows.map((m: Record<string, unknown>) => m.item_id as string);
+    const [enclosuresByItem, progressByItem] = await Promise.all([
+      this.listEnclosures(memberItemIds),
+      this.listMediaProgress(memberItemIds),
+    ]);
+
     const members: ClusterDetailMember[] = memberRows.map((m: Record<string, unknown>) => ({
       itemId: m.item_id as string,
       title: m.title as string,
       sourceName: m.source_name as string,
       url: m.url as string,
       publishedAt: (m.published_at as Date).toISOString(),
+      enclosures: enclosuresByItem.get(m.item_id as string) ?? [],
+      mediaProgress: progressByItem.get(m.item_id as string) ?? null,
     }));
 
     const extractedTextRaw = typeof r.extracted_text === "string" ? r.extracted_text.trim() : "";
@@ -428,11 +639,13 @@ export class PostgresStore {
     const extractedAt = r.extracted_at ? (r.extracted_at as Date).toISOString() : null;
 
     let storySoFar: string | null = null;
+    let storyHtml: string | null = null;
     let storyTextSource: ClusterDetail["storyTextSource"] = "unavailable";
     let storyExtractedAt: string | null = null;
 
     if (extractedTextRaw.length > 0) {
       storySoFar = extractedTextRaw;
+      storyHtml = typeof r.extracted_html === "string" ? r.extracted_html : null;
       storyTextSource = "extracted_full_text";
       storyExtractedAt = extractedAt;
     } else if (summaryRaw.length > 0) {
@@ -446,6 +659,7 @@ export class PostgresStore {
     return {
       cluster: card,
       storySoFar,
+      storyHtml,
       storyTextSource,
       storyExtractedAt,
       members,
@@ -463,10 +677,10 @@ export class PostgresStore {
     }
 
     await this.pool.query(
-      `INSERT INTO read_state (tenant_id, cluster_id, read_at)
-       VALUES ($1, $2, NOW())
-       ON CONFLICT (cluster_id) DO UPDATE SET read_at = NOW(), tenant_id = EXCLUDED.tenant_id`,
-      [this.accountId, clusterId],
+      `INSERT INTO read_state (tenant_id, user_id, cluster_id, read_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE SET read_at = NOW()`,
+      [this.accountId, this.userId, clusterId],
     );
     return true;
   }
@@ -487,20 +701,68 @@ export class PostgresStore {
          LEFT JOIN read_state rs
            ON rs.cluster_id = c.id
           AND rs.tenant_id = c.tenant_id
+          AND rs.user_id = $5
          WHERE c.tenant_id = $1
            AND rs.read_at IS NULL
            AND ($2::uuid IS NULL OR c.folder_id = $2::uuid)
            AND ($3::uuid IS NULL OR c.topic_id = $3::uuid)
            AND ($4::timestamptz IS NULL OR COALESCE(rep_i.published_at, c.created_at) <= $4::timestamptz)
        )
-       INSERT INTO read_state (tenant_id, cluster_id, read_at)
-       SELECT $1, targets.id, NOW()
+       INSERT INTO read_state (tenant_id, user_id, cluster_id, read_at)
+       SELECT $1, $5, targets.id, NOW()
        FROM targets
-       ON CONFLICT (cluster_id) DO UPDATE
-       SET read_at = EXCLUDED.read_at,
-           tenant_id = EXCLUDED.tenant_id
+       ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE
+       SET read_at = EXCLUDED.read_at
        RETURNING cluster_id`,
-      [this.accountId, payload.folderId ?? null, payload.topicId ?? null, olderThanTs],
+      [this.accountId, payload.folderId ?? null, payload.topicId ?? null, olderThanTs, this.userId],
+    );
+
+    return { count: rows.length, clusterIds: rows.map((r) => r.cluster_id) };
+  }
+
+  /**
+   * Marks unread clusters read up to an absolute cutoff, optionally scoped to a
+   * feed, folder or topic. Used by sync-client APIs that send "mark all before ts".
+   */
+  async markReadBefore(
+    scope: { feedId?: string; folderId?: string; topicId?: string },
+    before: Date,
+  ): Promise<{ count: number; clusterIds: string[] }> {
+    const { rows } = await this.pool.query<{ cluster_id: string }>(
+      `WITH targets AS (
+         SELECT DISTINCT c.id
+         FROM cluster c
+         JOIN cluster_member cm
+           ON cm.cluster_id = c.id
+          AND cm.tenant_id = c.tenant_id
+         JOIN item i
+           ON i.id = cm.item_id
+          AND i.tenant_id = c.tenant_id
+         LEFT JOIN read_state rs
+           ON rs.cluster_id = c.id
+          AND rs.tenant_id = c.tenant_id
+          AND rs.user_id = $6
+         WHERE c.tenant_id = $1
+           AND rs.read_at IS NULL
+           AND i.created_at <= $2::timestamptz
+           AND ($3::uuid IS NULL OR i.feed_id = $3::uuid)
+           AND ($4::uuid IS NULL OR c.folder_id = $4::uuid)
+           AND ($5::uuid IS NULL OR c.topic_id = $5::uuid)
+       )
+       INSERT INTO read_state (tenant_id, user_id, cluster_id, read_at)
+       SELECT $1, $6, targets.id, NOW()
+       FROM targets
+       ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE
+       SET read_at = EXCLUDED.read_at
+       RETURNING cluster_id`,
+      [
+        this.accountId,
+        before.toISOString(),
+        scope.feedId ?? null,
+        scope.folderId ?? null,
+        scope.topicId ?? null,
+        this.userId,
+      ],
     );
 
     return { count: rows.length, clusterIds: rows.map((r) => r.cluster_id) };
@@ -515,14 +777,53 @@ export class PostgresStore {
       return false;
     }
 
-    await this.pool.query("DELETE FROM read_state WHERE cluster_id = $1 AND tenant_id = $2", [
+    await this.pool.query(
+      "DELETE FROM read_state WHERE cluster_id = $1 AND tenant_id = $2 AND user_id = $3",
+      [clusterId, this.accountId, this.userId],
+    );
+    return true;
+  }
+
+  async saveCluster(clusterId: string): Promise<boolean> {
+    const check = await this.pool.query("SELECT id FROM cluster WHERE id = $1 AND tenant_id = $2", [
       clusterId,
       this.accountId,
     ]);
+    if (check.rows.length === 0) {
+      return false;
+    }
+
+    const previous = await this.pool.query<{ saved_at: Date | null }>(
+      "SELECT saved_at FROM read_state WHERE cluster_id = $1 AND tenant_id = $2 AND user_id = $3",
+      [clusterId, this.accountId, this.userId],
+    );
+
+    await this.pool.query(
+      `INSERT INTO read_state (tenant_id, user_id, cluster_id, saved_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE SET saved_at = NOW()`,
+      [this.accountId, this.userId, clusterId],
+    );
+
+    if (!previous.rows[0]?.saved_at) {
+      const { rows } = await this.pool.query<{ headline: string; url: string }>(
+        `SELECT i.title AS headline, i.url
+         FROM cluster c
+         JOIN item i ON i.id = c.rep_item_id AND i.tenant_id = c.tenant_id
+         WHERE c.id = $1 AND c.tenant_id = $2`,
+        [clusterId, this.accountId],
+      );
+      await enqueueWebhookEvent(this.pool, this.accountId, "cluster.saved", {
+        clusterId,
+        headline: rows[0]?.headline ?? null,
+        url: rows[0]?.url ?? null,
+      });
+      await enqueueReadLaterAutoSend(this.pool, this.accountId, this.userId, clusterId);
+    }
     return true;
   }
 
-  async saveCluster(clusterId: string): Promise<boolean> {
+  async unsaveCluster(clusterId: string): Promise<boolean> {
     const check = await this.pool.query("SELECT id FROM cluster WHERE id = $1 AND tenant_id = $2", [
       clusterId,
       this.accountId,
@@ -532,14 +833,39 @@ export class PostgresStore {
     }
 
     await this.pool.query(
-      `INSERT INTO read_state (tenant_id, cluster_id, saved_at)
-       VALUES ($1, $2, NOW())
-       ON CONFLICT (cluster_id) DO UPDATE SET saved_at = NOW(), tenant_id = EXCLUDED.tenant_id`,
-      [this.accountId, clusterId],
+      "UPDATE read_state SET saved_at = NULL WHERE cluster_id = $1 AND tenant_id = $2 AND user_id = $3",
+      [clusterId, this.accountId, this.userId],
     );
     return true;
   }
 
+  /** Adds a cluster to the workspace's shared saved collection. */
+  async shareSavedCluster(clusterId: string): Promise<boolean> {
+    const check = await this.pool.query("SELECT id FROM cluster WHERE id = $1 AND tenant_id = $2", [
+      clusterId,
+      this.accountId,
+    ]);
+    if (check.rows.length === 0) {
+      return false;
+    }
+
+    await this.pool.query(
+      `INSERT INTO shared_saved (tenant_id, cluster_id, saved_by_user_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (tenant_id, cluster_id) DO NOTHING`,
+      [this.accountId, clusterId, this.userId],
+    );
+    return true;
+  }
+
+  async unshareSavedCluster(clusterId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      "DELETE FROM shared_saved WHERE cluster_id = $1 AND tenant_id = $2",
+      [clusterId, this.accountId],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async splitCluster(clusterId: string): Promise<boolean> {
     const check = await this.pool.query("SELECT id FROM cluster WHERE id = $1 AND tenant_id = $2", [
       clusterId,
@@ -559,22 +885,357 @@ export class PostgresStore {
 
     if (_feedback.type === "not_interested") {
       await this.pool.query(
-        `INSERT INTO read_state (tenant_id, cluster_id, not_interested_at)
-         VALUES ($1, $2, NOW())
-         ON CONFLICT (cluster_id) DO UPDATE SET not_interested_at = NOW(), tenant_id = EXCLUDED.tenant_id`,
-        [this.accountId, clusterId],
+        `INSERT INTO read_state (tenant_id, user_id, cluster_id, not_interested_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE SET not_interested_at = NOW()`,
+        [this.accountId, this.userId, clusterId],
       );
     }
 
     return true;
   }
 
+  /** Built-in and workspace folders, minus the built-ins this workspace deleted. */
   async listFolders(): Promise<Folder[]> {
-    const { rows } = await this.pool.query("SELECT id, name FROM folder ORDER BY name");
-    return rows.map((r: Record<string, unknown>) => ({
-      id: r.id as string,
-      name: r.name as string,
-    }));
+    const { rows } = await this.pool.query(
+      `SELECT fo.id, fo.name, fo.tenant_id IS NULL AS built_in,
+              fs.parent_id, COALESCE(fs.position, 0) AS position, fs.icon, fs.color
+       FROM folder fo
+       LEFT JOIN folder_setting fs ON fs.folder_id = fo.id AND fs.tenant_id = $1
+       WHERE (fo.tenant_id IS NULL OR fo.tenant_id = $1)
+         AND NOT COALESCE(fs.hidden, false)
+       ORDER BY COALESCE(fs.position, 0), fo.name`,
+      [this.accountId],
+    );
+    return rows.map(toFolder);
+  }
+
+  async createFolder(
+    payload: CreateFolderRequest,
+  ): Promise<Folder | "parent_not_found" | "name_taken"> {
+    const folders = await this.listFolders();
+    if (payload.parentId && !folders.some((f) => f.id === payload.parentId)) {
+      return "parent_not_found";
+    }
+    if (folders.some((f) => f.name.toLowerCase() === payload.name.toLowerCase())) {
+      return "name_taken";
+    }
+
+    const { rows } = await this.pool.query<{ id: string }>(
+      "INSERT INTO folder (tenant_id, name) VALUES ($1, $2) RETURNING id",
+      [this.accountId, payload.name],
+    );
+    const id = rows[0]?.id;
+    if (!id) {
+      throw new Error("failed to create folder");
+    }
+    const position = await this.nextFolderPosition(payload.parentId);
+    await this.saveFolderSetting(id, {
+      parentId: payload.parentId,
+      position,
+      icon: payload.icon,
+      color: payload.color,
+    });
+    return {
+      id,
+      name: payload.name,
+      parentId: payload.parentId,
+      position,
+      icon: payload.icon,
+      color: payload.color,
+      builtIn: false,
+    };
+  }
+
+  async updateFolder(
+    folderId: string,
+    patch: UpdateFolderRequest,
+  ): Promise<Folder | null | "built_in" | "name_taken" | "invalid_parent"> {
+    const folders = await this.listFolders();
+    const folder = folders.find((f) => f.id === folderId);
+    if (!folder) return null;
+
+    const renamed = patch.name !== undefined && patch.name !== folder.name;
+    if (renamed && folder.builtIn) return "built_in";
+    if (
+      renamed &&
+      folders.some((f) => f.id !== folderId && f.name.toLowerCase() === patch.name?.toLowerCase())
+    ) {
+      return "name_taken";
+    }
+
+    const moved = patch.parentId !== undefined && patch.parentId !== folder.parentId;
+    if (
+      moved &&
+      patch.parentId &&
+      (!folders.some((f) => f.id === patch.parentId) ||
+        isFolderDescendant(folders, patch.parentId, folderId))
+    ) {
+      return "invalid_parent";
+    }
+
+    if (renamed) {
+      await this.pool.query("UPDATE folder SET name = $3 WHERE id = $1 AND tenant_id = $2", [
+        folderId,
+        this.accountId,
+        patch.name,
+      ]);
+    }
+    const parentId = moved ? (patch.parentId ?? null) : folder.parentId;
+    const position = moved ? await this.nextFolderPosition(parentId) : folder.position;
+    await this.saveFolderSetting(folderId, {
+      parentId: moved ? parentId : undefined,
+      position: moved ? position : undefined,
+      icon: patch.icon,
+      color: patch.color,
+    });
+
+    return {
+      ...folder,
+      name: patch.name ?? folder.name,
+      parentId,
+      position,
+      icon: patch.icon === undefined ? folder.icon : patch.icon,
+      color: patch.color === undefined ? folder.color : patch.color,
+    };
+  }
+
+  /**
+   * Renumbers the children of `parentId`: the listed folders first, in the
+   * given order, then any unlisted siblings in their current order. Returns
+   * false when a listed folder is not a child of `parentId`.
+   */
+  async reorderFolders(payload: ReorderFoldersRequest): Promise<boolean> {
+    const folders = await this.listFolders();
+    const siblings = folderTree(folders)
+      .map(({ folder }) => folder)
+      .filter((f) => (f.parentId ?? null) === payload.parentId);
+    const siblingIds = new Set(siblings.map((f) => f.id));
+    if (!payload.folderIds.every((id) => siblingIds.has(id))) return false;
+
+    const listed = new Set(payload.folderIds);
+    const ordered = [...listed, ...siblings.map((f) => f.id).filter((id) => !listed.has(id))];
+    for (const [position, folderId] of ordered.entries()) {
+      await this.saveFolderSetting(folderId, { position });
+    }
+    return true;
+  }
+
+  /**
+   * Deletes a folder, moving what was filed under it to `reassignTo` (Other by
+   * default) and its child folders up a level. Built-in folders are hidden
+   * for this workspace rather than removed; Other cannot be deleted.
+   */
+  async deleteFolder(
+    folderId: string,
+    reassignTo?: string,
+  ): Promise<true | null | "protected" | "invalid_target"> {
+    const folders = await this.listFolders();
+    const folder = folders.find((f) => f.id === folderId);
+    if (!folder) return null;
+    if (folder.builtIn && folder.name === "Other") return "protected";
+
+    const targetId = reassignTo ?? folders.find((f) => f.builtIn && f.name === "Other")?.id;
+    if (!targetId || targetId === folderId || !folders.some((f) => f.id === targetId)) {
+      return "invalid_target";
+    }
+
+    const client = this.pool;
+    try {
+      await client.query("BEGIN");
+      const params = [this.accountId, folderId, targetId];
+      await client.query(
+        "UPDATE feed SET folder_id = $3 WHERE tenant_id = $1 AND folder_id = $2",
+        params,
+      );
+      await client.query(
+        "UPDATE cluster SET folder_id = $3 WHERE tenant_id = $1 AND folder_id = $2",
+        params,
+      );
+      await client.query(
+        "UPDATE filter_rule SET folder_id = $3 WHERE tenant_id = $1 AND folder_id = $2",
+        params,
+      );
+      await client.query(
+        `UPDATE feed_output SET target_id = $3
+         WHERE tenant_id = $1 AND kind = 'folder' AND target_id = $2`,
+        params,
+      );
+      await client.query(
+        `UPDATE folder_setting SET parent_id = $3, updated_at = NOW()
+         WHERE tenant_id = $1 AND parent_id = $2`,
+        [this.accountId, folderId, folder.parentId],
+      );
+      if (folder.builtIn) {
+        await this.saveFolderSetting(folderId, { parentId: null, hidden: true });
+      } else {
+        await client.query("DELETE FROM folder WHERE id = $2 AND tenant_id = $1", [
+          this.accountId,
+          folderId,
+        ]);
+      }
+      await client.query("COMMIT");
+      return true;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    }
+  }
+
+  private async nextFolderPosition(parentId: string | null): Promise<number> {
+    const { rows } = await this.pool.query<{ position: number }>(
+      `SELECT COALESCE(MAX(position), -1)::int + 1 AS position
+       FROM folder_setting
+       WHERE tenant_id = $1
+         AND parent_id IS NOT DISTINCT FROM $2::uuid
+         AND NOT hidden`,
+      [this.accountId, parentId],
+    );
+    return rows[0]?.position ?? 0;
+  }
+
+  /** Upserts this workspace's layout for a folder; undefined fields are left as they are. */
+  private async saveFolderSetting(
+    folderId: string,
+    values: {
+      parentId?: string | null;
+      position?: number;
+      icon?: string | null;
+      color?: string | null;
+      hidden?: boolean;
+    },
+  ): Promise<void> {
+    const columns = Object.entries({
+      parent_id: values.parentId,
+      position: values.position,
+      icon: values.icon,
+      color: values.color,
+      hidden: values.hidden,
+    }).filter(([, value]) => value !== undefined);
+    if (columns.length === 0) return;
+
+    const names = columns.map(([name]) => name);
+    await this.pool.query(
+      `INSERT INTO folder_setting (tenant_id, folder_id, ${names.join(", ")})
+       VALUES ($1, $2, ${names.map((_, i) => `$${i + 3}`).join(", ")})
+       ON CONFLICT (tenant_id, folder_id) DO UPDATE
+       SET ${names.map((name) => `${name} = EXCLUDED.${name}`).join(", ")}, updated_at = NOW()`,
+      [this.accountId, folderId, ...columns.map(([, value]) => value)],
+    );
+  }
+
+  /** This workspace's extraction rules alongside the bundled set they can override. */
+  async listExtractionRules(): Promise<ExtractionRulesResponse> {
+    const { rows } = await this.pool.query(
+      `SELECT ${EXTRACTION_RULE_COLUMNS}
+       FROM extraction_rule
+       WHERE tenant_id = $1
+       ORDER BY domain`,
+      [this.accountId],
+    );
+    return { workspace: rows.map(toExtractionRule), bundled: [...BUNDLED_EXTRACTION_RULES] };
+  }
+
+  async createExtractionRule(
+    payload: CreateExtractionRuleRequest,
+  ): Promise<ExtractionRule | "domain_taken"> {
+    try {
+      const { rows } = await this.pool.query(
+        `INSERT INTO extraction_rule (
+           tenant_id, domain, body_selectors, strip_selectors, next_page_selector, max_pages,
+           headers, cookie, use_feed_content, enabled
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING ${EXTRACTION_RULE_COLUMNS}`,
+        [
+          this.accountId,
+          payload.domain,
+          payload.bodySelectors,
+          payload.stripSelectors,
+          payload.nextPageSelector,
+          payload.maxPages,
+          JSON.stringify(payload.headers),
+          payload.cookie,
+          payload.useFeedContent,
+          payload.enabled,
+        ],
+      );
+      return toExtractionRule(rows[0] as Record<string, unknown>);
+    } catch (err) {
+      if ((err as { code?: string }).code === "23505") return "domain_taken";
+      throw err;
+    }
+  }
+
+  async updateExtractionRule(
+    ruleId: string,
+    patch: UpdateExtractionRuleRequest,
+  ): Promise<ExtractionRule | null | "domain_taken"> {
+    const columns = Object.entries({
+      domain: patch.domain,
+      body_selectors: patch.bodySelectors,
+      strip_selectors: patch.stripSelectors,
+      next_page_selector: patch.nextPageSelector,
+      max_pages: patch.maxPages,
+      headers: patch.headers === undefined ? undefined : JSON.stringify(patch.headers),
+      cookie: patch.cookie,
+      use_feed_content: patch.useFeedContent,
+      enabled: patch.enabled,
+    }).filter(([, value]) => value !== undefined);
+
+    try {
+      const { rows } = await this.pool.query(
+        `UPDATE extraction_rule
+         SET ${columns.map(([name], i) => `${name} = $${i + 3}`).join(", ")}${
+           columns.length > 0 ? ", " : ""
+         }updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING ${EXTRACTION_RULE_COLUMNS}`,
+        [ruleId, this.accountId, ...columns.map(([, value]) => value)],
+      );
+      return rows[0] ? toExtractionRule(rows[0] as Record<string, unknown>) : null;
+    } catch (err) {
+      if ((err as { code?: string }).code === "23505") return "domain_taken";
+      throw err;
+    }
+  }
+
+  async deleteExtractionRule(ruleId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      "DELETE FROM extraction_rule WHERE id = $1 AND tenant_id = $2",
+      [ruleId, this.accountId],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /** Records a pending preview; the worker fills in the result. */
+  async createExtractionPreview(url: string): Promise<ExtractionPreview> {
+    const { rows } = await this.pool.query(
+      `INSERT INTO extraction_preview (tenant_id, user_id, url)
+       VALUES ($1, $2, $3)
+       RETURNING ${EXTRACTION_PREVIEW_COLUMNS}`,
+      [this.accountId, this.userId, url],
+    );
+    return toExtractionPreview(rows[0] as Record<string, unknown>);
+  }
+
+  async getExtractionPreview(previewId: string): Promise<ExtractionPreview | null> {
+    const { rows } = await this.pool.query(
+      `SELECT ${EXTRACTION_PREVIEW_COLUMNS}
+       FROM extraction_preview
+       WHERE id = $1 AND tenant_id = $2 AND user_id = $3`,
+      [previewId, this.accountId, this.userId],
+    );
+    return rows[0] ? toExtractionPreview(rows[0] as Record<string, unknown>) : null;
+  }
+
+  async failExtractionPreview(previewId: string, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE extraction_preview
+       SET status = 'failed', error = $3, completed_at = NOW()
+       WHERE id = $1 AND tenant_id = $2`,
+      [previewId, this.accountId, error],
+    );
   }
 
   async listFeeds(): Promise<Feed[]> {
@@ -616,6 +1277,9 @@ export class PostgresStore {
         f.created_at,
         f.last_polled_at,
         f.default_reader_mode,
+        f.next_poll_at,
+        f.poll_interval_minutes,
+        f.poll_schedule_reason,
         ls.last_parse_success_at,
         lf.last_parse_failure_at,
         lf.last_parse_failure_stage,
@@ -666,7 +1330,8 @@ export class PostgresStore {
     let paramIndex = 1;
 
     if (patch.folderId) {
-      setClauses.push(`folder_id = $${paramIndex}`);
+      // A member's own placement; the folder classifier learns from these feeds.
+      setClauses.push(`folder_id = $${paramIndex}`, "folder_source = 'manual'");
       params.push(patch.folderId);
       paramIndex++;
     }
@@ -849,8 +1514,12 @@ export class PostgresStore {
 
   async listDigests(): Promise<Digest[]> {
     const { rows } = await this.pool.query(
-      "SELECT id, created_at, start_ts, end_ts, title, body, entries_json FROM digest WHERE tenant_id = $1 ORDER BY created_at DESC",
-      [this.accountId],
+      `SELECT id, created_at, start_ts, end_ts, title, body, entries_json, sections_json
+       FROM digest
+       WHERE tenant_id = $1
+         AND (user_id = $2 OR user_id IS NULL)
+       ORDER BY created_at DESC`,
+      [this.accountId, this.userId],
     );
     return rows.map((r: Record<string, unknown>) => ({
       id: r.id as string,
@@ -860,9 +1529,103 @@ export class PostgresStore {
       title: r.title as string,
       body: r.body as string,
       entries: r.entries_json as Digest["entries"],
+      ...(r.sections_json ? { sections: r.sections_json as Digest["sections"] } : {}),
     }));
   }
 
+  /**
+   * Builds the digest the member's section rules would produce right now,
+   * without storing it. Uses the same candidates and assignment as the
+   * worker; `sectionRules` defaults to the member's saved `digestSections`.
+   */
+  async previewDigest(
+    sectionRules: DigestSectionRule[] | undefined,
+    windowHours: number,
+  ): Promise<DigestPreview> {
+    const settings = await this.getSettings();
+    const rules = sectionRules ?? settings.digestSections;
+    const endTs = new Date();
+    const startTs = new Date(endTs.getTime() - windowHours * 60 * 60 * 1000);
+
+    const { rows } = await this.pool.query(
+      `SELECT
+         c.id AS cluster_id,
+         i.title,
+         i.summary,
+         c.ai_summary,
+         c.size,
+         f.id AS feed_id,
+         f.weight AS feed_weight,
+         c.folder_id,
+         c.topic_id,
+         f.title AS feed_title,
+         i.published_at
+       FROM cluster c
+       JOIN item i ON i.id = c.rep_item_id
+       JOIN feed f ON f.id = i.feed_id
+       LEFT JOIN read_state rs
+         ON rs.cluster_id = c.id
+        AND rs.tenant_id = c.tenant_id
+        AND rs.user_id = $4
+       WHERE c.updated_at >= $1
+         AND c.tenant_id = $2
+         AND rs.read_at IS NULL
+         AND rs.not_interested_at IS NULL
+       ORDER BY
+         CASE f.weight WHEN 'prefer' THEN 3 WHEN 'neutral' THEN 2 ELSE 1 END DESC,
+         c.size DESC,
+         i.published_at DESC
+       LIMIT $3`,
+      [startTs.toISOString(), this.accountId, DIGEST_CANDIDATE_LIMIT, this.userId],
+    );
+    const candidates: DigestCandidate[] = rows.map((r: Record<string, unknown>) => ({
+      clusterId: r.cluster_id as string,
+      headline: r.title as string,
+      sourceName: r.feed_title as string,
+      folderId: r.folder_id as string,
+      topicId: (r.topic_id as string | null) ?? null,
+      feedId: r.feed_id as string,
+      feedWeight: r.feed_weight as string,
+      outletCount: Number(r.size),
+      publishedAt: (r.published_at as Date).toISOString(),
+      summary: r.summary as string | null,
+      aiSummary: (r.ai_summary as string | null) ?? null,
+    }));
+
+    const savedSearchMatches: Record<string, ReadonlySet<string>> = {};
+    for (const rule of rules) {
+      const search = settings.savedSearches.find((entry) => entry.id === rule.savedSearchId);
+      if (!search || savedSearchMatches[search.id]) continue;
+      const scoped = candidates.filter(
+        (candidate) =>
+          (!search.folderId || candidate.folderId === search.folderId) &&
+          (!search.feedId || candidate.feedId === search.feedId),
+      );
+      const matched =
+        scoped.length === 0
+          ? { rows: [] }
+          : await this.pool.query<{ cluster_id: string }>(
+              `SELECT DISTINCT cm.cluster_id
+               FROM cluster_member cm
+               JOIN item i ON i.id = cm.item_id AND i.tenant_id = cm.tenant_id
+               WHERE cm.tenant_id = $1
+                 AND cm.cluster_id = ANY($2::uuid[])
+                 AND i.search_vector @@ websearch_to_tsquery('english', $3)`,
+              [this.accountId, scoped.map((candidate) => candidate.clusterId), search.query],
+            );
+      savedSearchMatches[search.id] = new Set(matched.rows.map((row) => row.cluster_id));
+    }
+
+    const { sections, entries } = assignDigestSections(candidates, rules, savedSearchMatches);
+    return {
+      startTs: startTs.toISOString(),
+      endTs: endTs.toISOString(),
+      candidateCount: candidates.length,
+      sections,
+      entries: entries.map(({ sourceName: _sourceName, ...entry }) => entry),
+    };
+  }
+
   async recordEvents(events: Event[]): Promise<{ accepted: number; deduped: number }> {
     let accepted = 0;
     let deduped = 0;
@@ -895,26 +1658,101 @@ export class PostgresStore {
     return { accepted, deduped };
   }
 
-  async getSettings(): Promise<Settings> {
-    const { rows } = await this.pool.query(
+  private async loadSettingsLayers(): Promise<SettingsLayers> {
+    const workspaceResult = await this.pool.query(
       "SELECT data FROM app_settings WHERE tenant_id = $1 AND key = 'main' LIMIT 1",
       [this.accountId],
     );
-    if (rows.length === 0) {
-      return DEFAULT_SETTINGS;
+    const memberResult = await this.pool.query(
+      "SELECT data FROM member_settings WHERE tenant_id = $1 AND user_id = $2 LIMIT 1",
+      [this.accountId, this.userId],
+    );
+    const roleResult = await this.pool.query(
+      "SELECT role FROM user_account WHERE id = $1 AND tenant_id = $2 LIMIT 1",
+      [this.userId, this.accountId],
+    );
+    const workspace = (workspaceResult.rows[0] as { data?: unknown } | undefined)?.data;
+    const member = (memberResult.rows[0] as { data?: unknown } | undefined)?.data;
+    return {
+      defaults: DEFAULT_SETTINGS,
+      workspace: (workspace ?? {}) as Record<string, unknown>,
+      member: (member ?? {}) as Record<string, unknown>,
+      isOwner: (roleResult.rows[0] as { role?: string } | undefined)?.role === "owner",
+    };
+  }
+
+  /** Effective settings for this member: workspace policy plus their own overrides. */
+  async getSettings(): Promise<Settings> {
+    return settingsSchema.parse(await this.getSettingsView());
+  }
+
+  async getSettingsView(): Promise<SettingsView> {
+    return layerSettings(await this.loadSettingsLayers());
+  }
+
+  /**
+   * Applies the keys present in `body`. Personal keys become member
+   * overrides; policy and locked keys are written to the workspace when the
+   * caller is the owner and rejected otherwise.
+   */
+  async updateSettings(
+    payload: UpdateSettingsRequest,
+    body: unknown,
+  ): Promise<SettingsView | { locked: string[] }> {
+    const layers = await this.loadSettingsLayers();
+    const plan = planSettingsUpdate(providedSettings(payload, body), layers);
+    if (plan.locked.length > 0) {
+      return { locked: plan.locked };
     }
-    return settingsSchema.parse((rows[0] as Record<string, unknown>).data);
+
+    if (Object.keys(plan.workspace).length > 0) {
+      layers.workspace = await this.writeWorkspaceSettings(layers, plan.workspace);
+    }
+    if (Object.keys(plan.member).length > 0) {
+      await this.pool.query(
+        `INSERT INTO member_settings (tenant_id, user_id, data) VALUES ($1, $2, $3)
+         ON CONFLICT (tenant_id, user_id)
+         DO UPDATE SET data = member_settings.data || EXCLUDED.data, updated_at = NOW()`,
+        [this.accountId, this.userId, JSON.stringify(plan.member)],
+      );
+      layers.member = { ...layers.member, ...plan.member };
+    }
+    return layerSettings(layers);
   }
 
-  async updateSettings(patch: UpdateSettingsRequest): Promise<Settings> {
-    const current = await this.getSettings();
-    const updated = settingsSchema.parse({ ...current, ...patch });
+  /**
+   * Owner-only: sets workspace defaults for any key and replaces the set of
+   * personal keys members may not override.
+   */
+  async updateWorkspaceSettings(
+    request: UpdateWorkspaceSettingsRequest,
+  ): Promise<SettingsView | "not_owner"> {
+    const layers = await this.loadSettingsLayers();
+    if (!layers.isOwner) {
+      return "not_owner";
+    }
+    const defaults = request.defaults ?? {};
+    const patch = providedSettings(settingsSchema.partial().parse(defaults), defaults);
+    layers.workspace = await this.writeWorkspaceSettings(layers, patch, request.lockedKeys);
+    return layerSettings(layers);
+  }
+
+  private async writeWorkspaceSettings(
+    layers: SettingsLayers,
+    patch: Partial<Settings>,
+    lockedKeys = lockedKeysOf(layers.workspace),
+  ): Promise<Record<string, unknown>> {
+    const current = workspaceSettings(layers.defaults, layers.workspace);
+    const data = {
+      ...settingsSchema.parse({ ...current, ...patch }),
+      lockedKeys: [...new Set(lockedKeys)],
+    };
     await this.pool.query(
       `INSERT INTO app_settings (tenant_id, key, data) VALUES ($1, 'main', $2)
        ON CONFLICT (tenant_id, key) DO UPDATE SET data = $2`,
-      [this.accountId, JSON.stringify(updated)],
+      [this.accountId, JSON.stringify(data)],
     );
-    return updated;
+    return data;
   }
 
   async importOpml(
@@ -983,8 +1821,8 @@ export class PostgresStore {
       "(rep_i.id IS NULL OR rep_i.tenant_id = $2)",
       "i.search_vector @@ websearch_to_tsquery('english', $1)",
     ];
-    const params: unknown[] = [query.q, this.accountId];
-    let nextParam = 3;
+    const params: unknown[] = [query.q, this.accountId, this.userId];
+    let nextParam = 4;
 
     if (query.folderId) {
       whereConditions.push(`c.folder_id = $${nextParam}`);
@@ -1002,6 +1840,8 @@ export class PostgresStore {
         c.id,
         COALESCE(rep_i.title, 'Untitled') AS headline,
         rep_i.hero_image_url,
+        rep_video.url AS video_url,
+        rep_video.duration_seconds AS video_duration_seconds,
         COALESCE(f.id, '00000000-0000-0000-0000-000000000000') AS primary_feed_id,
         COALESCE(f.title, 'Unknown') AS primary_source,
         COALESCE(rep_i.published_at, c.created_at) AS primary_source_published_at,
@@ -1018,6 +1858,7 @@ export class PostgresStore {
         END AS muted_breakout_reason,
         rs.read_at,
         rs.saved_at,
+        ss.saved_at AS shared_saved_at,
         ts_rank(i.search_vector, websearch_to_tsquery('english', $1)) AS rank
       FROM item i
       JOIN cluster_member cm ON cm.item_id = i.id
@@ -1026,7 +1867,7 @@ export class PostgresStore {
       LEFT JOIN feed f ON rep_i.feed_id = f.id
       LEFT JOIN folder fo ON c.folder_id = fo.id
       LEFT JOIN topic t ON c.topic_id = t.id
-      LEFT JOIN read_state rs ON rs.cluster_id = c.id AND rs.tenant_id = c.tenant_id
+      ${memberStateJoinSql("c", "$3")}
       LEFT JOIN LATERAL (
         SELECT fe.action, fr.pattern AS rule_pattern
         FROM filter_event fe
@@ -1038,6 +1879,7 @@ export class PostgresStore {
         ORDER BY fe.ts DESC
         LIMIT 1
       ) latest_filter_event ON TRUE
+      ${repVideoJoinSql("rep_i")}
       WHERE ${whereConditions.join("\n        AND ")}
       ORDER BY c.id, rank DESC
     `;
@@ -1056,38 +1898,114 @@ export class PostgresStore {
     ]);
 
     const hasMore = rows.length > limit;
-    const data: ClusterCard[] = rows.slice(0, limit).map((r: Record<string, unknown>) => {
-      const publishedAt = (r.primary_source_published_at as Date).toISOString();
-      return {
-        id: r.id as string,
-        headline: r.headline as string,
-        heroImageUrl: (r.hero_image_url as string) ?? null,
-        primarySource: r.primary_source as string,
-        primaryFeedId: r.primary_feed_id as string,
-        primarySourcePublishedAt: publishedAt,
-        outletCount: Number(r.outlet_count),
-        folderId: r.folder_id as string,
-        folderName: r.folder_name as string,
-        topicId: (r.topic_id as string) ?? null,
-        topicName: (r.topic_name as string) ?? null,
-        summary: (r.summary as string) ?? null,
-        mutedBreakoutReason: (r.muted_breakout_reason as string) ?? null,
-        displayMode: computeDisplayMode(
-          publishedAt,
-          settings.progressiveFreshHours,
-          settings.progressiveAgingDays,
-          settings.progressiveSummarizationEnabled,
-        ),
-        rankingExplainability: null,
-        isRead: r.read_at != null,
-        isSaved: r.saved_at != null,
-      };
-    });
+    const data: ClusterCard[] = rows
+      .slice(0, limit)
+      .map((r: Record<string, unknown>) => this.mapSearchCardRow(r, settings));
 
     const nextCursor = hasMore ? String(offset + limit) : null;
     return { data, nextCursor };
   }
 
+  /**
+   * Ranks clusters by how close their member embeddings are to an embedded
+   * query. Only embeddings from the query's model are comparable.
+   */
+  async searchClustersSemantic(
+    query: SearchQuery,
+    embedding: { vector: number[]; model: string },
+  ): Promise<{ data: ClusterCard[]; nextCursor: string | null }> {
+    const offset = query.cursor ? parseInt(query.cursor, 10) || 0 : 0;
+    const limit = query.limit;
+    const whereConditions: string[] = ["e.tenant_id = $1", "e.model = $2"];
+    const params: unknown[] = [this.accountId, embedding.model];
+    let nextParam = 3;
+
+    if (query.folderId) {
+      whereConditions.push(`c.folder_id = $${nextParam}`);
+      params.push(query.folderId);
+      nextParam++;
+    }
+    if (query.feedId) {
+      whereConditions.push(`i.feed_id = $${nextParam}`);
+      params.push(query.feedId);
+      nextParam++;
+    }
+    params.push(SEMANTIC_CANDIDATE_LIMIT);
+
+    const { rows } = await this.pool.query<EmbeddedClusterRow>(
+      `SELECT cm.cluster_id, e.embedding
+       FROM item_embedding e
+       JOIN item i ON i.id = e.item_id AND i.tenant_id = e.tenant_id
+       JOIN cluster_member cm ON cm.item_id = e.item_id AND cm.tenant_id = e.tenant_id
+       JOIN cluster c ON c.id = cm.cluster_id AND c.tenant_id = cm.tenant_id
+       WHERE ${whereConditions.join("\n         AND ")}
+       ORDER BY e.created_at DESC
+       LIMIT $${nextParam}`,
+      params,
+    );
+
+    const ranked = rankClustersBySimilarity(embedding.vector, rows, SEMANTIC_SEARCH_MIN_SIMILARITY);
+    const page = ranked.slice(offset, offset + limit);
+    const cards = await this.loadClusterCards(page.map((match) => match.clusterId));
+    const data = page.flatMap((match) => cards.get(match.clusterId) ?? []);
+
+    const nextCursor = ranked.length > offset + limit ? String(offset + limit) : null;
+    return { data, nextCursor };
+  }
+
+  /**
+   * Finds older clusters whose articles are close to this cluster's centroid
+   * embedding, regardless of the clustering time window. Returns null when the
+   * cluster does not exist and an empty list when it has no embeddings yet.
+   */
+  async listRelatedClusters(clusterId: string, limit: number): Promise<RelatedCluster[] | null> {
+    const target = await this.pool.query<{
+      created_at: Date;
+      embedding: number[] | null;
+      model: string | null;
+    }>(
+      `SELECT c.created_at, e.embedding, e.model
+       FROM cluster c
+       LEFT JOIN cluster_member cm ON cm.cluster_id = c.id AND cm.tenant_id = c.tenant_id
+       LEFT JOIN item_embedding e ON e.item_id = cm.item_id AND e.tenant_id = cm.tenant_id
+       WHERE c.id = $1 AND c.tenant_id = $2`,
+      [clusterId, this.accountId],
+    );
+    const first = target.rows[0];
+    if (!first) return null;
+
+    const embedded = target.rows.filter((row) => row.embedding && row.model);
+    const model = embedded[0]?.model;
+    const centroid = meanVector(
+      embedded.filter((row) => row.model === model).map((row) => row.embedding as number[]),
+    );
+    if (!model || !centroid) return [];
+
+    const { rows } = await this.pool.query<EmbeddedClusterRow>(
+      `SELECT cm.cluster_id, e.embedding
+       FROM item_embedding e
+       JOIN cluster_member cm ON cm.item_id = e.item_id AND cm.tenant_id = e.tenant_id
+       JOIN cluster c ON c.id = cm.cluster_id AND c.tenant_id = cm.tenant_id
+       WHERE e.tenant_id = $1
+         AND e.model = $2
+         AND c.id <> $3
+         AND c.created_at < $4
+       ORDER BY e.created_at DESC
+       LIMIT $5`,
+      [this.accountId, model, clusterId, first.created_at, SEMANTIC_CANDIDATE_LIMIT],
+    );
+
+    const ranked = rankClustersBySimilarity(centroid, rows, RELATED_CLUSTER_MIN_SIMILARITY).slice(
+      0,
+      limit,
+    );
+    const cards = await this.loadClusterCards(ranked.map((match) => match.clusterId));
+    return ranked.flatMap((match) => {
+      const card = cards.get(match.clusterId);
+      return card ? [{ ...card, similarity: match.similarity }] : [];
+    });
+  }
+
   async exportOpml(): Promise<{
     feeds: { xmlUrl: string; title: string; htmlUrl: string | null; folderName: string }[];
   }> {
@@ -1116,49 +2034,59 @@ export class PostgresStore {
     clusterId: string,
     payload: CreateAnnotationRequest,
   ): Promise<Annotation | null> {
-    const check = await this.pool.query("SELECT id FROM cluster WHERE id = $1 AND tenant_id = $2", [
-      clusterId,
-      this.accountId,
-    ]);
+    const check = await this.pool.query(
+      `SELECT c.id, c.rep_item_id, i.extracted_text
+       FROM cluster c
+       LEFT JOIN item i ON i.id = c.rep_item_id AND i.tenant_id = c.tenant_id
+       WHERE c.id = $1 AND c.tenant_id = $2`,
+      [clusterId, this.accountId],
+    );
     if (check.rows.length === 0) {
       return null;
     }
 
+    // The reader anchors over the text it shows; re-resolve the position
+    // against the stored extracted text, which the worker keeps it in sync with.
+    const cluster = check.rows[0] as Record<string, unknown>;
+    const extractedText = typeof cluster.extracted_text === "string" ? cluster.extracted_text : "";
+    const anchor = payload.anchor
+      ? {
+          quote: payload.anchor.quote,
+          position: extractedText ? resolveTextAnchor(extractedText, payload.anchor) : null,
+        }
+      : null;
+
     const { rows } = await this.pool.query(
-      `INSERT INTO annotation (tenant_id, cluster_id, highlighted_text, note, color)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING id, cluster_id, highlighted_text, note, color, created_at`,
-      [this.accountId, clusterId, payload.highlightedText, payload.note ?? null, payload.color],
+      `INSERT INTO annotation
+         (tenant_id, cluster_id, highlighted_text, note, color, anchor, anchor_item_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id, cluster_id, highlighted_text, note, color, anchor, created_at`,
+      [
+        this.accountId,
+        clusterId,
+        payload.highlightedText,
+        payload.note ?? null,
+        payload.color,
+        anchor ? JSON.stringify(anchor) : null,
+        anchor ? ((cluster.rep_item_id as string | null) ?? null) : null,
+      ],
     );
 
-    const r = rows[0] as Record<string, unknown>;
-    return {
-      id: r.id as string,
-      clusterId: r.cluster_id as string,
-      highlightedText: r.highlighted_text as string,
-      note: (r.note as string) ?? null,
-      color: r.color as Annotation["color"],
-      createdAt: (r.created_at as Date).toISOString(),
-    };
+    const annotation = toAnnotation(rows[0] as Record<string, unknown>);
+    await enqueueWebhookEvent(this.pool, this.accountId, "annotation.created", annotation);
+    return annotation;
   }
 
   async listAnnotations(clusterId: string): Promise<Annotation[]> {
     const { rows } = await this.pool.query(
-      `SELECT id, cluster_id, highlighted_text, note, color, created_at
+      `SELECT id, cluster_id, highlighted_text, note, color, anchor, created_at
        FROM annotation
        WHERE cluster_id = $1
          AND tenant_id = $2
        ORDER BY created_at DESC`,
       [clusterId, this.accountId],
     );
-    return rows.map((r: Record<string, unknown>) => ({
-      id: r.id as string,
-      clusterId: r.cluster_id as string,
-      highlightedText: r.highlighted_text as string,
-      note: (r.note as string) ?? null,
-      color: r.color as Annotation["color"],
-      createdAt: (r.created_at as Date).toISOString(),
-    }));
+    return rows.map((r: Record<string, unknown>) => toAnnotation(r));
   }
 
   async deleteAnnotation(annotationId: string): Promise<boolean> {
@@ -1212,19 +2140,74 @@ export class PostgresStore {
     }
 
     await this.pool.query(
-      `INSERT INTO read_state (tenant_id, cluster_id, dwell_seconds, clicked_at)
-       VALUES ($1, $2, $3, NOW())
-       ON CONFLICT (cluster_id) DO UPDATE SET
-         tenant_id = EXCLUDED.tenant_id,
-         dwell_seconds = read_state.dwell_seconds + $3,
+      `INSERT INTO read_state (tenant_id, user_id, cluster_id, dwell_seconds, clicked_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE SET
+         dwell_seconds = read_state.dwell_seconds + $4,
          clicked_at = NOW()`,
-      [this.accountId, clusterId, seconds],
+      [this.accountId, this.userId, clusterId, seconds],
     );
     return true;
   }
 
   // ---------- Reading stats ----------
 
+  /**
+   * Stores the member's playback position for an item and credits newly
+   * listened time to their read state for its cluster, where the ranking
+   * counts it as engagement.
+   */
+  async saveMediaProgress(
+    itemId: string,
+    payload: UpdateMediaProgressRequest,
+  ): Promise<MediaProgress | null> {
+    const check = await this.pool.query<{ cluster_id: string | null }>(
+      `SELECT cm.cluster_id
+       FROM item i
+       LEFT JOIN cluster_member cm ON cm.item_id = i.id AND cm.tenant_id = i.tenant_id
+       WHERE i.id = $1 AND i.tenant_id = $2
+       LIMIT 1`,
+      [itemId, this.accountId],
+    );
+    const item = check.rows[0];
+    if (!item) {
+      return null;
+    }
+
+    const positionSeconds = Math.floor(payload.positionSeconds);
+    const durationSeconds =
+      payload.durationSeconds != null ? Math.max(Math.round(payload.durationSeconds), 1) : null;
+    const completed =
+      durationSeconds !== null &&
+      positionSeconds >= durationSeconds - MEDIA_COMPLETION_SLACK_SECONDS;
+
+    const { rows } = await this.pool.query<MediaProgressRow>(
+      `INSERT INTO media_progress (tenant_id, user_id, item_id, position_seconds, duration_seconds, completed_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, CASE WHEN $6 THEN NOW() ELSE NULL END, NOW())
+       ON CONFLICT (tenant_id, user_id, item_id) DO UPDATE SET
+         position_seconds = EXCLUDED.position_seconds,
+         duration_seconds = COALESCE(EXCLUDED.duration_seconds, media_progress.duration_seconds),
+         completed_at = COALESCE(media_progress.completed_at, EXCLUDED.completed_at),
+         updated_at = NOW()
+       RETURNING item_id, position_seconds, duration_seconds, completed_at, updated_at`,
+      [this.accountId, this.userId, itemId, positionSeconds, durationSeconds, completed],
+    );
+
+    const listenedSeconds = Math.round(payload.listenedSeconds);
+    if (item.cluster_id && listenedSeconds > 0) {
+      await this.pool.query(
+        `INSERT INTO read_state (tenant_id, user_id, cluster_id, listen_seconds)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE SET
+           listen_seconds = read_state.listen_seconds + $4`,
+        [this.accountId, this.userId, item.cluster_id, listenedSeconds],
+      );
+    }
+
+    const row = rows[0];
+    return row ? toMediaProgress(row) : null;
+  }
+
   async getReadingStats(period: StatsPeriod): Promise<ReadingStats> {
     const periodCondition =
       period === "all"
@@ -1248,8 +2231,9 @@ export class PostgresStore {
       FROM read_state rs
       WHERE rs.read_at IS NOT NULL
         AND rs.tenant_id = $1
+        AND rs.user_id = $2
     `;
-    const countsResult = await this.pool.query(countsSql, [this.accountId]);
+    const countsResult = await this.pool.query(countsSql, [this.accountId, this.userId]);
     const counts = countsResult.rows[0] as Record<string, unknown>;
 
     const autoReadSql = `
@@ -1302,9 +2286,10 @@ export class PostgresStore {
       FROM read_state rs
       WHERE rs.read_at IS NOT NULL AND rs.dwell_seconds > 0
         AND rs.tenant_id = $1
+        AND rs.user_id = $2
       ${periodCondition}
     `;
-    const avgDwellResult = await this.pool.query(avgDwellSql, [this.accountId]);
+    const avgDwellResult = await this.pool.query(avgDwellSql, [this.accountId, this.userId]);
     const avgDwell = Number((avgDwellResult.rows[0] as Record<string, unknown>).avg_dwell);
 
     // Folder breakdown
@@ -1315,12 +2300,13 @@ export class PostgresStore {
       LEFT JOIN folder fo ON fo.id = c.folder_id
       WHERE rs.read_at IS NOT NULL
         AND rs.tenant_id = $1
+        AND rs.user_id = $2
         AND c.tenant_id = $1
         ${periodCondition}
       GROUP BY fo.name
       ORDER BY cnt DESC
     `;
-    const folderResult = await this.pool.query(folderSql, [this.accountId]);
+    const folderResult = await this.pool.query(folderSql, [this.accountId, this.userId]);
     const folderBreakdown = folderResult.rows.map((r: Record<string, unknown>) => ({
       folderName: r.folder_name as string,
       count: Number(r.cnt),
@@ -1335,13 +2321,14 @@ export class PostgresStore {
       LEFT JOIN feed f ON f.id = i.feed_id
       WHERE rs.read_at IS NOT NULL
         AND rs.tenant_id = $1
+        AND rs.user_id = $2
         AND c.tenant_id = $1
         ${periodCondition}
       GROUP BY f.title
       ORDER BY cnt DESC
       LIMIT 5
     `;
-    const sourcesResult = await this.pool.query(sourcesSql, [this.accountId]);
+    const sourcesResult = await this.pool.query(sourcesSql, [this.accountId, this.userId]);
     const topSources = sourcesResult.rows.map((r: Record<string, unknown>) => ({
       feedTitle: r.feed_title as string,
       count: Number(r.cnt),
@@ -1354,6 +2341,7 @@ export class PostgresStore {
         FROM read_state rs
         WHERE rs.read_at IS NOT NULL
           AND rs.tenant_id = $1
+          AND rs.user_id = $2
       ),
       numbered AS (
         SELECT read_date, read_date - (ROW_NUMBER() OVER (ORDER BY read_date))::int AS grp
@@ -1369,7 +2357,7 @@ export class PostgresStore {
         0
       ) AS streak
     `;
-    const streakResult = await this.pool.query(streakSql, [this.accountId]);
+    const streakResult = await this.pool.query(streakSql, [this.accountId, this.userId]);
     const readingStreak = Number((streakResult.rows[0] as Record<string, unknown>).streak);
 
     // Peak reading hours
@@ -1378,11 +2366,12 @@ export class PostgresStore {
       FROM read_state rs
       WHERE rs.read_at IS NOT NULL
         AND rs.tenant_id = $1
+        AND rs.user_id = $2
         ${periodCondition}
       GROUP BY hour
       ORDER BY hour
     `;
-    const hoursResult = await this.pool.query(hoursSql, [this.accountId]);
+    const hoursResult = await this.pool.query(hoursSql, [this.accountId, this.userId]);
     const peakHours = hoursResult.rows.map((r: Record<string, unknown>) => ({
       hour: Number(r.hour),
       count: Number(r.cnt),
@@ -1394,11 +2383,12 @@ export class PostgresStore {
       FROM read_state rs
       WHERE rs.read_at IS NOT NULL
         AND rs.tenant_id = $1
+        AND rs.user_id = $2
         ${periodCondition}
       GROUP BY read_date
       ORDER BY read_date
     `;
-    const dailyResult = await this.pool.query(dailySql, [this.accountId]);
+    const dailyResult = await this.pool.query(dailySql, [this.accountId, this.userId]);
     const dailyReads = dailyResult.rows.map((r: Record<string, unknown>) => ({
       date: (r.read_date as Date).toISOString().split("T")[0] ?? "",
       count: Number(r.cnt),
@@ -1638,6 +2628,155 @@ export class PostgresStore {
     }));
   }
 
+  private mapSearchCardRow(r: Record<string, unknown>, settings: Settings): ClusterCard {
+    const publishedAt = (r.primary_source_published_at as Date).toISOString();
+    return {
+      id: r.id as string,
+      headline: r.headline as string,
+      heroImageUrl: (r.hero_image_url as string) ?? null,
+      video: toVideoEmbed(r),
+      primarySource: r.primary_source as string,
+      primaryFeedId: r.primary_feed_id as string,
+      primarySourcePublishedAt: publishedAt,
+      outletCount: Number(r.outlet_count),
+      folderId: r.folder_id as string,
+      folderName: r.folder_name as string,
+      topicId: (r.topic_id as string) ?? null,
+      topicName: (r.topic_name as string) ?? null,
+      summary: (r.summary as string) ?? null,
+      mutedBreakoutReason: (r.muted_breakout_reason as string) ?? null,
+      displayMode: computeDisplayMode(
+        publishedAt,
+        settings.progressiveFreshHours,
+        settings.progressiveAgingDays,
+        settings.progressiveSummarizationEnabled,
+      ),
+      rankingExplainability: null,
+      isRead: r.read_at != null,
+      isSaved: r.saved_at != null,
+      isSharedSaved: r.shared_saved_at != null,
+    };
+  }
+
+  private async listEnclosures(itemIds: string[]): Promise<Map<string, ItemEnclosure[]>> {
+    const byItem = new Map<string, ItemEnclosure[]>();
+    if (itemIds.length === 0) return byItem;
+
+    const { rows } = await this.pool.query<{
+      item_id: string;
+      url: string;
+      mime_type: string | null;
+      length_bytes: string | null;
+      duration_seconds: number | null;
+      episode_number: number | null;
+      season_number: number | null;
+      episode_type: string | null;
+      chapters: ItemEnclosure["chapters"] | null;
+      chapters_url: string | null;
+    }>(
+      `SELECT item_id, url, mime_type, length_bytes, duration_seconds, episode_number,
+              season_number, episode_type, chapters, chapters_url
+       FROM item_enclosure
+       WHERE item_id = ANY($1::uuid[])
+         AND tenant_id = $2
+       ORDER BY item_id, position`,
+      [itemIds, this.accountId],
+    );
+
+    for (const row of rows) {
+      const list = byItem.get(row.item_id) ?? [];
+      list.push({
+        url: row.url,
+        mimeType: row.mime_type,
+        lengthBytes: row.length_bytes !== null ? Number(row.length_bytes) : null,
+        durationSeconds: row.duration_seconds,
+        episodeNumber: row.episode_number,
+        seasonNumber: row.season_number,
+        episodeType: row.episode_type,
+        chapters: row.chapters ?? [],
+        chaptersUrl: row.chapters_url,
+      });
+      byItem.set(row.item_id, list);
+    }
+    return byItem;
+  }
+
+  private async listMediaProgress(itemIds: string[]): Promise<Map<string, MediaProgress>> {
+    if (itemIds.length === 0) return new Map();
+
+    const { rows } = await this.pool.query<MediaProgressRow>(
+      `SELECT item_id, position_seconds, duration_seconds, completed_at, updated_at
+       FROM media_progress
+       WHERE item_id = ANY($1::uuid[])
+         AND tenant_id = $2
+         AND user_id = $3`,
+      [itemIds, this.accountId, this.userId],
+    );
+    return new Map(rows.map((row) => [row.item_id, toMediaProgress(row)]));
+  }
+
+  /** Loads cards for the given clusters, keyed by cluster id. */
+  private async loadClusterCards(clusterIds: string[]): Promise<Map<string, ClusterCard>> {
+    if (clusterIds.length === 0) return new Map();
+
+    const [{ rows }, settings] = await Promise.all([
+      this.pool.query(
+        `SELECT
+           c.id,
+           COALESCE(rep_i.title, 'Untitled') AS headline,
+           rep_i.hero_image_url,
+           rep_video.url AS video_url,
+           rep_video.duration_seconds AS video_duration_seconds,
+           COALESCE(f.id, '00000000-0000-0000-0000-000000000000') AS primary_feed_id,
+           COALESCE(f.title, 'Unknown') AS primary_source,
+           COALESCE(rep_i.published_at, c.created_at) AS primary_source_published_at,
+           c.size AS outlet_count,
+           c.folder_id,
+           COALESCE(fo.name, 'Other') AS folder_name,
+           c.topic_id,
+           t.name AS topic_name,
+           rep_i.summary,
+           CASE
+             WHEN latest_filter_event.action = 'breakout_shown'
+             THEN COALESCE(latest_filter_event.rule_pattern, 'breakout_shown')
+             ELSE NULL
+           END AS muted_breakout_reason,
+           rs.read_at,
+           rs.saved_at,
+           ss.saved_at AS shared_saved_at
+         FROM cluster c
+         LEFT JOIN item rep_i ON rep_i.id = c.rep_item_id AND rep_i.tenant_id = c.tenant_id
+         LEFT JOIN feed f ON rep_i.feed_id = f.id
+         LEFT JOIN folder fo ON c.folder_id = fo.id
+         LEFT JOIN topic t ON c.topic_id = t.id
+         ${memberStateJoinSql("c", "$3")}
+         LEFT JOIN LATERAL (
+           SELECT fe.action, fr.pattern AS rule_pattern
+           FROM filter_event fe
+           LEFT JOIN filter_rule fr
+             ON fr.id = fe.rule_id
+            AND fr.tenant_id = fe.tenant_id
+           WHERE fe.cluster_id = c.id
+             AND fe.tenant_id = c.tenant_id
+           ORDER BY fe.ts DESC
+           LIMIT 1
+         ) latest_filter_event ON TRUE
+         ${repVideoJoinSql("rep_i")}
+         WHERE c.id = ANY($1::uuid[])
+           AND c.tenant_id = $2`,
+        [clusterIds, this.accountId, this.userId],
+      ),
+      this.getSettings(),
+    ]);
+
+    return new Map(
+      rows.map((r: Record<string, unknown>) => [
+        r.id as string,
+        this.mapSearchCardRow(r, settings),
+      ]),
+    );
+  }
+
   private mapFeedRow(r: Record<string, unknown>): Feed {
     const failureStageRaw = r.last_parse_failure_stage;
     const lastParseFailureStage: Feed["lastParseFailureStage"] =
@@ -1670,6 +2809,9 @@ export class PostgresStore {
       lastParseFailureStage,
       lastParseFailureError: (r.last_parse_failure_error as string) ?? null,
       defaultReaderMode: (r.default_reader_mode as Feed["defaultReaderMode"]) ?? null,
+      nextPollAt: r.next_poll_at ? (r.next_poll_at as Date).toISOString() : null,
+      pollIntervalMinutes: (r.poll_interval_minutes as number | null) ?? null,
+      pollScheduleReason: (r.poll_schedule_reason as string | null) ?? null,
     };
   }
 
@@ -1712,6 +2854,9 @@ export class PostgresStore {
         f.created_at,
         f.last_polled_at,
         f.default_reader_mode,
+        f.next_poll_at,
+        f.poll_interval_minutes,
+        f.poll_schedule_reason,
         ls.last_parse_success_at,
         lf.last_parse_failure_at,
         lf.last_parse_failure_stage,
@@ -1731,7 +2876,7 @@ export class PostgresStore {
   }
 }
 
-function normalizeUrl(url: string): string {
+export function normalizeUrl(url: string): string {
   try {
     const parsed = new URL(url);
     // Strip trailing slash, lowercase host
@@ -0,0 +1,367 @@
+import {
+  type CreateReadLaterConnectionRequest,
+  READ_LATER_PROVIDER_FIELDS,
+  type ReadLaterConnection,
+  type ReadLaterDelivery,
+  type ReadLaterProvider,
+  type UpdateReadLaterConnectionRequest,
+} from "@rss-wrangler/contracts";
+import { decryptCredentials, encryptCredentials } from "./credential-cipher";
+import { validateFeedUrl } from "./url-validator";
+
+const DELIVERY_HISTORY_LIMIT = 100;
+
+const PROVIDER_LABELS: Record<ReadLaterProvider, string> = {
+  wallabag: "Wallabag",
+  readwise: "Readwise Reader",
+  instapaper: "Instapaper",
+  pocket: "Pocket",
+  omnivore: "Omnivore",
+  linkding: "Linkding",
+  shaarli: "Shaarli",
+};
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[],
+  ) => Promise<{ rows: T[]; rowCount?: number | null }>;
+};
+
+export type ReadLaterMutationResult =
+  | ReadLaterConnection
+  | "not_configured"
+  | "not_found"
+  | { invalid: string };
+
+interface ConnectionRow {
+  id: string;
+  provider: ReadLaterProvider;
+  label: string;
+  base_url: string | null;
+  auto_send: boolean;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface DeliveryRow {
+  id: string;
+  connection_id: string;
+  provider: ReadLaterProvider;
+  connection_label: string;
+  cluster_id: string;
+  url: string;
+  title: string | null;
+  status: ReadLaterDelivery["status"];
+  attempt_count: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: Date;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+const CONNECTION_COLUMNS =
+  "id, provider, label, base_url, auto_send, enabled, created_at, updated_at";
+
+const DELIVERY_SELECT = `SELECT d.id, d.connection_id, c.provider, c.label AS connection_label,
+         d.cluster_id, d.url, d.title, d.status, d.attempt_count, d.last_status_code,
+         d.last_error, d.next_attempt_at, d.delivered_at, d.created_at
+  FROM read_later_delivery d
+  JOIN read_later_connection c ON c.id = d.connection_id AND c.tenant_id = d.tenant_id`;
+
+function toConnection(row: ConnectionRow): ReadLaterConnection {
+  return {
+    id: row.id,
+    provider: row.provider,
+    label: row.label,
+    baseUrl: row.base_url,
+    autoSend: row.auto_send,
+    enabled: row.enabled,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+function toDelivery(row: DeliveryRow): ReadLaterDelivery {
+  return {
+    id: row.id,
+    connectionId: row.connection_id,
+    provider: row.provider,
+    connectionLabel: row.connection_label,
+    clusterId: row.cluster_id,
+    url: row.url,
+    title: row.title,
+    status: row.status,
+    attemptCount: row.attempt_count,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at.toISOString(),
+    deliveredAt: row.delivered_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/** Returns an error message when the server URL or credentials don't fit the provider. */
+function checkConnectionFields(
+  provider: ReadLaterProvider,
+  baseUrl: string | null,
+  credentials: Record<string, string>,
+): string | null {
+  const fields = READ_LATER_PROVIDER_FIELDS[provider];
+  if (fields.baseUrl === "required" && !baseUrl) {
+    return `${PROVIDER_LABELS[provider]} needs the URL of your server`;
+  }
+  if (baseUrl && fields.baseUrl !== "none") {
+    const urlError = validateFeedUrl(baseUrl);
+    if (urlError) return urlError;
+  }
+  const missing = fields.credentials.filter((field) => !credentials[field]);
+  if (missing.length > 0) {
+    return `missing ${missing.join(", ")} for ${PROVIDER_LABELS[provider]}`;
+  }
+  return null;
+}
+
+function pickCredentials(provider: ReadLaterProvider, credentials: Record<string, string>) {
+  return Object.fromEntries(
+    READ_LATER_PROVIDER_FIELDS[provider].credentials.map((field) => [
+      field,
+      credentials[field] ?? "",
+    ]),
+  );
+}
+
+/**
+ * Queues the cluster for every enabled auto-send connection of the member.
+ * Called when a story is first saved; the worker delivers the rows.
+ */
+export async function enqueueReadLaterAutoSend(
+  client: Queryable,
+  accountId: string,
+  userId: string,
+  clusterId: string,
+): Promise<number> {
+  const result = await client.query(
+    `INSERT INTO read_later_delivery (tenant_id, user_id, connection_id, cluster_id, url, title)
+     SELECT c.tenant_id, c.user_id, c.id, cl.id, i.url, i.title
+     FROM read_later_connection c
+     JOIN cluster cl ON cl.id = $3 AND cl.tenant_id = c.tenant_id
+     JOIN item i ON i.id = cl.rep_item_id AND i.tenant_id = cl.tenant_id
+     WHERE c.tenant_id = $1
+       AND c.user_id = $2
+       AND c.enabled = TRUE
+       AND c.auto_send = TRUE
+       AND i.url IS NOT NULL
+     ON CONFLICT (connection_id, cluster_id) DO NOTHING`,
+    [accountId, userId, clusterId],
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Per-member read-later connections. `credentialsKey` is
+ * READ_LATER_CREDENTIALS_KEY; without it connections can't be created.
+ */
+export function createReadLaterService(credentialsKey: string | undefined) {
+  async function listConnections(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+  ): Promise<ReadLaterConnection[]> {
+    const { rows } = await client.query<ConnectionRow>(
+      `SELECT ${CONNECTION_COLUMNS}
+       FROM read_later_connection
+       WHERE tenant_id = $1 AND user_id = $2
+       ORDER BY created_at ASC`,
+      [accountId, userId],
+    );
+    return rows.map(toConnection);
+  }
+
+  async function createConnection(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    payload: CreateReadLaterConnectionRequest,
+  ): Promise<ReadLaterMutationResult> {
+    if (!credentialsKey) return "not_configured";
+    const fields = READ_LATER_PROVIDER_FIELDS[payload.provider];
+    const baseUrl = fields.baseUrl === "none" ? null : (payload.baseUrl ?? null);
+    const invalid = checkConnectionFields(payload.provider, baseUrl, payload.credentials);
+    if (invalid) return { invalid };
+
+    const { rows } = await client.query<ConnectionRow>(
+      `INSERT INTO read_later_connection
+         (tenant_id, user_id, provider, label, base_url, credentials_encrypted, auto_send)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${CONNECTION_COLUMNS}`,
+      [
+        accountId,
+        userId,
+        payload.provider,
+        payload.label ?? PROVIDER_LABELS[payload.provider],
+        baseUrl?.replace(/\/+$/, "") ?? null,
+        encryptCredentials(credentialsKey, pickCredentials(payload.provider, payload.credentials)),
+        payload.autoSend ?? false,
+      ],
+    );
+    const row = rows[0];
+    if (!row) {
+      throw new Error("failed to create read-later connection");
+    }
+    return toConnection(row);
+  }
+
+  async function updateConnection(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    connectionId: string,
+    payload: UpdateReadLaterConnectionRequest,
+  ): Promise<ReadLaterMutationResult> {
+    const { rows: existingRows } = await client.query<
+      ConnectionRow & { credentials_encrypted: string }
+    >(
+      `SELECT ${CONNECTION_COLUMNS}, credentials_encrypted
+       FROM read_later_connection
+       WHERE id = $1 AND tenant_id = $2 AND user_id = $3`,
+      [connectionId, accountId, userId],
+    );
+    const existing = existingRows[0];
+    if (!existing) return "not_found";
+
+    let encrypted: string | null = null;
+    const baseUrl =
+      READ_LATER_PROVIDER_FIELDS[existing.provider].baseUrl === "none"
+        ? null
+        : (payload.baseUrl ?? existing.base_url);
+    if (payload.credentials || payload.baseUrl !== undefined) {
+      if (!credentialsKey) return "not_configured";
+      // Fields left out keep their stored values, so a password change
+      // doesn't require re-entering the client id and secret.
+      const stored = decryptCredentials(credentialsKey, existing.credentials_encrypted) ?? {};
+      const credentials = pickCredentials(existing.provider, {
+        ...stored,
+        ...payload.credentials,
+      });
+      const invalid = checkConnectionFields(existing.provider, baseUrl, credentials);
+      if (invalid) return { invalid };
+      encrypted = encryptCredentials(credentialsKey, credentials);
+    }
+
+    const { rows } = await client.query<ConnectionRow>(
+      `UPDATE read_later_connection
+       SET label = COALESCE($4, label),
+           base_url = $5,
+           credentials_encrypted = COALESCE($6, credentials_encrypted),
+           auto_send = COALESCE($7, auto_send),
+           enabled = COALESCE($8, enabled),
+           updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND user_id = $3
+       RETURNING ${CONNECTION_COLUMNS}`,
+      [
+        connectionId,
+        accountId,
+        userId,
+        payload.label ?? null,
+        baseUrl?.replace(/\/+$/, "") ?? null,
+        encrypted,
+        payload.autoSend ?? null,
+        payload.enabled ?? null,
+      ],
+    );
+    const row = rows[0];
+    return row ? toConnection(row) : "not_found";
+  }
+
+  async function deleteConnection(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    connectionId: string,
+  ): Promise<boolean> {
+    const { rows } = await client.query<{ id: string }>(
+      `DELETE FROM read_later_connection
+       WHERE id = $1 AND tenant_id = $2 AND user_id = $3
+       RETURNING id`,
+      [connectionId, accountId, userId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Queues one story for one connection. Sending a story again resets a
+   * finished or failed delivery so it is retried from scratch.
+   */
+  async function sendCluster(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    clusterId: string,
+    connectionId: string,
+  ): Promise<ReadLaterDelivery | "not_found" | "disabled"> {
+    const { rows: connections } = await client.query<{ enabled: boolean }>(
+      "SELECT enabled FROM read_later_connection WHERE id = $1 AND tenant_id = $2 AND user_id = $3",
+      [connectionId, accountId, userId],
+    );
+    const connection = connections[0];
+    if (!connection) return "not_found";
+    if (!connection.enabled) return "disabled";
+
+    const { rows: queued } = await client.query<{ id: string }>(
+      `INSERT INTO read_later_delivery (tenant_id, user_id, connection_id, cluster_id, url, title)
+       SELECT cl.tenant_id, $3, $4, cl.id, i.url, i.title
+       FROM cluster cl
+       JOIN item i ON i.id = cl.rep_item_id AND i.tenant_id = cl.tenant_id
+       WHERE cl.id = $1 AND cl.tenant_id = $2 AND i.url IS NOT NULL
+       ON CONFLICT (connection_id, cluster_id) DO UPDATE
+         SET status = 'pending',
+             attempt_count = 0,
+             next_attempt_at = NOW(),
+             last_status_code = NULL,
+             last_error = NULL,
+             delivered_at = NULL
+       RETURNING id`,
+      [clusterId, accountId, userId, connectionId],
+    );
+    const deliveryId = queued[0]?.id;
+    if (!deliveryId) return "not_found";
+
+    const { rows } = await client.query<DeliveryRow>(
+      `${DELIVERY_SELECT}
+       WHERE d.id = $1 AND d.tenant_id = $2`,
+      [deliveryId, accountId],
+    );
+    const row = rows[0];
+    return row ? toDelivery(row) : "not_found";
+  }
+
+  async function listDeliveries(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    clusterId?: string,
+  ): Promise<ReadLaterDelivery[]> {
+    const { rows } = await client.query<DeliveryRow>(
+      `${DELIVERY_SELECT}
+       WHERE d.tenant_id = $1
+         AND d.user_id = $2
+         AND ($3::uuid IS NULL OR d.cluster_id = $3)
+       ORDER BY d.created_at DESC
+       LIMIT ${DELIVERY_HISTORY_LIMIT}`,
+      [accountId, userId, clusterId ?? null],
+    );
+    return rows.map(toDelivery);
+  }
+
+  return {
+    listConnections,
+    createConnection,
+    updateConnection,
+    deleteConnection,
+    sendCluster,
+    listDeliveries,
+  };
+}
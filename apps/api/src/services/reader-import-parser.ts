@@ -0,0 +1,451 @@
+import type { ReaderImportEntryError, ReaderImportSource } from "@rss-wrangler/contracts";
+import { decodeXmlEntities, extractAttr, parseOpml } from "./opml-parser";
+
+export interface ImportedSubscription {
+  feedUrl: string;
+  title: string;
+  siteUrl: string | null;
+  /** Folder / category / tag names; matched to folders, otherwise topics. */
+  labels: string[];
+}
+
+export interface ImportedAnnotation {
+  text: string;
+  note: string | null;
+}
+
+export interface ImportedArticle {
+  url: string;
+  title: string;
+  guid: string | null;
+  /** Feed the article came from, when the export records it. */
+  feedUrl: string | null;
+  publishedAt: string | null;
+  savedAt: string | null;
+  author: string | null;
+  summary: string | null;
+  /** Boards, tags and folders; matched to folders, otherwise topics. */
+  labels: string[];
+  annotations: ImportedAnnotation[];
+  read: boolean;
+}
+
+export interface ParsedReaderImport {
+  subscriptions: ImportedSubscription[];
+  articles: ImportedArticle[];
+  errors: ReaderImportEntryError[];
+}
+
+/** Keeps one upload from tying up the API for hours. */
+export const MAX_IMPORT_ENTRIES = 20_000;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const str = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+function httpUrl(value: unknown): string | null {
+  const candidate = str(value);
+  if (!candidate) return null;
+  try {
+    const parsed = new URL(candidate);
+    return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Accepts epoch seconds, epoch milliseconds or anything `Date` parses. */
+function timestamp(value: unknown, unit: "s" | "ms" = "s"): string | null {
+  let date: Date | null = null;
+  if (typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value.trim()))) {
+    const n = Number(value);
+    date = new Date(unit === "ms" ? n : n * 1000);
+  } else if (typeof value === "string" && value.trim() !== "") {
+    // NewsBlur writes "2024-01-31 08:15:00" in UTC.
+    const text = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value.trim())
+      ? `${value.trim().replace(" ", "T")}Z`
+      : value;
+    date = new Date(text);
+  }
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+function textContent(html: string | null): string | null {
+  if (!html) return null;
+  const text = decodeXmlEntities(html.replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+  return text === "" ? null : text;
+}
+
+function uniqueLabels(labels: Array<string | null>): string[] {
+  const seen = new Map<string, string>();
+  for (const label of labels) {
+    if (label && !seen.has(label.toLowerCase())) seen.set(label.toLowerCase(), label);
+  }
+  return [...seen.values()];
+}
+
+// ---------- Feedly ----------
+
+/**
+ * Feedly saved-for-later and board exports: an array of entries, or an
+ * object with `items`. Boards are user tags (`user/<id>/tag/<board>`); the
+ * built-in `global.*` tags are ignored.
+ */
+function feedlyArticle(entry: JsonObject): ImportedArticle | null {
+  const url =
+    httpUrl(entry.canonicalUrl) ??
+    httpUrl(list(entry.canonical).find(isObject)?.href) ??
+    httpUrl(list(entry.alternate).find(isObject)?.href) ??
+    httpUrl(entry.originId);
+  if (!url) return null;
+  const origin = isObject(entry.origin) ? entry.origin : {};
+  const streamId = str(origin.streamId);
+  const boards = list(entry.tags)
+    .filter(isObject)
+    .filter((tag) => !String(tag.id ?? "").includes("/tag/global."))
+    .map((tag) => str(tag.label));
+  const categories = list(entry.categories)
+    .filter(isObject)
+    .map((category) => str(category.label));
+  const content = isObject(entry.content) ? str(entry.content.content) : null;
+  const summary = isObject(entry.summary) ? str(entry.summary.content) : null;
+  return {
+    url,
+    title: str(entry.title) ?? url,
+    guid: str(entry.originId),
+    feedUrl: streamId?.startsWith("feed/") ? httpUrl(streamId.slice(5)) : null,
+    publishedAt: timestamp(entry.published, "ms"),
+    savedAt: timestamp(entry.actionTimestamp, "ms"),
+    author: str(entry.author),
+    summary: textContent(summary ?? content),
+    labels: uniqueLabels([...boards, ...categories]),
+    annotations: [],
+    read: entry.unread === false,
+  };
+}
+
+// ---------- Inoreader ----------
+
+/**
+ * Inoreader JSON uses the Google Reader shapes: `items` for starred or tagged
+ * articles (labels and read state are `categories` stream ids) and
+ * `subscriptions` for the feed list.
+ */
+function inoreaderArticle(entry: JsonObject): ImportedArticle | null {
+  const url =
+    httpUrl(list(entry.canonical).find(isObject)?.href) ??
+    httpUrl(list(entry.alternate).find(isObject)?.href);
+  if (!url) return null;
+  const origin = isObject(entry.origin) ? entry.origin : {};
+  const streamId = str(origin.streamId);
+  const categories = list(entry.categories).map(str);
+  const summary = isObject(entry.summary) ? str(entry.summary.content) : null;
+  return {
+    url,
+    title: str(entry.title) ?? url,
+    guid: null,
+    feedUrl: streamId?.startsWith("feed/") ? httpUrl(streamId.slice(5)) : null,
+    publishedAt: timestamp(entry.published),
+    savedAt: null,
+    author: str(entry.author),
+    summary: textContent(summary),
+    labels: uniqueLabels(
+      categories.map((category) => /\/label\/(.+)$/.exec(category ?? "")?.[1] ?? null),
+    ),
+    annotations: list(entry.annotations)
+      .filter(isObject)
+      .flatMap((annotation) => {
+        const text = str(annotation.text);
+        return text ? [{ text, note: str(annotation.note) }] : [];
+      }),
+    read: categories.some((category) => category?.endsWith("/state/com.google/read")),
+  };
+}
+
+function inoreaderSubscription(entry: JsonObject): ImportedSubscription | null {
+  const id = str(entry.id);
+  const feedUrl = httpUrl(entry.url) ?? (id?.startsWith("feed/") ? httpUrl(id.slice(5)) : null);
+  if (!feedUrl) return null;
+  return {
+    feedUrl,
+    title: str(entry.title) ?? feedUrl,
+    siteUrl: httpUrl(entry.htmlUrl),
+    labels: uniqueLabels(
+      list(entry.categories)
+        .filter(isObject)
+        .map((category) => str(category.label)),
+    ),
+  };
+}
+
+// ---------- NewsBlur ----------
+
+/**
+ * NewsBlur starred-stories export: `stories` plus an optional `feeds` map
+ * keyed by feed id, which is how a story's source feed is recovered.
+ */
+function newsblurArticle(entry: JsonObject, feeds: JsonObject): ImportedArticle | null {
+  const url = httpUrl(entry.story_permalink);
+  if (!url) return null;
+  const feed = feeds[String(entry.story_feed_id ?? "")];
+  const title = str(entry.story_title) ?? url;
+  const note = str(entry.user_notes);
+  return {
+    url,
+    title,
+    guid: str(entry.id) ?? str(entry.story_guid),
+    feedUrl: isObject(feed) ? httpUrl(feed.feed_address) : null,
+    publishedAt: timestamp(entry.story_date),
+    savedAt: timestamp(entry.starred_date),
+    author: str(entry.story_authors),
+    summary: textContent(str(entry.story_content)),
+    labels: uniqueLabels(list(entry.user_tags).map(str)),
+    annotations: [
+      ...list(entry.highlights).flatMap((highlight) => {
+        const text = str(highlight);
+        return text ? [{ text, note: null }] : [];
+      }),
+      ...(note ? [{ text: title, note }] : []),
+    ],
+    read: entry.read_status === 1 || entry.read_status === true,
+  };
+}
+
+// ---------- Pocket / Instapaper ----------
+
+const UNREAD_SECTIONS = new Set(["unread", "unread items", "home"]);
+const READ_SECTIONS = new Set(["read archive", "archive", "archived", "read"]);
+const BUILT_IN_SECTIONS = new Set([...UNREAD_SECTIONS, ...READ_SECTIONS, "starred", "liked"]);
+
+/**
+ * Pocket and Instapaper HTML exports: `<h1>` headings split the list into
+ * Unread / Read Archive (Pocket) or Unread / Archive / Starred / folders
+ * (Instapaper), and each link carries its URL and, for Pocket, `time_added`
+ * and comma-separated `tags`.
+ */
+function parseSavedLinksHtml(html: string): ImportedArticle[] {
+  const articles: ImportedArticle[] = [];
+  const tokenRegex = /<h1[^>]*>([\s\S]*?)<\/h1>|<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+  let section = "";
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(html)) !== null) {
+    if (match[1] !== undefined) {
+      section = textContent(match[1]) ?? "";
+      continue;
+    }
+    const attrs = match[2] ?? "";
+    const url = httpUrl(extractAttr(attrs, "href"));
+    if (!url) continue;
+    const sectionKey = section.toLowerCase();
+    const tags = (extractAttr(attrs, "tags") ?? "").split(",").map((tag) => str(tag));
+    articles.push({
+      url,
+      title: textContent(match[3] ?? "") ?? url,
+      guid: null,
+      feedUrl: null,
+      publishedAt: null,
+      savedAt: timestamp(extractAttr(attrs, "time_added")),
+      author: null,
+      summary: null,
+      labels: uniqueLabels([...tags, BUILT_IN_SECTIONS.has(sectionKey) ? null : section]),
+      annotations: [],
+      read: READ_SECTIONS.has(sectionKey),
+    });
+  }
+  return articles;
+}
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Pocket CSV (`title,url,time_added,tags,status`, tags separated by `|`) and
+ * Instapaper CSV (`URL,Title,Selection,Folder,Timestamp`). The selection
+ * Instapaper saved with a link becomes a highlight.
+ */
+function parseSavedLinksCsv(text: string, errors: ReaderImportEntryError[]): ImportedArticle[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const columns = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+  const cell = (row: string[], name: string) => {
+    const index = columns.get(name);
+    return index === undefined ? null : str(row[index]);
+  };
+  if (!columns.has("url")) {
+    errors.push({ entry: "header", message: "CSV has no url column" });
+    return [];
+  }
+
+  const articles: ImportedArticle[] = [];
+  for (const [index, row] of rows.entries()) {
+    const rawUrl = cell(row, "url");
+    const url = httpUrl(rawUrl);
+    if (!url) {
+      errors.push({ entry: `row ${index + 2}`, message: `invalid URL: ${rawUrl ?? "(empty)"}` });
+      continue;
+    }
+    const folder = cell(row, "folder");
+    const folderKey = folder?.toLowerCase() ?? "";
+    const selection = cell(row, "selection");
+    articles.push({
+      url,
+      title: cell(row, "title") ?? url,
+      guid: null,
+      feedUrl: null,
+      publishedAt: null,
+      savedAt: timestamp(cell(row, "time_added") ?? cell(row, "timestamp")),
+      author: null,
+      summary: null,
+      labels: uniqueLabels([
+        ...(cell(row, "tags") ?? "").split("|").map((tag) => str(tag)),
+        BUILT_IN_SECTIONS.has(folderKey) ? null : folder,
+      ]),
+      annotations: selection ? [{ text: selection, note: null }] : [],
+      read: cell(row, "status") === "archive" || READ_SECTIONS.has(folderKey),
+    });
+  }
+  return articles;
+}
+
+// ---------- Entry point ----------
+
+function parseJson(source: ReaderImportSource, json: unknown, result: ParsedReaderImport): void {
+  const root = isObject(json) ? json : { items: json };
+  const items = list(root.items ?? root.stories).filter(isObject);
+  const describe = (entry: JsonObject) =>
+    str(entry.title) ?? str(entry.story_title) ?? str(entry.id) ?? "untitled entry";
+
+  if (source === "inoreader" && Array.isArray(root.subscriptions)) {
+    for (const entry of root.subscriptions.filter(isObject)) {
+      const subscription = inoreaderSubscription(entry);
+      if (subscription) {
+        result.subscriptions.push(subscription);
+      } else {
+        result.errors.push({ entry: describe(entry), message: "subscription has no feed URL" });
+      }
+    }
+  }
+
+  const feeds = isObject(root.feeds) ? root.feeds : {};
+  for (const entry of items) {
+    const article =
+      source === "feedly"
+        ? feedlyArticle(entry)
+        : source === "inoreader"
+          ? inoreaderArticle(entry)
+          : newsblurArticle(entry, feeds);
+    if (article) {
+      result.articles.push(article);
+    } else {
+      result.errors.push({ entry: describe(entry), message: "article has no link" });
+    }
+  }
+}
+
+/**
+ * Parses an export from another reader into subscriptions and saved
+ * articles. OPML is accepted for every feed reader; Feedly, Inoreader and
+ * NewsBlur also export JSON, Pocket and Instapaper export HTML or CSV.
+ * Unusable entries land in `errors` instead of failing the whole file;
+ * a file nothing can be read from returns `{ invalid }`.
+ */
+export function parseReaderImport(
+  source: ReaderImportSource,
+  content: string,
+): ParsedReaderImport | { invalid: string } {
+  const result: ParsedReaderImport = { subscriptions: [], articles: [], errors: [] };
+  const text = content.trim();
+  const savedLinks = source === "pocket" || source === "instapaper";
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    if (savedLinks) return { invalid: `${source} exports are HTML or CSV, not JSON` };
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return { invalid: "file is not valid JSON" };
+    }
+    parseJson(source, json, result);
+  } else if (/<opml[\s>]/i.test(text)) {
+    result.subscriptions = parseOpml(text).flatMap((feed) => {
+      const feedUrl = httpUrl(feed.xmlUrl);
+      if (!feedUrl) {
+        result.errors.push({ entry: feed.title, message: `invalid feed URL: ${feed.xmlUrl}` });
+        return [];
+      }
+      return [
+        {
+          feedUrl,
+          title: feed.title,
+          siteUrl: httpUrl(feed.htmlUrl),
+          labels: uniqueLabels([feed.category]),
+        },
+      ];
+    });
+  } else if (savedLinks && text.startsWith("<")) {
+    result.articles = parseSavedLinksHtml(text);
+  } else if (savedLinks) {
+    result.articles = parseSavedLinksCsv(text, result.errors);
+  } else {
+    return { invalid: `${source} imports must be OPML or JSON` };
+  }
+
+  const total = result.subscriptions.length + result.articles.length;
+  if (total === 0) {
+    return { invalid: "no feeds or articles found in the file" };
+  }
+  if (total > MAX_IMPORT_ENTRIES) {
+    const keepArticles = Math.max(MAX_IMPORT_ENTRIES - result.subscriptions.length, 0);
+    result.subscriptions = result.subscriptions.slice(0, MAX_IMPORT_ENTRIES);
+    result.articles = result.articles.slice(0, keepArticles);
+    result.errors.push({
+      entry: "file",
+      message: `only the first ${MAX_IMPORT_ENTRIES} of ${total} entries are imported`,
+    });
+  }
+  return result;
+}
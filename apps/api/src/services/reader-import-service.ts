@@ -0,0 +1,506 @@
+import {
+  canonicalizeUrl,
+  type ReaderImportCounts,
+  type ReaderImportEntryError,
+  type ReaderImportJob,
+  type ReaderImportRequest,
+  type ReaderImportSource,
+} from "@rss-wrangler/contracts";
+import type { FastifyBaseLogger } from "fastify";
+import type { Pool, PoolClient } from "pg";
+import { normalizeUrl } from "./postgres-store";
+import {
+  type ImportedArticle,
+  type ImportedSubscription,
+  type ParsedReaderImport,
+  parseReaderImport,
+} from "./reader-import-parser";
+import { findOrBackfillStory } from "./story-backfill";
+import { validateFeedUrl } from "./url-validator";
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[],
+  ) => Promise<{ rows: T[]; rowCount?: number | null }>;
+};
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+const OTHER_FOLDER_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+const MAX_REPORTED_ERRORS = 500;
+const PROGRESS_EVERY = 25;
+const RECENT_JOBS = 10;
+
+/**
+ * Articles whose source feed is not among the member's subscriptions (and
+ * everything from Pocket and Instapaper) are kept in one muted holding feed
+ * per service. Muted feeds are never polled.
+ */
+const HOLDING_FEED_TITLES: Record<ReaderImportSource, string> = {
+  feedly: "Saved from Feedly",
+  inoreader: "Saved from Inoreader",
+  newsblur: "Saved from NewsBlur",
+  pocket: "Saved from Pocket",
+  instapaper: "Saved from Instapaper",
+};
+
+const JOB_COLUMNS = `id, source, filename, status, total_entries, processed_entries, counts, errors,
+  truncated_errors, error_message, created_at, completed_at`;
+
+interface ReaderImportJobRow {
+  id: string;
+  source: ReaderImportSource;
+  filename: string | null;
+  status: ReaderImportJob["status"];
+  total_entries: number;
+  processed_entries: number;
+  counts: Partial<ReaderImportCounts>;
+  errors: ReaderImportEntryError[];
+  truncated_errors: number;
+  error_message: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+function emptyCounts(): ReaderImportCounts {
+  return {
+    feedsAdded: 0,
+    feedsExisting: 0,
+    articlesSaved: 0,
+    articlesBackfilled: 0,
+    annotationsAdded: 0,
+    topicsAdded: 0,
+    failed: 0,
+  };
+}
+
+function toJob(row: ReaderImportJobRow): ReaderImportJob {
+  return {
+    id: row.id,
+    source: row.source,
+    filename: row.filename,
+    status: row.status,
+    totalEntries: row.total_entries,
+    processedEntries: row.processed_entries,
+    counts: { ...emptyCounts(), ...row.counts },
+    errors: row.errors,
+    truncatedErrors: row.truncated_errors,
+    errorMessage: row.error_message,
+    createdAt: row.created_at.toISOString(),
+    completedAt: row.completed_at?.toISOString() ?? null,
+  };
+}
+
+export function createReaderImportService(pool: Pool, logger: FastifyBaseLogger) {
+  async function withAccountClient<T>(
+    accountId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  async function listJobs(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+  ): Promise<ReaderImportJob[]> {
+    const { rows } = await client.query<ReaderImportJobRow>(
+      `SELECT ${JOB_COLUMNS}
+       FROM reader_import_job
+       WHERE tenant_id = $1
+         AND user_id = $2
+       ORDER BY created_at DESC
+       LIMIT ${RECENT_JOBS}`,
+      [accountId, userId],
+    );
+    return rows.map(toJob);
+  }
+
+  async function getJob(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    jobId: string,
+  ): Promise<ReaderImportJob | null> {
+    const { rows } = await client.query<ReaderImportJobRow>(
+      `SELECT ${JOB_COLUMNS}
+       FROM reader_import_job
+       WHERE id = $1
+         AND tenant_id = $2
+         AND user_id = $3`,
+      [jobId, accountId, userId],
+    );
+    return rows[0] ? toJob(rows[0]) : null;
+  }
+
+  /**
+   * Parses the upload and records a job, then works through it in the
+   * background. Entries the parser could not use are already in the job's
+   * error report. One import runs per member at a time.
+   */
+  async function startImport(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    request: ReaderImportRequest,
+    feedSlots: number | null,
+  ): Promise<ReaderImportJob | { invalid: string } | "already_running"> {
+    const parsed = parseReaderImport(request.source, request.content);
+    if ("invalid" in parsed) return parsed;
+
+    const active = await client.query<{ id: string }>(
+      `SELECT id
+       FROM reader_import_job
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND status IN ('pending', 'processing')
+       LIMIT 1`,
+      [accountId, userId],
+    );
+    if (active.rows[0]) return "already_running";
+
+    const counts = { ...emptyCounts(), failed: parsed.errors.length };
+    const { rows } = await client.query<ReaderImportJobRow>(
+      `INSERT INTO reader_import_job (tenant_id, user_id, source, filename, total_entries, counts, errors, truncated_errors)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${JOB_COLUMNS}`,
+      [
+        accountId,
+        userId,
+        request.source,
+        request.filename ?? null,
+        parsed.subscriptions.length + parsed.articles.length,
+        JSON.stringify(counts),
+        JSON.stringify(parsed.errors.slice(0, MAX_REPORTED_ERRORS)),
+        Math.max(parsed.errors.length - MAX_REPORTED_ERRORS, 0),
+      ],
+    );
+    const row = rows[0];
+    if (!row) throw new Error("failed to create import job");
+
+    void processJob(accountId, userId, row.id, request.source, parsed, feedSlots);
+    return toJob(row);
+  }
+
+  async function processJob(
+    accountId: string,
+    userId: string,
+    jobId: string,
+    source: ReaderImportSource,
+    parsed: ParsedReaderImport,
+    feedSlots: number | null,
+  ): Promise<void> {
+    try {
+      await withAccountClient(accountId, async (client) => {
+        const claimed = await client.query<{ id: string }>(
+          `UPDATE reader_import_job
+           SET status = 'processing', started_at = NOW()
+           WHERE id = $1
+             AND tenant_id = $2
+             AND status = 'pending'
+           RETURNING id`,
+          [jobId, accountId],
+        );
+        if (!claimed.rows[0]) return;
+
+        const run = await replay(client, accountId, userId, source, parsed, feedSlots, (progress) =>
+          client.query(
+            `UPDATE reader_import_job
+             SET processed_entries = $3, counts = $4, errors = $5, truncated_errors = $6
+             WHERE id = $1
+               AND tenant_id = $2`,
+            [
+              jobId,
+              accountId,
+              progress.processed,
+              JSON.stringify(progress.counts),
+              JSON.stringify(progress.errors),
+              progress.truncatedErrors,
+            ],
+          ),
+        );
+
+        await client.query(
+          `UPDATE reader_import_job
+           SET status = 'completed', completed_at = NOW(), processed_entries = $3, counts = $4,
+               errors = $5, truncated_errors = $6
+           WHERE id = $1
+             AND tenant_id = $2`,
+          [
+            jobId,
+            accountId,
+            run.processed,
+            JSON.stringify(run.counts),
+            JSON.stringify(run.errors),
+            run.truncatedErrors,
+          ],
+        );
+        logger.info(
+          { accountId, userId, jobId, source, counts: run.counts },
+          "reader import completed",
+        );
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      await withAccountClient(accountId, async (client) => {
+        await client.query(
+          `UPDATE reader_import_job
+           SET status = 'failed', completed_at = NOW(), error_message = $3
+           WHERE id = $1
+             AND tenant_id = $2`,
+          [jobId, accountId, message.slice(0, 500)],
+        );
+      }).catch(() => undefined);
+      logger.error({ err: error, accountId, userId, jobId }, "reader import failed");
+    }
+  }
+
+  /**
+   * Applies parsed entries one transaction each, so a bad entry is reported
+   * without undoing the rest. Labels map to a folder when one has that name
+   * and to a topic (created if needed) otherwise.
+   */
+  async function replay(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    source: ReaderImportSource,
+    parsed: ParsedReaderImport,
+    feedSlots: number | null,
+    onProgress: (progress: {
+      processed: number;
+      counts: ReaderImportCounts;
+      errors: ReaderImportEntryError[];
+      truncatedErrors: number;
+    }) => Promise<unknown>,
+  ) {
+    const counts = { ...emptyCounts(), failed: parsed.errors.length };
+    const errors = parsed.errors.slice(0, MAX_REPORTED_ERRORS);
+    let truncatedErrors = Math.max(parsed.errors.length - MAX_REPORTED_ERRORS, 0);
+    let processed = 0;
+    let slots = feedSlots;
+
+    const folderRows = await client.query<{ id: string; name: string }>(
+      "SELECT id, name FROM folder",
+    );
+    const folders = new Map(folderRows.rows.map((row) => [row.name.toLowerCase(), row.id]));
+    const otherFolderId = folders.get("other") ?? OTHER_FOLDER_ID;
+    const topicRows = await client.query<{ id: string; name: string }>(
+      "SELECT id, name FROM topic WHERE tenant_id = $1",
+      [accountId],
+    );
+    const topics = new Map(topicRows.rows.map((row) => [row.name.toLowerCase(), row.id]));
+    const feedRows = await client.query<{ id: string; url_normalized: string; folder_id: string }>(
+      "SELECT id, url_normalized, folder_id FROM feed WHERE tenant_id = $1",
+      [accountId],
+    );
+    const feeds = new Map(
+      feedRows.rows.map((row) => [row.url_normalized, { id: row.id, folderId: row.folder_id }]),
+    );
+
+    async function resolveLabels(labels: string[]) {
+      const folderId = labels.map((label) => folders.get(label.toLowerCase())).find(Boolean);
+      const topicName = labels.find((label) => !folders.has(label.toLowerCase()))?.slice(0, 100);
+      if (!topicName) return { folderId: folderId ?? null, topicId: null };
+
+      let topicId = topics.get(topicName.toLowerCase());
+      if (!topicId) {
+        const inserted = await client.query<{ id: string }>(
+          `INSERT INTO topic (tenant_id, name) VALUES ($1, $2)
+           ON CONFLICT (tenant_id, name) DO UPDATE SET name = EXCLUDED.name
+           RETURNING id`,
+          [accountId, topicName],
+        );
+        topicId = inserted.rows[0]?.id;
+        if (!topicId) throw new Error("failed to create topic");
+        topics.set(topicName.toLowerCase(), topicId);
+        counts.topicsAdded++;
+      }
+      return { folderId: folderId ?? null, topicId };
+    }
+
+    async function linkTopic(feedId: string, topicId: string | null) {
+      if (!topicId) return;
+      await client.query(
+        `INSERT INTO feed_topic (tenant_id, feed_id, topic_id, status, confidence, resolved_at)
+         VALUES ($1, $2, $3, 'approved', 1, NOW())
+         ON CONFLICT (feed_id, topic_id) DO NOTHING`,
+        [accountId, feedId, topicId],
+      );
+    }
+
+    async function importSubscription(subscription: ImportedSubscription) {
+      const { folderId, topicId } = await resolveLabels(subscription.labels);
+      const urlNormalized = normalizeUrl(subscription.feedUrl);
+      const existing = feeds.get(urlNormalized);
+      if (existing) {
+        await linkTopic(existing.id, topicId);
+        counts.feedsExisting++;
+        return;
+      }
+      const urlError = validateFeedUrl(subscription.feedUrl);
+      if (urlError) throw new Error(urlError);
+      if (slots !== null && slots <= 0) throw new Error("feed limit of your plan reached");
+
+      const { rows } = await client.query<{ id: string }>(
+        `INSERT INTO feed (tenant_id, url, url_normalized, title, site_url, folder_id, folder_confidence, weight, muted, trial, default_reader_mode)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'neutral', false, false, NULL)
+         RETURNING id`,
+        [
+          accountId,
+          subscription.feedUrl,
+          urlNormalized,
+          subscription.title,
+          subscription.siteUrl,
+          folderId ?? otherFolderId,
+          folderId ? 1 : 0.5,
+        ],
+      );
+      const feedId = rows[0]?.id;
+      if (!feedId) throw new Error("failed to create feed");
+      feeds.set(urlNormalized, { id: feedId, folderId: folderId ?? otherFolderId });
+      await linkTopic(feedId, topicId);
+      if (slots !== null) slots--;
+      counts.feedsAdded++;
+    }
+
+    async function holdingFeed() {
+      const url = `urn:rss-wrangler:import:${source}`;
+      const urlNormalized = normalizeUrl(url);
+      const existing = feeds.get(urlNormalized);
+      if (existing) return existing;
+      const { rows } = await client.query<{ id: string }>(
+        `INSERT INTO feed (tenant_id, url, url_normalized, title, folder_id, folder_confidence, weight, muted, trial, default_reader_mode)
+         VALUES ($1, $2, $3, $4, $5, 1, 'neutral', true, false, NULL)
+         ON CONFLICT (tenant_id, url_normalized) DO UPDATE SET title = feed.title
+         RETURNING id`,
+        [accountId, url, urlNormalized, HOLDING_FEED_TITLES[source], otherFolderId],
+      );
+      const feedId = rows[0]?.id;
+      if (!feedId) throw new Error("failed to create holding feed");
+      const feed = { id: feedId, folderId: otherFolderId };
+      feeds.set(urlNormalized, feed);
+      return feed;
+    }
+
+    async function importArticle(article: ImportedArticle) {
+      const { folderId, topicId } = await resolveLabels(article.labels);
+      const feed =
+        (article.feedUrl ? feeds.get(normalizeUrl(article.feedUrl)) : undefined) ??
+        (await holdingFeed());
+      const savedAt = article.savedAt ?? new Date().toISOString();
+      const { clusterId, created } = await findOrBackfillStory(client, accountId, {
+        feedId: feed.id,
+        folderId: folderId ?? feed.folderId,
+        topicId,
+        guid: article.guid,
+        url: article.url,
+        canonicalUrl: canonicalizeUrl(article.url),
+        title: article.title.slice(0, 1000),
+        summary: article.summary,
+        author: article.author,
+        publishedAt: article.publishedAt ?? savedAt,
+        heroImageUrl: null,
+      });
+
+      await client.query(
+        `INSERT INTO read_state (tenant_id, user_id, cluster_id, saved_at, read_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE
+         SET saved_at = COALESCE(read_state.saved_at, EXCLUDED.saved_at),
+             read_at = COALESCE(read_state.read_at, EXCLUDED.read_at)`,
+        [accountId, userId, clusterId, savedAt, article.read ? savedAt : null],
+      );
+
+      for (const annotation of article.annotations) {
+        const { rowCount } = await client.query(
+          `INSERT INTO annotation (tenant_id, cluster_id, highlighted_text, note, color)
+           SELECT $1, $2, $3, $4, 'yellow'
+           WHERE NOT EXISTS (
+             SELECT 1
+             FROM annotation
+             WHERE tenant_id = $1
+               AND cluster_id = $2
+               AND highlighted_text = $3
+           )`,
+          [accountId, clusterId, annotation.text, annotation.note],
+        );
+        counts.annotationsAdded += rowCount ?? 0;
+      }
+
+      counts.articlesSaved++;
+      if (created) counts.articlesBackfilled++;
+    }
+
+    const entries: Array<{ label: string; apply: () => Promise<void> }> = [
+      ...parsed.subscriptions.map((subscription) => ({
+        label: subscription.title,
+        apply: () => importSubscription(subscription),
+      })),
+      ...parsed.articles.map((article) => ({
+        label: article.title,
+        apply: () => importArticle(article),
+      })),
+    ];
+
+    for (const entry of entries) {
+      const before = { counts: { ...counts }, slots };
+      await client.query("BEGIN");
+      try {
+        await entry.apply();
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        // The rolled back entry may have created a topic or feed the caches
+        // now point at; forget its effects before moving on.
+        Object.assign(counts, before.counts);
+        slots = before.slots;
+        await reloadCaches();
+        counts.failed++;
+        const message = error instanceof Error ? error.message : "unknown error";
+        if (errors.length < MAX_REPORTED_ERRORS) {
+          errors.push({ entry: entry.label, message });
+        } else {
+          truncatedErrors++;
+        }
+      }
+      processed++;
+      if (processed % PROGRESS_EVERY === 0) {
+        await onProgress({ processed, counts, errors, truncatedErrors });
+      }
+    }
+
+    async function reloadCaches() {
+      const topicRows = await client.query<{ id: string; name: string }>(
+        "SELECT id, name FROM topic WHERE tenant_id = $1",
+        [accountId],
+      );
+      topics.clear();
+      for (const row of topicRows.rows) topics.set(row.name.toLowerCase(), row.id);
+      const feedRows = await client.query<{
+        id: string;
+        url_normalized: string;
+        folder_id: string;
+      }>("SELECT id, url_normalized, folder_id FROM feed WHERE tenant_id = $1", [accountId]);
+      feeds.clear();
+      for (const row of feedRows.rows) {
+        feeds.set(row.url_normalized, { id: row.id, folderId: row.folder_id });
+      }
+    }
+
+    return { processed, counts, errors, truncatedErrors };
+  }
+
+  return { listJobs, getJob, startImport };
+}
@@ -0,0 +1,64 @@
+import type { SearchMode } from "@rss-wrangler/contracts";
+import { cosineSimilarity } from "@rss-wrangler/contracts";
+
+/** Minimum cosine similarity for a cluster to match a free-text query. */
+export const SEMANTIC_SEARCH_MIN_SIMILARITY = 0.3;
+/** Minimum cosine similarity for an older cluster to count as related coverage. */
+export const RELATED_CLUSTER_MIN_SIMILARITY = 0.75;
+/** Most recent embeddings scanned per request; vectors are compared in process. */
+export const SEMANTIC_CANDIDATE_LIMIT = 2000;
+
+const SEARCH_MODE_RANK: Record<SearchMode, number> = {
+  title_source: 0,
+  full_text: 1,
+  semantic: 2,
+};
+
+/**
+ * Picks the search mode for a request. The plan's mode is the most capable
+ * one allowed; semantic search is opt-in, so plans that include it still
+ * default to full text. Returns null when the requested mode is not allowed.
+ */
+export function resolveSearchMode(
+  requested: SearchMode | undefined,
+  entitled: SearchMode,
+): SearchMode | null {
+  if (!requested) {
+    return entitled === "semantic" ? "full_text" : entitled;
+  }
+  return SEARCH_MODE_RANK[requested] <= SEARCH_MODE_RANK[entitled] ? requested : null;
+}
+
+export interface EmbeddedClusterRow {
+  cluster_id: string;
+  embedding: number[];
+}
+
+export interface ClusterSimilarity {
+  clusterId: string;
+  similarity: number;
+}
+
+/**
+ * Scores clusters by their best-matching member embedding and returns those
+ * at or above `minSimilarity`, most similar first.
+ */
+export function rankClustersBySimilarity(
+  target: number[],
+  rows: EmbeddedClusterRow[],
+  minSimilarity: number,
+): ClusterSimilarity[] {
+  const best = new Map<string, number>();
+  for (const row of rows) {
+    const similarity = cosineSimilarity(target, row.embedding);
+    if (similarity === null || similarity < minSimilarity) continue;
+    const current = best.get(row.cluster_id);
+    if (current === undefined || similarity > current) {
+      best.set(row.cluster_id, similarity);
+    }
+  }
+
+  return [...best.entries()]
+    .map(([clusterId, similarity]) => ({ clusterId, similarity }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,140 @@
+import { isDeepStrictEqual } from "node:util";
+import type {
+  MemberSettingKey,
+  SettingSource,
+  Settings,
+  SettingsView,
+  UpdateSettingsRequest,
+} from "@rss-wrangler/contracts";
+import { memberSettingKeySchema, settingsSchema } from "@rss-wrangler/contracts";
+import { z } from "zod";
+
+/**
+ * Raw settings layers for one member: built-in defaults, the workspace blob
+ * the owner controls (`app_settings` key `main`, which also carries
+ * `lockedKeys`), and the member's own overrides.
+ */
+export interface SettingsLayers {
+  defaults: Settings;
+  workspace: Record<string, unknown>;
+  member: Record<string, unknown>;
+  isOwner: boolean;
+}
+
+/** Keys the caller asked to change, split by the layer they are written to. */
+export interface SettingsUpdatePlan {
+  workspace: Partial<Settings>;
+  member: Partial<Settings>;
+  locked: string[];
+}
+
+const SETTING_KEYS = Object.keys(settingsSchema.shape) as (keyof Settings)[];
+const MEMBER_KEYS = new Set<string>(memberSettingKeySchema.options);
+const lockedKeysSchema = z.array(memberSettingKeySchema);
+
+/**
+ * Reads one stored value, ignoring anything that no longer validates so a
+ * stale override falls through to the layer below instead of failing reads.
+ */
+function storedValue(
+  layer: Record<string, unknown>,
+  key: keyof Settings,
+): { ok: true; value: unknown } | { ok: false } {
+  if (!Object.hasOwn(layer, key)) return { ok: false };
+  const parsed = settingsSchema.shape[key].safeParse(layer[key]);
+  return parsed.success ? { ok: true, value: parsed.data } : { ok: false };
+}
+
+export function lockedKeysOf(workspace: Record<string, unknown>): MemberSettingKey[] {
+  const parsed = lockedKeysSchema.safeParse(workspace.lockedKeys);
+  return parsed.success ? [...new Set(parsed.data)] : [];
+}
+
+/** Workspace values over defaults, without any member overrides. */
+export function workspaceSettings(
+  defaults: Settings,
+  workspace: Record<string, unknown>,
+): Settings {
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const key of SETTING_KEYS) {
+    const stored = storedValue(workspace, key);
+    if (stored.ok) merged[key] = stored.value;
+  }
+  return settingsSchema.parse(merged);
+}
+
+/**
+ * Layers defaults, workspace values and member overrides. Policy keys always
+ * come from the workspace; personal keys come from the member unless the
+ * owner locked them.
+ */
+export function layerSettings(layers: SettingsLayers): SettingsView {
+  const lockedKeys = lockedKeysOf(layers.workspace);
+  const merged: Record<string, unknown> = { ...layers.defaults };
+  const sources: Record<string, SettingSource> = {};
+
+  for (const key of SETTING_KEYS) {
+    sources[key] = "default";
+    const fromWorkspace = storedValue(layers.workspace, key);
+    if (fromWorkspace.ok) {
+      merged[key] = fromWorkspace.value;
+      sources[key] = "workspace";
+    }
+    if (!MEMBER_KEYS.has(key) || lockedKeys.includes(key as MemberSettingKey)) continue;
+    const fromMember = storedValue(layers.member, key);
+    if (fromMember.ok) {
+      merged[key] = fromMember.value;
+      sources[key] = "member";
+    }
+  }
+
+  return {
+    ...settingsSchema.parse(merged),
+    sources,
+    lockedKeys,
+    canManageWorkspace: layers.isOwner,
+  };
+}
+
+/**
+ * Keeps only the keys present in the request body. The partial schema still
+ * fills defaults, which would otherwise overwrite values the caller never sent.
+ */
+export function providedSettings(payload: UpdateSettingsRequest, body: unknown): Partial<Settings> {
+  if (!body || typeof body !== "object") return {};
+  const provided: Record<string, unknown> = {};
+  for (const key of Object.keys(body)) {
+    if (Object.hasOwn(payload, key)) {
+      provided[key] = payload[key as keyof UpdateSettingsRequest];
+    }
+  }
+  return provided as Partial<Settings>;
+}
+
+/**
+ * Routes a settings patch to the layer that owns each key. Unchanged values
+ * are skipped, so clients that post the whole settings object keep working
+ * for members; policy or locked keys that actually change are reported as
+ * locked unless the caller is the owner, whose edits go to the workspace.
+ */
+export function planSettingsUpdate(
+  patch: Partial<Settings>,
+  layers: SettingsLayers,
+): SettingsUpdatePlan {
+  const current = layerSettings(layers);
+  const plan: SettingsUpdatePlan = { workspace: {}, member: {}, locked: [] };
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (isDeepStrictEqual(value, current[key as keyof Settings])) continue;
+    const personal = MEMBER_KEYS.has(key) && !current.lockedKeys.includes(key as MemberSettingKey);
+    if (personal) {
+      (plan.member as Record<string, unknown>)[key] = value;
+    } else if (layers.isOwner) {
+      (plan.workspace as Record<string, unknown>)[key] = value;
+    } else {
+      plan.locked.push(key);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,84 @@
+type Queryable = {
+  query: <T = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[],
+  ) => Promise<{ rows: T[]; rowCount?: number | null }>;
+};
+
+export interface BackfillStory {
+  feedId: string;
+  /** Folder and topic for a newly created cluster; existing clusters keep theirs. */
+  folderId: string;
+  topicId?: string | null;
+  guid: string | null;
+  url: string;
+  canonicalUrl: string;
+  title: string;
+  summary: string | null;
+  author: string | null;
+  publishedAt: string;
+  heroImageUrl: string | null;
+}
+
+/**
+ * Finds the cluster holding a story from elsewhere (an archive or another
+ * reader), matching the feed's item by guid or canonical URL. Stories the
+ * feed no longer carries are written to `item` and given a single-item
+ * cluster dated to the original publish time so they do not resurface as new.
+ */
+export async function findOrBackfillStory(
+  client: Queryable,
+  accountId: string,
+  story: BackfillStory,
+): Promise<{ clusterId: string; created: boolean }> {
+  const found = await client.query<{ id: string; cluster_id: string | null }>(
+    `SELECT i.id, cm.cluster_id
+     FROM item i
+     LEFT JOIN cluster_member cm ON cm.item_id = i.id AND cm.tenant_id = i.tenant_id
+     WHERE i.tenant_id = $1
+       AND i.feed_id = $2
+       AND (i.guid = $3 OR i.canonical_url = $4)
+     ORDER BY (i.guid IS NOT DISTINCT FROM $3) DESC, i.published_at DESC
+     LIMIT 1`,
+    [accountId, story.feedId, story.guid, story.canonicalUrl],
+  );
+  const match = found.rows[0];
+  if (match?.cluster_id) {
+    return { clusterId: match.cluster_id, created: false };
+  }
+
+  let itemId = match?.id;
+  if (!itemId) {
+    const inserted = await client.query<{ id: string }>(
+      `INSERT INTO item (tenant_id, feed_id, url, canonical_url, title, summary, published_at, author, guid, hero_image_url)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        accountId,
+        story.feedId,
+        story.url,
+        story.canonicalUrl,
+        story.title,
+        story.summary,
+        story.publishedAt,
+        story.author,
+        story.guid,
+        story.heroImageUrl,
+      ],
+    );
+    itemId = inserted.rows[0]?.id;
+  }
+  const cluster = await client.query<{ id: string }>(
+    `INSERT INTO cluster (tenant_id, rep_item_id, folder_id, topic_id, size, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, 1, $5, $5)
+     RETURNING id`,
+    [accountId, itemId, story.folderId, story.topicId ?? null, story.publishedAt],
+  );
+  const clusterId = cluster.rows[0]?.id;
+  if (!itemId || !clusterId) throw new Error("failed to create story");
+  await client.query(
+    "INSERT INTO cluster_member (tenant_id, cluster_id, item_id) VALUES ($1, $2, $3)",
+    [accountId, clusterId, itemId],
+  );
+  return { clusterId, created: true };
+}
@@ -0,0 +1,267 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import type {
+  UpdateWebhookSubscriptionRequest,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription,
+} from "@rss-wrangler/contracts";
+import { validateFeedUrl } from "./url-validator";
+
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+const DELIVERY_HISTORY_LIMIT = 50;
+
+type Queryable = {
+  query: <T = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[],
+  ) => Promise<{ rows: T[]; rowCount?: number | null }>;
+};
+
+export type WebhookMutationResult =
+  | WebhookSubscription
+  | "not_owner"
+  | "not_found"
+  | { invalidUrl: string };
+
+interface SubscriptionRow {
+  id: string;
+  url: string;
+  event_types: string[];
+  secret: string;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface DeliveryRow {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  status: WebhookDelivery["status"];
+  attempt_count: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: Date;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+const SUBSCRIPTION_COLUMNS = "id, url, event_types, secret, enabled, created_at, updated_at";
+
+function toSubscription(row: SubscriptionRow): WebhookSubscription {
+  return {
+    id: row.id,
+    url: row.url,
+    eventTypes: row.event_types as WebhookEventType[],
+    secret: row.secret,
+    enabled: row.enabled,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    status: row.status,
+    attemptCount: row.attempt_count,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at.toISOString(),
+    deliveredAt: row.delivered_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+function buildEnvelope(
+  eventId: string,
+  type: string,
+  accountId: string,
+  data: Record<string, unknown>,
+) {
+  return { id: eventId, type, createdAt: new Date().toISOString(), accountId, data };
+}
+
+/**
+ * Queues an event for every enabled subscription listening for it. The worker
+ * delivers queued rows; see apps/worker/src/services/webhook-service.ts.
+ */
+export async function enqueueWebhookEvent(
+  client: Queryable,
+  accountId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<void> {
+  const eventId = randomUUID();
+  await client.query(
+    `INSERT INTO webhook_delivery (tenant_id, subscription_id, event_id, event_type, payload)
+     SELECT $1, s.id, $2, $3, $4::jsonb
+     FROM webhook_subscription s
+     WHERE s.tenant_id = $1
+       AND s.enabled = TRUE
+       AND $3 = ANY(s.event_types)`,
+    [accountId, eventId, type, JSON.stringify(buildEnvelope(eventId, type, accountId, data))],
+  );
+}
+
+export function createWebhookService() {
+  async function isOwner(client: Queryable, accountId: string, userId: string) {
+    const { rows } = await client.query<{ role: string }>(
+      "SELECT role FROM user_account WHERE id = $1 AND tenant_id = $2 LIMIT 1",
+      [userId, accountId],
+    );
+    return rows[0]?.role === "owner";
+  }
+
+  async function listSubscriptions(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+  ): Promise<WebhookSubscription[] | "not_owner"> {
+    if (!(await isOwner(client, accountId, userId))) return "not_owner";
+    const { rows } = await client.query<SubscriptionRow>(
+      `SELECT ${SUBSCRIPTION_COLUMNS}
+       FROM webhook_subscription
+       WHERE tenant_id = $1
+       ORDER BY created_at DESC`,
+      [accountId],
+    );
+    return rows.map(toSubscription);
+  }
+
+  async function createSubscription(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    payload: { url: string; eventTypes: WebhookEventType[]; enabled: boolean },
+  ): Promise<WebhookMutationResult> {
+    if (!(await isOwner(client, accountId, userId))) return "not_owner";
+    const urlError = validateFeedUrl(payload.url);
+    if (urlError) return { invalidUrl: urlError };
+
+    const { rows } = await client.query<SubscriptionRow>(
+      `INSERT INTO webhook_subscription (tenant_id, url, event_types, secret, enabled, created_by)
+       VALUES ($1, $2, $3::text[], $4, $5, $6)
+       RETURNING ${SUBSCRIPTION_COLUMNS}`,
+      [
+        accountId,
+        payload.url,
+        [...new Set(payload.eventTypes)],
+        randomBytes(32).toString("hex"),
+        payload.enabled,
+        userId,
+      ],
+    );
+    const row = rows[0];
+    if (!row) {
+      throw new Error("failed to create webhook subscription");
+    }
+    return toSubscription(row);
+  }
+
+  async function updateSubscription(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    subscriptionId: string,
+    payload: UpdateWebhookSubscriptionRequest,
+  ): Promise<WebhookMutationResult> {
+    if (!(await isOwner(client, accountId, userId))) return "not_owner";
+    if (payload.url !== undefined) {
+      const urlError = validateFeedUrl(payload.url);
+      if (urlError) return { invalidUrl: urlError };
+    }
+
+    const { rows } = await client.query<SubscriptionRow>(
+      `UPDATE webhook_subscription
+       SET url = COALESCE($3, url),
+           event_types = COALESCE($4::text[], event_types),
+           enabled = COALESCE($5, enabled),
+           updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING ${SUBSCRIPTION_COLUMNS}`,
+      [
+        subscriptionId,
+        accountId,
+        payload.url ?? null,
+        payload.eventTypes ? [...new Set(payload.eventTypes)] : null,
+        payload.enabled ?? null,
+      ],
+    );
+    const row = rows[0];
+    return row ? toSubscription(row) : "not_found";
+  }
+
+  async function deleteSubscription(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    subscriptionId: string,
+  ): Promise<"ok" | "not_owner" | "not_found"> {
+    if (!(await isOwner(client, accountId, userId))) return "not_owner";
+    const { rows } = await client.query<{ id: string }>(
+      "DELETE FROM webhook_subscription WHERE id = $1 AND tenant_id = $2 RETURNING id",
+      [subscriptionId, accountId],
+    );
+    return rows.length > 0 ? "ok" : "not_found";
+  }
+
+  /** Queues a `webhook.test` delivery for one subscription, ignoring its event filter. */
+  async function queueTestEvent(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    subscriptionId: string,
+  ): Promise<WebhookDelivery | "not_owner" | "not_found"> {
+    if (!(await isOwner(client, accountId, userId))) return "not_owner";
+    const eventId = randomUUID();
+    const envelope = buildEnvelope(eventId, WEBHOOK_TEST_EVENT, accountId, {
+      message: "Test event from rss-wrangler",
+      subscriptionId,
+    });
+
+    const { rows } = await client.query<DeliveryRow>(
+      `INSERT INTO webhook_delivery (tenant_id, subscription_id, event_id, event_type, payload)
+       SELECT $1, s.id, $3, $4, $5::jsonb
+       FROM webhook_subscription s
+       WHERE s.id = $2 AND s.tenant_id = $1
+       RETURNING id, subscription_id, event_id, event_type, status, attempt_count,
+                 last_status_code, last_error, next_attempt_at, delivered_at, created_at`,
+      [accountId, subscriptionId, eventId, WEBHOOK_TEST_EVENT, JSON.stringify(envelope)],
+    );
+    const row = rows[0];
+    return row ? toDelivery(row) : "not_found";
+  }
+
+  async function listDeliveries(
+    client: Queryable,
+    accountId: string,
+    userId: string,
+    subscriptionId: string,
+  ): Promise<WebhookDelivery[] | "not_owner"> {
+    if (!(await isOwner(client, accountId, userId))) return "not_owner";
+    const { rows } = await client.query<DeliveryRow>(
+      `SELECT id, subscription_id, event_id, event_type, status, attempt_count,
+              last_status_code, last_error, next_attempt_at, delivered_at, created_at
+       FROM webhook_delivery
+       WHERE subscription_id = $1 AND tenant_id = $2
+       ORDER BY created_at DESC
+       LIMIT ${DELIVERY_HISTORY_LIMIT}`,
+      [subscriptionId, accountId],
+    );
+    return rows.map(toDelivery);
+  }
+
+  return {
+    listSubscriptions,
+    createSubscription,
+    updateSubscription,
+    deleteSubscription,
+    queueTestEvent,
+    listDeliveries,
+  };
+}
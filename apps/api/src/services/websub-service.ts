@@ -0,0 +1,226 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Pool, PoolClient } from "pg";
+
+const DEFAULT_ACCOUNT_ID = "00000000-0000-0000-0000-000000000001";
+
+const SIGNATURE_ALGORITHMS = new Set(["sha1", "sha256", "sha384", "sha512"]);
+
+export interface WebSubIntent {
+  mode: "subscribe" | "unsubscribe" | "denied";
+  topic: string;
+  /** `token` from the callback URL; identifies the subscription request we sent. */
+  callbackToken?: string;
+  challenge?: string;
+  leaseSeconds?: number;
+}
+
+export interface WebSubFeedJob {
+  id: string;
+  accountId: string;
+  url: string;
+  title: string;
+  siteUrl: string | null;
+  folderId: string;
+  weight: string;
+  etag: string | null;
+  lastModified: string | null;
+  lastPolledAt: string | null;
+  classificationStatus: string;
+}
+
+export type WebSubIntentResult =
+  | { ok: true; challenge: string | null }
+  | "not_found"
+  | "topic_mismatch"
+  | "not_pending";
+
+export type WebSubPushResult =
+  | { ok: true; feed: WebSubFeedJob }
+  | "not_found"
+  | "invalid_signature";
+
+interface WebSubFeedRow {
+  id: string;
+  tenant_id: string;
+  url: string;
+  title: string;
+  site_url: string | null;
+  folder_id: string;
+  weight: string;
+  etag: string | null;
+  last_modified: string | null;
+  last_polled_at: Date | null;
+  classification_status: string;
+  websub_topic_url: string | null;
+  websub_secret: string | null;
+  websub_state: string;
+  websub_callback_token: string;
+}
+
+/**
+ * Verifies an `X-Hub-Signature` header (`<algo>=<hex>`) against the raw push body.
+ */
+export function verifyWebSubSignature(
+  secret: string,
+  rawBody: string,
+  signatureHeader: string | undefined,
+): boolean {
+  if (!signatureHeader) return false;
+  const separator = signatureHeader.indexOf("=");
+  if (separator <= 0) return false;
+
+  const algorithm = signatureHeader.slice(0, separator).trim().toLowerCase();
+  const provided = signatureHeader.slice(separator + 1).trim();
+  if (!SIGNATURE_ALGORITHMS.has(algorithm)) return false;
+
+  const expected = createHmac(algorithm, secret).update(rawBody, "utf8").digest("hex");
+  const providedBuffer = Buffer.from(provided, "hex");
+  const expectedBuffer = Buffer.from(expected, "hex");
+  if (providedBuffer.length !== expectedBuffer.length) return false;
+  return timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+function tokensMatch(expected: string, provided: string | undefined): boolean {
+  if (!provided) return false;
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return (
+    expectedBuffer.length === providedBuffer.length &&
+    timingSafeEqual(expectedBuffer, providedBuffer)
+  );
+}
+
+export function createWebSubService(pool: Pool) {
+  async function withAccountClient<T>(
+    accountId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query("SELECT set_config('app.tenant_id', $1, false)", [accountId]);
+      return await fn(client);
+    } finally {
+      try {
+        await client.query("SELECT set_config('app.tenant_id', $1, false)", [DEFAULT_ACCOUNT_ID]);
+      } catch {
+        // Best effort reset.
+      }
+      client.release();
+    }
+  }
+
+  async function loadFeed(client: PoolClient, accountId: string, feedId: string) {
+    const result = await client.query<WebSubFeedRow>(
+      `SELECT id, tenant_id, url, title, site_url, folder_id, weight, etag, last_modified,
+              last_polled_at, classification_status, websub_topic_url, websub_secret,
+              websub_state, websub_callback_token
+       FROM feed
+       WHERE id = $1 AND tenant_id = $2`,
+      [feedId, accountId],
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Handles the hub's intent verification (GET callback). Only confirms
+   * subscriptions for the topic the worker actually requested, and only
+   * accepts a denial for a pending request whose callback token matches,
+   * since anyone can call this endpoint.
+   */
+  async function confirmIntent(
+    accountId: string,
+    feedId: string,
+    intent: WebSubIntent,
+  ): Promise<WebSubIntentResult> {
+    return withAccountClient(accountId, async (client) => {
+      const feed = await loadFeed(client, accountId, feedId);
+      if (!feed) {
+        return "not_found";
+      }
+
+      if (!feed.websub_topic_url || feed.websub_topic_url !== intent.topic) {
+        return "topic_mismatch";
+      }
+      if (!tokensMatch(feed.websub_callback_token, intent.callbackToken)) {
+        return "topic_mismatch";
+      }
+
+      if (intent.mode === "subscribe") {
+        await client.query(
+          `UPDATE feed
+           SET websub_state = 'active',
+               websub_lease_expires_at = CASE
+                 WHEN $3::int IS NULL THEN NULL
+                 ELSE NOW() + make_interval(secs => $3::int)
+               END
+           WHERE id = $1 AND tenant_id = $2`,
+          [feedId, accountId, intent.leaseSeconds ?? null],
+        );
+        return { ok: true, challenge: intent.challenge ?? null };
+      }
+
+      if (intent.mode === "unsubscribe") {
+        // We never unsubscribe from a hub while the feed still exists.
+        return "topic_mismatch";
+      }
+
+      if (feed.websub_state !== "pending") {
+        return "not_pending";
+      }
+      await client.query(
+        `UPDATE feed
+         SET websub_state = 'denied', websub_lease_expires_at = NULL
+         WHERE id = $1 AND tenant_id = $2 AND websub_state = 'pending'`,
+        [feedId, accountId],
+      );
+      return { ok: true, challenge: null };
+    });
+  }
+
+  /**
+   * Authenticates a content push (POST callback) and returns the feed payload
+   * to queue for the pipeline.
+   */
+  async function acceptPush(
+    accountId: string,
+    feedId: string,
+    rawBody: string,
+    signatureHeader: string | undefined,
+  ): Promise<WebSubPushResult> {
+    return withAccountClient(accountId, async (client) => {
+      const feed = await loadFeed(client, accountId, feedId);
+      if (!feed?.websub_secret) {
+        return "not_found";
+      }
+
+      if (!verifyWebSubSignature(feed.websub_secret, rawBody, signatureHeader)) {
+        return "invalid_signature";
+      }
+
+      await client.query(
+        `UPDATE feed SET websub_last_push_at = NOW()
+         WHERE id = $1 AND tenant_id = $2`,
+        [feedId, accountId],
+      );
+
+      return {
+        ok: true,
+        feed: {
+          id: feed.id,
+          accountId: feed.tenant_id,
+          url: feed.url,
+          title: feed.title,
+          siteUrl: feed.site_url,
+          folderId: feed.folder_id,
+          weight: feed.weight,
+          etag: feed.etag,
+          lastModified: feed.last_modified,
+          lastPolledAt: feed.last_polled_at ? feed.last_polled_at.toISOString() : null,
+          classificationStatus: feed.classification_status,
+        },
+      };
+    });
+  }
+
+  return { confirmIntent, acceptPush };
+}
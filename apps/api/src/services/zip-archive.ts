@@ -0,0 +1,171 @@
+import { deflateRawSync, inflateRawSync } from "node:zlib";
+
+/**
+ * Minimal ZIP reader/writer for account archives: deflate or stored entries,
+ * no ZIP64, no encryption, no multi-disk. Enough for archives we write
+ * ourselves and for the same files re-zipped by common desktop tools.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const UTF8_NAME_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], modifiedAt = new Date()): Buffer {
+  const { time, date } = dosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(UTF8_NAME_FLAG, 6);
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(ZIP_VERSION, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(UTF8_NAME_FLAG, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  const earliest = Math.max(0, zip.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+  for (let i = zip.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= earliest; i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+/**
+ * Reads every file entry, keyed by name. Returns null when the buffer is not
+ * a ZIP this reader understands, an entry fails its checksum, or the
+ * uncompressed total would exceed `maxTotalBytes`.
+ */
+export function readZip(zip: Buffer, maxTotalBytes: number): Map<string, Buffer> | null {
+  if (zip.length < END_OF_CENTRAL_DIRECTORY_SIZE) return null;
+  const end = findEndOfCentralDirectory(zip);
+  if (end < 0) return null;
+
+  const entryCount = zip.readUInt16LE(end + 10);
+  let cursor = zip.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  try {
+    for (let i = 0; i < entryCount; i++) {
+      if (zip.readUInt32LE(cursor) !== CENTRAL_HEADER_SIGNATURE) return null;
+      const flags = zip.readUInt16LE(cursor + 8);
+      const method = zip.readUInt16LE(cursor + 10);
+      const checksum = zip.readUInt32LE(cursor + 16);
+      const compressedSize = zip.readUInt32LE(cursor + 20);
+      const size = zip.readUInt32LE(cursor + 24);
+      const nameLength = zip.readUInt16LE(cursor + 28);
+      const extraLength = zip.readUInt16LE(cursor + 30);
+      const commentLength = zip.readUInt16LE(cursor + 32);
+      const localOffset = zip.readUInt32LE(cursor + 42);
+      const name = zip.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+      cursor += 46 + nameLength + extraLength + commentLength;
+
+      if (flags & 0x1) return null; // encrypted
+      if (name.endsWith("/")) continue;
+      totalBytes += size;
+      if (totalBytes > maxTotalBytes) return null;
+
+      if (zip.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) return null;
+      const dataStart =
+        localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const raw = zip.subarray(dataStart, dataStart + compressedSize);
+      if (raw.length !== compressedSize) return null;
+
+      let data: Buffer;
+      if (method === METHOD_STORED) {
+        data = Buffer.from(raw);
+      } else if (method === METHOD_DEFLATE) {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+      } else {
+        return null;
+      }
+      if (data.length !== size || crc32(data) !== checksum) return null;
+      files.set(name, data);
+    }
+  } catch {
+    return null;
+  }
+
+  return files;
+}
@@ -6,6 +6,8 @@ declare module "fastify" {
       userId: string;
       accountId: string;
       role?: string;
+      /** Set when the request authenticated with a personal API token. */
+      apiTokenId?: string;
     };
     dbClient?: PoolClient;
     rawBody?: string;
@@ -1,11 +1,18 @@
 "use client";
 
-import type { AccountDataExportStatus } from "@rss-wrangler/contracts";
+import type {
+  AccountArchiveKind,
+  AccountDataExportStatus,
+  AccountImportConflictMode,
+  AccountImportReport,
+} from "@rss-wrangler/contracts";
 import { useCallback, useEffect, useState } from "react";
 import { ProtectedRoute } from "@/components/protected-route";
 import {
+  downloadAccountArchive,
   downloadAccountDataExport,
   getAccountDataExportStatus,
+  importAccountArchive,
   requestAccountDataExport,
 } from "@/lib/api";
 
@@ -38,6 +45,160 @@ function statusLabel(status: AccountDataExportStatus | null): string {
   return "Export failed.";
 }
 
+const ARCHIVE_KIND_LABELS: Array<{ kind: AccountArchiveKind; label: string }> = [
+  { kind: "folders", label: "Folders" },
+  { kind: "topics", label: "Topics" },
+  { kind: "feeds", label: "Feeds" },
+  { kind: "feed_topics", label: "Feed topics" },
+  { kind: "filters", label: "Filters" },
+  { kind: "stories", label: "Stories" },
+  { kind: "read_state", label: "Read and saved state" },
+  { kind: "annotations", label: "Annotations" },
+  { kind: "settings", label: "Settings" },
+];
+
+function ArchiveSection() {
+  const [downloadBusy, setDownloadBusy] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [onConflict, setOnConflict] = useState<AccountImportConflictMode>("keep");
+  const [importBusy, setImportBusy] = useState(false);
+  const [report, setReport] = useState<AccountImportReport | null>(null);
+  const [error, setError] = useState("");
+
+  async function handleDownload() {
+    setError("");
+    setDownloadBusy(true);
+    const result = await downloadAccountArchive();
+    setDownloadBusy(false);
+    if (!result.ok) setError(result.error);
+  }
+
+  async function handleImport(dryRun: boolean) {
+    if (!file) return;
+    setError("");
+    setImportBusy(true);
+    const result = await importAccountArchive(file, {
+      dryRun: dryRun ? "true" : "false",
+      onConflict,
+    });
+    setImportBusy(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setReport(result.report);
+  }
+
+  return (
+    <section className="section-card">
+      <h2>Account archive</h2>
+      <p className="muted">
+        Download a zip of your feeds, folders, topics, filters, saved and read stories, annotations
+        and settings, then import it into another RSS Wrangler account. Digests, activity events,
+        API tokens, webhooks and your AI provider key are not included.
+      </p>
+
+      <div className="settings-form">
+        <div className="key-edit-row">
+          <button type="button" className="button" disabled={downloadBusy} onClick={handleDownload}>
+            {downloadBusy ? "Preparing..." : "Download archive"}
+          </button>
+        </div>
+
+        <label>
+          Archive to import
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setReport(null);
+            }}
+          />
+        </label>
+        <label>
+          When a record already exists
+          <select
+            value={onConflict}
+            onChange={(e) => {
+              setOnConflict(e.target.value as AccountImportConflictMode);
+              setReport(null);
+            }}
+          >
+            <option value="keep">Keep what is here</option>
+            <option value="replace">Replace it with the archived version</option>
+          </select>
+        </label>
+
+        {error ? <p className="error-text">{error}</p> : null}
+
+        <div className="key-edit-row">
+          <button
+            type="button"
+            className="button"
+            disabled={!file || importBusy}
+            onClick={() => handleImport(true)}
+          >
+            {importBusy ? "Checking..." : "Preview import"}
+          </button>
+          <button
+            type="button"
+            className="button button-primary"
+            disabled={!file || importBusy || !report?.dryRun}
+            onClick={() => handleImport(false)}
+          >
+            Import
+          </button>
+        </div>
+
+        {report ? (
+          <div className="settings-form" role="status">
+            <p className="muted">
+              {report.dryRun ? "Preview of importing" : "Imported"} an archive exported{" "}
+              {new Date(report.exportedAt).toLocaleString()}.
+            </p>
+            <table className="feed-table">
+              <thead>
+                <tr>
+                  <th>Records</th>
+                  <th>New</th>
+                  <th>Already here</th>
+                  <th>Replaced</th>
+                  <th>Skipped</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ARCHIVE_KIND_LABELS.map(({ kind, label }) => {
+                  const counts = report.counts[kind];
+                  return (
+                    <tr key={kind}>
+                      <td>{label}</td>
+                      <td>{counts?.created ?? 0}</td>
+                      <td>{counts?.matched ?? 0}</td>
+                      <td>{counts?.updated ?? 0}</td>
+                      <td>{counts?.skipped ?? 0}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {report.conflicts.length > 0 ? (
+              <ul className="list">
+                {report.conflicts.map((conflict) => (
+                  <li key={`${conflict.kind}:${conflict.sourceId}:${conflict.message}`}>
+                    {conflict.message}
+                  </li>
+                ))}
+                {report.truncated > 0 ? <li>...and {report.truncated} more.</li> : null}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </section>
+  );
+}
+
 function DataExportContent() {
   const [status, setStatus] = useState<AccountDataExportStatus | null>(null);
   const [loading, setLoading] = useState(true);
@@ -164,6 +325,8 @@ function DataExportContent() {
           </div>
         </div>
       </section>
+
+      <ArchiveSection />
     </>
   );
 }
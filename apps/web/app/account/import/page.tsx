@@ -0,0 +1,230 @@
+"use client";
+
+import type { ReaderImportJob, ReaderImportSource } from "@rss-wrangler/contracts";
+import { useCallback, useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/protected-route";
+import { getReaderImport, listReaderImports, startReaderImport } from "@/lib/api";
+
+const IMPORT_SOURCES: Array<{ source: ReaderImportSource; label: string; hint: string }> = [
+  {
+    source: "feedly",
+    label: "Feedly",
+    hint: "OPML for your feeds, or the JSON export of Saved for Later and boards.",
+  },
+  {
+    source: "inoreader",
+    label: "Inoreader",
+    hint: "OPML with folders, or the JSON export of starred and tagged articles.",
+  },
+  {
+    source: "newsblur",
+    label: "NewsBlur",
+    hint: "OPML for your feeds, or the starred stories JSON export.",
+  },
+  { source: "pocket", label: "Pocket", hint: "The HTML or CSV export from Pocket." },
+  { source: "instapaper", label: "Instapaper", hint: "The HTML or CSV export from Instapaper." },
+];
+
+const COUNT_LABELS: Array<{ key: keyof ReaderImportJob["counts"]; label: string }> = [
+  { key: "feedsAdded", label: "Feeds added" },
+  { key: "feedsExisting", label: "Feeds already here" },
+  { key: "articlesSaved", label: "Articles saved" },
+  { key: "articlesBackfilled", label: "Articles added to the archive" },
+  { key: "annotationsAdded", label: "Highlights and notes" },
+  { key: "topicsAdded", label: "New topics" },
+  { key: "failed", label: "Failed entries" },
+];
+
+function isRunning(job: ReaderImportJob | null): boolean {
+  return job?.status === "pending" || job?.status === "processing";
+}
+
+function ImportReport({ job }: { job: ReaderImportJob }) {
+  const percent =
+    job.totalEntries === 0 ? 100 : Math.round((job.processedEntries / job.totalEntries) * 100);
+
+  return (
+    <div className="settings-form" role="status">
+      <p className="muted">
+        {job.filename ?? job.source}: {job.status} - {job.processedEntries} of {job.totalEntries}{" "}
+        entries
+      </p>
+      <progress max={100} value={percent} aria-label="Import progress" />
+      {job.errorMessage ? <p className="error-text">{job.errorMessage}</p> : null}
+
+      <table className="feed-table">
+        <tbody>
+          {COUNT_LABELS.map(({ key, label }) => (
+            <tr key={key}>
+              <td>{label}</td>
+              <td>{job.counts[key]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {job.errors.length > 0 ? (
+        <>
+          <h3>Entries that were not imported</h3>
+          <table className="feed-table">
+            <thead>
+              <tr>
+                <th>Entry</th>
+                <th>Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.errors.map((error, index) => (
+                // biome-ignore lint/suspicious/noArrayIndexKey: entries can repeat and the list is append-only
+                <tr key={`${index}:${error.entry}`}>
+                  <td>{error.entry}</td>
+                  <td>{error.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {job.truncatedErrors > 0 ? (
+            <p className="muted">...and {job.truncatedErrors} more.</p>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function ImportContent() {
+  const [source, setSource] = useState<ReaderImportSource>("feedly");
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [current, setCurrent] = useState<ReaderImportJob | null>(null);
+  const [history, setHistory] = useState<ReaderImportJob[]>([]);
+
+  const refreshHistory = useCallback(async () => {
+    const jobs = await listReaderImports();
+    setHistory(jobs);
+    setCurrent((prev) => prev ?? jobs[0] ?? null);
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  useEffect(() => {
+    if (!current || !isRunning(current)) return;
+    const interval = setInterval(async () => {
+      const job = await getReaderImport(current.id);
+      if (!job) return;
+      setCurrent(job);
+      if (!isRunning(job)) refreshHistory();
+    }, 1500);
+    return () => clearInterval(interval);
+  }, [current, refreshHistory]);
+
+  async function handleImport() {
+    if (!file) return;
+    setError("");
+    setBusy(true);
+    const result = await startReaderImport(source, file);
+    setBusy(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setCurrent(result.job);
+    setHistory((prev) => [result.job, ...prev]);
+  }
+
+  const selected = IMPORT_SOURCES.find((option) => option.source === source);
+
+  return (
+    <>
+      <div className="page-header">
+        <h1 className="page-title">Import from another reader</h1>
+      </div>
+
+      <section className="section-card">
+        <h2>Upload an export</h2>
+        <p className="muted">
+          Feeds keep their folders; other folder, board and tag names become topics. Starred and
+          saved articles arrive as saved stories, with any highlights and notes as annotations.
+        </p>
+
+        <div className="settings-form">
+          <label>
+            Coming from
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as ReaderImportSource)}
+            >
+              {IMPORT_SOURCES.map((option) => (
+                <option key={option.source} value={option.source}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {selected ? <p className="muted">{selected.hint}</p> : null}
+          <label>
+            Export file
+            <input
+              type="file"
+              accept=".opml,.xml,.json,.html,.htm,.csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </label>
+
+          {error ? <p className="error-text">{error}</p> : null}
+
+          <div className="key-edit-row">
+            <button
+              type="button"
+              className="button button-primary"
+              disabled={!file || busy || isRunning(current)}
+              onClick={handleImport}
+            >
+              {busy ? "Uploading..." : isRunning(current) ? "Import in progress" : "Import"}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {current ? (
+        <section className="section-card">
+          <h2>{isRunning(current) ? "Importing" : "Latest import"}</h2>
+          <ImportReport job={current} />
+        </section>
+      ) : null}
+
+      {history.length > 1 ? (
+        <section className="section-card">
+          <h2>Earlier imports</h2>
+          <ul className="list">
+            {history
+              .filter((job) => job.id !== current?.id)
+              .map((job) => (
+                <li key={job.id}>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    onClick={() => setCurrent(job)}
+                  >
+                    {new Date(job.createdAt).toLocaleString()} - {job.filename ?? job.source} (
+                    {job.status})
+                  </button>
+                </li>
+              ))}
+          </ul>
+        </section>
+      ) : null}
+    </>
+  );
+}
+
+export default function ReaderImportPage() {
+  return (
+    <ProtectedRoute>
+      <ImportContent />
+    </ProtectedRoute>
+  );
+}
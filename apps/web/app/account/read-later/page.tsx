@@ -0,0 +1,339 @@
+"use client";
+
+import {
+  READ_LATER_PROVIDER_FIELDS,
+  type ReadLaterConnection,
+  type ReadLaterDelivery,
+  type ReadLaterProvider,
+} from "@rss-wrangler/contracts";
+import { useCallback, useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/protected-route";
+import {
+  createReadLaterConnection,
+  deleteReadLaterConnection,
+  listReadLaterConnections,
+  listReadLaterDeliveries,
+  updateReadLaterConnection,
+} from "@/lib/api";
+
+const PROVIDERS: Array<{ provider: ReadLaterProvider; label: string; hint: string }> = [
+  {
+    provider: "wallabag",
+    label: "Wallabag",
+    hint: "Create an API client under Developer > Create a new client in Wallabag.",
+  },
+  {
+    provider: "readwise",
+    label: "Readwise Reader",
+    hint: "Use the access token from readwise.io/access_token.",
+  },
+  {
+    provider: "instapaper",
+    label: "Instapaper",
+    hint: "Your Instapaper email or username and password.",
+  },
+  {
+    provider: "pocket",
+    label: "Pocket-compatible",
+    hint: "A consumer key and access token; set a server URL for self-hosted Pocket APIs.",
+  },
+  {
+    provider: "omnivore",
+    label: "Omnivore-compatible",
+    hint: "An API key; set a server URL for a self-hosted Omnivore.",
+  },
+  {
+    provider: "linkding",
+    label: "Linkding",
+    hint: "The REST API token from Linkding's Settings > Integrations.",
+  },
+  {
+    provider: "shaarli",
+    label: "Shaarli",
+    hint: "The REST API secret from Shaarli's Tools > Configure your Shaarli.",
+  },
+];
+
+const CREDENTIAL_LABELS: Record<string, string> = {
+  clientId: "Client ID",
+  clientSecret: "Client secret",
+  username: "Username",
+  password: "Password",
+  token: "API token",
+  consumerKey: "Consumer key",
+  accessToken: "Access token",
+  apiKey: "API key",
+  apiSecret: "API secret",
+};
+
+const DELIVERY_STATUS_LABELS: Record<ReadLaterDelivery["status"], string> = {
+  pending: "Sending",
+  succeeded: "Sent",
+  failed: "Failed",
+};
+
+function providerLabel(provider: ReadLaterProvider): string {
+  return PROVIDERS.find((option) => option.provider === provider)?.label ?? provider;
+}
+
+function AddConnectionForm({ onAdded }: { onAdded: (connection: ReadLaterConnection) => void }) {
+  const [provider, setProvider] = useState<ReadLaterProvider>("wallabag");
+  const [label, setLabel] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [autoSend, setAutoSend] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const fields = READ_LATER_PROVIDER_FIELDS[provider];
+  const selected = PROVIDERS.find((option) => option.provider === provider);
+
+  async function handleAdd() {
+    setError("");
+    setBusy(true);
+    const result = await createReadLaterConnection({
+      provider,
+      label: label.trim() || undefined,
+      baseUrl: fields.baseUrl !== "none" && baseUrl.trim() ? baseUrl.trim() : undefined,
+      credentials,
+      autoSend,
+    });
+    setBusy(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setLabel("");
+    setBaseUrl("");
+    setCredentials({});
+    setAutoSend(false);
+    onAdded(result.connection);
+  }
+
+  return (
+    <div className="settings-form">
+      <label>
+        Service
+        <select
+          value={provider}
+          onChange={(e) => {
+            setProvider(e.target.value as ReadLaterProvider);
+            setCredentials({});
+          }}
+        >
+          {PROVIDERS.map((option) => (
+            <option key={option.provider} value={option.provider}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {selected ? <p className="muted">{selected.hint}</p> : null}
+      <label>
+        Name (optional)
+        <input
+          type="text"
+          value={label}
+          maxLength={100}
+          placeholder={selected?.label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+      </label>
+      {fields.baseUrl !== "none" ? (
+        <label>
+          Server URL{fields.baseUrl === "optional" ? " (optional)" : ""}
+          <input
+            type="url"
+            value={baseUrl}
+            placeholder="https://"
+            onChange={(e) => setBaseUrl(e.target.value)}
+          />
+        </label>
+      ) : null}
+      {fields.credentials.map((field) => (
+        <label key={field}>
+          {CREDENTIAL_LABELS[field] ?? field}
+          <input
+            type={field === "clientId" || field === "username" ? "text" : "password"}
+            autoComplete="off"
+            value={credentials[field] ?? ""}
+            onChange={(e) => setCredentials((prev) => ({ ...prev, [field]: e.target.value }))}
+          />
+        </label>
+      ))}
+      <label className="checkbox-label">
+        <input type="checkbox" checked={autoSend} onChange={(e) => setAutoSend(e.target.checked)} />
+        Send every story I save
+      </label>
+
+      {error ? <p className="error-text">{error}</p> : null}
+
+      <div className="key-edit-row">
+        <button type="button" className="button button-primary" disabled={busy} onClick={handleAdd}>
+          {busy ? "Connecting..." : "Connect"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ReadLaterContent() {
+  const [connections, setConnections] = useState<ReadLaterConnection[]>([]);
+  const [deliveries, setDeliveries] = useState<ReadLaterDelivery[]>([]);
+  const [error, setError] = useState("");
+
+  const refresh = useCallback(async () => {
+    const [nextConnections, nextDeliveries] = await Promise.all([
+      listReadLaterConnections(),
+      listReadLaterDeliveries(),
+    ]);
+    setConnections(nextConnections);
+    setDeliveries(nextDeliveries);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  async function handleToggle(
+    connection: ReadLaterConnection,
+    change: { autoSend?: boolean; enabled?: boolean },
+  ) {
+    setError("");
+    const result = await updateReadLaterConnection(connection.id, change);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setConnections((prev) =>
+      prev.map((existing) => (existing.id === connection.id ? result.connection : existing)),
+    );
+  }
+
+  async function handleDelete(connection: ReadLaterConnection) {
+    if (!(await deleteReadLaterConnection(connection.id))) {
+      setError(`Could not remove ${connection.label}`);
+      return;
+    }
+    setConnections((prev) => prev.filter((existing) => existing.id !== connection.id));
+    setDeliveries((prev) => prev.filter((delivery) => delivery.connectionId !== connection.id));
+  }
+
+  return (
+    <>
+      <div className="page-header">
+        <h1 className="page-title">Read-later services</h1>
+      </div>
+
+      <section className="section-card">
+        <h2>Connected services</h2>
+        <p className="muted">
+          Use &quot;Send to...&quot; on any story, or turn on auto-send to forward everything you
+          save. Credentials are stored encrypted and are never shown again.
+        </p>
+        {error ? <p className="error-text">{error}</p> : null}
+        {connections.length === 0 ? (
+          <p className="muted">No services connected yet.</p>
+        ) : (
+          <table className="feed-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Service</th>
+                <th>Auto-send</th>
+                <th>Enabled</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {connections.map((connection) => (
+                <tr key={connection.id}>
+                  <td>{connection.label}</td>
+                  <td>
+                    {providerLabel(connection.provider)}
+                    {connection.baseUrl ? (
+                      <span className="muted"> ({connection.baseUrl})</span>
+                    ) : null}
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={`Auto-send saved stories to ${connection.label}`}
+                      checked={connection.autoSend}
+                      onChange={(e) => handleToggle(connection, { autoSend: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={`Enable ${connection.label}`}
+                      checked={connection.enabled}
+                      onChange={(e) => handleToggle(connection, { enabled: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className="button button-small"
+                      onClick={() => handleDelete(connection)}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="section-card">
+        <h2>Connect a service</h2>
+        <AddConnectionForm
+          onAdded={(connection) => setConnections((prev) => [...prev, connection])}
+        />
+      </section>
+
+      {deliveries.length > 0 ? (
+        <section className="section-card">
+          <h2>Recent sends</h2>
+          <table className="feed-table">
+            <thead>
+              <tr>
+                <th>Story</th>
+                <th>Service</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id}>
+                  <td>
+                    <a href={delivery.url} target="_blank" rel="noopener noreferrer">
+                      {delivery.title ?? delivery.url}
+                    </a>
+                  </td>
+                  <td>{delivery.connectionLabel}</td>
+                  <td>
+                    {DELIVERY_STATUS_LABELS[delivery.status]}
+                    {delivery.lastError ? (
+                      <span className="muted"> - {delivery.lastError}</span>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+    </>
+  );
+}
+
+export default function ReadLaterPage() {
+  return (
+    <ProtectedRoute>
+      <ReadLaterContent />
+    </ProtectedRoute>
+  );
+}
@@ -5,6 +5,7 @@ import Link from "next/link";
 import { useParams } from "next/navigation";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { ProtectedRoute } from "@/components/protected-route";
+import { VideoPlayer } from "@/components/video-player";
 import { getClusterAiSummary, getClusterDetail } from "@/lib/api";
 import { cn } from "@/lib/cn";
 import { stripHtml } from "@/lib/strip-html";
@@ -34,10 +35,10 @@ function relativeTime(dateStr: string): string {
   return `${diffDay}d ago`;
 }
 
-type ReaderMode = "feed" | "original" | "text";
+type ReaderMode = "feed" | "original" | "text" | "video";
 
 const READER_MODE_STORAGE_KEY = "reader-mode-default";
-const VALID_READER_MODES: ReadonlySet<string> = new Set(["feed", "original", "text"]);
+const VALID_READER_MODES: ReadonlySet<string> = new Set(["feed", "original", "text", "video"]);
 
 function getStoredReaderMode(): ReaderMode | null {
   try {
@@ -110,8 +111,13 @@ function ClusterDetailView() {
         const storedDefault = getStoredReaderMode();
         const fallback = result.storyTextSource === "unavailable" ? "feed" : "text";
 
-        const resolved = perFeedDefault ?? storedDefault ?? fallback;
-        setReaderMode(resolved);
+        const preferred = perFeedDefault ?? storedDefault ?? fallback;
+        // Video stories open in the player unless their feed picks another mode.
+        if (result.cluster.video) {
+          setReaderMode(perFeedDefault ?? "video");
+        } else {
+          setReaderMode(preferred === "video" ? fallback : preferred);
+        }
       }
       setLoading(false);
     });
@@ -173,6 +179,7 @@ function ClusterDetailView() {
     detail.cluster.heroImageUrl && isSafeUrl(detail.cluster.heroImageUrl)
       ? detail.cluster.heroImageUrl
       : null;
+  const video = detail.cluster.video;
 
   return (
     <section className="cluster-detail-shell">
@@ -291,9 +298,33 @@ function ClusterDetailView() {
             >
               Text
             </button>
+            {video && (
+              <button
+                type="button"
+                role="tab"
+                id="reader-tab-video"
+                aria-selected={readerMode === "video"}
+                aria-controls="reader-panel-video"
+                className={cn("button button-small", readerMode === "video" && "button-active")}
+                onClick={() => handleSetReaderMode("video")}
+              >
+                Video
+              </button>
+            )}
           </div>
         </div>
 
+        {video && readerMode === "video" && (
+          <div
+            id="reader-panel-video"
+            className="cluster-reader-panel"
+            role="tabpanel"
+            aria-labelledby="reader-tab-video"
+          >
+            <VideoPlayer video={video} title={detail.cluster.headline} thumbnailUrl={heroImage} />
+          </div>
+        )}
+
         {readerMode === "feed" && (
           <div
             id="reader-panel-feed"
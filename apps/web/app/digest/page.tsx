@@ -1,6 +1,6 @@
 "use client";
 
-import type { Digest, DigestEntry } from "@rss-wrangler/contracts";
+import { type Digest, type DigestEntry, digestSectionHeadings } from "@rss-wrangler/contracts";
 import { useEffect, useState } from "react";
 import { ProtectedRoute } from "@/components/protected-route";
 import { listDigests } from "@/lib/api";
@@ -90,16 +90,18 @@ function DigestContent() {
     });
   }, []);
 
-  function renderSection(label: string, entries: DigestEntry[]) {
+  function renderSection(id: string, label: string, entries: DigestEntry[]) {
     if (entries.length === 0) return null;
     return (
-      <div className="digest-section">
+      <div key={id} className="digest-section">
         <h3>{label}</h3>
         <ul className="list">
           {entries.map((entry) => (
             <li key={entry.clusterId}>
               <strong>{entry.headline}</strong>
-              {entry.oneLiner ? <span className="muted"> - {stripHtml(entry.oneLiner)}</span> : null}
+              {entry.oneLiner ? (
+                <span className="muted"> - {stripHtml(entry.oneLiner)}</span>
+              ) : null}
             </li>
           ))}
         </ul>
@@ -111,7 +113,7 @@ function DigestContent() {
     <>
       <div className="page-header">
         <h1 className="page-title">Digest</h1>
-        <p className="page-meta">Top picks, big stories, and quick scan.</p>
+        <p className="page-meta">Your unread stories, grouped into sections.</p>
       </div>
 
       <section className="banner">
@@ -144,17 +146,12 @@ function DigestContent() {
                       className="digest-markdown"
                       dangerouslySetInnerHTML={{ __html: simpleMarkdownToHtml(digest.body) }}
                     />
-                    {renderSection(
-                      "Top picks for you",
-                      digest.entries.filter((e) => e.section === "top_picks"),
-                    )}
-                    {renderSection(
-                      "Big stories",
-                      digest.entries.filter((e) => e.section === "big_stories"),
-                    )}
-                    {renderSection(
-                      "Quick scan",
-                      digest.entries.filter((e) => e.section === "quick_scan"),
+                    {digestSectionHeadings(digest).map((section) =>
+                      renderSection(
+                        section.id,
+                        section.title,
+                        digest.entries.filter((e) => e.section === section.id),
+                      ),
                     )}
                   </div>
                 )}
@@ -0,0 +1,316 @@
+"use client";
+
+import type {
+  AnnotationColor,
+  Highlight,
+  HighlightExportFormat,
+  HighlightExportStatus,
+  HighlightExportTarget,
+} from "@rss-wrangler/contracts";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/protected-route";
+import {
+  downloadHighlights,
+  listHighlightExportStatus,
+  listHighlights,
+  pushHighlightsToReadwise,
+} from "@/lib/api";
+
+const COLOR_TABS: { value: AnnotationColor | null; label: string }[] = [
+  { value: null, label: "All" },
+  { value: "yellow", label: "Yellow" },
+  { value: "green", label: "Green" },
+  { value: "blue", label: "Blue" },
+  { value: "pink", label: "Pink" },
+];
+
+const COLOR_SWATCHES: Record<AnnotationColor, string> = {
+  yellow: "#fef08a",
+  green: "#bbf7d0",
+  blue: "#bfdbfe",
+  pink: "#fbcfe8",
+};
+
+const FILE_EXPORTS: { format: HighlightExportFormat; label: string; hint: string }[] = [
+  {
+    format: "markdown",
+    label: "Markdown",
+    hint: "A zip with one .md file per story and front-matter for source, URL and date.",
+  },
+  {
+    format: "obsidian",
+    label: "Obsidian",
+    hint: "Unzip into your vault: notes land in RSS Wrangler/Highlights with tags and block ids.",
+  },
+  {
+    format: "readwise_csv",
+    label: "Readwise CSV",
+    hint: "Upload at readwise.io/import_bulk.",
+  },
+];
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "never";
+}
+
+function ExportPanel() {
+  const [statuses, setStatuses] = useState<HighlightExportStatus[]>([]);
+  const [busy, setBusy] = useState<HighlightExportTarget | null>(null);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  const refresh = useCallback(async () => {
+    setStatuses(await listHighlightExportStatus());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  function statusFor(target: HighlightExportTarget) {
+    return statuses.find((status) => status.target === target);
+  }
+
+  async function handleDownload(format: HighlightExportFormat, incremental: boolean) {
+    setError("");
+    setMessage("");
+    setBusy(format);
+    const result = await downloadHighlights(format, incremental);
+    setBusy(null);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    await refresh();
+  }
+
+  async function handleReadwise(incremental: boolean) {
+    setError("");
+    setMessage("");
+    setBusy("readwise_api");
+    const response = await pushHighlightsToReadwise({ incremental });
+    setBusy(null);
+    if (!response.ok) {
+      setError(response.error);
+      return;
+    }
+    setMessage(
+      response.result.exported === 0
+        ? "Readwise is already up to date."
+        : `Sent ${response.result.exported} highlights to Readwise.`,
+    );
+    await refresh();
+  }
+
+  const readwise = statusFor("readwise_api");
+
+  return (
+    <section className="section-card">
+      <h2>Export</h2>
+      <p className="muted">
+        &quot;New only&quot; includes highlights made since your last export in the same format.
+        Markdown and Obsidian exports include every highlight of a story that has new ones, so the
+        files can replace the previous copies.
+      </p>
+      {error ? <p className="error-text">{error}</p> : null}
+      {message ? <p className="muted">{message}</p> : null}
+      <table className="feed-table">
+        <thead>
+          <tr>
+            <th>Format</th>
+            <th>Last export</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {FILE_EXPORTS.map((option) => {
+            const status = statusFor(option.format);
+            return (
+              <tr key={option.format}>
+                <td>
+                  {option.label}
+                  <span className="muted"> - {option.hint}</span>
+                </td>
+                <td>{formatDate(status?.lastExportedAt ?? null)}</td>
+                <td>
+                  <div className="key-edit-row">
+                    <button
+                      type="button"
+                      className="button button-small"
+                      disabled={busy !== null}
+                      onClick={() => handleDownload(option.format, false)}
+                    >
+                      All
+                    </button>
+                    <button
+                      type="button"
+                      className="button button-small button-primary"
+                      disabled={busy !== null || status?.pendingCount === 0}
+                      onClick={() => handleDownload(option.format, true)}
+                    >
+                      New only ({status?.pendingCount ?? 0})
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+          <tr>
+            <td>
+              Readwise API
+              <span className="muted">
+                {" "}
+                - uses the token of your Readwise connection under{" "}
+                <Link href="/account/read-later">read-later services</Link>.
+              </span>
+            </td>
+            <td>{formatDate(readwise?.lastExportedAt ?? null)}</td>
+            <td>
+              <div className="key-edit-row">
+                <button
+                  type="button"
+                  className="button button-small"
+                  disabled={busy !== null}
+                  onClick={() => handleReadwise(false)}
+                >
+                  All
+                </button>
+                <button
+                  type="button"
+                  className="button button-small button-primary"
+                  disabled={busy !== null || readwise?.pendingCount === 0}
+                  onClick={() => handleReadwise(true)}
+                >
+                  {busy === "readwise_api"
+                    ? "Sending..."
+                    : `New only (${readwise?.pendingCount ?? 0})`}
+                </button>
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function HighlightsLibrary() {
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [color, setColor] = useState<AnnotationColor | null>(null);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    listHighlights({ q: search || undefined, color: color ?? undefined }).then((page) => {
+      setHighlights(page.data);
+      setNextCursor(page.nextCursor);
+      setLoading(false);
+    });
+  }, [search, color]);
+
+  async function handleLoadMore() {
+    if (!nextCursor) return;
+    const page = await listHighlights({
+      q: search || undefined,
+      color: color ?? undefined,
+      cursor: nextCursor,
+    });
+    setHighlights((prev) => [...prev, ...page.data]);
+    setNextCursor(page.nextCursor);
+  }
+
+  return (
+    <>
+      <div className="page-header">
+        <h1 className="page-title">Highlights</h1>
+        <p className="page-meta">
+          <span className="count">{highlights.length} highlights</span>
+        </p>
+      </div>
+
+      <ExportPanel />
+
+      <form
+        className="key-edit-row"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(query.trim());
+        }}
+      >
+        <input
+          type="search"
+          className="search-input"
+          value={query}
+          placeholder="Search highlights, notes and titles"
+          aria-label="Search highlights"
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <button type="submit" className="button button-small">
+          Search
+        </button>
+      </form>
+
+      <nav className="topic-filters" aria-label="Highlight colors">
+        <div className="topic-filters-inner">
+          {COLOR_TABS.map((tab) => (
+            <button
+              key={tab.label}
+              type="button"
+              className={`topic-tab ${color === tab.value ? "active" : ""}`}
+              aria-pressed={color === tab.value}
+              onClick={() => setColor(tab.value)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </nav>
+
+      <section className="annotations-list">
+        {loading ? (
+          <p className="muted">Loading...</p>
+        ) : highlights.length === 0 ? (
+          <p className="muted">
+            {search || color
+              ? "No highlights match."
+              : "No highlights yet. Select text in a story to highlight it."}
+          </p>
+        ) : (
+          highlights.map((highlight) => (
+            <article key={highlight.id} className="annotation-item">
+              <blockquote
+                className="annotation-quote"
+                style={{ borderLeftColor: COLOR_SWATCHES[highlight.color] }}
+              >
+                {highlight.highlightedText}
+              </blockquote>
+              {highlight.note ? <p className="annotation-note">{highlight.note}</p> : null}
+              <p className="muted highlight-source">
+                <Link href={`/clusters/${highlight.clusterId}`}>{highlight.storyTitle}</Link>
+                {highlight.feedTitle ? ` · ${highlight.feedTitle}` : ""}
+                {` · ${new Date(highlight.createdAt).toLocaleDateString()}`}
+              </p>
+            </article>
+          ))
+        )}
+        {nextCursor ? (
+          <button type="button" className="button button-small" onClick={handleLoadMore}>
+            Load more
+          </button>
+        ) : null}
+      </section>
+    </>
+  );
+}
+
+export default function HighlightsPage() {
+  return (
+    <ProtectedRoute>
+      <HighlightsLibrary />
+    </ProtectedRoute>
+  );
+}
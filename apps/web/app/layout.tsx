@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { JetBrains_Mono, Space_Grotesk } from "next/font/google";
+import { AudioPlayerProvider } from "@/components/audio-player";
 import { AuthProvider } from "@/components/auth-provider";
 import { AppNav } from "@/components/nav";
 import { PrivacyConsentManager } from "@/components/privacy-consent-manager";
@@ -31,16 +32,18 @@ export default function RootLayout({ children }: { children: React.ReactNode })
     <html lang="en" className={`${mono.variable} ${sans.variable}`}>
       <body>
         <AuthProvider>
-          <div className="app-shell">
-            <a href="#main-content" className="skip-to-main">
-              Skip to main content
-            </a>
-            <AppNav />
-            <main id="main-content" className="main">
-              {children}
-            </main>
-            {privacyConsentEnabled ? <PrivacyConsentManager /> : null}
-          </div>
+          <AudioPlayerProvider>
+            <div className="app-shell">
+              <a href="#main-content" className="skip-to-main">
+                Skip to main content
+              </a>
+              <AppNav />
+              <main id="main-content" className="main">
+                {children}
+              </main>
+              {privacyConsentEnabled ? <PrivacyConsentManager /> : null}
+            </div>
+          </AudioPlayerProvider>
         </AuthProvider>
       </body>
     </html>
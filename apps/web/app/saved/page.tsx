@@ -1,20 +1,60 @@
 "use client";
 
-import type { ClusterCard } from "@rss-wrangler/contracts";
+import type { ClusterCard, ReadLaterDelivery } from "@rss-wrangler/contracts";
 import { useEffect, useState } from "react";
 import { ProtectedRoute } from "@/components/protected-route";
 import { StoryCard } from "@/components/story-card";
-import { listClusters } from "@/lib/api";
+import { listClusters, listReadLaterDeliveries } from "@/lib/api";
+
+type SavedScope = "saved" | "shared";
+
+const SCOPE_TABS: { value: SavedScope; label: string }[] = [
+  { value: "saved", label: "Mine" },
+  { value: "shared", label: "Team" },
+];
+
+const DELIVERY_STATUS_LABELS: Record<ReadLaterDelivery["status"], string> = {
+  pending: "sending",
+  succeeded: "sent",
+  failed: "failed",
+};
+
+function ReadLaterStatus({ deliveries }: { deliveries: ReadLaterDelivery[] }) {
+  return (
+    <p className="muted read-later-status">
+      {deliveries.map((delivery, position) => (
+        <span key={delivery.id} title={delivery.lastError ?? undefined}>
+          {position > 0 ? " · " : ""}
+          {delivery.connectionLabel}: {DELIVERY_STATUS_LABELS[delivery.status]}
+          {delivery.status === "failed" && delivery.lastError ? ` (${delivery.lastError})` : ""}
+        </span>
+      ))}
+    </p>
+  );
+}
 
 function SavedFeed() {
+  const [scope, setScope] = useState<SavedScope>("saved");
   const [clusters, setClusters] = useState<ClusterCard[]>([]);
   const [loading, setLoading] = useState(true);
+  const [deliveries, setDeliveries] = useState<Map<string, ReadLaterDelivery[]>>(new Map());
 
   useEffect(() => {
-    listClusters({ state: "saved", sort: "latest", limit: 50 }).then((result) => {
+    setLoading(true);
+    listClusters({ state: scope, sort: "latest", limit: 50 }).then((result) => {
       setClusters(result.data);
       setLoading(false);
     });
+  }, [scope]);
+
+  useEffect(() => {
+    listReadLaterDeliveries().then((result) => {
+      const byCluster = new Map<string, ReadLaterDelivery[]>();
+      for (const delivery of result) {
+        byCluster.set(delivery.clusterId, [...(byCluster.get(delivery.clusterId) ?? []), delivery]);
+      }
+      setDeliveries(byCluster);
+    });
   }, []);
 
   function handleRemove(id: string) {
@@ -29,15 +69,40 @@ function SavedFeed() {
           <span className="count">{clusters.length} stories</span>
         </p>
       </div>
+      <nav className="topic-filters" aria-label="Saved collections">
+        <div className="topic-filters-inner">
+          {SCOPE_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              className={`topic-tab ${scope === tab.value ? "active" : ""}`}
+              aria-pressed={scope === tab.value}
+              onClick={() => setScope(tab.value)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </nav>
       <section className="cards">
         {loading ? (
           <p className="muted">Loading...</p>
         ) : clusters.length === 0 ? (
-          <p className="muted">No saved stories yet.</p>
+          <p className="muted">
+            {scope === "shared"
+              ? 'Nothing in the team collection yet. Use "Add to team saved" on any story.'
+              : "No saved stories yet."}
+          </p>
         ) : (
-          clusters.map((cluster) => (
-            <StoryCard key={cluster.id} cluster={cluster} onRemove={handleRemove} />
-          ))
+          clusters.map((cluster) => {
+            const sent = deliveries.get(cluster.id);
+            return (
+              <div key={cluster.id}>
+                <StoryCard cluster={cluster} onRemove={handleRemove} />
+                {sent ? <ReadLaterStatus deliveries={sent} /> : null}
+              </div>
+            );
+          })
         )}
       </section>
     </>
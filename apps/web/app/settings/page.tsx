@@ -1,47 +1,90 @@
 "use client";
 
-import type {
-  AccountDeletionStatus,
-  AccountEntitlements,
-  AiMode,
-  AiUsageSummary,
-  BillingInterval,
-  BillingOverview,
-  Feed,
-  FilterMode,
-  FilterRule,
-  FilterTarget,
-  FilterType,
-  Folder,
-  HostedPlanId,
-  Member,
-  Settings,
+import {
+  type AccountDeletionStatus,
+  type AccountEntitlements,
+  type AiMode,
+  type AiUsageSummary,
+  type ApiToken,
+  type ApiTokenScope,
+  type BillingInterval,
+  type BillingOverview,
+  type ClientApiCredentialStatus,
+  type DigestOneLiner,
+  type DigestPreview,
+  type DigestSectionOrder,
+  type DigestSectionRule,
+  type Feed,
+  type FeedOutput,
+  type FeedOutputFormat,
+  type FeedOutputKind,
+  type FilterMode,
+  type FilterRule,
+  type FilterTarget,
+  type FilterType,
+  type Folder,
+  type HostedPlanId,
+  type Member,
+  type MemberSettingKey,
+  type SavedSearch,
+  type Settings,
+  type SettingsView,
+  type WebhookDelivery,
+  type WebhookEventType,
+  type WebhookSubscription,
+  workspaceSettingKeys,
 } from "@rss-wrangler/contracts";
-import { type FormEvent, useCallback, useEffect, useRef, useState } from "react";
+import { type FormEvent, type ReactNode, useCallback, useEffect, useRef, useState } from "react";
 import { NotificationToggle } from "@/components/notification-toggle";
 import { ProtectedRoute } from "@/components/protected-route";
 import {
   cancelAccountDeletion,
   changePassword,
+  createApiToken,
   createBillingCheckout,
+  createFeedOutput,
   createFilter,
+  createWebhook,
+  deleteFeedOutput,
   deleteFilter,
+  deleteWebhook,
+  feedOutputUrl,
   getAccountDeletionStatus,
   getAccountEntitlements,
   getAiUsage,
   getBillingOverview,
   getBillingPortalUrl,
+  getClientApiStatus,
   getCurrentUserId,
+  getFeverEndpointUrl,
+  getGReaderEndpointUrl,
   getSettings,
   listAccountMembers,
+  listApiTokens,
+  listFeedOutputs,
   listFeeds,
   listFilters,
   listFolders,
+  listTopics,
+  listWebhookDeliveries,
+  listWebhooks,
+  previewDigest,
   removeMember,
   requestAccountDeletion,
+  revokeApiToken,
+  revokeClientApiPassword,
+  rotateFeedOutput,
+  sendWebhookTest,
+  setClientApiPassword,
   updateBillingSubscription,
   updateSettings,
+  updateWebhook,
+  updateWorkspaceSettings,
 } from "@/lib/api";
+import { stripHtml } from "@/lib/strip-html";
+
+const WORKSPACE_SETTING_KEYS = new Set<string>(workspaceSettingKeys);
+const DIGEST_DELIVERY_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
 
 function relativeTime(iso: string | null): string {
   if (!iso) return "Never";
@@ -231,6 +274,1070 @@ function MembersSection() {
   );
 }
 
+function ClientApiSection() {
+  const [status, setStatus] = useState<ClientApiCredentialStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      const result = await getClientApiStatus();
+      setStatus(result);
+      setLoading(false);
+    }
+    load();
+  }, []);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    const result = await setClientApiPassword(password);
+    if (result.ok) {
+      setStatus(result.status);
+      setPassword("");
+    } else {
+      setError(result.error);
+    }
+    setBusy(false);
+  }
+
+  async function handleRevoke() {
+    setBusy(true);
+    setError("");
+    const ok = await revokeClientApiPassword();
+    if (ok) {
+      setStatus((prev) =>
+        prev ? { ...prev, enabled: false, createdAt: null, lastUsedAt: null } : prev,
+      );
+    } else {
+      setError("Could not revoke client API password.");
+    }
+    setBusy(false);
+  }
+
+  return (
+    <section className="section-card" id="client-apps">
+      <h2>Client apps</h2>
+      <p className="muted">
+        Connect Reeder, NetNewsWire, Unread, ReadKit or other Fever and Google Reader compatible
+        apps. Set a separate password here; your login password is never shared with those apps.
+      </p>
+
+      {loading ? (
+        <p className="muted">Loading...</p>
+      ) : (
+        <div className="settings-form">
+          <p className="muted">
+            Fever server URL: <code>{getFeverEndpointUrl()}</code>
+            <br />
+            Google Reader server URL: <code>{getGReaderEndpointUrl()}</code>
+            <br />
+            Username: <code>{status?.username ?? "\u2014"}</code> (includes your workspace; enter it
+            exactly as shown)
+          </p>
+          {status?.enabled ? (
+            <p className="muted">
+              Enabled {relativeTime(status.createdAt)} &middot; last used{" "}
+              {relativeTime(status.lastUsedAt)}
+            </p>
+          ) : (
+            <p className="muted">No client API password set.</p>
+          )}
+
+          <form onSubmit={handleSubmit} className="settings-form">
+            <label>
+              {status?.enabled ? "Replace client API password" : "Client API password"}
+              <input
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input"
+                required
+              />
+            </label>
+            {error ? (
+              <p className="error-text" role="alert">
+                {error}
+              </p>
+            ) : null}
+            <button type="submit" className="button button-primary" disabled={busy}>
+              {busy ? "Saving..." : "Save password"}
+            </button>
+          </form>
+
+          {status?.enabled ? (
+            <button
+              type="button"
+              className="button button-danger"
+              disabled={busy}
+              onClick={handleRevoke}
+            >
+              Revoke access
+            </button>
+          ) : null}
+        </div>
+      )}
+    </section>
+  );
+}
+
+const API_TOKEN_SCOPES: Array<{ scope: ApiTokenScope; label: string }> = [
+  { scope: "clusters:read", label: "Read stories" },
+  { scope: "feeds:write", label: "Manage feeds" },
+  { scope: "filters:manage", label: "Manage filters" },
+  { scope: "export", label: "Export data" },
+];
+
+function ApiTokensSection() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["clusters:read"]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      setTokens(await listApiTokens());
+      setLoading(false);
+    }
+    load();
+  }, []);
+
+  function toggleScope(scope: ApiTokenScope, checked: boolean) {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  }
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    const result = await createApiToken({
+      name,
+      scopes,
+      expiresInDays: expiresInDays === "never" ? null : Number(expiresInDays),
+    });
+    if (result.ok) {
+      setTokens((prev) => [result.created.apiToken, ...prev]);
+      setCreatedToken(result.created.token);
+      setName("");
+    } else {
+      setError(result.error);
+    }
+    setBusy(false);
+  }
+
+  async function handleRevoke(id: string) {
+    setBusy(true);
+    setError("");
+    const ok = await revokeApiToken(id);
+    if (ok) {
+      setTokens((prev) =>
+        prev.map((t) => (t.id === id ? { ...t, revokedAt: new Date().toISOString() } : t)),
+      );
+    } else {
+      setError("Could not revoke API token.");
+    }
+    setBusy(false);
+  }
+
+  return (
+    <section className="section-card" id="api-tokens">
+      <h2>API tokens</h2>
+      <p className="muted">
+        Personal tokens for scripts and integrations. Send them as{" "}
+        <code>Authorization: Bearer &lt;token&gt;</code>; each token can only reach the routes its
+        scopes allow.
+      </p>
+
+      {createdToken ? (
+        <p className="muted" role="status">
+          Copy this token now, it will not be shown again: <code>{createdToken}</code>
+        </p>
+      ) : null}
+
+      <form onSubmit={handleCreate} className="settings-form">
+        <label>
+          Name
+          <input
+            type="text"
+            maxLength={100}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="input"
+            required
+          />
+        </label>
+        {API_TOKEN_SCOPES.map(({ scope, label }) => (
+          <label key={scope} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={scopes.includes(scope)}
+              onChange={(e) => toggleScope(scope, e.target.checked)}
+            />
+            {label}
+          </label>
+        ))}
+        <label>
+          Expires
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            className="input"
+          >
+            <option value="30">In 30 days</option>
+            <option value="90">In 90 days</option>
+            <option value="365">In 1 year</option>
+            <option value="never">Never</option>
+          </select>
+        </label>
+        {error ? (
+          <p className="error-text" role="alert">
+            {error}
+          </p>
+        ) : null}
+        <button
+          type="submit"
+          className="button button-primary"
+          disabled={busy || scopes.length === 0}
+        >
+          {busy ? "Creating..." : "Create token"}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="muted">Loading...</p>
+      ) : tokens.length === 0 ? (
+        <p className="muted">No API tokens yet.</p>
+      ) : (
+        <table className="feed-table">
+          <thead>
+            <tr>
+              <th scope="col">Name</th>
+              <th scope="col">Token</th>
+              <th scope="col">Scopes</th>
+              <th scope="col">Last used</th>
+              <th scope="col">Expires</th>
+              <th scope="col">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((t) => (
+              <tr key={t.id}>
+                <td>{t.name}</td>
+                <td>
+                  <code>{t.tokenPrefix}&hellip;</code>
+                </td>
+                <td className="muted">{t.scopes.join(", ")}</td>
+                <td className="muted">{relativeTime(t.lastUsedAt)}</td>
+                <td className="muted">
+                  {t.expiresAt ? new Date(t.expiresAt).toLocaleDateString() : "Never"}
+                </td>
+                <td>
+                  {t.revokedAt ? (
+                    <span className="badge badge-rejected">Revoked</span>
+                  ) : (
+                    <button
+                      type="button"
+                      className="button button-small button-danger"
+                      disabled={busy}
+                      onClick={() => handleRevoke(t.id)}
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+const FEED_OUTPUT_KINDS: Array<{ kind: FeedOutputKind; label: string }> = [
+  { kind: "digest", label: "Digest" },
+  { kind: "folder", label: "Folder" },
+  { kind: "topic", label: "Topic" },
+  { kind: "saved_search", label: "Saved search" },
+];
+
+const FEED_OUTPUT_FORMATS: Array<{ format: FeedOutputFormat; label: string }> = [
+  { format: "atom", label: "Atom" },
+  { format: "rss", label: "RSS 2.0" },
+  { format: "json", label: "JSON Feed" },
+];
+
+function FeedOutputsSection({ savedSearches }: { savedSearches: SavedSearch[] }) {
+  const [outputs, setOutputs] = useState<FeedOutput[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [topics, setTopics] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<FeedOutputKind>("digest");
+  const [targetId, setTargetId] = useState("");
+  const [issued, setIssued] = useState<{ name: string; token: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      const [loadedOutputs, loadedFolders, loadedTopics] = await Promise.all([
+        listFeedOutputs(),
+        listFolders(),
+        listTopics(),
+      ]);
+      setOutputs(loadedOutputs);
+      setFolders(loadedFolders);
+      setTopics(loadedTopics);
+      setLoading(false);
+    }
+    load();
+  }, []);
+
+  const targets: Array<{ id: string; name: string }> =
+    kind === "folder"
+      ? folders
+      : kind === "topic"
+        ? topics
+        : kind === "saved_search"
+          ? savedSearches
+          : [];
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    const result = await createFeedOutput({
+      kind,
+      targetId: kind === "digest" ? null : targetId,
+    });
+    if (result.ok) {
+      setOutputs((prev) => [result.created.output, ...prev]);
+      setIssued({ name: result.created.output.name, token: result.created.token });
+    } else {
+      setError(result.error);
+    }
+    setBusy(false);
+  }
+
+  async function handleRotate(id: string) {
+    setBusy(true);
+    setError("");
+    const rotated = await rotateFeedOutput(id);
+    if (rotated) {
+      setOutputs((prev) => prev.map((o) => (o.id === id ? rotated.output : o)));
+      setIssued({ name: rotated.output.name, token: rotated.token });
+    } else {
+      setError("Could not rotate feed URL.");
+    }
+    setBusy(false);
+  }
+
+  async function handleDelete(id: string) {
+    setBusy(true);
+    setError("");
+    const ok = await deleteFeedOutput(id);
+    if (ok) {
+      setOutputs((prev) => prev.filter((o) => o.id !== id));
+    } else {
+      setError("Could not delete feed output.");
+    }
+    setBusy(false);
+  }
+
+  return (
+    <section className="section-card" id="feed-outputs">
+      <h2>Feed outputs</h2>
+      <p className="muted">
+        Re-publish your digests, or any folder, topic or saved search, as a filtered and
+        deduplicated feed other readers can subscribe to without logging in. Anyone with the URL can
+        read the feed; rotate it to cut off old copies.
+      </p>
+
+      {issued ? (
+        <div className="muted" role="status">
+          <p>Copy the URLs for {issued.name} now, they will not be shown again:</p>
+          <ul>
+            {FEED_OUTPUT_FORMATS.map(({ format, label }) => (
+              <li key={format}>
+                {label}: <code>{feedOutputUrl(issued.token, format)}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <form onSubmit={handleCreate} className="settings-form">
+        <label>
+          Publish
+          <select
+            value={kind}
+            onChange={(e) => {
+              setKind(e.target.value as FeedOutputKind);
+              setTargetId("");
+            }}
+            className="input"
+          >
+            {FEED_OUTPUT_KINDS.map((option) => (
+              <option key={option.kind} value={option.kind}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {kind !== "digest" ? (
+          <label>
+            {FEED_OUTPUT_KINDS.find((option) => option.kind === kind)?.label}
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="input"
+              required
+            >
+              <option value="">Choose...</option>
+              {targets.map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+        {error ? (
+          <p className="error-text" role="alert">
+            {error}
+          </p>
+        ) : null}
+        <button
+          type="submit"
+          className="button button-primary"
+          disabled={busy || (kind !== "digest" && !targetId)}
+        >
+          {busy ? "Creating..." : "Create feed"}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="muted">Loading...</p>
+      ) : outputs.length === 0 ? (
+        <p className="muted">No feed outputs yet.</p>
+      ) : (
+        <table className="feed-table">
+          <thead>
+            <tr>
+              <th scope="col">Name</th>
+              <th scope="col">Source</th>
+              <th scope="col">Token</th>
+              <th scope="col">Last fetched</th>
+              <th scope="col">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {outputs.map((o) => (
+              <tr key={o.id}>
+                <td>{o.name}</td>
+                <td className="muted">
+                  {FEED_OUTPUT_KINDS.find((option) => option.kind === o.kind)?.label}
+                </td>
+                <td>
+                  <code>{o.tokenPrefix}&hellip;</code>
+                </td>
+                <td className="muted">{relativeTime(o.lastUsedAt)}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    disabled={busy}
+                    onClick={() => handleRotate(o.id)}
+                  >
+                    Rotate URL
+                  </button>{" "}
+                  <button
+                    type="button"
+                    className="button button-small button-danger"
+                    disabled={busy}
+                    onClick={() => handleDelete(o.id)}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+const DIGEST_SECTION_ORDERS: Array<{ order: DigestSectionOrder; label: string }> = [
+  { order: "rank", label: "Ranking" },
+  { order: "newest", label: "Newest first" },
+  { order: "most_outlets", label: "Most outlets first" },
+];
+
+const DIGEST_ONE_LINERS: Array<{ oneLiner: DigestOneLiner; label: string }> = [
+  { oneLiner: "summary", label: "Article summary" },
+  { oneLiner: "ai", label: "AI summary when available" },
+  { oneLiner: "none", label: "Headline only" },
+];
+
+function newDigestSection(existing: DigestSectionRule[]): DigestSectionRule {
+  let n = existing.length + 1;
+  while (existing.some((rule) => rule.id === `section-${n}`)) n++;
+  return {
+    id: `section-${n}`,
+    title: `Section ${n}`,
+    folderIds: [],
+    topicIds: [],
+    feedIds: [],
+    preferredSourcesOnly: false,
+    savedSearchId: null,
+    minOutlets: 1,
+    limit: 5,
+    order: "rank",
+    oneLiner: "summary",
+  };
+}
+
+function selectedValues(select: HTMLSelectElement): string[] {
+  return Array.from(select.selectedOptions, (option) => option.value);
+}
+
+function DigestSectionsSection({
+  sections,
+  savedSearches,
+  folders,
+  feeds,
+  locked,
+  label,
+  onSave,
+}: {
+  sections: DigestSectionRule[];
+  savedSearches: SavedSearch[];
+  folders: Folder[];
+  feeds: Feed[];
+  locked: boolean;
+  label: ReactNode;
+  onSave: (sections: DigestSectionRule[]) => void;
+}) {
+  const [draft, setDraft] = useState<DigestSectionRule[]>(sections);
+  const [topics, setTopics] = useState<Array<{ id: string; name: string }>>([]);
+  const [preview, setPreview] = useState<DigestPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    listTopics().then(setTopics);
+  }, []);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(sections);
+
+  function updateRule(index: number, patch: Partial<DigestSectionRule>) {
+    setDraft((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  }
+
+  function moveRule(index: number, offset: number) {
+    setDraft((prev) => {
+      const next = [...prev];
+      const [rule] = next.splice(index, 1);
+      if (rule) next.splice(index + offset, 0, rule);
+      return next;
+    });
+  }
+
+  async function handlePreview() {
+    setBusy(true);
+    setError("");
+    const result = await previewDigest({ sections: draft });
+    if (result) {
+      setPreview(result);
+    } else {
+      setError("Could not build a preview. Check that every section has a title.");
+    }
+    setBusy(false);
+  }
+
+  return (
+    <section className="section-card" id="digest-sections">
+      <h2>{label}</h2>
+      <p className="muted">
+        Sections are filled in order from your ranked unread stories, and each story appears once,
+        so put narrow sections first and a catch-all last. Folder, topic and feed choices widen a
+        section; the other options narrow it. With no sections, digests use Top Picks, Big Stories
+        and Quick Scan.
+      </p>
+
+      {draft.map((rule, index) => (
+        <fieldset key={rule.id} className="settings-form" disabled={locked}>
+          <div className="settings-grid">
+            <label>
+              Title
+              <input
+                type="text"
+                maxLength={60}
+                value={rule.title}
+                onChange={(e) => updateRule(index, { title: e.target.value })}
+                className="input"
+              />
+            </label>
+            <label>
+              Stories
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={rule.limit}
+                onChange={(e) => updateRule(index, { limit: Number(e.target.value) })}
+                className="input"
+              />
+            </label>
+            <label>
+              Minimum outlets
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={rule.minOutlets}
+                onChange={(e) => updateRule(index, { minOutlets: Number(e.target.value) })}
+                className="input"
+              />
+            </label>
+            <label>
+              Order
+              <select
+                value={rule.order}
+                onChange={(e) => updateRule(index, { order: e.target.value as DigestSectionOrder })}
+              >
+                {DIGEST_SECTION_ORDERS.map((option) => (
+                  <option key={option.order} value={option.order}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              One-liner
+              <select
+                value={rule.oneLiner}
+                onChange={(e) => updateRule(index, { oneLiner: e.target.value as DigestOneLiner })}
+              >
+                {DIGEST_ONE_LINERS.map((option) => (
+                  <option key={option.oneLiner} value={option.oneLiner}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Saved search
+              <select
+                value={rule.savedSearchId ?? ""}
+                onChange={(e) => updateRule(index, { savedSearchId: e.target.value || null })}
+              >
+                <option value="">Any story</option>
+                {savedSearches.map((search) => (
+                  <option key={search.id} value={search.id}>
+                    {search.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Folders
+              <select
+                multiple
+                value={rule.folderIds}
+                onChange={(e) => updateRule(index, { folderIds: selectedValues(e.target) })}
+              >
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    {folder.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Topics
+              <select
+                multiple
+                value={rule.topicIds}
+                onChange={(e) => updateRule(index, { topicIds: selectedValues(e.target) })}
+              >
+                {topics.map((topic) => (
+                  <option key={topic.id} value={topic.id}>
+                    {topic.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Feeds
+              <select
+                multiple
+                value={rule.feedIds}
+                onChange={(e) => updateRule(index, { feedIds: selectedValues(e.target) })}
+              >
+                {feeds.map((feed) => (
+                  <option key={feed.id} value={feed.id}>
+                    {feed.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={rule.preferredSourcesOnly}
+              onChange={(e) => updateRule(index, { preferredSourcesOnly: e.target.checked })}
+            />
+            Preferred sources only
+          </label>
+          <div>
+            <button
+              type="button"
+              className="button button-small"
+              disabled={index === 0}
+              onClick={() => moveRule(index, -1)}
+            >
+              Move up
+            </button>{" "}
+            <button
+              type="button"
+              className="button button-small"
+              disabled={index === draft.length - 1}
+              onClick={() => moveRule(index, 1)}
+            >
+              Move down
+            </button>{" "}
+            <button
+              type="button"
+              className="button button-small button-danger"
+              onClick={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+            >
+              Remove
+            </button>
+          </div>
+        </fieldset>
+      ))}
+
+      {error ? (
+        <p className="error-text" role="alert">
+          {error}
+        </p>
+      ) : null}
+      <div>
+        <button
+          type="button"
+          className="button"
+          disabled={locked || draft.length >= 12}
+          onClick={() => setDraft((prev) => [...prev, newDigestSection(prev)])}
+        >
+          Add section
+        </button>{" "}
+        <button type="button" className="button" disabled={busy} onClick={handlePreview}>
+          {busy ? "Previewing..." : "Preview"}
+        </button>{" "}
+        <button
+          type="button"
+          className="button button-primary"
+          disabled={locked || !dirty}
+          onClick={() => onSave(draft)}
+        >
+          Save sections
+        </button>
+      </div>
+
+      {preview ? (
+        <div className="digest-body" role="status">
+          <p className="muted">
+            {preview.entries.length} of {preview.candidateCount} unread stories from the last 24
+            hours would be included.
+          </p>
+          {preview.sections.map((section) => {
+            const entries = preview.entries.filter((entry) => entry.section === section.id);
+            return (
+              <div key={section.id} className="digest-section">
+                <h3>{section.title}</h3>
+                {entries.length === 0 ? (
+                  <p className="muted">No matching stories.</p>
+                ) : (
+                  <ul className="list">
+                    {entries.map((entry) => (
+                      <li key={entry.clusterId}>
+                        <strong>{entry.headline}</strong>
+                        {entry.oneLiner ? (
+                          <span className="muted"> - {stripHtml(entry.oneLiner)}</span>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+const WEBHOOK_EVENT_TYPES: Array<{ eventType: WebhookEventType; label: string }> = [
+  { eventType: "cluster.created", label: "New story" },
+  { eventType: "cluster.saved", label: "Story saved" },
+  { eventType: "annotation.created", label: "Annotation created" },
+  { eventType: "digest.generated", label: "Digest generated" },
+  { eventType: "feed.failed", label: "Feed failed" },
+];
+
+function deliveryBadgeClass(status: WebhookDelivery["status"]): string {
+  if (status === "succeeded") return "badge badge-approved";
+  if (status === "failed") return "badge badge-rejected";
+  return "badge badge-pending";
+}
+
+function WebhooksSection() {
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState("");
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>(["cluster.created"]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    async function load() {
+      setWebhooks(await listWebhooks());
+      setLoading(false);
+    }
+    load();
+  }, []);
+
+  const showDeliveries = useCallback(async (id: string) => {
+    setSelectedId(id);
+    setDeliveries(await listWebhookDeliveries(id));
+  }, []);
+
+  function toggleEventType(eventType: WebhookEventType, checked: boolean) {
+    setEventTypes((prev) => (checked ? [...prev, eventType] : prev.filter((t) => t !== eventType)));
+  }
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    const result = await createWebhook({ url, eventTypes });
+    if (result.ok) {
+      setWebhooks((prev) => [result.webhook, ...prev]);
+      setUrl("");
+    } else {
+      setError(result.error);
+    }
+    setBusy(false);
+  }
+
+  async function handleToggleEnabled(webhook: WebhookSubscription) {
+    setBusy(true);
+    setError("");
+    const result = await updateWebhook(webhook.id, { enabled: !webhook.enabled });
+    if (result.ok) {
+      setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? result.webhook : w)));
+    } else {
+      setError(result.error);
+    }
+    setBusy(false);
+  }
+
+  async function handleDelete(id: string) {
+    setBusy(true);
+    setError("");
+    const ok = await deleteWebhook(id);
+    if (ok) {
+      setWebhooks((prev) => prev.filter((w) => w.id !== id));
+      if (selectedId === id) {
+        setSelectedId(null);
+        setDeliveries([]);
+      }
+    } else {
+      setError("Could not delete webhook.");
+    }
+    setBusy(false);
+  }
+
+  async function handleTest(id: string) {
+    setBusy(true);
+    setError("");
+    const delivery = await sendWebhookTest(id);
+    if (delivery) {
+      await showDeliveries(id);
+    } else {
+      setError("Could not send test event.");
+    }
+    setBusy(false);
+  }
+
+  return (
+    <section className="section-card" id="webhooks">
+      <h2>Webhooks</h2>
+      <p className="muted">
+        POST a JSON event to your endpoint when something happens. Each request carries an{" "}
+        <code>X-Wrangler-Signature</code> header, an HMAC-SHA256 of{" "}
+        <code>&lt;timestamp&gt;.&lt;body&gt;</code> using the webhook secret. Failed deliveries are
+        retried with backoff.
+      </p>
+
+      <form onSubmit={handleCreate} className="settings-form">
+        <label>
+          Endpoint URL
+          <input
+            type="url"
+            maxLength={2048}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className="input"
+            placeholder="https://example.com/hooks/rss"
+            required
+          />
+        </label>
+        {WEBHOOK_EVENT_TYPES.map(({ eventType, label }) => (
+          <label key={eventType} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={eventTypes.includes(eventType)}
+              onChange={(e) => toggleEventType(eventType, e.target.checked)}
+            />
+            {label}
+          </label>
+        ))}
+        {error ? (
+          <p className="error-text" role="alert">
+            {error}
+          </p>
+        ) : null}
+        <button
+          type="submit"
+          className="button button-primary"
+          disabled={busy || eventTypes.length === 0}
+        >
+          {busy ? "Saving..." : "Add webhook"}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="muted">Loading...</p>
+      ) : webhooks.length === 0 ? (
+        <p className="muted">No webhooks yet.</p>
+      ) : (
+        <table className="feed-table">
+          <thead>
+            <tr>
+              <th scope="col">Endpoint</th>
+              <th scope="col">Events</th>
+              <th scope="col">Secret</th>
+              <th scope="col">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {webhooks.map((w) => (
+              <tr key={w.id}>
+                <td>
+                  <code>{w.url}</code>
+                  {w.enabled ? null : <span className="badge badge-pending">Disabled</span>}
+                </td>
+                <td className="muted">{w.eventTypes.join(", ")}</td>
+                <td>
+                  <code>{w.secret}</code>
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    disabled={busy}
+                    onClick={() => handleTest(w.id)}
+                  >
+                    Send test
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    disabled={busy}
+                    onClick={() => showDeliveries(w.id)}
+                  >
+                    History
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    disabled={busy}
+                    onClick={() => handleToggleEnabled(w)}
+                  >
+                    {w.enabled ? "Disable" : "Enable"}
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-small button-danger"
+                    disabled={busy}
+                    onClick={() => handleDelete(w.id)}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {selectedId ? (
+        deliveries.length === 0 ? (
+          <p className="muted">No deliveries yet for this webhook.</p>
+        ) : (
+          <table className="feed-table">
+            <thead>
+              <tr>
+                <th scope="col">Event</th>
+                <th scope="col">Status</th>
+                <th scope="col">Attempts</th>
+                <th scope="col">Response</th>
+                <th scope="col">Created</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((d) => (
+                <tr key={d.id}>
+                  <td>{d.eventType}</td>
+                  <td>
+                    <span className={deliveryBadgeClass(d.status)}>{d.status}</span>
+                  </td>
+                  <td className="muted">{d.attemptCount}</td>
+                  <td className="muted">{d.lastError ?? d.lastStatusCode ?? ""}</td>
+                  <td className="muted">{relativeTime(d.createdAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      ) : null}
+    </section>
+  );
+}
+
 function budgetBarColor(percent: number | null): string {
   if (percent === null) return "var(--text-muted)";
   if (percent >= 90) return "var(--danger)";
@@ -443,6 +1550,7 @@ function formatLimit(value: number | null): string {
 }
 
 function formatSearchMode(mode: AccountEntitlements["searchMode"]): string {
+  if (mode === "semantic") return "Full text + semantic";
   return mode === "full_text" ? "Full text" : "Title + source";
 }
 
@@ -767,9 +1875,93 @@ function BillingSection() {
   );
 }
 
+const LOCKABLE_SETTING_GROUPS: { label: string; keys: MemberSettingKey[] }[] = [
+  { label: "Lock digest triggers", keys: ["digestAwayHours", "digestBacklogThreshold"] },
+  {
+    label: "Lock digest schedule",
+    keys: ["digestSchedule", "digestDeliveryHour", "digestTimezone"],
+  },
+  { label: "Lock digest sections", keys: ["digestSections"] },
+  {
+    label: "Lock mark-as-read behavior",
+    keys: [
+      "markReadOnScroll",
+      "markReadOnScrollListDelayMs",
+      "markReadOnScrollCompactDelayMs",
+      "markReadOnScrollCardDelayMs",
+      "markReadOnScrollListThreshold",
+      "markReadOnScrollCompactThreshold",
+      "markReadOnScrollCardThreshold",
+      "markReadOnScrollFeedOverrides",
+    ],
+  },
+  { label: "Lock saved searches", keys: ["savedSearches"] },
+  { label: "Lock Wallabag server URL", keys: ["wallabagUrl"] },
+];
+
+function WorkspacePolicySection({
+  settings,
+  onUpdated,
+}: {
+  settings: SettingsView;
+  onUpdated: (next: SettingsView) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleToggle(keys: MemberSettingKey[], locked: boolean) {
+    setBusy(true);
+    setError("");
+    const remaining = settings.lockedKeys.filter((key) => !keys.includes(key));
+    // Locking pins your current values as the workspace value for everyone.
+    const result = await updateWorkspaceSettings(
+      locked
+        ? {
+            lockedKeys: [...remaining, ...keys],
+            defaults: Object.fromEntries(keys.map((key) => [key, settings[key]])),
+          }
+        : { lockedKeys: remaining },
+    );
+    if (result) {
+      onUpdated(result);
+    } else {
+      setError("Could not update workspace policy.");
+    }
+    setBusy(false);
+  }
+
+  return (
+    <section className="section-card" id="workspace-policy">
+      <h2>Workspace policy</h2>
+      <p className="muted">
+        AI, polling and retention settings apply to every member. Personal preferences default to
+        your workspace values; lock one to stop members overriding it.
+      </p>
+      <div className="settings-form">
+        {LOCKABLE_SETTING_GROUPS.map((group) => (
+          <label key={group.label} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={group.keys.every((key) => settings.lockedKeys.includes(key))}
+              disabled={busy}
+              onChange={(e) => handleToggle(group.keys, e.target.checked)}
+            />
+            {group.label}
+          </label>
+        ))}
+        {error ? (
+          <p className="error-text" role="alert">
+            {error}
+          </p>
+        ) : null}
+      </div>
+    </section>
+  );
+}
+
 function SettingsContent() {
-  const [settings, setSettings] = useState<Settings | null>(null);
-  const [savedSettings, setSavedSettings] = useState<Settings | null>(null);
+  const [settings, setSettings] = useState<SettingsView | null>(null);
+  const [savedSettings, setSavedSettings] = useState<SettingsView | null>(null);
   const [filters, setFilters] = useState<FilterRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -830,7 +2022,7 @@ function SettingsContent() {
   const isDirty =
     settings && savedSettings ? JSON.stringify(settings) !== JSON.stringify(savedSettings) : false;
 
-  const doSave = useCallback(async (toSave: Settings, changedField?: string) => {
+  const doSave = useCallback(async (toSave: SettingsView, changedField?: string) => {
     setSaving(true);
     const result = await updateSettings(toSave);
     if (result) {
@@ -861,8 +2053,16 @@ function SettingsContent() {
     setSaving(false);
   }, []);
 
+  /** Policy keys, and personal keys the owner locked, are read-only for members. */
+  function isLocked(field: string): boolean {
+    if (!settings || settings.canManageWorkspace) return false;
+    return (
+      WORKSPACE_SETTING_KEYS.has(field) || settings.lockedKeys.includes(field as MemberSettingKey)
+    );
+  }
+
   function updateField<K extends keyof Settings>(field: K, value: Settings[K]) {
-    if (!settings) return;
+    if (!settings || isLocked(field)) return;
     const next = { ...settings, [field]: value };
     setSettings(next);
 
@@ -877,6 +2077,11 @@ function SettingsContent() {
     return (
       <>
         {label}
+        {isLocked(field) && (
+          <span className="key-status" style={{ color: "var(--text-muted)" }}>
+            LOCKED BY OWNER
+          </span>
+        )}
         {savingFields.has(field) && (
           <span className="key-status saved-indicator" style={{ color: "var(--text-muted)" }}>
             SAVING...
@@ -1028,10 +2233,16 @@ function SettingsContent() {
   const sections = [
     { id: "ai-settings", label: "AI Settings" },
     { id: "general", label: "General" },
+    { id: "digest-sections", label: "Digest sections" },
+    ...(settings.canManageWorkspace ? [{ id: "workspace-policy", label: "Workspace policy" }] : []),
     { id: "billing", label: "Billing" },
     { id: "ai-usage", label: "AI Usage" },
     { id: "members", label: "Members" },
     { id: "account", label: "Account" },
+    { id: "client-apps", label: "Client apps" },
+    { id: "api-tokens", label: "API tokens" },
+    { id: "feed-outputs", label: "Feed outputs" },
+    { id: "webhooks", label: "Webhooks" },
     { id: "account-deletion", label: "Danger Zone" },
     { id: "notifications", label: "Notifications" },
     { id: "filters", label: "Filters" },
@@ -1074,6 +2285,7 @@ function SettingsContent() {
               {fieldLabel("aiMode", "AI mode")}
               <select
                 value={settings.aiMode}
+                disabled={isLocked("aiMode")}
                 onChange={(e) => updateField("aiMode", e.target.value as AiMode)}
               >
                 <option value="off">Off</option>
@@ -1089,10 +2301,26 @@ function SettingsContent() {
                 min={0}
                 step={1}
                 value={settings.monthlyAiCapUsd}
+                disabled={isLocked("monthlyAiCapUsd")}
                 onChange={(e) => updateField("monthlyAiCapUsd", Number(e.target.value))}
                 className="input"
               />
             </label>
+
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={settings.semanticClusteringEnabled}
+                disabled={settings.aiMode === "off" || isLocked("semanticClusteringEnabled")}
+                onChange={(e) => updateField("semanticClusteringEnabled", e.target.checked)}
+              />
+              {fieldLabel("semanticClusteringEnabled", "Semantic clustering")}
+            </label>
+            <p className="muted">
+              Groups stories by meaning using text embeddings, so the same event reported with
+              different wording lands in one cluster. Headline matching is used when AI is off or no
+              embedding model is configured.
+            </p>
           </div>
         </section>
 
@@ -1106,6 +2334,7 @@ function SettingsContent() {
                 type="number"
                 min={1}
                 value={settings.digestAwayHours}
+                disabled={isLocked("digestAwayHours")}
                 onChange={(e) => updateField("digestAwayHours", Number(e.target.value))}
                 className="input"
               />
@@ -1117,17 +2346,80 @@ function SettingsContent() {
                 type="number"
                 min={1}
                 value={settings.digestBacklogThreshold}
+                disabled={isLocked("digestBacklogThreshold")}
                 onChange={(e) => updateField("digestBacklogThreshold", Number(e.target.value))}
                 className="input"
               />
             </label>
 
+            <label>
+              {fieldLabel("digestSchedule", "Digest schedule")}
+              <select
+                value={settings.digestSchedule}
+                disabled={isLocked("digestSchedule")}
+                onChange={(e) =>
+                  updateField("digestSchedule", e.target.value as Settings["digestSchedule"])
+                }
+              >
+                <option value="off">Off</option>
+                <option value="daily">Daily</option>
+                <option value="weekdays">Weekdays</option>
+                <option value="weekly">Weekly on Monday</option>
+              </select>
+            </label>
+
+            {settings.digestSchedule !== "off" ? (
+              <div className="settings-grid">
+                <label>
+                  {fieldLabel("digestDeliveryHour", "Delivery time")}
+                  <select
+                    value={settings.digestDeliveryHour}
+                    disabled={isLocked("digestDeliveryHour")}
+                    onChange={(e) => updateField("digestDeliveryHour", Number(e.target.value))}
+                  >
+                    {DIGEST_DELIVERY_HOURS.map((hour) => (
+                      <option key={hour} value={hour}>
+                        {`${String(hour).padStart(2, "0")}:00`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <label>
+                  {fieldLabel("digestTimezone", "Time zone")}
+                  <input
+                    type="text"
+                    placeholder="e.g. Europe/Berlin"
+                    value={settings.digestTimezone}
+                    disabled={isLocked("digestTimezone")}
+                    onChange={(e) => updateField("digestTimezone", e.target.value)}
+                    className="input"
+                  />
+                </label>
+
+                <label>
+                  {fieldLabel("digestChannel", "Deliver to")}
+                  <select
+                    value={settings.digestChannel}
+                    disabled={isLocked("digestChannel")}
+                    onChange={(e) =>
+                      updateField("digestChannel", e.target.value as Settings["digestChannel"])
+                    }
+                  >
+                    <option value="in_app">Digest page only</option>
+                    <option value="email">Email and digest page</option>
+                  </select>
+                </label>
+              </div>
+            ) : null}
+
             <label>
               {fieldLabel("feedPollMinutes", "Feed poll interval (minutes)")}
               <input
                 type="number"
                 min={5}
                 value={settings.feedPollMinutes}
+                disabled={isLocked("feedPollMinutes")}
                 onChange={(e) => updateField("feedPollMinutes", Number(e.target.value))}
                 className="input"
               />
@@ -1141,6 +2433,7 @@ function SettingsContent() {
                 max={3650}
                 placeholder="Disabled"
                 value={settings.unreadMaxAgeDays ?? ""}
+                disabled={isLocked("unreadMaxAgeDays")}
                 onChange={(e) => {
                   updateField(
                     "unreadMaxAgeDays",
@@ -1159,6 +2452,7 @@ function SettingsContent() {
                 max={3650}
                 placeholder="Disabled"
                 value={settings.readPurgeDays ?? ""}
+                disabled={isLocked("readPurgeDays")}
                 onChange={(e) => {
                   updateField(
                     "readPurgeDays",
@@ -1179,6 +2473,7 @@ function SettingsContent() {
               <input
                 type="checkbox"
                 checked={settings.progressiveSummarizationEnabled}
+                disabled={isLocked("progressiveSummarizationEnabled")}
                 onChange={(e) => updateField("progressiveSummarizationEnabled", e.target.checked)}
               />
               {fieldLabel("progressiveSummarizationEnabled", "Progressive summarization")}
@@ -1199,6 +2494,7 @@ function SettingsContent() {
                     max={24}
                     step={1}
                     value={settings.progressiveFreshHours}
+                    disabled={isLocked("progressiveFreshHours")}
                     onChange={(e) => updateField("progressiveFreshHours", Number(e.target.value))}
                     className="input-range"
                   />
@@ -1215,6 +2511,7 @@ function SettingsContent() {
                     max={14}
                     step={1}
                     value={settings.progressiveAgingDays}
+                    disabled={isLocked("progressiveAgingDays")}
                     onChange={(e) => updateField("progressiveAgingDays", Number(e.target.value))}
                     className="input-range"
                   />
@@ -1231,6 +2528,7 @@ function SettingsContent() {
               {fieldLabel("markReadOnScroll", "Mark as read")}
               <select
                 value={settings.markReadOnScroll}
+                disabled={isLocked("markReadOnScroll")}
                 onChange={(e) =>
                   updateField("markReadOnScroll", e.target.value as Settings["markReadOnScroll"])
                 }
@@ -1251,6 +2549,7 @@ function SettingsContent() {
                     max={5000}
                     step={100}
                     value={settings.markReadOnScrollListDelayMs}
+                    disabled={isLocked("markReadOnScrollListDelayMs")}
                     onChange={(e) =>
                       updateField("markReadOnScrollListDelayMs", Number(e.target.value))
                     }
@@ -1266,6 +2565,7 @@ function SettingsContent() {
                     max={100}
                     step={5}
                     value={Math.round((settings.markReadOnScrollListThreshold ?? 0.6) * 100)}
+                    disabled={isLocked("markReadOnScrollListThreshold")}
                     onChange={(e) =>
                       updateField("markReadOnScrollListThreshold", Number(e.target.value) / 100)
                     }
@@ -1281,6 +2581,7 @@ function SettingsContent() {
                     max={5000}
                     step={100}
                     value={settings.markReadOnScrollCompactDelayMs}
+                    disabled={isLocked("markReadOnScrollCompactDelayMs")}
                     onChange={(e) =>
                       updateField("markReadOnScrollCompactDelayMs", Number(e.target.value))
                     }
@@ -1296,6 +2597,7 @@ function SettingsContent() {
                     max={100}
                     step={5}
                     value={Math.round((settings.markReadOnScrollCompactThreshold ?? 0.6) * 100)}
+                    disabled={isLocked("markReadOnScrollCompactThreshold")}
                     onChange={(e) =>
                       updateField("markReadOnScrollCompactThreshold", Number(e.target.value) / 100)
                     }
@@ -1311,6 +2613,7 @@ function SettingsContent() {
                     max={5000}
                     step={100}
                     value={settings.markReadOnScrollCardDelayMs}
+                    disabled={isLocked("markReadOnScrollCardDelayMs")}
                     onChange={(e) =>
                       updateField("markReadOnScrollCardDelayMs", Number(e.target.value))
                     }
@@ -1326,6 +2629,7 @@ function SettingsContent() {
                     max={100}
                     step={5}
                     value={Math.round((settings.markReadOnScrollCardThreshold ?? 0.6) * 100)}
+                    disabled={isLocked("markReadOnScrollCardThreshold")}
                     onChange={(e) =>
                       updateField("markReadOnScrollCardThreshold", Number(e.target.value) / 100)
                     }
@@ -1341,6 +2645,7 @@ function SettingsContent() {
                 type="url"
                 placeholder="https://your-wallabag-server.com"
                 value={settings.wallabagUrl ?? ""}
+                disabled={isLocked("wallabagUrl")}
                 onChange={(e) => updateField("wallabagUrl", e.target.value)}
                 className="input"
               />
@@ -1352,6 +2657,27 @@ function SettingsContent() {
           </form>
         </section>
 
+        <DigestSectionsSection
+          key={JSON.stringify(settings.digestSections)}
+          sections={settings.digestSections}
+          savedSearches={settings.savedSearches}
+          folders={folders}
+          feeds={feeds}
+          locked={isLocked("digestSections")}
+          label={fieldLabel("digestSections", "Digest sections")}
+          onSave={(next) => updateField("digestSections", next)}
+        />
+
+        {settings.canManageWorkspace ? (
+          <WorkspacePolicySection
+            settings={settings}
+            onUpdated={(next) => {
+              setSettings(next);
+              setSavedSettings(next);
+            }}
+          />
+        ) : null}
+
         <BillingSection />
 
         <AiUsageSection />
@@ -1419,6 +2745,14 @@ function SettingsContent() {
           </form>
         </section>
 
+        <ClientApiSection />
+
+        <ApiTokensSection />
+
+        <FeedOutputsSection savedSearches={settings.savedSearches} />
+
+        <WebhooksSection />
+
         <section className="section-card" id="account-deletion">
           <h2>
             Danger Zone
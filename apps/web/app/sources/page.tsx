@@ -1,21 +1,27 @@
 "use client";
 
-import type {
-  Feed,
-  FeedRecommendation,
-  FeedTopic,
-  FeedWeight,
-  Folder,
-  MarkReadOnScroll,
-  MarkReadOnScrollOverride,
-  ReaderMode,
-  Settings,
-  Topic,
+import {
+  type DiscoveredFeed,
+  type Feed,
+  type FeedRecommendation,
+  type FeedTopic,
+  type FeedWeight,
+  type Folder,
+  folderTree,
+  type MarkReadOnScroll,
+  type MarkReadOnScrollOverride,
+  type ReaderMode,
+  type Settings,
+  type Topic,
 } from "@rss-wrangler/contracts";
+import Link from "next/link";
 import { type FormEvent, type MouseEvent, useEffect, useRef, useState } from "react";
+import { ExtractionRulesManager } from "@/components/extraction-rules-manager";
+import { FolderManager, folderOptionLabel } from "@/components/folder-manager";
 import { ProtectedRoute } from "@/components/protected-route";
 import {
   addFeed,
+  discoverFeeds,
   dismissRecommendation,
   exportOpml,
   getFeedTopics,
@@ -43,6 +49,7 @@ function SourcesContent() {
   );
   const [addError, setAddError] = useState("");
   const [addBusy, setAddBusy] = useState(false);
+  const [feedCandidates, setFeedCandidates] = useState<DiscoveredFeed[]>([]);
   const [importMsg, setImportMsg] = useState("");
   const [feedTopics, setFeedTopics] = useState<Record<string, FeedTopic[]>>({});
   const [settings, setSettings] = useState<Settings | null>(null);
@@ -103,12 +110,32 @@ function SourcesContent() {
 
   async function handleAddFeed(e: FormEvent) {
     e.preventDefault();
+    setAddError("");
+    setFeedCandidates([]);
+    setAddBusy(true);
+    // Website URLs may expose several feeds; let the user choose between them.
+    const candidates = await discoverFeeds(feedUrl);
+    if (candidates && candidates.length === 0) {
+      setAddError("No feed found at that URL. Try the site's feed link directly.");
+      setAddBusy(false);
+      return;
+    }
+    if (candidates && candidates.length > 1) {
+      setFeedCandidates(candidates);
+      setAddBusy(false);
+      return;
+    }
+    await subscribeToFeed(candidates?.[0]?.url ?? feedUrl);
+  }
+
+  async function subscribeToFeed(url: string) {
     setAddError("");
     setAddBusy(true);
-    const feed = await addFeed(feedUrl);
+    const feed = await addFeed(url);
     if (feed) {
       setFeeds((prev) => [...prev, feed]);
       setFeedUrl("");
+      setFeedCandidates([]);
       const lookbackDays =
         initialImportWindow === "24h"
           ? 1
@@ -179,6 +206,19 @@ function SourcesContent() {
     }
   }
 
+  async function handleFolderChange(feed: Feed, folderId: string) {
+    const updated = await updateFeed(feed.id, { folderId });
+    if (updated) {
+      setFeeds((prev) => prev.map((f) => (f.id === updated.id ? updated : f)));
+    }
+  }
+
+  function handleFoldersChange(next: Folder[]) {
+    setFolders(next);
+    // Deleting a folder moves its feeds, so refresh their folder ids.
+    void listFeeds().then(setFeeds);
+  }
+
   async function handleToggleMute(feed: Feed) {
     const updated = await updateFeed(feed.id, { muted: !feed.muted });
     if (updated) {
@@ -480,6 +520,8 @@ function SourcesContent() {
         </section>
       )}
 
+      <FolderManager folders={folders} onChange={handleFoldersChange} />
+
       <section className="section-card">
         <div className="row">
           <h2>Bulk auto-read overrides</h2>
@@ -609,12 +651,12 @@ function SourcesContent() {
           <form onSubmit={handleAddFeed} className="add-feed-form">
             <input
               type="url"
-              placeholder="https://example.com/feed.xml"
+              placeholder="https://example.com or https://example.com/feed.xml"
               required
               value={feedUrl}
               onChange={(e) => setFeedUrl(e.target.value)}
               className="input"
-              aria-label="Feed URL"
+              aria-label="Website or feed URL"
             />
             <select
               value={initialImportWindow}
@@ -637,6 +679,36 @@ function SourcesContent() {
               {addError}
             </p>
           ) : null}
+          {feedCandidates.length > 0 ? (
+            <div className="feed-candidates">
+              <p className="muted">
+                Found {feedCandidates.length} feeds on this site. Pick one to add:
+              </p>
+              <ul className="feed-candidate-list">
+                {feedCandidates.map((candidate) => (
+                  <li key={candidate.url} className="feed-candidate-row">
+                    <div className="feed-candidate-info">
+                      <span className="feed-candidate-title">
+                        {candidate.title ?? candidate.url}
+                      </span>
+                      <span className="feed-candidate-meta">
+                        {candidate.format.toUpperCase()} / {candidate.itemCount} items /{" "}
+                        {candidate.url}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      className="button button-small button-primary"
+                      disabled={addBusy}
+                      onClick={() => void subscribeToFeed(candidate.url)}
+                    >
+                      Add
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
 
           <div className="opml-import">
             <label className="muted">OPML import:</label>
@@ -648,6 +720,9 @@ function SourcesContent() {
               onChange={handleOpmlImport}
             />
             {importMsg ? <p className="muted">{importMsg}</p> : null}
+            <Link href="/account/import" className="muted">
+              Import from Feedly, Inoreader, NewsBlur, Pocket or Instapaper
+            </Link>
           </div>
 
           <div className="opml-export">
@@ -667,6 +742,7 @@ function SourcesContent() {
               <tr>
                 <th scope="col">Title</th>
                 <th scope="col">Topics</th>
+                <th scope="col">Folder</th>
                 <th scope="col">Weight</th>
                 <th scope="col">Muted</th>
                 <th scope="col">Reader</th>
@@ -744,6 +820,19 @@ function SourcesContent() {
                           <span className="muted">{folderName(feed.folderId)}</span>
                         )}
                     </td>
+                    <td>
+                      <select
+                        value={feed.folderId}
+                        onChange={(e) => void handleFolderChange(feed, e.target.value)}
+                        aria-label={`Folder for ${feed.title || feed.url}`}
+                      >
+                        {folderTree(folders).map(({ folder, depth }) => (
+                          <option key={folder.id} value={folder.id}>
+                            {folderOptionLabel(folder, depth)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
                     <td>
                       <select
                         value={feed.weight}
@@ -778,12 +867,19 @@ function SourcesContent() {
                         <option value="feed">Feed</option>
                         <option value="original">Original</option>
                         <option value="text">Text</option>
+                        <option value="video">Video</option>
                       </select>
                     </td>
                     <td className="feed-health-cell">
                       <div className="stack">
                         <span className={health.badgeClass}>{health.label}</span>
                         <span className="feed-health-meta">{health.detail}</span>
+                        {feed.nextPollAt ? (
+                          <span className="feed-health-meta">
+                            Next poll {formatLocalDateTime(feed.nextPollAt)}
+                            {feed.pollScheduleReason ? ` — ${feed.pollScheduleReason}` : ""}
+                          </span>
+                        ) : null}
                         {health.error ? (
                           <span className="feed-health-error">{health.error}</span>
                         ) : null}
@@ -860,6 +956,8 @@ function SourcesContent() {
           </table>
         )}
       </section>
+
+      <ExtractionRulesManager />
     </>
   );
 }
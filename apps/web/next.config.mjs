@@ -13,6 +13,16 @@ function getConnectSrc() {
   }
 }
 
+// Proxied images come from the API, which may be plain http in development.
+function getImgSrc() {
+  const apiUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
+  try {
+    return apiUrl ? `'self' data: https: ${new URL(apiUrl).origin}` : "'self' data: https:";
+  } catch {
+    return "'self' data: https:";
+  }
+}
+
 const nextConfig = {
   output: "standalone",
   async headers() {
@@ -25,7 +35,7 @@ const nextConfig = {
           { key: "Referrer-Policy", value: "strict-origin-when-cross-origin" },
           {
             key: "Content-Security-Policy",
-            value: `default-src 'self'; script-src 'self' 'unsafe-eval' 'unsafe-inline'; style-src 'self' 'unsafe-inline' https://fonts.googleapis.com; font-src 'self' https://fonts.gstatic.com; img-src 'self' data: https:; connect-src ${getConnectSrc()}; frame-ancestors 'none'`,
+            value: `default-src 'self'; script-src 'self' 'unsafe-eval' 'unsafe-inline'; style-src 'self' 'unsafe-inline' https://fonts.googleapis.com; font-src 'self' https://fonts.gstatic.com; img-src ${getImgSrc()}; connect-src ${getConnectSrc()}; frame-ancestors 'none'`,
           },
         ],
       },
@@ -1,8 +1,13 @@
 "use client";
 
-import type { AnnotationColor } from "@rss-wrangler/contracts";
+import {
+  type AnnotationAnchor,
+  type AnnotationColor,
+  buildTextAnchor,
+} from "@rss-wrangler/contracts";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { createAnnotation } from "@/lib/api";
+import { collapsedOffset, collapseWhitespace } from "@/lib/article-text";
 
 const COLORS: { value: AnnotationColor; label: string; css: string }[] = [
   { value: "yellow", label: "Yellow", css: "#fef08a" },
@@ -14,16 +19,54 @@ const COLORS: { value: AnnotationColor; label: string; css: string }[] = [
 interface AnnotationToolbarProps {
   clusterId: string;
   containerRef: React.RefObject<HTMLElement | null>;
+  /**
+   * The element holding the article text. When set, highlights are saved with
+   * a text anchor over its text content so the reader can paint them inline.
+   */
+  anchorRef?: React.RefObject<HTMLElement | null>;
+  /**
+   * Anchor against the whitespace-collapsed text content, for rendered
+   * article markup whose stored text is the collapsed form.
+   */
+  collapseWhitespace?: boolean;
   onAnnotationCreated?: () => void;
 }
 
+/** Anchor for a selection inside `element`, with offsets into its text content. */
+function selectionAnchor(
+  element: HTMLElement,
+  range: Range,
+  collapse: boolean,
+): AnnotationAnchor | null {
+  if (!element.contains(range.commonAncestorContainer)) return null;
+  const before = document.createRange();
+  before.selectNodeContents(element);
+  before.setEnd(range.startContainer, range.startOffset);
+  const raw = range.toString();
+  const exact = raw.trim();
+  if (!exact) return null;
+  const text = element.textContent ?? "";
+  const start = before.toString().length + (raw.length - raw.trimStart().length);
+  if (!collapse) {
+    return buildTextAnchor(text, start, start + exact.length);
+  }
+  return buildTextAnchor(
+    collapseWhitespace(text),
+    collapsedOffset(text, start),
+    collapsedOffset(text, start + exact.length),
+  );
+}
+
 export function AnnotationToolbar({
   clusterId,
   containerRef,
+  anchorRef,
+  collapseWhitespace: collapse = false,
   onAnnotationCreated,
 }: AnnotationToolbarProps) {
   const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
   const [selectedText, setSelectedText] = useState("");
+  const [anchor, setAnchor] = useState<AnnotationAnchor | null>(null);
   const [showNoteInput, setShowNoteInput] = useState(false);
   const [note, setNote] = useState("");
   const [pendingColor, setPendingColor] = useState<AnnotationColor>("yellow");
@@ -53,7 +96,8 @@ export function AnnotationToolbar({
       return;
     }
 
-    const text = selection.toString().trim();
+    const rawText = selection.toString();
+    const text = collapse ? collapseWhitespace(rawText) : rawText.trim();
     if (!text) {
       if (!showNoteInput) {
         setPosition(null);
@@ -66,11 +110,12 @@ export function AnnotationToolbar({
     const containerRect = container.getBoundingClientRect();
 
     setSelectedText(text);
+    setAnchor(anchorRef?.current ? selectionAnchor(anchorRef.current, range, collapse) : null);
     setPosition({
       top: rect.top - containerRect.top - 44,
       left: rect.left - containerRect.left + rect.width / 2,
     });
-  }, [containerRef, showNoteInput]);
+  }, [anchorRef, collapse, containerRef, showNoteInput]);
 
   useEffect(() => {
     document.addEventListener("selectionchange", handleSelectionChange);
@@ -83,6 +128,7 @@ export function AnnotationToolbar({
     const result = await createAnnotation(clusterId, {
       highlightedText: selectedText,
       color,
+      anchor: anchor ?? undefined,
     });
     if (result) {
       window.getSelection()?.removeAllRanges();
@@ -100,6 +146,7 @@ export function AnnotationToolbar({
       highlightedText: selectedText,
       note: note || undefined,
       color: pendingColor,
+      anchor: anchor ?? undefined,
     });
     if (result) {
       window.getSelection()?.removeAllRanges();
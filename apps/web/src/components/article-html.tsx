@@ -0,0 +1,160 @@
+"use client";
+
+import type { Annotation } from "@rss-wrangler/contracts";
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+import { paintHighlights } from "@/lib/article-text";
+import { cn } from "@/lib/cn";
+
+export interface ReaderTypography {
+  font: "serif" | "sans";
+  /** Text size as a multiple of the base size. */
+  scale: number;
+  spacing: "compact" | "relaxed";
+}
+
+export const DEFAULT_READER_TYPOGRAPHY: ReaderTypography = {
+  font: "serif",
+  scale: 1,
+  spacing: "relaxed",
+};
+
+const TYPOGRAPHY_STORAGE_KEY = "reader-typography";
+const MIN_SCALE = 0.85;
+const MAX_SCALE = 1.45;
+const SCALE_STEP = 0.1;
+
+export function getStoredReaderTypography(): ReaderTypography {
+  try {
+    if (typeof window === "undefined") return DEFAULT_READER_TYPOGRAPHY;
+    const stored = JSON.parse(localStorage.getItem(TYPOGRAPHY_STORAGE_KEY) ?? "null") as Partial<
+      Record<keyof ReaderTypography, unknown>
+    > | null;
+    if (!stored || typeof stored !== "object") return DEFAULT_READER_TYPOGRAPHY;
+    return {
+      font: stored.font === "sans" ? "sans" : "serif",
+      scale:
+        typeof stored.scale === "number"
+          ? Math.min(MAX_SCALE, Math.max(MIN_SCALE, stored.scale))
+          : DEFAULT_READER_TYPOGRAPHY.scale,
+      spacing: stored.spacing === "compact" ? "compact" : "relaxed",
+    };
+  } catch {
+    // SSR, storage unavailable or a malformed value
+    return DEFAULT_READER_TYPOGRAPHY;
+  }
+}
+
+export function setStoredReaderTypography(typography: ReaderTypography): void {
+  try {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(TYPOGRAPHY_STORAGE_KEY, JSON.stringify(typography));
+  } catch {
+    // Storage unavailable
+  }
+}
+
+/** Class names and style applying reader typography to an article container. */
+export function typographyProps(typography: ReaderTypography): {
+  className: string;
+  style: React.CSSProperties;
+} {
+  return {
+    className: cn(
+      "reader-typography",
+      `reader-typography-${typography.font}`,
+      `reader-typography-${typography.spacing}`,
+    ),
+    style: { "--reader-scale": typography.scale } as React.CSSProperties,
+  };
+}
+
+interface ReaderTypographyControlsProps {
+  typography: ReaderTypography;
+  onChange: (typography: ReaderTypography) => void;
+}
+
+/** Font, text size and line spacing for the text reader mode. */
+export function ReaderTypographyControls({ typography, onChange }: ReaderTypographyControlsProps) {
+  const setScale = (scale: number) =>
+    onChange({
+      ...typography,
+      scale: Math.round(Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale)) * 100) / 100,
+    });
+
+  return (
+    <div className="reader-typography-controls" role="toolbar" aria-label="Text appearance">
+      <button
+        type="button"
+        className={cn("button button-small", typography.font === "serif" && "button-active")}
+        aria-pressed={typography.font === "serif"}
+        onClick={() => onChange({ ...typography, font: "serif" })}
+      >
+        Serif
+      </button>
+      <button
+        type="button"
+        className={cn("button button-small", typography.font === "sans" && "button-active")}
+        aria-pressed={typography.font === "sans"}
+        onClick={() => onChange({ ...typography, font: "sans" })}
+      >
+        Sans
+      </button>
+      <button
+        type="button"
+        className="button button-small"
+        disabled={typography.scale <= MIN_SCALE}
+        onClick={() => setScale(typography.scale - SCALE_STEP)}
+        aria-label="Smaller text"
+      >
+        A−
+      </button>
+      <button
+        type="button"
+        className="button button-small"
+        disabled={typography.scale >= MAX_SCALE}
+        onClick={() => setScale(typography.scale + SCALE_STEP)}
+        aria-label="Larger text"
+      >
+        A+
+      </button>
+      <button
+        type="button"
+        className="button button-small"
+        onClick={() =>
+          onChange({
+            ...typography,
+            spacing: typography.spacing === "relaxed" ? "compact" : "relaxed",
+          })
+        }
+      >
+        {typography.spacing === "relaxed" ? "Compact lines" : "Relaxed lines"}
+      </button>
+    </div>
+  );
+}
+
+interface ArticleHtmlProps {
+  /** Article markup, already sanitized by the worker's extraction stage. */
+  html: string;
+  annotations: Annotation[];
+  className?: string;
+}
+
+/** Extracted article markup with the cluster's annotations painted inline. */
+export const ArticleHtml = forwardRef<HTMLDivElement, ArticleHtmlProps>(function ArticleHtml(
+  { html, annotations, className },
+  ref,
+) {
+  const innerRef = useRef<HTMLDivElement>(null);
+  useImperativeHandle(ref, () => innerRef.current as HTMLDivElement, []);
+
+  useEffect(() => {
+    const element = innerRef.current;
+    if (!element) return;
+    // Re-render from the markup so highlights from a previous pass are gone.
+    element.innerHTML = html;
+    paintHighlights(element, annotations);
+  }, [html, annotations]);
+
+  return <div ref={innerRef} className={cn("article-html", className)} />;
+});
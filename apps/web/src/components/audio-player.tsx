@@ -0,0 +1,330 @@
+"use client";
+
+import type { ClusterDetailMember, EnclosureChapter } from "@rss-wrangler/contracts";
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { XIcon } from "@/components/icons";
+import { saveMediaProgress } from "@/lib/api";
+import { formatDuration } from "@/lib/format-duration";
+
+export interface AudioTrack {
+  itemId: string;
+  title: string;
+  sourceName: string;
+  url: string;
+  mimeType: string | null;
+  startAt: number;
+  chapters: EnclosureChapter[];
+}
+
+interface AudioPlayerContextValue {
+  track: AudioTrack | null;
+  play: (track: AudioTrack) => void;
+  stop: () => void;
+}
+
+const AudioPlayerContext = createContext<AudioPlayerContextValue>({
+  track: null,
+  play: () => undefined,
+  stop: () => undefined,
+});
+
+export function useAudioPlayer() {
+  return useContext(AudioPlayerContext);
+}
+
+const PLAYBACK_RATE_STORAGE_KEY = "audio-playback-rate";
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2] as const;
+/** How often progress is saved while playing, in seconds of listening. */
+const PROGRESS_REPORT_INTERVAL_SECONDS = 15;
+
+function getStoredPlaybackRate(): number {
+  try {
+    if (typeof window === "undefined") return 1;
+    const stored = Number(localStorage.getItem(PLAYBACK_RATE_STORAGE_KEY));
+    return PLAYBACK_RATES.includes(stored as (typeof PLAYBACK_RATES)[number]) ? stored : 1;
+  } catch {
+    return 1;
+  }
+}
+
+function setStoredPlaybackRate(rate: number): void {
+  try {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(PLAYBACK_RATE_STORAGE_KEY, String(rate));
+  } catch {
+    // Storage unavailable
+  }
+}
+
+export function AudioPlayerProvider({ children }: { children: ReactNode }) {
+  const [track, setTrack] = useState<AudioTrack | null>(null);
+
+  const play = useCallback((next: AudioTrack) => setTrack(next), []);
+  const stop = useCallback(() => setTrack(null), []);
+
+  return (
+    <AudioPlayerContext.Provider value={{ track, play, stop }}>
+      {children}
+      {track ? <AudioPlayerBar key={track.itemId} track={track} onClose={stop} /> : null}
+    </AudioPlayerContext.Provider>
+  );
+}
+
+function AudioPlayerBar({ track, onClose }: { track: AudioTrack; onClose: () => void }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const lastTimeRef = useRef(track.startAt);
+  const durationRef = useRef<number | null>(null);
+  const listenedRef = useRef(0);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(track.startAt);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+
+  // Reads refs rather than the <audio> element so it also works during unmount.
+  const reportProgress = useCallback(() => {
+    const listenedSeconds = Math.round(listenedRef.current);
+    listenedRef.current = 0;
+    void saveMediaProgress(track.itemId, {
+      positionSeconds: lastTimeRef.current,
+      durationSeconds: durationRef.current,
+      listenedSeconds,
+    });
+  }, [track.itemId]);
+
+  useEffect(() => {
+    const stored = getStoredPlaybackRate();
+    setRate(stored);
+    if (audioRef.current) audioRef.current.playbackRate = stored;
+  }, []);
+
+  // Save the final position when the player closes or switches episodes.
+  useEffect(() => () => reportProgress(), [reportProgress]);
+
+  function handleLoadedMetadata() {
+    const audio = audioRef.current;
+    if (!audio) return;
+    durationRef.current = Number.isFinite(audio.duration) ? audio.duration : null;
+    setDuration(durationRef.current ?? 0);
+    if (track.startAt > 0 && track.startAt < audio.duration) {
+      audio.currentTime = track.startAt;
+    }
+    audio.playbackRate = rate;
+    void audio.play().catch(() => setPlaying(false));
+  }
+
+  function handleTimeUpdate() {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const delta = audio.currentTime - lastTimeRef.current;
+    lastTimeRef.current = audio.currentTime;
+    setPosition(audio.currentTime);
+    // Seeks jump further than a timeupdate tick; only count continuous playback.
+    if (!audio.paused && delta > 0 && delta < 5) {
+      listenedRef.current += delta;
+      if (listenedRef.current >= PROGRESS_REPORT_INTERVAL_SECONDS) {
+        reportProgress();
+      }
+    }
+  }
+
+  function togglePlay() {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      void audio.play().catch(() => setPlaying(false));
+    } else {
+      audio.pause();
+    }
+  }
+
+  function seekTo(seconds: number) {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const max = Number.isFinite(audio.duration) ? audio.duration : seconds;
+    audio.currentTime = Math.min(Math.max(seconds, 0), max);
+    lastTimeRef.current = audio.currentTime;
+    setPosition(audio.currentTime);
+  }
+
+  function handleRateChange(next: number) {
+    setRate(next);
+    setStoredPlaybackRate(next);
+    if (audioRef.current) audioRef.current.playbackRate = next;
+  }
+
+  const currentChapter = [...track.chapters]
+    .reverse()
+    .find((chapter) => chapter.startSeconds <= position);
+
+  return (
+    <section className="audio-player" aria-label="Audio player">
+      {/* biome-ignore lint/a11y/useMediaCaption: feeds give no caption or transcript file for enclosures */}
+      <audio
+        ref={audioRef}
+        src={track.url}
+        preload="metadata"
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={() => setPlaying(true)}
+        onPause={() => {
+          setPlaying(false);
+          reportProgress();
+        }}
+        onEnded={() => {
+          setPlaying(false);
+          reportProgress();
+        }}
+      />
+      <div className="audio-player-info">
+        <span className="audio-player-title">{track.title}</span>
+        <span className="audio-player-source">
+          {track.sourceName}
+          {currentChapter ? ` / ${currentChapter.title}` : ""}
+        </span>
+      </div>
+      <div className="audio-player-controls">
+        <button
+          type="button"
+          className="button button-small"
+          onClick={() => seekTo(position - 15)}
+          aria-label="Back 15 seconds"
+        >
+          -15
+        </button>
+        <button
+          type="button"
+          className="button button-small button-primary"
+          onClick={togglePlay}
+          aria-label={playing ? "Pause" : "Play"}
+        >
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button
+          type="button"
+          className="button button-small"
+          onClick={() => seekTo(position + 30)}
+          aria-label="Forward 30 seconds"
+        >
+          +30
+        </button>
+        <span className="audio-player-time">{formatDuration(position)}</span>
+        <input
+          type="range"
+          className="audio-player-seek"
+          min={0}
+          max={duration || 0}
+          step={1}
+          value={Math.min(position, duration || 0)}
+          onChange={(e) => seekTo(Number(e.target.value))}
+          aria-label="Seek"
+        />
+        <span className="audio-player-time">{formatDuration(duration)}</span>
+        {track.chapters.length > 0 ? (
+          <select
+            className="input audio-player-select"
+            value={currentChapter?.startSeconds ?? ""}
+            onChange={(e) => seekTo(Number(e.target.value))}
+            aria-label="Chapters"
+          >
+            {currentChapter ? null : <option value="">Chapters</option>}
+            {track.chapters.map((chapter) => (
+              <option key={`${chapter.startSeconds}-${chapter.title}`} value={chapter.startSeconds}>
+                {formatDuration(chapter.startSeconds)} {chapter.title}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <select
+          className="input audio-player-select"
+          value={rate}
+          onChange={(e) => handleRateChange(Number(e.target.value))}
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_RATES.map((option) => (
+            <option key={option} value={option}>
+              {option}x
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="action-btn"
+          onClick={onClose}
+          aria-label="Close player"
+          title="Close"
+        >
+          <XIcon aria-hidden="true" />
+        </button>
+      </div>
+    </section>
+  );
+}
+
+export function isPlayableEnclosure(mimeType: string | null): boolean {
+  return mimeType === null || mimeType.startsWith("audio/");
+}
+
+/** Play/resume control for a cluster member that carries an audio enclosure. */
+export function EpisodePlayButton({ member }: { member: ClusterDetailMember }) {
+  const { track, play } = useAudioPlayer();
+  const enclosure = member.enclosures.find((entry) => isPlayableEnclosure(entry.mimeType));
+  if (!enclosure) return null;
+
+  const progress = member.mediaProgress;
+  const resumeAt = progress && !progress.completed ? progress.positionSeconds : 0;
+  const isCurrent = track?.itemId === member.itemId;
+  const episodeLabel = [
+    enclosure.seasonNumber !== null ? `S${enclosure.seasonNumber}` : null,
+    enclosure.episodeNumber !== null ? `E${enclosure.episodeNumber}` : null,
+  ]
+    .filter(Boolean)
+    .join("");
+
+  let status: string | null = null;
+  if (progress?.completed) {
+    status = "Played";
+  } else if (resumeAt > 0) {
+    status = `${formatDuration(resumeAt)} listened`;
+  }
+
+  return (
+    <div className="episode-controls">
+      <button
+        type="button"
+        className="button button-small button-primary"
+        disabled={isCurrent}
+        onClick={() =>
+          play({
+            itemId: member.itemId,
+            title: member.title,
+            sourceName: member.sourceName,
+            url: enclosure.url,
+            mimeType: enclosure.mimeType,
+            startAt: resumeAt,
+            chapters: enclosure.chapters,
+          })
+        }
+      >
+        {isCurrent ? "Playing" : resumeAt > 0 ? "Resume episode" : "Play episode"}
+      </button>
+      <span className="episode-meta">
+        {[
+          episodeLabel || null,
+          enclosure.episodeType && enclosure.episodeType !== "full" ? enclosure.episodeType : null,
+          enclosure.durationSeconds ? formatDuration(enclosure.durationSeconds) : null,
+          status,
+        ]
+          .filter(Boolean)
+          .join(" / ")}
+      </span>
+    </div>
+  );
+}
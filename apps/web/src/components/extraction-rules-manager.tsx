@@ -0,0 +1,457 @@
+"use client";
+
+import type {
+  Annotation,
+  CreateExtractionRuleRequest,
+  ExtractionPreview,
+  ExtractionRule,
+  ExtractionRulesResponse,
+} from "@rss-wrangler/contracts";
+import { type FormEvent, useEffect, useRef, useState } from "react";
+import { ArticleHtml } from "@/components/article-html";
+import {
+  createExtractionPreview,
+  createExtractionRule,
+  deleteExtractionRule,
+  getExtractionPreview,
+  listExtractionRules,
+  updateExtractionRule,
+} from "@/lib/api";
+
+const PREVIEW_POLL_MS = 1_500;
+const PREVIEW_MAX_POLLS = 20;
+const NO_ANNOTATIONS: Annotation[] = [];
+
+const METHOD_LABELS: Record<NonNullable<ExtractionPreview["method"]>, string> = {
+  rule: "rule selectors",
+  readability: "automatic (Readability)",
+  feed_content: "feed content",
+};
+
+interface RuleDraft {
+  domain: string;
+  bodySelectors: string;
+  stripSelectors: string;
+  nextPageSelector: string;
+  maxPages: string;
+  headers: string;
+  cookie: string;
+  useFeedContent: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  domain: "",
+  bodySelectors: "",
+  stripSelectors: "",
+  nextPageSelector: "",
+  maxPages: "5",
+  headers: "",
+  cookie: "",
+  useFeedContent: false,
+};
+
+function draftFromRule(rule: ExtractionRule): RuleDraft {
+  return {
+    domain: rule.domain,
+    bodySelectors: rule.bodySelectors.join("\n"),
+    stripSelectors: rule.stripSelectors.join("\n"),
+    nextPageSelector: rule.nextPageSelector ?? "",
+    maxPages: String(rule.nextPageSelector ? rule.maxPages : 5),
+    headers: Object.entries(rule.headers)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\n"),
+    cookie: rule.cookie ?? "",
+    useFeedContent: rule.useFeedContent,
+  };
+}
+
+function lines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/** The request for a draft, or an error for a header line without a colon. */
+function requestFromDraft(draft: RuleDraft): CreateExtractionRuleRequest | string {
+  const headers: Record<string, string> = {};
+  for (const line of lines(draft.headers)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) return `Header "${line}" needs the form Name: value`;
+    headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+
+  return {
+    domain: draft.domain.trim(),
+    bodySelectors: lines(draft.bodySelectors),
+    stripSelectors: lines(draft.stripSelectors),
+    nextPageSelector: draft.nextPageSelector.trim() || null,
+    maxPages: Number(draft.maxPages) || 5,
+    headers,
+    cookie: draft.cookie.trim() || null,
+    useFeedContent: draft.useFeedContent,
+    enabled: true,
+  };
+}
+
+function ruleSummary(rule: ExtractionRule): string {
+  if (rule.useFeedContent) return "Keeps the feed's content";
+  const parts: string[] = [];
+  if (rule.bodySelectors.length > 0) parts.push(`Body: ${rule.bodySelectors.join(", ")}`);
+  if (rule.stripSelectors.length > 0) parts.push(`Strip: ${rule.stripSelectors.join(", ")}`);
+  if (rule.nextPageSelector) {
+    parts.push(`Next page: ${rule.nextPageSelector} (up to ${rule.maxPages})`);
+  }
+  const headerCount = Object.keys(rule.headers).length + (rule.cookie ? 1 : 0);
+  if (headerCount > 0) parts.push(`${headerCount} request header${headerCount === 1 ? "" : "s"}`);
+  return parts.join(" · ") || "Automatic extraction";
+}
+
+/**
+ * Per-site extraction rules for sites whose articles come out wrong, and a
+ * tool that previews what extraction keeps for a URL under the current rules.
+ */
+export function ExtractionRulesManager() {
+  const [rules, setRules] = useState<ExtractionRulesResponse | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    void listExtractionRules().then(setRules);
+  }, []);
+
+  async function run(action: () => Promise<{ ok: true } | { ok: false; error: string }>) {
+    setBusy(true);
+    setError("");
+    const result = await action();
+    if (result.ok) {
+      setRules(await listExtractionRules());
+    } else {
+      setError(result.error);
+    }
+    setBusy(false);
+    return result.ok;
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const request = requestFromDraft(draft);
+    if (typeof request === "string") {
+      setError(request);
+      return;
+    }
+    const { enabled: _enabled, ...patch } = request;
+    const ok = await run(() =>
+      editingId ? updateExtractionRule(editingId, patch) : createExtractionRule(request),
+    );
+    if (ok) {
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+    }
+  }
+
+  function startEditing(rule: ExtractionRule) {
+    setError("");
+    setEditingId(rule.source === "workspace" ? rule.id : null);
+    setDraft(draftFromRule(rule));
+  }
+
+  function cancelEditing() {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setError("");
+  }
+
+  const workspace = rules?.workspace ?? [];
+  const overridden = new Set(workspace.map((rule) => rule.domain));
+
+  return (
+    <section className="section-card">
+      <div className="row">
+        <h2>Extraction rules</h2>
+      </div>
+      <p className="muted">
+        When a site&apos;s articles come out wrong in the text reader, tell extraction where the
+        article is, what to remove and how to reach the next page. A rule covers the domain and its
+        subdomains.
+      </p>
+
+      <form onSubmit={handleSubmit} className="extraction-rule-form">
+        <div className="row">
+          <input
+            className="input"
+            placeholder="example.com"
+            required
+            maxLength={253}
+            value={draft.domain}
+            onChange={(e) => setDraft({ ...draft, domain: e.target.value })}
+            aria-label="Rule domain"
+          />
+          <label className="row muted">
+            <input
+              type="checkbox"
+              checked={draft.useFeedContent}
+              onChange={(e) => setDraft({ ...draft, useFeedContent: e.target.checked })}
+            />
+            Use feed content instead
+          </label>
+        </div>
+        {draft.useFeedContent ? null : (
+          <div className="extraction-rule-fields">
+            <label className="stack">
+              <span className="muted">Article selectors, one per line, tried in order</span>
+              <textarea
+                className="input"
+                rows={3}
+                placeholder={"article .entry-content\n#story-body"}
+                value={draft.bodySelectors}
+                onChange={(e) => setDraft({ ...draft, bodySelectors: e.target.value })}
+              />
+            </label>
+            <label className="stack">
+              <span className="muted">Remove these elements, one selector per line</span>
+              <textarea
+                className="input"
+                rows={3}
+                placeholder={".newsletter-signup\n.related-links"}
+                value={draft.stripSelectors}
+                onChange={(e) => setDraft({ ...draft, stripSelectors: e.target.value })}
+              />
+            </label>
+            <label className="stack">
+              <span className="muted">Next page link</span>
+              <input
+                className="input"
+                placeholder="a.pagination-next"
+                value={draft.nextPageSelector}
+                onChange={(e) => setDraft({ ...draft, nextPageSelector: e.target.value })}
+              />
+            </label>
+            <label className="stack">
+              <span className="muted">Pages to follow</span>
+              <input
+                className="input input-compact"
+                type="number"
+                min={1}
+                max={10}
+                value={draft.maxPages}
+                disabled={!draft.nextPageSelector.trim()}
+                onChange={(e) => setDraft({ ...draft, maxPages: e.target.value })}
+              />
+            </label>
+            <label className="stack">
+              <span className="muted">Request headers, one per line</span>
+              <textarea
+                className="input"
+                rows={2}
+                placeholder="Referer: https://www.google.com/"
+                value={draft.headers}
+                onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+              />
+            </label>
+            <label className="stack">
+              <span className="muted">Cookie</span>
+              <input
+                className="input"
+                placeholder="consent=yes"
+                value={draft.cookie}
+                onChange={(e) => setDraft({ ...draft, cookie: e.target.value })}
+              />
+            </label>
+          </div>
+        )}
+        <div className="row">
+          <button type="submit" className="button button-primary" disabled={busy}>
+            {editingId ? "Save rule" : "Add rule"}
+          </button>
+          {editingId || draft.domain ? (
+            <button type="button" className="button" onClick={cancelEditing}>
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </form>
+      {error ? (
+        <p className="error-text" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {workspace.length > 0 ? (
+        <ul className="extraction-rule-list" aria-label="Your extraction rules">
+          {workspace.map((rule) => (
+            <li key={rule.id} className="extraction-rule-row">
+              <div>
+                <strong>{rule.domain}</strong>
+                {rule.enabled ? null : <span className="badge">Off</span>}
+                <p className="muted">{ruleSummary(rule)}</p>
+              </div>
+              <div className="row">
+                <button
+                  type="button"
+                  className="button button-small"
+                  disabled={busy}
+                  onClick={() =>
+                    void run(() => updateExtractionRule(rule.id, { enabled: !rule.enabled }))
+                  }
+                >
+                  {rule.enabled ? "Turn off" : "Turn on"}
+                </button>
+                <button
+                  type="button"
+                  className="button button-small"
+                  onClick={() => startEditing(rule)}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className="button button-small button-danger"
+                  disabled={busy}
+                  onClick={() => {
+                    if (editingId === rule.id) cancelEditing();
+                    void run(() => deleteExtractionRule(rule.id));
+                  }}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {rules && rules.bundled.length > 0 ? (
+        <details className="extraction-rule-bundled">
+          <summary className="muted">Built-in rules ({rules.bundled.length})</summary>
+          <ul className="extraction-rule-list" aria-label="Built-in extraction rules">
+            {rules.bundled.map((rule) => (
+              <li key={rule.id} className="extraction-rule-row">
+                <div>
+                  <strong>{rule.domain}</strong>
+                  {overridden.has(rule.domain) ? <span className="badge">Overridden</span> : null}
+                  <p className="muted">{ruleSummary(rule)}</p>
+                </div>
+                {overridden.has(rule.domain) ? null : (
+                  <button
+                    type="button"
+                    className="button button-small"
+                    onClick={() => startEditing(rule)}
+                  >
+                    Customize
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+
+      <ExtractionPreviewTool />
+    </section>
+  );
+}
+
+/** Runs extraction for a URL under the saved rules and shows what would be kept. */
+function ExtractionPreviewTool() {
+  const [url, setUrl] = useState("");
+  const [preview, setPreview] = useState<ExtractionPreview | null>(null);
+  const [error, setError] = useState("");
+  const [running, setRunning] = useState(false);
+  const runId = useRef(0);
+
+  useEffect(
+    () => () => {
+      // Stop polling when the page goes away.
+      runId.current += 1;
+    },
+    [],
+  );
+
+  async function handlePreview(e: FormEvent) {
+    e.preventDefault();
+    const current = ++runId.current;
+    setRunning(true);
+    setError("");
+    setPreview(null);
+
+    const created = await createExtractionPreview(url.trim());
+    if (!created.ok) {
+      setError(created.error);
+      setRunning(false);
+      return;
+    }
+
+    let latest = created.preview;
+    for (let poll = 0; latest.status === "pending" && poll < PREVIEW_MAX_POLLS; poll += 1) {
+      await new Promise((resolve) => setTimeout(resolve, PREVIEW_POLL_MS));
+      if (runId.current !== current) return;
+      latest = (await getExtractionPreview(latest.id)) ?? latest;
+    }
+    if (runId.current !== current) return;
+
+    setPreview(latest);
+    if (latest.status === "pending") {
+      setError("The preview is taking longer than expected. Try again in a moment.");
+    }
+    setRunning(false);
+  }
+
+  return (
+    <div className="extraction-preview">
+      <h3>Test extraction</h3>
+      <form onSubmit={handlePreview} className="row">
+        <input
+          className="input"
+          type="url"
+          required
+          placeholder="https://example.com/2026/10/some-article"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          aria-label="Article URL to preview"
+        />
+        <button type="submit" className="button" disabled={running}>
+          {running ? "Extracting..." : "Preview"}
+        </button>
+      </form>
+      {error ? (
+        <p className="error-text" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      {preview && preview.status !== "pending" ? (
+        <div className="extraction-preview-result" aria-live="polite">
+          <p className="muted">
+            {preview.ruleDomain
+              ? `Rule: ${preview.ruleDomain}${preview.ruleSource === "bundled" ? " (built-in)" : ""}`
+              : "No rule matches this URL"}
+            {preview.method ? ` · Method: ${METHOD_LABELS[preview.method]}` : null}
+            {preview.pages > 1 ? ` · ${preview.pages} pages` : null}
+            {preview.textLength > 0 ? ` · ${preview.textLength.toLocaleString()} characters` : null}
+          </p>
+          {preview.error ? <p className="error-text">{preview.error}</p> : null}
+          {preview.warnings.length > 0 ? (
+            <ul className="extraction-preview-warnings">
+              {preview.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          ) : null}
+          {preview.title ? <h4>{preview.title}</h4> : null}
+          {preview.html ? (
+            <ArticleHtml
+              html={preview.html}
+              annotations={NO_ANNOTATIONS}
+              className="extraction-preview-article"
+            />
+          ) : preview.textSample ? (
+            <p className="extraction-preview-article">{preview.textSample}</p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
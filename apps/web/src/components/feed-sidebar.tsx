@@ -1,6 +1,6 @@
 "use client";
 
-import type { Feed, Folder } from "@rss-wrangler/contracts";
+import { type Feed, type Folder, folderTree } from "@rss-wrangler/contracts";
 import Link from "next/link";
 import { useCallback, useState } from "react";
 
@@ -54,6 +54,29 @@ export function FeedSidebar({
     feedsByFolder.set(feed.folderId, list);
   }
 
+  // A folder is listed when it or one of its subfolders holds feeds, and
+  // hidden while any folder above it is collapsed.
+  const parentOf = new Map(folders.map((folder) => [folder.id, folder.parentId]));
+  const ancestorsOf = (folderId: string): string[] => {
+    const ancestors: string[] = [];
+    let parentId = parentOf.get(folderId);
+    while (parentId && !ancestors.includes(parentId)) {
+      ancestors.push(parentId);
+      parentId = parentOf.get(parentId);
+    }
+    return ancestors;
+  };
+  const foldersWithFeeds = new Set<string>();
+  for (const folderId of feedsByFolder.keys()) {
+    foldersWithFeeds.add(folderId);
+    for (const ancestor of ancestorsOf(folderId)) foldersWithFeeds.add(ancestor);
+  }
+  const visibleFolders = folderTree(folders).filter(
+    ({ folder }) =>
+      foldersWithFeeds.has(folder.id) &&
+      !ancestorsOf(folder.id).some((ancestor) => collapsedFolders.has(ancestor)),
+  );
+
   if (collapsed) return null;
 
   const isSmartActive = (state: string) =>
@@ -95,15 +118,13 @@ export function FeedSidebar({
         </div>
 
         <div className="fs-section-title">{"// folders"}</div>
-        {folders
-          .filter((folder) => (feedsByFolder.get(folder.id) ?? []).length > 0)
-          .map((folder) => {
+        {visibleFolders.map(({ folder, depth }) => {
           const folderFeeds = feedsByFolder.get(folder.id) ?? [];
           const isCollapsed = collapsedFolders.has(folder.id);
           const feedCount = folderFeeds.length;
 
           return (
-            <div key={folder.id}>
+            <div key={folder.id} style={depth > 0 ? { paddingLeft: `${depth * 12}px` } : undefined}>
               <button
                 type="button"
                 className={`fs-folder-header ${isFolderActive(folder.id) ? "active" : ""}`}
@@ -135,6 +156,14 @@ export function FeedSidebar({
                 >
                   v
                 </span>
+                {folder.color ? (
+                  <span
+                    className="folder-swatch"
+                    style={{ backgroundColor: folder.color }}
+                    aria-hidden
+                  />
+                ) : null}
+                {folder.icon ? <span aria-hidden>{folder.icon}</span> : null}
                 <span style={{ flex: 1 }}>{folder.name}</span>
                 {feedCount > 0 && <span className="fs-badge">{feedCount}</span>}
               </button>
@@ -0,0 +1,346 @@
+"use client";
+
+import { type Folder, folderTree, isFolderDescendant } from "@rss-wrangler/contracts";
+import { type FormEvent, useState } from "react";
+import { createFolder, deleteFolder, listFolders, reorderFolders, updateFolder } from "@/lib/api";
+
+const FOLDER_COLORS: Array<{ label: string; value: string }> = [
+  { label: "Red", value: "#e5484d" },
+  { label: "Orange", value: "#f76b15" },
+  { label: "Yellow", value: "#ffc53d" },
+  { label: "Green", value: "#30a46c" },
+  { label: "Teal", value: "#12a594" },
+  { label: "Blue", value: "#0090ff" },
+  { label: "Purple", value: "#8e4ec6" },
+  { label: "Pink", value: "#d6409f" },
+  { label: "Gray", value: "#8b8d98" },
+];
+
+/** Folder name indented by depth, for selects. */
+export function folderOptionLabel(folder: Folder, depth: number): string {
+  return `${"  ".repeat(depth)}${folder.icon ? `${folder.icon} ` : ""}${folder.name}`;
+}
+
+interface FolderDraft {
+  name: string;
+  parentId: string;
+  icon: string;
+  color: string;
+}
+
+const EMPTY_DRAFT: FolderDraft = { name: "", parentId: "", icon: "", color: "" };
+
+interface FolderManagerProps {
+  folders: Folder[];
+  onChange: (folders: Folder[]) => void;
+}
+
+/** Create, rename, nest, reorder, decorate and delete folders. */
+export function FolderManager({ folders, onChange }: FolderManagerProps) {
+  const [draft, setDraft] = useState<FolderDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<FolderDraft>(EMPTY_DRAFT);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const tree = folderTree(folders);
+
+  async function run(action: () => Promise<{ ok: true } | { ok: false; error: string }>) {
+    setBusy(true);
+    setError("");
+    const result = await action();
+    if (result.ok) {
+      onChange(await listFolders());
+    } else {
+      setError(result.error);
+    }
+    setBusy(false);
+    return result.ok;
+  }
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    const ok = await run(() =>
+      createFolder({
+        name: draft.name.trim(),
+        parentId: draft.parentId || null,
+        icon: draft.icon.trim() || null,
+        color: draft.color || null,
+      }),
+    );
+    if (ok) setDraft(EMPTY_DRAFT);
+  }
+
+  function startEditing(folder: Folder) {
+    setDeletingId(null);
+    setEditingId(folder.id);
+    setEditDraft({
+      name: folder.name,
+      parentId: folder.parentId ?? "",
+      icon: folder.icon ?? "",
+      color: folder.color ?? "",
+    });
+  }
+
+  async function handleSave(folder: Folder) {
+    const ok = await run(() =>
+      updateFolder(folder.id, {
+        name: folder.builtIn ? undefined : editDraft.name.trim(),
+        parentId: editDraft.parentId || null,
+        icon: editDraft.icon.trim() || null,
+        color: editDraft.color || null,
+      }),
+    );
+    if (ok) setEditingId(null);
+  }
+
+  async function handleMove(folder: Folder, offset: -1 | 1) {
+    const siblings = tree
+      .map((entry) => entry.folder)
+      .filter((f) => f.parentId === folder.parentId)
+      .map((f) => f.id);
+    const index = siblings.indexOf(folder.id);
+    const swapWith = index + offset;
+    if (index < 0 || swapWith < 0 || swapWith >= siblings.length) return;
+    [siblings[index], siblings[swapWith]] = [siblings[swapWith] as string, folder.id];
+    await run(() => reorderFolders({ parentId: folder.parentId, folderIds: siblings }));
+  }
+
+  async function handleDelete(folder: Folder) {
+    const ok = await run(() => deleteFolder(folder.id, reassignTo || undefined));
+    if (ok) setDeletingId(null);
+  }
+
+  return (
+    <section className="section-card">
+      <div className="row">
+        <h2>Folders</h2>
+      </div>
+      <p className="muted">
+        Stories are filed into folders by keyword. Move a feed into a folder yourself and the folder
+        learns the words its stories use.
+      </p>
+
+      <form onSubmit={handleCreate} className="row folder-form">
+        <input
+          className="input"
+          placeholder="New folder name"
+          required
+          maxLength={50}
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          aria-label="New folder name"
+        />
+        <FolderFields
+          draft={draft}
+          onDraftChange={setDraft}
+          parentOptions={tree}
+          labelPrefix="New folder"
+        />
+        <button type="submit" className="button button-primary" disabled={busy}>
+          Create
+        </button>
+      </form>
+      {error ? (
+        <p className="error-text" role="alert">
+          {error}
+        </p>
+      ) : null}
+
+      <ul className="folder-list" aria-label="Folders">
+        {tree.map(({ folder, depth }) => {
+          const siblings = tree.filter((entry) => entry.folder.parentId === folder.parentId);
+          const first = siblings[0]?.folder.id === folder.id;
+          const last = siblings[siblings.length - 1]?.folder.id === folder.id;
+          const isOther = folder.builtIn && folder.name === "Other";
+
+          return (
+            <li
+              key={folder.id}
+              className="folder-row"
+              style={{ paddingLeft: `${depth * 1.25}rem` }}
+            >
+              {editingId === folder.id ? (
+                <div className="row folder-form">
+                  <input
+                    className="input"
+                    required
+                    maxLength={50}
+                    value={editDraft.name}
+                    disabled={folder.builtIn}
+                    title={folder.builtIn ? "Built-in folders keep their name" : undefined}
+                    onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })}
+                    aria-label={`Name for ${folder.name}`}
+                  />
+                  <FolderFields
+                    draft={editDraft}
+                    onDraftChange={setEditDraft}
+                    parentOptions={tree.filter(
+                      (entry) => !isFolderDescendant(folders, entry.folder.id, folder.id),
+                    )}
+                    labelPrefix={folder.name}
+                  />
+                  <button
+                    type="button"
+                    className="button button-small button-primary"
+                    disabled={busy}
+                    onClick={() => void handleSave(folder)}
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    onClick={() => setEditingId(null)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="row">
+                  <FolderLabel folder={folder} />
+                  {folder.builtIn ? <span className="badge">Built-in</span> : null}
+                  <button
+                    type="button"
+                    className="button button-small"
+                    disabled={busy || first}
+                    onClick={() => void handleMove(folder, -1)}
+                    aria-label={`Move ${folder.name} up`}
+                  >
+                    Up
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    disabled={busy || last}
+                    onClick={() => void handleMove(folder, 1)}
+                    aria-label={`Move ${folder.name} down`}
+                  >
+                    Down
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    onClick={() => startEditing(folder)}
+                  >
+                    Edit
+                  </button>
+                  {isOther ? null : (
+                    <button
+                      type="button"
+                      className="button button-small"
+                      onClick={() => {
+                        setEditingId(null);
+                        setReassignTo("");
+                        setDeletingId(folder.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              )}
+              {deletingId === folder.id ? (
+                <div className="row">
+                  <label className="stack">
+                    <span className="muted">Move its feeds and stories to</span>
+                    <select value={reassignTo} onChange={(e) => setReassignTo(e.target.value)}>
+                      <option value="">Other</option>
+                      {tree
+                        .filter(
+                          (entry) =>
+                            entry.folder.id !== folder.id &&
+                            !(entry.folder.builtIn && entry.folder.name === "Other"),
+                        )
+                        .map((entry) => (
+                          <option key={entry.folder.id} value={entry.folder.id}>
+                            {folderOptionLabel(entry.folder, entry.depth)}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                  <button
+                    type="button"
+                    className="button button-small button-danger"
+                    disabled={busy}
+                    onClick={() => void handleDelete(folder)}
+                  >
+                    Delete {folder.name}
+                  </button>
+                  <button
+                    type="button"
+                    className="button button-small"
+                    onClick={() => setDeletingId(null)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+/** A folder's icon, colour swatch and name. */
+export function FolderLabel({ folder }: { folder: Folder }) {
+  return (
+    <span className="folder-label">
+      {folder.color ? (
+        <span className="folder-swatch" style={{ backgroundColor: folder.color }} aria-hidden />
+      ) : null}
+      {folder.icon ? <span aria-hidden>{folder.icon}</span> : null}
+      <span>{folder.name}</span>
+    </span>
+  );
+}
+
+interface FolderFieldsProps {
+  draft: FolderDraft;
+  onDraftChange: (draft: FolderDraft) => void;
+  parentOptions: Array<{ folder: Folder; depth: number }>;
+  labelPrefix: string;
+}
+
+function FolderFields({ draft, onDraftChange, parentOptions, labelPrefix }: FolderFieldsProps) {
+  return (
+    <>
+      <select
+        value={draft.parentId}
+        onChange={(e) => onDraftChange({ ...draft, parentId: e.target.value })}
+        aria-label={`${labelPrefix} parent`}
+      >
+        <option value="">Top level</option>
+        {parentOptions.map(({ folder, depth }) => (
+          <option key={folder.id} value={folder.id}>
+            {folderOptionLabel(folder, depth)}
+          </option>
+        ))}
+      </select>
+      <input
+        className="input input-compact"
+        placeholder="Icon"
+        maxLength={16}
+        value={draft.icon}
+        onChange={(e) => onDraftChange({ ...draft, icon: e.target.value })}
+        aria-label={`${labelPrefix} icon`}
+      />
+      <select
+        value={draft.color}
+        onChange={(e) => onDraftChange({ ...draft, color: e.target.value })}
+        aria-label={`${labelPrefix} color`}
+      >
+        <option value="">No color</option>
+        {FOLDER_COLORS.map((color) => (
+          <option key={color.value} value={color.value}>
+            {color.label}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import type { Annotation } from "@rss-wrangler/contracts";
+import { Fragment, forwardRef } from "react";
+import { highlightRanges } from "@/lib/article-text";
+
+interface Segment {
+  start: number;
+  text: string;
+  annotation: Annotation | null;
+}
+
+/** Splits `text` into plain and highlighted runs. */
+function highlightSegments(text: string, annotations: Annotation[]): Segment[] {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const range of highlightRanges(text, annotations)) {
+    if (range.start > cursor) {
+      segments.push({ start: cursor, text: text.slice(cursor, range.start), annotation: null });
+    }
+    segments.push({
+      start: range.start,
+      text: text.slice(range.start, range.end),
+      annotation: range.annotation,
+    });
+    cursor = range.end;
+  }
+  if (cursor < text.length) {
+    segments.push({ start: cursor, text: text.slice(cursor), annotation: null });
+  }
+  return segments;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  annotations: Annotation[];
+  className?: string;
+}
+
+/** Story text with the cluster's annotations painted inline. */
+export const HighlightedText = forwardRef<HTMLParagraphElement, HighlightedTextProps>(
+  function HighlightedText({ text, annotations, className }, ref) {
+    return (
+      <p ref={ref} className={className}>
+        {highlightSegments(text, annotations).map((segment) =>
+          segment.annotation ? (
+            <mark
+              key={segment.start}
+              className={`annotation-mark annotation-mark-${segment.annotation.color}`}
+              title={segment.annotation.note ?? undefined}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <Fragment key={segment.start}>{segment.text}</Fragment>
+          ),
+        )}
+      </p>
+    );
+  },
+);
@@ -31,10 +31,13 @@ const NAV_ITEMS: NavItem[] = [
   { href: "/topics", sidebarLabel: "topics", icon: TagIcon },
   { href: "/discover", sidebarLabel: "discover", bottomLabel: "DISCOVER", icon: SearchIcon },
   { href: "/saved", sidebarLabel: "saved", bottomLabel: "SAVED", icon: BookmarkIcon },
+  { href: "/highlights", sidebarLabel: "highlights", icon: FileTextIcon },
   { href: "/digest", sidebarLabel: "digest", bottomLabel: "DIGEST", icon: FileTextIcon },
   { href: "/sources", sidebarLabel: "sources", icon: RssIcon },
   { href: "/stats", sidebarLabel: "stats", icon: BarChartIcon },
   { href: "/account/invites", sidebarLabel: "invites", icon: FileTextIcon },
+  { href: "/account/read-later", sidebarLabel: "read later", icon: BookmarkIcon },
+  { href: "/account/import", sidebarLabel: "import", icon: FileTextIcon },
   { href: "/account/data-export", sidebarLabel: "export", icon: FileTextIcon },
   { href: "/settings", sidebarLabel: "settings", bottomLabel: "CONFIG", icon: SettingsIcon },
 ];
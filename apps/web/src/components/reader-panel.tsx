@@ -1,10 +1,22 @@
 "use client";
 
-import type { ClusterDetail } from "@rss-wrangler/contracts";
+import type { Annotation, ClusterDetail, RelatedCluster } from "@rss-wrangler/contracts";
 import Link from "next/link";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AnnotationToolbar } from "@/components/annotation-toolbar";
+import {
+  ArticleHtml,
+  getStoredReaderTypography,
+  type ReaderTypography,
+  ReaderTypographyControls,
+  setStoredReaderTypography,
+  typographyProps,
+} from "@/components/article-html";
+import { EpisodePlayButton, isPlayableEnclosure } from "@/components/audio-player";
+import { HighlightedText } from "@/components/highlighted-text";
 import { XIcon } from "@/components/icons";
-import { getClusterDetail } from "@/lib/api";
+import { VideoPlayer } from "@/components/video-player";
+import { getClusterDetail, getRelatedClusters, listAnnotations } from "@/lib/api";
 import { cn } from "@/lib/cn";
 import { stripHtml } from "@/lib/strip-html";
 
@@ -42,10 +54,10 @@ function formatDate(dateStr: string): string {
   });
 }
 
-type ReaderMode = "feed" | "original" | "text";
+type ReaderMode = "feed" | "original" | "text" | "video";
 
 const READER_MODE_STORAGE_KEY = "reader-mode-default";
-const VALID_READER_MODES: ReadonlySet<string> = new Set(["feed", "original", "text"]);
+const VALID_READER_MODES: ReadonlySet<string> = new Set(["feed", "original", "text", "video"]);
 
 function getStoredReaderMode(): ReaderMode | null {
   try {
@@ -92,12 +104,23 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
   const [loading, setLoading] = useState(true);
   const [readerMode, setReaderMode] = useState<ReaderMode>("feed");
   const [frameLoadFailed, setFrameLoadFailed] = useState(false);
+  const [related, setRelated] = useState<RelatedCluster[]>([]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [typography, setTypography] = useState<ReaderTypography>(getStoredReaderTypography);
+  const textContainerRef = useRef<HTMLDivElement>(null);
+  const storyTextRef = useRef<HTMLParagraphElement>(null);
+  const articleRef = useRef<HTMLDivElement>(null);
 
   const handleSetReaderMode = useCallback((mode: ReaderMode) => {
     setReaderMode(mode);
     setStoredReaderMode(mode);
   }, []);
 
+  const handleSetTypography = useCallback((next: ReaderTypography) => {
+    setTypography(next);
+    setStoredReaderTypography(next);
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
     setLoading(true);
@@ -111,8 +134,13 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
         const perFeedDefault = result.primaryFeedDefaultReaderMode;
         const storedDefault = getStoredReaderMode();
         const fallback = result.storyTextSource === "unavailable" ? "feed" : "text";
-        const resolved = perFeedDefault ?? storedDefault ?? fallback;
-        setReaderMode(resolved);
+        const preferred = perFeedDefault ?? storedDefault ?? fallback;
+        // Video stories open in the player unless their feed picks another mode.
+        if (result.cluster.video) {
+          setReaderMode(perFeedDefault ?? "video");
+        } else {
+          setReaderMode(preferred === "video" ? fallback : preferred);
+        }
       }
       setLoading(false);
     });
@@ -122,11 +150,42 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
     };
   }, [clusterId]);
 
+  useEffect(() => {
+    let cancelled = false;
+    setRelated([]);
+
+    getRelatedClusters(clusterId).then((result) => {
+      if (!cancelled) setRelated(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clusterId]);
+
+  const loadAnnotations = useCallback(async () => {
+    setAnnotations(await listAnnotations(clusterId));
+  }, [clusterId]);
+
+  useEffect(() => {
+    setAnnotations([]);
+    loadAnnotations();
+  }, [loadAnnotations]);
+
   const primaryMember = useMemo(() => {
     if (!detail) return null;
     return detail.members.find((member) => isSafeUrl(member.url)) ?? null;
   }, [detail]);
 
+  const episodeMember = useMemo(() => {
+    if (!detail) return null;
+    return (
+      detail.members.find((member) =>
+        member.enclosures.some((enclosure) => isPlayableEnclosure(enclosure.mimeType)),
+      ) ?? null
+    );
+  }, [detail]);
+
   if (loading) {
     return (
       <div className="reader-panel-content">
@@ -176,6 +235,7 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
     detail.cluster.heroImageUrl && isSafeUrl(detail.cluster.heroImageUrl)
       ? detail.cluster.heroImageUrl
       : null;
+  const video = detail.cluster.video;
 
   return (
     <div className="reader-panel-content">
@@ -212,6 +272,17 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
           >
             Text
           </button>
+          {video && (
+            <button
+              type="button"
+              role="tab"
+              aria-selected={readerMode === "video"}
+              className={cn("button button-small", readerMode === "video" && "button-active")}
+              onClick={() => handleSetReaderMode("video")}
+            >
+              Video
+            </button>
+          )}
         </div>
         <div className="reader-panel-toolbar-actions">
           <Link
@@ -263,7 +334,9 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
           )}
         </div>
 
-        {heroImage && (
+        {episodeMember && <EpisodePlayButton member={episodeMember} />}
+
+        {heroImage && !(video && readerMode === "video") && (
           <img
             className="reader-panel-hero"
             src={heroImage}
@@ -274,6 +347,15 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
           />
         )}
 
+        {video && readerMode === "video" && (
+          <div className="reader-panel-tab-content">
+            <VideoPlayer video={video} title={detail.cluster.headline} thumbnailUrl={heroImage} />
+            {detail.cluster.summary && (
+              <p className="cluster-story-text">{stripHtml(detail.cluster.summary)}</p>
+            )}
+          </div>
+        )}
+
         {readerMode === "feed" && (
           <div className="reader-panel-tab-content">
             <p className="cluster-story-text">
@@ -323,9 +405,40 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
         {readerMode === "text" && (
           <div className="reader-panel-tab-content">
             <p className="muted cluster-story-state">{storyStateLabel}</p>
-            <p className="cluster-story-text">
-              {stripHtml(detail.storySoFar ?? "No extracted text is available yet.")}
-            </p>
+            {detail.storySoFar ? (
+              <>
+                <ReaderTypographyControls typography={typography} onChange={handleSetTypography} />
+                <div
+                  ref={textContainerRef}
+                  className={cn("reader-panel-annotatable", typographyProps(typography).className)}
+                  style={typographyProps(typography).style}
+                >
+                  {detail.storyHtml ? (
+                    <ArticleHtml
+                      ref={articleRef}
+                      html={detail.storyHtml}
+                      annotations={annotations}
+                    />
+                  ) : (
+                    <HighlightedText
+                      ref={storyTextRef}
+                      className="cluster-story-text"
+                      text={stripHtml(detail.storySoFar)}
+                      annotations={annotations}
+                    />
+                  )}
+                  <AnnotationToolbar
+                    clusterId={clusterId}
+                    containerRef={textContainerRef}
+                    anchorRef={detail.storyHtml ? articleRef : storyTextRef}
+                    collapseWhitespace={detail.storyHtml !== null}
+                    onAnnotationCreated={loadAnnotations}
+                  />
+                </div>
+              </>
+            ) : (
+              <p className="cluster-story-text">No extracted text is available yet.</p>
+            )}
           </div>
         )}
 
@@ -364,6 +477,30 @@ export function ReaderPanel({ clusterId, onClose }: ReaderPanelProps) {
             </ul>
           </details>
         )}
+
+        {related.length > 0 && (
+          <section className="reader-panel-related" aria-label="Previously covered">
+            <h3 className="reader-panel-related-heading">Previously covered</h3>
+            <ul className="cluster-members-list">
+              {related.map((cluster) => (
+                <li key={cluster.id} className="cluster-member-row">
+                  <Link href={`/clusters/${cluster.id}`} className="cluster-member-title">
+                    {cluster.headline}
+                  </Link>
+                  <p className="cluster-member-meta">
+                    <span className="source-name">
+                      {cluster.primarySource.toUpperCase().replace(/ /g, "_")}
+                    </span>
+                    <span className="source-sep">/</span>
+                    <time dateTime={cluster.primarySourcePublishedAt}>
+                      {formatDate(cluster.primarySourcePublishedAt)}
+                    </time>
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
       </div>
     </div>
   );
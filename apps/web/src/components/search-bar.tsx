@@ -3,7 +3,14 @@
 import type { ClusterCard, Feed, Folder, SavedSearch } from "@rss-wrangler/contracts";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { StoryCard } from "@/components/story-card";
-import { getSettings, listFeeds, listFolders, searchClusters, updateSettings } from "@/lib/api";
+import {
+  getAccountEntitlements,
+  getSettings,
+  listFeeds,
+  listFolders,
+  searchClusters,
+  updateSettings,
+} from "@/lib/api";
 
 function makeUuid(): string {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
@@ -49,6 +56,8 @@ export function SearchBar() {
   const [activeSavedSearchId, setActiveSavedSearchId] = useState("");
   const [folderId, setFolderId] = useState("");
   const [feedId, setFeedId] = useState("");
+  const [semanticAvailable, setSemanticAvailable] = useState(false);
+  const [semantic, setSemantic] = useState(false);
   const [scopesLoaded, setScopesLoaded] = useState(false);
   const [savedSearchesLoaded, setSavedSearchesLoaded] = useState(false);
   const [savingSavedSearches, setSavingSavedSearches] = useState(false);
@@ -69,9 +78,14 @@ export function SearchBar() {
     if (scopesLoaded) return;
     if (!scopeLoadPromiseRef.current) {
       scopeLoadPromiseRef.current = (async () => {
-        const [loadedFolders, loadedFeeds] = await Promise.all([listFolders(), listFeeds()]);
+        const [loadedFolders, loadedFeeds, entitlements] = await Promise.all([
+          listFolders(),
+          listFeeds(),
+          getAccountEntitlements(),
+        ]);
         setFolders(loadedFolders);
         setFeeds(loadedFeeds);
+        setSemanticAvailable(entitlements?.searchMode === "semantic");
         setScopesLoaded(true);
       })().finally(() => {
         scopeLoadPromiseRef.current = null;
@@ -96,7 +110,7 @@ export function SearchBar() {
   }, [savedSearchesLoaded, commitSavedSearches]);
 
   const doSearch = useCallback(
-    async (q: string, scope?: { folderId: string; feedId: string }) => {
+    async (q: string, scope?: { folderId: string; feedId: string }, useSemantic = semantic) => {
       if (q.trim().length === 0) {
         setResults([]);
         setOpen(false);
@@ -108,12 +122,13 @@ export function SearchBar() {
       const res = await searchClusters(q, 10, {
         folderId: activeFolderId || undefined,
         feedId: activeFeedId || undefined,
+        mode: useSemantic ? "semantic" : undefined,
       });
       setResults(res.data);
       setOpen(true);
       setLoading(false);
     },
-    [feedId, folderId],
+    [feedId, folderId, semantic],
   );
 
   function handleChange(value: string) {
@@ -141,6 +156,13 @@ export function SearchBar() {
     }
   }
 
+  function handleSemanticChange(value: boolean) {
+    setSemantic(value);
+    if (query.trim().length > 0) {
+      void doSearch(query, { folderId, feedId }, value);
+    }
+  }
+
   async function handleSavedSearchSelect(savedSearchId: string) {
     setActiveSavedSearchId(savedSearchId);
     if (!savedSearchId) return;
@@ -327,6 +349,16 @@ export function SearchBar() {
               </option>
             ))}
           </select>
+          {semanticAvailable ? (
+            <label className="search-semantic-toggle">
+              <input
+                type="checkbox"
+                checked={semantic}
+                onChange={(e) => handleSemanticChange(e.target.checked)}
+              />
+              Match by meaning
+            </label>
+          ) : null}
         </div>
       ) : null}
       {open && results.length > 0 && (
@@ -1,16 +1,51 @@
 "use client";
 
+import type { ReadLaterConnection } from "@rss-wrangler/contracts";
 import { useEffect, useRef, useState } from "react";
+import { listReadLaterConnections, sendClusterToReadLater } from "@/lib/api";
 
 interface ShareMenuProps {
   articleUrl: string;
+  clusterId?: string;
   wallabagUrl?: string;
 }
 
-export function ShareMenu({ articleUrl, wallabagUrl }: ShareMenuProps) {
+// Every card shares one request for the member's connections.
+let connectionsRequest: Promise<ReadLaterConnection[]> | null = null;
+
+function loadConnections(): Promise<ReadLaterConnection[]> {
+  connectionsRequest ??= listReadLaterConnections().then((connections) =>
+    connections.filter((connection) => connection.enabled),
+  );
+  return connectionsRequest;
+}
+
+export function ShareMenu({ articleUrl, clusterId, wallabagUrl }: ShareMenuProps) {
   const [open, setOpen] = useState(false);
+  const [connections, setConnections] = useState<ReadLaterConnection[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    if (!open || !clusterId) return;
+    let cancelled = false;
+    loadConnections().then((result) => {
+      if (!cancelled) setConnections(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, clusterId]);
+
+  async function handleSend(connection: ReadLaterConnection) {
+    if (!clusterId) return;
+    setOpen(false);
+    const delivery = await sendClusterToReadLater(clusterId, connection.id);
+    setStatus(
+      delivery ? `Queued for ${connection.label}` : `Could not send to ${connection.label}`,
+    );
+  }
+
   useEffect(() => {
     function handleClickOutside(e: MouseEvent) {
       if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
@@ -71,6 +106,17 @@ export function ShareMenu({ articleUrl, wallabagUrl }: ShareMenuProps) {
             }
           }}
         >
+          {connections.map((connection) => (
+            <button
+              key={connection.id}
+              type="button"
+              className="share-menu-item"
+              role="menuitem"
+              onClick={() => handleSend(connection)}
+            >
+              {connection.label}
+            </button>
+          ))}
           {services.map((s) => (
             <a
               key={s.name}
@@ -86,6 +132,12 @@ export function ShareMenu({ articleUrl, wallabagUrl }: ShareMenuProps) {
           ))}
         </div>
       )}
+      {status ? (
+        <span className="muted" role="status">
+          {" "}
+          {status}
+        </span>
+      ) : null}
     </div>
   );
 }
@@ -1,10 +1,11 @@
 "use client";
 
-import type {
-  ClusterCard,
-  Feed,
-  MarkReadOnScroll,
-  MarkReadOnScrollOverride,
+import {
+  type ClusterCard,
+  type Feed,
+  imageProxyVariant,
+  type MarkReadOnScroll,
+  type MarkReadOnScrollOverride,
 } from "@rss-wrangler/contracts";
 import Link from "next/link";
 import { forwardRef, memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
@@ -22,6 +23,7 @@ import {
 } from "@/components/icons";
 import type { ViewLayout } from "@/components/layout-toggle";
 import { ShareMenu } from "@/components/share-menu";
+import { VideoPlayer } from "@/components/video-player";
 import {
   clusterFeedback,
   createFilter,
@@ -30,6 +32,7 @@ import {
   recordAutoReadEvent,
   recordDwell,
   saveCluster,
+  setClusterSharedSaved,
   updateFeed,
 } from "@/lib/api";
 import { cn } from "@/lib/cn";
@@ -360,6 +363,7 @@ export const StoryCard = memo(
     ref,
   ) {
     const [saved, setSaved] = useState(cluster.isSaved);
+    const [sharedSaved, setSharedSaved] = useState(cluster.isSharedSaved);
     const [read, setRead] = useState(cluster.isRead);
     const [busy, setBusy] = useState(false);
     const [tuningBusy, setTuningBusy] = useState(false);
@@ -602,6 +606,19 @@ export const StoryCard = memo(
       }
     }
 
+    async function handleToggleSharedSaved() {
+      if (busy) return;
+      setBusy(true);
+      try {
+        const next = !sharedSaved;
+        if (await setClusterSharedSaved(cluster.id, next)) setSharedSaved(next);
+      } catch (err) {
+        console.error("handleToggleSharedSaved failed", err);
+      } finally {
+        setBusy(false);
+      }
+    }
+
     async function handleMarkRead() {
       if (busy) return;
       setBusy(true);
@@ -822,6 +839,25 @@ export const StoryCard = memo(
             aria-label="Card actions"
             onKeyDown={handleMenuKeyDown}
           >
+            <button
+              ref={(el) => {
+                menuItemsRef.current[menuItemIndex++] = el;
+              }}
+              type="button"
+              role="menuitem"
+              className="card-actions-item"
+              disabled={busy}
+              onClick={() => {
+                void handleToggleSharedSaved();
+                closeMenu();
+              }}
+            >
+              <BookmarkIcon className="card-actions-item-icon" />
+              <span>{sharedSaved ? "Remove from team saved" : "Add to team saved"}</span>
+            </button>
+
+            <hr className="card-actions-separator" />
+
             {hasPrimaryFeed && (
               <button
                 ref={(el) => {
@@ -1162,7 +1198,7 @@ export const StoryCard = memo(
           {displayMode !== "summary" && heroImageUrl && (
             <img
               className="story-hero story-hero-compact"
-              src={heroImageUrl}
+              src={imageProxyVariant(heroImageUrl, "thumbnail")}
               alt=""
               width={1200}
               height={630}
@@ -1224,15 +1260,25 @@ export const StoryCard = memo(
           {cardActionsMenu}
         </div>
 
-        {!isSummaryMode && heroImageUrl && (
-          <img
+        {!isSummaryMode && cluster.video ? (
+          <VideoPlayer
             className="story-hero"
-            src={heroImageUrl}
-            alt=""
-            width={1200}
-            height={630}
-            loading="lazy"
+            video={cluster.video}
+            title={cluster.headline}
+            thumbnailUrl={heroImageUrl}
           />
+        ) : (
+          !isSummaryMode &&
+          heroImageUrl && (
+            <img
+              className="story-hero"
+              src={heroImageUrl}
+              alt=""
+              width={1200}
+              height={630}
+              loading="lazy"
+            />
+          )
         )}
 
         <div ref={cardBodyRef} className="story-card-body">
@@ -1339,7 +1385,11 @@ export const StoryCard = memo(
               <XIcon aria-hidden="true" />
             </button>
             {isSafeUrl(headlineUrl) && (
-              <ShareMenu articleUrl={headlineUrl!} wallabagUrl={wallabagUrl} />
+              <ShareMenu
+                articleUrl={headlineUrl!}
+                clusterId={cluster.id}
+                wallabagUrl={wallabagUrl}
+              />
             )}
           </div>
         </div>
@@ -0,0 +1,62 @@
+"use client";
+
+import type { VideoEmbed } from "@rss-wrangler/contracts";
+import { youtubeEmbedUrl } from "@rss-wrangler/contracts";
+import { useState } from "react";
+import { cn } from "@/lib/cn";
+import { formatDuration } from "@/lib/format-duration";
+
+interface VideoPlayerProps {
+  video: VideoEmbed;
+  title: string;
+  thumbnailUrl: string | null;
+  className?: string;
+}
+
+/**
+ * Click-to-load YouTube player. Only the feed thumbnail is shown until the
+ * reader presses play, so no request reaches YouTube before that; playback
+ * then uses the youtube-nocookie domain.
+ */
+export function VideoPlayer({ video, title, thumbnailUrl, className }: VideoPlayerProps) {
+  const [active, setActive] = useState(false);
+
+  if (active) {
+    return (
+      <div className={cn("video-player", className)}>
+        <iframe
+          className="video-player-frame"
+          src={`${youtubeEmbedUrl(video.videoId)}?autoplay=1&rel=0`}
+          title={`Video: ${title}`}
+          allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+          allowFullScreen
+          referrerPolicy="strict-origin-when-cross-origin"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className={cn("video-player video-player-poster", className)}
+      onClick={() => setActive(true)}
+      aria-label={`Play video: ${title}`}
+    >
+      {thumbnailUrl && (
+        <img
+          className="video-player-thumbnail"
+          src={thumbnailUrl}
+          alt=""
+          width={1200}
+          height={675}
+          loading="lazy"
+        />
+      )}
+      <span className="video-player-play" aria-hidden="true" />
+      {video.durationSeconds ? (
+        <span className="video-player-duration">{formatDuration(video.durationSeconds)}</span>
+      ) : null}
+    </button>
+  );
+}
@@ -0,0 +1,50 @@
+import type { Annotation } from "@rss-wrangler/contracts";
+import { describe, expect, it } from "vitest";
+import { collapsedOffset, collapseWhitespace, paintHighlights } from "../article-text";
+
+function annotation(exact: string, overrides: Partial<Annotation> = {}): Annotation {
+  return {
+    id: `a-${exact}`,
+    clusterId: "cluster-1",
+    highlightedText: exact,
+    note: null,
+    color: "yellow",
+    anchor: { quote: { exact, prefix: "", suffix: "" }, position: null },
+    createdAt: "2025-02-10T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("collapsedOffset", () => {
+  it("maps raw offsets onto the whitespace-collapsed text", () => {
+    const raw = "  First   paragraph.\n\nSecond";
+    const collapsed = collapseWhitespace(raw);
+
+    expect(collapsed).toBe("First paragraph. Second");
+    expect(collapsed.slice(collapsedOffset(raw, 10), collapsedOffset(raw, 20))).toBe("paragraph.");
+    expect(collapsed.slice(collapsedOffset(raw, 22))).toBe("Second");
+  });
+});
+
+describe("paintHighlights", () => {
+  it("marks highlights that span elements in rendered markup", () => {
+    const root = document.createElement("div");
+    root.innerHTML = "<p>The mayor <strong>resigned</strong> today.</p>\n<p>Residents reacted.</p>";
+
+    paintHighlights(root, [
+      annotation("resigned today. Residents", { color: "green", note: "Big news" }),
+      annotation("mayor"),
+    ]);
+
+    const marks = Array.from(root.querySelectorAll("mark"));
+    expect(marks.map((mark) => mark.textContent)).toEqual([
+      "mayor",
+      "resigned",
+      " today.",
+      "Residents",
+    ]);
+    expect(marks[1]?.className).toBe("annotation-mark annotation-mark-green");
+    expect(marks[1]?.title).toBe("Big news");
+    expect(root.textContent).toBe("The mayor resigned today.\nResidents reacted.");
+  });
+});
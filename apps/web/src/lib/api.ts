@@ -2,14 +2,20 @@ import {
   type AccountDataExportStatus,
   type AccountDeletionStatus,
   type AccountEntitlements,
+  type AccountImportQuery,
+  type AccountImportReport,
   type AiUsageSummary,
   type Annotation,
+  type AnnotationColor,
+  type ApiToken,
   type AuthTokens,
   accountDataExportStatusSchema,
   accountDeletionStatusSchema,
   accountEntitlementsSchema,
+  accountImportReportSchema,
   aiUsageSummarySchema,
   annotationSchema,
+  apiTokenSchema,
   authTokensSchema,
   type BillingInterval,
   type BillingOverview,
@@ -19,60 +25,118 @@ import {
   billingPortalResponseSchema,
   billingSubscriptionActionResponseSchema,
   type ChangePasswordRequest,
+  type ClientApiCredentialStatus,
   type ClusterAiSummaryResponse,
   type ClusterCard,
   type ClusterDetail,
   type ClusterFeedbackRequest,
   type CreateAnnotationRequest,
+  type CreateApiTokenRequest,
+  type CreateApiTokenResponse,
+  type CreateExtractionRuleRequest,
+  type CreateFeedOutputRequest,
   type CreateFilterRuleRequest,
+  type CreateFolderRequest,
   type CreateMemberInviteRequest,
+  type CreateReadLaterConnectionRequest,
+  type CreateWebhookSubscriptionRequest,
+  clientApiCredentialStatusSchema,
   clusterAiSummaryResponseSchema,
   clusterCardSchema,
   clusterDetailSchema,
+  createApiTokenResponseSchema,
   type Digest,
+  type DigestPreview,
+  type DigestPreviewRequest,
+  type DiscoveredFeed,
+  digestPreviewSchema,
   digestSchema,
+  discoverFeedsResponseSchema,
+  type ExtractionPreview,
+  type ExtractionPreviewRequest,
+  type ExtractionRule,
+  type ExtractionRulesResponse,
+  extractionPreviewSchema,
+  extractionRuleSchema,
+  extractionRulesResponseSchema,
   type Feed,
+  type FeedOutput,
+  type FeedOutputFormat,
+  type FeedOutputTokenResponse,
   type FeedRecommendation,
   type FeedTopic,
   type FilterRule,
   type Folder,
   type ForgotPasswordRequest,
+  feedOutputSchema,
+  feedOutputTokenResponseSchema,
   feedRecommendationsResponseSchema,
   feedSchema,
   feedTopicSchema,
   filterRuleSchema,
   folderSchema,
+  type HighlightExportFormat,
+  type HighlightExportStatus,
+  type HighlightListResponse,
   type HostedPlanId,
+  highlightExportStatusSchema,
+  highlightListResponseSchema,
   type JoinAccountRequest,
   type ListClustersQuery,
   type LoginRequest,
   listClustersQuerySchema,
   type MarkAllReadRequest,
+  type MediaProgress,
   type Member,
   type MemberInvite,
+  mediaProgressSchema,
   memberInviteSchema,
   memberSchema,
   type PollFeedNowRequest,
   type PrivacyConsent,
+  type PushHighlightsToReadwiseRequest,
+  type PushHighlightsToReadwiseResponse,
   privacyConsentSchema,
+  pushHighlightsToReadwiseResponseSchema,
+  type ReaderImportJob,
+  type ReaderImportSource,
   type ReadingStats,
+  type ReadLaterConnection,
+  type ReadLaterDelivery,
+  type RelatedCluster,
+  type ReorderFoldersRequest,
   type RequestAccountDeletion,
   type ResendVerificationRequest,
   type ResetPasswordRequest,
+  readerImportJobSchema,
   readingStatsSchema,
+  readLaterConnectionSchema,
+  readLaterDeliverySchema,
   recordEventsResponseSchema,
-  type Settings,
+  relatedClustersResponseSchema,
+  type SearchMode,
+  type SettingsView,
   type SponsoredCard,
   type StatsPeriod,
   searchQuerySchema,
-  settingsSchema,
+  settingsViewSchema,
   sponsoredCardSchema,
   type Topic,
   topicSchema,
+  type UpdateExtractionRuleRequest,
   type UpdateFeedRequest,
+  type UpdateFolderRequest,
+  type UpdateMediaProgressRequest,
   type UpdateMemberRequest,
   type UpdatePrivacyConsentRequest,
+  type UpdateReadLaterConnectionRequest,
   type UpdateSettingsRequest,
+  type UpdateWebhookSubscriptionRequest,
+  type UpdateWorkspaceSettingsRequest,
+  type WebhookDelivery,
+  type WebhookSubscription,
+  webhookDeliverySchema,
+  webhookSubscriptionSchema,
 } from "@rss-wrangler/contracts";
 
 export type SignupResult =
@@ -343,6 +407,7 @@ const fallbackClusters: ClusterCard[] = [
     id: "cccccccc-cccc-cccc-cccc-cccccccccccc",
     headline: "Welcome to RSS Wrangler",
     heroImageUrl: null,
+    video: null,
     primaryFeedId: "00000000-0000-0000-0000-000000000000",
     primarySource: "Local seed",
     primarySourcePublishedAt: new Date().toISOString(),
@@ -359,18 +424,19 @@ const fallbackClusters: ClusterCard[] = [
     hiddenSignals: [{ label: "Muted keyword", reason: '"crypto" matched filter #3' }],
     isRead: false,
     isSaved: false,
+    isSharedSaved: false,
   },
 ];
 
 const fallbackFolders: Folder[] = [
-  { id: "11111111-1111-1111-1111-111111111111", name: "Tech" },
-  { id: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", name: "Other" },
+  folderSchema.parse({ id: "11111111-1111-1111-1111-111111111111", name: "Tech", builtIn: true }),
+  folderSchema.parse({ id: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", name: "Other", builtIn: true }),
 ];
 
 const fallbackFeeds: Feed[] = [];
 const fallbackDigests: Digest[] = [];
 const fallbackFilters: FilterRule[] = [];
-const fallbackSettings: Settings = {
+const fallbackSettings: SettingsView = {
   aiMode: "summaries_digest",
   aiProvider: "openai",
   openaiApiKey: "",
@@ -378,6 +444,11 @@ const fallbackSettings: Settings = {
   aiFallbackToLocal: false,
   digestAwayHours: 24,
   digestBacklogThreshold: 50,
+  digestSchedule: "off",
+  digestDeliveryHour: 7,
+  digestTimezone: "UTC",
+  digestChannel: "in_app",
+  digestSections: [],
   feedPollMinutes: 60,
   markReadOnScroll: "off",
   markReadOnScrollListDelayMs: 1500,
@@ -394,6 +465,10 @@ const fallbackSettings: Settings = {
   progressiveSummarizationEnabled: true,
   progressiveFreshHours: 6,
   progressiveAgingDays: 3,
+  semanticClusteringEnabled: false,
+  sources: {},
+  lockedKeys: [],
+  canManageWorkspace: false,
 };
 
 // ---------- Auth ----------
@@ -753,6 +828,134 @@ export async function downloadAccountDataExport(): Promise<
   }
 }
 
+export async function downloadAccountArchive(): Promise<
+  { ok: true } | { ok: false; error: string }
+> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(false);
+    return fetch(`${API_BASE_URL}/v1/account/archive`, {
+      method: "GET",
+      headers,
+      cache: "no-store",
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const message = await response.text();
+      return { ok: false, error: message || "Archive download failed" };
+    }
+
+    const blob = await response.blob();
+    const objectUrl = URL.createObjectURL(blob);
+    const disposition = response.headers.get("content-disposition");
+    const filename = parseDownloadFilename(disposition) ?? "rss-wrangler-archive.zip";
+
+    const anchor = document.createElement("a");
+    anchor.href = objectUrl;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(objectUrl);
+
+    return { ok: true };
+  } catch {
+    return { ok: false, error: "Archive download failed" };
+  }
+}
+
+export async function importAccountArchive(
+  file: File,
+  query: AccountImportQuery,
+): Promise<{ ok: true; report: AccountImportReport } | { ok: false; error: string }> {
+  const params = new URLSearchParams({
+    dryRun: query.dryRun ?? "false",
+    onConflict: query.onConflict ?? "keep",
+  });
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(false);
+    headers.set("Content-Type", "application/zip");
+    return fetch(`${API_BASE_URL}/v1/account/archive/import?${params}`, {
+      method: "POST",
+      headers,
+      body: file,
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { message?: unknown } | null;
+      const message = typeof payload?.message === "string" ? payload.message : "";
+      return { ok: false, error: message || "Archive import failed" };
+    }
+
+    return { ok: true, report: accountImportReportSchema.parse(await response.json()) };
+  } catch {
+    return { ok: false, error: "Archive import failed" };
+  }
+}
+
+// ---------- Imports from other readers ----------
+
+export async function listReaderImports(): Promise<ReaderImportJob[]> {
+  const payload = await requestJson<unknown>("/v1/imports");
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((job) => readerImportJobSchema.parse(job));
+}
+
+export async function getReaderImport(id: string): Promise<ReaderImportJob | null> {
+  const payload = await requestJson<unknown>(`/v1/imports/${encodeURIComponent(id)}`);
+  return payload ? readerImportJobSchema.parse(payload) : null;
+}
+
+export async function startReaderImport(
+  source: ReaderImportSource,
+  file: File,
+): Promise<{ ok: true; job: ReaderImportJob } | { ok: false; error: string }> {
+  const body = JSON.stringify({ source, filename: file.name, content: await file.text() });
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(true);
+    return fetch(`${API_BASE_URL}/v1/imports`, { method: "POST", headers, body });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { message?: unknown } | null;
+      const message = typeof payload?.message === "string" ? payload.message : "";
+      return { ok: false, error: message || "Import failed" };
+    }
+
+    return { ok: true, job: readerImportJobSchema.parse(await response.json()) };
+  } catch {
+    return { ok: false, error: "Import failed" };
+  }
+}
+
 export async function cancelAccountDeletion(): Promise<
   { ok: true; status: AccountDeletionStatus } | { ok: false; error: string }
 > {
@@ -785,6 +988,434 @@ export async function cancelAccountDeletion(): Promise<
   }
 }
 
+export function getFeverEndpointUrl(): string {
+  return `${API_BASE_URL}/fever/`;
+}
+
+export function getGReaderEndpointUrl(): string {
+  return `${API_BASE_URL}/api/greader`;
+}
+
+export async function getClientApiStatus(): Promise<ClientApiCredentialStatus | null> {
+  const payload = await requestJson<unknown>("/v1/account/client-api");
+  if (!payload) return null;
+  return clientApiCredentialStatusSchema.parse(payload);
+}
+
+export async function setClientApiPassword(
+  password: string,
+): Promise<{ ok: true; status: ClientApiCredentialStatus } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(true);
+    return fetch(`${API_BASE_URL}/v1/account/client-api`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ password }),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const message = await response.text();
+      return { ok: false, error: message || "Could not set client API password" };
+    }
+
+    const status = clientApiCredentialStatusSchema.parse(await response.json());
+    return { ok: true, status };
+  } catch {
+    return { ok: false, error: "Could not set client API password" };
+  }
+}
+
+export async function revokeClientApiPassword(): Promise<boolean> {
+  const res = await requestJson<unknown>("/v1/account/client-api", { method: "DELETE" });
+  return res !== null;
+}
+
+export async function listApiTokens(): Promise<ApiToken[]> {
+  const payload = await requestJson<unknown>("/v1/account/api-tokens");
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((token) => apiTokenSchema.parse(token));
+}
+
+export async function createApiToken(
+  request: CreateApiTokenRequest,
+): Promise<{ ok: true; created: CreateApiTokenResponse } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(true);
+    return fetch(`${API_BASE_URL}/v1/account/api-tokens`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(request),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const message = await response.text();
+      return { ok: false, error: message || "Could not create API token" };
+    }
+
+    const created = createApiTokenResponseSchema.parse(await response.json());
+    return { ok: true, created };
+  } catch {
+    return { ok: false, error: "Could not create API token" };
+  }
+}
+
+export async function revokeApiToken(id: string): Promise<boolean> {
+  const res = await requestJson<unknown>(`/v1/account/api-tokens/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  return res !== null;
+}
+
+// ---------- Feed outputs ----------
+
+/** Public URL a feed reader subscribes to; the token in it is the only credential. */
+export function feedOutputUrl(token: string, format: FeedOutputFormat): string {
+  return `${API_BASE_URL}/v1/outputs/${encodeURIComponent(token)}/${format}`;
+}
+
+export async function listFeedOutputs(): Promise<FeedOutput[]> {
+  const payload = await requestJson<unknown>("/v1/feed-outputs");
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((output) => feedOutputSchema.parse(output));
+}
+
+export async function createFeedOutput(
+  request: CreateFeedOutputRequest,
+): Promise<{ ok: true; created: FeedOutputTokenResponse } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(true);
+    return fetch(`${API_BASE_URL}/v1/feed-outputs`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(request),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const message = await response.text();
+      return { ok: false, error: message || "Could not create feed output" };
+    }
+
+    const created = feedOutputTokenResponseSchema.parse(await response.json());
+    return { ok: true, created };
+  } catch {
+    return { ok: false, error: "Could not create feed output" };
+  }
+}
+
+export async function rotateFeedOutput(id: string): Promise<FeedOutputTokenResponse | null> {
+  const payload = await requestJson<unknown>(`/v1/feed-outputs/${encodeURIComponent(id)}/rotate`, {
+    method: "POST",
+  });
+  if (!payload) return null;
+  return feedOutputTokenResponseSchema.parse(payload);
+}
+
+export async function deleteFeedOutput(id: string): Promise<boolean> {
+  const res = await requestJson<unknown>(`/v1/feed-outputs/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  return res !== null;
+}
+
+// ---------- Outbound webhooks ----------
+
+export async function listWebhooks(): Promise<WebhookSubscription[]> {
+  const payload = await requestJson<unknown>("/v1/webhooks");
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((webhook) => webhookSubscriptionSchema.parse(webhook));
+}
+
+async function sendWebhookMutation(
+  path: string,
+  method: "POST" | "PATCH",
+  body: CreateWebhookSubscriptionRequest | UpdateWebhookSubscriptionRequest,
+): Promise<{ ok: true; webhook: WebhookSubscription } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(true);
+    return fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers,
+      body: JSON.stringify(body),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const message = await response.text();
+      return { ok: false, error: message || "Could not save webhook" };
+    }
+
+    const webhook = webhookSubscriptionSchema.parse(await response.json());
+    return { ok: true, webhook };
+  } catch {
+    return { ok: false, error: "Could not save webhook" };
+  }
+}
+
+export async function createWebhook(
+  request: CreateWebhookSubscriptionRequest,
+): Promise<{ ok: true; webhook: WebhookSubscription } | { ok: false; error: string }> {
+  return sendWebhookMutation("/v1/webhooks", "POST", request);
+}
+
+export async function updateWebhook(
+  id: string,
+  request: UpdateWebhookSubscriptionRequest,
+): Promise<{ ok: true; webhook: WebhookSubscription } | { ok: false; error: string }> {
+  return sendWebhookMutation(`/v1/webhooks/${encodeURIComponent(id)}`, "PATCH", request);
+}
+
+export async function deleteWebhook(id: string): Promise<boolean> {
+  const res = await requestJson<unknown>(`/v1/webhooks/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  return res !== null;
+}
+
+export async function sendWebhookTest(id: string): Promise<WebhookDelivery | null> {
+  const payload = await requestJson<unknown>(`/v1/webhooks/${encodeURIComponent(id)}/test`, {
+    method: "POST",
+  });
+  if (!payload) return null;
+  return webhookDeliverySchema.parse(payload);
+}
+
+export async function listWebhookDeliveries(id: string): Promise<WebhookDelivery[]> {
+  const payload = await requestJson<unknown>(`/v1/webhooks/${encodeURIComponent(id)}/deliveries`);
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((delivery) => webhookDeliverySchema.parse(delivery));
+}
+
+// ---------- Read-later connectors ----------
+
+export async function listReadLaterConnections(): Promise<ReadLaterConnection[]> {
+  const payload = await requestJson<unknown>("/v1/read-later/connections");
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((connection) => readLaterConnectionSchema.parse(connection));
+}
+
+async function sendReadLaterMutation(
+  path: string,
+  method: "POST" | "PATCH",
+  body: CreateReadLaterConnectionRequest | UpdateReadLaterConnectionRequest,
+): Promise<{ ok: true; connection: ReadLaterConnection } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(true);
+    return fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers,
+      body: JSON.stringify(body),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { message?: unknown } | null;
+      const message = typeof payload?.message === "string" ? payload.message : "";
+      return { ok: false, error: message || "Could not save connection" };
+    }
+
+    const connection = readLaterConnectionSchema.parse(await response.json());
+    return { ok: true, connection };
+  } catch {
+    return { ok: false, error: "Could not save connection" };
+  }
+}
+
+export async function createReadLaterConnection(
+  request: CreateReadLaterConnectionRequest,
+): Promise<{ ok: true; connection: ReadLaterConnection } | { ok: false; error: string }> {
+  return sendReadLaterMutation("/v1/read-later/connections", "POST", request);
+}
+
+export async function updateReadLaterConnection(
+  id: string,
+  request: UpdateReadLaterConnectionRequest,
+): Promise<{ ok: true; connection: ReadLaterConnection } | { ok: false; error: string }> {
+  return sendReadLaterMutation(
+    `/v1/read-later/connections/${encodeURIComponent(id)}`,
+    "PATCH",
+    request,
+  );
+}
+
+export async function deleteReadLaterConnection(id: string): Promise<boolean> {
+  const res = await requestJson<unknown>(`/v1/read-later/connections/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  return res !== null;
+}
+
+export async function sendClusterToReadLater(
+  clusterId: string,
+  connectionId: string,
+): Promise<ReadLaterDelivery | null> {
+  const payload = await requestJson<unknown>(
+    `/v1/clusters/${encodeURIComponent(clusterId)}/read-later`,
+    { method: "POST", body: JSON.stringify({ connectionId }) },
+  );
+  if (!payload) return null;
+  return readLaterDeliverySchema.parse(payload);
+}
+
+export async function listReadLaterDeliveries(clusterId?: string): Promise<ReadLaterDelivery[]> {
+  const query = clusterId ? `?clusterId=${encodeURIComponent(clusterId)}` : "";
+  const payload = await requestJson<unknown>(`/v1/read-later/deliveries${query}`);
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((delivery) => readLaterDeliverySchema.parse(delivery));
+}
+
+// ---------- Highlights library & export ----------
+
+export async function listHighlights(
+  query: { q?: string; color?: AnnotationColor; cursor?: string } = {},
+): Promise<HighlightListResponse> {
+  const params = new URLSearchParams();
+  if (query.q) params.set("q", query.q);
+  if (query.color) params.set("color", query.color);
+  if (query.cursor) params.set("cursor", query.cursor);
+  const suffix = params.toString() ? `?${params}` : "";
+  const payload = await requestJson<unknown>(`/v1/highlights${suffix}`);
+  if (!payload) return { data: [], nextCursor: null };
+  return highlightListResponseSchema.parse(payload);
+}
+
+export async function listHighlightExportStatus(): Promise<HighlightExportStatus[]> {
+  const payload = await requestJson<unknown>("/v1/highlights/export/status");
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((status) => highlightExportStatusSchema.parse(status));
+}
+
+export async function downloadHighlights(
+  format: HighlightExportFormat,
+  incremental: boolean,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const params = new URLSearchParams({ format, incremental: String(incremental) });
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(false);
+    return fetch(`${API_BASE_URL}/v1/highlights/export?${params}`, {
+      method: "GET",
+      headers,
+      cache: "no-store",
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { message?: unknown } | null;
+      const message = typeof payload?.message === "string" ? payload.message : "";
+      return { ok: false, error: message || "Export failed" };
+    }
+
+    const blob = await response.blob();
+    const objectUrl = URL.createObjectURL(blob);
+    const disposition = response.headers.get("content-disposition");
+    const filename =
+      parseDownloadFilename(disposition) ??
+      (format === "readwise_csv" ? "rss-wrangler-highlights.csv" : "rss-wrangler-highlights.zip");
+
+    const anchor = document.createElement("a");
+    anchor.href = objectUrl;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(objectUrl);
+
+    return { ok: true };
+  } catch {
+    return { ok: false, error: "Export failed" };
+  }
+}
+
+export async function pushHighlightsToReadwise(
+  request: PushHighlightsToReadwiseRequest,
+): Promise<{ ok: true; result: PushHighlightsToReadwiseResponse } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(true);
+    return fetch(`${API_BASE_URL}/v1/highlights/readwise`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(request),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { message?: unknown } | null;
+      const message = typeof payload?.message === "string" ? payload.message : "";
+      return { ok: false, error: message || "Could not send highlights to Readwise" };
+    }
+
+    const result = pushHighlightsToReadwiseResponseSchema.parse(await response.json());
+    return { ok: true, result };
+  } catch {
+    return { ok: false, error: "Could not send highlights to Readwise" };
+  }
+}
+
 export async function logout(): Promise<void> {
   const headers = await authedHeaders(true);
   const rt = getRefreshToken();
@@ -866,6 +1497,17 @@ export async function getClusterAiSummary(id: string): Promise<ClusterAiSummaryR
   }
 }
 
+export async function getRelatedClusters(id: string): Promise<RelatedCluster[]> {
+  const payload = await requestJson<unknown>(`/v1/clusters/${encodeURIComponent(id)}/related`);
+  if (!payload) return [];
+
+  try {
+    return relatedClustersResponseSchema.parse(payload).data;
+  } catch {
+    return [];
+  }
+}
+
 export async function markClusterRead(id: string): Promise<boolean> {
   const res = await requestJson<unknown>(`/v1/clusters/${encodeURIComponent(id)}/read`, {
     method: "POST",
@@ -912,6 +1554,13 @@ export async function saveCluster(id: string): Promise<boolean> {
   return res !== null;
 }
 
+export async function setClusterSharedSaved(id: string, shared: boolean): Promise<boolean> {
+  const res = await requestJson<unknown>(`/v1/clusters/${encodeURIComponent(id)}/shared-save`, {
+    method: shared ? "POST" : "DELETE",
+  });
+  return res !== null;
+}
+
 export async function clusterFeedback(id: string, body: ClusterFeedbackRequest): Promise<boolean> {
   const res = await requestJson<unknown>(`/v1/clusters/${encodeURIComponent(id)}/feedback`, {
     method: "POST",
@@ -928,6 +1577,164 @@ export async function listFolders(): Promise<Folder[]> {
   return payload.map((entry) => folderSchema.parse(entry));
 }
 
+async function sendFolderMutation(
+  path: string,
+  method: "POST" | "PATCH" | "PUT" | "DELETE",
+  body?: CreateFolderRequest | UpdateFolderRequest | ReorderFoldersRequest,
+): Promise<{ ok: true; payload: unknown } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(body !== undefined);
+    return fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { message?: unknown } | null;
+      const message = typeof payload?.message === "string" ? payload.message : "";
+      return { ok: false, error: message || "Could not update folders" };
+    }
+
+    return { ok: true, payload: await response.json() };
+  } catch {
+    return { ok: false, error: "Could not update folders" };
+  }
+}
+
+export async function createFolder(
+  request: CreateFolderRequest,
+): Promise<{ ok: true; folder: Folder } | { ok: false; error: string }> {
+  const result = await sendFolderMutation("/v1/folders", "POST", request);
+  return result.ok ? { ok: true, folder: folderSchema.parse(result.payload) } : result;
+}
+
+export async function updateFolder(
+  id: string,
+  request: UpdateFolderRequest,
+): Promise<{ ok: true; folder: Folder } | { ok: false; error: string }> {
+  const result = await sendFolderMutation(
+    `/v1/folders/${encodeURIComponent(id)}`,
+    "PATCH",
+    request,
+  );
+  return result.ok ? { ok: true, folder: folderSchema.parse(result.payload) } : result;
+}
+
+export async function reorderFolders(
+  request: ReorderFoldersRequest,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const result = await sendFolderMutation("/v1/folders/order", "PUT", request);
+  return result.ok ? { ok: true } : result;
+}
+
+/** Deletes a folder; its feeds and stories move to `reassignTo` (Other by default). */
+export async function deleteFolder(
+  id: string,
+  reassignTo?: string,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const query = reassignTo ? `?reassignTo=${encodeURIComponent(reassignTo)}` : "";
+  const result = await sendFolderMutation(
+    `/v1/folders/${encodeURIComponent(id)}${query}`,
+    "DELETE",
+  );
+  return result.ok ? { ok: true } : result;
+}
+
+// ---------- Extraction rules ----------
+
+export async function listExtractionRules(): Promise<ExtractionRulesResponse | null> {
+  const payload = await requestJson<unknown>("/v1/extraction-rules");
+  return payload ? extractionRulesResponseSchema.parse(payload) : null;
+}
+
+async function sendExtractionMutation(
+  path: string,
+  method: "POST" | "PATCH" | "DELETE",
+  body?: CreateExtractionRuleRequest | UpdateExtractionRuleRequest | ExtractionPreviewRequest,
+): Promise<{ ok: true; payload: unknown } | { ok: false; error: string }> {
+  const attempt = async (): Promise<Response> => {
+    const headers = await authedHeaders(body !== undefined);
+    return fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+
+  try {
+    let response = await attempt();
+    if (response.status === 401) {
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await attempt();
+      }
+    }
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as { message?: unknown } | null;
+      const message = typeof payload?.message === "string" ? payload.message : "";
+      return { ok: false, error: message || "Could not update extraction rules" };
+    }
+
+    return { ok: true, payload: await response.json() };
+  } catch {
+    return { ok: false, error: "Could not update extraction rules" };
+  }
+}
+
+export async function createExtractionRule(
+  request: CreateExtractionRuleRequest,
+): Promise<{ ok: true; rule: ExtractionRule } | { ok: false; error: string }> {
+  const result = await sendExtractionMutation("/v1/extraction-rules", "POST", request);
+  return result.ok ? { ok: true, rule: extractionRuleSchema.parse(result.payload) } : result;
+}
+
+export async function updateExtractionRule(
+  id: string,
+  request: UpdateExtractionRuleRequest,
+): Promise<{ ok: true; rule: ExtractionRule } | { ok: false; error: string }> {
+  const result = await sendExtractionMutation(
+    `/v1/extraction-rules/${encodeURIComponent(id)}`,
+    "PATCH",
+    request,
+  );
+  return result.ok ? { ok: true, rule: extractionRuleSchema.parse(result.payload) } : result;
+}
+
+export async function deleteExtractionRule(
+  id: string,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const result = await sendExtractionMutation(
+    `/v1/extraction-rules/${encodeURIComponent(id)}`,
+    "DELETE",
+  );
+  return result.ok ? { ok: true } : result;
+}
+
+/** Queues a preview of extraction for `url`; poll `getExtractionPreview` for the result. */
+export async function createExtractionPreview(
+  url: string,
+): Promise<{ ok: true; preview: ExtractionPreview } | { ok: false; error: string }> {
+  const result = await sendExtractionMutation("/v1/extraction-previews", "POST", { url });
+  return result.ok ? { ok: true, preview: extractionPreviewSchema.parse(result.payload) } : result;
+}
+
+export async function getExtractionPreview(id: string): Promise<ExtractionPreview | null> {
+  const payload = await requestJson<unknown>(`/v1/extraction-previews/${encodeURIComponent(id)}`);
+  return payload ? extractionPreviewSchema.parse(payload) : null;
+}
+
 // ---------- Feeds ----------
 
 export async function listFeeds(): Promise<Feed[]> {
@@ -945,6 +1752,15 @@ export async function addFeed(url: string): Promise<Feed | null> {
   return feedSchema.parse(payload);
 }
 
+export async function discoverFeeds(url: string): Promise<DiscoveredFeed[] | null> {
+  const payload = await requestJson<unknown>("/v1/feeds/discover", {
+    method: "POST",
+    body: JSON.stringify({ url }),
+  });
+  if (!payload) return null;
+  return discoverFeedsResponseSchema.parse(payload).candidates;
+}
+
 export async function updateFeed(id: string, body: UpdateFeedRequest): Promise<Feed | null> {
   const payload = await requestJson<unknown>(`/v1/feeds/${encodeURIComponent(id)}`, {
     method: "PATCH",
@@ -1019,21 +1835,41 @@ export async function listDigests(): Promise<Digest[]> {
   return payload.map((entry) => digestSchema.parse(entry));
 }
 
+export async function previewDigest(request: DigestPreviewRequest): Promise<DigestPreview | null> {
+  const payload = await requestJson<unknown>("/v1/digest/preview", {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+  if (!payload) return null;
+  return digestPreviewSchema.parse(payload);
+}
+
 // ---------- Settings ----------
 
-export async function getSettings(): Promise<Settings> {
+export async function getSettings(): Promise<SettingsView> {
   const payload = await requestJson<unknown>("/v1/settings");
   if (!payload) return fallbackSettings;
-  return settingsSchema.parse(payload);
+  return settingsViewSchema.parse(payload);
 }
 
-export async function updateSettings(body: UpdateSettingsRequest): Promise<Settings | null> {
+export async function updateSettings(body: UpdateSettingsRequest): Promise<SettingsView | null> {
   const payload = await requestJson<unknown>("/v1/settings", {
     method: "POST",
     body: JSON.stringify(body),
   });
   if (!payload) return null;
-  return settingsSchema.parse(payload);
+  return settingsViewSchema.parse(payload);
+}
+
+export async function updateWorkspaceSettings(
+  body: UpdateWorkspaceSettingsRequest,
+): Promise<SettingsView | null> {
+  const payload = await requestJson<unknown>("/v1/settings/workspace", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  if (!payload) return null;
+  return settingsViewSchema.parse(payload);
 }
 
 // ---------- Search ----------
@@ -1047,6 +1883,7 @@ interface SearchClustersOptions {
   cursor?: string;
   folderId?: string;
   feedId?: string;
+  mode?: SearchMode;
 }
 
 export async function searchClusters(
@@ -1062,6 +1899,7 @@ export async function searchClusters(
   if (parsed.cursor) search.set("cursor", parsed.cursor);
   if (parsed.folderId) search.set("folderId", parsed.folderId);
   if (parsed.feedId) search.set("feedId", parsed.feedId);
+  if (parsed.mode) search.set("mode", parsed.mode);
 
   const payload = await requestJson<unknown>(`/v1/search?${search.toString()}`);
   if (!payload) return { data: [], nextCursor: null };
@@ -1116,6 +1954,14 @@ export async function createAnnotation(
   return annotationSchema.parse(payload);
 }
 
+export async function listAnnotations(clusterId: string): Promise<Annotation[]> {
+  const payload = await requestJson<unknown>(
+    `/v1/clusters/${encodeURIComponent(clusterId)}/annotations`,
+  );
+  if (!payload || !Array.isArray(payload)) return [];
+  return payload.map((annotation) => annotationSchema.parse(annotation));
+}
+
 // ---------- Push Notifications ----------
 
 export async function getVapidKey(): Promise<string | null> {
@@ -1154,6 +2000,23 @@ export async function recordDwell(clusterId: string, seconds: number): Promise<b
   return res !== null;
 }
 
+export async function saveMediaProgress(
+  itemId: string,
+  payload: UpdateMediaProgressRequest,
+): Promise<MediaProgress | null> {
+  const res = await requestJson<unknown>(`/v1/items/${encodeURIComponent(itemId)}/media-progress`, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  if (!res) return null;
+
+  try {
+    return mediaProgressSchema.parse(res);
+  } catch {
+    return null;
+  }
+}
+
 type AutoReadEventType = "auto_read_on_scroll" | "auto_read_on_open";
 type AutoReadLayout = "list" | "compact" | "card";
 
@@ -0,0 +1,99 @@
+import { type Annotation, resolveTextAnchor } from "@rss-wrangler/contracts";
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+  annotation: Annotation;
+}
+
+/**
+ * Where each annotation sits in `text`, in reading order. Annotations without
+ * an anchor (made before anchors existed, or on the card summary) fall back to
+ * the first occurrence of their highlighted text; overlapping highlights keep
+ * the one that starts first.
+ */
+export function highlightRanges(text: string, annotations: Annotation[]): HighlightRange[] {
+  const ranges = annotations
+    .flatMap((annotation) => {
+      const anchor = annotation.anchor ?? {
+        quote: { exact: annotation.highlightedText, prefix: "", suffix: "" },
+        position: null,
+      };
+      const position = resolveTextAnchor(text, anchor);
+      return position ? [{ ...position, annotation }] : [];
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const kept: HighlightRange[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    if (range.start < cursor) continue;
+    kept.push(range);
+    cursor = range.end;
+  }
+  return kept;
+}
+
+/**
+ * Collapses whitespace runs to single spaces and trims, the way the worker
+ * derives stored article text from its markup.
+ */
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Offset in `collapseWhitespace(text)` of the character at `index` in `text`. */
+export function collapsedOffset(text: string, index: number): number {
+  return collapseWhitespace(`${text.slice(0, index)}x`).length - 1;
+}
+
+/**
+ * Wraps each annotation's text inside rendered article markup in a
+ * `<mark>`. Anchors are resolved against the element's whitespace-collapsed
+ * text content, which matches the stored article text.
+ */
+export function paintHighlights(root: HTMLElement, annotations: Annotation[]): void {
+  const nodes: Array<{ node: Text; start: number }> = [];
+  let raw = "";
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push({ node, start: raw.length });
+    raw += node.data;
+  }
+
+  // rawIndexes[i] is where the i-th collapsed character comes from.
+  const rawIndexes: number[] = [];
+  let pendingSpace = -1;
+  for (let i = 0; i < raw.length; i += 1) {
+    if (/\s/.test(raw[i] as string)) {
+      if (rawIndexes.length > 0 && pendingSpace < 0) pendingSpace = i;
+      continue;
+    }
+    if (pendingSpace >= 0) {
+      rawIndexes.push(pendingSpace);
+      pendingSpace = -1;
+    }
+    rawIndexes.push(i);
+  }
+  const collapsed = rawIndexes.map((i) => (/\s/.test(raw[i] as string) ? " " : raw[i])).join("");
+
+  // Later ranges first, so splitting a text node leaves earlier offsets valid.
+  for (const range of highlightRanges(collapsed, annotations).reverse()) {
+    const rawStart = rawIndexes[range.start] as number;
+    const rawEnd = (rawIndexes[range.end - 1] as number) + 1;
+    for (const { node, start } of [...nodes].reverse()) {
+      const from = Math.max(rawStart - start, 0);
+      const to = Math.min(rawEnd - start, node.data.length);
+      if (from >= to || !node.data.slice(from, to).trim()) continue;
+
+      if (to < node.data.length) node.splitText(to);
+      const target = from > 0 ? node.splitText(from) : node;
+      const mark = root.ownerDocument.createElement("mark");
+      mark.className = `annotation-mark annotation-mark-${range.annotation.color}`;
+      if (range.annotation.note) mark.title = range.annotation.note;
+      target.replaceWith(mark);
+      mark.append(target);
+    }
+  }
+}
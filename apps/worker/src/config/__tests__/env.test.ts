@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadEnv } from "../env";
+
+describe("loadEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("treats blank optional settings as unset", () => {
+    vi.stubEnv("WEBSUB_CALLBACK_BASE_URL", "");
+    vi.stubEnv("SMTP_URL", "");
+    vi.stubEnv("EMAIL_LINK_SECRET", "");
+    vi.stubEnv("EMAIL_LINK_BASE_URL", "");
+    vi.stubEnv("READ_LATER_CREDENTIALS_KEY", "");
+
+    const env = loadEnv();
+
+    expect(env.WEBSUB_CALLBACK_BASE_URL).toBeUndefined();
+    expect(env.SMTP_URL).toBeUndefined();
+    expect(env.EMAIL_LINK_SECRET).toBeUndefined();
+    expect(env.EMAIL_LINK_BASE_URL).toBeUndefined();
+    expect(env.READ_LATER_CREDENTIALS_KEY).toBeUndefined();
+  });
+
+  it("still rejects invalid values that are not blank", () => {
+    vi.stubEnv("WEBSUB_CALLBACK_BASE_URL", "not a url");
+
+    expect(() => loadEnv()).toThrow();
+  });
+});
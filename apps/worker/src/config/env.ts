@@ -1,5 +1,13 @@
 import { z } from "zod";
 
+/**
+ * An optional setting that also counts as unset when blank: docker compose
+ * passes keys left empty in .env (or `${KEY:-}`) through as "".
+ */
+function optionalSetting<T extends z.ZodType>(schema: T) {
+  return z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+}
+
 const envSchema = z.object({
   NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
   DATABASE_URL: z
@@ -12,10 +20,27 @@ const envSchema = z.object({
   WORKER_FULLTEXT_BACKFILL_BATCH_SIZE: z.coerce.number().int().min(1).max(250).default(20),
   WORKER_RETENTION_MINUTES: z.coerce.number().int().min(60).default(1440),
   API_BASE_URL: z.string().url().default("http://localhost:4000"),
+  // Publicly reachable API URL for WebSub hub callbacks; push is disabled when unset.
+  WEBSUB_CALLBACK_BASE_URL: optionalSetting(z.string().url()),
+  WORKER_WEBSUB_LEASE_SECONDS: z.coerce.number().int().min(3600).default(864000),
   OPENAI_API_KEY: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
   AI_PROVIDER: z.string().optional(),
   OLLAMA_BASE_URL: z.string().optional(),
+  // Provider for item embeddings (semantic clustering); defaults to AI_PROVIDER.
+  AI_EMBEDDING_PROVIDER: z.string().optional(),
+  // Scheduled digest email. SMTP_URL (e.g. smtp://localhost:1025 for a local
+  // Mailpit) takes precedence over Resend; with neither, email is skipped.
+  APP_BASE_URL: z.string().url().default("http://localhost:3000"),
+  EMAIL_FROM: z.string().min(3).optional(),
+  RESEND_API_KEY: z.string().optional(),
+  SMTP_URL: optionalSetting(z.string().url()),
+  // Shared with the API to sign one-click digest links; emails are not sent without it.
+  EMAIL_LINK_SECRET: optionalSetting(z.string().min(32)),
+  // Publicly reachable API URL for one-click links; defaults to API_BASE_URL.
+  EMAIL_LINK_BASE_URL: optionalSetting(z.string().url()),
+  // Shared with the API to decrypt read-later connector credentials; sends are skipped without it.
+  READ_LATER_CREDENTIALS_KEY: optionalSetting(z.string().min(32)),
   VAPID_PUBLIC_KEY: z.string().optional(),
   VAPID_PRIVATE_KEY: z.string().optional(),
   VAPID_CONTACT: z.string().default("mailto:admin@localhost"),
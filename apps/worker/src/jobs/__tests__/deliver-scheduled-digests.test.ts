@@ -0,0 +1,271 @@
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import {
+  type DigestPreferences,
+  deliverScheduledDigests,
+  resolveDigestPreferences,
+  scheduledDigestSlot,
+} from "../deliver-scheduled-digests";
+
+const ACCOUNT_ID = "11111111-1111-4111-8111-111111111111";
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+// Monday 2026-03-02 07:05 UTC
+const MONDAY_0705_UTC = new Date("2026-03-02T07:05:00Z");
+
+function prefs(overrides: Partial<DigestPreferences> = {}): DigestPreferences {
+  return { schedule: "daily", deliveryHour: 7, timezone: "UTC", channel: "in_app", ...overrides };
+}
+
+describe("resolveDigestPreferences", () => {
+  it("layers member overrides over workspace values", () => {
+    expect(
+      resolveDigestPreferences(
+        { digestSchedule: "weekly", digestDeliveryHour: 9 },
+        { digestDeliveryHour: 6, digestTimezone: "Europe/Berlin", digestChannel: "email" },
+      ),
+    ).toEqual({
+      schedule: "weekly",
+      deliveryHour: 6,
+      timezone: "Europe/Berlin",
+      channel: "email",
+    });
+  });
+
+  it("keeps locked keys at the workspace value but always honours an email opt-out", () => {
+    expect(
+      resolveDigestPreferences(
+        {
+          digestSchedule: "daily",
+          digestChannel: "email",
+          lockedKeys: ["digestSchedule", "digestChannel"],
+        },
+        { digestSchedule: "off", digestChannel: "in_app" },
+      ),
+    ).toMatchObject({ schedule: "daily", channel: "in_app" });
+  });
+
+  it("leaves scheduled digests off until a schedule is chosen", () => {
+    expect(resolveDigestPreferences(undefined, undefined)).toEqual(prefs({ schedule: "off" }));
+  });
+
+  it("ignores invalid stored values", () => {
+    expect(
+      resolveDigestPreferences({}, { digestTimezone: "Mars/Olympus", digestDeliveryHour: 30 }),
+    ).toEqual(prefs({ schedule: "off" }));
+    const preferences = resolveDigestPreferences(
+      { digestTimezone: "Not/AZone", digestSchedule: "hourly", lockedKeys: ["digestTimezone"] },
+      { digestChannel: "carrier-pigeon" },
+    );
+    expect(preferences).toEqual(prefs({ schedule: "off" }));
+    expect(() => scheduledDigestSlot(preferences, MONDAY_0705_UTC)).not.toThrow();
+  });
+});
+
+describe("scheduledDigestSlot", () => {
+  it("is due only during the delivery hour in the member's timezone", () => {
+    expect(scheduledDigestSlot(prefs(), MONDAY_0705_UTC)).toEqual({
+      localDate: "2026-03-02",
+      windowHours: 24,
+    });
+    expect(scheduledDigestSlot(prefs({ deliveryHour: 8 }), MONDAY_0705_UTC)).toBeNull();
+    // 07:05 UTC is 08:05 in Berlin (CET).
+    expect(
+      scheduledDigestSlot(prefs({ timezone: "Europe/Berlin", deliveryHour: 8 }), MONDAY_0705_UTC),
+    ).toEqual({ localDate: "2026-03-02", windowHours: 24 });
+  });
+
+  it("uses the local calendar date across the date line", () => {
+    // 07:05 UTC Monday is 20:05 Monday in Auckland (NZDT, UTC+13).
+    expect(
+      scheduledDigestSlot(
+        prefs({ timezone: "Pacific/Auckland", deliveryHour: 20 }),
+        MONDAY_0705_UTC,
+      ),
+    ).toEqual({ localDate: "2026-03-02", windowHours: 24 });
+  });
+
+  it("covers the weekend on Monday for weekday schedules and skips weekends", () => {
+    expect(scheduledDigestSlot(prefs({ schedule: "weekdays" }), MONDAY_0705_UTC)?.windowHours).toBe(
+      72,
+    );
+    const saturday = new Date("2026-03-07T07:05:00Z");
+    expect(scheduledDigestSlot(prefs({ schedule: "weekdays" }), saturday)).toBeNull();
+  });
+
+  it("delivers weekly digests on Mondays only", () => {
+    expect(scheduledDigestSlot(prefs({ schedule: "weekly" }), MONDAY_0705_UTC)?.windowHours).toBe(
+      168,
+    );
+    const tuesday = new Date("2026-03-03T07:05:00Z");
+    expect(scheduledDigestSlot(prefs({ schedule: "weekly" }), tuesday)).toBeNull();
+    expect(scheduledDigestSlot(prefs({ schedule: "off" }), MONDAY_0705_UTC)).toBeNull();
+  });
+});
+
+function makePool(options: {
+  workspace?: unknown;
+  memberData?: unknown;
+  claimed?: boolean;
+  email?: string | null;
+}) {
+  const query = vi.fn(async (sql: string, _params?: unknown[]) => {
+    if (sql.includes("FROM app_settings")) {
+      return { rows: [{ data: options.workspace ?? { digestSchedule: "daily" } }] };
+    }
+    if (sql.includes("FROM user_account u")) {
+      return {
+        rows: [
+          {
+            id: USER_ID,
+            email: options.email === undefined ? "reader@example.com" : options.email,
+            data: options.memberData ?? {},
+          },
+        ],
+      };
+    }
+    if (sql.includes("INSERT INTO digest_delivery")) {
+      return { rows: options.claimed === false ? [] : [{ id: "delivery-1" }] };
+    }
+    if (sql.includes("FROM digest") && sql.includes("start_ts")) return { rows: [] };
+    if (sql.includes("FROM cluster c")) {
+      return {
+        rows: [
+          {
+            cluster_id: "33333333-3333-4333-8333-333333333333",
+            title: "Top Story",
+            summary: "What happened",
+            hero_image_url: null,
+            size: 3,
+            feed_weight: "neutral",
+            folder_name: "Tech",
+            feed_title: "Tech News",
+            published_at: new Date(),
+          },
+        ],
+      };
+    }
+    if (sql.includes("INSERT INTO digest")) return { rows: [{ id: "digest-1" }] };
+    return { rows: [] };
+  });
+  return { pool: { query } as unknown as Pool, query };
+}
+
+const EMAIL_LINKS = {
+  secret: "s".repeat(32),
+  actionBaseUrl: "https://api.example.com",
+  appBaseUrl: "https://app.example.com",
+};
+
+describe("deliverScheduledDigests", () => {
+  it("emails due members with unsubscribe headers and records the delivery", async () => {
+    const { pool, query } = makePool({ memberData: { digestChannel: "email" } });
+    const send = vi.fn().mockResolvedValue("sent");
+
+    const stats = await deliverScheduledDigests(pool, ACCOUNT_ID, {
+      email: { ...EMAIL_LINKS, send },
+      now: MONDAY_0705_UTC,
+    });
+
+    expect(stats).toEqual({ due: 1, generated: 1, emailed: 1, skipped: 0, failed: 0 });
+    const message = send.mock.calls[0]?.[0];
+    expect(message.to).toBe("reader@example.com");
+    expect(message.html).toContain("Top Story");
+    expect(message.headers["List-Unsubscribe-Post"]).toBe("List-Unsubscribe=One-Click");
+    const claim = query.mock.calls.find(([sql]) => sql.includes("INSERT INTO digest_delivery"));
+    expect(claim?.[1]).toEqual([ACCOUNT_ID, USER_ID, "2026-03-02", "email"]);
+    const finish = query.mock.calls.find(([sql]) => sql.includes("UPDATE digest_delivery"));
+    expect(finish?.[1]).toEqual(["delivery-1", "sent", "digest-1", null]);
+  });
+
+  it("only writes the in-app digest for in-app members", async () => {
+    const { pool } = makePool({});
+    const send = vi.fn();
+
+    const stats = await deliverScheduledDigests(pool, ACCOUNT_ID, {
+      email: { ...EMAIL_LINKS, send },
+      now: MONDAY_0705_UTC,
+    });
+
+    expect(stats.generated).toBe(1);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("skips members without a schedule", async () => {
+    const { pool, query } = makePool({ workspace: {} });
+
+    const stats = await deliverScheduledDigests(pool, ACCOUNT_ID, {
+      email: null,
+      now: MONDAY_0705_UTC,
+    });
+
+    expect(stats.due).toBe(0);
+    expect(query.mock.calls.some(([sql]) => sql.includes("INSERT INTO digest_delivery"))).toBe(
+      false,
+    );
+  });
+
+  it("does nothing when today's delivery was already claimed", async () => {
+    const { pool, query } = makePool({ claimed: false });
+
+    const stats = await deliverScheduledDigests(pool, ACCOUNT_ID, {
+      email: null,
+      now: MONDAY_0705_UTC,
+    });
+
+    expect(stats.due).toBe(0);
+    expect(query.mock.calls.some(([sql]) => sql.includes("INSERT INTO digest "))).toBe(false);
+  });
+
+  it("records a failed send without throwing", async () => {
+    const { pool, query } = makePool({ memberData: { digestChannel: "email" } });
+    const send = vi.fn().mockRejectedValue(new Error("connection refused"));
+
+    const stats = await deliverScheduledDigests(pool, ACCOUNT_ID, {
+      email: { ...EMAIL_LINKS, send },
+      now: MONDAY_0705_UTC,
+    });
+
+    expect(stats.failed).toBe(1);
+    const finish = query.mock.calls.find(([sql]) => sql.includes("UPDATE digest_delivery"));
+    expect(finish?.[1]).toEqual(["delivery-1", "failed", "digest-1", "connection refused"]);
+  });
+
+  it("records a member whose digest fails and carries on with the rest", async () => {
+    const OTHER_USER_ID = "44444444-4444-4444-8444-444444444444";
+    const { pool, query } = makePool({});
+    const base = query.getMockImplementation();
+    let clusterQueries = 0;
+    query.mockImplementation(async (sql: string, params?: unknown[]) => {
+      if (sql.includes("FROM user_account u")) {
+        return {
+          rows: [
+            { id: USER_ID, email: null, data: {} },
+            { id: OTHER_USER_ID, email: null, data: {} },
+          ],
+        };
+      }
+      if (sql.includes("INSERT INTO digest_delivery")) {
+        return { rows: [{ id: `delivery-${params?.[1]}` }] };
+      }
+      if (sql.includes("FROM cluster c") && clusterQueries++ === 0) {
+        throw new Error("statement timeout");
+      }
+      return base ? base(sql, params) : { rows: [] };
+    });
+
+    const stats = await deliverScheduledDigests(pool, ACCOUNT_ID, {
+      email: null,
+      now: MONDAY_0705_UTC,
+    });
+
+    expect(stats).toEqual({ due: 2, generated: 1, emailed: 0, skipped: 0, failed: 1 });
+    const finishes = query.mock.calls
+      .filter(([sql]) => sql.includes("UPDATE digest_delivery"))
+      .map(([, params]) => params);
+    expect(finishes).toEqual([
+      [`delivery-${USER_ID}`, "failed", null, "statement timeout"],
+      [`delivery-${OTHER_USER_ID}`, "sent", "digest-1", null],
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { runRetentionCleanup } from "../retention-cleanup";
+
+function buildPool(settings: Record<string, unknown>) {
+  const query = vi
+    .fn()
+    .mockResolvedValueOnce({ rows: [{ data: settings }] })
+    .mockResolvedValue({ rows: [], rowCount: 3 });
+  return { pool: { query } as unknown as Pool, query };
+}
+
+describe("runRetentionCleanup", () => {
+  it("does nothing when retention is not configured", async () => {
+    const { pool, query } = buildPool({});
+
+    const result = await runRetentionCleanup(pool, "account-1");
+
+    expect(result.applied).toBe(false);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it("auto-marks stale stories read for each active member", async () => {
+    const { pool, query } = buildPool({ unreadMaxAgeDays: 14 });
+
+    const result = await runRetentionCleanup(pool, "account-1");
+
+    expect(result.autoMarkedUnread).toBe(3);
+    const [sql, params] = query.mock.calls[1] as [string, unknown[]];
+    expect(sql).toContain("JOIN user_account u");
+    expect(sql).toContain("rs.user_id = u.id");
+    expect(sql).toContain("ON CONFLICT (tenant_id, user_id, cluster_id)");
+    expect(params).toEqual(["account-1", 14]);
+  });
+
+  it("only purges stories every member has read and nobody has kept", async () => {
+    const { pool, query } = buildPool({ readPurgeDays: 30 });
+
+    const result = await runRetentionCleanup(pool, "account-1");
+
+    expect(result.purgedReadClusters).toBe(3);
+    const [sql, params] = query.mock.calls[1] as [string, unknown[]];
+    expect(sql).toContain("DELETE FROM cluster c");
+    expect(sql).toContain("rs.read_at IS NULL");
+    expect(sql).toContain("saved_rs.saved_at IS NOT NULL");
+    expect(sql).toContain("FROM shared_saved ss");
+    expect(params).toEqual(["account-1", 30]);
+  });
+});
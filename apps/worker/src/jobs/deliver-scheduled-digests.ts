@@ -0,0 +1,240 @@
+import type { AiProviderAdapter, DigestChannel, DigestSchedule } from "@rss-wrangler/contracts";
+import type { Pool } from "pg";
+import { generateMemberDigest } from "../pipeline/stages/generate-digest";
+import { type DigestEmailLinks, renderDigestEmail } from "../services/digest-email";
+import type { EmailService } from "../services/email-service";
+import { layerMemberSetting } from "../services/member-settings";
+
+export interface DigestPreferences {
+  schedule: DigestSchedule;
+  deliveryHour: number;
+  timezone: string;
+  channel: DigestChannel;
+}
+
+export interface ScheduledDigestSlot {
+  /** Calendar date in the member's timezone, `YYYY-MM-DD`. */
+  localDate: string;
+  /** How far back the digest reaches; covers the gap since the previous slot. */
+  windowHours: number;
+}
+
+export interface ScheduledDigestOptions {
+  aiProvider?: AiProviderAdapter | null;
+  /** Null when email delivery is not configured; email members are then skipped. */
+  email: (DigestEmailLinks & { send: EmailService["send"] }) | null;
+  now?: Date;
+}
+
+export interface ScheduledDigestStats {
+  due: number;
+  generated: number;
+  emailed: number;
+  skipped: number;
+  failed: number;
+}
+
+interface MemberRow {
+  id: string;
+  email: string | null;
+  data: unknown;
+}
+
+// Scheduled digests are opt-in; until a member (or the owner) picks a
+// schedule only the away/backlog triggers produce digests.
+const DEFAULT_PREFERENCES: DigestPreferences = {
+  schedule: "off",
+  deliveryHour: 7,
+  timezone: "UTC",
+  channel: "in_app",
+};
+
+/**
+ * Layers the member's digest keys over the workspace values the same way the
+ * API does: a member override wins unless the owner locked that key.
+ */
+export function resolveDigestPreferences(workspace: unknown, member: unknown): DigestPreferences {
+  const layers = { workspace, member };
+  // Each layered value is parsed with its settings schema (including the
+  // time zone check); anything invalid falls back to the default.
+  const resolved: DigestPreferences = {
+    schedule: layerMemberSetting(layers, "digestSchedule") ?? DEFAULT_PREFERENCES.schedule,
+    deliveryHour:
+      layerMemberSetting(layers, "digestDeliveryHour") ?? DEFAULT_PREFERENCES.deliveryHour,
+    timezone: layerMemberSetting(layers, "digestTimezone") ?? DEFAULT_PREFERENCES.timezone,
+    channel: layerMemberSetting(layers, "digestChannel") ?? DEFAULT_PREFERENCES.channel,
+  };
+
+  // Unsubscribing is always honoured, even if the owner locked the channel.
+  const memberData =
+    member && typeof member === "object" ? (member as Record<string, unknown>) : {};
+  if (memberData.digestChannel === "in_app") resolved.channel = "in_app";
+
+  return resolved;
+}
+
+/**
+ * Returns the slot to deliver when `now` falls in the member's delivery hour
+ * on a scheduled day, otherwise null. The scheduler runs several times an
+ * hour; the per-day claim in `digest_delivery` keeps it to one send.
+ */
+export function scheduledDigestSlot(
+  preferences: DigestPreferences,
+  now: Date,
+): ScheduledDigestSlot | null {
+  if (preferences.schedule === "off") return null;
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: preferences.timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+      weekday: "short",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  );
+  if (Number(parts.hour) !== preferences.deliveryHour) return null;
+
+  const weekday = parts.weekday as string;
+  const localDate = `${parts.year}-${parts.month}-${parts.day}`;
+  switch (preferences.schedule) {
+    case "daily":
+      return { localDate, windowHours: 24 };
+    case "weekdays":
+      if (weekday === "Sat" || weekday === "Sun") return null;
+      return { localDate, windowHours: weekday === "Mon" ? 72 : 24 };
+    case "weekly":
+      return weekday === "Mon" ? { localDate, windowHours: 7 * 24 } : null;
+  }
+}
+
+/**
+ * Builds each due member's digest for the account and, for members on the
+ * email channel, sends it. Every attempt is recorded in `digest_delivery`.
+ */
+export async function deliverScheduledDigests(
+  pool: Pool,
+  accountId: string,
+  options: ScheduledDigestOptions,
+): Promise<ScheduledDigestStats> {
+  const now = options.now ?? new Date();
+  const stats: ScheduledDigestStats = { due: 0, generated: 0, emailed: 0, skipped: 0, failed: 0 };
+
+  const workspaceResult = await pool.query<{ data: unknown }>(
+    "SELECT data FROM app_settings WHERE tenant_id = $1 AND key = 'main' LIMIT 1",
+    [accountId],
+  );
+  const workspace = workspaceResult.rows[0]?.data;
+
+  const members = await pool.query<MemberRow>(
+    `SELECT u.id, u.email, ms.data
+     FROM user_account u
+     LEFT JOIN member_settings ms
+       ON ms.tenant_id = u.tenant_id
+      AND ms.user_id = u.id
+     WHERE u.tenant_id = $1
+       AND u.status = 'active'
+     ORDER BY u.created_at`,
+    [accountId],
+  );
+
+  for (const member of members.rows) {
+    const preferences = resolveDigestPreferences(workspace, member.data);
+    const slot = scheduledDigestSlot(preferences, now);
+    if (!slot) continue;
+
+    const claim = await pool.query<{ id: string }>(
+      `INSERT INTO digest_delivery (tenant_id, user_id, scheduled_for, channel)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (tenant_id, user_id, scheduled_for) DO NOTHING
+       RETURNING id`,
+      [accountId, member.id, slot.localDate, preferences.channel],
+    );
+    const deliveryId = claim.rows[0]?.id;
+    if (!deliveryId) continue;
+    stats.due += 1;
+
+    const finish = async (
+      status: "sent" | "skipped" | "failed",
+      digestId: string | null,
+      error: string | null,
+    ) => {
+      await pool.query(
+        `UPDATE digest_delivery
+         SET status = $2, digest_id = $3, error = $4, delivered_at = NOW()
+         WHERE id = $1`,
+        [deliveryId, status, digestId, error],
+      );
+      if (status === "skipped") stats.skipped += 1;
+      if (status === "failed") stats.failed += 1;
+    };
+
+    let digestId: string | null = null;
+    try {
+      const digest = await generateMemberDigest(
+        pool,
+        accountId,
+        member.id,
+        options.aiProvider,
+        slot.windowHours,
+      );
+      if (!digest) {
+        await finish("skipped", null, "no unread stories in window");
+        continue;
+      }
+      digestId = digest.id;
+      stats.generated += 1;
+
+      if (preferences.channel !== "email") {
+        await finish("sent", digest.id, null);
+        continue;
+      }
+      if (!member.email) {
+        await finish("skipped", digest.id, "member has no email address");
+        continue;
+      }
+      if (!options.email) {
+        await finish("skipped", digest.id, "email delivery is not configured");
+        continue;
+      }
+
+      const rendered = renderDigestEmail(
+        digest,
+        { accountId, userId: member.id },
+        options.email,
+        now,
+      );
+      const result = await options.email.send({
+        to: member.email,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        headers: {
+          "List-Unsubscribe": `<${rendered.unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      });
+      if (result === "sent") {
+        stats.emailed += 1;
+        await finish("sent", digest.id, null);
+      } else {
+        await finish("skipped", digest.id, "no email transport configured");
+      }
+    } catch (err) {
+      // Record the failure so the claimed row does not stay pending, and
+      // carry on with the remaining members.
+      console.error("[digest] scheduled delivery failed", {
+        accountId,
+        userId: member.id,
+        error: err,
+      });
+      await finish("failed", digestId, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return stats;
+}
@@ -8,6 +8,10 @@ export const JOBS = {
   retentionCleanup: "retention-cleanup",
   progressiveSummary: "progressive-summary",
   detectTopicDrift: "detect-topic-drift",
+  renewWebSubLeases: "renew-websub-leases",
+  deliverWebhooks: "deliver-webhooks",
+  deliverReadLater: "deliver-read-later",
+  previewExtraction: "preview-extraction",
 } as const;
 
 export type JobName = (typeof JOBS)[keyof typeof JOBS];
@@ -0,0 +1,104 @@
+import { type ExtractionPreview, matchExtractionRule } from "@rss-wrangler/contracts";
+import type { Pool } from "pg";
+import { extractArticle, loadExtractionRules } from "../pipeline/stages/extract-fulltext";
+
+const TEXT_SAMPLE_CHARS = 1_000;
+const PREVIEW_RETENTION_HOURS = 24;
+
+type PreviewResult = Pick<
+  ExtractionPreview,
+  | "ruleId"
+  | "ruleDomain"
+  | "ruleSource"
+  | "method"
+  | "pages"
+  | "title"
+  | "textLength"
+  | "textSample"
+  | "html"
+  | "warnings"
+>;
+
+/**
+ * Runs extraction for a pending preview under the workspace's current rules
+ * and stores what it would keep. Nothing is written to items and failures do
+ * not put the URL into the extraction cooldown.
+ */
+export async function runExtractionPreview(
+  pool: Pool,
+  accountId: string,
+  previewId: string,
+): Promise<ExtractionPreview["status"] | "not_found"> {
+  const { rows } = await pool.query<{ url: string }>(
+    `SELECT url
+     FROM extraction_preview
+     WHERE id = $1 AND tenant_id = $2 AND status = 'pending'`,
+    [previewId, accountId],
+  );
+  const url = rows[0]?.url;
+  if (!url) {
+    return "not_found";
+  }
+
+  const rules = await loadExtractionRules(pool, accountId);
+  const rule = matchExtractionRule(rules, url);
+  const result: PreviewResult = {
+    ruleId: rule?.id ?? null,
+    ruleDomain: rule?.domain ?? null,
+    ruleSource: rule?.source ?? null,
+    method: null,
+    pages: 0,
+    title: null,
+    textLength: 0,
+    textSample: null,
+    html: null,
+    warnings: [],
+  };
+
+  let error: string | null;
+  try {
+    const feedContent = rule?.useFeedContent ? await findFeedContent(pool, accountId, url) : null;
+    const extraction = await extractArticle(url, rule, feedContent);
+    result.method = extraction.method;
+    result.pages = extraction.pages;
+    result.title = extraction.title;
+    result.warnings = extraction.warnings;
+    if (extraction.article) {
+      result.textLength = extraction.article.text.length;
+      result.textSample = extraction.article.text.slice(0, TEXT_SAMPLE_CHARS);
+      result.html = extraction.article.html;
+    }
+    error = extraction.failure;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const status = error ? "failed" : "completed";
+  await pool.query(
+    `UPDATE extraction_preview
+     SET status = $3, result = $4::jsonb, error = $5, completed_at = NOW()
+     WHERE id = $1 AND tenant_id = $2`,
+    [previewId, accountId, status, JSON.stringify(result), error],
+  );
+  await pool.query(
+    `DELETE FROM extraction_preview
+     WHERE tenant_id = $1
+       AND created_at < NOW() - make_interval(hours => $2)`,
+    [accountId, PREVIEW_RETENTION_HOURS],
+  );
+  return status;
+}
+
+/** The newest stored feed entry for `url`, for rules that keep the feed's content. */
+async function findFeedContent(pool: Pool, accountId: string, url: string): Promise<string | null> {
+  const { rows } = await pool.query<{ summary: string | null }>(
+    `SELECT summary
+     FROM item
+     WHERE tenant_id = $1
+       AND (url = $2 OR canonical_url = $2)
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [accountId, url],
+  );
+  return rows[0]?.summary ?? null;
+}
@@ -7,16 +7,25 @@ import { runFeedPipeline } from "../pipeline/run-feed-pipeline";
 import { detectTopicDrift } from "../pipeline/stages/detect-topic-drift";
 import { backfillMissingFullText } from "../pipeline/stages/extract-fulltext";
 import { generateDigest } from "../pipeline/stages/generate-digest";
+import { createEmailService } from "../services/email-service";
 import { FeedService } from "../services/feed-service";
+import { deliverDueReadLater } from "../services/read-later-service";
+import { deliverDueWebhooks, pruneWebhookDeliveries } from "../services/webhook-service";
+import { renewWebSubLeases, type WebSubConfig } from "../services/websub-service";
 import {
   ACCOUNT_DELETION_BATCH_SIZE,
   ACCOUNT_DELETION_GRACE_WINDOW_DAYS,
   processDueAccountDeletions,
 } from "./account-deletion-automation";
+import { deliverScheduledDigests } from "./deliver-scheduled-digests";
 import { JOBS } from "./job-names";
+import { runExtractionPreview } from "./preview-extraction";
 import { runProgressiveSummary } from "./progressive-summary";
 import { runRetentionCleanup } from "./retention-cleanup";
 
+const WEBHOOK_DELIVERY_BATCH_SIZE = 50;
+const READ_LATER_DELIVERY_BATCH_SIZE = 50;
+
 interface Dependencies {
   env: WorkerEnv;
   pool: Pool;
@@ -27,10 +36,32 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
   const feedService = new FeedService(pool);
   const aiRegistry = createAiRegistry(env);
   const aiProvider = aiRegistry.getProvider();
+  const embeddingProvider = aiRegistry.getEmbeddingProvider();
+  const webSubConfig: WebSubConfig | null = env.WEBSUB_CALLBACK_BASE_URL
+    ? {
+        callbackBaseUrl: env.WEBSUB_CALLBACK_BASE_URL,
+        leaseSeconds: env.WORKER_WEBSUB_LEASE_SECONDS,
+      }
+    : null;
+
+  const emailService = createEmailService({
+    from: env.EMAIL_FROM,
+    resendApiKey: env.RESEND_API_KEY,
+    smtpUrl: env.SMTP_URL,
+  });
+  const digestEmail = env.EMAIL_LINK_SECRET
+    ? {
+        send: emailService.send,
+        secret: env.EMAIL_LINK_SECRET,
+        actionBaseUrl: env.EMAIL_LINK_BASE_URL ?? env.API_BASE_URL,
+        appBaseUrl: env.APP_BASE_URL,
+      }
+    : null;
 
   if (aiProvider) {
     console.info("[worker] AI provider configured", {
       provider: aiProvider.name,
+      embeddingProvider: embeddingProvider?.name ?? null,
       available: aiRegistry.listAvailable(),
     });
   } else {
@@ -46,6 +77,10 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
   await boss.createQueue(JOBS.retentionCleanup);
   await boss.createQueue(JOBS.progressiveSummary);
   await boss.createQueue(JOBS.detectTopicDrift);
+  await boss.createQueue(JOBS.renewWebSubLeases);
+  await boss.createQueue(JOBS.deliverWebhooks);
+  await boss.createQueue(JOBS.deliverReadLater);
+  await boss.createQueue(JOBS.previewExtraction);
 
   await boss.schedule(
     JOBS.pollFeeds,
@@ -111,6 +146,8 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
         (data.classificationStatus as "pending_classification" | "classified" | "approved") ||
         "approved",
     };
+    const pushedPayload =
+      typeof data.pushedPayload === "string" ? (data.pushedPayload as string) : undefined;
 
     try {
       await withAccountDbClient(pool, feed.accountId, async (client) => {
@@ -118,11 +155,14 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
           feed,
           pool: client as unknown as Pool,
           aiProvider,
+          embeddingProvider,
           pushConfig: {
             vapidPublicKey: env.VAPID_PUBLIC_KEY,
             vapidPrivateKey: env.VAPID_PRIVATE_KEY,
             vapidContact: env.VAPID_CONTACT,
           },
+          webSubConfig,
+          pushedPayload,
         });
       });
     } catch (err) {
@@ -190,10 +230,11 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
     }
   });
 
-  // Schedule digest generation daily at 7:00 AM UTC
+  // Scheduled digests: every member picks a cadence, hour and timezone, so
+  // the job runs every 15 minutes and delivers to whoever is due.
   await boss.schedule(
     JOBS.generateDigest,
-    "0 7 * * *",
+    "*/15 * * * *",
     {},
     {
       tz: "UTC",
@@ -203,11 +244,25 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
   await boss.work(JOBS.generateDigest, async () => {
     try {
       const accountIds = await feedService.listAccountIds();
+      const totals = { due: 0, generated: 0, emailed: 0, skipped: 0, failed: 0 };
       for (const accountId of accountIds) {
-        await withAccountDbClient(pool, accountId, async (client) => {
-          await generateDigest(client as unknown as Pool, accountId, aiProvider);
+        const stats = await withAccountDbClient(pool, accountId, async (client) => {
+          return deliverScheduledDigests(client as unknown as Pool, accountId, {
+            aiProvider,
+            email: digestEmail,
+          });
         });
+        totals.due += stats.due;
+        totals.generated += stats.generated;
+        totals.emailed += stats.emailed;
+        totals.skipped += stats.skipped;
+        totals.failed += stats.failed;
+      }
+
+      if (totals.due > 0) {
+        console.info("[worker] scheduled digests processed", totals);
       }
+      return totals;
     } catch (err) {
       console.error("[worker] digest generation failed", { error: err });
       throw err;
@@ -221,10 +276,11 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
     const data = job.data as Record<string, unknown>;
     const accountId = data.accountId as string;
     if (!accountId) return;
+    const userId = typeof data.userId === "string" ? data.userId : undefined;
 
     try {
       await withAccountDbClient(pool, accountId, async (client) => {
-        await generateDigest(client as unknown as Pool, accountId, aiProvider);
+        await generateDigest(client as unknown as Pool, accountId, aiProvider, userId);
       });
     } catch (err) {
       console.error("[worker] on-demand digest generation failed", { accountId, error: err });
@@ -296,11 +352,22 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
       let totalAutoMarkedUnread = 0;
       let totalPurgedReadClusters = 0;
       let totalPurgedOrphanItems = 0;
+      let totalPrunedWebhookDeliveries = 0;
 
       for (const accountId of accountIds) {
-        const result = await withAccountDbClient(pool, accountId, async (client) => {
-          return runRetentionCleanup(client as unknown as Pool, accountId);
-        });
+        const { result, prunedWebhookDeliveries } = await withAccountDbClient(
+          pool,
+          accountId,
+          async (client) => ({
+            result: await runRetentionCleanup(client as unknown as Pool, accountId),
+            // The webhook delivery log is trimmed whatever the retention settings.
+            prunedWebhookDeliveries: await pruneWebhookDeliveries(
+              client as unknown as Pool,
+              accountId,
+            ),
+          }),
+        );
+        totalPrunedWebhookDeliveries += prunedWebhookDeliveries;
         if (!result.applied) {
           continue;
         }
@@ -310,12 +377,13 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
         totalPurgedOrphanItems += result.purgedOrphanItems;
       }
 
-      if (appliedAccounts > 0) {
+      if (appliedAccounts > 0 || totalPrunedWebhookDeliveries > 0) {
         console.info("[worker] retention cleanup processed", {
           appliedAccounts,
           totalAutoMarkedUnread,
           totalPurgedReadClusters,
           totalPurgedOrphanItems,
+          totalPrunedWebhookDeliveries,
         });
       }
 
@@ -324,6 +392,7 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
         totalAutoMarkedUnread,
         totalPurgedReadClusters,
         totalPurgedOrphanItems,
+        totalPrunedWebhookDeliveries,
       };
     } catch (err) {
       console.error("[worker] retention cleanup failed", { error: err });
@@ -423,6 +492,159 @@ export async function registerJobs(boss: PgBoss, dependencies: Dependencies): Pr
       throw err;
     }
   });
+
+  // Renew WebSub leases hourly; feeds without a live lease fall back to polling.
+  await boss.schedule(
+    JOBS.renewWebSubLeases,
+    "15 * * * *",
+    {},
+    {
+      tz: "UTC",
+    },
+  );
+
+  await boss.work(JOBS.renewWebSubLeases, async () => {
+    if (!webSubConfig) {
+      return { candidates: 0, requested: 0 };
+    }
+
+    try {
+      const accountIds = await feedService.listAccountIds();
+      let totalCandidates = 0;
+      let totalRequested = 0;
+
+      for (const accountId of accountIds) {
+        const stats = await withAccountDbClient(pool, accountId, async (client) => {
+          return renewWebSubLeases(client as unknown as Pool, accountId, webSubConfig);
+        });
+        totalCandidates += stats.candidates;
+        totalRequested += stats.requested;
+      }
+
+      if (totalCandidates > 0) {
+        console.info("[worker] websub lease renewal processed", {
+          totalCandidates,
+          totalRequested,
+        });
+      }
+
+      return { candidates: totalCandidates, requested: totalRequested };
+    } catch (err) {
+      console.error("[worker] websub lease renewal failed", { error: err });
+      throw err;
+    }
+  });
+
+  // Deliver queued outbound webhooks every minute. The API also queues an
+  // immediate run for a single account when a test event is sent.
+  await boss.schedule(
+    JOBS.deliverWebhooks,
+    "* * * * *",
+    {},
+    {
+      tz: "UTC",
+    },
+  );
+
+  await boss.work(JOBS.deliverWebhooks, async (jobs: Job<Record<string, unknown>>[]) => {
+    const data = (jobs[0]?.data ?? {}) as Record<string, unknown>;
+
+    try {
+      const accountIds =
+        typeof data.accountId === "string" ? [data.accountId] : await feedService.listAccountIds();
+      const totals = { attempted: 0, succeeded: 0, failed: 0 };
+
+      for (const accountId of accountIds) {
+        const stats = await withAccountDbClient(pool, accountId, async (client) => {
+          return deliverDueWebhooks(
+            client as unknown as Pool,
+            accountId,
+            WEBHOOK_DELIVERY_BATCH_SIZE,
+          );
+        });
+        totals.attempted += stats.attempted;
+        totals.succeeded += stats.succeeded;
+        totals.failed += stats.failed;
+      }
+
+      if (totals.attempted > 0) {
+        console.info("[worker] webhook delivery processed", totals);
+      }
+
+      return totals;
+    } catch (err) {
+      console.error("[worker] webhook delivery failed", { error: err });
+      throw err;
+    }
+  });
+
+  // Send queued read-later deliveries every minute. Saving a story queues
+  // auto-send rows; a manual send also queues an immediate run for the account.
+  await boss.schedule(
+    JOBS.deliverReadLater,
+    "* * * * *",
+    {},
+    {
+      tz: "UTC",
+    },
+  );
+
+  await boss.work(JOBS.deliverReadLater, async (jobs: Job<Record<string, unknown>>[]) => {
+    const credentialsKey = env.READ_LATER_CREDENTIALS_KEY;
+    if (!credentialsKey) {
+      return { skipped: true, reason: "read_later_not_configured" };
+    }
+    const data = (jobs[0]?.data ?? {}) as Record<string, unknown>;
+
+    try {
+      const accountIds =
+        typeof data.accountId === "string" ? [data.accountId] : await feedService.listAccountIds();
+      const totals = { attempted: 0, succeeded: 0, failed: 0 };
+
+      for (const accountId of accountIds) {
+        const stats = await withAccountDbClient(pool, accountId, async (client) => {
+          return deliverDueReadLater(
+            client as unknown as Pool,
+            accountId,
+            credentialsKey,
+            READ_LATER_DELIVERY_BATCH_SIZE,
+          );
+        });
+        totals.attempted += stats.attempted;
+        totals.succeeded += stats.succeeded;
+        totals.failed += stats.failed;
+      }
+
+      if (totals.attempted > 0) {
+        console.info("[worker] read-later delivery processed", totals);
+      }
+
+      return totals;
+    } catch (err) {
+      console.error("[worker] read-later delivery failed", { error: err });
+      throw err;
+    }
+  });
+
+  // Extraction previews are queued from the sources page, one per job.
+  await boss.work(JOBS.previewExtraction, async (jobs: Job<Record<string, unknown>>[]) => {
+    const data = (jobs[0]?.data ?? {}) as Record<string, unknown>;
+    const accountId = data.accountId as string | undefined;
+    const previewId = data.previewId as string | undefined;
+    if (!accountId || !previewId) {
+      return { skipped: true, reason: "missing_preview" };
+    }
+
+    try {
+      const status = await withAccountDbClient(pool, accountId, async (client) => {
+        return runExtractionPreview(client as unknown as Pool, accountId, previewId);
+      });
+      return { previewId, status };
+    } catch (err) {
+      console.error("[worker] extraction preview failed", { previewId, error: err });
+      throw err;
+    }
+  });
 }
 
 function toCron(minutes: number): string {
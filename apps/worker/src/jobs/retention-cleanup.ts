@@ -15,6 +15,12 @@ export interface RetentionCleanupResult {
   purgedOrphanItems: number;
 }
 
+/**
+ * Applies the workspace's retention settings. Read state is per member:
+ * stale unread stories are auto-marked read for every active member, and a
+ * read story is only purged once every active member read it before the
+ * cutoff, none of them saved it, and it is not in the shared saved collection.
+ */
 export async function runRetentionCleanup(
   pool: Pool,
   accountId: string,
@@ -45,26 +51,29 @@ export async function runRetentionCleanup(
 
   if (unreadMaxAgeDays !== null) {
     const markUnreadResult = await pool.query(
-      `INSERT INTO read_state (tenant_id, cluster_id, read_at)
+      `INSERT INTO read_state (tenant_id, user_id, cluster_id, read_at)
        SELECT
          c.tenant_id,
+         u.id,
          c.id,
          NOW()
        FROM cluster c
+       JOIN user_account u
+         ON u.tenant_id = c.tenant_id
+        AND u.status = 'active'
        LEFT JOIN item rep_i
          ON rep_i.id = c.rep_item_id
         AND rep_i.tenant_id = c.tenant_id
        LEFT JOIN read_state rs
          ON rs.cluster_id = c.id
         AND rs.tenant_id = c.tenant_id
+        AND rs.user_id = u.id
        WHERE c.tenant_id = $1
          AND COALESCE(rep_i.published_at, c.created_at) < NOW() - make_interval(days => $2::int)
          AND rs.read_at IS NULL
          AND rs.not_interested_at IS NULL
-       ON CONFLICT (cluster_id) DO UPDATE
-       SET
-         tenant_id = EXCLUDED.tenant_id,
-         read_at = EXCLUDED.read_at
+       ON CONFLICT (tenant_id, user_id, cluster_id) DO UPDATE
+       SET read_at = EXCLUDED.read_at
        WHERE read_state.read_at IS NULL
          AND read_state.not_interested_at IS NULL`,
       [accountId, unreadMaxAgeDays],
@@ -75,13 +84,41 @@ export async function runRetentionCleanup(
   if (readPurgeDays !== null) {
     const purgeClusterResult = await pool.query(
       `DELETE FROM cluster c
-       USING read_state rs
-       WHERE c.id = rs.cluster_id
-         AND c.tenant_id = $1
-         AND rs.tenant_id = $1
-         AND rs.read_at IS NOT NULL
-         AND rs.saved_at IS NULL
-         AND rs.read_at < NOW() - make_interval(days => $2::int)`,
+       WHERE c.tenant_id = $1
+         AND EXISTS (
+           SELECT 1
+           FROM user_account u
+           WHERE u.tenant_id = c.tenant_id
+             AND u.status = 'active'
+         )
+         AND NOT EXISTS (
+           SELECT 1
+           FROM user_account u
+           LEFT JOIN read_state rs
+             ON rs.cluster_id = c.id
+            AND rs.tenant_id = c.tenant_id
+            AND rs.user_id = u.id
+           WHERE u.tenant_id = c.tenant_id
+             AND u.status = 'active'
+             AND (
+               rs.read_at IS NULL
+               OR rs.saved_at IS NOT NULL
+               OR rs.read_at >= NOW() - make_interval(days => $2::int)
+             )
+         )
+         AND NOT EXISTS (
+           SELECT 1
+           FROM read_state saved_rs
+           WHERE saved_rs.cluster_id = c.id
+             AND saved_rs.tenant_id = c.tenant_id
+             AND saved_rs.saved_at IS NOT NULL
+         )
+         AND NOT EXISTS (
+           SELECT 1
+           FROM shared_saved ss
+           WHERE ss.cluster_id = c.id
+             AND ss.tenant_id = c.tenant_id
+         )`,
       [accountId, readPurgeDays],
     );
     purgedReadClusters = purgeClusterResult.rowCount ?? 0;
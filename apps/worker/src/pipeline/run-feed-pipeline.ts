@@ -4,6 +4,8 @@ import type { Pool } from "pg";
 import type { DueFeed } from "../services/feed-service";
 import { FeedService } from "../services/feed-service";
 import { sendNewStoriesNotification } from "../services/push-service";
+import { enqueueWebhookEvent, type WebhookEventType } from "../services/webhook-service";
+import { syncWebSubHub, type WebSubConfig } from "../services/websub-service";
 import {
   getPipelineEntitlements,
   incrementDailyIngestionUsage,
@@ -13,12 +15,15 @@ import {
 } from "./entitlements";
 import { classifyFeedTopics } from "./stages/classify-feed-topics";
 import { assignClusters } from "./stages/cluster-assignment";
+import { computeEmbeddings } from "./stages/compute-embeddings";
 import { enrichWithAi } from "./stages/enrich-with-ai";
 import { extractAndPersistFullText } from "./stages/extract-fulltext";
 import { postClusterFilter, preFilterSoftGate } from "./stages/filter";
 import { maybeGenerateDigest } from "./stages/generate-digest";
 import { parseAndUpsert } from "./stages/parse-and-upsert";
-import { pollFeed } from "./stages/poll-feed";
+import { persistEnclosures } from "./stages/persist-enclosures";
+import { FeedHttpError, type PollResult, parsePushedFeed, pollFeed } from "./stages/poll-feed";
+import { scheduleNextPoll } from "./stages/schedule-poll";
 import { scoreRelevance } from "./stages/score-relevance";
 
 export interface PushConfig {
@@ -31,19 +36,36 @@ export interface PipelineContext {
   feed: DueFeed;
   pool: Pool;
   aiProvider?: AiProviderAdapter | null;
+  /** Provider used for item embeddings; semantic clustering is skipped without one. */
+  embeddingProvider?: AiProviderAdapter | null;
   pushConfig?: PushConfig;
+  webSubConfig?: WebSubConfig | null;
+  /** Feed document delivered by a WebSub hub; skips the HTTP poll when set. */
+  pushedPayload?: string;
 }
 
 export async function runFeedPipeline({
   feed,
   pool,
   aiProvider,
+  embeddingProvider,
   pushConfig,
+  webSubConfig,
+  pushedPayload,
 }: PipelineContext): Promise<void> {
   const feedService = new FeedService(pool);
 
   try {
-    await runFeedPipelineInner({ feed, pool, feedService, aiProvider, pushConfig });
+    await runFeedPipelineInner({
+      feed,
+      pool,
+      feedService,
+      aiProvider,
+      embeddingProvider,
+      pushConfig,
+      webSubConfig,
+      pushedPayload,
+    });
     await feedService.recordFeedSuccess(feed.accountId, feed.id);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -57,11 +79,16 @@ async function runFeedPipelineInner({
   pool,
   feedService,
   aiProvider,
+  embeddingProvider,
   pushConfig,
+  webSubConfig,
+  pushedPayload,
 }: PipelineContext & { feedService: FeedService }): Promise<void> {
   const entitlements = await getPipelineEntitlements(pool, feed.accountId);
+  const isPush = pushedPayload !== undefined;
 
-  if (!isPollAllowed(feed.lastPolledAt, entitlements.minPollMinutes)) {
+  // Hub pushes are not polls, so the plan poll interval does not apply.
+  if (!isPush && !isPollAllowed(feed.lastPolledAt, entitlements.minPollMinutes)) {
     console.info("[pipeline] feed not due for plan poll interval", {
       feedId: feed.id,
       planId: entitlements.planId,
@@ -70,19 +97,33 @@ async function runFeedPipelineInner({
     return;
   }
 
-  // Stage 1: Poll feed with conditional GET
-  console.info("[pipeline] polling feed", { feedId: feed.id, url: feed.url });
-  let pollResult: Awaited<ReturnType<typeof pollFeed>>;
+  // Stage 1: Poll feed with conditional GET (or parse the WebSub push)
+  let pollResult: PollResult;
   try {
-    pollResult = await pollFeed(feed);
+    if (isPush) {
+      console.info("[pipeline] processing WebSub push", { feedId: feed.id, url: feed.url });
+      pollResult = parsePushedFeed(feed, pushedPayload);
+    } else {
+      console.info("[pipeline] polling feed", { feedId: feed.id, url: feed.url });
+      pollResult = await pollFeed(feed);
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     await recordWorkerEvent(pool, feed.accountId, "feed_parse_failure", {
       feedId: feed.id,
       feedUrl: feed.url,
       failureStage: classifyPollFailureStage(message),
+      delivery: isPush ? "websub" : "poll",
       error: message,
     });
+    if (error instanceof FeedHttpError && error.retryAfter) {
+      await scheduleNextPollSafely(pool, feed, {
+        publishedAt: [],
+        feedHints: null,
+        httpCache: { maxAgeSeconds: null, expiresAt: null, retryAfter: error.retryAfter },
+        minPollMinutes: entitlements.minPollMinutes,
+      });
+    }
     throw error;
   }
 
@@ -92,6 +133,7 @@ async function runFeedPipelineInner({
       feedUrl: feed.url,
       format: pollResult.format,
       parsedItems: pollResult.items.length,
+      delivery: isPush ? "websub" : "poll",
     });
     console.info("[pipeline] parsed feed", {
       feedId: feed.id,
@@ -100,13 +142,33 @@ async function runFeedPipelineInner({
     });
   }
 
-  // Update etag/last-modified regardless
-  await feedService.updateLastPolled(
-    feed.accountId,
-    feed.id,
-    pollResult.etag,
-    pollResult.lastModified,
-  );
+  // Update etag/last-modified regardless (pushes carry no validators)
+  if (!isPush) {
+    await feedService.updateLastPolled(
+      feed.accountId,
+      feed.id,
+      pollResult.etag,
+      pollResult.lastModified,
+    );
+    await scheduleNextPollSafely(pool, feed, {
+      publishedAt: pollResult.items.map((item) => item.publishedAt),
+      feedHints: pollResult.scheduleHints ?? null,
+      httpCache: pollResult.httpCache ?? null,
+      minPollMinutes: entitlements.minPollMinutes,
+    });
+  }
+
+  if (pollResult.webSub && webSubConfig) {
+    try {
+      await syncWebSubHub(pool, feed.accountId, feed.id, pollResult.webSub, webSubConfig);
+    } catch (err) {
+      // Polling keeps working without a hub subscription.
+      console.error("[pipeline] websub subscription failed (non-fatal)", {
+        feedId: feed.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
 
   // Update feed title from XML if current title is just the URL
   if (
@@ -222,6 +284,19 @@ async function runFeedPipelineInner({
     new: newItems.length,
   });
 
+  // Stage: Persist podcast/media enclosures (also refreshes existing items)
+  try {
+    const enclosures = await persistEnclosures(pool, feed.accountId, feed.id, itemsForUpsert);
+    if (enclosures > 0) {
+      console.info("[pipeline] persisted enclosures", { feedId: feed.id, count: enclosures });
+    }
+  } catch (err) {
+    console.error("[pipeline] persist-enclosures failed (non-fatal)", {
+      feedId: feed.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
   if (newItems.length === 0) {
     console.info("[pipeline] no new items, skipping downstream stages", { feedId: feed.id });
     return;
@@ -235,6 +310,7 @@ async function runFeedPipelineInner({
       attempted: extraction.attempted,
       extracted: extraction.extracted,
       persisted: extraction.persisted,
+      reanchored: extraction.reanchored,
     });
   } catch (err) {
     // Reader text-mode already has summary fallback in the UI; extraction is additive.
@@ -275,9 +351,22 @@ async function runFeedPipelineInner({
   // Only hard-blocked items (mode=block) are truly dropped, but even those
   // have already been recorded in the DB. We pass all newItems to clustering.
 
+  // Stage 5: Embed title + full text for semantic clustering (opt-in via settings)
+  let embeddings = new Map<string, number[]>();
+  try {
+    embeddings = await computeEmbeddings(pool, feed.accountId, newItems, embeddingProvider ?? null);
+  } catch (err) {
+    // Clustering falls back to simhash + Jaccard for items without vectors.
+    console.error("[pipeline] compute-embeddings failed (non-fatal)", {
+      feedId: feed.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
   // Stage 6 + 7: Compute features and assign clusters
-  // simhash + Jaccard is computed inline during cluster assignment
-  await assignClusters(pool, feed.accountId, newItems);
+  // Cosine similarity is used where both sides have embeddings; simhash +
+  // Jaccard is computed inline during cluster assignment otherwise
+  const createdClusterIds = await assignClusters(pool, feed.accountId, newItems, embeddings);
 
   // Stage: Enrich items with og:image and AI summaries
   try {
@@ -309,6 +398,17 @@ async function runFeedPipelineInner({
   );
   await postClusterFilter(pool, feed.accountId, clusterIds);
 
+  if (createdClusterIds.length > 0) {
+    try {
+      await enqueueClusterCreatedWebhooks(pool, feed.accountId, createdClusterIds);
+    } catch (err) {
+      console.error("[pipeline] webhook enqueue failed (non-fatal)", {
+        feedId: feed.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
   // Stage 10: Digest generation (if triggers met)
   await maybeGenerateDigest(pool, feed.accountId, aiProvider);
 
@@ -362,6 +462,46 @@ async function getClusterIdsForItems(
   return result.rows.map((r) => r.cluster_id);
 }
 
+async function enqueueClusterCreatedWebhooks(
+  pool: Pool,
+  accountId: string,
+  clusterIds: string[],
+): Promise<void> {
+  const result = await pool.query<{
+    id: string;
+    headline: string;
+    url: string;
+    feed_id: string;
+    folder_id: string;
+    topic_id: string | null;
+    created_at: Date;
+  }>(
+    `SELECT c.id, i.title AS headline, i.url, i.feed_id, c.folder_id, c.topic_id, c.created_at
+     FROM cluster c
+     JOIN item i ON i.id = c.rep_item_id AND i.tenant_id = c.tenant_id
+     WHERE c.id = ANY($1)
+       AND c.tenant_id = $2`,
+    [clusterIds, accountId],
+  );
+
+  for (const row of result.rows) {
+    await enqueueWebhookEvent(pool, accountId, "cluster.created", {
+      clusterId: row.id,
+      headline: row.headline,
+      url: row.url,
+      feedId: row.feed_id,
+      folderId: row.folder_id,
+      topicId: row.topic_id,
+      createdAt: row.created_at.toISOString(),
+    });
+  }
+}
+
+// Worker events that are also published to outbound webhooks.
+const WEBHOOK_EVENT_FOR_WORKER_EVENT: Record<string, WebhookEventType> = {
+  feed_parse_failure: "feed.failed",
+};
+
 async function recordWorkerEvent(
   pool: Pool,
   accountId: string,
@@ -383,6 +523,38 @@ async function recordWorkerEvent(
       error: error instanceof Error ? error.message : String(error),
     });
   }
+
+  const webhookEvent = WEBHOOK_EVENT_FOR_WORKER_EVENT[type];
+  if (webhookEvent) {
+    try {
+      await enqueueWebhookEvent(pool, accountId, webhookEvent, payload);
+    } catch (error) {
+      console.warn("[pipeline] failed to enqueue webhook event", {
+        accountId,
+        type: webhookEvent,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/** A failed schedule leaves the feed due on the next cron tick, so it never blocks ingestion. */
+async function scheduleNextPollSafely(
+  pool: Pool,
+  feed: DueFeed,
+  hints: Parameters<typeof scheduleNextPoll>[3],
+): Promise<void> {
+  try {
+    const schedule = await scheduleNextPoll(pool, feed.accountId, feed.id, hints);
+    console.info("[pipeline] scheduled next poll", {
+      feedId: feed.id,
+      nextPollAt: schedule.nextPollAt.toISOString(),
+      intervalMinutes: schedule.intervalMinutes,
+      reason: schedule.reason,
+    });
+  } catch (err) {
+    console.error("[pipeline] poll scheduling failed (non-fatal)", { feedId: feed.id, error: err });
+  }
 }
 
 function classifyPollFailureStage(message: string): string {
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { classifyItem, learnFolderVocabularies } from "../classify-folder.js";
+
+const TECH_FOLDER_ID = "11111111-1111-1111-1111-111111111111";
+const OTHER_FOLDER_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+const GARDENING_FOLDER_ID = "folder-gardening";
+
+const GARDENING_STORIES = [
+  "How to prune tomato plants for a bigger harvest",
+  "Compost basics: feeding your tomato beds",
+  "Seed starting indoors before the last frost",
+  "Raised beds versus containers for a first harvest",
+  "Companion planting with basil and tomato",
+  "When to harvest garlic planted in raised beds",
+];
+
+const BACKGROUND = [
+  ...Array.from({ length: 20 }, (_, n) => `Markets update ${n}: stocks close higher`),
+  "Senate passes the budget after a late first vote",
+  "New browser release ships faster tabs",
+  ...GARDENING_STORIES,
+];
+
+describe("learnFolderVocabularies", () => {
+  it("learns words that are common in a folder and rare elsewhere", () => {
+    const [vocabulary] = learnFolderVocabularies(
+      GARDENING_STORIES.map((text) => ({ folderId: GARDENING_FOLDER_ID, text })),
+      BACKGROUND,
+    );
+
+    expect(vocabulary?.folderId).toBe(GARDENING_FOLDER_ID);
+    expect(vocabulary?.keywords.slice(0, 3)).toEqual(["beds", "harvest", "tomato"]);
+    expect(vocabulary?.keywords).not.toContain("first");
+  });
+
+  it("skips folders with too few stories to learn from", () => {
+    const labeled = GARDENING_STORIES.slice(0, 4).map((text) => ({
+      folderId: GARDENING_FOLDER_ID,
+      text,
+    }));
+
+    expect(learnFolderVocabularies(labeled, BACKGROUND)).toEqual([]);
+  });
+});
+
+describe("classifyItem", () => {
+  const story = { title: "Tomato harvest tips for raised beds", summary: null };
+
+  it("uses the built-in keywords by default", () => {
+    expect(classifyItem({ title: "New TypeScript compiler release", summary: null })).toBe(
+      TECH_FOLDER_ID,
+    );
+    expect(classifyItem(story)).toBe(OTHER_FOLDER_ID);
+  });
+
+  it("files stories into folders with a learned vocabulary", () => {
+    const classifier = {
+      hiddenFolderIds: new Set<string>(),
+      vocabularies: [{ folderId: GARDENING_FOLDER_ID, keywords: ["tomato", "harvest", "beds"] }],
+    };
+
+    expect(classifyItem(story, classifier)).toBe(GARDENING_FOLDER_ID);
+  });
+
+  it("never picks a built-in folder the workspace deleted", () => {
+    const classifier = { hiddenFolderIds: new Set([TECH_FOLDER_ID]), vocabularies: [] };
+
+    expect(
+      classifyItem({ title: "New TypeScript compiler release", summary: null }, classifier),
+    ).toBe(OTHER_FOLDER_ID);
+  });
+});
@@ -0,0 +1,124 @@
+import type { AiProviderAdapter } from "@rss-wrangler/contracts";
+import { describe, expect, it, vi } from "vitest";
+import { buildEmbeddingText, computeEmbeddings } from "../compute-embeddings.js";
+import type { UpsertedItem } from "../parse-and-upsert.js";
+
+vi.mock("../../../services/ai-usage", () => ({
+  isBudgetExceeded: vi.fn(async () => false),
+  logAiUsage: vi.fn(async () => undefined),
+}));
+
+const ACCOUNT_ID = "tenant-1";
+
+function makeItem(id: string, overrides: Partial<UpsertedItem> = {}): UpsertedItem {
+  return {
+    id,
+    feedId: "feed-1",
+    url: `https://example.com/${id}`,
+    canonicalUrl: `https://example.com/${id}`,
+    title: `Title ${id}`,
+    summary: null,
+    publishedAt: new Date("2026-03-01T12:00:00Z"),
+    author: null,
+    heroImageUrl: null,
+    isNew: true,
+    ...overrides,
+  };
+}
+
+function makePool(settings: Record<string, unknown> | null) {
+  return {
+    query: vi.fn(async (sql: string) => {
+      if (sql.includes("FROM app_settings")) {
+        return { rows: settings ? [{ data: settings }] : [] };
+      }
+      if (sql.includes("SELECT id, extracted_text")) {
+        return { rows: [{ id: "a", extracted_text: "Full article body" }] };
+      }
+      return { rows: [] };
+    }),
+  } as any;
+}
+
+function makeProvider(vectors: number[][]): AiProviderAdapter {
+  return {
+    name: "ollama",
+    isAvailable: () => true,
+    complete: vi.fn(),
+    embed: vi.fn(async () => ({
+      vectors,
+      inputTokens: 10,
+      model: "nomic-embed-text",
+      provider: "ollama",
+      durationMs: 5,
+    })),
+  };
+}
+
+describe("buildEmbeddingText", () => {
+  it("prefers extracted text over the feed summary", () => {
+    expect(buildEmbeddingText("Headline", "Body  text", "Summary")).toBe("Headline\n\nBody text");
+    expect(buildEmbeddingText("Headline", null, "Summary")).toBe("Headline\n\nSummary");
+  });
+
+  it("caps the text length", () => {
+    expect(buildEmbeddingText("Headline", "x".repeat(10_000), null).length).toBe(4000);
+  });
+});
+
+describe("computeEmbeddings", () => {
+  it("skips when semantic clustering is disabled", async () => {
+    const pool = makePool({ aiMode: "full", semanticClusteringEnabled: false });
+    const provider = makeProvider([[1, 0]]);
+
+    const vectors = await computeEmbeddings(pool, ACCOUNT_ID, [makeItem("a")], provider);
+
+    expect(vectors.size).toBe(0);
+    expect(provider.embed).not.toHaveBeenCalled();
+  });
+
+  it("skips when AI mode is off", async () => {
+    const pool = makePool({ aiMode: "off", semanticClusteringEnabled: true });
+    const provider = makeProvider([[1, 0]]);
+
+    const vectors = await computeEmbeddings(pool, ACCOUNT_ID, [makeItem("a")], provider);
+
+    expect(vectors.size).toBe(0);
+    expect(provider.embed).not.toHaveBeenCalled();
+  });
+
+  it("embeds new items and stores their vectors", async () => {
+    const pool = makePool({ aiMode: "summaries_digest", semanticClusteringEnabled: true });
+    const provider = makeProvider([
+      [1, 0],
+      [0, 1],
+    ]);
+
+    const vectors = await computeEmbeddings(
+      pool,
+      ACCOUNT_ID,
+      [makeItem("a"), makeItem("b"), makeItem("old", { isNew: false })],
+      provider,
+    );
+
+    expect(vectors.get("a")).toEqual([1, 0]);
+    expect(vectors.get("b")).toEqual([0, 1]);
+    expect(vectors.has("old")).toBe(false);
+    expect(provider.embed).toHaveBeenCalledWith({
+      input: ["Title a\n\nFull article body", "Title b"],
+    });
+    const inserts = pool.query.mock.calls.filter(
+      (c: any[]) => typeof c[0] === "string" && c[0].includes("INSERT INTO item_embedding"),
+    );
+    expect(inserts).toHaveLength(2);
+  });
+
+  it("returns no vectors when the provider fails", async () => {
+    const pool = makePool({ aiMode: "full", semanticClusteringEnabled: true });
+    const provider = makeProvider([]);
+
+    const vectors = await computeEmbeddings(pool, ACCOUNT_ID, [makeItem("a")], provider);
+
+    expect(vectors.size).toBe(0);
+  });
+});
@@ -0,0 +1,211 @@
+import type { ExtractionRule } from "@rss-wrangler/contracts";
+import { JSDOM } from "jsdom";
+import type { Pool } from "pg";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applyExtractionRule, extractArticle, reanchorAnnotations } from "../extract-fulltext.js";
+
+const TENANT_ID = "tenant-1";
+const ITEM_ID = "item-1";
+
+function anchorFor(exact: string, start: number | null, prefix = "", suffix = "") {
+  return {
+    quote: { exact, prefix, suffix },
+    position: start === null ? null : { start, end: start + exact.length },
+  };
+}
+
+function makePool(rows: Array<{ id: string; anchor: ReturnType<typeof anchorFor> }>) {
+  const query = vi.fn(async (sql: string, _params?: unknown[]) =>
+    sql.startsWith("SELECT") ? { rows } : { rows: [], rowCount: 1 },
+  );
+  return { query, pool: { query } as unknown as Pool };
+}
+
+function updates(query: ReturnType<typeof makePool>["query"]) {
+  return query.mock.calls
+    .filter(([sql]) => sql.includes("UPDATE annotation"))
+    .map(([, params]) => params);
+}
+
+describe("reanchorAnnotations", () => {
+  it("moves shifted anchors, resolves pending ones and clears lost ones", async () => {
+    const text = "Breaking: the mayor resigned today. Residents reacted quickly.";
+    const { query, pool } = makePool([
+      // Still in place.
+      { id: "a1", anchor: anchorFor("Residents reacted", 36) },
+      // The article gained a "Breaking: " lead, so the quote moved.
+      { id: "a2", anchor: anchorFor("the mayor resigned", 0, "", " today") },
+      // Made before extraction finished.
+      { id: "a3", anchor: anchorFor("quickly", null, "reacted ") },
+      // No longer in the article.
+      { id: "a4", anchor: anchorFor("the council objected", 40) },
+    ]);
+
+    const updated = await reanchorAnnotations(pool, TENANT_ID, ITEM_ID, text);
+
+    expect(updated).toBe(3);
+    expect(query.mock.calls[0]?.[1]).toEqual([TENANT_ID, ITEM_ID]);
+    expect(updates(query)).toEqual([
+      ["a2", TENANT_ID, JSON.stringify({ start: 10, end: 28 })],
+      ["a3", TENANT_ID, JSON.stringify({ start: 54, end: 61 })],
+      ["a4", TENANT_ID, "null"],
+    ]);
+  });
+});
+
+function ruleFor(domain: string, rule: Partial<ExtractionRule> = {}): ExtractionRule {
+  return {
+    id: "rule-1",
+    domain,
+    bodySelectors: [],
+    stripSelectors: [],
+    nextPageSelector: null,
+    maxPages: 5,
+    headers: {},
+    cookie: null,
+    useFeedContent: false,
+    enabled: true,
+    source: "workspace",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...rule,
+  };
+}
+
+const PARAGRAPH = "The committee met on Tuesday to discuss the budget for next year. ".repeat(4);
+
+describe("applyExtractionRule", () => {
+  it("strips elements, takes the first matching body and warns about misses", () => {
+    const { document } = new JSDOM(
+      `<main><article class="post"><p>${PARAGRAPH}</p><div class="ad">Buy now</div></article>
+       <article class="post"><p>Second part.</p></article></main>`,
+    ).window;
+
+    const result = applyExtractionRule(document, {
+      bodySelectors: [".entry-content", "main", ".post"],
+      stripSelectors: [".ad", ".popup", "div["],
+    });
+
+    expect(result.content).toContain(PARAGRAPH.trim());
+    expect(result.content).toContain("Second part.");
+    expect(result.content).not.toContain("Buy now");
+    expect(result.warnings).toEqual([
+      'strip selector ".popup" matched nothing',
+      'selector "div[" is not valid CSS',
+      'body selector ".entry-content" matched nothing',
+    ]);
+  });
+
+  it("returns no content when no body selector matches", () => {
+    const { document } = new JSDOM("<p>Hello</p>").window;
+    expect(applyExtractionRule(document, { bodySelectors: [], stripSelectors: [] })).toEqual({
+      content: null,
+      warnings: [],
+    });
+  });
+});
+
+describe("extractArticle", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("follows next-page links with the rule's headers and stops at pages already seen", async () => {
+    const pages: Record<string, string> = {
+      "https://example.com/story": `<title>Story</title><div class="body"><p>${PARAGRAPH}</p></div>
+        <a class="next" href="/story?page=2">Next</a>`,
+      "https://example.com/story?page=2": `<div class="body"><p>Page two ends here.</p></div>
+        <a class="next" href="/story">Back to start</a>`,
+    };
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+      const html = pages[url];
+      return new Response(html ?? "", {
+        status: html ? 200 : 404,
+        headers: { "content-type": "text/html" },
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const extraction = await extractArticle(
+      "https://example.com/story",
+      ruleFor("example.com", {
+        bodySelectors: [".body"],
+        nextPageSelector: "a.next",
+        headers: { Referer: "https://www.google.com/" },
+        cookie: "consent=yes",
+      }),
+      null,
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0]?.[1]?.headers).toMatchObject({
+      Referer: "https://www.google.com/",
+      Cookie: "consent=yes",
+    });
+    expect(extraction).toMatchObject({ method: "rule", pages: 2, title: "Story", failure: null });
+    expect(extraction.article?.text).toContain("Page two ends here.");
+  });
+
+  it("refuses redirects to private addresses without requesting them", async () => {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+      url === "https://example.com/story"
+        ? Response.redirect("http://169.254.169.254/latest/meta-data/", 302)
+        : new Response(`<div class="body"><p>${PARAGRAPH}</p></div>`, {
+            status: 200,
+            headers: { "content-type": "text/html" },
+          }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      extractArticle(
+        "https://example.com/story",
+        ruleFor("example.com", { bodySelectors: [".body"], cookie: "consent=yes" }),
+        null,
+      ),
+    ).rejects.toThrow(/169\.254\.169\.254/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]?.[1]?.redirect).toBe("manual");
+  });
+
+  it("follows public redirects and keeps the rule's cookie on its own site", async () => {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+      url === "https://example.com/story"
+        ? Response.redirect("https://cdn.example.net/story", 301)
+        : new Response(`<div class="body"><p>${PARAGRAPH}</p></div>`, {
+            status: 200,
+            headers: { "content-type": "text/html" },
+          }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const extraction = await extractArticle(
+      "https://example.com/story",
+      ruleFor("example.com", { bodySelectors: [".body"], cookie: "consent=yes" }),
+      null,
+    );
+
+    expect(extraction).toMatchObject({ method: "rule", pages: 1, failure: null });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.com/story",
+      "https://cdn.example.net/story",
+    ]);
+    expect(fetchMock.mock.calls[0]?.[1]?.headers).toMatchObject({ Cookie: "consent=yes" });
+    expect(fetchMock.mock.calls[1]?.[1]?.headers).not.toHaveProperty("Cookie");
+  });
+
+  it("keeps the feed content without fetching when the rule says so", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const extraction = await extractArticle(
+      "https://www.reddit.com/r/news/comments/1",
+      ruleFor("reddit.com", { useFeedContent: true }),
+      '<p>Short post <a href="/u/someone">by someone</a></p><script>alert(1)</script>',
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(extraction.method).toBe("feed_content");
+    expect(extraction.article?.text).toBe("Short post by someone");
+    expect(extraction.article?.html).toContain('href="https://www.reddit.com/u/someone"');
+  });
+});
@@ -4,9 +4,11 @@ import { generateDigest, maybeGenerateDigest } from "../generate-digest.js";
 // ---- Helpers ----------------------------------------------------------------
 
 const ACCOUNT_ID = "tenant-1";
+const USER_ID = "user-1";
 
 function makePool(overrides: Record<string, { rows: unknown[] }> = {}) {
   const defaults: Record<string, { rows: unknown[] }> = {
+    members: { rows: [{ id: USER_ID }] },
     digest_exists: { rows: [] },
     clusters: {
       rows: [
@@ -35,6 +37,7 @@ function makePool(overrides: Record<string, { rows: unknown[] }> = {}) {
       ],
     },
     insert_digest: { rows: [] },
+    member_settings: { rows: [] },
     backlog: { rows: [{ cnt: "0" }] },
     recent_digest: { rows: [{ id: "d1" }] },
     away: { rows: [{ last_active_at: new Date() }] },
@@ -44,12 +47,14 @@ function makePool(overrides: Record<string, { rows: unknown[] }> = {}) {
 
   return {
     query: vi.fn(async (sql: string) => {
+      if (sql.includes("FROM user_account")) return merged.members;
       if (sql.includes("FROM digest") && sql.includes("start_ts")) return merged.digest_exists;
       if (sql.includes("FROM cluster c") || sql.includes("FROM cluster c\n")) {
         if (sql.includes("COUNT")) return merged.backlog;
         return merged.clusters;
       }
       if (sql.includes("INSERT INTO digest")) return merged.insert_digest;
+      if (sql.includes("FROM member_settings")) return merged.member_settings;
       if (sql.includes("FROM digest") && sql.includes("created_at")) return merged.recent_digest;
       if (sql.includes("last_active_at")) return merged.away;
       return { rows: [] };
@@ -97,6 +102,86 @@ describe("generateDigest", () => {
     expect(insertParams[3]).toContain("Digest for"); // title
     expect(typeof insertParams[4]).toBe("string"); // body
     expect(typeof insertParams[5]).toBe("string"); // entries_json
+    expect(insertParams[6]).toBe(USER_ID); // user_id
+  });
+
+  it("writes one digest per active member, scoped to their read state", async () => {
+    const pool = makePool({ members: { rows: [{ id: "user-1" }, { id: "user-2" }] } });
+    await generateDigest(pool, ACCOUNT_ID);
+
+    const insertCalls = pool.query.mock.calls.filter(
+      (c: any[]) => typeof c[0] === "string" && c[0].includes("INSERT INTO digest"),
+    );
+    expect(insertCalls.map((c: any[]) => c[1][6])).toEqual(["user-1", "user-2"]);
+
+    const clusterCalls = pool.query.mock.calls.filter(
+      (c: any[]) => typeof c[0] === "string" && c[0].includes("rs.user_id"),
+    );
+    expect(clusterCalls.map((c: any[]) => c[1][3])).toEqual(["user-1", "user-2"]);
+  });
+
+  it("fills the member's custom sections and stores their headings", async () => {
+    const pool = makePool({
+      member_settings: {
+        rows: [
+          {
+            data: {
+              digestSections: [
+                { id: "security", title: "Security", folderIds: ["f-sec"] },
+                { id: "rest", title: "Everything else", oneLiner: "none" },
+              ],
+            },
+          },
+        ],
+      },
+      clusters: {
+        rows: [
+          { cluster_id: "c1", title: "Top Story", summary: "Lead", size: 5, folder_id: "f-tech" },
+          { cluster_id: "c2", title: "Breach", summary: "Patch now", size: 3, folder_id: "f-sec" },
+        ].map((row) => ({
+          ...row,
+          feed_id: "feed-1",
+          feed_weight: "neutral",
+          feed_title: "News",
+          published_at: new Date(),
+        })),
+      },
+    });
+    await generateDigest(pool, ACCOUNT_ID);
+
+    const insertCall = pool.query.mock.calls.find(
+      (c: any[]) => typeof c[0] === "string" && c[0].includes("INSERT INTO digest"),
+    );
+    const entries = JSON.parse(insertCall[1][5]);
+    expect(entries.map((e: any) => [e.clusterId, e.section, e.oneLiner])).toEqual([
+      ["c2", "security", "Patch now"],
+      ["c1", "rest", null],
+    ]);
+    expect(JSON.parse(insertCall[1][7])).toEqual([
+      { id: "security", title: "Security" },
+      { id: "rest", title: "Everything else" },
+    ]);
+    expect(insertCall[1][4]).toContain("## Security");
+  });
+
+  it("stores no headings for the built-in sections", async () => {
+    const pool = makePool();
+    await generateDigest(pool, ACCOUNT_ID);
+
+    const insertCall = pool.query.mock.calls.find(
+      (c: any[]) => typeof c[0] === "string" && c[0].includes("INSERT INTO digest"),
+    );
+    expect(insertCall[1][7]).toBeNull();
+  });
+
+  it("only builds the requesting member's digest when a user is given", async () => {
+    const pool = makePool({ members: { rows: [{ id: "user-1" }, { id: "user-2" }] } });
+    await generateDigest(pool, ACCOUNT_ID, null, "user-2");
+
+    const insertCalls = pool.query.mock.calls.filter(
+      (c: any[]) => typeof c[0] === "string" && c[0].includes("INSERT INTO digest"),
+    );
+    expect(insertCalls.map((c: any[]) => c[1][6])).toEqual(["user-2"]);
   });
 
   it("partitions clusters into sections (top_picks first)", async () => {
@@ -15,6 +15,7 @@ function makeItem(overrides: Partial<ParsedItem> = {}): ParsedItem {
     publishedAt: new Date("2024-01-01T00:00:00Z"),
     author: "Test Author",
     heroImageUrl: null,
+    enclosures: [],
     ...overrides,
   };
 }
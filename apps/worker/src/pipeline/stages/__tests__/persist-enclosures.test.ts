@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import { persistEnclosures } from "../persist-enclosures.js";
+import type { ParsedEnclosure, ParsedItem } from "../poll-feed.js";
+
+const TENANT_ID = "tenant-1";
+const FEED_ID = "feed-1";
+
+function makeEnclosure(overrides: Partial<ParsedEnclosure> = {}): ParsedEnclosure {
+  return {
+    url: "https://cdn.example.com/ep.mp3",
+    mimeType: "audio/mpeg",
+    lengthBytes: 1000,
+    durationSeconds: 60.4,
+    episodeNumber: 3,
+    seasonNumber: 1,
+    episodeType: "full",
+    chapters: [{ startSeconds: 0, title: "Intro", url: null }],
+    chaptersUrl: null,
+    ...overrides,
+  };
+}
+
+function makeItem(overrides: Partial<ParsedItem> = {}): ParsedItem {
+  return {
+    guid: "ep-3",
+    url: "https://example.com/ep-3",
+    title: "Episode 3",
+    summary: null,
+    publishedAt: new Date("2026-01-01T00:00:00Z"),
+    author: null,
+    heroImageUrl: null,
+    enclosures: [makeEnclosure()],
+    ...overrides,
+  };
+}
+
+function makePool(itemRows: Record<string, unknown>[]) {
+  return {
+    query: vi.fn(async (sql: string) => {
+      if (sql.includes("FROM item\n")) {
+        return { rows: itemRows };
+      }
+      return { rows: [] };
+    }),
+  } as any;
+}
+
+function callsMatching(pool: { query: { mock: { calls: any[][] } } }, fragment: string) {
+  return pool.query.mock.calls.filter((c) => typeof c[0] === "string" && c[0].includes(fragment));
+}
+
+describe("persistEnclosures", () => {
+  it("does nothing when no item has enclosures", async () => {
+    const pool = makePool([]);
+
+    const count = await persistEnclosures(pool, TENANT_ID, FEED_ID, [makeItem({ enclosures: [] })]);
+
+    expect(count).toBe(0);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it("upserts enclosures for items matched by guid and prunes stale ones", async () => {
+    const pool = makePool([
+      {
+        id: "item-1",
+        guid: "ep-3",
+        canonical_url: "https://example.com/ep-3",
+        published_at: new Date("2026-01-01T00:00:00Z"),
+      },
+    ]);
+
+    const count = await persistEnclosures(pool, TENANT_ID, FEED_ID, [makeItem()]);
+
+    expect(count).toBe(1);
+    const [insert] = callsMatching(pool, "INSERT INTO item_enclosure");
+    expect(insert?.[1]).toEqual([
+      TENANT_ID,
+      "item-1",
+      0,
+      "https://cdn.example.com/ep.mp3",
+      "audio/mpeg",
+      1000,
+      60,
+      3,
+      1,
+      "full",
+      JSON.stringify([{ startSeconds: 0, title: "Intro", url: null }]),
+      null,
+    ]);
+    const [prune] = callsMatching(pool, "DELETE FROM item_enclosure");
+    expect(prune?.[1]).toEqual(["item-1", TENANT_ID, ["https://cdn.example.com/ep.mp3"]]);
+  });
+
+  it("matches guid-less items by canonical URL and publish time", async () => {
+    const publishedAt = new Date("2026-02-01T10:00:00Z");
+    const pool = makePool([
+      {
+        id: "item-2",
+        guid: null,
+        canonical_url: "https://example.com/ep-4",
+        published_at: publishedAt,
+      },
+    ]);
+
+    const count = await persistEnclosures(pool, TENANT_ID, FEED_ID, [
+      makeItem({ guid: null, url: "https://example.com/ep-4", publishedAt }),
+      makeItem({ guid: "unknown" }),
+    ]);
+
+    expect(count).toBe(1);
+    const inserts = callsMatching(pool, "INSERT INTO item_enclosure");
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0]?.[1][1]).toBe("item-2");
+  });
+});
@@ -1,6 +1,12 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
 import type { DueFeed } from "../../../services/feed-service.js";
-import { pollFeed, validateFeedUrl } from "../poll-feed.js";
+import {
+  FeedHttpError,
+  parseHttpCacheHints,
+  parsePushedFeed,
+  pollFeed,
+  validateFeedUrl,
+} from "../poll-feed.js";
 
 function makeFeed(overrides: Partial<DueFeed> = {}): DueFeed {
   return {
@@ -200,6 +206,135 @@ describe("pollFeed", () => {
     expect(result.items[0]?.publishedAt.toISOString()).toBe("2025-02-11T01:02:03.000Z");
   });
 
+  it("parses podcast enclosures with iTunes episode metadata and chapters", async () => {
+    const rss = `<?xml version="1.0"?>
+      <rss version="2.0"
+           xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+           xmlns:podcast="https://podcastindex.org/namespace/1.0"
+           xmlns:psc="http://podlove.org/simple-chapters">
+        <channel>
+          <title>Podcast</title>
+          <item>
+            <title>Episode 12</title>
+            <link>https://example.com/episodes/12</link>
+            <guid>ep-12</guid>
+            <enclosure url="https://cdn.example.com/ep12.mp3" length="34567890" type="audio/mpeg" />
+            <enclosure url="https://cdn.example.com/cover.jpg" length="1000" type="image/jpeg" />
+            <itunes:duration>01:02:03</itunes:duration>
+            <itunes:episode>12</itunes:episode>
+            <itunes:season>2</itunes:season>
+            <itunes:episodeType>full</itunes:episodeType>
+            <podcast:chapters url="https://example.com/ep12/chapters.json" type="application/json+chapters" />
+            <psc:chapters version="1.2">
+              <psc:chapter start="00:10:00" title="Interview" />
+              <psc:chapter start="0" title="Intro" href="https://example.com/intro" />
+            </psc:chapters>
+          </item>
+        </channel>
+      </rss>`;
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(rss, { status: 200 })));
+
+    const result = await pollFeed(makeFeed());
+    expect(result.items[0]?.heroImageUrl).toBe("https://cdn.example.com/cover.jpg");
+    expect(result.items[0]?.enclosures).toEqual([
+      {
+        url: "https://cdn.example.com/ep12.mp3",
+        mimeType: "audio/mpeg",
+        lengthBytes: 34567890,
+        durationSeconds: 3723,
+        episodeNumber: 12,
+        seasonNumber: 2,
+        episodeType: "full",
+        chapters: [
+          { startSeconds: 0, title: "Intro", url: "https://example.com/intro" },
+          { startSeconds: 600, title: "Interview", url: null },
+        ],
+        chaptersUrl: "https://example.com/ep12/chapters.json",
+      },
+    ]);
+  });
+
+  it("parses YouTube media:group thumbnails, descriptions and durations", () => {
+    const atom = `<?xml version="1.0" encoding="UTF-8"?>
+      <feed xmlns:yt="http://www.youtube.com/xml/schemas/2015"
+            xmlns:media="http://search.yahoo.com/mrss/"
+            xmlns="http://www.w3.org/2005/Atom">
+        <title>Channel</title>
+        <yt:channelId>UCabcdefghijklmnopqrstuv</yt:channelId>
+        <entry>
+          <id>yt:video:dQw4w9WgXcQ</id>
+          <yt:videoId>dQw4w9WgXcQ</yt:videoId>
+          <title>Video title</title>
+          <link rel="alternate" href="https://www.youtube.com/watch?v=dQw4w9WgXcQ"/>
+          <published>2026-01-01T00:00:00+00:00</published>
+          <media:group>
+            <media:title>Video title</media:title>
+            <media:content url="https://www.youtube.com/v/dQw4w9WgXcQ?version=3"
+                           type="application/x-shockwave-flash" width="640" height="390" duration="212"/>
+            <media:thumbnail url="https://i1.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg" width="480" height="360"/>
+            <media:description>What this video is about</media:description>
+          </media:group>
+        </entry>
+      </feed>`;
+
+    const result = parsePushedFeed(
+      makeFeed({ url: "https://www.youtube.com/feeds/videos.xml?channel_id=UCabc" }),
+      atom,
+    );
+
+    const item = result.items[0];
+    expect(item?.url).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ");
+    expect(item?.summary).toBe("What this video is about");
+    expect(item?.heroImageUrl).toBe("https://i1.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg");
+    expect(item?.enclosures).toEqual([
+      {
+        url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+        mimeType: "video/x-youtube",
+        lengthBytes: null,
+        durationSeconds: 212,
+        episodeNumber: null,
+        seasonNumber: null,
+        episodeType: null,
+        chapters: [],
+        chaptersUrl: null,
+      },
+    ]);
+  });
+
+  it("maps JSON Feed attachments to enclosures", () => {
+    const jsonFeed = JSON.stringify({
+      version: "https://jsonfeed.org/version/1.1",
+      title: "JSON Podcast",
+      items: [
+        {
+          id: "json-ep-1",
+          url: "https://example.com/json-ep-1",
+          content_text: "Show notes",
+          attachments: [
+            {
+              url: "https://cdn.example.com/json-ep-1.m4a",
+              mime_type: "audio/x-m4a",
+              size_in_bytes: 1200,
+              duration_in_seconds: 95,
+            },
+          ],
+        },
+      ],
+    });
+
+    const result = parsePushedFeed(makeFeed({ url: "https://example.com/feed.json" }), jsonFeed);
+    expect(result.items[0]?.enclosures).toMatchObject([
+      {
+        url: "https://cdn.example.com/json-ep-1.m4a",
+        mimeType: "audio/x-m4a",
+        lengthBytes: 1200,
+        durationSeconds: 95,
+        chapters: [],
+      },
+    ]);
+  });
+
   it("parses RDF feeds and maps dc date/creator", async () => {
     const rdf = `<?xml version="1.0"?>
       <rdf:RDF
@@ -237,4 +372,122 @@ describe("pollFeed", () => {
     });
     expect(result.items[0]?.publishedAt.toISOString()).toBe("2025-02-09T10:00:00.000Z");
   });
+
+  it("discovers WebSub hub and self links from Atom and the Link header", async () => {
+    const atom = `<?xml version="1.0" encoding="utf-8"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <id>tag:example.com,2025:feed</id>
+        <title>Hub Feed</title>
+        <link rel="hub" href="https://hub.example.com/"/>
+        <link rel="self" href="https://example.com/canonical.xml"/>
+        <updated>2025-02-10T12:00:00Z</updated>
+      </feed>`;
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(atom, { status: 200 })));
+    const fromBody = await pollFeed(makeFeed({ url: "https://example.com/atom.xml" }));
+    expect(fromBody.webSub).toEqual({
+      hubUrl: "https://hub.example.com/",
+      topicUrl: "https://example.com/canonical.xml",
+    });
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response(atom, {
+          status: 200,
+          headers: { link: '<https://push.example.org/hub>; rel="hub"' },
+        }),
+      ),
+    );
+    const fromHeader = await pollFeed(makeFeed({ url: "https://example.com/atom.xml" }));
+    expect(fromHeader.webSub?.hubUrl).toBe("https://push.example.org/hub");
+  });
+
+  it("parses pushed content without touching conditional GET validators", () => {
+    const rss = `<?xml version="1.0"?>
+      <rss version="2.0"><channel><title>Feed</title>
+        <item><title>Pushed</title><link>https://example.com/pushed</link></item>
+      </channel></rss>`;
+
+    const result = parsePushedFeed(makeFeed({ etag: '"keep"' }), rss);
+    expect(result.etag).toBe('"keep"');
+    expect(result.webSub).toBeNull();
+    expect(result.items[0]?.url).toBe("https://example.com/pushed");
+  });
+
+  it("reads RSS ttl, skipHours, skipDays and sy:updatePeriod hints", async () => {
+    const rss = `<?xml version="1.0"?>
+      <rss version="2.0" xmlns:sy="http://purl.org/rss/1.0/modules/syndication/">
+        <channel>
+          <title>Feed</title>
+          <ttl>120</ttl>
+          <skipHours><hour>1</hour><hour>2</hour></skipHours>
+          <skipDays><day>Saturday</day><day>Sunday</day></skipDays>
+          <sy:updatePeriod>daily</sy:updatePeriod>
+          <sy:updateFrequency>4</sy:updateFrequency>
+          <item><title>Story</title><link>https://example.com/story</link></item>
+        </channel>
+      </rss>`;
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          new Response(rss, { status: 200, headers: { "cache-control": "public, max-age=900" } }),
+        ),
+    );
+
+    const result = await pollFeed(makeFeed());
+    expect(result.scheduleHints).toEqual({
+      ttlMinutes: 120,
+      skipHours: [1, 2],
+      skipDays: ["saturday", "sunday"],
+      updatePeriod: "daily",
+      updateFrequency: 4,
+    });
+    expect(result.httpCache).toEqual({ maxAgeSeconds: 900, expiresAt: null, retryAfter: null });
+  });
+
+  it("throws a FeedHttpError carrying Retry-After for rate-limited polls", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(new Response(null, { status: 429, headers: { "retry-after": "600" } })),
+    );
+
+    const error = await pollFeed(makeFeed()).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(FeedHttpError);
+    expect((error as FeedHttpError).message).toBe("[poll-feed] HTTP 429 for feed feed-1");
+    expect((error as FeedHttpError).retryAfter).toBeInstanceOf(Date);
+  });
+});
+
+describe("parseHttpCacheHints", () => {
+  const now = new Date("2025-02-10T12:00:00Z");
+
+  it("parses max-age, Expires and both Retry-After forms", () => {
+    expect(
+      parseHttpCacheHints(
+        new Headers({
+          "cache-control": "s-maxage=60, max-age=300",
+          expires: "Mon, 10 Feb 2025 13:00:00 GMT",
+          "retry-after": "120",
+        }),
+        now,
+      ),
+    ).toEqual({
+      maxAgeSeconds: 300,
+      expiresAt: new Date("2025-02-10T13:00:00Z"),
+      retryAfter: new Date("2025-02-10T12:02:00Z"),
+    });
+    expect(
+      parseHttpCacheHints(new Headers({ "retry-after": "Mon, 10 Feb 2025 18:00:00 GMT" }), now)
+        ?.retryAfter,
+    ).toEqual(new Date("2025-02-10T18:00:00Z"));
+  });
+
+  it("returns null when the response sent no caching headers", () => {
+    expect(parseHttpCacheHints(new Headers({ expires: "0" }), now)).toBeNull();
+  });
 });
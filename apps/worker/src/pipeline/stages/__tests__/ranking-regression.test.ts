@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { findBestCluster } from "../cluster-assignment";
 
 type FeedWeight = "prefer" | "neutral" | "deprioritize";
 
@@ -8,6 +9,7 @@ interface RankingInput {
   clusterSize: number;
   feedWeight: FeedWeight;
   dwellSeconds: number;
+  listenSeconds: number;
   clicked: boolean;
   notInterested: boolean;
   topicAffinityScore: number;
@@ -47,11 +49,17 @@ function computeSourceWeight(weight: FeedWeight): number {
   return 0;
 }
 
-function computeEngagement(dwellSeconds: number, clicked: boolean, notInterested: boolean): number {
+function computeEngagement(
+  dwellSeconds: number,
+  clicked: boolean,
+  notInterested: boolean,
+  listenSeconds = 0,
+): number {
   const dwellPart = Math.min(dwellSeconds / 120.0, 0.25);
+  const listenPart = Math.min(listenSeconds / 2400.0, 0.25);
   const clickPart = clicked ? 0.15 : 0;
   const notInterestedPart = notInterested ? -2.5 : 0;
-  return dwellPart + clickPart + notInterestedPart;
+  return dwellPart + listenPart + clickPart + notInterestedPart;
 }
 
 function computeTopicAffinity(raw: number): number {
@@ -75,7 +83,12 @@ function computeRanking(input: RankingInput): RankingFactors {
   const saved = computeSaved(input.isSaved);
   const clusterSize = computeClusterSize(input.clusterSize);
   const sourceWeight = computeSourceWeight(input.feedWeight);
-  const engagement = computeEngagement(input.dwellSeconds, input.clicked, input.notInterested);
+  const engagement = computeEngagement(
+    input.dwellSeconds,
+    input.clicked,
+    input.notInterested,
+    input.listenSeconds,
+  );
   const topicAffinity = computeTopicAffinity(input.topicAffinityScore);
   const folderAffinity = computeFolderAffinity(input.folderAffinityScore);
   const diversityPenalty = computeDiversityPenalty(input.topicUnreadCount);
@@ -113,6 +126,7 @@ function makeInput(overrides: Partial<RankingInput> = {}): RankingInput {
     clusterSize: 1,
     feedWeight: "neutral",
     dwellSeconds: 0,
+    listenSeconds: 0,
     clicked: false,
     notInterested: false,
     topicAffinityScore: 0,
@@ -167,6 +181,13 @@ describe("ranking formula: individual factors", () => {
     expect(computeEngagement(120, true, false)).toBeCloseTo(0.4);
   });
 
+  it("listening progress counts as engagement, capped like dwell", () => {
+    expect(computeEngagement(0, false, false, 300)).toBeCloseTo(0.125);
+    expect(computeEngagement(0, false, false, 600)).toBeCloseTo(0.25);
+    expect(computeEngagement(0, false, false, 3600)).toBeCloseTo(0.25);
+    expect(computeEngagement(120, false, false, 600)).toBeCloseTo(0.5);
+  });
+
   it("topic affinity is clamped to [-0.35, 0.35]", () => {
     expect(computeTopicAffinity(0)).toBe(0);
     expect(computeTopicAffinity(0.2)).toBeCloseTo(0.2);
@@ -1158,3 +1179,151 @@ describe("auto-read: scroll threshold behavior", () => {
     expect(shouldMarkRead(0.8, 0.6, 0, 0, "on_scroll")).toBe(true);
   });
 });
+
+// ---------- Clustering decisions ----------
+// These cover how findBestCluster uses the scores it is given, with
+// hand-written vectors. They make no claim about how well a real embedding
+// model clusters headlines.
+
+describe("clustering regression: semantic vs lexical", () => {
+  it("joins on cosine similarity alone when both sides are embedded", () => {
+    const publishedAt = new Date("2026-03-01T12:00:00Z");
+    const match = findBestCluster(
+      {
+        title: "Federal Reserve hikes benchmark borrowing costs",
+        summary: null,
+        publishedAt,
+        embedding: [1, 0, 0],
+      },
+      new Map([
+        [
+          "c1",
+          [
+            {
+              title: "Fed raises interest rates by a quarter point",
+              publishedAt,
+              embedding: [0.95, 0.3122, 0],
+            },
+          ],
+        ],
+      ]),
+    );
+    expect(match).toMatchObject({ clusterId: "c1", method: "semantic" });
+  });
+
+  it("does not fall back to title overlap when the embeddings disagree", () => {
+    const publishedAt = new Date("2026-03-01T12:00:00Z");
+    const item = { title: "Live updates: latest news and reaction", summary: null, publishedAt };
+    const clusters = (embedding: number[] | null) =>
+      new Map([
+        ["c1", [{ title: "Live updates: latest news and analysis", publishedAt, embedding }]],
+      ]);
+
+    expect(findBestCluster({ ...item, embedding: null }, clusters(null))?.method).toBe("lexical");
+    expect(findBestCluster({ ...item, embedding: [1, 0, 0] }, clusters([0, 1, 0]))).toBeNull();
+  });
+
+  it("ranks semantic and lexical matches by how far each clears its own threshold", () => {
+    const publishedAt = new Date("2026-03-01T12:00:00Z");
+    const match = findBestCluster(
+      {
+        title: "Google releases Chrome 130 with privacy controls",
+        summary: null,
+        publishedAt,
+        embedding: [1, 0],
+      },
+      new Map([
+        // Cosine 0.9: only just over the 0.8 semantic threshold.
+        ["semantic", [{ title: "Browser update ships", publishedAt, embedding: [0.9, 0.4359] }]],
+        // Jaccard well over the 0.25 lexical threshold, though below 0.9.
+        [
+          "lexical",
+          [
+            {
+              title: "Google releases Chrome 130 with new privacy controls",
+              publishedAt,
+              embedding: null,
+            },
+          ],
+        ],
+      ]),
+    );
+    expect(match?.clusterId).toBe("lexical");
+    expect(match?.score).toBeLessThan(0.9);
+  });
+
+  it("semantic matches report their method and cosine score", () => {
+    const publishedAt = new Date("2026-03-01T12:00:00Z");
+    const match = findBestCluster(
+      {
+        title: "Federal Reserve hikes rates",
+        summary: null,
+        publishedAt,
+        embedding: [1, 0],
+      },
+      new Map([
+        [
+          "c1",
+          [
+            {
+              title: "Fed raises rates",
+              publishedAt,
+              embedding: [0.96, 0.28],
+            },
+          ],
+        ],
+      ]),
+    );
+    expect(match?.method).toBe("semantic");
+    expect(match?.score).toBeCloseTo(0.96);
+  });
+
+  it("falls back to lexical matching when the cluster has no embeddings", () => {
+    const publishedAt = new Date("2026-03-01T12:00:00Z");
+    const match = findBestCluster(
+      {
+        title: "Google releases Chrome 130 with privacy controls",
+        summary: null,
+        publishedAt,
+        embedding: [1, 0],
+      },
+      new Map([
+        [
+          "c1",
+          [
+            {
+              title: "Google releases Chrome 130 with new privacy controls",
+              publishedAt,
+              embedding: null,
+            },
+          ],
+        ],
+      ]),
+    );
+    expect(match?.method).toBe("lexical");
+  });
+
+  it("never joins clusters outside the time window", () => {
+    const match = findBestCluster(
+      {
+        title: "Fed raises interest rates by a quarter point",
+        summary: null,
+        publishedAt: new Date("2026-03-05T12:00:00Z"),
+        embedding: [1, 0],
+      },
+      new Map([
+        [
+          "c1",
+          [
+            {
+              title: "Fed raises interest rates by a quarter point",
+              publishedAt: new Date("2026-03-01T12:00:00Z"),
+              embedding: [1, 0],
+            },
+          ],
+        ],
+      ]),
+    );
+    expect(match).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeArticleHtml } from "../sanitize-article-html.js";
+
+const BASE_URL = "https://example.com/blog/post";
+
+describe("sanitizeArticleHtml", () => {
+  it("keeps article structure and drops scripts, styles and handlers", () => {
+    const { html } = sanitizeArticleHtml(
+      `<div id="readability-page-1" class="page">
+        <h1 style="color:red">Title</h1>
+        <p onclick="steal()">Intro with <b>bold</b> and <span class="x">a span</span>.</p>
+        <script>alert(1)</script><style>p{}</style>
+        <ul><li>One</li><li>Two</li></ul>
+        <pre class="language-ts highlight"><code class="language-ts">const x = 1;\nconst y = 2;</code></pre>
+        <iframe src="https://evil.example"></iframe>
+        <p></p>
+      </div>`,
+      BASE_URL,
+    );
+
+    expect(html).toContain("<h2>Title</h2>");
+    expect(html).toContain("<p>Intro with <strong>bold</strong> and a span.</p>");
+    expect(html).toContain("<ul><li>One</li>\n<li>Two</li>\n</ul>");
+    expect(html).toContain(
+      '<pre class="language-ts"><code class="language-ts">const x = 1;\nconst y = 2;</code></pre>',
+    );
+    expect(html.startsWith("<div>\n")).toBe(true);
+    expect(html).not.toMatch(/script|style|onclick|iframe|<p><\/p>|class="page"/);
+  });
+
+  it("rewrites relative URLs and drops unsafe ones", () => {
+    const { html } = sanitizeArticleHtml(
+      `<p><a href="/about">About</a> <a href="javascript:alert(1)">bad</a>
+        <a href="#notes">notes</a> <img src="../img/a.png" alt="A" width="640" height="auto"></p>`,
+      BASE_URL,
+    );
+
+    expect(html).toContain(
+      '<a href="https://example.com/about" rel="noopener noreferrer nofollow" target="_blank">About</a>',
+    );
+    expect(html).toContain("<a>bad</a>");
+    expect(html).toContain("<a>notes</a>");
+    expect(html).toContain(
+      '<img src="https://example.com/img/a.png" alt="A" width="640" loading="lazy" referrerpolicy="no-referrer">',
+    );
+  });
+
+  it("resolves lazy-loaded images and removes images without a source", () => {
+    const { html } = sanitizeArticleHtml(
+      `<figure>
+        <img src="data:image/gif;base64,R0lGOD" data-src="/photo.jpg"
+             data-srcset="/photo-1x.jpg 1x, /photo-2x.jpg 2x">
+        <figcaption>Caption</figcaption>
+      </figure>
+      <p>Text <img src="data:image/gif;base64,R0lGOD"></p>`,
+      BASE_URL,
+    );
+
+    expect(html).toContain('src="https://example.com/photo.jpg"');
+    expect(html).toContain(
+      'srcset="https://example.com/photo-1x.jpg 1x, https://example.com/photo-2x.jpg 2x"',
+    );
+    expect(html).toContain("<figcaption>Caption</figcaption>");
+    expect(html).not.toContain("data:image");
+  });
+
+  it("derives whitespace-collapsed text that keeps blocks apart", () => {
+    const { text } = sanitizeArticleHtml(
+      "<h2>Heading</h2><p>First   paragraph.</p><p>Second<br>line.</p>",
+      BASE_URL,
+    );
+
+    expect(text).toBe("Heading First paragraph. Second line.");
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { FeedScheduleHints } from "../poll-feed.js";
+import { computePollSchedule, medianGapMinutes } from "../schedule-poll.js";
+
+const NOW = new Date("2025-02-10T12:00:00Z");
+
+function hoursAgo(...hours: number[]): Date[] {
+  return hours.map((h) => new Date(NOW.getTime() - h * 3_600_000));
+}
+
+function hints(overrides: Partial<FeedScheduleHints> = {}): FeedScheduleHints {
+  return {
+    ttlMinutes: null,
+    skipHours: [],
+    skipDays: [],
+    updatePeriod: null,
+    updateFrequency: null,
+    ...overrides,
+  };
+}
+
+const BASE = {
+  now: NOW,
+  publishedAt: [] as Date[],
+  feedHints: null,
+  httpCache: null,
+  minPollMinutes: 10,
+  defaultPollMinutes: 60,
+};
+
+describe("medianGapMinutes", () => {
+  it("ignores duplicate and future publish times", () => {
+    const times = [...hoursAgo(0, 2, 4, 4, 10), new Date(NOW.getTime() + 3_600_000)];
+    expect(medianGapMinutes(times, NOW)).toBe(120);
+  });
+
+  it("needs a few gaps before trusting the cadence", () => {
+    expect(medianGapMinutes(hoursAgo(1, 2, 3), NOW)).toBeNull();
+  });
+});
+
+describe("computePollSchedule", () => {
+  it("polls at half the feed's publishing cadence", () => {
+    const schedule = computePollSchedule({ ...BASE, publishedAt: hoursAgo(1, 5, 9, 13, 17) });
+
+    expect(schedule.intervalMinutes).toBe(120);
+    expect(schedule.nextPollAt).toEqual(new Date("2025-02-10T14:00:00Z"));
+    expect(schedule.reason).toBe("Publishes about every 4 hours");
+  });
+
+  it("falls back to the workspace interval without history", () => {
+    const schedule = computePollSchedule({ ...BASE, defaultPollMinutes: 30 });
+
+    expect(schedule.intervalMinutes).toBe(30);
+    expect(schedule.reason).toContain("workspace's 30 min interval");
+  });
+
+  it("waits at least as long as the publisher asks", () => {
+    const cadence = hoursAgo(0.25, 0.5, 0.75, 1);
+    expect(
+      computePollSchedule({ ...BASE, publishedAt: cadence, feedHints: hints({ ttlMinutes: 90 }) }),
+    ).toMatchObject({
+      intervalMinutes: 90,
+      reason: "Feed's <ttl> asks readers to cache it for 1.5 hours",
+    });
+    expect(
+      computePollSchedule({
+        ...BASE,
+        publishedAt: cadence,
+        feedHints: hints({ updatePeriod: "hourly", updateFrequency: 2 }),
+        httpCache: {
+          maxAgeSeconds: null,
+          expiresAt: null,
+          retryAfter: new Date(NOW.getTime() + 45 * 60_000),
+        },
+      }),
+    ).toMatchObject({ intervalMinutes: 45, reason: "Server asked to retry after 45 min" });
+  });
+
+  it("never polls faster than the plan allows or slower than daily", () => {
+    expect(
+      computePollSchedule({ ...BASE, publishedAt: hoursAgo(0, 0.1, 0.2, 0.3), minPollMinutes: 60 }),
+    ).toMatchObject({ intervalMinutes: 60 });
+    expect(
+      computePollSchedule({ ...BASE, feedHints: hints({ updatePeriod: "weekly" }) }),
+    ).toMatchObject({ intervalMinutes: 24 * 60 });
+  });
+
+  it("moves the poll past skipHours and skipDays", () => {
+    const schedule = computePollSchedule({
+      ...BASE,
+      // 12:00 + 60 min lands on 13:00 UTC Monday.
+      feedHints: hints({ skipHours: [13, 14], skipDays: [] }),
+    });
+
+    expect(schedule.intervalMinutes).toBe(60);
+    expect(schedule.nextPollAt).toEqual(new Date("2025-02-10T15:00:00Z"));
+    expect(schedule.reason).toContain("<skipHours>");
+
+    const weekend = computePollSchedule({
+      ...BASE,
+      defaultPollMinutes: 12 * 60,
+      feedHints: hints({ skipDays: ["tuesday"] }),
+    });
+    expect(weekend.nextPollAt).toEqual(new Date("2025-02-12T00:00:00Z"));
+  });
+});
@@ -1,3 +1,6 @@
+import type { Pool } from "pg";
+import { tokenize } from "./compute-features";
+
 // Well-known folder IDs from the migration seed (0001_init.sql)
 const FOLDER_IDS: Record<string, string> = {
   Tech: "11111111-1111-1111-1111-111111111111",
@@ -388,35 +391,188 @@ const FOLDER_KEYWORDS: [string, string[]][] = [
   ],
 ];
 
+/** Keywords learned for one folder from the feeds a member filed in it. */
+export interface FolderVocabulary {
+  folderId: string;
+  keywords: string[];
+}
+
+export interface FolderClassifier {
+  /** Built-in folders the workspace deleted; never chosen. */
+  hiddenFolderIds: ReadonlySet<string>;
+  vocabularies: FolderVocabulary[];
+}
+
+const BUILT_IN_CLASSIFIER: FolderClassifier = { hiddenFolderIds: new Set(), vocabularies: [] };
+
+// Learning thresholds: a folder needs a handful of stories before its
+// vocabulary means anything, and a keyword has to be both common in the folder
+// and several times more common there than across the workspace's stories.
+const MIN_FOLDER_DOCS = 5;
+const MIN_KEYWORD_DOCS = 3;
+const MIN_KEYWORD_SHARE = 0.05;
+const MIN_KEYWORD_LIFT = 3;
+const MAX_LEARNED_KEYWORDS = 40;
+const LEARNING_ITEMS_PER_FEED = 50;
+const BACKGROUND_ITEMS = 1000;
+
+function documentTokens(text: string): Set<string> {
+  return new Set(tokenize(text).filter((token) => !/^\d+$/.test(token)));
+}
+
+function countTokens(documents: Iterable<Set<string>>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const tokens of documents) {
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
 /**
- * Classify text content into a folder based on keyword matching.
- * Returns the folder ID for the best-matching folder.
+ * Picks each folder's distinctive words from stories filed there by hand,
+ * measured against `background` (recent stories across the workspace).
  */
-function classifyText(title: string, summary: string | null): string {
-  const text = ` ${(`${title} ${summary || ""}`).toLowerCase()} `;
+export function learnFolderVocabularies(
+  labeled: Array<{ folderId: string; text: string }>,
+  background: string[],
+): FolderVocabulary[] {
+  const byFolder = new Map<string, Set<string>[]>();
+  for (const doc of labeled) {
+    const docs = byFolder.get(doc.folderId) ?? [];
+    docs.push(documentTokens(doc.text));
+    byFolder.set(doc.folderId, docs);
+  }
+  const backgroundCounts = countTokens(background.map(documentTokens));
+  const backgroundSize = background.length;
 
-  let bestFolder = "Other";
-  let bestScore = 0;
+  const vocabularies: FolderVocabulary[] = [];
+  for (const [folderId, docs] of byFolder) {
+    if (docs.length < MIN_FOLDER_DOCS) continue;
+    const keywords = [...countTokens(docs)]
+      .map(([token, count]) => {
+        const share = count / docs.length;
+        const backgroundShare = ((backgroundCounts.get(token) ?? 0) + 1) / (backgroundSize + 1);
+        return { token, count, share, lift: share / backgroundShare };
+      })
+      .filter(
+        ({ count, share, lift }) =>
+          count >= MIN_KEYWORD_DOCS && share >= MIN_KEYWORD_SHARE && lift >= MIN_KEYWORD_LIFT,
+      )
+      .sort((a, b) => b.share - a.share || b.lift - a.lift || a.token.localeCompare(b.token))
+      .slice(0, MAX_LEARNED_KEYWORDS)
+      .map(({ token }) => token);
+    if (keywords.length > 0) {
+      vocabularies.push({ folderId, keywords });
+    }
+  }
+  return vocabularies;
+}
 
+/**
+ * Loads the workspace's folder classifier: which built-in folders it deleted,
+ * and vocabularies learned from recent stories of the feeds members moved
+ * into a folder themselves (built-in or their own).
+ */
+export async function loadFolderClassifier(
+  pool: Pool,
+  accountId: string,
+): Promise<FolderClassifier> {
+  const hidden = await pool.query<{ folder_id: string }>(
+    "SELECT folder_id FROM folder_setting WHERE tenant_id = $1 AND hidden",
+    [accountId],
+  );
+  const hiddenFolderIds = new Set(hidden.rows.map((row) => row.folder_id));
+
+  const labeled = await pool.query<{ folder_id: string; title: string; summary: string | null }>(
+    `SELECT f.folder_id, i.title, i.summary
+     FROM feed f
+     JOIN LATERAL (
+       SELECT title, summary
+       FROM item
+       WHERE item.feed_id = f.id
+         AND item.tenant_id = f.tenant_id
+       ORDER BY published_at DESC
+       LIMIT $2
+     ) i ON true
+     WHERE f.tenant_id = $1
+       AND f.folder_source = 'manual'`,
+    [accountId, LEARNING_ITEMS_PER_FEED],
+  );
+  const labeledDocs = labeled.rows
+    .filter((row) => !hiddenFolderIds.has(row.folder_id))
+    .map((row) => ({ folderId: row.folder_id, text: `${row.title} ${row.summary ?? ""}` }));
+  if (labeledDocs.length === 0) {
+    return { hiddenFolderIds, vocabularies: [] };
+  }
+
+  const background = await pool.query<{ title: string; summary: string | null }>(
+    `SELECT title, summary
+     FROM item
+     WHERE tenant_id = $1
+     ORDER BY published_at DESC
+     LIMIT $2`,
+    [accountId, BACKGROUND_ITEMS],
+  );
+  return {
+    hiddenFolderIds,
+    vocabularies: learnFolderVocabularies(
+      labeledDocs,
+      background.rows.map((row) => `${row.title} ${row.summary ?? ""}`),
+    ),
+  };
+}
+
+/**
+ * Classify text content into a folder based on keyword matching: the built-in
+ * keyword lists plus whatever the workspace's folders have learned. Ties go to
+ * learned folders, then to the built-in order. Returns the folder ID.
+ */
+function classifyText(title: string, summary: string | null, classifier: FolderClassifier): string {
+  const text = ` ${(`${title} ${summary || ""}`).toLowerCase()} `;
+  const tokens = documentTokens(text);
+
+  const scores = new Map<string, number>();
+  for (const { folderId, keywords } of classifier.vocabularies) {
+    let score = 0;
+    for (const keyword of keywords) {
+      if (tokens.has(keyword)) {
+        score++;
+      }
+    }
+    scores.set(folderId, (scores.get(folderId) ?? 0) + score);
+  }
   for (const [folderName, keywords] of FOLDER_KEYWORDS) {
+    const folderId = FOLDER_IDS[folderName];
+    if (!folderId) continue;
     let score = 0;
     for (const keyword of keywords) {
       if (text.includes(keyword)) {
         score++;
       }
     }
-    if (score > bestScore) {
+    scores.set(folderId, (scores.get(folderId) ?? 0) + score);
+  }
+
+  let bestFolder = FOLDER_IDS.Other!;
+  let bestScore = 0;
+  for (const [folderId, score] of scores) {
+    if (score > bestScore && !classifier.hiddenFolderIds.has(folderId)) {
       bestScore = score;
-      bestFolder = folderName;
+      bestFolder = folderId;
     }
   }
 
-  return FOLDER_IDS[bestFolder] ?? FOLDER_IDS.Other!;
+  return bestFolder;
 }
 
 /**
  * Classify a single item and return the folder ID.
  */
-export function classifyItem(item: { title: string; summary: string | null }): string {
-  return classifyText(item.title, item.summary);
+export function classifyItem(
+  item: { title: string; summary: string | null },
+  classifier: FolderClassifier = BUILT_IN_CLASSIFIER,
+): string {
+  return classifyText(item.title, item.summary, classifier);
 }
@@ -1,11 +1,13 @@
+import { cosineSimilarity } from "@rss-wrangler/contracts";
 import type { Pool } from "pg";
-import { classifyItem } from "./classify-folder";
+import { classifyItem, type FolderClassifier, loadFolderClassifier } from "./classify-folder";
 import { hammingDistance, jaccardSimilarity, simhash, tokenize } from "./compute-features";
 import type { UpsertedItem } from "./parse-and-upsert";
 
 // Thresholds for clustering
 const SIMHASH_MAX_DISTANCE = 10; // candidate pre-filter: Hamming distance
 const JACCARD_MIN_SIMILARITY = 0.25; // join cluster if Jaccard >= this
+const EMBEDDING_MIN_SIMILARITY = 0.8; // join cluster if cosine >= this
 const TIME_WINDOW_HOURS = 48;
 
 interface CandidateRow {
@@ -16,13 +18,110 @@ interface CandidateRow {
   folder_id: string;
 }
 
+export interface ClusterCandidate {
+  title: string;
+  publishedAt: Date;
+  embedding: number[] | null;
+}
+
+export interface ClusterableItem {
+  title: string;
+  summary: string | null;
+  publishedAt: Date;
+  embedding: number[] | null;
+}
+
+export interface ClusterMatch {
+  clusterId: string;
+  score: number;
+  method: "semantic" | "lexical";
+}
+
+/**
+ * How far a score clears its method's join threshold, on a 0-1 scale. Cosine
+ * and Jaccard scores sit on different scales (a 0.3 Jaccard is a decent match,
+ * a 0.3 cosine is not), so candidates are ranked by this instead of raw score.
+ */
+function matchStrength(match: ClusterMatch): number {
+  const threshold = match.method === "semantic" ? EMBEDDING_MIN_SIMILARITY : JACCARD_MIN_SIMILARITY;
+  return (match.score - threshold) / (1 - threshold);
+}
+
+/**
+ * Picks the cluster a new item should join. Candidate members are ordered
+ * most recent first. When the item and a cluster member both have embeddings
+ * the decision is cosine similarity alone; otherwise it falls back to the
+ * SimHash pre-filter plus title Jaccard similarity. Each score is checked
+ * against its own threshold, and clusters matched different ways are
+ * compared by `matchStrength`.
+ */
+export function findBestCluster(
+  item: ClusterableItem,
+  clusters: Map<string, ClusterCandidate[]>,
+): ClusterMatch | null {
+  const itemText = `${item.title} ${item.summary || ""}`;
+  const itemTokens = tokenize(itemText);
+  const itemHash = simhash(itemText);
+
+  // Per-item time window filtering
+  const itemWindowStart = item.publishedAt.getTime() - TIME_WINDOW_HOURS * 60 * 60 * 1000;
+  const itemWindowEnd = item.publishedAt.getTime() + TIME_WINDOW_HOURS * 60 * 60 * 1000;
+
+  let best: ClusterMatch | null = null;
+
+  for (const [clusterId, members] of clusters) {
+    // Use the first (most recent) member as representative sample
+    const rep = members[0];
+    if (!rep) continue;
+
+    // Check per-item time window
+    const repTime = new Date(rep.publishedAt).getTime();
+    if (repTime < itemWindowStart || repTime > itemWindowEnd) continue;
+
+    const embedded = item.embedding ? members.find((m) => m.embedding) : undefined;
+    const cosine =
+      item.embedding && embedded?.embedding
+        ? cosineSimilarity(item.embedding, embedded.embedding)
+        : null;
+
+    if (cosine !== null) {
+      if (cosine >= EMBEDDING_MIN_SIMILARITY) {
+        best = stronger(best, { clusterId, score: cosine, method: "semantic" });
+      }
+      continue;
+    }
+
+    const repHash = simhash(rep.title);
+    const hamDist = hammingDistance(itemHash, repHash);
+
+    // Quick pre-filter by simhash distance
+    if (hamDist > SIMHASH_MAX_DISTANCE) continue;
+
+    const jaccard = jaccardSimilarity(itemTokens, tokenize(rep.title));
+    if (jaccard >= JACCARD_MIN_SIMILARITY) {
+      best = stronger(best, { clusterId, score: jaccard, method: "lexical" });
+    }
+  }
+
+  return best;
+}
+
+function stronger(current: ClusterMatch | null, candidate: ClusterMatch): ClusterMatch {
+  return current && matchStrength(current) >= matchStrength(candidate) ? current : candidate;
+}
+
+/**
+ * Assigns new items to clusters and returns the ids of clusters it created.
+ * `embeddings` holds vectors for the new items when semantic clustering ran.
+ */
 export async function assignClusters(
   pool: Pool,
   accountId: string,
   items: UpsertedItem[],
-): Promise<void> {
+  embeddings: Map<string, number[]> = new Map(),
+): Promise<string[]> {
   const newItems = items.filter((i) => i.isNew);
-  if (newItems.length === 0) return;
+  if (newItems.length === 0) return [];
 
   // Batch check: which items are already clustered?
   const itemIds = newItems.map((i) => i.id);
@@ -35,7 +134,7 @@ export async function assignClusters(
   );
   const clusteredSet = new Set(alreadyClustered.rows.map((r) => r.item_id));
   const unclustered = newItems.filter((i) => !clusteredSet.has(i.id));
-  if (unclustered.length === 0) return;
+  if (unclustered.length === 0) return [];
 
   // Compute the widest time window across all unclustered items for a single candidate query
   let minTime = Infinity;
@@ -65,11 +164,30 @@ export async function assignClusters(
     [windowStart.toISOString(), windowEnd.toISOString(), unclusteredIds, accountId],
   );
 
+  // Candidate vectors are only needed when the new items were embedded
+  const candidateEmbeddings = new Map<string, number[]>();
+  if (embeddings.size > 0 && candidates.rows.length > 0) {
+    const embeddingResult = await pool.query<{ item_id: string; embedding: number[] }>(
+      `SELECT item_id, embedding
+       FROM item_embedding
+       WHERE item_id = ANY($1)
+         AND tenant_id = $2`,
+      [candidates.rows.map((c) => c.item_id), accountId],
+    );
+    for (const row of embeddingResult.rows) {
+      candidateEmbeddings.set(row.item_id, row.embedding);
+    }
+  }
+
   // Group candidates by cluster
-  const clusterCandidates = new Map<string, CandidateRow[]>();
+  const clusterCandidates = new Map<string, ClusterCandidate[]>();
   for (const c of candidates.rows) {
     const arr = clusterCandidates.get(c.cluster_id) || [];
-    arr.push(c);
+    arr.push({
+      title: c.title,
+      publishedAt: c.published_at,
+      embedding: candidateEmbeddings.get(c.item_id) ?? null,
+    });
     clusterCandidates.set(c.cluster_id, arr);
   }
 
@@ -108,48 +226,30 @@ export async function assignClusters(
   const addToCluster: { clusterId: string; itemId: string }[] = [];
   const newClusters: { item: UpsertedItem; folderId: string; topicId: string | null }[] = [];
   const repCandidates: { clusterId: string; item: UpsertedItem }[] = [];
+  // Loaded on the first item that starts a new cluster.
+  let folderClassifier: FolderClassifier | null = null;
 
   for (const item of unclustered) {
-    const itemTokens = tokenize(`${item.title} ${item.summary || ""}`);
-    const itemHash = simhash(`${item.title} ${item.summary || ""}`);
-
-    let bestClusterId: string | null = null;
-    let bestScore = 0;
-
-    // Per-item time window filtering
-    const itemWindowStart = item.publishedAt.getTime() - TIME_WINDOW_HOURS * 60 * 60 * 1000;
-    const itemWindowEnd = item.publishedAt.getTime() + TIME_WINDOW_HOURS * 60 * 60 * 1000;
-
-    for (const [clusterId, members] of clusterCandidates) {
-      // Use the first (most recent) member as representative sample
-      const rep = members[0];
-      if (!rep) continue;
-
-      // Check per-item time window
-      const repTime = new Date(rep.published_at).getTime();
-      if (repTime < itemWindowStart || repTime > itemWindowEnd) continue;
-
-      const repText = rep.title;
-      const repHash = simhash(repText);
-      const hamDist = hammingDistance(itemHash, repHash);
-
-      // Quick pre-filter by simhash distance
-      if (hamDist > SIMHASH_MAX_DISTANCE) continue;
-
-      const repTokens = tokenize(repText);
-      const jaccard = jaccardSimilarity(itemTokens, repTokens);
-
-      if (jaccard >= JACCARD_MIN_SIMILARITY && jaccard > bestScore) {
-        bestScore = jaccard;
-        bestClusterId = clusterId;
-      }
-    }
+    const match = findBestCluster(
+      {
+        title: item.title,
+        summary: item.summary,
+        publishedAt: item.publishedAt,
+        embedding: embeddings.get(item.id) ?? null,
+      },
+      clusterCandidates,
+    );
+    const bestClusterId = match?.clusterId ?? null;
 
     if (bestClusterId) {
       addToCluster.push({ clusterId: bestClusterId, itemId: item.id });
       repCandidates.push({ clusterId: bestClusterId, item });
     } else {
-      const classifiedFolderId = classifyItem({ title: item.title, summary: item.summary });
+      folderClassifier ??= await loadFolderClassifier(pool, accountId);
+      const classifiedFolderId = classifyItem(
+        { title: item.title, summary: item.summary },
+        folderClassifier,
+      );
       const topicId = feedTopicMap.get(item.feedId) ?? null;
       newClusters.push({ item, folderId: classifiedFolderId, topicId });
     }
@@ -194,6 +294,7 @@ export async function assignClusters(
   }
 
   // Create new clusters for unmatched items
+  const createdClusterIds: string[] = [];
   if (newClusters.length > 0) {
     const clusterValues: unknown[] = [];
     const clusterPlaceholders: string[] = [];
@@ -211,6 +312,7 @@ export async function assignClusters(
        RETURNING id, rep_item_id`,
       clusterValues,
     );
+    createdClusterIds.push(...newClusterResult.rows.map((row) => row.id));
 
     // Batch insert cluster_member rows for new clusters
     if (newClusterResult.rows.length > 0) {
@@ -269,4 +371,6 @@ export async function assignClusters(
       }
     }
   }
+
+  return createdClusterIds;
 }
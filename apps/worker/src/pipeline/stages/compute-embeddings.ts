@@ -0,0 +1,127 @@
+import type { AiMode, AiProviderAdapter } from "@rss-wrangler/contracts";
+import type { Pool } from "pg";
+import { isBudgetExceeded, logAiUsage } from "../../services/ai-usage";
+import type { UpsertedItem } from "./parse-and-upsert";
+
+const EMBEDDING_BATCH_SIZE = 16;
+// Enough of the article to capture the story without paying for the whole text.
+const EMBEDDING_TEXT_MAX_CHARS = 4000;
+
+interface EmbeddingSettings {
+  aiMode: AiMode;
+  semanticClusteringEnabled: boolean;
+}
+
+async function getSettings(pool: Pool, accountId: string): Promise<EmbeddingSettings> {
+  const result = await pool.query<{ data: unknown }>(
+    `SELECT data FROM app_settings WHERE tenant_id = $1 AND key = 'main' LIMIT 1`,
+    [accountId],
+  );
+  const data = result.rows[0]?.data;
+  if (!data || typeof data !== "object") {
+    return { aiMode: "off", semanticClusteringEnabled: false };
+  }
+  const record = data as Record<string, unknown>;
+  return {
+    aiMode: (record.aiMode as AiMode) ?? "off",
+    semanticClusteringEnabled: record.semanticClusteringEnabled === true,
+  };
+}
+
+/** Title plus extracted full text (or the feed summary when extraction failed). */
+export function buildEmbeddingText(
+  title: string,
+  extractedText: string | null,
+  summary: string | null,
+): string {
+  const body = (extractedText ?? summary ?? "").replace(/\s+/g, " ").trim();
+  return `${title.trim()}\n\n${body}`.slice(0, EMBEDDING_TEXT_MAX_CHARS).trim();
+}
+
+/**
+ * Embeds new items for semantic clustering and stores the vectors in
+ * `item_embedding`. Returns the vectors keyed by item id; the map is empty
+ * when semantic clustering is off, no embedding provider is configured, or
+ * the AI budget is spent, in which case clustering stays lexical.
+ */
+export async function computeEmbeddings(
+  pool: Pool,
+  accountId: string,
+  items: UpsertedItem[],
+  provider: AiProviderAdapter | null,
+): Promise<Map<string, number[]>> {
+  const vectors = new Map<string, number[]>();
+  const newItems = items.filter((i) => i.isNew);
+  if (newItems.length === 0 || !provider?.embed) return vectors;
+
+  const settings = await getSettings(pool, accountId);
+  if (settings.aiMode === "off" || !settings.semanticClusteringEnabled) return vectors;
+
+  if (await isBudgetExceeded(pool, accountId)) {
+    console.info("[embeddings] AI budget exceeded, using lexical clustering", { accountId });
+    return vectors;
+  }
+
+  const extracted = await pool.query<{ id: string; extracted_text: string | null }>(
+    `SELECT id, extracted_text
+     FROM item
+     WHERE id = ANY($1)
+       AND tenant_id = $2`,
+    [newItems.map((i) => i.id), accountId],
+  );
+  const extractedById = new Map(extracted.rows.map((r) => [r.id, r.extracted_text]));
+
+  for (let i = 0; i < newItems.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = newItems.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const response = await provider.embed({
+      input: batch.map((item) =>
+        buildEmbeddingText(item.title, extractedById.get(item.id) ?? null, item.summary),
+      ),
+    });
+
+    if (response.vectors.length !== batch.length) {
+      console.warn("[embeddings] embedding request failed", {
+        provider: response.provider,
+        error: response.error ?? "vector count mismatch",
+      });
+      continue;
+    }
+
+    await logAiUsage(
+      pool,
+      accountId,
+      {
+        text: "",
+        inputTokens: response.inputTokens,
+        outputTokens: 0,
+        model: response.model,
+        provider: response.provider,
+        durationMs: response.durationMs,
+      },
+      "embedding",
+    );
+
+    for (let j = 0; j < batch.length; j++) {
+      const item = batch[j]!;
+      const vector = response.vectors[j]!;
+      if (vector.length === 0) continue;
+      vectors.set(item.id, vector);
+      await pool.query(
+        `INSERT INTO item_embedding (item_id, tenant_id, provider, model, embedding)
+         VALUES ($1, $2, $3, $4, $5::real[])
+         ON CONFLICT (item_id) DO UPDATE
+           SET provider = EXCLUDED.provider,
+               model = EXCLUDED.model,
+               embedding = EXCLUDED.embedding,
+               created_at = NOW()`,
+        [item.id, accountId, response.provider, response.model, vector],
+      );
+    }
+  }
+
+  console.info("[embeddings] embedded items", {
+    requested: newItems.length,
+    embedded: vectors.size,
+  });
+  return vectors;
+}
@@ -1,13 +1,25 @@
 import { Readability } from "@mozilla/readability";
+import {
+  type AnnotationAnchor,
+  BUNDLED_EXTRACTION_RULES,
+  type ExtractionMethod,
+  type ExtractionRule,
+  matchExtractionRule,
+  resolveTextAnchor,
+} from "@rss-wrangler/contracts";
 import { JSDOM } from "jsdom";
 import type { Pool } from "pg";
 import { validateFeedUrl } from "./poll-feed";
+import { sanitizeArticleHtml } from "./sanitize-article-html";
 
 const EXTRACTION_TIMEOUT_MS = 20_000;
+const EXTRACTION_MAX_REDIRECTS = 5;
 const EXTRACTION_CONCURRENCY = 3;
 const MAX_HTML_BYTES = 2_000_000;
 const MIN_EXTRACTED_TEXT_CHARS = 200;
 const MAX_EXTRACTED_TEXT_CHARS = 200_000;
+// Articles whose markup is larger than this keep only their plain text.
+const MAX_EXTRACTED_HTML_CHARS = 1_000_000;
 const EXTRACTION_FAILURE_COOLDOWN_MS = 6 * 60 * 60 * 1000;
 const BACKFILL_FETCH_MULTIPLIER = 6;
 const BACKFILL_MAX_BATCH_SIZE = 250;
@@ -18,12 +30,33 @@ const urlFailureCooldownUntil = new Map<string, number>();
 export interface ExtractableItem {
   id: string;
   url: string;
+  /** The feed entry's content, kept as the article when a rule says to. */
+  summary?: string | null;
 }
 
 export interface ExtractionStats {
   attempted: number;
   extracted: number;
   persisted: number;
+  reanchored: number;
+}
+
+/** An extracted article: plain text for search and AI, sanitized HTML for the reader. */
+export interface ExtractedArticle {
+  text: string;
+  html: string | null;
+}
+
+/** What one extraction did, for previews as well as for storing the article. */
+export interface ArticleExtraction {
+  article: ExtractedArticle | null;
+  method: ExtractionMethod;
+  pages: number;
+  title: string | null;
+  /** Selectors in the rule that matched nothing (or could not be parsed). */
+  warnings: string[];
+  /** Why there is no article, when there is none. */
+  failure: string | null;
 }
 
 export interface BackfillExtractionStats extends ExtractionStats {
@@ -35,25 +68,33 @@ export async function extractAndPersistFullText(
   accountId: string,
   items: ExtractableItem[],
 ): Promise<ExtractionStats> {
-  const candidates = items.filter(
-    (item) => item.url.trim().length > 0 && !isUrlInFailureCooldown(item.url),
-  );
+  const withUrls = items.filter((item) => item.url.trim().length > 0);
+  if (withUrls.length === 0) {
+    return { attempted: 0, extracted: 0, persisted: 0, reanchored: 0 };
+  }
+
+  const rules = await loadExtractionRules(pool, accountId);
+  const candidates = withUrls.flatMap((item) => {
+    const rule = matchExtractionRule(rules, item.url);
+    // Editing a site's rule retries its recently failed URLs right away.
+    return isUrlInFailureCooldown(item.url, rule?.updatedAt ?? null) ? [] : [{ item, rule }];
+  });
   if (candidates.length === 0) {
-    return { attempted: 0, extracted: 0, persisted: 0 };
+    return { attempted: 0, extracted: 0, persisted: 0, reanchored: 0 };
   }
 
   let attempted = 0;
-  const extracted: Array<{ itemId: string; text: string }> = [];
+  const extracted: Array<{ itemId: string } & ExtractedArticle> = [];
 
-  await mapWithConcurrency(candidates, EXTRACTION_CONCURRENCY, async (item) => {
+  await mapWithConcurrency(candidates, EXTRACTION_CONCURRENCY, async ({ item, rule }) => {
     attempted += 1;
     try {
-      const text = await extractArticleText(item.url);
-      if (!text) {
+      const { article } = await extractArticle(item.url, rule, item.summary ?? null);
+      if (!article) {
         rememberExtractionFailure(item.url);
         return;
       }
-      extracted.push({ itemId: item.id, text });
+      extracted.push({ itemId: item.id, ...article });
       clearExtractionFailure(item.url);
     } catch (error) {
       rememberExtractionFailure(item.url);
@@ -66,26 +107,75 @@ export async function extractAndPersistFullText(
   });
 
   let persisted = 0;
+  let reanchored = 0;
   for (const row of extracted) {
     const result = await pool.query(
       `UPDATE item
        SET extracted_text = $1,
+           extracted_html = $4,
            extracted_at = NOW()
        WHERE tenant_id = $2
          AND id = $3
-         AND (extracted_text IS DISTINCT FROM $1 OR extracted_at IS NULL)`,
-      [row.text, accountId, row.itemId],
+         AND (
+           extracted_text IS DISTINCT FROM $1
+           OR extracted_html IS DISTINCT FROM $4
+           OR extracted_at IS NULL
+         )`,
+      [row.text, accountId, row.itemId, row.html],
     );
-    persisted += result.rowCount ?? 0;
+    const changed = result.rowCount ?? 0;
+    persisted += changed;
+    if (changed > 0) {
+      reanchored += await reanchorAnnotations(pool, accountId, row.itemId, row.text);
+    }
   }
 
   return {
     attempted,
     extracted: extracted.length,
     persisted,
+    reanchored,
   };
 }
 
+/**
+ * Re-resolves the anchors of annotations made on an item after its text was
+ * re-extracted, so highlights stay on the same words when the article text
+ * shifts. Anchors whose quote is gone keep the quote with a null position.
+ */
+export async function reanchorAnnotations(
+  pool: Pool,
+  accountId: string,
+  itemId: string,
+  text: string,
+): Promise<number> {
+  const { rows } = await pool.query<{ id: string; anchor: AnnotationAnchor }>(
+    `SELECT id, anchor
+     FROM annotation
+     WHERE tenant_id = $1
+       AND anchor_item_id = $2
+       AND anchor IS NOT NULL`,
+    [accountId, itemId],
+  );
+
+  let updated = 0;
+  for (const row of rows) {
+    const position = resolveTextAnchor(text, row.anchor);
+    const previous = row.anchor.position;
+    if (position?.start === previous?.start && position?.end === previous?.end) {
+      continue;
+    }
+    await pool.query(
+      `UPDATE annotation
+       SET anchor = jsonb_set(anchor, '{position}', $3::jsonb)
+       WHERE id = $1 AND tenant_id = $2`,
+      [row.id, accountId, JSON.stringify(position)],
+    );
+    updated += 1;
+  }
+  return updated;
+}
+
 export async function backfillMissingFullText(
   pool: Pool,
   accountId: string,
@@ -93,11 +183,12 @@ export async function backfillMissingFullText(
 ): Promise<BackfillExtractionStats> {
   const cappedLimit = Math.max(1, Math.min(limit, BACKFILL_MAX_BATCH_SIZE));
   const fetchLimit = Math.max(cappedLimit, cappedLimit * BACKFILL_FETCH_MULTIPLIER);
-  const result = await pool.query<{ id: string; url: string }>(
-    `SELECT id, url
+  const result = await pool.query<{ id: string; url: string; summary: string | null }>(
+    `SELECT id, url, summary
      FROM item
      WHERE tenant_id = $1
-       AND extracted_text IS NULL
+       -- Items extracted before the reader kept HTML are fetched again.
+       AND (extracted_text IS NULL OR extracted_html IS NULL)
        AND COALESCE(NULLIF(BTRIM(url), ''), '') <> ''
      ORDER BY published_at DESC NULLS LAST, created_at DESC
      LIMIT $2`,
@@ -105,7 +196,7 @@ export async function backfillMissingFullText(
   );
 
   if (result.rows.length === 0) {
-    return { candidates: 0, attempted: 0, extracted: 0, persisted: 0 };
+    return { candidates: 0, attempted: 0, extracted: 0, persisted: 0, reanchored: 0 };
   }
 
   const deduped: ExtractableItem[] = [];
@@ -117,7 +208,7 @@ export async function backfillMissingFullText(
       continue;
     }
     seenUrls.add(normalizedUrl);
-    deduped.push({ id: row.id, url: row.url });
+    deduped.push({ id: row.id, url: row.url, summary: row.summary });
     if (deduped.length >= cappedLimit) {
       break;
     }
@@ -130,42 +221,274 @@ export async function backfillMissingFullText(
   };
 }
 
-async function extractArticleText(url: string): Promise<string | null> {
-  validateFeedUrl(url);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      "User-Agent": "RSSWrangler/1.0",
-      Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
-    },
-    redirect: "follow",
-    signal: AbortSignal.timeout(EXTRACTION_TIMEOUT_MS),
-  });
+/** The workspace's enabled rules followed by the bundled ones, for `matchExtractionRule`. */
+export async function loadExtractionRules(
+  pool: Pool,
+  accountId: string,
+): Promise<ExtractionRule[]> {
+  const { rows } = await pool.query<{
+    id: string;
+    domain: string;
+    body_selectors: string[];
+    strip_selectors: string[];
+    next_page_selector: string | null;
+    max_pages: number;
+    headers: Record<string, string> | null;
+    cookie: string | null;
+    use_feed_content: boolean;
+    updated_at: Date;
+  }>(
+    `SELECT id, domain, body_selectors, strip_selectors, next_page_selector, max_pages,
+            headers, cookie, use_feed_content, updated_at
+     FROM extraction_rule
+     WHERE tenant_id = $1
+       AND enabled = TRUE`,
+    [accountId],
+  );
+
+  const workspace = rows.map(
+    (row): ExtractionRule => ({
+      id: row.id,
+      domain: row.domain,
+      bodySelectors: row.body_selectors ?? [],
+      stripSelectors: row.strip_selectors ?? [],
+      nextPageSelector: row.next_page_selector,
+      maxPages: row.max_pages,
+      headers: row.headers ?? {},
+      cookie: row.cookie,
+      useFeedContent: row.use_feed_content,
+      enabled: true,
+      source: "workspace",
+      updatedAt: row.updated_at.toISOString(),
+    }),
+  );
+  return [...workspace, ...BUNDLED_EXTRACTION_RULES];
+}
+
+/**
+ * Extracts the article at `url` under `rule`: the feed's own content when the
+ * rule says so, otherwise the page (and any next pages) fetched with the
+ * rule's headers, with its strip selectors removed and its body selectors
+ * tried before Readability.
+ */
+export async function extractArticle(
+  url: string,
+  rule: ExtractionRule | null,
+  feedContent: string | null,
+): Promise<ArticleExtraction> {
+  if (rule?.useFeedContent) {
+    const article = feedContent ? articleFromFeedContent(feedContent, url) : null;
+    return {
+      article,
+      method: "feed_content",
+      pages: 0,
+      title: null,
+      warnings: [],
+      failure: article ? null : "the feed entry has no content to keep",
+    };
+  }
+
+  const visited = new Set<string>();
+  const contents: string[] = [];
+  const warnings: string[] = [];
+  let method: ExtractionMethod = "readability";
+  let title: string | null = null;
+  let pageUrl: string | null = url;
+  let failure: string | null = null;
+
+  while (pageUrl && contents.length < (rule?.nextPageSelector ? rule.maxPages : 1)) {
+    visited.add(normalizeUrlForCooldown(pageUrl));
+    const page = await fetchArticleDocument(pageUrl, rule);
+    if (typeof page === "string") {
+      // A missing later page still leaves the pages before it.
+      failure = contents.length === 0 ? page : null;
+      break;
+    }
+
+    title ??= page.title.trim() || null;
+    const nextUrl: string | null = rule?.nextPageSelector
+      ? nextPageUrl(page, rule.nextPageSelector, pageUrl, warnings)
+      : null;
+    const extracted = rule ? applyExtractionRule(page, rule) : null;
+    warnings.push(...(extracted?.warnings ?? []));
+
+    if (extracted?.content) {
+      method = "rule";
+      contents.push(extracted.content);
+    } else {
+      const parsed = new Readability(page).parse();
+      if (!parsed?.content) {
+        failure = contents.length === 0 ? "no article content found on the page" : null;
+        break;
+      }
+      if (contents.length === 0) title = parsed.title?.trim() || title;
+      contents.push(parsed.content);
+    }
+
+    pageUrl = nextUrl && !visited.has(normalizeUrlForCooldown(nextUrl)) ? nextUrl : null;
+  }
+
+  const article =
+    contents.length > 0
+      ? articleFromMarkup(contents.map((content) => `<div>${content}</div>`).join(""), url)
+      : null;
+  if (!article && !failure) {
+    failure = `the article is shorter than ${MIN_EXTRACTED_TEXT_CHARS} characters`;
+  }
+  return {
+    article,
+    method,
+    pages: contents.length,
+    title,
+    warnings: [...new Set(warnings)],
+    failure,
+  };
+}
+
+/**
+ * The parsed page, or why it could not be used. Redirects are followed by hand
+ * so every hop is checked against private and loopback addresses.
+ */
+async function fetchArticleDocument(
+  url: string,
+  rule: ExtractionRule | null,
+): Promise<Document | string> {
+  const origin = new URL(url).origin;
+  let current = url;
+  let response: Response | null = null;
+  for (let hop = 0; hop <= EXTRACTION_MAX_REDIRECTS; hop++) {
+    validateFeedUrl(current);
+
+    const sameOrigin = new URL(current).origin === origin;
+    response = await fetch(current, {
+      method: "GET",
+      headers: {
+        "User-Agent": "RSSWrangler/1.0",
+        Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+        ...rule?.headers,
+        // The rule's cookie belongs to its site, not to wherever it redirects.
+        ...(rule?.cookie && sameOrigin ? { Cookie: rule.cookie } : {}),
+      },
+      redirect: "manual",
+      signal: AbortSignal.timeout(EXTRACTION_TIMEOUT_MS),
+    });
+
+    if (response.status < 300 || response.status >= 400) break;
+    const location = response.headers.get("location");
+    if (!location) {
+      return `the site redirected without a location (HTTP ${response.status})`;
+    }
+    current = new URL(location, current).toString();
+    response = null;
+  }
+  if (!response) {
+    return "the site redirected too many times";
+  }
 
   if (!response.ok) {
-    return null;
+    return `the site responded with HTTP ${response.status}`;
   }
 
   const contentType = response.headers.get("content-type");
   if (!isLikelyHtml(contentType)) {
-    return null;
+    return `the page is not HTML (${contentType})`;
   }
 
   const html = await readBodyWithLimit(response, MAX_HTML_BYTES);
   if (!html) {
+    return "the page is empty or too large";
+  }
+
+  return new JSDOM(html, { url: current }).window.document;
+}
+
+/**
+ * Removes the rule's strip selectors from `document` and returns the markup of
+ * the first body selector that matches anything. Selectors that match nothing
+ * or do not parse come back as warnings.
+ */
+export function applyExtractionRule(
+  document: Document,
+  rule: Pick<ExtractionRule, "bodySelectors" | "stripSelectors">,
+): { content: string | null; warnings: string[] } {
+  const warnings: string[] = [];
+
+  for (const selector of rule.stripSelectors) {
+    const elements = selectAll(document, selector, warnings);
+    if (elements?.length === 0) warnings.push(`strip selector "${selector}" matched nothing`);
+    for (const element of elements ?? []) element.remove();
+  }
+
+  for (const selector of rule.bodySelectors) {
+    const elements = selectAll(document, selector, warnings);
+    if (!elements) continue;
+    // Keep only outermost matches so nested ones are not repeated.
+    const outermost = elements.filter(
+      (element) => !elements.some((other) => other !== element && other.contains(element)),
+    );
+    if (outermost.length > 0) {
+      return { content: outermost.map((element) => element.innerHTML).join("\n"), warnings };
+    }
+    warnings.push(`body selector "${selector}" matched nothing`);
+  }
+
+  return { content: null, warnings };
+}
+
+function selectAll(document: Document, selector: string, warnings: string[]): Element[] | null {
+  try {
+    return Array.from(document.querySelectorAll(selector));
+  } catch {
+    warnings.push(`selector "${selector}" is not valid CSS`);
+    return null;
+  }
+}
+
+function nextPageUrl(
+  document: Document,
+  selector: string,
+  pageUrl: string,
+  warnings: string[],
+): string | null {
+  const link = selectAll(document, selector, warnings)?.[0] ?? null;
+  const href = link?.getAttribute("href")?.trim();
+  if (!href) return null;
+  try {
+    const next = new URL(href, pageUrl);
+    return next.protocol === "http:" || next.protocol === "https:" ? next.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The feed entry's content as the article, with no minimum length. */
+export function articleFromFeedContent(content: string, url: string): ExtractedArticle | null {
+  const sanitized = sanitizeArticleHtml(content, url);
+  if (!sanitized.text) {
     return null;
   }
 
-  const document = new JSDOM(html, { url }).window.document;
-  const parsed = new Readability(document).parse();
-  const text = normalizeText(parsed?.textContent ?? "");
+  return {
+    text: sanitized.text.slice(0, MAX_EXTRACTED_TEXT_CHARS),
+    html: sanitized.html.length <= MAX_EXTRACTED_HTML_CHARS ? sanitized.html : null,
+  };
+}
 
-  if (text.length < MIN_EXTRACTED_TEXT_CHARS) {
+/**
+ * Sanitizes extracted article markup (Readability's or a rule's body) and
+ * derives the plain text from it, so text offsets in the stored text line up
+ * with the text the reader renders.
+ */
+export function articleFromMarkup(content: string, url: string): ExtractedArticle | null {
+  const sanitized = sanitizeArticleHtml(content, url);
+  if (sanitized.text.length < MIN_EXTRACTED_TEXT_CHARS) {
     return null;
   }
 
-  return text.slice(0, MAX_EXTRACTED_TEXT_CHARS);
+  return {
+    text: sanitized.text.slice(0, MAX_EXTRACTED_TEXT_CHARS),
+    html: sanitized.html.length <= MAX_EXTRACTED_HTML_CHARS ? sanitized.html : null,
+  };
 }
 
 function isLikelyHtml(contentType: string | null): boolean {
@@ -214,11 +537,7 @@ async function readBodyWithLimit(response: Response, maxBytes: number): Promise<
   return new TextDecoder("utf-8").decode(buffer);
 }
 
-function normalizeText(text: string): string {
-  return text.replace(/\s+/g, " ").trim();
-}
-
-function isUrlInFailureCooldown(url: string): boolean {
+function isUrlInFailureCooldown(url: string, ruleUpdatedAt: string | null): boolean {
   const key = normalizeUrlForCooldown(url);
   const cooldownUntil = urlFailureCooldownUntil.get(key);
   if (!cooldownUntil) {
@@ -228,6 +547,11 @@ function isUrlInFailureCooldown(url: string): boolean {
     urlFailureCooldownUntil.delete(key);
     return false;
   }
+  const failedAt = cooldownUntil - EXTRACTION_FAILURE_COOLDOWN_MS;
+  if (ruleUpdatedAt && Date.parse(ruleUpdatedAt) > failedAt) {
+    urlFailureCooldownUntil.delete(key);
+    return false;
+  }
   return true;
 }
 
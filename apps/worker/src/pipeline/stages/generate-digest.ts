@@ -1,11 +1,20 @@
-import type { AiProviderAdapter } from "@rss-wrangler/contracts";
+import {
+  type AiProviderAdapter,
+  assignDigestSections,
+  type DigestCandidate,
+  type DigestSectionHeading,
+  type DigestSectionRule,
+} from "@rss-wrangler/contracts";
 import type { Pool } from "pg";
 import { isBudgetExceeded, logAiUsage } from "../../services/ai-usage";
+import { layerMemberSetting, loadMemberSettingLayers } from "../../services/member-settings";
+import { enqueueWebhookEvent } from "../../services/webhook-service";
 
-interface DigestEntry {
+export interface DigestEntry {
   clusterId: string;
   headline: string;
-  section: "top_picks" | "big_stories" | "quick_scan";
+  /** Id of one of the digest's sections. */
+  section: string;
   oneLiner: string | null;
   sourceName: string;
 }
@@ -14,17 +23,20 @@ interface DigestClusterRow {
   cluster_id: string;
   title: string;
   summary: string | null;
+  ai_summary: string | null;
   hero_image_url: string | null;
   size: number;
+  feed_id: string;
   feed_weight: string;
+  folder_id: string;
   folder_name: string;
+  topic_id: string | null;
   feed_title: string;
   published_at: Date;
 }
 
-const TOP_PICKS_COUNT = 5;
-const BIG_STORIES_COUNT = 5;
-const QUICK_SCAN_COUNT = 10;
+/** Ranked unread stories considered for sections; rules pick from these. */
+const CANDIDATE_LIMIT = 200;
 const DIGEST_WINDOW_HOURS = 24;
 const BACKLOG_THRESHOLD = 50;
 const AWAY_HOURS_THRESHOLD = 24;
@@ -36,21 +48,28 @@ const AWAY_HOURS_THRESHOLD = 24;
  * This is a lightweight check; the actual scheduling is handled by the
  * pg-boss cron job. When called from the pipeline, it only generates
  * if no digest exists covering the current window.
+ *
+ * Read state is per member, so triggers are checked and digests written
+ * for each active member of the workspace separately.
  */
 export async function maybeGenerateDigest(
   pool: Pool,
   accountId: string,
   aiProvider?: AiProviderAdapter | null,
 ): Promise<void> {
-  const shouldGenerate = await checkDigestTriggers(pool, accountId);
-  if (!shouldGenerate) return;
+  for (const userId of await listDigestMembers(pool, accountId)) {
+    const shouldGenerate = await checkDigestTriggers(pool, accountId, userId);
+    if (!shouldGenerate) continue;
 
-  await generateDigest(pool, accountId, aiProvider);
+    await generateMemberDigest(pool, accountId, userId, aiProvider);
+  }
 }
 
 /**
- * Generate a digest unconditionally. Used by the scheduled job and the
- * manual "generate now" API endpoint.
+ * Generate a digest unconditionally. Used by the manual "generate now" API
+ * endpoint, which passes the requesting member so only their digest is
+ * built; otherwise every active member gets one. Scheduled delivery goes
+ * through `deliverScheduledDigests`, which honours each member's cadence.
  *
  * When an AI provider is supplied, the digest body is generated as a
  * narrative summary via the LLM. Otherwise it falls back to the
@@ -60,23 +79,62 @@ export async function generateDigest(
   pool: Pool,
   accountId: string,
   aiProvider?: AiProviderAdapter | null,
+  userId?: string,
 ): Promise<void> {
+  const userIds = userId ? [userId] : await listDigestMembers(pool, accountId);
+  for (const memberId of userIds) {
+    await generateMemberDigest(pool, accountId, memberId, aiProvider);
+  }
+}
+
+async function listDigestMembers(pool: Pool, accountId: string): Promise<string[]> {
+  const { rows } = await pool.query<{ id: string }>(
+    `SELECT id
+     FROM user_account
+     WHERE tenant_id = $1
+       AND status = 'active'
+     ORDER BY created_at`,
+    [accountId],
+  );
+  return rows.map((row) => row.id);
+}
+
+export interface GeneratedDigest {
+  id: string;
+  title: string;
+  sections: DigestSectionHeading[];
+  entries: DigestEntry[];
+}
+
+/**
+ * Builds one member's digest from their unread stories in the last
+ * `windowHours`. Returns null when nothing was written, either because a
+ * digest already covers the window or there is nothing unread.
+ */
+export async function generateMemberDigest(
+  pool: Pool,
+  accountId: string,
+  userId: string,
+  aiProvider?: AiProviderAdapter | null,
+  windowHours = DIGEST_WINDOW_HOURS,
+): Promise<GeneratedDigest | null> {
   const windowEnd = new Date();
-  const windowStart = new Date(windowEnd.getTime() - DIGEST_WINDOW_HOURS * 60 * 60 * 1000);
+  const windowStart = new Date(windowEnd.getTime() - windowHours * 60 * 60 * 1000);
 
   // Check if a digest already exists for this window (avoid duplicates)
   const existing = await pool.query(
     `SELECT id
      FROM digest
      WHERE tenant_id = $1
+       AND user_id = $4
        AND start_ts >= $2
        AND end_ts <= $3
      LIMIT 1`,
-    [accountId, windowStart.toISOString(), windowEnd.toISOString()],
+    [accountId, windowStart.toISOString(), windowEnd.toISOString(), userId],
   );
   if (existing.rows.length > 0) {
     console.info("[digest] digest already exists for this window, skipping");
-    return;
+    return null;
   }
 
   // Fetch unread clusters from the window, ranked by size and source weight
@@ -85,56 +143,55 @@ export async function generateDigest(
        c.id AS cluster_id,
        i.title,
        i.summary,
+       c.ai_summary,
        i.hero_image_url,
        c.size,
+       f.id AS feed_id,
        f.weight AS feed_weight,
+       c.folder_id,
        fo.name AS folder_name,
+       c.topic_id,
        f.title AS feed_title,
        i.published_at
      FROM cluster c
      JOIN item i ON i.id = c.rep_item_id
      JOIN feed f ON f.id = i.feed_id
      JOIN folder fo ON fo.id = c.folder_id
-     LEFT JOIN read_state rs ON rs.cluster_id = c.id AND rs.tenant_id = c.tenant_id
+     LEFT JOIN read_state rs
+       ON rs.cluster_id = c.id
+      AND rs.tenant_id = c.tenant_id
+      AND rs.user_id = $4
      WHERE c.updated_at >= $1
        AND c.tenant_id = $2
        AND rs.read_at IS NULL
+       AND rs.not_interested_at IS NULL
      ORDER BY
        CASE f.weight WHEN 'prefer' THEN 3 WHEN 'neutral' THEN 2 ELSE 1 END DESC,
        c.size DESC,
        i.published_at DESC
      LIMIT $3`,
-    [windowStart.toISOString(), accountId, TOP_PICKS_COUNT + BIG_STORIES_COUNT + QUICK_SCAN_COUNT],
+    [windowStart.toISOString(), accountId, CANDIDATE_LIMIT, userId],
   );
 
   if (clusters.rows.length === 0) {
     console.info("[digest] no unread clusters in window, skipping digest");
-    return;
+    return null;
   }
 
-  // Partition into sections
-  const entries: DigestEntry[] = [];
-  const rows = clusters.rows;
-
-  for (let idx = 0; idx < rows.length; idx++) {
-    const row = rows[idx]!;
-    let section: DigestEntry["section"];
-
-    if (idx < TOP_PICKS_COUNT) {
-      section = "top_picks";
-    } else if (idx < TOP_PICKS_COUNT + BIG_STORIES_COUNT) {
-      section = "big_stories";
-    } else {
-      section = "quick_scan";
-    }
-
-    entries.push({
-      clusterId: row.cluster_id,
-      headline: row.title,
-      section,
-      oneLiner: row.summary ? truncate(row.summary, 120) : null,
-      sourceName: row.feed_title,
-    });
+  const layers = await loadMemberSettingLayers(pool, accountId, userId);
+  const rules = layerMemberSetting(layers, "digestSections") ?? [];
+  const candidates = clusters.rows.map(toDigestCandidate);
+  const savedSearchMatches = await matchSavedSearches(
+    pool,
+    accountId,
+    candidates,
+    rules,
+    layerMemberSetting(layers, "savedSearches") ?? [],
+  );
+  const { sections, entries } = assignDigestSections(candidates, rules, savedSearchMatches);
+  if (entries.length === 0) {
+    console.info("[digest] no unread clusters match the digest sections, skipping digest");
+    return null;
   }
 
   const title = `Digest for ${windowStart.toLocaleDateString()} - ${windowEnd.toLocaleDateString()}`;
@@ -156,18 +213,20 @@ export async function generateDigest(
     }
 
     if (skipAi) {
-      body = buildDigestBody(entries);
+      body = buildDigestBody(sections, entries);
     } else {
-      const narrative = await generateNarrativeBody(pool, accountId, aiProvider, entries);
-      body = narrative ?? buildDigestBody(entries);
+      const narrative = await generateNarrativeBody(pool, accountId, aiProvider, sections, entries);
+      body = narrative ?? buildDigestBody(sections, entries);
     }
   } else {
-    body = buildDigestBody(entries);
+    body = buildDigestBody(sections, entries);
   }
 
-  await pool.query(
-    `INSERT INTO digest (tenant_id, start_ts, end_ts, title, body, entries_json)
-     VALUES ($1, $2, $3, $4, $5, $6)`,
+  // Built-in sections are stored as NULL so older readers keep their labels.
+  const inserted = await pool.query<{ id: string }>(
+    `INSERT INTO digest (tenant_id, start_ts, end_ts, title, body, entries_json, user_id, sections_json)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING id`,
     [
       accountId,
       windowStart.toISOString(),
@@ -175,45 +234,123 @@ export async function generateDigest(
       title,
       body,
       JSON.stringify(entries),
+      userId,
+      rules.length > 0 ? JSON.stringify(sections) : null,
     ],
   );
 
+  const digestId = inserted.rows[0]?.id;
+  if (digestId) {
+    try {
+      await enqueueWebhookEvent(pool, accountId, "digest.generated", {
+        digestId,
+        userId,
+        title,
+        startTs: windowStart.toISOString(),
+        endTs: windowEnd.toISOString(),
+        entryCount: entries.length,
+      });
+    } catch (err) {
+      console.error("[digest] webhook enqueue failed (non-fatal)", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
   console.info("[digest] generated", {
     entries: entries.length,
     aiNarrative: !!aiProvider,
     window: `${windowStart.toISOString()} - ${windowEnd.toISOString()}`,
   });
+
+  return digestId ? { id: digestId, title, sections, entries } : null;
+}
+
+function toDigestCandidate(row: DigestClusterRow): DigestCandidate {
+  return {
+    clusterId: row.cluster_id,
+    headline: row.title,
+    sourceName: row.feed_title,
+    folderId: row.folder_id,
+    topicId: row.topic_id ?? null,
+    feedId: row.feed_id,
+    feedWeight: row.feed_weight,
+    outletCount: Number(row.size),
+    publishedAt: new Date(row.published_at).toISOString(),
+    summary: row.summary,
+    aiSummary: row.ai_summary ?? null,
+  };
+}
+
+/**
+ * For each saved search a section refers to, the candidate clusters with an
+ * item matching its query (and its folder / feed filter, if any).
+ */
+async function matchSavedSearches(
+  pool: Pool,
+  accountId: string,
+  candidates: DigestCandidate[],
+  rules: DigestSectionRule[],
+  savedSearches: Array<{
+    id: string;
+    query: string;
+    folderId: string | null;
+    feedId: string | null;
+  }>,
+): Promise<Record<string, ReadonlySet<string>>> {
+  const matches: Record<string, ReadonlySet<string>> = {};
+  for (const rule of rules) {
+    const search = savedSearches.find((entry) => entry.id === rule.savedSearchId);
+    if (!search || matches[search.id]) continue;
+
+    const scoped = candidates.filter(
+      (candidate) =>
+        (!search.folderId || candidate.folderId === search.folderId) &&
+        (!search.feedId || candidate.feedId === search.feedId),
+    );
+    if (scoped.length === 0) {
+      matches[search.id] = new Set();
+      continue;
+    }
+    const { rows } = await pool.query<{ cluster_id: string }>(
+      `SELECT DISTINCT cm.cluster_id
+       FROM cluster_member cm
+       JOIN item i ON i.id = cm.item_id AND i.tenant_id = cm.tenant_id
+       WHERE cm.tenant_id = $1
+         AND cm.cluster_id = ANY($2::uuid[])
+         AND i.search_vector @@ websearch_to_tsquery('english', $3)`,
+      [accountId, scoped.map((candidate) => candidate.clusterId), search.query],
+    );
+    matches[search.id] = new Set(rows.map((row) => row.cluster_id));
+  }
+  return matches;
+}
+
+/** Entries grouped under their section titles, skipping empty sections. */
+function groupBySection(
+  sections: DigestSectionHeading[],
+  entries: DigestEntry[],
+): Array<{ title: string; entries: DigestEntry[] }> {
+  return sections
+    .map((section) => ({
+      title: section.title,
+      entries: entries.filter((entry) => entry.section === section.id),
+    }))
+    .filter((group) => group.entries.length > 0);
 }
 
 async function generateNarrativeBody(
   pool: Pool,
   accountId: string,
   provider: AiProviderAdapter,
+  sections: DigestSectionHeading[],
   entries: DigestEntry[],
 ): Promise<string | null> {
-  const sectionLabels: Record<DigestEntry["section"], string> = {
-    top_picks: "Top Picks",
-    big_stories: "Big Stories",
-    quick_scan: "Quick Scan",
-  };
-
-  const grouped: Record<string, DigestEntry[]> = {
-    top_picks: [],
-    big_stories: [],
-    quick_scan: [],
-  };
-
-  for (const entry of entries) {
-    grouped[entry.section]?.push(entry);
-  }
-
   // Build structured data for the LLM prompt
   const sectionLines: string[] = [];
-  for (const section of ["top_picks", "big_stories", "quick_scan"] as const) {
-    const items = grouped[section];
-    if (!items || items.length === 0) continue;
-    sectionLines.push(`## ${sectionLabels[section]}`);
-    for (const item of items) {
+  for (const group of groupBySection(sections, entries)) {
+    sectionLines.push(`## ${group.title}`);
+    for (const item of group.entries) {
       const summary = item.oneLiner ? ` — ${item.oneLiner}` : "";
       sectionLines.push(`- "${item.headline}" (${item.sourceName})${summary}`);
     }
@@ -230,7 +367,7 @@ async function generateNarrativeBody(
           content: [
             "You are a concise newsletter editor for an RSS reader.",
             "Given the grouped stories below, write a brief digest newsletter in markdown.",
-            "Keep the section headings (## Top Picks, ## Big Stories, ## Quick Scan).",
+            "Keep the section headings exactly as given.",
             "For each story, write a compelling one-liner (not just the headline).",
             "Open with a 1-sentence summary of the day's themes.",
             "Be factual and neutral. Do not invent details not present in the input.",
@@ -272,14 +409,21 @@ async function generateNarrativeBody(
   }
 }
 
-async function checkDigestTriggers(pool: Pool, accountId: string): Promise<boolean> {
+async function checkDigestTriggers(
+  pool: Pool,
+  accountId: string,
+  userId: string,
+): Promise<boolean> {
   // Trigger 1: unread backlog >= threshold
   const backlogResult = await pool.query<{ cnt: string }>(
     `SELECT COUNT(*)::text AS cnt FROM cluster c
-     LEFT JOIN read_state rs ON rs.cluster_id = c.id AND rs.tenant_id = c.tenant_id
+     LEFT JOIN read_state rs
+       ON rs.cluster_id = c.id
+      AND rs.tenant_id = c.tenant_id
+      AND rs.user_id = $2
      WHERE c.tenant_id = $1
        AND rs.read_at IS NULL`,
-    [accountId],
+    [accountId, userId],
   );
   const backlog = parseInt(backlogResult.rows[0]?.cnt || "0", 10);
   if (backlog >= BACKLOG_THRESHOLD) {
@@ -292,9 +436,10 @@ async function checkDigestTriggers(pool: Pool, accountId: string): Promise<boole
     `SELECT id
      FROM digest
      WHERE tenant_id = $1
+       AND user_id = $2
        AND created_at >= NOW() - INTERVAL '24 hours'
      LIMIT 1`,
-    [accountId],
+    [accountId, userId],
   );
   if (recentDigest.rows.length === 0 && backlog > 0) {
     console.info("[digest] time trigger (no digest in 24h)");
@@ -320,43 +465,12 @@ async function checkDigestTriggers(pool: Pool, accountId: string): Promise<boole
   return false;
 }
 
-function truncate(text: string, maxLen: number): string {
-  if (text.length <= maxLen) return text;
-  return `${text.slice(0, maxLen - 3)}...`;
-}
-
-function buildDigestBody(entries: DigestEntry[]): string {
-  const sections: Record<string, DigestEntry[]> = {
-    top_picks: [],
-    big_stories: [],
-    quick_scan: [],
-  };
-
-  for (const entry of entries) {
-    sections[entry.section]?.push(entry);
-  }
-
+function buildDigestBody(sections: DigestSectionHeading[], entries: DigestEntry[]): string {
   const lines: string[] = [];
 
-  if ((sections.top_picks?.length ?? 0) > 0) {
-    lines.push("## Top Picks");
-    for (const e of sections.top_picks!) {
-      lines.push(`- ${e.headline}`);
-    }
-    lines.push("");
-  }
-
-  if ((sections.big_stories?.length ?? 0) > 0) {
-    lines.push("## Big Stories");
-    for (const e of sections.big_stories!) {
-      lines.push(`- ${e.headline}`);
-    }
-    lines.push("");
-  }
-
-  if ((sections.quick_scan?.length ?? 0) > 0) {
-    lines.push("## Quick Scan");
-    for (const e of sections.quick_scan!) {
+  for (const group of groupBySection(sections, entries)) {
+    lines.push(`## ${group.title}`);
+    for (const e of group.entries) {
       const suffix = e.oneLiner ? ` — ${e.oneLiner}` : "";
       lines.push(`- ${e.headline}${suffix}`);
     }
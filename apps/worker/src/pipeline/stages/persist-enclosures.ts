@@ -0,0 +1,113 @@
+import type { Pool } from "pg";
+import { canonicalizeUrl } from "./canonicalize-url";
+import type { ParsedItem } from "./poll-feed";
+
+/**
+ * Stores enclosures for upserted items. Items are looked up again by the same
+ * keys the upsert deduplicates on (guid, else canonical URL + publish time),
+ * so batch RETURNING order does not matter. Enclosures no longer present in
+ * the feed are removed.
+ */
+export async function persistEnclosures(
+  pool: Pool,
+  accountId: string,
+  feedId: string,
+  items: ParsedItem[],
+): Promise<number> {
+  const withEnclosures = items.filter((item) => item.enclosures.length > 0);
+  if (withEnclosures.length === 0) return 0;
+
+  const itemIds = await resolveItemIds(pool, accountId, feedId, withEnclosures);
+  let persisted = 0;
+
+  for (const item of withEnclosures) {
+    const itemId = itemIds.get(itemKey(item));
+    if (!itemId) continue;
+
+    for (const [position, enclosure] of item.enclosures.entries()) {
+      await pool.query(
+        `INSERT INTO item_enclosure (
+           tenant_id, item_id, position, url, mime_type, length_bytes, duration_seconds,
+           episode_number, season_number, episode_type, chapters, chapters_url
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11::jsonb, $12)
+         ON CONFLICT (item_id, url) DO UPDATE SET
+           position = EXCLUDED.position,
+           mime_type = EXCLUDED.mime_type,
+           length_bytes = EXCLUDED.length_bytes,
+           duration_seconds = EXCLUDED.duration_seconds,
+           episode_number = EXCLUDED.episode_number,
+           season_number = EXCLUDED.season_number,
+           episode_type = EXCLUDED.episode_type,
+           chapters = EXCLUDED.chapters,
+           chapters_url = EXCLUDED.chapters_url,
+           updated_at = NOW()`,
+        [
+          accountId,
+          itemId,
+          position,
+          enclosure.url,
+          enclosure.mimeType,
+          enclosure.lengthBytes,
+          enclosure.durationSeconds === null ? null : Math.round(enclosure.durationSeconds),
+          enclosure.episodeNumber,
+          enclosure.seasonNumber,
+          enclosure.episodeType,
+          JSON.stringify(enclosure.chapters),
+          enclosure.chaptersUrl,
+        ],
+      );
+      persisted++;
+    }
+
+    await pool.query(
+      `DELETE FROM item_enclosure
+       WHERE item_id = $1
+         AND tenant_id = $2
+         AND NOT (url = ANY($3::text[]))`,
+      [itemId, accountId, item.enclosures.map((enclosure) => enclosure.url)],
+    );
+  }
+
+  return persisted;
+}
+
+function itemKey(item: ParsedItem): string {
+  if (item.guid) return `guid:${item.guid}`;
+  return `url:${canonicalizeUrl(item.url || "")}@${item.publishedAt.toISOString()}`;
+}
+
+async function resolveItemIds(
+  pool: Pool,
+  accountId: string,
+  feedId: string,
+  items: ParsedItem[],
+): Promise<Map<string, string>> {
+  const guids = items.flatMap((item) => (item.guid ? [item.guid] : []));
+  const canonicalUrls = items.flatMap((item) =>
+    item.guid ? [] : [canonicalizeUrl(item.url || "")],
+  );
+
+  const { rows } = await pool.query<{
+    id: string;
+    guid: string | null;
+    canonical_url: string;
+    published_at: Date;
+  }>(
+    `SELECT id, guid, canonical_url, published_at
+     FROM item
+     WHERE tenant_id = $1
+       AND feed_id = $2
+       AND (guid = ANY($3::text[]) OR (guid IS NULL AND canonical_url = ANY($4::text[])))`,
+    [accountId, feedId, guids, canonicalUrls],
+  );
+
+  const ids = new Map<string, string>();
+  for (const row of rows) {
+    const key = row.guid
+      ? `guid:${row.guid}`
+      : `url:${row.canonical_url}@${new Date(row.published_at).toISOString()}`;
+    ids.set(key, row.id);
+  }
+  return ids;
+}
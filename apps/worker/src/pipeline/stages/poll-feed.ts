@@ -1,3 +1,8 @@
+import {
+  YOUTUBE_VIDEO_MIME_TYPE,
+  youtubeVideoIdFromUrl,
+  youtubeWatchUrl,
+} from "@rss-wrangler/contracts";
 import { parseFeed } from "feedsmith";
 import type { Atom, DeepPartial, Json, Rdf, Rss } from "feedsmith/types";
 import type { DueFeed } from "../../services/feed-service";
@@ -12,8 +17,35 @@ export interface ParsedItem {
   publishedAt: Date;
   author: string | null;
   heroImageUrl: string | null;
+  enclosures: ParsedEnclosure[];
 }
 
+/** Chapter marker from Podlove Simple Chapters (`psc:chapter`). */
+export interface ParsedChapter {
+  startSeconds: number;
+  title: string;
+  url: string | null;
+}
+
+/**
+ * Non-image media attached to an item (podcast audio, video, documents).
+ * Episode metadata comes from the iTunes and Podcasting 2.0 namespaces and is
+ * shared by every enclosure of the item.
+ */
+export interface ParsedEnclosure {
+  url: string;
+  mimeType: string | null;
+  lengthBytes: number | null;
+  durationSeconds: number | null;
+  episodeNumber: number | null;
+  seasonNumber: number | null;
+  episodeType: string | null;
+  chapters: ParsedChapter[];
+  chaptersUrl: string | null;
+}
+
+type EpisodeMetadata = Omit<ParsedEnclosure, "url" | "mimeType" | "lengthBytes">;
+
 export interface PollResult {
   items: ParsedItem[];
   feedTitle: string | null;
@@ -21,6 +53,48 @@ export interface PollResult {
   etag: string | null;
   lastModified: string | null;
   notModified: boolean;
+  webSub?: WebSubLinks | null;
+  /** Publisher scheduling hints from the feed document, when it has any. */
+  scheduleHints?: FeedScheduleHints;
+  /** Caching hints from the HTTP response, when it sent any. */
+  httpCache?: HttpCacheHints;
+}
+
+/** RSS `<ttl>`, `<skipHours>`, `<skipDays>` and `sy:updatePeriod`/`sy:updateFrequency`. */
+export interface FeedScheduleHints {
+  ttlMinutes: number | null;
+  /** UTC hours (0-23) in which the feed says it does not change. */
+  skipHours: number[];
+  /** Lowercase English day names on which the feed says it does not change. */
+  skipDays: string[];
+  updatePeriod: string | null;
+  updateFrequency: number | null;
+}
+
+/** Cache-Control `max-age`, `Expires` and `Retry-After` from a feed response. */
+export interface HttpCacheHints {
+  maxAgeSeconds: number | null;
+  expiresAt: Date | null;
+  retryAfter: Date | null;
+}
+
+/** A non-2xx feed response, carrying the server's Retry-After when it sent one. */
+export class FeedHttpError extends Error {
+  readonly status: number;
+  readonly retryAfter: Date | null;
+
+  constructor(message: string, status: number, retryAfter: Date | null) {
+    super(message);
+    this.name = "FeedHttpError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** Hub and canonical topic advertised by a feed for WebSub push delivery. */
+export interface WebSubLinks {
+  hubUrl: string;
+  topicUrl: string;
 }
 
 /**
@@ -134,6 +208,8 @@ export async function pollFeed(feed: DueFeed): Promise<PollResult> {
     throw err;
   }
 
+  const httpCache = parseHttpCacheHints(response.headers) ?? undefined;
+
   if (response.status === 304) {
     console.info("[poll-feed] not modified", { feedId: feed.id });
     return {
@@ -143,22 +219,82 @@ export async function pollFeed(feed: DueFeed): Promise<PollResult> {
       etag: feed.etag,
       lastModified: feed.lastModified,
       notModified: true,
+      ...(httpCache ? { httpCache } : {}),
     };
   }
 
   if (!response.ok) {
-    throw new Error(`[poll-feed] HTTP ${response.status} for feed ${feed.id}`);
+    throw new FeedHttpError(
+      `[poll-feed] HTTP ${response.status} for feed ${feed.id}`,
+      response.status,
+      httpCache?.retryAfter ?? null,
+    );
   }
 
   const payload = await response.text();
-  let format: ParsedFeedFormat;
-  let items: ParsedItem[];
-  let feedTitle: string | null;
+  const parsed = parseFeedPayload(feed, payload, response.headers.get("link"));
+
+  return {
+    ...parsed,
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+    ...(httpCache ? { httpCache } : {}),
+  };
+}
+
+/**
+ * Reads the caching headers that bound how soon a feed is worth fetching
+ * again. Returns null when the response sent none of them.
+ */
+export function parseHttpCacheHints(headers: Headers, now = new Date()): HttpCacheHints | null {
+  const maxAge = /(?:^|,)\s*max-age\s*=\s*"?(\d+)"?/i.exec(headers.get("cache-control") ?? "");
+  const maxAgeSeconds = maxAge ? Number(maxAge[1]) : null;
+
+  // "Expires: 0" and other past dates just mean "already stale".
+  const expires = Date.parse(headers.get("expires") ?? "");
+  const expiresAt = Number.isFinite(expires) && expires > now.getTime() ? new Date(expires) : null;
+
+  const retryAfterHeader = headers.get("retry-after")?.trim() ?? "";
+  let retryAfter: Date | null = null;
+  if (/^\d+$/.test(retryAfterHeader)) {
+    retryAfter = new Date(now.getTime() + Number(retryAfterHeader) * 1000);
+  } else if (retryAfterHeader) {
+    const date = Date.parse(retryAfterHeader);
+    retryAfter = Number.isFinite(date) ? new Date(date) : null;
+  }
+
+  if (maxAgeSeconds === null && expiresAt === null && retryAfter === null) return null;
+  return { maxAgeSeconds, expiresAt, retryAfter };
+}
+
+/**
+ * Parses a feed document delivered by a WebSub hub. Pushed content has no
+ * conditional-GET validators, so etag/last-modified are carried over from the feed.
+ */
+export function parsePushedFeed(feed: DueFeed, payload: string): PollResult {
+  return {
+    ...parseFeedPayload(feed, payload, null),
+    etag: feed.etag,
+    lastModified: feed.lastModified,
+  };
+}
+
+function parseFeedPayload(
+  feed: DueFeed,
+  payload: string,
+  linkHeader: string | null,
+): Omit<PollResult, "etag" | "lastModified"> {
   try {
     const parsed = parseFeed(payload);
-    format = parsed.format;
-    items = normalizeParsedItems(parsed);
-    feedTitle = extractFeedTitle(parsed);
+    const scheduleHints = extractScheduleHints(parsed);
+    return {
+      items: normalizeParsedItems(parsed),
+      feedTitle: extractFeedTitle(parsed),
+      format: parsed.format,
+      notModified: false,
+      webSub: extractWebSubLinks(parsed, linkHeader, feed.url),
+      ...(scheduleHints ? { scheduleHints } : {}),
+    };
   } catch (err) {
     throw new Error(
       `[poll-feed] failed to parse feed ${feed.id}: ${
@@ -166,15 +302,6 @@ export async function pollFeed(feed: DueFeed): Promise<PollResult> {
       }`,
     );
   }
-
-  return {
-    items,
-    feedTitle,
-    format,
-    etag: response.headers.get("etag"),
-    lastModified: response.headers.get("last-modified"),
-    notModified: false,
-  };
 }
 
 type ParsedFeedsmith = ReturnType<typeof parseFeed>;
@@ -186,7 +313,9 @@ type JsonItem = DeepPartial<Json.Item<string>>;
 
 interface MediaLike {
   thumbnails?: Array<{ url?: string }>;
-  contents?: Array<{ url?: string; type?: string; medium?: string }>;
+  contents?: Array<{ url?: string; type?: string; medium?: string; duration?: number }>;
+  description?: { value?: string };
+  groups?: MediaLike[];
 }
 
 function extractFeedTitle(parsed: ParsedFeedsmith): string | null {
@@ -203,6 +332,87 @@ function extractFeedTitle(parsed: ParsedFeedsmith): string | null {
   return firstNonEmpty(parsed.feed.title);
 }
 
+/** Publisher scheduling hints; JSON Feed has none. */
+export function extractScheduleHints(parsed: ParsedFeedsmith): FeedScheduleHints | null {
+  if (parsed.format === "json") return null;
+
+  const sy = parsed.feed.sy;
+  const rss = parsed.format === "rss" ? parsed.feed : null;
+  const ttl = rss?.ttl;
+  const hints: FeedScheduleHints = {
+    ttlMinutes: typeof ttl === "number" && Number.isFinite(ttl) && ttl > 0 ? ttl : null,
+    skipHours: (rss?.skipHours ?? []).filter(
+      (hour): hour is number => Number.isInteger(hour) && hour >= 0 && hour <= 23,
+    ),
+    skipDays: (rss?.skipDays ?? [])
+      .filter((day): day is string => typeof day === "string")
+      .map((day) => day.trim().toLowerCase()),
+    updatePeriod: firstNonEmpty(sy?.updatePeriod),
+    updateFrequency:
+      typeof sy?.updateFrequency === "number" && sy.updateFrequency > 0 ? sy.updateFrequency : null,
+  };
+
+  const empty =
+    hints.ttlMinutes === null &&
+    hints.skipHours.length === 0 &&
+    hints.skipDays.length === 0 &&
+    hints.updatePeriod === null;
+  return empty ? null : hints;
+}
+
+/**
+ * Finds the WebSub hub and self (topic) URLs from the HTTP Link header or the
+ * feed document itself. The header wins when both are present, per the spec.
+ */
+export function extractWebSubLinks(
+  parsed: ParsedFeedsmith,
+  linkHeader: string | null,
+  feedUrl: string,
+): WebSubLinks | null {
+  const headerLinks = parseLinkHeader(linkHeader);
+  let hubUrl = headerLinks.get("hub") ?? null;
+  let selfUrl = headerLinks.get("self") ?? null;
+
+  if (parsed.format === "json") {
+    const hub = (parsed.feed.hubs ?? []).find((entry) => entry.type?.toLowerCase() === "websub");
+    hubUrl = hubUrl ?? firstNonEmpty(hub?.url);
+    selfUrl = selfUrl ?? firstNonEmpty(parsed.feed.feed_url);
+  } else {
+    const links =
+      parsed.format === "atom" ? parsed.feed.links : (parsed.feed.atom?.links ?? undefined);
+    hubUrl = hubUrl ?? findLinkByRel(links, "hub");
+    selfUrl = selfUrl ?? findLinkByRel(links, "self");
+  }
+
+  const hub = asValidUrl(hubUrl);
+  if (!hub) return null;
+  return { hubUrl: hub, topicUrl: asValidUrl(selfUrl) ?? feedUrl };
+}
+
+function parseLinkHeader(header: string | null): Map<string, string> {
+  const links = new Map<string, string>();
+  if (!header) return links;
+
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;(.*)$/);
+    if (!match) continue;
+    const relMatch = match[2]?.match(/rel\s*=\s*"?([^";]+)"?/i);
+    if (!relMatch?.[1] || !match[1]) continue;
+    for (const rel of relMatch[1].toLowerCase().split(/\s+/)) {
+      if (!links.has(rel)) links.set(rel, match[1].trim());
+    }
+  }
+  return links;
+}
+
+function findLinkByRel(
+  links: Array<DeepPartial<Atom.Link<string>>> | undefined,
+  rel: string,
+): string | null {
+  const link = (links ?? []).find((entry) => entry.rel?.toLowerCase() === rel);
+  return firstNonEmpty(link?.href);
+}
+
 function normalizeParsedItems(parsed: ParsedFeedsmith): ParsedItem[] {
   if (parsed.format === "rss") {
     return (parsed.feed.items ?? []).map((item) => normalizeRssItem(item));
@@ -220,7 +430,11 @@ function normalizeParsedItems(parsed: ParsedFeedsmith): ParsedItem[] {
 }
 
 function normalizeRssItem(item: RssItem): ParsedItem {
-  const summary = firstNonEmpty(item.description, item.content?.encoded);
+  const summary = firstNonEmpty(
+    item.description,
+    item.content?.encoded,
+    extractMediaDescription(item.media),
+  );
   const guid = firstNonEmpty(item.guid?.value);
   const url = firstNonEmpty(item.link, item.guid?.isPermaLink === false ? null : item.guid?.value);
 
@@ -250,11 +464,15 @@ function normalizeRssItem(item: RssItem): ParsedItem {
       extractHeroImageFromEnclosures(item.enclosures),
       extractImageFromHtml(summary),
     ),
+    enclosures: dedupeEnclosures([
+      ...extractYouTubeVideo(null, url, item.media),
+      ...extractRssEnclosures(item),
+    ]),
   };
 }
 
 function normalizeAtomItem(entry: AtomItem): ParsedItem {
-  const summary = firstNonEmpty(entry.summary, entry.content);
+  const summary = firstNonEmpty(entry.summary, entry.content, extractMediaDescription(entry.media));
   const url = firstNonEmpty(selectAtomLink(entry.links), asValidUrl(entry.id));
 
   return {
@@ -283,6 +501,10 @@ function normalizeAtomItem(entry: AtomItem): ParsedItem {
       extractHeroImageFromMedia(entry.media),
       extractImageFromHtml(summary),
     ),
+    enclosures: dedupeEnclosures([
+      ...extractYouTubeVideo(entry.yt?.videoId, url, entry.media),
+      ...extractAtomEnclosures(entry.links),
+    ]),
   };
 }
 
@@ -313,6 +535,7 @@ function normalizeRdfItem(item: RdfItem): ParsedItem {
       extractHeroImageFromMedia(item.media),
       extractImageFromHtml(summary),
     ),
+    enclosures: [],
   };
 }
 
@@ -333,18 +556,27 @@ function normalizeJsonItem(item: JsonItem): ParsedItem {
       extractImageFromHtml(item.content_html),
       extractImageFromHtml(summary),
     ),
+    enclosures: extractJsonAttachments(item.attachments),
   };
 }
 
+/** Top-level media elements first, then each `media:group` (as used by YouTube). */
+function mediaScopes(media: MediaLike | undefined): MediaLike[] {
+  if (!media) return [];
+  return [media, ...(media.groups ?? [])];
+}
+
 function extractHeroImageFromMedia(media: MediaLike | undefined): string | null {
-  if (!media) return null;
+  const scopes = mediaScopes(media);
+  const thumbnails = scopes.flatMap((scope) => scope.thumbnails ?? []);
+  const contents = scopes.flatMap((scope) => scope.contents ?? []);
 
-  for (const thumbnail of media.thumbnails ?? []) {
+  for (const thumbnail of thumbnails) {
     const url = firstNonEmpty(thumbnail.url);
     if (url) return url;
   }
 
-  for (const content of media.contents ?? []) {
+  for (const content of contents) {
     const url = firstNonEmpty(content.url);
     if (!url) continue;
     const type = content.type?.toLowerCase() ?? "";
@@ -354,7 +586,7 @@ function extractHeroImageFromMedia(media: MediaLike | undefined): string | null
     }
   }
 
-  for (const content of media.contents ?? []) {
+  for (const content of contents) {
     const url = firstNonEmpty(content.url);
     if (url) return url;
   }
@@ -362,6 +594,36 @@ function extractHeroImageFromMedia(media: MediaLike | undefined): string | null
   return null;
 }
 
+function extractMediaDescription(media: MediaLike | undefined): string | null {
+  return firstNonEmpty(...mediaScopes(media).map((scope) => scope.description?.value));
+}
+
+/**
+ * YouTube entries carry `yt:videoId` (or at least a watch link). The video is
+ * stored as an enclosure so the reader can embed it; MRSS gives the duration.
+ */
+function extractYouTubeVideo(
+  videoId: string | null | undefined,
+  url: string | null,
+  media: MediaLike | undefined,
+): ParsedEnclosure[] {
+  const id = firstNonEmpty(videoId) ?? (url ? youtubeVideoIdFromUrl(url) : null);
+  if (!id) return [];
+
+  const durations = mediaScopes(media).flatMap((scope) =>
+    (scope.contents ?? []).map((content) => content.duration),
+  );
+  return [
+    {
+      url: youtubeWatchUrl(id),
+      mimeType: YOUTUBE_VIDEO_MIME_TYPE,
+      lengthBytes: null,
+      ...NO_EPISODE_METADATA,
+      durationSeconds: positiveNumber(...durations),
+    },
+  ];
+}
+
 function extractHeroImageFromEnclosures(
   enclosures: Array<DeepPartial<Rss.Enclosure>> | undefined,
 ): string | null {
@@ -376,6 +638,117 @@ function extractHeroImageFromEnclosures(
   return null;
 }
 
+const NO_EPISODE_METADATA: EpisodeMetadata = {
+  durationSeconds: null,
+  episodeNumber: null,
+  seasonNumber: null,
+  episodeType: null,
+  chapters: [],
+  chaptersUrl: null,
+};
+
+function extractRssEnclosures(item: RssItem): ParsedEnclosure[] {
+  const metadata: EpisodeMetadata = {
+    durationSeconds: positiveNumber(item.itunes?.duration),
+    episodeNumber: positiveNumber(item.itunes?.episode, item.podcast?.episode?.number),
+    seasonNumber: positiveNumber(item.itunes?.season, item.podcast?.season?.number),
+    episodeType: firstNonEmpty(item.itunes?.episodeType),
+    chapters: parsePscChapters(item.psc?.chapters),
+    chaptersUrl: firstNonEmpty(item.podcast?.chapters?.url),
+  };
+
+  const enclosures: ParsedEnclosure[] = [];
+  for (const enclosure of item.enclosures ?? []) {
+    const url = firstNonEmpty(enclosure.url);
+    const mimeType = firstNonEmpty(enclosure.type)?.toLowerCase() ?? null;
+    if (!url || mimeType?.startsWith("image/")) continue;
+    enclosures.push({ url, mimeType, lengthBytes: positiveNumber(enclosure.length), ...metadata });
+  }
+  return dedupeEnclosures(enclosures);
+}
+
+function extractAtomEnclosures(
+  links: Array<DeepPartial<Atom.Link<string>>> | undefined,
+): ParsedEnclosure[] {
+  const enclosures: ParsedEnclosure[] = [];
+  for (const link of links ?? []) {
+    if (link.rel?.toLowerCase() !== "enclosure") continue;
+    const url = firstNonEmpty(link.href);
+    const mimeType = firstNonEmpty(link.type)?.toLowerCase() ?? null;
+    if (!url || mimeType?.startsWith("image/")) continue;
+    enclosures.push({
+      url,
+      mimeType,
+      lengthBytes: positiveNumber(link.length),
+      ...NO_EPISODE_METADATA,
+    });
+  }
+  return dedupeEnclosures(enclosures);
+}
+
+function extractJsonAttachments(
+  attachments: Array<DeepPartial<Json.Attachment>> | undefined,
+): ParsedEnclosure[] {
+  const enclosures: ParsedEnclosure[] = [];
+  for (const attachment of attachments ?? []) {
+    const url = firstNonEmpty(attachment.url);
+    const mimeType = firstNonEmpty(attachment.mime_type)?.toLowerCase() ?? null;
+    if (!url || mimeType?.startsWith("image/")) continue;
+    enclosures.push({
+      url,
+      mimeType,
+      lengthBytes: positiveNumber(attachment.size_in_bytes),
+      ...NO_EPISODE_METADATA,
+      durationSeconds: positiveNumber(attachment.duration_in_seconds),
+    });
+  }
+  return dedupeEnclosures(enclosures);
+}
+
+function dedupeEnclosures(enclosures: ParsedEnclosure[]): ParsedEnclosure[] {
+  const seen = new Set<string>();
+  return enclosures.filter((enclosure) => {
+    if (seen.has(enclosure.url)) return false;
+    seen.add(enclosure.url);
+    return true;
+  });
+}
+
+function parsePscChapters(
+  chapters: Array<DeepPartial<{ start: string; title: string; href: string }>> | undefined,
+): ParsedChapter[] {
+  const parsed: ParsedChapter[] = [];
+  for (const chapter of chapters ?? []) {
+    const startSeconds = parseNormalPlayTime(chapter.start);
+    const title = firstNonEmpty(chapter.title);
+    if (startSeconds === null || !title) continue;
+    parsed.push({ startSeconds, title, url: asValidUrl(chapter.href) });
+  }
+  return parsed.sort((a, b) => a.startSeconds - b.startSeconds);
+}
+
+/** Parses Normal Play Time offsets such as `1:02:03.500`, `02:03` or `123`. */
+function parseNormalPlayTime(value: string | null | undefined): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed || !/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(trimmed)) return null;
+
+  const parts = trimmed.split(":").map(Number);
+  let seconds = 0;
+  for (const part of parts) {
+    seconds = seconds * 60 + part;
+  }
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function positiveNumber(...values: Array<number | null | undefined>): number | null {
+  for (const value of values) {
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+      return value;
+    }
+  }
+  return null;
+}
+
 function extractImageFromHtml(content: string | null | undefined): string | null {
   if (!content) return null;
   const imgMatch = content.match(/<img[^>]+src=["']([^"']+)["']/i);
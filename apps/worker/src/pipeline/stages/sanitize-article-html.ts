@@ -0,0 +1,345 @@
+import { JSDOM } from "jsdom";
+
+/** Elements kept as they are (after attribute filtering). */
+const ALLOWED_TAGS = new Set([
+  "a",
+  "blockquote",
+  "br",
+  "caption",
+  "code",
+  "dd",
+  "del",
+  "div",
+  "dl",
+  "dt",
+  "em",
+  "figcaption",
+  "figure",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "img",
+  "ins",
+  "kbd",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "q",
+  "s",
+  "samp",
+  "small",
+  "strong",
+  "sub",
+  "sup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "u",
+  "ul",
+]);
+
+/** Elements swapped for an allowed equivalent. */
+const RENAMED_TAGS: Record<string, string> = {
+  b: "strong",
+  h1: "h2",
+  i: "em",
+  strike: "s",
+  tt: "code",
+  var: "em",
+};
+
+/** Elements removed with everything inside them; anything else unknown is unwrapped. */
+const DROPPED_TAGS = new Set([
+  "applet",
+  "aside",
+  "audio",
+  "base",
+  "button",
+  "canvas",
+  "dialog",
+  "embed",
+  "form",
+  "frame",
+  "frameset",
+  "iframe",
+  "input",
+  "link",
+  "map",
+  "math",
+  "meta",
+  "nav",
+  "noscript",
+  "object",
+  "option",
+  "script",
+  "select",
+  "source",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "track",
+  "video",
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, readonly string[]> = {
+  a: ["href", "title"],
+  code: ["class"],
+  img: ["alt", "height", "src", "srcset", "title", "width"],
+  ol: ["start"],
+  pre: ["class"],
+  td: ["colspan", "rowspan"],
+  th: ["colspan", "rowspan", "scope"],
+};
+
+/** Attributes lazy-loading scripts keep the real image in. */
+const LAZY_SRC_ATTRIBUTES = ["data-src", "data-lazy-src", "data-original", "data-lazy", "data-url"];
+const LAZY_SRCSET_ATTRIBUTES = ["data-srcset", "data-lazy-srcset"];
+
+/**
+ * Elements followed by a line break in the output, so the text content of the
+ * markup (and so the stored plain text) keeps words from adjacent blocks apart.
+ */
+const BLOCK_TAGS = new Set([
+  "blockquote",
+  "br",
+  "caption",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+]);
+
+/** Blocks removed when sanitizing leaves them without text or images. */
+const REMOVED_WHEN_EMPTY = new Set([
+  "blockquote",
+  "div",
+  "figcaption",
+  "figure",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "p",
+]);
+
+export interface SanitizedArticle {
+  html: string;
+  /** Whitespace-collapsed text content of `html`, for search, AI and annotation anchors. */
+  text: string;
+}
+
+/**
+ * Reduces extracted article markup to an allow-list of text, media and table
+ * elements. URLs are made absolute against `baseUrl` and anything that is not
+ * http(s) (or mailto for links) is dropped; lazy-loaded images get their real
+ * `src`/`srcset`; scripts, styles, embeds and forms are removed with their
+ * content and every other unknown element is unwrapped.
+ */
+export function sanitizeArticleHtml(html: string, baseUrl: string): SanitizedArticle {
+  const { document } = new JSDOM("<!DOCTYPE html><body></body>", { url: baseUrl }).window;
+  const root = document.createElement("div");
+  root.innerHTML = html;
+
+  sanitizeChildren(root, baseUrl);
+  separateBlocks(root);
+
+  return {
+    html: root.innerHTML.trim(),
+    text: collapseWhitespace(root.textContent ?? ""),
+  };
+}
+
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function sanitizeChildren(parent: Element, baseUrl: string): void {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === node.TEXT_NODE) continue;
+    if (node.nodeType !== node.ELEMENT_NODE) {
+      node.remove();
+      continue;
+    }
+    sanitizeElement(node as Element, baseUrl);
+  }
+}
+
+function sanitizeElement(element: Element, baseUrl: string): void {
+  const tag = element.localName;
+  if (DROPPED_TAGS.has(tag)) {
+    element.remove();
+    return;
+  }
+
+  sanitizeChildren(element, baseUrl);
+
+  const allowedTag = RENAMED_TAGS[tag] ?? (ALLOWED_TAGS.has(tag) ? tag : null);
+  if (!allowedTag) {
+    element.replaceWith(...Array.from(element.childNodes));
+    return;
+  }
+
+  const target =
+    allowedTag === tag ? element : renameElement(element, allowedTag, element.ownerDocument);
+  filterAttributes(target, baseUrl);
+
+  if (allowedTag === "img" && !target.hasAttribute("src")) {
+    target.remove();
+    return;
+  }
+  if (
+    REMOVED_WHEN_EMPTY.has(allowedTag) &&
+    !target.textContent?.trim() &&
+    !target.querySelector("img")
+  ) {
+    target.remove();
+  }
+}
+
+function renameElement(element: Element, tag: string, document: Document): Element {
+  const renamed = document.createElement(tag);
+  for (const attribute of Array.from(element.attributes)) {
+    renamed.setAttribute(attribute.name, attribute.value);
+  }
+  renamed.append(...Array.from(element.childNodes));
+  element.replaceWith(renamed);
+  return renamed;
+}
+
+function filterAttributes(element: Element, baseUrl: string): void {
+  const tag = element.localName;
+  const lazySrc = firstAttribute(element, LAZY_SRC_ATTRIBUTES);
+  const lazySrcset = firstAttribute(element, LAZY_SRCSET_ATTRIBUTES);
+  const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+
+  for (const attribute of Array.from(element.attributes)) {
+    if (!allowed.includes(attribute.name)) {
+      element.removeAttribute(attribute.name);
+    }
+  }
+
+  if (tag === "a") {
+    const href = absoluteUrl(element.getAttribute("href"), baseUrl, ["http:", "https:", "mailto:"]);
+    if (href) {
+      element.setAttribute("href", href);
+      element.setAttribute("rel", "noopener noreferrer nofollow");
+      element.setAttribute("target", "_blank");
+    } else {
+      element.removeAttribute("href");
+    }
+  }
+
+  if (tag === "img") {
+    const src =
+      absoluteUrl(lazySrc, baseUrl, ["http:", "https:"]) ??
+      absoluteUrl(element.getAttribute("src"), baseUrl, ["http:", "https:"]);
+    if (src) {
+      element.setAttribute("src", src);
+    } else {
+      element.removeAttribute("src");
+    }
+    const srcset = absoluteSrcset(lazySrcset ?? element.getAttribute("srcset"), baseUrl);
+    if (srcset) {
+      element.setAttribute("srcset", srcset);
+    } else {
+      element.removeAttribute("srcset");
+    }
+    for (const dimension of ["width", "height"]) {
+      if (!/^\d{1,5}$/.test(element.getAttribute(dimension) ?? "")) {
+        element.removeAttribute(dimension);
+      }
+    }
+    element.setAttribute("loading", "lazy");
+    element.setAttribute("referrerpolicy", "no-referrer");
+  }
+
+  if (tag === "code" || tag === "pre") {
+    const language = (element.getAttribute("class") ?? "")
+      .split(/\s+/)
+      .filter((name) => /^language-[\w+#-]{1,32}$/.test(name));
+    if (language.length > 0) {
+      element.setAttribute("class", language.join(" "));
+    } else {
+      element.removeAttribute("class");
+    }
+  }
+
+  for (const span of ["colspan", "rowspan", "start"]) {
+    const value = element.getAttribute(span);
+    if (value !== null && !/^\d{1,4}$/.test(value)) {
+      element.removeAttribute(span);
+    }
+  }
+}
+
+function firstAttribute(element: Element, names: readonly string[]): string | null {
+  for (const name of names) {
+    const value = element.getAttribute(name)?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+function absoluteUrl(
+  value: string | null,
+  baseUrl: string,
+  protocols: readonly string[],
+): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed.startsWith("#")) return null;
+  try {
+    const url = new URL(trimmed, baseUrl);
+    return protocols.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function absoluteSrcset(value: string | null, baseUrl: string): string | null {
+  if (!value) return null;
+  const candidates = value
+    .split(",")
+    .map((candidate) => candidate.trim().split(/\s+/))
+    .flatMap(([url, descriptor]) => {
+      const absolute = absoluteUrl(url ?? null, baseUrl, ["http:", "https:"]);
+      if (!absolute) return [];
+      return [
+        descriptor && /^\d+(\.\d+)?[wx]$/.test(descriptor) ? `${absolute} ${descriptor}` : absolute,
+      ];
+    });
+  return candidates.length > 0 ? candidates.join(", ") : null;
+}
+
+function separateBlocks(root: Element): void {
+  for (const element of Array.from(root.querySelectorAll("*"))) {
+    if (!BLOCK_TAGS.has(element.localName) || element.parentElement?.closest("pre")) continue;
+    element.after(element.ownerDocument.createTextNode("\n"));
+  }
+}
@@ -0,0 +1,243 @@
+import type { Pool } from "pg";
+import type { FeedScheduleHints, HttpCacheHints } from "./poll-feed";
+
+/** No feed waits longer than this between polls, whatever its hints say. */
+export const MAX_POLL_MINUTES = 24 * 60;
+
+/** Publish times considered when learning a feed's cadence. */
+const CADENCE_HISTORY_LIMIT = 50;
+/** Gaps needed before the cadence is trusted over the workspace default. */
+const MIN_CADENCE_GAPS = 3;
+/** Poll at half the typical gap so a new story waits half a gap on average. */
+const CADENCE_POLL_FRACTION = 0.5;
+
+const SY_PERIOD_MINUTES: Record<string, number> = {
+  hourly: 60,
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+  monthly: 30 * 24 * 60,
+  yearly: 365 * 24 * 60,
+};
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+export interface PollScheduleInput {
+  now: Date;
+  /** Publish times of the feed's recent stories, in any order. */
+  publishedAt: Date[];
+  feedHints: FeedScheduleHints | null;
+  httpCache: HttpCacheHints | null;
+  /** The plan's shortest allowed poll interval. */
+  minPollMinutes: number;
+  /** The workspace's poll interval, used until the feed has a cadence. */
+  defaultPollMinutes: number;
+}
+
+export interface PollSchedule {
+  nextPollAt: Date;
+  intervalMinutes: number;
+  /** Why the interval was chosen, shown on the sources page. */
+  reason: string;
+}
+
+export function formatPollMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < 24 * 60) {
+    const hours = Math.round(minutes / 6) / 10;
+    return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+  }
+  const days = Math.round(minutes / 144) / 10;
+  return `${days} ${days === 1 ? "day" : "days"}`;
+}
+
+/** Median gap between distinct publish times, or null without enough history. */
+export function medianGapMinutes(publishedAt: Date[], now: Date): number | null {
+  const minutes = [
+    ...new Set(
+      publishedAt
+        .map((date) => date.getTime())
+        .filter((time) => Number.isFinite(time) && time <= now.getTime())
+        .map((time) => Math.floor(time / 60_000)),
+    ),
+  ].sort((a, b) => a - b);
+
+  const gaps: number[] = [];
+  for (let i = 1; i < minutes.length; i++) {
+    gaps.push((minutes[i] as number) - (minutes[i - 1] as number));
+  }
+  if (gaps.length < MIN_CADENCE_GAPS) return null;
+
+  gaps.sort((a, b) => a - b);
+  const mid = Math.floor(gaps.length / 2);
+  return gaps.length % 2 === 1
+    ? (gaps[mid] as number)
+    : ((gaps[mid - 1] as number) + (gaps[mid] as number)) / 2;
+}
+
+/**
+ * Picks when to poll a feed next. The interval starts from the feed's own
+ * publishing cadence (or the workspace default), is raised by anything the
+ * publisher asked for (RSS `<ttl>`, `sy:updatePeriod`, Cache-Control,
+ * Expires, Retry-After), capped at a day and never drops below the plan's
+ * minimum. `<skipHours>`/`<skipDays>` then push the poll out of the hours the
+ * feed says nothing will change.
+ */
+export function computePollSchedule(input: PollScheduleInput): PollSchedule {
+  const { now, feedHints, httpCache } = input;
+
+  const median = medianGapMinutes(input.publishedAt, now);
+  let interval: number;
+  let reason: string;
+  if (median !== null) {
+    interval = median * CADENCE_POLL_FRACTION;
+    reason = `Publishes about every ${formatPollMinutes(median)}`;
+  } else {
+    interval = input.defaultPollMinutes;
+    reason = `Not enough publishing history yet; using the workspace's ${formatPollMinutes(
+      input.defaultPollMinutes,
+    )} interval`;
+  }
+
+  const floors: Array<{ minutes: number | null; reason: (minutes: number) => string }> = [
+    {
+      minutes: feedHints?.ttlMinutes ?? null,
+      reason: (m) => `Feed's <ttl> asks readers to cache it for ${formatPollMinutes(m)}`,
+    },
+    {
+      minutes: syndicationMinutes(feedHints),
+      reason: (m) => `Feed says it updates every ${formatPollMinutes(m)} (sy:updatePeriod)`,
+    },
+    {
+      minutes: httpCache?.maxAgeSeconds != null ? httpCache.maxAgeSeconds / 60 : null,
+      reason: (m) => `Server's Cache-Control max-age is ${formatPollMinutes(m)}`,
+    },
+    {
+      minutes: minutesUntil(httpCache?.expiresAt ?? null, now),
+      reason: (m) => `Server's Expires header is ${formatPollMinutes(m)} away`,
+    },
+    {
+      minutes: minutesUntil(httpCache?.retryAfter ?? null, now),
+      reason: (m) => `Server asked to retry after ${formatPollMinutes(m)}`,
+    },
+  ];
+  for (const floor of floors) {
+    if (floor.minutes !== null && floor.minutes > interval) {
+      interval = floor.minutes;
+      reason = floor.reason(floor.minutes);
+    }
+  }
+
+  if (interval > MAX_POLL_MINUTES) {
+    interval = MAX_POLL_MINUTES;
+    reason = `${reason}; capped at ${formatPollMinutes(MAX_POLL_MINUTES)}`;
+  }
+  if (interval < input.minPollMinutes) {
+    interval = input.minPollMinutes;
+    reason = `${reason}; your plan polls at most every ${formatPollMinutes(input.minPollMinutes)}`;
+  }
+
+  const intervalMinutes = Math.max(1, Math.round(interval));
+  let nextPollAt = new Date(now.getTime() + intervalMinutes * 60_000);
+  const skipped = skipQuietHours(nextPollAt, feedHints);
+  if (skipped) {
+    nextPollAt = skipped;
+    reason = `${reason}; skipping the hours the feed marks as quiet (<skipHours>/<skipDays>)`;
+  }
+
+  return { nextPollAt, intervalMinutes, reason };
+}
+
+function syndicationMinutes(hints: FeedScheduleHints | null): number | null {
+  if (!hints?.updatePeriod) return null;
+  const period = SY_PERIOD_MINUTES[hints.updatePeriod.trim().toLowerCase()];
+  if (!period) return null;
+  const frequency = hints.updateFrequency && hints.updateFrequency > 0 ? hints.updateFrequency : 1;
+  return period / frequency;
+}
+
+function minutesUntil(date: Date | null, now: Date): number | null {
+  if (!date) return null;
+  const minutes = (date.getTime() - now.getTime()) / 60_000;
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Moves `date` to the start of the next UTC hour that is neither a skip hour
+ * nor on a skip day. Returns null when no move is needed, or when the hints
+ * skip every hour of the week.
+ */
+function skipQuietHours(date: Date, hints: FeedScheduleHints | null): Date | null {
+  const skipHours = new Set(hints?.skipHours ?? []);
+  const skipDays = new Set((hints?.skipDays ?? []).map((day) => day.trim().toLowerCase()));
+  if (skipHours.size === 0 && skipDays.size === 0) return null;
+
+  const isQuiet = (candidate: Date) =>
+    skipHours.has(candidate.getUTCHours()) ||
+    skipDays.has(DAY_NAMES[candidate.getUTCDay()] as string);
+  if (!isQuiet(date)) return null;
+
+  const candidate = new Date(date);
+  candidate.setUTCMinutes(0, 0, 0);
+  for (let hour = 0; hour < 7 * 24; hour++) {
+    candidate.setUTCHours(candidate.getUTCHours() + 1);
+    if (!isQuiet(candidate)) return candidate;
+  }
+  return null;
+}
+
+async function getWorkspacePollMinutes(pool: Pool, accountId: string): Promise<number> {
+  const result = await pool.query<{ data: unknown }>(
+    `SELECT data FROM app_settings WHERE tenant_id = $1 AND key = 'main' LIMIT 1`,
+    [accountId],
+  );
+  const data = result.rows[0]?.data;
+  if (data && typeof data === "object") {
+    const minutes = (data as Record<string, unknown>).feedPollMinutes;
+    if (typeof minutes === "number" && Number.isFinite(minutes) && minutes > 0) {
+      return minutes;
+    }
+  }
+  return 60;
+}
+
+/**
+ * Computes and stores a feed's next poll from its stored publish history, the
+ * stories just parsed and the hints from this poll.
+ */
+export async function scheduleNextPoll(
+  pool: Pool,
+  accountId: string,
+  feedId: string,
+  hints: {
+    publishedAt: Date[];
+    feedHints: FeedScheduleHints | null;
+    httpCache: HttpCacheHints | null;
+    minPollMinutes: number;
+  },
+): Promise<PollSchedule> {
+  const history = await pool.query<{ published_at: Date }>(
+    `SELECT published_at
+     FROM item
+     WHERE tenant_id = $1 AND feed_id = $2
+     ORDER BY published_at DESC
+     LIMIT ${CADENCE_HISTORY_LIMIT}`,
+    [accountId, feedId],
+  );
+
+  const schedule = computePollSchedule({
+    now: new Date(),
+    publishedAt: [...history.rows.map((row) => row.published_at), ...hints.publishedAt],
+    feedHints: hints.feedHints,
+    httpCache: hints.httpCache,
+    minPollMinutes: hints.minPollMinutes,
+    defaultPollMinutes: await getWorkspacePollMinutes(pool, accountId),
+  });
+
+  await pool.query(
+    `UPDATE feed
+     SET next_poll_at = $3, poll_interval_minutes = $4, poll_schedule_reason = $5
+     WHERE id = $1 AND tenant_id = $2`,
+    [feedId, accountId, schedule.nextPollAt, schedule.intervalMinutes, schedule.reason],
+  );
+  return schedule;
+}
@@ -0,0 +1,119 @@
+import { createServer, type Server } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { buildMimeMessage, createEmailService, emailAddress, sendViaSmtp } from "../email-service";
+
+/** Just enough of an SMTP server to record one message, like a local Mailpit. */
+function startSmtpStandIn(): Promise<{ server: Server; port: number; received: string[] }> {
+  const received: string[] = [];
+  const server = createServer((socket) => {
+    let inData = false;
+    let data = "";
+    socket.setEncoding("utf8");
+    socket.write("220 stand-in ESMTP\r\n");
+    socket.on("data", (chunk: string) => {
+      if (inData) {
+        data += chunk;
+        if (data.endsWith("\r\n.\r\n")) {
+          inData = false;
+          received.push(data.slice(0, -5));
+          socket.write("250 queued\r\n");
+        }
+        return;
+      }
+      for (const line of chunk.split("\r\n").filter(Boolean)) {
+        if (line.startsWith("EHLO")) socket.write("250-stand-in\r\n250 8BITMIME\r\n");
+        else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else socket.write("250 ok\r\n");
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+      resolve({ server, port, received });
+    });
+  });
+}
+
+describe("email-service", () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it("extracts the bare address from a display name", () => {
+    expect(emailAddress("RSS Wrangler <digest@example.com>")).toBe("digest@example.com");
+    expect(emailAddress("reader@example.com")).toBe("reader@example.com");
+  });
+
+  it("builds a multipart message with both bodies and extra headers", () => {
+    const message = buildMimeMessage("RSS Wrangler <digest@example.com>", {
+      to: "reader@example.com",
+      subject: "Digest — Monday",
+      html: "<p>Hello</p>",
+      text: "Hello",
+      headers: { "List-Unsubscribe": "<https://example.com/u>" },
+    });
+
+    expect(message).toContain("Content-Type: multipart/alternative");
+    expect(message).toContain("Subject: =?UTF-8?B?");
+    expect(message).toContain("List-Unsubscribe: <https://example.com/u>");
+    expect(message).toContain(Buffer.from("<p>Hello</p>").toString("base64"));
+    expect(message).toContain(Buffer.from("Hello").toString("base64"));
+  });
+
+  it("delivers through a local SMTP stand-in", async () => {
+    const standIn = await startSmtpStandIn();
+    server = standIn.server;
+
+    await sendViaSmtp(`smtp://127.0.0.1:${standIn.port}`, "digest@example.com", {
+      to: "reader@example.com",
+      subject: "Your digest",
+      html: "<p>Stories</p>",
+      text: "Stories",
+    });
+
+    expect(standIn.received).toHaveLength(1);
+    expect(standIn.received[0]).toContain("To: reader@example.com");
+    expect(standIn.received[0]).toContain("Subject: Your digest");
+  });
+
+  it("rejects when the relay refuses the recipient", async () => {
+    server = createServer((socket) => {
+      socket.write("220 stand-in\r\n");
+      socket.on("data", (chunk) => {
+        socket.write(String(chunk).startsWith("RCPT") ? "550 no such user\r\n" : "250 ok\r\n");
+      });
+    });
+    const port = await new Promise<number>((resolve) => {
+      server?.listen(0, "127.0.0.1", () => {
+        const address = server?.address();
+        resolve(typeof address === "object" && address ? address.port : 0);
+      });
+    });
+
+    await expect(
+      sendViaSmtp(`smtp://127.0.0.1:${port}`, "digest@example.com", {
+        to: "missing@example.com",
+        subject: "x",
+        html: "x",
+        text: "x",
+      }),
+    ).rejects.toThrow(/550/);
+  });
+
+  it("skips delivery when no transport is configured", async () => {
+    const email = createEmailService({});
+    await expect(
+      email.send({ to: "reader@example.com", subject: "x", html: "x", text: "x" }),
+    ).resolves.toBe("skipped");
+  });
+});
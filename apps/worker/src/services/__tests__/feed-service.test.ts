@@ -67,7 +67,7 @@ describe("FeedService", () => {
       expect(callArgs[1]).toEqual([ACCOUNT_ID, 5]);
     });
 
-    it("queries only non-muted feeds ordered by last_polled_at", async () => {
+    it("queries only non-muted feeds that are due, earliest schedule first", async () => {
       const pool = makePool();
       pool.query.mockResolvedValue({ rows: [] });
 
@@ -76,7 +76,10 @@ describe("FeedService", () => {
 
       const sql = pool.query.mock.calls[0][0] as string;
       expect(sql).toContain("muted = FALSE");
-      expect(sql).toContain("ORDER BY last_polled_at ASC NULLS FIRST");
+      expect(sql).toContain("next_poll_at IS NULL OR next_poll_at <= NOW()");
+      expect(sql).toContain(
+        "ORDER BY next_poll_at ASC NULLS FIRST, last_polled_at ASC NULLS FIRST",
+      );
     });
 
     it("excludes feeds with active circuit breaker", async () => {
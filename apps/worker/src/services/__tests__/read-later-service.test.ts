@@ -0,0 +1,276 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import {
+  decryptCredentials,
+  deliverDueReadLater,
+  READ_LATER_MAX_ATTEMPTS,
+  type ReadLaterConnectionTarget,
+  sendToReadLater,
+  signShaarliToken,
+} from "../read-later-service.js";
+
+// ---- Helpers ----------------------------------------------------------------
+
+const TENANT_ID = "tenant-1";
+const CREDENTIALS_KEY = "k".repeat(32);
+// encryptCredentials(CREDENTIALS_KEY, { token: "tok-1" }) from the API, with a fixed IV.
+const ENCRYPTED_TOKEN = "v1.BwcHBwcHBwcHBwcH.UyYvVtYTFb4tv1okALlK_A.U-0s4KrYqlJR0BTK1UUUQKk";
+
+const ARTICLE = { deliveryId: "delivery-1", url: "https://example.com/post", title: "Post" };
+
+function respond(status: number, body: unknown = {}) {
+  return new Response(typeof body === "string" ? body : JSON.stringify(body), { status });
+}
+
+function makeFetch(...responses: Response[]) {
+  const fetchFn = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => {
+    return responses.shift() ?? respond(200);
+  });
+  return fetchFn;
+}
+
+function requestAt(fetchFn: ReturnType<typeof makeFetch>, index: number) {
+  const [url, init] = fetchFn.mock.calls[index] ?? [];
+  return {
+    url: String(url),
+    headers: (init?.headers ?? {}) as Record<string, string>,
+    body: String(init?.body ?? ""),
+  };
+}
+
+// ---- decryptCredentials / signShaarliToken ------------------------------------
+
+describe("decryptCredentials", () => {
+  it("reads values encrypted by the API and rejects a wrong key or tampering", () => {
+    expect(decryptCredentials(CREDENTIALS_KEY, ENCRYPTED_TOKEN)).toEqual({ token: "tok-1" });
+    expect(decryptCredentials("x".repeat(32), ENCRYPTED_TOKEN)).toBeNull();
+    expect(decryptCredentials(CREDENTIALS_KEY, `${ENCRYPTED_TOKEN.slice(0, -2)}AA`)).toBeNull();
+    expect(decryptCredentials(CREDENTIALS_KEY, "plain")).toBeNull();
+  });
+});
+
+describe("signShaarliToken", () => {
+  it("builds an HS512 JWT carrying iat", () => {
+    const token = signShaarliToken("secret", 1700000000);
+    const [header, payload, signature] = token.split(".");
+    expect(JSON.parse(Buffer.from(header ?? "", "base64url").toString())).toEqual({
+      typ: "JWT",
+      alg: "HS512",
+    });
+    expect(JSON.parse(Buffer.from(payload ?? "", "base64url").toString())).toEqual({
+      iat: 1700000000,
+    });
+    expect(signature).toBe(
+      createHmac("sha512", "secret").update(`${header}.${payload}`).digest("base64url"),
+    );
+  });
+});
+
+// ---- sendToReadLater ----------------------------------------------------------
+
+describe("sendToReadLater", () => {
+  it("exchanges Wallabag credentials for a token before creating the entry", async () => {
+    const fetchFn = makeFetch(respond(200, { access_token: "at-1" }), respond(200, { id: 5 }));
+    const outcome = await sendToReadLater(
+      {
+        provider: "wallabag",
+        baseUrl: "https://wallabag.example.com/",
+        credentials: { clientId: "c", clientSecret: "s", username: "u", password: "p" },
+      },
+      ARTICLE,
+      fetchFn,
+    );
+
+    expect(outcome).toEqual({ ok: true, statusCode: 200 });
+    const token = requestAt(fetchFn, 0);
+    expect(token.url).toBe("https://wallabag.example.com/oauth/v2/token");
+    expect(new URLSearchParams(token.body).get("grant_type")).toBe("password");
+    const entry = requestAt(fetchFn, 1);
+    expect(entry.url).toBe("https://wallabag.example.com/api/entries.json");
+    expect(entry.headers.Authorization).toBe("Bearer at-1");
+    expect(JSON.parse(entry.body)).toEqual({ url: ARTICLE.url, title: "Post" });
+  });
+
+  it("uses each service's endpoint and auth scheme", async () => {
+    const cases: Array<{
+      connection: ReadLaterConnectionTarget;
+      url: string;
+      auth: string | undefined;
+    }> = [
+      {
+        connection: { provider: "readwise", baseUrl: null, credentials: { token: "t" } },
+        url: "https://readwise.io/api/v3/save/",
+        auth: "Token t",
+      },
+      {
+        connection: {
+          provider: "instapaper",
+          baseUrl: null,
+          credentials: { username: "u", password: "p" },
+        },
+        url: "https://www.instapaper.com/api/add",
+        auth: `Basic ${Buffer.from("u:p").toString("base64")}`,
+      },
+      {
+        connection: {
+          provider: "linkding",
+          baseUrl: "https://links.example.com",
+          credentials: { token: "t" },
+        },
+        url: "https://links.example.com/api/bookmarks/",
+        auth: "Token t",
+      },
+      {
+        connection: {
+          provider: "pocket",
+          baseUrl: null,
+          credentials: { consumerKey: "ck", accessToken: "at" },
+        },
+        url: "https://getpocket.com/v3/add",
+        auth: undefined,
+      },
+    ];
+
+    for (const { connection, url, auth } of cases) {
+      const fetchFn = makeFetch(respond(201));
+      expect(await sendToReadLater(connection, ARTICLE, fetchFn)).toEqual({
+        ok: true,
+        statusCode: 201,
+      });
+      const request = requestAt(fetchFn, 0);
+      expect(request.url).toBe(url);
+      expect(request.headers.Authorization).toBe(auth);
+    }
+  });
+
+  it("treats Omnivore GraphQL errors as failures", async () => {
+    const fetchFn = makeFetch(
+      respond(200, { data: { saveUrl: { errorCodes: ["UNAUTHORIZED"], message: "bad key" } } }),
+    );
+    const outcome = await sendToReadLater(
+      { provider: "omnivore", baseUrl: null, credentials: { apiKey: "k" } },
+      ARTICLE,
+      fetchFn,
+    );
+
+    expect(requestAt(fetchFn, 0).url).toBe("https://api-prod.omnivore.app/api/graphql");
+    expect(outcome).toEqual({
+      ok: false,
+      statusCode: 200,
+      error: "Omnivore: bad key",
+      permanent: true,
+    });
+  });
+
+  it("retries server errors and rate limits but not rejected credentials", async () => {
+    const connection: ReadLaterConnectionTarget = {
+      provider: "readwise",
+      baseUrl: null,
+      credentials: { token: "t" },
+    };
+
+    const unavailable = await sendToReadLater(connection, ARTICLE, makeFetch(respond(503, "")));
+    expect(unavailable).toMatchObject({ ok: false, statusCode: 503, permanent: false });
+    const limited = await sendToReadLater(connection, ARTICLE, makeFetch(respond(429, "")));
+    expect(limited).toMatchObject({ ok: false, permanent: false });
+    const rejected = await sendToReadLater(
+      connection,
+      ARTICLE,
+      makeFetch(respond(401, "Invalid token")),
+    );
+    expect(rejected).toEqual({
+      ok: false,
+      statusCode: 401,
+      error: "HTTP 401: Invalid token",
+      permanent: true,
+    });
+  });
+
+  it("refuses private server URLs without sending anything", async () => {
+    const fetchFn = makeFetch();
+    const outcome = await sendToReadLater(
+      { provider: "linkding", baseUrl: "http://127.0.0.1:9090", credentials: { token: "t" } },
+      ARTICLE,
+      fetchFn,
+    );
+
+    expect(outcome).toMatchObject({ ok: false, permanent: true });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+});
+
+// ---- deliverDueReadLater ------------------------------------------------------
+
+function makePool(due: Array<Record<string, unknown>>) {
+  return {
+    query: vi.fn(async (sql: string) => {
+      if (sql.includes("FROM read_later_delivery d")) {
+        return { rows: due };
+      }
+      return { rows: [] };
+    }),
+  } as any;
+}
+
+function updateParams(pool: { query: { mock: { calls: any[][] } } }): unknown[][] {
+  return pool.query.mock.calls
+    .filter((c) => typeof c[0] === "string" && c[0].includes("UPDATE read_later_delivery"))
+    .map((c) => c[1]);
+}
+
+function makeDue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "delivery-1",
+    url: ARTICLE.url,
+    title: "Post",
+    attempt_count: 0,
+    provider: "readwise",
+    base_url: null,
+    credentials_encrypted: ENCRYPTED_TOKEN,
+    ...overrides,
+  };
+}
+
+describe("deliverDueReadLater", () => {
+  it("marks sent deliveries succeeded", async () => {
+    const pool = makePool([makeDue()]);
+    const fetchFn = makeFetch(respond(201));
+
+    const stats = await deliverDueReadLater(pool, TENANT_ID, CREDENTIALS_KEY, 10, fetchFn);
+
+    expect(stats).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+    expect(requestAt(fetchFn, 0).headers.Authorization).toBe("Token tok-1");
+    expect(updateParams(pool)[0]).toEqual(["delivery-1", TENANT_ID, 1, 201]);
+  });
+
+  it("reschedules transient failures and gives up after the last attempt", async () => {
+    const pool = makePool([
+      makeDue(),
+      makeDue({ id: "delivery-2", attempt_count: READ_LATER_MAX_ATTEMPTS - 1 }),
+    ]);
+    const fetchFn = makeFetch(respond(502), respond(502));
+
+    const stats = await deliverDueReadLater(pool, TENANT_ID, CREDENTIALS_KEY, 10, fetchFn);
+
+    expect(stats).toEqual({ attempted: 2, succeeded: 0, failed: 1 });
+    const [first, second] = updateParams(pool);
+    expect(first?.slice(0, 4)).toEqual(["delivery-1", TENANT_ID, "pending", 1]);
+    expect(second?.slice(0, 4)).toEqual([
+      "delivery-2",
+      TENANT_ID,
+      "failed",
+      READ_LATER_MAX_ATTEMPTS,
+    ]);
+  });
+
+  it("fails deliveries whose credentials can't be decrypted", async () => {
+    const pool = makePool([makeDue()]);
+    const fetchFn = makeFetch();
+
+    const stats = await deliverDueReadLater(pool, TENANT_ID, "x".repeat(32), 10, fetchFn);
+
+    expect(stats.failed).toBe(1);
+    expect(fetchFn).not.toHaveBeenCalled();
+    expect(updateParams(pool)[0]?.[2]).toBe("failed");
+  });
+});
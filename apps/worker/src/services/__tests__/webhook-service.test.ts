@@ -0,0 +1,219 @@
+import { createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  computeWebhookBackoffSeconds,
+  deliverDueWebhooks,
+  enqueueWebhookEvent,
+  pruneWebhookDeliveries,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_RETENTION_DAYS,
+  WEBHOOK_MAX_ATTEMPTS,
+} from "../webhook-service.js";
+
+// ---- Helpers ----------------------------------------------------------------
+
+const TENANT_ID = "tenant-1";
+
+interface DueRow {
+  id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempt_count: number;
+  url: string;
+  secret: string;
+}
+
+function makeDue(overrides: Partial<DueRow> = {}): DueRow {
+  return {
+    id: "delivery-1",
+    event_type: "cluster.created",
+    payload: { id: "event-1", type: "cluster.created", data: { clusterId: "c1" } },
+    attempt_count: 0,
+    url: "https://hooks.example.com/rss",
+    secret: "s3cret",
+    ...overrides,
+  };
+}
+
+function makePool(due: DueRow[] = []) {
+  return {
+    query: vi.fn(async (sql: string) => {
+      if (sql.includes("SKIP LOCKED")) {
+        return { rows: due };
+      }
+      if (sql.includes("INSERT INTO webhook_delivery")) {
+        return { rows: [], rowCount: 2 };
+      }
+      return { rows: [] };
+    }),
+  } as any;
+}
+
+function updateParams(pool: { query: { mock: { calls: any[][] } } }): unknown[][] {
+  return pool.query.mock.calls
+    .filter(
+      (c) =>
+        typeof c[0] === "string" &&
+        c[0].includes("UPDATE webhook_delivery") &&
+        !c[0].includes("SKIP LOCKED"),
+    )
+    .map((c) => c[1]);
+}
+
+// ---- signWebhookPayload -----------------------------------------------------
+
+describe("signWebhookPayload", () => {
+  it("signs timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "secret").update('1700000000.{"a":1}').digest("hex");
+    expect(signWebhookPayload("secret", 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it("changes when the timestamp changes", () => {
+    expect(signWebhookPayload("secret", 1, "{}")).not.toBe(signWebhookPayload("secret", 2, "{}"));
+  });
+});
+
+// ---- computeWebhookBackoffSeconds -------------------------------------------
+
+describe("computeWebhookBackoffSeconds", () => {
+  it("doubles from 30 seconds", () => {
+    expect(computeWebhookBackoffSeconds(1)).toBe(30);
+    expect(computeWebhookBackoffSeconds(2)).toBe(60);
+    expect(computeWebhookBackoffSeconds(3)).toBe(120);
+  });
+
+  it("caps at six hours", () => {
+    expect(computeWebhookBackoffSeconds(20)).toBe(6 * 60 * 60);
+  });
+});
+
+// ---- enqueueWebhookEvent ----------------------------------------------------
+
+describe("enqueueWebhookEvent", () => {
+  it("inserts one delivery per matching subscription with an event envelope", async () => {
+    const pool = makePool();
+    const queued = await enqueueWebhookEvent(pool, TENANT_ID, "digest.generated", {
+      digestId: "d1",
+    });
+
+    expect(queued).toBe(2);
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain("$3 = ANY(s.event_types)");
+    expect(params[0]).toBe(TENANT_ID);
+    expect(params[2]).toBe("digest.generated");
+    const envelope = JSON.parse(params[3]);
+    expect(envelope).toMatchObject({
+      id: params[1],
+      type: "digest.generated",
+      accountId: TENANT_ID,
+      data: { digestId: "d1" },
+    });
+  });
+});
+
+// ---- deliverDueWebhooks -----------------------------------------------------
+
+describe("deliverDueWebhooks", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("claims due rows atomically so overlapping runs never send one twice", async () => {
+    const pool = makePool([]);
+
+    await deliverDueWebhooks(pool, TENANT_ID, 10);
+
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain("FOR UPDATE OF d SKIP LOCKED");
+    expect(sql).toContain("SET next_attempt_at = NOW() + make_interval(secs => $3::int)");
+    expect(params.slice(0, 2)).toEqual([TENANT_ID, 10]);
+    // The claim outlasts ten sends that each hit the 10 second timeout.
+    expect(params[2]).toBeGreaterThan(10 * 10);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("posts a signed payload and marks the delivery succeeded", async () => {
+    fetchMock.mockResolvedValue(new Response("ok", { status: 200 }));
+    const pool = makePool([makeDue()]);
+
+    const stats = await deliverDueWebhooks(pool, TENANT_ID, 10);
+
+    expect(stats).toEqual({ attempted: 1, succeeded: 1, failed: 0 });
+    const [url, init] = fetchMock.mock.calls[0] as [string, any];
+    expect(url).toBe("https://hooks.example.com/rss");
+    expect(init.headers["X-Wrangler-Event"]).toBe("cluster.created");
+    expect(init.headers["X-Wrangler-Delivery"]).toBe("delivery-1");
+    const timestamp = Number(init.headers["X-Wrangler-Timestamp"]);
+    expect(init.headers["X-Wrangler-Signature"]).toBe(
+      signWebhookPayload("s3cret", timestamp, init.body),
+    );
+
+    const [params] = updateParams(pool);
+    expect(params).toEqual(["delivery-1", TENANT_ID, 1, 200]);
+  });
+
+  it("reschedules a failed attempt with backoff", async () => {
+    fetchMock.mockResolvedValue(new Response("nope", { status: 503 }));
+    const pool = makePool([makeDue({ attempt_count: 2 })]);
+
+    const stats = await deliverDueWebhooks(pool, TENANT_ID, 10);
+
+    expect(stats).toEqual({ attempted: 1, succeeded: 0, failed: 0 });
+    const [params] = updateParams(pool);
+    expect(params).toEqual([
+      "delivery-1",
+      TENANT_ID,
+      "pending",
+      3,
+      503,
+      "HTTP 503",
+      computeWebhookBackoffSeconds(3),
+    ]);
+  });
+
+  it("gives up after the last attempt", async () => {
+    fetchMock.mockRejectedValue(new Error("connect ECONNREFUSED"));
+    const pool = makePool([makeDue({ attempt_count: WEBHOOK_MAX_ATTEMPTS - 1 })]);
+
+    const stats = await deliverDueWebhooks(pool, TENANT_ID, 10);
+
+    expect(stats).toEqual({ attempted: 1, succeeded: 0, failed: 1 });
+    const [params] = updateParams(pool);
+    expect(params?.[2]).toBe("failed");
+    expect(params?.[5]).toBe("connect ECONNREFUSED");
+  });
+
+  it("fails private destinations without sending", async () => {
+    const pool = makePool([makeDue({ url: "http://localhost:8080/hook" })]);
+
+    const stats = await deliverDueWebhooks(pool, TENANT_ID, 10);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(stats).toEqual({ attempted: 1, succeeded: 0, failed: 1 });
+    const [params] = updateParams(pool);
+    expect(params?.[2]).toBe("failed");
+  });
+});
+
+// ---- pruneWebhookDeliveries -------------------------------------------------
+
+describe("pruneWebhookDeliveries", () => {
+  it("deletes finished deliveries past the retention window and keeps pending ones", async () => {
+    const pool = {
+      query: vi.fn(async () => ({ rows: [], rowCount: 4 })),
+    } as any;
+
+    expect(await pruneWebhookDeliveries(pool, TENANT_ID)).toBe(4);
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain("DELETE FROM webhook_delivery");
+    expect(sql).toContain("status <> 'pending'");
+    expect(params).toEqual([TENANT_ID, WEBHOOK_DELIVERY_RETENTION_DAYS]);
+  });
+});
@@ -2,7 +2,7 @@ import type { AiCompletionResponse } from "@rss-wrangler/contracts";
 import { estimateCostUsd } from "@rss-wrangler/contracts";
 import type { Pool } from "pg";
 
-export type AiStage = "summary" | "classification" | "digest" | "recommendation";
+export type AiStage = "summary" | "classification" | "digest" | "recommendation" | "embedding";
 
 export async function logAiUsage(
   pool: Pool,
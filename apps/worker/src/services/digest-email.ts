@@ -0,0 +1,178 @@
+import { createHmac } from "node:crypto";
+import { type DigestSectionHeading, digestSectionHeadings } from "@rss-wrangler/contracts";
+
+export type DigestEmailAction = "read" | "save" | "unsubscribe";
+
+/** Claims carried by a one-click link; the API verifies them with the same secret. */
+export interface DigestLinkClaims {
+  accountId: string;
+  userId: string;
+  action: DigestEmailAction;
+  clusterId?: string;
+  /** Unix seconds. */
+  expiresAt: number;
+}
+
+export interface DigestEmailEntry {
+  clusterId: string;
+  headline: string;
+  section: string;
+  oneLiner: string | null;
+  sourceName: string;
+}
+
+export interface DigestEmailLinks {
+  secret: string;
+  /** Public API origin serving `/v1/digest-email/action`. */
+  actionBaseUrl: string;
+  /** Web app origin for story and digest links. */
+  appBaseUrl: string;
+}
+
+export interface RenderedDigestEmail {
+  subject: string;
+  html: string;
+  text: string;
+  unsubscribeUrl: string;
+}
+
+const CLUSTER_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+const UNSUBSCRIBE_LINK_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * `<base64url claims>.<base64url HMAC-SHA256>`. Claims use short keys to
+ * keep the URLs compact.
+ */
+export function signDigestLinkToken(secret: string, claims: DigestLinkClaims): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      a: claims.accountId,
+      u: claims.userId,
+      x: claims.action,
+      c: claims.clusterId,
+      e: claims.expiresAt,
+    }),
+    "utf8",
+  ).toString("base64url");
+  const signature = createHmac("sha256", secret).update(payload, "utf8").digest("base64url");
+  return `${payload}.${signature}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Renders a digest as a single-column HTML email that reflows on phones,
+ * plus a plain-text alternative. Every story gets signed "mark read" and
+ * "save" links, and the footer carries a signed unsubscribe link.
+ */
+export function renderDigestEmail(
+  digest: { title: string; sections?: DigestSectionHeading[]; entries: DigestEmailEntry[] },
+  recipient: { accountId: string; userId: string },
+  links: DigestEmailLinks,
+  now = new Date(),
+): RenderedDigestEmail {
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const actionBase = `${trimSlash(links.actionBaseUrl)}/v1/digest-email/action`;
+  const appBase = trimSlash(links.appBaseUrl);
+
+  const actionUrl = (action: DigestEmailAction, clusterId?: string) => {
+    const ttl = action === "unsubscribe" ? UNSUBSCRIBE_LINK_TTL_SECONDS : CLUSTER_LINK_TTL_SECONDS;
+    const token = signDigestLinkToken(links.secret, {
+      ...recipient,
+      action,
+      clusterId,
+      expiresAt: nowSeconds + ttl,
+    });
+    return `${actionBase}?token=${encodeURIComponent(token)}`;
+  };
+
+  const unsubscribeUrl = actionUrl("unsubscribe");
+  const digestUrl = `${appBase}/digest`;
+  const htmlSections: string[] = [];
+  const textSections: string[] = [];
+
+  for (const section of digestSectionHeadings(digest)) {
+    const items = digest.entries.filter((entry) => entry.section === section.id);
+    if (items.length === 0) continue;
+
+    const htmlItems = items.map((entry) => {
+      const storyUrl = `${appBase}/clusters/${entry.clusterId}`;
+      const oneLiner = entry.oneLiner
+        ? `<p style="margin:4px 0 0;color:#444;font-size:14px;line-height:1.45;">${escapeHtml(entry.oneLiner)}</p>`
+        : "";
+      return `<tr><td style="padding:12px 0;border-bottom:1px solid #eee;">
+<a href="${escapeHtml(storyUrl)}" style="color:#111;font-size:16px;font-weight:600;text-decoration:none;">${escapeHtml(entry.headline)}</a>
+<p style="margin:2px 0 0;color:#777;font-size:12px;">${escapeHtml(entry.sourceName)}</p>${oneLiner}
+<p style="margin:8px 0 0;font-size:13px;"><a href="${escapeHtml(actionUrl("read", entry.clusterId))}" style="color:#2563eb;">Mark read</a> &middot; <a href="${escapeHtml(actionUrl("save", entry.clusterId))}" style="color:#2563eb;">Save</a></p>
+</td></tr>`;
+    });
+    htmlSections.push(
+      `<tr><td class="section" style="padding:20px 0 4px;font-size:13px;font-weight:700;letter-spacing:0.04em;text-transform:uppercase;color:#555;">${escapeHtml(section.title)}</td></tr>\n${htmlItems.join("\n")}`,
+    );
+
+    const textItems = items.map((entry) =>
+      [
+        `- ${entry.headline} (${entry.sourceName})`,
+        entry.oneLiner ? `  ${entry.oneLiner}` : null,
+        `  Read: ${appBase}/clusters/${entry.clusterId}`,
+        `  Mark read: ${actionUrl("read", entry.clusterId)}`,
+        `  Save: ${actionUrl("save", entry.clusterId)}`,
+      ]
+        .filter((line): line is string => line !== null)
+        .join("\n"),
+    );
+    textSections.push(`${section.title.toUpperCase()}\n\n${textItems.join("\n\n")}`);
+  }
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(digest.title)}</title>
+<style>
+@media (max-width: 620px) {
+  .container { width: 100% !important; padding: 16px !important; }
+}
+</style>
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;">
+<tr><td align="center" style="padding:24px 8px;">
+<table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" style="width:600px;max-width:100%;background:#ffffff;border-radius:8px;padding:24px;">
+<tr><td style="font-size:20px;font-weight:700;color:#111;padding-bottom:4px;">${escapeHtml(digest.title)}</td></tr>
+${htmlSections.join("\n")}
+<tr><td style="padding-top:24px;font-size:12px;color:#777;line-height:1.5;">
+<a href="${escapeHtml(digestUrl)}" style="color:#2563eb;">Open in RSS Wrangler</a><br>
+You are receiving this because digest email is on in your settings.
+<a href="${escapeHtml(unsubscribeUrl)}" style="color:#777;">Unsubscribe</a>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+  const text = [
+    digest.title,
+    "",
+    textSections.join("\n\n"),
+    "",
+    `Open in RSS Wrangler: ${digestUrl}`,
+    `Unsubscribe: ${unsubscribeUrl}`,
+    "",
+  ].join("\n");
+
+  return { subject: digest.title, html, text, unsubscribeUrl };
+}
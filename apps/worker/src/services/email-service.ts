@@ -0,0 +1,216 @@
+import { randomUUID } from "node:crypto";
+import { connect, type Socket } from "node:net";
+
+const SMTP_TIMEOUT_MS = 15_000;
+const DEFAULT_FROM = "RSS Wrangler <no-reply@rss-wrangler.local>";
+
+export interface SendEmailInput {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailConfig {
+  from?: string;
+  resendApiKey?: string;
+  smtpUrl?: string;
+}
+
+/** The bare address from `Name <address>` or a plain address. */
+export function emailAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return (match?.[1] ?? value).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return (
+    Buffer.from(value, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+/**
+ * Builds a multipart/alternative message (plain text first, HTML second) with
+ * base64 bodies so long lines and non-ASCII text survive any relay.
+ */
+export function buildMimeMessage(from: string, input: SendEmailInput, now = new Date()): string {
+  const boundary = `rw-${randomUUID()}`;
+  const headers: Record<string, string> = {
+    From: from,
+    To: input.to,
+    Subject: encodeHeader(input.subject),
+    Date: now.toUTCString(),
+    "Message-ID": `<${randomUUID()}@${emailAddress(from).split("@")[1] ?? "localhost"}>`,
+    "MIME-Version": "1.0",
+    "Content-Type": `multipart/alternative; boundary="${boundary}"`,
+    ...input.headers,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(input.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(input.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Minimal SMTP client for plain relays such as a local Mailpit or MailHog:
+ * no TLS and no AUTH, which is all a development stand-in needs.
+ */
+export async function sendViaSmtp(
+  smtpUrl: string,
+  from: string,
+  input: SendEmailInput,
+): Promise<void> {
+  const url = new URL(smtpUrl);
+  const socket = connect({ host: url.hostname, port: Number(url.port || 25) });
+  socket.setEncoding("utf8");
+  socket.setTimeout(SMTP_TIMEOUT_MS);
+
+  let buffer = "";
+  let pending: { resolve: (reply: string) => void; reject: (err: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const fail = (err: Error) => {
+    failure = err;
+    pending?.reject(err);
+    pending = null;
+  };
+
+  // A reply is complete at a line whose fourth character is a space
+  // ("250 OK"); "250-..." lines continue a multi-line reply.
+  const flush = () => {
+    if (!pending) return;
+    // The last segment has no line ending yet, so it is never a full reply.
+    const lines = buffer.split("\r\n");
+    const lastIndex = lines
+      .slice(0, -1)
+      .findIndex((line) => /^\d{3} /.test(line) || /^\d{3}$/.test(line));
+    if (lastIndex === -1) return;
+    const reply = lines.slice(0, lastIndex + 1).join("\n");
+    buffer = lines.slice(lastIndex + 1).join("\r\n");
+    const current = pending;
+    pending = null;
+    current.resolve(reply);
+  };
+
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    flush();
+  });
+  socket.on("error", fail);
+  socket.on("timeout", () => {
+    fail(new Error("SMTP connection timed out"));
+    socket.destroy();
+  });
+  socket.on("close", () => fail(new Error("SMTP connection closed")));
+
+  const expect = (codes: number[], command?: string): Promise<string> =>
+    new Promise((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      pending = {
+        resolve: (reply) => {
+          const code = Number(reply.slice(0, 3));
+          if (codes.includes(code)) resolve(reply);
+          else reject(new Error(`SMTP ${command ?? "greeting"} failed: ${reply}`));
+        },
+        reject,
+      };
+      if (command !== undefined) writeLine(socket, command);
+      flush();
+    });
+
+  try {
+    await expect([220]);
+    await expect([250], `EHLO ${emailAddress(from).split("@")[1] ?? "localhost"}`);
+    await expect([250], `MAIL FROM:<${emailAddress(from)}>`);
+    await expect([250, 251], `RCPT TO:<${emailAddress(input.to)}>`);
+    await expect([354], "DATA");
+    // Dot-stuffing: a line starting with "." gets a second one.
+    const body = buildMimeMessage(from, input).replace(/^\./gm, "..");
+    await expect([250], `${body}\r\n.`);
+    await expect([221], "QUIT").catch(() => undefined);
+  } finally {
+    socket.removeAllListeners("close");
+    socket.end();
+  }
+}
+
+function writeLine(socket: Socket, line: string) {
+  socket.write(`${line}\r\n`);
+}
+
+async function sendViaResend(apiKey: string, from: string, input: SendEmailInput) {
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from,
+      to: [input.to],
+      subject: input.subject,
+      html: input.html,
+      text: input.text,
+      headers: input.headers,
+    }),
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => "");
+    throw new Error(`failed to send email (${response.status}): ${details.slice(0, 200)}`);
+  }
+}
+
+/**
+ * Same contract as the API's email service: SMTP when configured (local
+ * development), Resend in hosted deployments, otherwise a logged skip.
+ */
+export function createEmailService(config: EmailConfig) {
+  const from = config.from ?? DEFAULT_FROM;
+
+  async function send(input: SendEmailInput): Promise<"sent" | "skipped"> {
+    if (config.smtpUrl) {
+      await sendViaSmtp(config.smtpUrl, from, input);
+      return "sent";
+    }
+    if (config.resendApiKey) {
+      await sendViaResend(config.resendApiKey, from, input);
+      return "sent";
+    }
+    console.info("[email] no SMTP_URL or RESEND_API_KEY configured; skipping email", {
+      to: input.to,
+      subject: input.subject,
+    });
+    return "skipped";
+  }
+
+  return { send };
+}
+
+export type EmailService = ReturnType<typeof createEmailService>;
@@ -1,5 +1,8 @@
 import type { Pool } from "pg";
 
+/** How often a feed with an active WebSub subscription is still polled. */
+export const WEBSUB_SAFETY_POLL_HOURS = 6;
+
 export interface DueFeed {
   id: string;
   accountId: string;
@@ -37,7 +40,17 @@ export class FeedService {
        WHERE tenant_id = $1
          AND muted = FALSE
          AND (circuit_open_until IS NULL OR circuit_open_until <= NOW())
-       ORDER BY last_polled_at ASC NULLS FIRST
+         -- Each feed carries its own schedule (see stages/schedule-poll.ts);
+         -- feeds never scheduled are due straight away.
+         AND (next_poll_at IS NULL OR next_poll_at <= NOW())
+         -- Feeds with a live WebSub lease only get a slow safety poll, so a
+         -- silent hub still falls back to polling.
+         AND NOT (
+           websub_state = 'active'
+           AND websub_lease_expires_at > NOW()
+           AND last_polled_at > NOW() - INTERVAL '${WEBSUB_SAFETY_POLL_HOURS} hours'
+         )
+       ORDER BY next_poll_at ASC NULLS FIRST, last_polled_at ASC NULLS FIRST
        LIMIT $2`,
       [accountId, limit],
     );
@@ -0,0 +1,52 @@
+import { type Settings, settingsSchema } from "@rss-wrangler/contracts";
+import type { Pool } from "pg";
+
+export interface MemberSettingLayers {
+  /** The workspace `app_settings` blob, including the owner's `lockedKeys`. */
+  workspace: unknown;
+  /** The member's `member_settings` overrides. */
+  member: unknown;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Resolves one setting the way the API layers them: the member override wins
+ * unless the owner locked the key, then the workspace value. Invalid stored
+ * values are skipped; undefined means neither layer has a usable value.
+ */
+export function layerMemberSetting<K extends keyof Settings>(
+  layers: MemberSettingLayers,
+  key: K,
+): Settings[K] | undefined {
+  const workspace = asRecord(layers.workspace);
+  const member = asRecord(layers.member);
+  const locked = Array.isArray(workspace.lockedKeys) ? workspace.lockedKeys : [];
+  const schema = settingsSchema.shape[key];
+
+  let resolved: Settings[K] | undefined;
+  for (const layer of locked.includes(key) ? [workspace] : [workspace, member]) {
+    if (!Object.hasOwn(layer, key)) continue;
+    const parsed = schema.safeParse(layer[key]);
+    if (parsed.success) resolved = parsed.data as Settings[K];
+  }
+  return resolved;
+}
+
+export async function loadMemberSettingLayers(
+  pool: Pool,
+  accountId: string,
+  userId: string,
+): Promise<MemberSettingLayers> {
+  const workspace = await pool.query<{ data: unknown }>(
+    "SELECT data FROM app_settings WHERE tenant_id = $1 AND key = 'main' LIMIT 1",
+    [accountId],
+  );
+  const member = await pool.query<{ data: unknown }>(
+    "SELECT data FROM member_settings WHERE tenant_id = $1 AND user_id = $2",
+    [accountId, userId],
+  );
+  return { workspace: workspace.rows[0]?.data, member: member.rows[0]?.data };
+}
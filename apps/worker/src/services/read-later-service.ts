@@ -0,0 +1,374 @@
+import { createDecipheriv, createHash, createHmac } from "node:crypto";
+import type { Pool } from "pg";
+import { validateFeedUrl } from "../pipeline/stages/poll-feed";
+import { computeWebhookBackoffSeconds } from "./webhook-service";
+
+export type ReadLaterProvider =
+  | "wallabag"
+  | "readwise"
+  | "instapaper"
+  | "pocket"
+  | "omnivore"
+  | "linkding"
+  | "shaarli";
+
+export const READ_LATER_MAX_ATTEMPTS = 6;
+const READ_LATER_TIMEOUT_MS = 15_000;
+const READ_LATER_ERROR_MAX_LENGTH = 500;
+const USER_AGENT = "rss-wrangler-read-later/1.0";
+
+const DEFAULT_BASE_URLS: Partial<Record<ReadLaterProvider, string>> = {
+  pocket: "https://getpocket.com",
+  omnivore: "https://api-prod.omnivore.app",
+};
+
+interface DueDeliveryRow {
+  id: string;
+  url: string;
+  title: string | null;
+  attempt_count: number;
+  provider: ReadLaterProvider;
+  base_url: string | null;
+  credentials_encrypted: string;
+}
+
+export interface ReadLaterConnectionTarget {
+  provider: ReadLaterProvider;
+  baseUrl: string | null;
+  credentials: Record<string, string>;
+}
+
+export interface ReadLaterArticle {
+  deliveryId: string;
+  url: string;
+  title: string | null;
+}
+
+export interface ReadLaterDeliveryStats {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+export type ReadLaterOutcome =
+  | { ok: true; statusCode: number }
+  | { ok: false; statusCode: number | null; error: string; permanent: boolean };
+
+type FetchFn = typeof fetch;
+
+/**
+ * Reverses `encryptCredentials` in apps/api/src/services/credential-cipher.ts
+ * (AES-256-GCM, `v1.<iv>.<tag>.<ciphertext>`). Returns null on any mismatch.
+ */
+export function decryptCredentials(secret: string, value: string): Record<string, string> | null {
+  const [version, iv, tag, ciphertext] = value.split(".");
+  if (version !== "v1" || !iv || !tag || ciphertext === undefined) return null;
+
+  try {
+    const key = createHash("sha256").update(secret, "utf8").digest();
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64url"));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+    const parsed: unknown = JSON.parse(plaintext);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, string>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Shaarli's API takes an HS512 JWT signed with the instance's API secret. */
+export function signShaarliToken(apiSecret: string, issuedAt: number): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ typ: "JWT", alg: "HS512" })}.${encode({ iat: issuedAt })}`;
+  const signature = createHmac("sha512", apiSecret).update(unsigned, "utf8").digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+function failure(statusCode: number | null, error: string, permanent: boolean): ReadLaterOutcome {
+  return { ok: false, statusCode, error, permanent };
+}
+
+/** Client errors other than rate limiting won't succeed on retry. */
+function outcomeForStatus(status: number, body: string): ReadLaterOutcome {
+  if (status >= 200 && status < 300) return { ok: true, statusCode: status };
+  const detail = body.trim().slice(0, 200);
+  const error = detail ? `HTTP ${status}: ${detail}` : `HTTP ${status}`;
+  return failure(status, error, status >= 400 && status < 500 && status !== 429);
+}
+
+async function postRequest(
+  fetchFn: FetchFn,
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<{ status: number; text: string }> {
+  const response = await fetchFn(url, {
+    method: "POST",
+    headers: { "User-Agent": USER_AGENT, ...headers },
+    body,
+    redirect: "manual",
+    signal: AbortSignal.timeout(READ_LATER_TIMEOUT_MS),
+  });
+  return { status: response.status, text: await response.text() };
+}
+
+function jsonHeaders(extra: Record<string, string> = {}) {
+  return { "Content-Type": "application/json", Accept: "application/json", ...extra };
+}
+
+function formHeaders(extra: Record<string, string> = {}) {
+  return { "Content-Type": "application/x-www-form-urlencoded", ...extra };
+}
+
+async function sendToWallabag(
+  fetchFn: FetchFn,
+  baseUrl: string,
+  credentials: Record<string, string>,
+  article: ReadLaterArticle,
+): Promise<ReadLaterOutcome> {
+  const tokenResponse = await postRequest(
+    fetchFn,
+    `${baseUrl}/oauth/v2/token`,
+    formHeaders(),
+    new URLSearchParams({
+      grant_type: "password",
+      client_id: credentials.clientId ?? "",
+      client_secret: credentials.clientSecret ?? "",
+      username: credentials.username ?? "",
+      password: credentials.password ?? "",
+    }).toString(),
+  );
+  const tokenOutcome = outcomeForStatus(tokenResponse.status, tokenResponse.text);
+  if (!tokenOutcome.ok) return tokenOutcome;
+
+  let accessToken: unknown;
+  try {
+    accessToken = (JSON.parse(tokenResponse.text) as { access_token?: unknown }).access_token;
+  } catch {
+    accessToken = undefined;
+  }
+  if (typeof accessToken !== "string") {
+    return failure(tokenResponse.status, "Wallabag did not return an access token", false);
+  }
+
+  const response = await postRequest(
+    fetchFn,
+    `${baseUrl}/api/entries.json`,
+    jsonHeaders({ Authorization: `Bearer ${accessToken}` }),
+    JSON.stringify({ url: article.url, title: article.title ?? undefined }),
+  );
+  return outcomeForStatus(response.status, response.text);
+}
+
+async function sendToOmnivore(
+  fetchFn: FetchFn,
+  baseUrl: string,
+  credentials: Record<string, string>,
+  article: ReadLaterArticle,
+): Promise<ReadLaterOutcome> {
+  const response = await postRequest(
+    fetchFn,
+    `${baseUrl}/api/graphql`,
+    jsonHeaders({ Authorization: credentials.apiKey ?? "" }),
+    JSON.stringify({
+      query: `mutation SaveUrl($input: SaveUrlInput!) {
+  saveUrl(input: $input) {
+    ... on SaveSuccess { url }
+    ... on SaveError { errorCodes message }
+  }
+}`,
+      variables: {
+        input: { url: article.url, clientRequestId: article.deliveryId, source: "api" },
+      },
+    }),
+  );
+  const outcome = outcomeForStatus(response.status, response.text);
+  if (!outcome.ok) return outcome;
+
+  // GraphQL reports failures in a 200 response.
+  try {
+    const body = JSON.parse(response.text) as {
+      errors?: Array<{ message?: string }>;
+      data?: { saveUrl?: { errorCodes?: string[]; message?: string } };
+    };
+    const saveError = body.data?.saveUrl?.errorCodes;
+    if (body.errors?.length || saveError?.length) {
+      const message =
+        body.errors?.[0]?.message ?? body.data?.saveUrl?.message ?? saveError?.join(", ");
+      const unauthorized = saveError?.includes("UNAUTHORIZED") ?? false;
+      return failure(response.status, `Omnivore: ${message ?? "save failed"}`, unauthorized);
+    }
+  } catch {
+    return failure(response.status, "Omnivore returned an unreadable response", false);
+  }
+  return outcome;
+}
+
+/**
+ * Sends one article to a read-later service. `fetchFn` is injectable for
+ * tests; everything else comes from the decrypted connection.
+ */
+export async function sendToReadLater(
+  connection: ReadLaterConnectionTarget,
+  article: ReadLaterArticle,
+  fetchFn: FetchFn = fetch,
+): Promise<ReadLaterOutcome> {
+  const { provider, credentials } = connection;
+  const baseUrl = (connection.baseUrl ?? DEFAULT_BASE_URLS[provider] ?? "").replace(/\/+$/, "");
+  if (baseUrl) {
+    try {
+      validateFeedUrl(baseUrl);
+    } catch (err) {
+      return failure(null, err instanceof Error ? err.message : String(err), true);
+    }
+  }
+
+  const { url, title } = article;
+  try {
+    switch (provider) {
+      case "wallabag":
+        return await sendToWallabag(fetchFn, baseUrl, credentials, article);
+      case "omnivore":
+        return await sendToOmnivore(fetchFn, baseUrl, credentials, article);
+      case "readwise": {
+        const response = await postRequest(
+          fetchFn,
+          "https://readwise.io/api/v3/save/",
+          jsonHeaders({ Authorization: `Token ${credentials.token ?? ""}` }),
+          JSON.stringify({ url, title: title ?? undefined, saved_using: "rss-wrangler" }),
+        );
+        return outcomeForStatus(response.status, response.text);
+      }
+      case "instapaper": {
+        const basic = Buffer.from(
+          `${credentials.username ?? ""}:${credentials.password ?? ""}`,
+        ).toString("base64");
+        const response = await postRequest(
+          fetchFn,
+          "https://www.instapaper.com/api/add",
+          formHeaders({ Authorization: `Basic ${basic}` }),
+          new URLSearchParams({ url, ...(title ? { title } : {}) }).toString(),
+        );
+        return outcomeForStatus(response.status, response.text);
+      }
+      case "pocket": {
+        const response = await postRequest(
+          fetchFn,
+          `${baseUrl}/v3/add`,
+          jsonHeaders({ "X-Accept": "application/json" }),
+          JSON.stringify({
+            url,
+            title: title ?? undefined,
+            consumer_key: credentials.consumerKey,
+            access_token: credentials.accessToken,
+          }),
+        );
+        return outcomeForStatus(response.status, response.text);
+      }
+      case "linkding": {
+        const response = await postRequest(
+          fetchFn,
+          `${baseUrl}/api/bookmarks/`,
+          jsonHeaders({ Authorization: `Token ${credentials.token ?? ""}` }),
+          JSON.stringify({ url, title: title ?? "" }),
+        );
+        return outcomeForStatus(response.status, response.text);
+      }
+      case "shaarli": {
+        const token = signShaarliToken(credentials.apiSecret ?? "", Math.floor(Date.now() / 1000));
+        const response = await postRequest(
+          fetchFn,
+          `${baseUrl}/api/v1/links`,
+          jsonHeaders({ Authorization: `Bearer ${token}` }),
+          JSON.stringify({ url, title: title ?? undefined, private: false }),
+        );
+        return outcomeForStatus(response.status, response.text);
+      }
+    }
+  } catch (err) {
+    return failure(null, err instanceof Error ? err.message : String(err), false);
+  }
+}
+
+/**
+ * Sends due read-later deliveries for one account. Failures are rescheduled
+ * with the webhook backoff until READ_LATER_MAX_ATTEMPTS, then marked failed.
+ */
+export async function deliverDueReadLater(
+  pool: Pool,
+  accountId: string,
+  credentialsKey: string,
+  batchSize: number,
+  fetchFn: FetchFn = fetch,
+): Promise<ReadLaterDeliveryStats> {
+  const { rows } = await pool.query<DueDeliveryRow>(
+    `SELECT d.id, d.url, d.title, d.attempt_count, c.provider, c.base_url, c.credentials_encrypted
+     FROM read_later_delivery d
+     JOIN read_later_connection c ON c.id = d.connection_id AND c.tenant_id = d.tenant_id
+     WHERE d.tenant_id = $1
+       AND d.status = 'pending'
+       AND d.next_attempt_at <= NOW()
+       AND c.enabled = TRUE
+     ORDER BY d.next_attempt_at ASC
+     LIMIT $2`,
+    [accountId, batchSize],
+  );
+
+  const stats: ReadLaterDeliveryStats = { attempted: 0, succeeded: 0, failed: 0 };
+
+  for (const delivery of rows) {
+    stats.attempted += 1;
+    const attemptCount = delivery.attempt_count + 1;
+    const credentials = decryptCredentials(credentialsKey, delivery.credentials_encrypted);
+    const outcome: ReadLaterOutcome = credentials
+      ? await sendToReadLater(
+          { provider: delivery.provider, baseUrl: delivery.base_url, credentials },
+          { deliveryId: delivery.id, url: delivery.url, title: delivery.title },
+          fetchFn,
+        )
+      : failure(null, "stored credentials could not be decrypted; reconnect the service", true);
+
+    if (outcome.ok) {
+      stats.succeeded += 1;
+      await pool.query(
+        `UPDATE read_later_delivery
+         SET status = 'succeeded',
+             attempt_count = $3,
+             last_status_code = $4,
+             last_error = NULL,
+             delivered_at = NOW()
+         WHERE id = $1 AND tenant_id = $2`,
+        [delivery.id, accountId, attemptCount, outcome.statusCode],
+      );
+      continue;
+    }
+
+    const giveUp = outcome.permanent || attemptCount >= READ_LATER_MAX_ATTEMPTS;
+    if (giveUp) {
+      stats.failed += 1;
+    }
+    await pool.query(
+      `UPDATE read_later_delivery
+       SET status = $3,
+           attempt_count = $4,
+           last_status_code = $5,
+           last_error = $6,
+           next_attempt_at = NOW() + make_interval(secs => $7::int)
+       WHERE id = $1 AND tenant_id = $2`,
+      [
+        delivery.id,
+        accountId,
+        giveUp ? "failed" : "pending",
+        attemptCount,
+        outcome.statusCode,
+        outcome.error.slice(0, READ_LATER_ERROR_MAX_LENGTH),
+        computeWebhookBackoffSeconds(attemptCount),
+      ],
+    );
+  }
+
+  return stats;
+}
@@ -0,0 +1,231 @@
+import { createHmac, randomUUID } from "node:crypto";
+import type { Pool } from "pg";
+import { validateFeedUrl } from "../pipeline/stages/poll-feed";
+
+export type WebhookEventType =
+  | "cluster.created"
+  | "cluster.saved"
+  | "annotation.created"
+  | "digest.generated"
+  | "feed.failed";
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const WEBHOOK_BASE_BACKOFF_SECONDS = 30;
+const WEBHOOK_MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const WEBHOOK_ERROR_MAX_LENGTH = 500;
+// A claimed delivery is not due again for this long, which covers a full batch
+// of timed-out sends; if the worker dies mid-batch the rows retry afterwards.
+const WEBHOOK_CLAIM_LEASE_SECONDS = 15 * 60;
+/** Finished deliveries (the delivery log) are kept this long. */
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+interface DueDeliveryRow {
+  id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempt_count: number;
+  url: string;
+  secret: string;
+}
+
+export interface WebhookDeliveryStats {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Signs `<timestamp>.<body>` so receivers can reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`, "utf8").digest("hex")}`;
+}
+
+/** Seconds to wait before the next attempt after `attemptCount` failures. */
+export function computeWebhookBackoffSeconds(attemptCount: number): number {
+  const exponent = Math.max(attemptCount - 1, 0);
+  return Math.min(WEBHOOK_BASE_BACKOFF_SECONDS * 2 ** exponent, WEBHOOK_MAX_BACKOFF_SECONDS);
+}
+
+/**
+ * Queues an event for every enabled subscription that listens for it. The
+ * delivery job picks the rows up; nothing is sent inline.
+ */
+export async function enqueueWebhookEvent(
+  pool: Pool,
+  accountId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<number> {
+  const eventId = randomUUID();
+  const envelope = {
+    id: eventId,
+    type,
+    createdAt: new Date().toISOString(),
+    accountId,
+    data,
+  };
+
+  const result = await pool.query(
+    `INSERT INTO webhook_delivery (tenant_id, subscription_id, event_id, event_type, payload)
+     SELECT $1, s.id, $2, $3, $4::jsonb
+     FROM webhook_subscription s
+     WHERE s.tenant_id = $1
+       AND s.enabled = TRUE
+       AND $3 = ANY(s.event_types)`,
+    [accountId, eventId, type, JSON.stringify(envelope)],
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Sends due deliveries for one account. Failures are rescheduled with
+ * exponential backoff until WEBHOOK_MAX_ATTEMPTS, then marked failed.
+ *
+ * The scheduled run and an on-demand test run can overlap, so rows are
+ * claimed first: locked with SKIP LOCKED and pushed out of the due window in
+ * the same statement, so each delivery is sent by one run only.
+ */
+export async function deliverDueWebhooks(
+  pool: Pool,
+  accountId: string,
+  batchSize: number,
+): Promise<WebhookDeliveryStats> {
+  const { rows } = await pool.query<DueDeliveryRow>(
+    `WITH due AS (
+       SELECT d.id
+       FROM webhook_delivery d
+       JOIN webhook_subscription s ON s.id = d.subscription_id AND s.tenant_id = d.tenant_id
+       WHERE d.tenant_id = $1
+         AND d.status = 'pending'
+         AND d.next_attempt_at <= NOW()
+         AND (s.enabled = TRUE OR d.event_type = 'webhook.test')
+       ORDER BY d.next_attempt_at ASC
+       LIMIT $2
+       FOR UPDATE OF d SKIP LOCKED
+     )
+     UPDATE webhook_delivery d
+     SET next_attempt_at = NOW() + make_interval(secs => $3::int)
+     FROM due, webhook_subscription s
+     WHERE d.id = due.id
+       AND s.id = d.subscription_id
+       AND s.tenant_id = d.tenant_id
+     RETURNING d.id, d.event_type, d.payload, d.attempt_count, s.url, s.secret`,
+    [accountId, batchSize, WEBHOOK_CLAIM_LEASE_SECONDS],
+  );
+
+  const stats: WebhookDeliveryStats = { attempted: 0, succeeded: 0, failed: 0 };
+
+  for (const delivery of rows) {
+    stats.attempted += 1;
+    const attemptCount = delivery.attempt_count + 1;
+    const outcome = await sendDelivery(delivery);
+
+    if (outcome.ok) {
+      stats.succeeded += 1;
+      await pool.query(
+        `UPDATE webhook_delivery
+         SET status = 'succeeded',
+             attempt_count = $3,
+             last_status_code = $4,
+             last_error = NULL,
+             delivered_at = NOW()
+         WHERE id = $1 AND tenant_id = $2`,
+        [delivery.id, accountId, attemptCount, outcome.statusCode],
+      );
+      continue;
+    }
+
+    const giveUp = outcome.permanent || attemptCount >= WEBHOOK_MAX_ATTEMPTS;
+    if (giveUp) {
+      stats.failed += 1;
+    }
+    await pool.query(
+      `UPDATE webhook_delivery
+       SET status = $3,
+           attempt_count = $4,
+           last_status_code = $5,
+           last_error = $6,
+           next_attempt_at = NOW() + make_interval(secs => $7::int)
+       WHERE id = $1 AND tenant_id = $2`,
+      [
+        delivery.id,
+        accountId,
+        giveUp ? "failed" : "pending",
+        attemptCount,
+        outcome.statusCode,
+        outcome.error.slice(0, WEBHOOK_ERROR_MAX_LENGTH),
+        computeWebhookBackoffSeconds(attemptCount),
+      ],
+    );
+  }
+
+  return stats;
+}
+
+/** Deletes finished deliveries older than WEBHOOK_DELIVERY_RETENTION_DAYS. */
+export async function pruneWebhookDeliveries(pool: Pool, accountId: string): Promise<number> {
+  const result = await pool.query(
+    `DELETE FROM webhook_delivery
+     WHERE tenant_id = $1
+       AND status <> 'pending'
+       AND created_at < NOW() - make_interval(days => $2::int)`,
+    [accountId, WEBHOOK_DELIVERY_RETENTION_DAYS],
+  );
+  return result.rowCount ?? 0;
+}
+
+type DeliveryOutcome =
+  | { ok: true; statusCode: number }
+  | { ok: false; statusCode: number | null; error: string; permanent: boolean };
+
+async function sendDelivery(delivery: DueDeliveryRow): Promise<DeliveryOutcome> {
+  try {
+    validateFeedUrl(delivery.url);
+  } catch (err) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: err instanceof Error ? err.message : String(err),
+      permanent: true,
+    };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "rss-wrangler-webhooks/1.0",
+        "X-Wrangler-Event": delivery.event_type,
+        "X-Wrangler-Delivery": delivery.id,
+        "X-Wrangler-Timestamp": String(timestamp),
+        "X-Wrangler-Signature": signWebhookPayload(delivery.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, statusCode: response.status };
+    }
+    return {
+      ok: false,
+      statusCode: response.status,
+      error: `HTTP ${response.status}`,
+      permanent: false,
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: err instanceof Error ? err.message : String(err),
+      permanent: false,
+    };
+  }
+}
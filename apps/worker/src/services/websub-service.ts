@@ -0,0 +1,191 @@
+import { randomBytes } from "node:crypto";
+import type { Pool } from "pg";
+import { validateFeedUrl, type WebSubLinks } from "../pipeline/stages/poll-feed";
+
+export interface WebSubConfig {
+  /** Public base URL of the API; hubs call back to `/v1/websub/:accountId/:feedId?token=`. */
+  callbackBaseUrl: string;
+  leaseSeconds: number;
+}
+
+export interface WebSubRenewalStats {
+  candidates: number;
+  requested: number;
+}
+
+const RENEWAL_BATCH_SIZE = 50;
+
+export function buildWebSubCallbackUrl(
+  config: WebSubConfig,
+  accountId: string,
+  feedId: string,
+  callbackToken: string,
+): string {
+  const base = config.callbackBaseUrl.replace(/\/+$/, "");
+  const query = new URLSearchParams({ token: callbackToken });
+  return `${base}/v1/websub/${accountId}/${feedId}?${query}`;
+}
+
+/**
+ * Called after every successful poll. Subscribes when a feed starts advertising
+ * a hub (or moves to a different one); otherwise leaves the lease to the renewal job.
+ */
+export async function syncWebSubHub(
+  pool: Pool,
+  accountId: string,
+  feedId: string,
+  links: WebSubLinks,
+  config: WebSubConfig,
+): Promise<void> {
+  const result = await pool.query<{
+    websub_hub_url: string | null;
+    websub_topic_url: string | null;
+    websub_state: string;
+  }>(
+    `SELECT websub_hub_url, websub_topic_url, websub_state
+     FROM feed
+     WHERE id = $1 AND tenant_id = $2`,
+    [feedId, accountId],
+  );
+  const current = result.rows[0];
+  if (!current) return;
+
+  const unchanged =
+    current.websub_hub_url === links.hubUrl && current.websub_topic_url === links.topicUrl;
+  if (unchanged && current.websub_state !== "none") {
+    return;
+  }
+
+  await subscribeToHub(pool, accountId, feedId, links, config);
+}
+
+/**
+ * Sends a subscribe request to the hub. The hub confirms asynchronously by
+ * calling the API callback, which flips the feed to `active` with a lease.
+ */
+export async function subscribeToHub(
+  pool: Pool,
+  accountId: string,
+  feedId: string,
+  links: WebSubLinks,
+  config: WebSubConfig,
+): Promise<boolean> {
+  validateFeedUrl(links.hubUrl);
+
+  // The secret is kept across renewals so the hub keeps signing with one key;
+  // the callback token (set when the feed is created) keeps the callback URL
+  // the same, so the hub sees the same subscription.
+  const secretResult = await pool.query<{
+    websub_secret: string;
+    websub_callback_token: string;
+  }>(
+    `UPDATE feed
+     SET websub_hub_url = $3,
+         websub_topic_url = $4,
+         websub_secret = COALESCE(websub_secret, $5),
+         websub_state = CASE WHEN websub_state = 'active' THEN 'active' ELSE 'pending' END,
+         websub_requested_at = NOW()
+     WHERE id = $1 AND tenant_id = $2
+     RETURNING websub_secret, websub_callback_token`,
+    [feedId, accountId, links.hubUrl, links.topicUrl, randomBytes(32).toString("hex")],
+  );
+  const subscription = secretResult.rows[0];
+  if (!subscription) return false;
+  const secret = subscription.websub_secret;
+
+  const body = new URLSearchParams({
+    "hub.mode": "subscribe",
+    "hub.topic": links.topicUrl,
+    "hub.callback": buildWebSubCallbackUrl(
+      config,
+      accountId,
+      feedId,
+      subscription.websub_callback_token,
+    ),
+    "hub.secret": secret,
+    "hub.lease_seconds": String(config.leaseSeconds),
+  });
+
+  try {
+    const response = await fetch(links.hubUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": "RSSWrangler/1.0",
+      },
+      body,
+      signal: AbortSignal.timeout(15_000),
+    });
+
+    if (!response.ok) {
+      console.warn("[websub] hub rejected subscription request", {
+        feedId,
+        hubUrl: links.hubUrl,
+        status: response.status,
+      });
+      return false;
+    }
+
+    console.info("[websub] subscription requested", { feedId, hubUrl: links.hubUrl });
+    return true;
+  } catch (err) {
+    console.warn("[websub] subscription request failed", {
+      feedId,
+      hubUrl: links.hubUrl,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return false;
+  }
+}
+
+/**
+ * Re-subscribes feeds whose lease expires within a day, and retries requests
+ * the hub never confirmed. Feeds keep being polled while this is unresolved.
+ */
+export async function renewWebSubLeases(
+  pool: Pool,
+  accountId: string,
+  config: WebSubConfig,
+): Promise<WebSubRenewalStats> {
+  const result = await pool.query<{
+    id: string;
+    websub_hub_url: string;
+    websub_topic_url: string;
+  }>(
+    `SELECT id, websub_hub_url, websub_topic_url
+     FROM feed
+     WHERE tenant_id = $1
+       AND muted = FALSE
+       AND websub_hub_url IS NOT NULL
+       AND websub_topic_url IS NOT NULL
+       AND (
+         (websub_state = 'active' AND websub_lease_expires_at < NOW() + INTERVAL '1 day')
+         OR (websub_state = 'pending' AND websub_requested_at < NOW() - INTERVAL '1 hour')
+         OR websub_state = 'none'
+       )
+     ORDER BY websub_lease_expires_at ASC NULLS FIRST
+     LIMIT $2`,
+    [accountId, RENEWAL_BATCH_SIZE],
+  );
+
+  let requested = 0;
+  for (const row of result.rows) {
+    try {
+      const ok = await subscribeToHub(
+        pool,
+        accountId,
+        row.id,
+        { hubUrl: row.websub_hub_url, topicUrl: row.websub_topic_url },
+        config,
+      );
+      if (ok) requested++;
+    } catch (err) {
+      console.warn("[websub] lease renewal skipped", {
+        feedId: row.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { candidates: result.rows.length, requested };
+}
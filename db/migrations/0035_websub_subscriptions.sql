@@ -0,0 +1,18 @@
+-- WebSub (PubSubHubbub) push subscriptions for feeds that advertise a hub
+
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_hub_url TEXT;
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_topic_url TEXT;
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_secret TEXT;
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_state TEXT NOT NULL DEFAULT 'none'
+  CHECK (websub_state IN ('none', 'pending', 'active', 'denied'));
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_lease_expires_at TIMESTAMPTZ;
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_requested_at TIMESTAMPTZ;
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_last_push_at TIMESTAMPTZ;
+-- Carried in the callback URL so only the hub we asked can confirm or deny
+-- a subscription. Existing feeds get their own token from the default.
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS websub_callback_token TEXT NOT NULL
+  DEFAULT encode(gen_random_bytes(24), 'hex');
+
+CREATE INDEX IF NOT EXISTS idx_feed_websub_lease
+  ON feed (tenant_id, websub_lease_expires_at)
+  WHERE websub_hub_url IS NOT NULL;
@@ -0,0 +1,26 @@
+-- Fever API compatibility: integer ids for clients and per-user API keys
+
+-- Fever (and other sync dialects) require numeric ids; keep UUIDs as the primary keys.
+ALTER TABLE folder ADD COLUMN IF NOT EXISTS seq_id BIGINT GENERATED BY DEFAULT AS IDENTITY;
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS seq_id BIGINT GENERATED BY DEFAULT AS IDENTITY;
+ALTER TABLE item ADD COLUMN IF NOT EXISTS seq_id BIGINT GENERATED BY DEFAULT AS IDENTITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS folder_seq_id_uniq ON folder (seq_id);
+CREATE UNIQUE INDEX IF NOT EXISTS feed_seq_id_uniq ON feed (seq_id);
+CREATE UNIQUE INDEX IF NOT EXISTS item_seq_id_uniq ON item (seq_id);
+CREATE INDEX IF NOT EXISTS item_tenant_seq_id_idx ON item (tenant_id, seq_id);
+
+-- Credentials for third-party clients. Looked up by key hash before any tenant
+-- context exists, so (like billing_webhook_event) this table is not under RLS.
+CREATE TABLE IF NOT EXISTS client_api_credential (
+  user_id UUID PRIMARY KEY REFERENCES user_account(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  fever_key_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+-- Fever keys are md5("username@workspace-slug:password"): the workspace-qualified
+-- login keeps a key from matching an account in another workspace.
+CREATE UNIQUE INDEX IF NOT EXISTS client_api_credential_tenant_fever_key_uniq
+  ON client_api_credential (tenant_id, fever_key_hash);
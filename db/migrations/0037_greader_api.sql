@@ -0,0 +1,9 @@
+-- Google Reader (greader) API: password login for sync clients, sharing the
+-- client API credential used by Fever.
+
+ALTER TABLE client_api_credential ADD COLUMN IF NOT EXISTS username TEXT;
+ALTER TABLE client_api_credential ADD COLUMN IF NOT EXISTS password_hash TEXT;
+
+-- The login is the lowercased `username@workspace-slug`, unique across workspaces.
+CREATE UNIQUE INDEX IF NOT EXISTS client_api_credential_username_uniq
+  ON client_api_credential (username);
@@ -0,0 +1,27 @@
+-- Personal API tokens: long-lived, scoped bearer tokens for scripts and
+-- integrations. Looked up by hash before any tenant context exists, so the
+-- table sits outside RLS like client_api_credential.
+
+CREATE TABLE IF NOT EXISTS api_token (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_token_tenant_user_idx
+  ON api_token (tenant_id, user_id, created_at DESC);
+
+ALTER TABLE member_event DROP CONSTRAINT IF EXISTS member_event_event_type_check;
+ALTER TABLE member_event ADD CONSTRAINT member_event_event_type_check
+  CHECK (event_type IN (
+    'approved', 'rejected', 'suspended', 'role_changed', 'removed',
+    'api_token_created', 'api_token_revoked'
+  ));
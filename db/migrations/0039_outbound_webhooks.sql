@@ -0,0 +1,76 @@
+-- Outbound webhooks: owner-registered endpoints that receive signed JSON
+-- events. Events are queued as delivery rows and sent by the worker with
+-- exponential backoff; the rows double as the delivery log.
+
+CREATE TABLE IF NOT EXISTS webhook_subscription (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  secret TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES user_account(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_subscription_tenant_idx
+  ON webhook_subscription (tenant_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS webhook_delivery (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  subscription_id UUID NOT NULL REFERENCES webhook_subscription(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempt_count INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_status_code INT,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_delivery_due_idx
+  ON webhook_delivery (tenant_id, next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS webhook_delivery_subscription_idx
+  ON webhook_delivery (subscription_id, created_at DESC);
+
+ALTER TABLE webhook_subscription ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_subscription FORCE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'webhook_subscription'
+      AND policyname = 'webhook_subscription_tenant_isolation'
+  ) THEN
+    CREATE POLICY webhook_subscription_tenant_isolation
+      ON webhook_subscription
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'webhook_delivery'
+      AND policyname = 'webhook_delivery_tenant_isolation'
+  ) THEN
+    CREATE POLICY webhook_delivery_tenant_isolation
+      ON webhook_delivery
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
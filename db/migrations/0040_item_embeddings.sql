@@ -0,0 +1,34 @@
+-- Item text embeddings for semantic clustering. Vectors are stored as plain
+-- REAL[] so no database extension is required; similarity is computed in the
+-- worker over the small candidate window used by cluster assignment.
+
+CREATE TABLE IF NOT EXISTS item_embedding (
+  item_id UUID PRIMARY KEY REFERENCES item(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS item_embedding_tenant_idx
+  ON item_embedding (tenant_id, created_at DESC);
+
+ALTER TABLE item_embedding ENABLE ROW LEVEL SECURITY;
+ALTER TABLE item_embedding FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'item_embedding'
+      AND policyname = 'item_embedding_tenant_isolation'
+  ) THEN
+    CREATE POLICY item_embedding_tenant_isolation
+      ON item_embedding
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
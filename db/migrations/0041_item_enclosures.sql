@@ -0,0 +1,71 @@
+-- Podcast and media enclosures attached to feed items, plus per-item playback
+-- progress for the in-app audio player. Listening time also accumulates on
+-- read_state so the ranking can treat it like reading dwell time.
+
+CREATE TABLE IF NOT EXISTS item_enclosure (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES item(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL DEFAULT 0,
+  url TEXT NOT NULL,
+  mime_type TEXT,
+  length_bytes BIGINT,
+  duration_seconds INTEGER,
+  episode_number INTEGER,
+  season_number INTEGER,
+  episode_type TEXT,
+  chapters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  chapters_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (item_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS item_enclosure_tenant_item_idx
+  ON item_enclosure (tenant_id, item_id, position);
+
+CREATE TABLE IF NOT EXISTS media_progress (
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES item(id) ON DELETE CASCADE,
+  position_seconds INTEGER NOT NULL DEFAULT 0 CHECK (position_seconds >= 0),
+  duration_seconds INTEGER CHECK (duration_seconds IS NULL OR duration_seconds > 0),
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, item_id)
+);
+
+ALTER TABLE read_state ADD COLUMN IF NOT EXISTS listen_seconds INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE item_enclosure ENABLE ROW LEVEL SECURITY;
+ALTER TABLE item_enclosure FORCE ROW LEVEL SECURITY;
+ALTER TABLE media_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE media_progress FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'item_enclosure'
+      AND policyname = 'item_enclosure_tenant_isolation'
+  ) THEN
+    CREATE POLICY item_enclosure_tenant_isolation
+      ON item_enclosure
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'media_progress'
+      AND policyname = 'media_progress_tenant_isolation'
+  ) THEN
+    CREATE POLICY media_progress_tenant_isolation
+      ON media_progress
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
@@ -0,0 +1,106 @@
+-- Per-member story state inside shared workspaces. read_state was keyed by
+-- cluster only, so one member reading, saving or hiding a story changed it for
+-- everyone. Rows are now owned by a user; existing rows are copied to every
+-- member of the workspace so nobody's view changes on upgrade. Digests are
+-- generated per member as well, and shared_saved is an explicit team
+-- collection that lives alongside each member's own saved list.
+
+ALTER TABLE read_state ADD COLUMN IF NOT EXISTS user_id UUID;
+ALTER TABLE read_state DROP CONSTRAINT IF EXISTS read_state_pkey;
+
+INSERT INTO read_state (
+  tenant_id,
+  user_id,
+  cluster_id,
+  read_at,
+  saved_at,
+  not_interested_at,
+  dwell_seconds,
+  clicked_at,
+  listen_seconds
+)
+SELECT
+  rs.tenant_id,
+  u.id,
+  rs.cluster_id,
+  rs.read_at,
+  rs.saved_at,
+  rs.not_interested_at,
+  rs.dwell_seconds,
+  rs.clicked_at,
+  rs.listen_seconds
+FROM read_state rs
+JOIN user_account u ON u.tenant_id = rs.tenant_id
+WHERE rs.user_id IS NULL;
+
+DELETE FROM read_state WHERE user_id IS NULL;
+
+ALTER TABLE read_state ALTER COLUMN user_id SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'read_state_user_fk'
+  ) THEN
+    ALTER TABLE read_state
+      ADD CONSTRAINT read_state_user_fk
+      FOREIGN KEY (user_id) REFERENCES user_account(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'read_state_member_key'
+  ) THEN
+    ALTER TABLE read_state
+      ADD CONSTRAINT read_state_member_key
+      PRIMARY KEY (tenant_id, user_id, cluster_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS read_state_cluster_idx
+  ON read_state (tenant_id, cluster_id);
+
+DROP INDEX IF EXISTS read_state_tenant_saved_idx;
+CREATE INDEX IF NOT EXISTS read_state_member_saved_idx
+  ON read_state (tenant_id, user_id, saved_at)
+  WHERE saved_at IS NOT NULL;
+
+DROP INDEX IF EXISTS read_state_tenant_unread_idx;
+CREATE INDEX IF NOT EXISTS read_state_member_unread_idx
+  ON read_state (tenant_id, user_id, read_at)
+  WHERE read_at IS NULL;
+
+-- Digests already generated stay visible to every member (user_id NULL).
+ALTER TABLE digest ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES user_account(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS digest_tenant_user_created_idx
+  ON digest (tenant_id, user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS shared_saved (
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  cluster_id UUID NOT NULL REFERENCES cluster(id) ON DELETE CASCADE,
+  saved_by_user_id UUID REFERENCES user_account(id) ON DELETE SET NULL,
+  saved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, cluster_id)
+);
+
+CREATE INDEX IF NOT EXISTS shared_saved_tenant_saved_idx
+  ON shared_saved (tenant_id, saved_at DESC);
+
+ALTER TABLE shared_saved ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shared_saved FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'shared_saved'
+      AND policyname = 'shared_saved_tenant_isolation'
+  ) THEN
+    CREATE POLICY shared_saved_tenant_isolation
+      ON shared_saved
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
@@ -0,0 +1,31 @@
+-- Personal settings layered over the workspace defaults in app_settings.
+-- Only keys a member has changed are stored; anything missing falls through
+-- to the workspace value. The owner's `lockedKeys` list in app_settings
+-- decides which personal keys members may not override.
+
+CREATE TABLE IF NOT EXISTS member_settings (
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, user_id)
+);
+
+ALTER TABLE member_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE member_settings FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'member_settings'
+      AND policyname = 'member_settings_tenant_isolation'
+  ) THEN
+    CREATE POLICY member_settings_tenant_isolation
+      ON member_settings
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
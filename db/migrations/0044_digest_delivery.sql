@@ -0,0 +1,41 @@
+-- Scheduled digest delivery. Each member's schedule (digestSchedule,
+-- digestDeliveryHour, digestTimezone, digestChannel) lives in their settings;
+-- this table claims one delivery per member per local calendar day so the
+-- frequent scheduler never builds or sends the same digest twice.
+
+CREATE TABLE IF NOT EXISTS digest_delivery (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  scheduled_for DATE NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('in_app', 'email')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'skipped', 'failed')),
+  digest_id UUID REFERENCES digest(id) ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  UNIQUE (tenant_id, user_id, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS digest_delivery_tenant_created_idx
+  ON digest_delivery (tenant_id, created_at DESC);
+
+ALTER TABLE digest_delivery ENABLE ROW LEVEL SECURITY;
+ALTER TABLE digest_delivery FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'digest_delivery'
+      AND policyname = 'digest_delivery_tenant_isolation'
+  ) THEN
+    CREATE POLICY digest_delivery_tenant_isolation
+      ON digest_delivery
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
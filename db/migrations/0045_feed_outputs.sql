@@ -0,0 +1,22 @@
+-- Feed outputs: a member's digests, or a folder, topic or saved-search view,
+-- re-published as Atom / RSS 2.0 / JSON Feed behind a secret URL token.
+-- Looked up by token hash before any tenant context exists, so the table sits
+-- outside RLS like api_token.
+
+CREATE TABLE IF NOT EXISTS feed_output (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('digest', 'folder', 'topic', 'saved_search')),
+  target_id TEXT,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  CHECK ((kind = 'digest') = (target_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS feed_output_tenant_user_idx
+  ON feed_output (tenant_id, user_id, created_at DESC);
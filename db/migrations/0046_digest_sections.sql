@@ -0,0 +1,3 @@
+-- Custom digest sections: digests record the section order and titles they
+-- were built with. NULL means the built-in Top Picks / Big Stories / Quick Scan.
+ALTER TABLE digest ADD COLUMN IF NOT EXISTS sections_json JSONB;
@@ -0,0 +1,47 @@
+-- Imports from other readers (Feedly, Inoreader, NewsBlur, Pocket, Instapaper).
+-- The API parses the upload, records a job and works through its entries in
+-- the background, updating progress and the per-entry error report as it goes.
+
+CREATE TABLE IF NOT EXISTS reader_import_job (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('feedly', 'inoreader', 'newsblur', 'pocket', 'instapaper')),
+  filename TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  total_entries INTEGER NOT NULL DEFAULT 0 CHECK (total_entries >= 0),
+  processed_entries INTEGER NOT NULL DEFAULT 0 CHECK (processed_entries >= 0),
+  counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  truncated_errors INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS reader_import_job_tenant_user_idx
+  ON reader_import_job (tenant_id, user_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reader_import_job_active_uniq
+  ON reader_import_job (tenant_id, user_id)
+  WHERE status IN ('pending', 'processing');
+
+ALTER TABLE reader_import_job ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reader_import_job FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'reader_import_job'
+      AND policyname = 'reader_import_job_tenant_isolation'
+  ) THEN
+    CREATE POLICY reader_import_job_tenant_isolation
+      ON reader_import_job
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
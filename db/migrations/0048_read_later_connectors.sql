@@ -0,0 +1,84 @@
+-- Read-later connectors: per-member credentials for Wallabag, Readwise Reader,
+-- Instapaper, Pocket-compatible, Omnivore-compatible, Linkding and Shaarli.
+-- Credentials are AES-256-GCM encrypted by the API with
+-- READ_LATER_CREDENTIALS_KEY and only decrypted by the worker when sending.
+-- Sends are queued as delivery rows (one per connection and cluster) and
+-- retried with backoff like outbound webhooks.
+
+CREATE TABLE IF NOT EXISTS read_later_connection (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL
+    CHECK (provider IN ('wallabag', 'readwise', 'instapaper', 'pocket', 'omnivore', 'linkding', 'shaarli')),
+  label TEXT NOT NULL,
+  base_url TEXT,
+  credentials_encrypted TEXT NOT NULL,
+  auto_send BOOLEAN NOT NULL DEFAULT FALSE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS read_later_connection_user_idx
+  ON read_later_connection (tenant_id, user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS read_later_delivery (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  connection_id UUID NOT NULL REFERENCES read_later_connection(id) ON DELETE CASCADE,
+  cluster_id UUID NOT NULL REFERENCES cluster(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  title TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempt_count INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_status_code INT,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (connection_id, cluster_id)
+);
+
+CREATE INDEX IF NOT EXISTS read_later_delivery_due_idx
+  ON read_later_delivery (tenant_id, next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS read_later_delivery_user_idx
+  ON read_later_delivery (tenant_id, user_id, created_at DESC);
+
+ALTER TABLE read_later_connection ENABLE ROW LEVEL SECURITY;
+ALTER TABLE read_later_connection FORCE ROW LEVEL SECURITY;
+ALTER TABLE read_later_delivery ENABLE ROW LEVEL SECURITY;
+ALTER TABLE read_later_delivery FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'read_later_connection'
+      AND policyname = 'read_later_connection_tenant_isolation'
+  ) THEN
+    CREATE POLICY read_later_connection_tenant_isolation
+      ON read_later_connection
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'read_later_delivery'
+      AND policyname = 'read_later_delivery_tenant_isolation'
+  ) THEN
+    CREATE POLICY read_later_delivery_tenant_isolation
+      ON read_later_delivery
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
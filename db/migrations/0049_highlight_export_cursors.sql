@@ -0,0 +1,32 @@
+-- Highlight export cursors: per member and export target (Markdown zip,
+-- Obsidian zip, Readwise CSV, Readwise API), the creation time of the newest
+-- highlight already exported, so "since last export" only picks up newer ones.
+
+CREATE TABLE IF NOT EXISTS highlight_export_cursor (
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  target TEXT NOT NULL
+    CHECK (target IN ('markdown', 'obsidian', 'readwise_csv', 'readwise_api')),
+  last_highlight_at TIMESTAMPTZ NOT NULL,
+  exported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, user_id, target)
+);
+
+ALTER TABLE highlight_export_cursor ENABLE ROW LEVEL SECURITY;
+ALTER TABLE highlight_export_cursor FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'highlight_export_cursor'
+      AND policyname = 'highlight_export_cursor_tenant_isolation'
+  ) THEN
+    CREATE POLICY highlight_export_cursor_tenant_isolation
+      ON highlight_export_cursor
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
@@ -0,0 +1,13 @@
+-- Annotation anchors: a text-quote selector (exact text with prefix/suffix
+-- context) and a position selector over the story's extracted full text, so
+-- the reader can paint highlights inline. `anchor_item_id` is the item whose
+-- extracted text the position refers to; the worker re-resolves the position
+-- when that item's text is re-extracted.
+
+ALTER TABLE annotation ADD COLUMN IF NOT EXISTS anchor JSONB;
+ALTER TABLE annotation
+  ADD COLUMN IF NOT EXISTS anchor_item_id UUID REFERENCES item(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS annotation_anchor_item_idx
+  ON annotation (tenant_id, anchor_item_id)
+  WHERE anchor_item_id IS NOT NULL;
@@ -0,0 +1,81 @@
+-- User-defined folders. The ten seeded folders stay shared (tenant_id NULL)
+-- so existing feed and cluster references keep working; workspaces add their
+-- own folders next to them. Nesting, order, icon, colour and whether a
+-- built-in folder has been deleted are per workspace, in folder_setting.
+
+ALTER TABLE folder ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenant(id) ON DELETE CASCADE;
+ALTER TABLE folder ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Names are unique among the built-in folders only; a workspace's own names
+-- are checked against the folders it can see when they are created or renamed.
+ALTER TABLE folder DROP CONSTRAINT IF EXISTS folder_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS folder_builtin_name_uniq
+  ON folder (name) WHERE tenant_id IS NULL;
+CREATE INDEX IF NOT EXISTS folder_tenant_idx
+  ON folder (tenant_id) WHERE tenant_id IS NOT NULL;
+
+ALTER TABLE folder ENABLE ROW LEVEL SECURITY;
+ALTER TABLE folder FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'folder'
+      AND policyname = 'folder_tenant_isolation'
+  ) THEN
+    -- Built-in rows are readable everywhere but only writable without a
+    -- tenant context, i.e. by migrations (0001 re-seeds them on every run).
+    CREATE POLICY folder_tenant_isolation
+      ON folder
+      USING (tenant_id IS NULL OR tenant_id = app.current_tenant_id())
+      WITH CHECK (
+        tenant_id = app.current_tenant_id()
+        OR (tenant_id IS NULL AND COALESCE(current_setting('app.tenant_id', true), '') = '')
+      );
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS folder_setting (
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  folder_id UUID NOT NULL REFERENCES folder(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES folder(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  icon TEXT,
+  color TEXT CHECK (color IS NULL OR color ~ '^#[0-9a-fA-F]{6}$'),
+  hidden BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, folder_id),
+  CHECK (parent_id IS NULL OR parent_id <> folder_id)
+);
+
+CREATE INDEX IF NOT EXISTS folder_setting_parent_idx
+  ON folder_setting (tenant_id, parent_id);
+
+ALTER TABLE folder_setting ENABLE ROW LEVEL SECURITY;
+ALTER TABLE folder_setting FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'folder_setting'
+      AND policyname = 'folder_setting_tenant_isolation'
+  ) THEN
+    CREATE POLICY folder_setting_tenant_isolation
+      ON folder_setting
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
+
+-- 'manual' once a member moves the feed into a folder themselves; the folder
+-- classifier learns each folder's vocabulary from those feeds.
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS folder_source TEXT NOT NULL DEFAULT 'auto'
+  CHECK (folder_source IN ('auto', 'manual'));
+CREATE INDEX IF NOT EXISTS feed_manual_folder_idx
+  ON feed (tenant_id, folder_id) WHERE folder_source = 'manual';
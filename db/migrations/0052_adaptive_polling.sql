@@ -0,0 +1,12 @@
+-- Per-feed poll schedule. The worker sets these after each poll from the
+-- feed's publishing cadence, its RSS hints and the server's cache headers;
+-- NULL next_poll_at means the feed has never been scheduled and is due now.
+
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS next_poll_at TIMESTAMPTZ;
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS poll_interval_minutes INTEGER
+  CHECK (poll_interval_minutes IS NULL OR poll_interval_minutes > 0);
+ALTER TABLE feed ADD COLUMN IF NOT EXISTS poll_schedule_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS feed_next_poll_idx
+  ON feed (tenant_id, next_poll_at NULLS FIRST)
+  WHERE muted = FALSE;
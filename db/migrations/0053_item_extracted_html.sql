@@ -0,0 +1,5 @@
+-- Sanitized article markup for the reader's text mode. extracted_text stays
+-- the plain-text form (search, AI, annotation anchors) and is derived from
+-- this markup, so both describe the same characters.
+
+ALTER TABLE item ADD COLUMN IF NOT EXISTS extracted_html TEXT;
@@ -0,0 +1,74 @@
+-- Per-site extraction rules (content selectors, elements to strip, next-page
+-- links, request headers, "use feed content instead") and previews of what
+-- extraction produces for a URL under them. Previews are written by the API
+-- and completed by the worker, which owns the extraction code.
+
+CREATE TABLE IF NOT EXISTS extraction_rule (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  domain TEXT NOT NULL,
+  body_selectors TEXT[] NOT NULL DEFAULT '{}',
+  strip_selectors TEXT[] NOT NULL DEFAULT '{}',
+  next_page_selector TEXT,
+  max_pages INTEGER NOT NULL DEFAULT 5 CHECK (max_pages BETWEEN 1 AND 10),
+  headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  cookie TEXT,
+  use_feed_content BOOLEAN NOT NULL DEFAULT FALSE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, domain)
+);
+
+ALTER TABLE extraction_rule ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extraction_rule FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'extraction_rule'
+      AND policyname = 'extraction_rule_tenant_isolation'
+  ) THEN
+    CREATE POLICY extraction_rule_tenant_isolation
+      ON extraction_rule
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS extraction_preview (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_account(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS extraction_preview_tenant_created_idx
+  ON extraction_preview (tenant_id, created_at DESC);
+
+ALTER TABLE extraction_preview ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extraction_preview FORCE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'extraction_preview'
+      AND policyname = 'extraction_preview_tenant_isolation'
+  ) THEN
+    CREATE POLICY extraction_preview_tenant_isolation
+      ON extraction_preview
+      USING (tenant_id = app.current_tenant_id())
+      WITH CHECK (tenant_id = app.current_tenant_id());
+  END IF;
+END $$;
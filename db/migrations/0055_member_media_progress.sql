@@ -0,0 +1,51 @@
+-- Playback positions belong to a member, like read_state since 0042. They were
+-- keyed by item only, so one member listening moved everyone's resume point.
+-- Existing rows are copied to every member of the workspace so nobody loses
+-- their place on upgrade.
+
+ALTER TABLE media_progress ADD COLUMN IF NOT EXISTS user_id UUID;
+ALTER TABLE media_progress DROP CONSTRAINT IF EXISTS media_progress_pkey;
+
+INSERT INTO media_progress (
+  tenant_id,
+  user_id,
+  item_id,
+  position_seconds,
+  duration_seconds,
+  completed_at,
+  updated_at
+)
+SELECT
+  mp.tenant_id,
+  u.id,
+  mp.item_id,
+  mp.position_seconds,
+  mp.duration_seconds,
+  mp.completed_at,
+  mp.updated_at
+FROM media_progress mp
+JOIN user_account u ON u.tenant_id = mp.tenant_id
+WHERE mp.user_id IS NULL;
+
+DELETE FROM media_progress WHERE user_id IS NULL;
+
+ALTER TABLE media_progress ALTER COLUMN user_id SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'media_progress_user_fk'
+  ) THEN
+    ALTER TABLE media_progress
+      ADD CONSTRAINT media_progress_user_fk
+      FOREIGN KEY (user_id) REFERENCES user_account(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'media_progress_member_key'
+  ) THEN
+    ALTER TABLE media_progress
+      ADD CONSTRAINT media_progress_member_key
+      PRIMARY KEY (tenant_id, user_id, item_id);
+  END IF;
+END $$;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { cosineSimilarity, meanVector } from "../ai-similarity.js";
+
+describe("cosineSimilarity", () => {
+  it("returns 1 for identical directions", () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+  });
+
+  it("returns 0 for orthogonal vectors", () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it("returns -1 for opposite vectors", () => {
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+  });
+
+  it("returns null for vectors of different dimensions", () => {
+    expect(cosineSimilarity([1, 0, 0], [1, 0])).toBeNull();
+  });
+
+  it("returns null for empty or zero vectors", () => {
+    expect(cosineSimilarity([], [])).toBeNull();
+    expect(cosineSimilarity([0, 0], [1, 0])).toBeNull();
+  });
+});
+
+describe("meanVector", () => {
+  it("averages vectors element-wise", () => {
+    expect(
+      meanVector([
+        [1, 0],
+        [0, 1],
+        [2, 2],
+      ]),
+    ).toEqual([1, 1]);
+  });
+
+  it("ignores vectors with a different dimension", () => {
+    expect(
+      meanVector([
+        [2, 4],
+        [1, 1, 1],
+        [0, 0],
+      ]),
+    ).toEqual([1, 2]);
+  });
+
+  it("returns null when there is nothing to average", () => {
+    expect(meanVector([])).toBeNull();
+    expect(meanVector([[]])).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignDigestSections,
+  BUILT_IN_DIGEST_SECTIONS,
+  type DigestCandidate,
+  digestSectionHeadings,
+} from "../digest-sections.js";
+import type { DigestSectionRule } from "../index.js";
+
+function candidate(n: number, overrides: Partial<DigestCandidate> = {}): DigestCandidate {
+  return {
+    clusterId: `c${n}`,
+    headline: `Story ${n}`,
+    sourceName: "Source",
+    folderId: "tech",
+    topicId: null,
+    feedId: "feed-1",
+    feedWeight: "neutral",
+    outletCount: 1,
+    publishedAt: `2026-03-02T${String(n).padStart(2, "0")}:00:00.000Z`,
+    summary: `Summary ${n}`,
+    aiSummary: null,
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<DigestSectionRule>): DigestSectionRule {
+  return {
+    id: "section",
+    title: "Section",
+    folderIds: [],
+    topicIds: [],
+    feedIds: [],
+    preferredSourcesOnly: false,
+    savedSearchId: null,
+    minOutlets: 1,
+    limit: 5,
+    order: "rank",
+    oneLiner: "summary",
+    ...overrides,
+  };
+}
+
+const ids = (entries: Array<{ clusterId: string }>) => entries.map((entry) => entry.clusterId);
+
+describe("assignDigestSections", () => {
+  it("splits ranked stories 5 / 5 / 10 into the built-in sections without rules", () => {
+    const candidates = Array.from({ length: 22 }, (_, i) => candidate(i + 1));
+    const { sections, entries } = assignDigestSections(candidates, []);
+
+    expect(sections.map((section) => section.id)).toEqual([
+      "top_picks",
+      "big_stories",
+      "quick_scan",
+    ]);
+    expect(entries).toHaveLength(20);
+    expect(entries.filter((entry) => entry.section === "top_picks")).toHaveLength(5);
+    expect(entries[5]).toMatchObject({ clusterId: "c6", section: "big_stories" });
+    expect(entries[19]).toMatchObject({ clusterId: "c20", section: "quick_scan" });
+  });
+
+  it("matches any listed folder, topic or feed and gives the catch-all the rest", () => {
+    const candidates = [
+      candidate(1, { folderId: "security" }),
+      candidate(2, { topicId: "ai" }),
+      candidate(3, { feedId: "feed-9" }),
+      candidate(4),
+    ];
+    const { entries } = assignDigestSections(candidates, [
+      rule({ id: "focus", folderIds: ["security"], topicIds: ["ai"], feedIds: ["feed-9"] }),
+      rule({ id: "rest" }),
+    ]);
+
+    expect(ids(entries.filter((entry) => entry.section === "focus"))).toEqual(["c1", "c2", "c3"]);
+    expect(ids(entries.filter((entry) => entry.section === "rest"))).toEqual(["c4"]);
+  });
+
+  it("narrows by preferred sources, outlet count and saved search", () => {
+    const candidates = [
+      candidate(1, { feedWeight: "prefer", outletCount: 4 }),
+      candidate(2, { feedWeight: "prefer" }),
+      candidate(3, { outletCount: 6 }),
+    ];
+
+    expect(
+      ids(assignDigestSections(candidates, [rule({ preferredSourcesOnly: true })]).entries),
+    ).toEqual(["c1", "c2"]);
+    expect(ids(assignDigestSections(candidates, [rule({ minOutlets: 3 })]).entries)).toEqual([
+      "c1",
+      "c3",
+    ]);
+    expect(
+      ids(
+        assignDigestSections(candidates, [rule({ savedSearchId: "s1" })], {
+          s1: new Set(["c3"]),
+        }).entries,
+      ),
+    ).toEqual(["c3"]);
+    expect(assignDigestSections(candidates, [rule({ savedSearchId: "gone" })]).entries).toEqual([]);
+  });
+
+  it("orders within a section before applying its limit", () => {
+    const candidates = [
+      candidate(1, { outletCount: 2 }),
+      candidate(3, { outletCount: 5 }),
+      candidate(2, { outletCount: 5 }),
+    ];
+
+    expect(
+      ids(assignDigestSections(candidates, [rule({ order: "newest", limit: 2 })]).entries),
+    ).toEqual(["c3", "c2"]);
+    expect(
+      ids(assignDigestSections(candidates, [rule({ order: "most_outlets", limit: 2 })]).entries),
+    ).toEqual(["c3", "c2"]);
+    expect(ids(assignDigestSections(candidates, [rule({ limit: 1 })]).entries)).toEqual(["c1"]);
+  });
+
+  it("picks the one-liner source per section", () => {
+    const candidates = [candidate(1, { aiSummary: "AI take" }), candidate(2, { summary: null })];
+
+    const ai = assignDigestSections(candidates, [rule({ oneLiner: "ai" })]).entries;
+    expect(ai.map((entry) => entry.oneLiner)).toEqual(["AI take", null]);
+    const none = assignDigestSections(candidates, [rule({ oneLiner: "none" })]).entries;
+    expect(none.map((entry) => entry.oneLiner)).toEqual([null, null]);
+    const long = assignDigestSections([candidate(3, { summary: "x".repeat(200) })], [rule({})]);
+    expect(long.entries[0]?.oneLiner).toHaveLength(120);
+  });
+});
+
+describe("digestSectionHeadings", () => {
+  it("falls back to the built-in sections", () => {
+    expect(digestSectionHeadings({}).map((section) => section.title)).toEqual(
+      BUILT_IN_DIGEST_SECTIONS.map((section) => section.title),
+    );
+    expect(digestSectionHeadings({ sections: [{ id: "a", title: "A" }] })).toEqual([
+      { id: "a", title: "A" },
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUNDLED_EXTRACTION_RULES,
+  matchExtractionRule,
+  normalizeRuleDomain,
+} from "../extraction-rules.js";
+import { createExtractionRuleRequestSchema } from "../index.js";
+
+describe("normalizeRuleDomain", () => {
+  it("strips schemes, paths, ports and wildcards", () => {
+    expect(normalizeRuleDomain(" https://WWW.Example.com:8443/news?page=2 ")).toBe(
+      "www.example.com",
+    );
+    expect(normalizeRuleDomain("*.example.com")).toBe("example.com");
+    expect(normalizeRuleDomain(".example.com.")).toBe("example.com");
+  });
+});
+
+describe("matchExtractionRule", () => {
+  const rules = [
+    { id: "workspace-blog", domain: "blog.example.com", enabled: true },
+    { id: "workspace-off", domain: "news.example.com", enabled: false },
+    { id: "workspace-root", domain: "example.com", enabled: true },
+    { id: "bundled-root", domain: "example.com", enabled: true },
+  ];
+
+  it("prefers the most specific enabled domain, then the earlier rule", () => {
+    expect(matchExtractionRule(rules, "https://blog.example.com/post")?.id).toBe("workspace-blog");
+    expect(matchExtractionRule(rules, "https://news.example.com/a")?.id).toBe("workspace-root");
+    expect(matchExtractionRule(rules, "https://EXAMPLE.com/")?.id).toBe("workspace-root");
+  });
+
+  it("does not match look-alike hosts or invalid URLs", () => {
+    expect(matchExtractionRule(rules, "https://notexample.com/")).toBeNull();
+    expect(matchExtractionRule(rules, "not a url")).toBeNull();
+  });
+
+  it("keeps feed content for bundled social sites", () => {
+    expect(
+      matchExtractionRule(BUNDLED_EXTRACTION_RULES, "https://old.reddit.com/r/news/")
+        ?.useFeedContent,
+    ).toBe(true);
+  });
+});
+
+describe("createExtractionRuleRequestSchema", () => {
+  it("normalizes the domain and applies defaults", () => {
+    expect(createExtractionRuleRequestSchema.parse({ domain: "https://Example.com/x" })).toEqual({
+      domain: "example.com",
+      bodySelectors: [],
+      stripSelectors: [],
+      nextPageSelector: null,
+      maxPages: 5,
+      headers: {},
+      cookie: null,
+      useFeedContent: false,
+      enabled: true,
+    });
+  });
+
+  it("rejects reserved headers and host names that are not domains", () => {
+    expect(
+      createExtractionRuleRequestSchema.safeParse({
+        domain: "example.com",
+        headers: { Cookie: "a=b" },
+      }).success,
+    ).toBe(false);
+    expect(createExtractionRuleRequestSchema.safeParse({ domain: "localhost" }).success).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { folderTree, isFolderDescendant } from "../folders.js";
+import type { Folder } from "../index.js";
+
+function folder(id: string, overrides: Partial<Folder> = {}): Folder {
+  return {
+    id,
+    name: id,
+    parentId: null,
+    position: 0,
+    icon: null,
+    color: null,
+    builtIn: false,
+    ...overrides,
+  };
+}
+
+describe("folderTree", () => {
+  it("lists children under their parent, siblings by position then name", () => {
+    const folders = [
+      folder("tech", { position: 1 }),
+      folder("rust", { parentId: "tech", position: 2 }),
+      folder("news", { position: 0 }),
+      folder("go", { parentId: "tech", position: 2 }),
+      folder("ai", { parentId: "tech", position: 1 }),
+      folder("llms", { parentId: "ai" }),
+    ];
+
+    expect(folderTree(folders).map(({ folder: f, depth }) => [f.id, depth])).toEqual([
+      ["news", 0],
+      ["tech", 0],
+      ["ai", 1],
+      ["llms", 2],
+      ["go", 1],
+      ["rust", 1],
+    ]);
+  });
+
+  it("keeps folders with a missing parent or a parent cycle at the top level", () => {
+    const folders = [
+      folder("orphan", { parentId: "gone" }),
+      folder("a", { parentId: "b" }),
+      folder("b", { parentId: "a" }),
+    ];
+
+    expect(folderTree(folders).map(({ folder: f, depth }) => [f.id, depth])).toEqual([
+      ["orphan", 0],
+      ["a", 0],
+      ["b", 1],
+    ]);
+  });
+});
+
+describe("isFolderDescendant", () => {
+  const folders = [
+    folder("tech"),
+    folder("ai", { parentId: "tech" }),
+    folder("llms", { parentId: "ai" }),
+    folder("news"),
+  ];
+
+  it("follows parent links up to the ancestor", () => {
+    expect(isFolderDescendant(folders, "llms", "tech")).toBe(true);
+    expect(isFolderDescendant(folders, "tech", "tech")).toBe(true);
+    expect(isFolderDescendant(folders, "news", "tech")).toBe(false);
+    expect(isFolderDescendant(folders, "tech", "llms")).toBe(false);
+  });
+});
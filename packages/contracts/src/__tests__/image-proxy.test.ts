@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { imageProxyVariant } from "../image-proxy.js";
+
+describe("imageProxyVariant", () => {
+  it("swaps the size of a proxied image and keeps its signature and source", () => {
+    const url =
+      "https://api.example.com/v1/images/abcdefghijklmnop?url=https%3A%2F%2Fcdn.example.org%2Fa.jpg&size=card";
+    const variant = new URL(imageProxyVariant(url, "thumbnail"));
+
+    expect(variant.pathname).toBe("/v1/images/abcdefghijklmnop");
+    expect(variant.searchParams.get("url")).toBe("https://cdn.example.org/a.jpg");
+    expect(variant.searchParams.get("size")).toBe("thumbnail");
+  });
+
+  it("leaves other URLs unchanged", () => {
+    expect(imageProxyVariant("https://cdn.example.org/a.jpg?size=card", "thumbnail")).toBe(
+      "https://cdn.example.org/a.jpg?size=card",
+    );
+    expect(imageProxyVariant("not a url", "thumbnail")).toBe("not a url");
+  });
+});
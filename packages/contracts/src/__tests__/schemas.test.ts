@@ -32,6 +32,7 @@ import {
   createMemberInviteRequestSchema,
   digestEntrySchema,
   digestSchema,
+  digestSectionRulesSchema,
   digestSectionSchema,
   directoryEntrySchema,
   directoryListResponseSchema,
@@ -102,7 +103,7 @@ const NOW = "2025-01-15T12:00:00Z";
 
 describe("storyStateSchema", () => {
   it("accepts valid values", () => {
-    for (const v of ["unread", "saved", "all"]) {
+    for (const v of ["unread", "saved", "shared", "all"]) {
       expect(storyStateSchema.parse(v)).toBe(v);
     }
   });
@@ -210,13 +211,15 @@ describe("feedWeightSchema", () => {
 });
 
 describe("digestSectionSchema", () => {
-  it("accepts valid values", () => {
-    for (const v of ["top_picks", "big_stories", "quick_scan"]) {
+  it("accepts built-in and custom section ids", () => {
+    for (const v of ["top_picks", "big_stories", "quick_scan", "security", "section-2"]) {
       expect(digestSectionSchema.parse(v)).toBe(v);
     }
   });
-  it("rejects invalid value", () => {
-    expect(() => digestSectionSchema.parse("headlines")).toThrow();
+  it("rejects ids that are not slugs", () => {
+    for (const v of ["", "Top Picks!", "-lead", "a".repeat(41)]) {
+      expect(() => digestSectionSchema.parse(v)).toThrow();
+    }
   });
 });
 
@@ -266,7 +269,7 @@ describe("searchModeSchema", () => {
 
 describe("readerModeSchema", () => {
   it("accepts valid values", () => {
-    for (const v of ["feed", "original", "text"]) {
+    for (const v of ["feed", "original", "text", "video"]) {
       expect(readerModeSchema.parse(v)).toBe(v);
     }
   });
@@ -326,7 +329,18 @@ describe("memberStatusSchema", () => {
 describe("folderSchema", () => {
   it("parses valid folder", () => {
     const result = folderSchema.parse({ id: UUID, name: "Tech" });
-    expect(result).toEqual({ id: UUID, name: "Tech" });
+    expect(result).toEqual({
+      id: UUID,
+      name: "Tech",
+      parentId: null,
+      position: 0,
+      icon: null,
+      color: null,
+      builtIn: false,
+    });
+  });
+  it("rejects a color that is not a hex value", () => {
+    expect(() => folderSchema.parse({ id: UUID, name: "Tech", color: "teal" })).toThrow();
   });
   it("rejects empty name", () => {
     expect(() => folderSchema.parse({ id: UUID, name: "" })).toThrow();
@@ -397,7 +411,21 @@ describe("feedSchema", () => {
   };
 
   it("parses valid feed", () => {
-    expect(feedSchema.parse(valid)).toEqual(valid);
+    expect(feedSchema.parse(valid)).toEqual({
+      ...valid,
+      nextPollAt: null,
+      pollIntervalMinutes: null,
+      pollScheduleReason: null,
+    });
+  });
+  it("accepts a poll schedule", () => {
+    const result = feedSchema.parse({
+      ...valid,
+      nextPollAt: NOW,
+      pollIntervalMinutes: 120,
+      pollScheduleReason: "Publishes about every 4 hours",
+    });
+    expect(result.pollIntervalMinutes).toBe(120);
   });
   it("accepts null siteUrl", () => {
     const result = feedSchema.parse({ ...valid, siteUrl: null });
@@ -446,7 +474,11 @@ describe("clusterCardSchema", () => {
   };
 
   it("parses valid cluster card", () => {
-    expect(clusterCardSchema.parse(valid)).toEqual(valid);
+    expect(clusterCardSchema.parse(valid)).toEqual({ ...valid, video: null, isSharedSaved: false });
+  });
+  it("accepts a YouTube video embed", () => {
+    const video = { provider: "youtube", videoId: "dQw4w9WgXcQ", durationSeconds: 212 };
+    expect(clusterCardSchema.parse({ ...valid, video }).video).toEqual(video);
   });
   it("defaults displayMode to full", () => {
     const { displayMode, ...noDisplay } = valid;
@@ -493,7 +525,27 @@ describe("clusterDetailMemberSchema", () => {
   };
 
   it("parses valid member", () => {
-    expect(clusterDetailMemberSchema.parse(valid)).toEqual(valid);
+    expect(clusterDetailMemberSchema.parse(valid)).toEqual({
+      ...valid,
+      enclosures: [],
+      mediaProgress: null,
+    });
+  });
+
+  it("parses podcast enclosures with chapters", () => {
+    const enclosure = {
+      url: "https://cdn.example.com/ep.mp3",
+      mimeType: "audio/mpeg",
+      lengthBytes: 1000,
+      durationSeconds: 1800,
+      episodeNumber: 12,
+      seasonNumber: 2,
+      episodeType: "full",
+      chapters: [{ startSeconds: 0, title: "Intro", url: null }],
+      chaptersUrl: null,
+    };
+    const parsed = clusterDetailMemberSchema.parse({ ...valid, enclosures: [enclosure] });
+    expect(parsed.enclosures).toEqual([enclosure]);
   });
 });
 
@@ -529,6 +581,7 @@ describe("clusterDetailSchema", () => {
     });
     expect(result.members).toEqual([]);
     expect(result.storySoFar).toBe("The story so far...");
+    expect(result.storyHtml).toBeNull();
   });
   it("accepts null storySoFar", () => {
     const result = clusterDetailSchema.parse({
@@ -598,7 +651,7 @@ describe("annotationSchema", () => {
   };
 
   it("parses valid annotation", () => {
-    expect(annotationSchema.parse(valid)).toEqual(valid);
+    expect(annotationSchema.parse(valid)).toEqual({ ...valid, anchor: null });
   });
   it("accepts null note", () => {
     const result = annotationSchema.parse({ ...valid, note: null });
@@ -640,7 +693,7 @@ describe("digestEntrySchema", () => {
     expect(digestEntrySchema.parse({ ...valid, oneLiner: null }).oneLiner).toBeNull();
   });
   it("rejects invalid section", () => {
-    expect(() => digestEntrySchema.parse({ ...valid, section: "other" })).toThrow();
+    expect(() => digestEntrySchema.parse({ ...valid, section: "Not valid!" })).toThrow();
   });
 });
 
@@ -663,6 +716,29 @@ describe("digestSchema", () => {
     const result = digestSchema.parse({ ...valid, entries: [entry] });
     expect(result.entries).toHaveLength(1);
   });
+  it("accepts custom section headings", () => {
+    const sections = [{ id: "security", title: "Security" }];
+    expect(digestSchema.parse({ ...valid, sections }).sections).toEqual(sections);
+  });
+});
+
+describe("digestSectionRulesSchema", () => {
+  it("fills rule defaults", () => {
+    const [rule] = digestSectionRulesSchema.parse([{ id: "security", title: "Security" }]);
+    expect(rule).toMatchObject({
+      folderIds: [],
+      savedSearchId: null,
+      minOutlets: 1,
+      limit: 5,
+      order: "rank",
+      oneLiner: "summary",
+    });
+  });
+  it("rejects duplicate ids and blank titles", () => {
+    const rule = { id: "security", title: "Security" };
+    expect(() => digestSectionRulesSchema.parse([rule, rule])).toThrow();
+    expect(() => digestSectionRulesSchema.parse([{ ...rule, title: "  " }])).toThrow();
+  });
 });
 
 describe("settingsSchema", () => {
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { buildTextAnchor, resolveTextAnchor } from "../text-anchors.js";
+
+const TEXT =
+  "The council voted on Tuesday. Critics said the vote was rushed. " +
+  "Supporters said the vote was overdue and the budget was fair.";
+
+function rangeOf(text: string, exact: string, occurrence = 0): [number, number] {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i += 1) {
+    start = text.indexOf(exact, start + 1);
+  }
+  return [start, start + exact.length];
+}
+
+describe("buildTextAnchor", () => {
+  it("captures the quote with up to 32 characters of context", () => {
+    const [start, end] = rangeOf(TEXT, "the vote was rushed");
+    const anchor = buildTextAnchor(TEXT, start, end);
+
+    expect(anchor).toEqual({
+      quote: {
+        exact: "the vote was rushed",
+        prefix: " voted on Tuesday. Critics said ",
+        suffix: ". Supporters said the vote was o",
+      },
+      position: { start, end },
+    });
+  });
+});
+
+describe("resolveTextAnchor", () => {
+  it("keeps the stored position while it still holds the quote", () => {
+    const [start, end] = rangeOf(TEXT, "the vote was", 1);
+    expect(resolveTextAnchor(TEXT, buildTextAnchor(TEXT, start, end))).toEqual({ start, end });
+  });
+
+  it("follows the quote to its new offset after the text changes", () => {
+    const [start, end] = rangeOf(TEXT, "the vote was", 1);
+    const anchor = buildTextAnchor(TEXT, start, end);
+    const edited = `Updated: ${TEXT.replace("Critics said", "Several critics argued")}`;
+
+    const resolved = resolveTextAnchor(edited, anchor);
+    const [expectedStart, expectedEnd] = rangeOf(edited, "the vote was", 1);
+    expect(resolved).toEqual({ start: expectedStart, end: expectedEnd });
+  });
+
+  it("uses the surrounding context to pick between repeated quotes", () => {
+    const [start, end] = rangeOf(TEXT, "the vote was", 1);
+    const anchor = { ...buildTextAnchor(TEXT, start, end), position: null };
+
+    expect(resolveTextAnchor(TEXT, anchor)).toEqual({ start, end });
+  });
+
+  it("returns null once the quote is gone", () => {
+    const anchor = buildTextAnchor(TEXT, ...rangeOf(TEXT, "budget was fair"));
+    expect(resolveTextAnchor(TEXT.replace("budget was fair", "budget passed"), anchor)).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { isYouTubeHost, youtubeEmbedUrl, youtubeVideoIdFromUrl } from "../youtube.js";
+
+describe("youtubeVideoIdFromUrl", () => {
+  it("reads watch, short-link, shorts and embed URLs", () => {
+    expect(youtubeVideoIdFromUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=10")).toBe(
+      "dQw4w9WgXcQ",
+    );
+    expect(youtubeVideoIdFromUrl("https://youtu.be/dQw4w9WgXcQ")).toBe("dQw4w9WgXcQ");
+    expect(youtubeVideoIdFromUrl("https://m.youtube.com/shorts/dQw4w9WgXcQ")).toBe("dQw4w9WgXcQ");
+    expect(youtubeVideoIdFromUrl("https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ")).toBe(
+      "dQw4w9WgXcQ",
+    );
+  });
+
+  it("returns null for channel, playlist and foreign URLs", () => {
+    expect(youtubeVideoIdFromUrl("https://www.youtube.com/@somechannel")).toBeNull();
+    expect(youtubeVideoIdFromUrl("https://www.youtube.com/playlist?list=PL123")).toBeNull();
+    expect(youtubeVideoIdFromUrl("https://example.com/watch?v=dQw4w9WgXcQ")).toBeNull();
+    expect(youtubeVideoIdFromUrl("https://www.youtube.com/watch?v=not-an-id")).toBeNull();
+    expect(youtubeVideoIdFromUrl("not a url")).toBeNull();
+  });
+});
+
+describe("isYouTubeHost", () => {
+  it("matches YouTube hosts case-insensitively", () => {
+    expect(isYouTubeHost("WWW.YouTube.com")).toBe(true);
+    expect(isYouTubeHost("youtu.be")).toBe(true);
+    expect(isYouTubeHost("notyoutube.com")).toBe(false);
+  });
+});
+
+describe("youtubeEmbedUrl", () => {
+  it("uses the privacy-enhanced domain", () => {
+    expect(youtubeEmbedUrl("dQw4w9WgXcQ")).toBe(
+      "https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ",
+    );
+  });
+});
@@ -11,6 +11,8 @@ export const MODEL_COST_TABLE: Record<string, [number, number]> = {
   "claude-sonnet": [3.0, 15.0],
   "claude-haiku-4-5-20251001": [0.8, 4.0],
   "claude-haiku": [0.8, 4.0],
+  "text-embedding-3-small": [0.02, 0],
+  "text-embedding-3-large": [0.13, 0],
 };
 
 /**
@@ -14,8 +14,25 @@ export interface AiCompletionResponse {
   durationMs: number;
 }
 
+export interface AiEmbeddingRequest {
+  model?: string;
+  input: string[];
+}
+
+export interface AiEmbeddingResponse {
+  /** One vector per input, in order. Empty when the request failed. */
+  vectors: number[][];
+  inputTokens: number;
+  model: string;
+  provider: string;
+  durationMs: number;
+  error?: string;
+}
+
 export interface AiProviderAdapter {
   readonly name: string;
   complete(req: AiCompletionRequest): Promise<AiCompletionResponse>;
+  /** Text embeddings; only implemented by providers with an embeddings API. */
+  embed?(req: AiEmbeddingRequest): Promise<AiEmbeddingResponse>;
   isAvailable(): boolean;
 }
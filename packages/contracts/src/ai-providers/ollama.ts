@@ -1,10 +1,13 @@
 import type {
   AiCompletionRequest,
   AiCompletionResponse,
+  AiEmbeddingRequest,
+  AiEmbeddingResponse,
   AiProviderAdapter,
 } from "../ai-provider.js";
 
 const DEFAULT_MODEL = "llama3.2";
+const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text";
 const DEFAULT_BASE_URL = "http://localhost:11434";
 
 export function createOllamaProvider(baseUrl?: string): AiProviderAdapter {
@@ -83,5 +86,53 @@ export function createOllamaProvider(baseUrl?: string): AiProviderAdapter {
         durationMs,
       };
     },
+
+    async embed(req: AiEmbeddingRequest): Promise<AiEmbeddingResponse> {
+      const model = req.model ?? DEFAULT_EMBEDDING_MODEL;
+      const start = Date.now();
+      const failed = (error: string): AiEmbeddingResponse => ({
+        vectors: [],
+        inputTokens: 0,
+        model,
+        provider: "ollama",
+        durationMs: Date.now() - start,
+        error: `[ollama error] ${error}`,
+      });
+
+      let res: Response;
+      try {
+        res = await fetch(`${url}/api/embed`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ model, input: req.input }),
+        });
+      } catch (err) {
+        return failed(err instanceof Error ? err.message : "network error");
+      }
+
+      if (!res.ok) {
+        let errorText: string;
+        try {
+          errorText = await res.text();
+        } catch {
+          errorText = `HTTP ${res.status}`;
+        }
+        return failed(errorText);
+      }
+
+      const body = (await res.json()) as {
+        embeddings?: number[][];
+        prompt_eval_count?: number;
+        model?: string;
+      };
+
+      return {
+        vectors: body.embeddings ?? [],
+        inputTokens: body.prompt_eval_count ?? 0,
+        model: body.model ?? model,
+        provider: "ollama",
+        durationMs: Date.now() - start,
+      };
+    },
   };
 }
@@ -1,11 +1,15 @@
 import type {
   AiCompletionRequest,
   AiCompletionResponse,
+  AiEmbeddingRequest,
+  AiEmbeddingResponse,
   AiProviderAdapter,
 } from "../ai-provider.js";
 
 const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
 const API_URL = "https://api.openai.com/v1/chat/completions";
+const EMBEDDINGS_URL = "https://api.openai.com/v1/embeddings";
 
 export function createOpenAiProvider(apiKey: string): AiProviderAdapter {
   return {
@@ -80,5 +84,57 @@ export function createOpenAiProvider(apiKey: string): AiProviderAdapter {
         durationMs,
       };
     },
+
+    async embed(req: AiEmbeddingRequest): Promise<AiEmbeddingResponse> {
+      const model = req.model ?? DEFAULT_EMBEDDING_MODEL;
+      const start = Date.now();
+      const failed = (error: string): AiEmbeddingResponse => ({
+        vectors: [],
+        inputTokens: 0,
+        model,
+        provider: "openai",
+        durationMs: Date.now() - start,
+        error: `[openai error] ${error}`,
+      });
+
+      let res: Response;
+      try {
+        res = await fetch(EMBEDDINGS_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({ model, input: req.input }),
+        });
+      } catch (err) {
+        return failed(err instanceof Error ? err.message : "network error");
+      }
+
+      if (!res.ok) {
+        let errorText: string;
+        try {
+          errorText = await res.text();
+        } catch {
+          errorText = `HTTP ${res.status}`;
+        }
+        return failed(errorText);
+      }
+
+      const body = (await res.json()) as {
+        data?: Array<{ index?: number; embedding?: number[] }>;
+        usage?: { prompt_tokens?: number };
+        model?: string;
+      };
+      const data = [...(body.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+      return {
+        vectors: data.map((d) => d.embedding ?? []),
+        inputTokens: body.usage?.prompt_tokens ?? 0,
+        model: body.model ?? model,
+        provider: "openai",
+        durationMs: Date.now() - start,
+      };
+    },
   };
 }
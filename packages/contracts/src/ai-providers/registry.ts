@@ -5,6 +5,8 @@ import { createOpenAiProvider } from "./openai.js";
 
 export interface AiRegistry {
   getProvider(name?: string): AiProviderAdapter | null;
+  /** Provider used for text embeddings; only providers implementing `embed` qualify. */
+  getEmbeddingProvider(): AiProviderAdapter | null;
   listAvailable(): string[];
 }
 
@@ -13,6 +15,7 @@ export function createAiRegistry(env: {
   ANTHROPIC_API_KEY?: string;
   AI_PROVIDER?: string;
   OLLAMA_BASE_URL?: string;
+  AI_EMBEDDING_PROVIDER?: string;
 }): AiRegistry {
   const providers = new Map<string, AiProviderAdapter>();
 
@@ -36,6 +39,7 @@ export function createAiRegistry(env: {
   }
 
   const defaultName = env.AI_PROVIDER ?? null;
+  const embeddingName = env.AI_EMBEDDING_PROVIDER ?? defaultName;
 
   return {
     getProvider(name?: string): AiProviderAdapter | null {
@@ -49,6 +53,17 @@ export function createAiRegistry(env: {
       return first.done ? null : first.value;
     },
 
+    getEmbeddingProvider(): AiProviderAdapter | null {
+      const preferred = embeddingName ? providers.get(embeddingName) : undefined;
+      if (preferred?.embed) {
+        return preferred;
+      }
+      for (const provider of providers.values()) {
+        if (provider.embed) return provider;
+      }
+      return null;
+    },
+
     listAvailable(): string[] {
       return [...providers.keys()];
     },
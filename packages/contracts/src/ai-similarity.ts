@@ -0,0 +1,44 @@
+/**
+ * Vector helpers for comparing stored embeddings. Embeddings live in
+ * item_embedding as REAL[], so similarity is computed in application code.
+ */
+
+/**
+ * Cosine similarity between two embedding vectors. Vectors of different
+ * dimensions (e.g. from different embedding models) are not comparable.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number | null {
+  if (a.length === 0 || a.length !== b.length) return null;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+
+  if (normA === 0 || normB === 0) return null;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Element-wise mean of same-dimension vectors, used as a cluster centroid.
+ * Vectors whose dimension differs from the first one are ignored.
+ */
+export function meanVector(vectors: number[][]): number[] | null {
+  const first = vectors[0];
+  if (!first || first.length === 0) return null;
+
+  const sum = new Array<number>(first.length).fill(0);
+  let count = 0;
+  for (const vector of vectors) {
+    if (vector.length !== first.length) continue;
+    for (let i = 0; i < vector.length; i++) {
+      sum[i]! += vector[i]!;
+    }
+    count++;
+  }
+  return sum.map((value) => value / count);
+}
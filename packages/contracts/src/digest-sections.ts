@@ -0,0 +1,139 @@
+/**
+ * Digest section assignment shared by digest generation (worker) and the
+ * digest preview (API), so a previewed rule set builds the same digest the
+ * scheduler will.
+ */
+import type { DigestEntry, DigestSectionHeading, DigestSectionRule } from "./index.js";
+
+/** An unread cluster in the digest window, in ranked order. */
+export interface DigestCandidate {
+  clusterId: string;
+  headline: string;
+  sourceName: string;
+  folderId: string;
+  topicId: string | null;
+  feedId: string;
+  feedWeight: string;
+  outletCount: number;
+  publishedAt: string;
+  summary: string | null;
+  aiSummary: string | null;
+}
+
+const ONE_LINER_MAX_LENGTH = 120;
+
+function builtInSection(id: string, title: string, limit: number): DigestSectionRule {
+  return {
+    id,
+    title,
+    folderIds: [],
+    topicIds: [],
+    feedIds: [],
+    preferredSourcesOnly: false,
+    savedSearchId: null,
+    minOutlets: 1,
+    limit,
+    order: "rank",
+    oneLiner: "summary",
+  };
+}
+
+/** Top ranked stories split 5 / 5 / 10, used when no custom sections are defined. */
+export const BUILT_IN_DIGEST_SECTIONS: DigestSectionRule[] = [
+  builtInSection("top_picks", "Top Picks", 5),
+  builtInSection("big_stories", "Big Stories", 5),
+  builtInSection("quick_scan", "Quick Scan", 10),
+];
+
+/** Section order and titles of a digest, falling back to the built-ins. */
+export function digestSectionHeadings(digest: {
+  sections?: DigestSectionHeading[];
+}): DigestSectionHeading[] {
+  return digest.sections ?? BUILT_IN_DIGEST_SECTIONS.map(({ id, title }) => ({ id, title }));
+}
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return `${text.slice(0, maxLen - 3)}...`;
+}
+
+function matchesRule(
+  candidate: DigestCandidate,
+  rule: DigestSectionRule,
+  savedSearchMatches: Record<string, ReadonlySet<string>>,
+): boolean {
+  const scoped = rule.folderIds.length + rule.topicIds.length + rule.feedIds.length > 0;
+  if (
+    scoped &&
+    !rule.folderIds.includes(candidate.folderId) &&
+    !(candidate.topicId && rule.topicIds.includes(candidate.topicId)) &&
+    !rule.feedIds.includes(candidate.feedId)
+  ) {
+    return false;
+  }
+  if (rule.preferredSourcesOnly && candidate.feedWeight !== "prefer") return false;
+  if (candidate.outletCount < rule.minOutlets) return false;
+  if (rule.savedSearchId && !savedSearchMatches[rule.savedSearchId]?.has(candidate.clusterId)) {
+    return false;
+  }
+  return true;
+}
+
+function oneLinerFor(candidate: DigestCandidate, rule: DigestSectionRule): string | null {
+  const text =
+    rule.oneLiner === "none"
+      ? null
+      : rule.oneLiner === "ai"
+        ? (candidate.aiSummary ?? candidate.summary)
+        : candidate.summary;
+  return text ? truncate(text, ONE_LINER_MAX_LENGTH) : null;
+}
+
+/**
+ * Fills each section in order from the ranked candidates. A story is only
+ * used once, so a catch-all section after narrower ones gets what is left.
+ * `savedSearchMatches` maps saved search ids to the candidate clusters that
+ * match them; rules naming an unknown saved search match nothing.
+ */
+export function assignDigestSections(
+  candidates: DigestCandidate[],
+  rules: DigestSectionRule[],
+  savedSearchMatches: Record<string, ReadonlySet<string>> = {},
+): { sections: DigestSectionHeading[]; entries: Array<DigestEntry & { sourceName: string }> } {
+  const effectiveRules = rules.length > 0 ? rules : BUILT_IN_DIGEST_SECTIONS;
+  const rank = new Map(candidates.map((candidate, index) => [candidate.clusterId, index]));
+  const used = new Set<string>();
+  const entries: Array<DigestEntry & { sourceName: string }> = [];
+
+  for (const rule of effectiveRules) {
+    const matching = candidates.filter(
+      (candidate) =>
+        !used.has(candidate.clusterId) && matchesRule(candidate, rule, savedSearchMatches),
+    );
+    if (rule.order === "newest") {
+      matching.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+    } else if (rule.order === "most_outlets") {
+      matching.sort(
+        (a, b) =>
+          b.outletCount - a.outletCount ||
+          (rank.get(a.clusterId) ?? 0) - (rank.get(b.clusterId) ?? 0),
+      );
+    }
+
+    for (const candidate of matching.slice(0, rule.limit)) {
+      used.add(candidate.clusterId);
+      entries.push({
+        clusterId: candidate.clusterId,
+        headline: candidate.headline,
+        section: rule.id,
+        oneLiner: oneLinerFor(candidate, rule),
+        sourceName: candidate.sourceName,
+      });
+    }
+  }
+
+  return {
+    sections: effectiveRules.map(({ id, title }) => ({ id, title })),
+    entries,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Per-site extraction rules, in the spirit of FiveFilters site-config files:
+ * which elements hold the article, what to strip, how to reach the next page
+ * of a multi-page article, which headers a site needs and when to give up on
+ * the page and keep the feed's own content. Shared by the API (listing the
+ * bundled set next to a workspace's own rules) and the worker (extraction).
+ */
+import type { ExtractionRule } from "./index.js";
+
+function bundled(
+  domain: string,
+  rule: Partial<Omit<ExtractionRule, "id" | "domain" | "source">>,
+): ExtractionRule {
+  return {
+    id: `bundled:${domain}`,
+    domain,
+    bodySelectors: [],
+    stripSelectors: [],
+    nextPageSelector: null,
+    maxPages: 1,
+    headers: {},
+    cookie: null,
+    useFeedContent: false,
+    enabled: true,
+    source: "bundled",
+    updatedAt: null,
+    ...rule,
+  };
+}
+
+/** Rules shipped with the app; a workspace rule for the same domain takes precedence. */
+export const BUNDLED_EXTRACTION_RULES: readonly ExtractionRule[] = [
+  bundled("github.com", { bodySelectors: [".markdown-body"] }),
+  bundled("substack.com", {
+    bodySelectors: [".available-content", ".body.markup"],
+    stripSelectors: [".subscription-widget-wrap", ".button-wrapper"],
+  }),
+  bundled("wikipedia.org", {
+    bodySelectors: ["#mw-content-text"],
+    stripSelectors: [".mw-editsection", ".reference", ".navbox", "#toc", ".infobox"],
+  }),
+  // Pages that are not articles; the feed entry is the content.
+  bundled("reddit.com", { useFeedContent: true }),
+  bundled("twitter.com", { useFeedContent: true }),
+  bundled("x.com", { useFeedContent: true }),
+  bundled("youtube.com", { useFeedContent: true }),
+];
+
+/**
+ * Lowercases a domain and strips what people paste around it: a scheme,
+ * path, port, `*.` wildcard or leading dot.
+ */
+export function normalizeRuleDomain(value: string): string {
+  let domain = value.trim().toLowerCase();
+  domain = domain.replace(/^[a-z][a-z0-9+.-]*:\/\//, "");
+  domain = domain.replace(/[/?#].*$/, "").replace(/:\d+$/, "");
+  return domain.replace(/^\*\./, "").replace(/^\.+/, "").replace(/\.+$/, "");
+}
+
+/** True when `hostname` is `domain` or one of its subdomains. */
+export function extractionRuleMatches(domain: string, hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * The enabled rule for `url` with the most specific domain. Pass workspace
+ * rules before bundled ones: on equal domains the earlier rule wins.
+ */
+export function matchExtractionRule<T extends Pick<ExtractionRule, "domain" | "enabled">>(
+  rules: readonly T[],
+  url: string,
+): T | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return null;
+  }
+
+  let best: T | null = null;
+  for (const rule of rules) {
+    if (!rule.enabled || !extractionRuleMatches(rule.domain, hostname)) continue;
+    if (!best || rule.domain.length > best.domain.length) best = rule;
+  }
+  return best;
+}
@@ -0,0 +1,68 @@
+/**
+ * Folder hierarchy helpers shared by the API (validating moves) and the web
+ * app (sidebar and folder manager), so both read parent links the same way.
+ */
+import type { Folder } from "./index.js";
+
+export interface FolderTreeEntry {
+  folder: Folder;
+  depth: number;
+}
+
+function byPosition(a: Folder, b: Folder): number {
+  return a.position - b.position || a.name.localeCompare(b.name);
+}
+
+/**
+ * Flattens folders into display order: each folder is followed by its
+ * children, siblings sorted by position then name. Folders whose parent is
+ * missing are treated as top level, so a stale parent link never hides one.
+ */
+export function folderTree(folders: Folder[]): FolderTreeEntry[] {
+  const ids = new Set(folders.map((folder) => folder.id));
+  const children = new Map<string | null, Folder[]>();
+  for (const folder of folders) {
+    const parentId = folder.parentId && ids.has(folder.parentId) ? folder.parentId : null;
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(folder);
+    children.set(parentId, siblings);
+  }
+
+  const entries: FolderTreeEntry[] = [];
+  const visited = new Set<string>();
+  const visit = (parentId: string | null, depth: number) => {
+    for (const folder of (children.get(parentId) ?? []).sort(byPosition)) {
+      if (visited.has(folder.id)) continue;
+      visited.add(folder.id);
+      entries.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  // Folders caught in a parent cycle are unreachable from the top level.
+  for (const folder of folders.filter((f) => !visited.has(f.id)).sort(byPosition)) {
+    if (visited.has(folder.id)) continue;
+    visited.add(folder.id);
+    entries.push({ folder, depth: 0 });
+    visit(folder.id, 1);
+  }
+  return entries;
+}
+
+/** True when `folderId` is `ancestorId` or sits anywhere below it. */
+export function isFolderDescendant(
+  folders: Folder[],
+  folderId: string,
+  ancestorId: string,
+): boolean {
+  const parents = new Map(folders.map((folder) => [folder.id, folder.parentId]));
+  const seen = new Set<string>();
+  let current: string | null | undefined = folderId;
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = parents.get(current);
+  }
+  return false;
+}
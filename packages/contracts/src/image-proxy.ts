@@ -0,0 +1,35 @@
+/**
+ * Image proxy URL helpers shared by the API (which signs and serves proxied
+ * images) and the web (which picks a smaller size for thumbnails). A proxied
+ * URL looks like `/v1/images/<signature>?url=<origin image>&size=<size>`; the
+ * signature covers only the origin URL, so any allowed size can be requested.
+ */
+
+export const IMAGE_PROXY_PATH_PREFIX = "/v1/images/";
+
+/** Output widths in pixels, about twice the CSS width each is shown at; never enlarged. */
+export const IMAGE_PROXY_WIDTHS = {
+  thumbnail: 480,
+  card: 1200,
+  article: 1600,
+} as const;
+
+export type ImageProxySize = keyof typeof IMAGE_PROXY_WIDTHS;
+
+/**
+ * The same proxied image at another size. URLs that do not point at the
+ * image proxy are returned unchanged.
+ */
+export function imageProxyVariant(url: string, size: ImageProxySize): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (!parsed.pathname.startsWith(IMAGE_PROXY_PATH_PREFIX) || !parsed.searchParams.has("url")) {
+    return url;
+  }
+  parsed.searchParams.set("size", size);
+  return parsed.toString();
+}
@@ -1,10 +1,13 @@
 import { z } from "zod";
+import { normalizeRuleDomain } from "./extraction-rules.js";
 
 export { estimateCostUsd, MODEL_COST_TABLE } from "./ai-cost.js";
 export { stripMarkdownFences } from "./ai-parse.js";
 export type {
   AiCompletionRequest,
   AiCompletionResponse,
+  AiEmbeddingRequest,
+  AiEmbeddingResponse,
   AiProviderAdapter,
 } from "./ai-provider.js";
 export { createAnthropicProvider } from "./ai-providers/anthropic.js";
@@ -13,8 +16,44 @@ export { createOpenAiProvider } from "./ai-providers/openai.js";
 export type { AiRegistry } from "./ai-providers/registry.js";
 export { createAiRegistry } from "./ai-providers/registry.js";
 export { sanitizeForPrompt } from "./ai-sanitize.js";
-
-export const storyStateSchema = z.enum(["unread", "saved", "all"]);
+export { cosineSimilarity, meanVector } from "./ai-similarity.js";
+export { canonicalizeUrl } from "./canonicalize-url.js";
+export {
+  assignDigestSections,
+  BUILT_IN_DIGEST_SECTIONS,
+  type DigestCandidate,
+  digestSectionHeadings,
+} from "./digest-sections.js";
+export {
+  BUNDLED_EXTRACTION_RULES,
+  extractionRuleMatches,
+  matchExtractionRule,
+  normalizeRuleDomain,
+} from "./extraction-rules.js";
+export { type FolderTreeEntry, folderTree, isFolderDescendant } from "./folders.js";
+export {
+  IMAGE_PROXY_PATH_PREFIX,
+  IMAGE_PROXY_WIDTHS,
+  type ImageProxySize,
+  imageProxyVariant,
+} from "./image-proxy.js";
+export {
+  buildTextAnchor,
+  resolveTextAnchor,
+  TEXT_ANCHOR_CONTEXT_CHARS,
+} from "./text-anchors.js";
+export {
+  isYouTubeHost,
+  YOUTUBE_VIDEO_MIME_TYPE,
+  youtubeChannelFeedUrl,
+  youtubeEmbedUrl,
+  youtubePlaylistFeedUrl,
+  youtubeUserFeedUrl,
+  youtubeVideoIdFromUrl,
+  youtubeWatchUrl,
+} from "./youtube.js";
+
+export const storyStateSchema = z.enum(["unread", "saved", "shared", "all"]);
 export type StoryState = z.infer<typeof storyStateSchema>;
 
 export const storySortSchema = z.enum(["personal", "latest"]);
@@ -47,12 +86,27 @@ export type PlanId = z.infer<typeof planIdSchema>;
 export const planSubscriptionStatusSchema = z.enum(["active", "trialing", "past_due", "canceled"]);
 export type PlanSubscriptionStatus = z.infer<typeof planSubscriptionStatusSchema>;
 
-export const searchModeSchema = z.enum(["title_source", "full_text"]);
+export const searchModeSchema = z.enum(["title_source", "full_text", "semantic"]);
 export type SearchMode = z.infer<typeof searchModeSchema>;
 
+export const folderIconSchema = z.string().trim().min(1).max(16);
+export const folderColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, { message: "color must be a #rrggbb hex value" });
+
+/**
+ * A folder as one workspace sees it. Built-in folders are the ten seeded ones,
+ * shared by every workspace; they can be nested, reordered, decorated and
+ * deleted per workspace but not renamed.
+ */
 export const folderSchema = z.object({
   id: z.string(),
   name: z.string().min(1),
+  parentId: z.string().nullable().default(null),
+  position: z.number().int().default(0),
+  icon: folderIconSchema.nullable().default(null),
+  color: folderColorSchema.nullable().default(null),
+  builtIn: z.boolean().default(false),
 });
 export type Folder = z.infer<typeof folderSchema>;
 
@@ -84,7 +138,7 @@ export type ClassificationStatus = z.infer<typeof classificationStatusSchema>;
 export const feedWeightSchema = z.enum(["prefer", "neutral", "deprioritize"]);
 export type FeedWeight = z.infer<typeof feedWeightSchema>;
 
-export const readerModeSchema = z.enum(["feed", "original", "text"]);
+export const readerModeSchema = z.enum(["feed", "original", "text", "video"]);
 export type ReaderMode = z.infer<typeof readerModeSchema>;
 
 export const feedParseFailureStageSchema = z.enum([
@@ -113,16 +167,29 @@ export const feedSchema = z.object({
   lastParseFailureStage: feedParseFailureStageSchema.nullable(),
   lastParseFailureError: z.string().nullable(),
   defaultReaderMode: readerModeSchema.nullable(),
+  /** When the worker will next poll the feed; null until its first scheduled poll. */
+  nextPollAt: z.string().datetime().nullable().default(null),
+  pollIntervalMinutes: z.number().int().positive().nullable().default(null),
+  /** Why the worker picked that interval (cadence, publisher hints, plan limit). */
+  pollScheduleReason: z.string().nullable().default(null),
 });
 export type Feed = z.infer<typeof feedSchema>;
 
 export const displayModeSchema = z.enum(["full", "summary", "headline"]);
 export type DisplayMode = z.infer<typeof displayModeSchema>;
 
+export const videoEmbedSchema = z.object({
+  provider: z.literal("youtube"),
+  videoId: z.string(),
+  durationSeconds: z.number().int().nullable(),
+});
+export type VideoEmbed = z.infer<typeof videoEmbedSchema>;
+
 export const clusterCardSchema = z.object({
   id: z.string(),
   headline: z.string(),
   heroImageUrl: z.string().nullable(),
+  video: videoEmbedSchema.nullable().default(null),
   primaryFeedId: z.string(),
   primarySource: z.string(),
   primarySourcePublishedAt: z.string().datetime(),
@@ -162,15 +229,56 @@ export const clusterCardSchema = z.object({
     .optional(),
   isRead: z.boolean(),
   isSaved: z.boolean(),
+  /** In the workspace's shared saved collection, visible to every member. */
+  isSharedSaved: z.boolean().default(false),
 });
 export type ClusterCard = z.infer<typeof clusterCardSchema>;
 
+export const enclosureChapterSchema = z.object({
+  startSeconds: z.number().min(0),
+  title: z.string(),
+  url: z.string().nullable(),
+});
+export type EnclosureChapter = z.infer<typeof enclosureChapterSchema>;
+
+export const itemEnclosureSchema = z.object({
+  url: z.string(),
+  mimeType: z.string().nullable(),
+  lengthBytes: z.number().int().nullable(),
+  durationSeconds: z.number().int().nullable(),
+  episodeNumber: z.number().int().nullable(),
+  seasonNumber: z.number().int().nullable(),
+  episodeType: z.string().nullable(),
+  chapters: z.array(enclosureChapterSchema),
+  chaptersUrl: z.string().nullable(),
+});
+export type ItemEnclosure = z.infer<typeof itemEnclosureSchema>;
+
+export const mediaProgressSchema = z.object({
+  itemId: z.string(),
+  positionSeconds: z.number().int().min(0),
+  durationSeconds: z.number().int().positive().nullable(),
+  completed: z.boolean(),
+  updatedAt: z.string().datetime(),
+});
+export type MediaProgress = z.infer<typeof mediaProgressSchema>;
+
+export const updateMediaProgressRequestSchema = z.object({
+  positionSeconds: z.number().min(0),
+  durationSeconds: z.number().positive().nullable().optional(),
+  /** Seconds actually played since the previous report; counts as engagement. */
+  listenedSeconds: z.number().min(0).max(3600).default(0),
+});
+export type UpdateMediaProgressRequest = z.infer<typeof updateMediaProgressRequestSchema>;
+
 export const clusterDetailMemberSchema = z.object({
   itemId: z.string(),
   title: z.string(),
   sourceName: z.string(),
   url: z.string(),
   publishedAt: z.string().datetime(),
+  enclosures: z.array(itemEnclosureSchema).default([]),
+  mediaProgress: mediaProgressSchema.nullable().default(null),
 });
 export type ClusterDetailMember = z.infer<typeof clusterDetailMemberSchema>;
 
@@ -184,6 +292,11 @@ export type ClusterStoryTextSource = z.infer<typeof clusterStoryTextSourceSchema
 export const clusterDetailSchema = z.object({
   cluster: clusterCardSchema,
   storySoFar: z.string().nullable(),
+  /**
+   * Sanitized article markup for the reader's text mode, when full text was
+   * extracted. Its whitespace-collapsed text content is `storySoFar`.
+   */
+  storyHtml: z.string().nullable().default(null),
   storyTextSource: clusterStoryTextSourceSchema,
   storyExtractedAt: z.string().datetime().nullable(),
   members: z.array(clusterDetailMemberSchema),
@@ -191,6 +304,16 @@ export const clusterDetailSchema = z.object({
 });
 export type ClusterDetail = z.infer<typeof clusterDetailSchema>;
 
+export const relatedClusterSchema = clusterCardSchema.extend({
+  similarity: z.number().min(-1).max(1),
+});
+export type RelatedCluster = z.infer<typeof relatedClusterSchema>;
+
+export const relatedClustersResponseSchema = z.object({
+  data: z.array(relatedClusterSchema),
+});
+export type RelatedClustersResponse = z.infer<typeof relatedClustersResponseSchema>;
+
 export const clusterAiSummaryResponseSchema = z.object({
   summary: z.string().nullable(),
   generatedAt: z.string().datetime().nullable(),
@@ -210,12 +333,43 @@ export const filterRuleSchema = z.object({
 });
 export type FilterRule = z.infer<typeof filterRuleSchema>;
 
+/** W3C-style text-quote selector: the highlighted text plus context on either side. */
+export const textQuoteSelectorSchema = z.object({
+  exact: z.string().min(1).max(20_000),
+  prefix: z.string().max(200).default(""),
+  suffix: z.string().max(200).default(""),
+});
+export type TextQuoteSelector = z.infer<typeof textQuoteSelectorSchema>;
+
+/** Character offsets (end exclusive) into the story's extracted full text. */
+export const textPositionSelectorSchema = z
+  .object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+  })
+  .refine((position) => position.end > position.start, {
+    message: "end must be after start",
+  });
+export type TextPositionSelector = z.infer<typeof textPositionSelectorSchema>;
+
+/**
+ * Where an annotation sits in the article. `position` is null while the
+ * quote can't be found in the current extracted text (for example before
+ * extraction finished, or after the article changed).
+ */
+export const annotationAnchorSchema = z.object({
+  quote: textQuoteSelectorSchema,
+  position: textPositionSelectorSchema.nullable(),
+});
+export type AnnotationAnchor = z.infer<typeof annotationAnchorSchema>;
+
 export const annotationSchema = z.object({
   id: z.string(),
   clusterId: z.string(),
   highlightedText: z.string(),
   note: z.string().nullable(),
   color: annotationColorSchema,
+  anchor: annotationAnchorSchema.nullable().default(null),
   createdAt: z.string().datetime(),
 });
 export type Annotation = z.infer<typeof annotationSchema>;
@@ -224,13 +378,64 @@ export const createAnnotationRequestSchema = z.object({
   highlightedText: z.string().min(1),
   note: z.string().optional(),
   color: annotationColorSchema.default("yellow"),
+  /** Anchor computed by the reader over the text it displays; re-resolved by the API. */
+  anchor: annotationAnchorSchema.optional(),
 });
 export type CreateAnnotationRequest = z.infer<typeof createAnnotationRequestSchema>;
 
+/**
+ * Section ids are slugs. Digests use the built-in `top_picks`, `big_stories`
+ * and `quick_scan` sections unless the member defines their own.
+ */
+export const digestSectionSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,39}$/);
+export type DigestSection = z.infer<typeof digestSectionSchema>;
+
+export const digestSectionHeadingSchema = z.object({
+  id: digestSectionSchema,
+  title: z.string(),
+});
+export type DigestSectionHeading = z.infer<typeof digestSectionHeadingSchema>;
+
+export const digestSectionOrderSchema = z.enum(["rank", "newest", "most_outlets"]);
+export type DigestSectionOrder = z.infer<typeof digestSectionOrderSchema>;
+
+/** `ai` uses the cluster's cached AI summary when there is one, else the feed summary. */
+export const digestOneLinerSchema = z.enum(["none", "summary", "ai"]);
+export type DigestOneLiner = z.infer<typeof digestOneLinerSchema>;
+
+/**
+ * A rule-defined digest section. Folder, topic and feed lists are alternatives
+ * (a story in any of them matches; empty lists match everything); the other
+ * conditions narrow that further. Each story lands in the first section, in
+ * order, that matches it and still has room.
+ */
+export const digestSectionRuleSchema = z.object({
+  id: digestSectionSchema,
+  title: z.string().trim().min(1).max(60),
+  folderIds: z.array(z.string()).max(50).default([]),
+  topicIds: z.array(z.string()).max(50).default([]),
+  feedIds: z.array(z.string()).max(50).default([]),
+  preferredSourcesOnly: z.boolean().default(false),
+  /** Id of one of the member's saved searches. */
+  savedSearchId: z.string().nullable().default(null),
+  minOutlets: z.number().int().min(1).max(50).default(1),
+  limit: z.number().int().min(1).max(50).default(5),
+  order: digestSectionOrderSchema.default("rank"),
+  oneLiner: digestOneLinerSchema.default("summary"),
+});
+export type DigestSectionRule = z.infer<typeof digestSectionRuleSchema>;
+
+export const digestSectionRulesSchema = z
+  .array(digestSectionRuleSchema)
+  .max(12)
+  .refine((rules) => new Set(rules.map((rule) => rule.id)).size === rules.length, {
+    message: "section ids must be unique",
+  });
+
 export const digestEntrySchema = z.object({
   clusterId: z.string(),
   headline: z.string(),
-  section: z.enum(["top_picks", "big_stories", "quick_scan"]),
+  section: digestSectionSchema,
   oneLiner: z.string().nullable(),
 });
 export type DigestEntry = z.infer<typeof digestEntrySchema>;
@@ -243,9 +448,43 @@ export const digestSchema = z.object({
   title: z.string(),
   body: z.string(),
   entries: z.array(digestEntrySchema),
+  /** Section order and titles; absent on digests built with the built-in sections. */
+  sections: z.array(digestSectionHeadingSchema).optional(),
 });
 export type Digest = z.infer<typeof digestSchema>;
 
+export const digestPreviewRequestSchema = z.object({
+  /** Rules to try; defaults to the member's saved sections. */
+  sections: digestSectionRulesSchema.optional(),
+  windowHours: z.number().int().min(1).max(168).default(24),
+});
+export type DigestPreviewRequest = z.input<typeof digestPreviewRequestSchema>;
+
+export const digestPreviewSchema = z.object({
+  startTs: z.string().datetime(),
+  endTs: z.string().datetime(),
+  candidateCount: z.number().int().min(0),
+  sections: z.array(digestSectionHeadingSchema),
+  entries: z.array(digestEntrySchema),
+});
+export type DigestPreview = z.infer<typeof digestPreviewSchema>;
+
+/** `weekdays` is Monday to Friday; `weekly` is delivered on Mondays. */
+export const digestScheduleSchema = z.enum(["off", "daily", "weekdays", "weekly"]);
+export type DigestSchedule = z.infer<typeof digestScheduleSchema>;
+
+export const digestChannelSchema = z.enum(["in_app", "email"]);
+export type DigestChannel = z.infer<typeof digestChannelSchema>;
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export const markReadOnScrollSchema = z.enum(["off", "on_scroll", "on_open"]);
 export type MarkReadOnScroll = z.infer<typeof markReadOnScrollSchema>;
 export const markReadOnScrollOverrideSchema = z.object({
@@ -273,6 +512,12 @@ export const settingsSchema = z.object({
   aiFallbackToLocal: z.boolean(),
   digestAwayHours: z.number().int().min(1),
   digestBacklogThreshold: z.number().int().min(1),
+  digestSchedule: digestScheduleSchema.default("off"),
+  digestDeliveryHour: z.number().int().min(0).max(23).default(7),
+  digestTimezone: z.string().refine(isTimeZone, "unknown time zone").default("UTC"),
+  digestChannel: digestChannelSchema.default("in_app"),
+  /** Empty uses the built-in Top Picks / Big Stories / Quick Scan sections. */
+  digestSections: digestSectionRulesSchema.default([]),
   feedPollMinutes: z.number().int().min(5),
   markReadOnScroll: markReadOnScrollSchema.default("off"),
   markReadOnScrollListDelayMs: z.number().int().min(0).max(5000).default(1500),
@@ -290,9 +535,68 @@ export const settingsSchema = z.object({
   progressiveSummarizationEnabled: z.boolean().default(true),
   progressiveFreshHours: z.number().int().min(1).max(24).default(6),
   progressiveAgingDays: z.number().int().min(1).max(14).default(3),
+  semanticClusteringEnabled: z.boolean().default(false),
 });
 export type Settings = z.infer<typeof settingsSchema>;
 
+/**
+ * Workspace policy: owned by the account owner and applied to every member.
+ * Every other settings key is personal and layered per member.
+ */
+export const workspaceSettingKeys = [
+  "aiMode",
+  "aiProvider",
+  "openaiApiKey",
+  "monthlyAiCapUsd",
+  "aiFallbackToLocal",
+  "feedPollMinutes",
+  "unreadMaxAgeDays",
+  "readPurgeDays",
+  "progressiveSummarizationEnabled",
+  "progressiveFreshHours",
+  "progressiveAgingDays",
+  "semanticClusteringEnabled",
+] as const satisfies readonly (keyof Settings)[];
+export type WorkspaceSettingKey = (typeof workspaceSettingKeys)[number];
+
+/** Personal keys a member may override unless the owner locks them. */
+export const memberSettingKeySchema = z.enum([
+  "digestAwayHours",
+  "digestBacklogThreshold",
+  "digestSchedule",
+  "digestDeliveryHour",
+  "digestTimezone",
+  "digestChannel",
+  "digestSections",
+  "markReadOnScroll",
+  "markReadOnScrollListDelayMs",
+  "markReadOnScrollCompactDelayMs",
+  "markReadOnScrollCardDelayMs",
+  "markReadOnScrollListThreshold",
+  "markReadOnScrollCompactThreshold",
+  "markReadOnScrollCardThreshold",
+  "markReadOnScrollFeedOverrides",
+  "savedSearches",
+  "wallabagUrl",
+  "onboardingCompletedAt",
+]);
+export type MemberSettingKey = z.infer<typeof memberSettingKeySchema>;
+
+export const settingSourceSchema = z.enum(["default", "workspace", "member"]);
+export type SettingSource = z.infer<typeof settingSourceSchema>;
+
+/**
+ * Effective settings for the signed-in member, with where each value came
+ * from, the personal keys the owner has locked, and whether the caller may
+ * change workspace policy.
+ */
+export const settingsViewSchema = settingsSchema.extend({
+  sources: z.record(z.string(), settingSourceSchema).default({}),
+  lockedKeys: z.array(memberSettingKeySchema).default([]),
+  canManageWorkspace: z.boolean().default(false),
+});
+export type SettingsView = z.infer<typeof settingsViewSchema>;
+
 export const listClustersQuerySchema = z.object({
   folder_id: z.string().optional(),
   topic_id: z.string().optional(),
@@ -321,6 +625,31 @@ export const addFeedRequestSchema = z.object({
 });
 export type AddFeedRequest = z.infer<typeof addFeedRequestSchema>;
 
+export const discoverFeedsRequestSchema = z.object({
+  url: z.string(),
+});
+export type DiscoverFeedsRequest = z.infer<typeof discoverFeedsRequestSchema>;
+
+export const feedFormatSchema = z.enum(["rss", "atom", "rdf", "json"]);
+export type FeedFormat = z.infer<typeof feedFormatSchema>;
+
+export const feedDiscoverySourceSchema = z.enum(["direct", "link_tag", "platform", "common_path"]);
+export type FeedDiscoverySource = z.infer<typeof feedDiscoverySourceSchema>;
+
+export const discoveredFeedSchema = z.object({
+  url: z.string(),
+  title: z.string().nullable(),
+  format: feedFormatSchema,
+  itemCount: z.number().int().min(0),
+  source: feedDiscoverySourceSchema,
+});
+export type DiscoveredFeed = z.infer<typeof discoveredFeedSchema>;
+
+export const discoverFeedsResponseSchema = z.object({
+  candidates: z.array(discoveredFeedSchema),
+});
+export type DiscoverFeedsResponse = z.infer<typeof discoverFeedsResponseSchema>;
+
 export const pollFeedNowRequestSchema = z.object({
   lookbackDays: z.number().int().min(1).max(30).optional(),
 });
@@ -496,6 +825,142 @@ export const accountDataExportStatusSchema = z.object({
 });
 export type AccountDataExportStatus = z.infer<typeof accountDataExportStatusSchema>;
 
+// ---------- Account archive (export / import) ----------
+
+/** Bumped when a file is added, removed or changes shape incompatibly. */
+export const ACCOUNT_ARCHIVE_VERSION = 1;
+
+/** One NDJSON file per kind, named `<kind>.ndjson` inside the archive. */
+export const accountArchiveKindSchema = z.enum([
+  "folders",
+  "topics",
+  "feeds",
+  "feed_topics",
+  "filters",
+  "stories",
+  "read_state",
+  "annotations",
+  "settings",
+]);
+export type AccountArchiveKind = z.infer<typeof accountArchiveKindSchema>;
+
+export const accountArchiveManifestSchema = z.object({
+  format: z.literal("rss-wrangler-archive"),
+  version: z.number().int().min(1),
+  exportedAt: z.string().datetime(),
+  source: z.object({
+    accountId: z.string(),
+    userId: z.string(),
+    username: z.string(),
+  }),
+  files: z.array(
+    z.object({
+      kind: accountArchiveKindSchema,
+      name: z.string(),
+      records: z.number().int().min(0),
+    }),
+  ),
+});
+export type AccountArchiveManifest = z.infer<typeof accountArchiveManifestSchema>;
+
+/**
+ * `keep` leaves records that already exist in the account untouched;
+ * `replace` overwrites them with the archived values.
+ */
+export const accountImportConflictModeSchema = z.enum(["keep", "replace"]);
+export type AccountImportConflictMode = z.infer<typeof accountImportConflictModeSchema>;
+
+export const accountImportQuerySchema = z.object({
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  onConflict: accountImportConflictModeSchema.default("keep"),
+});
+export type AccountImportQuery = z.input<typeof accountImportQuerySchema>;
+
+export const accountImportCountsSchema = z.object({
+  created: z.number().int().min(0),
+  matched: z.number().int().min(0),
+  updated: z.number().int().min(0),
+  skipped: z.number().int().min(0),
+});
+export type AccountImportCounts = z.infer<typeof accountImportCountsSchema>;
+
+export const accountImportReportSchema = z.object({
+  dryRun: z.boolean(),
+  onConflict: accountImportConflictModeSchema,
+  archiveVersion: z.number().int(),
+  exportedAt: z.string().datetime(),
+  counts: z.record(accountArchiveKindSchema, accountImportCountsSchema),
+  /** Records that were skipped or remapped, capped; `truncated` counts the rest. */
+  conflicts: z.array(
+    z.object({
+      kind: accountArchiveKindSchema,
+      sourceId: z.string().nullable(),
+      message: z.string(),
+    }),
+  ),
+  truncated: z.number().int().min(0),
+});
+export type AccountImportReport = z.infer<typeof accountImportReportSchema>;
+
+// ---------- Imports from other readers ----------
+
+export const readerImportSourceSchema = z.enum([
+  "feedly",
+  "inoreader",
+  "newsblur",
+  "pocket",
+  "instapaper",
+]);
+export type ReaderImportSource = z.infer<typeof readerImportSourceSchema>;
+
+/**
+ * An export file from another reader, sent as text. The format (OPML, JSON,
+ * HTML or CSV) is detected from the content.
+ */
+export const readerImportRequestSchema = z.object({
+  source: readerImportSourceSchema,
+  filename: z.string().max(255).optional(),
+  content: z.string().min(1),
+});
+export type ReaderImportRequest = z.infer<typeof readerImportRequestSchema>;
+
+export const readerImportCountsSchema = z.object({
+  feedsAdded: z.number().int().min(0),
+  feedsExisting: z.number().int().min(0),
+  articlesSaved: z.number().int().min(0),
+  articlesBackfilled: z.number().int().min(0),
+  annotationsAdded: z.number().int().min(0),
+  topicsAdded: z.number().int().min(0),
+  failed: z.number().int().min(0),
+});
+export type ReaderImportCounts = z.infer<typeof readerImportCountsSchema>;
+
+export const readerImportEntryErrorSchema = z.object({
+  entry: z.string(),
+  message: z.string(),
+});
+export type ReaderImportEntryError = z.infer<typeof readerImportEntryErrorSchema>;
+
+export const readerImportJobSchema = z.object({
+  id: z.string().uuid(),
+  source: readerImportSourceSchema,
+  filename: z.string().nullable(),
+  status: z.enum(["pending", "processing", "completed", "failed"]),
+  totalEntries: z.number().int().min(0),
+  processedEntries: z.number().int().min(0),
+  counts: readerImportCountsSchema,
+  /** Per-entry failures, capped; `truncatedErrors` counts the rest. */
+  errors: z.array(readerImportEntryErrorSchema),
+  truncatedErrors: z.number().int().min(0),
+  errorMessage: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+});
+export type ReaderImportJob = z.infer<typeof readerImportJobSchema>;
+
 // ---------- Member approval / roles ----------
 
 export const userRoleSchema = z.enum(["owner", "member"]);
@@ -525,7 +990,13 @@ export const memberEventSchema = z.object({
   id: z.string(),
   targetUserId: z.string(),
   actorUserId: z.string(),
-  eventType: z.enum(["suspended", "role_changed", "removed"]),
+  eventType: z.enum([
+    "suspended",
+    "role_changed",
+    "removed",
+    "api_token_created",
+    "api_token_revoked",
+  ]),
   metadata: z.record(z.string(), z.unknown()).default({}),
   createdAt: z.string().datetime(),
 });
@@ -541,6 +1012,17 @@ export type AuthTokens = z.infer<typeof authTokensSchema>;
 export const updateSettingsRequestSchema = settingsSchema.partial();
 export type UpdateSettingsRequest = z.infer<typeof updateSettingsRequestSchema>;
 
+/**
+ * Owner-only: `defaults` sets workspace values for any key (personal keys
+ * act as member defaults) and `lockedKeys` replaces the set of personal keys
+ * members may not override.
+ */
+export const updateWorkspaceSettingsRequestSchema = z.object({
+  defaults: z.record(z.string(), z.unknown()).optional(),
+  lockedKeys: z.array(memberSettingKeySchema).optional(),
+});
+export type UpdateWorkspaceSettingsRequest = z.infer<typeof updateWorkspaceSettingsRequestSchema>;
+
 // ---------- Auth request/response schemas ----------
 
 export const authRefreshRequestSchema = z.object({
@@ -555,9 +1037,6 @@ export type AuthLogoutRequest = z.infer<typeof authLogoutRequestSchema>;
 
 // ---------- API response schemas ----------
 
-export const digestSectionSchema = z.enum(["top_picks", "big_stories", "quick_scan"]);
-export type DigestSection = z.infer<typeof digestSectionSchema>;
-
 export const listClustersResponseSchema = z.object({
   data: z.array(clusterCardSchema),
   nextCursor: z.string().nullable(),
@@ -703,6 +1182,7 @@ export const searchQuerySchema = z.object({
   cursor: z.string().optional(),
   folderId: z.string().optional(),
   feedId: z.string().optional(),
+  mode: searchModeSchema.optional(),
 });
 export type SearchQuery = z.infer<typeof searchQuerySchema>;
 
@@ -728,6 +1208,329 @@ export const pushUnsubscribeRequestSchema = z.object({
 });
 export type PushUnsubscribeRequest = z.infer<typeof pushUnsubscribeRequestSchema>;
 
+// ---------- Client API credentials (Fever) ----------
+
+export const clientApiCredentialStatusSchema = z.object({
+  enabled: z.boolean(),
+  username: z.string(),
+  createdAt: z.string().datetime().nullable(),
+  lastUsedAt: z.string().datetime().nullable(),
+});
+export type ClientApiCredentialStatus = z.infer<typeof clientApiCredentialStatusSchema>;
+
+export const setClientApiPasswordRequestSchema = z.object({
+  password: z.string().min(8).max(256),
+});
+export type SetClientApiPasswordRequest = z.infer<typeof setClientApiPasswordRequestSchema>;
+
+// ---------- Personal API tokens ----------
+
+export const apiTokenScopeSchema = z.enum([
+  "clusters:read",
+  "feeds:write",
+  "filters:manage",
+  "export",
+]);
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+export const apiTokenSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  tokenPrefix: z.string(),
+  scopes: z.array(apiTokenScopeSchema),
+  createdAt: z.string().datetime(),
+  expiresAt: z.string().datetime().nullable(),
+  lastUsedAt: z.string().datetime().nullable(),
+  revokedAt: z.string().datetime().nullable(),
+});
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+
+export const createApiTokenRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiTokenScopeSchema).min(1),
+  /** Null creates a token that never expires. */
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(90),
+});
+export type CreateApiTokenRequest = z.input<typeof createApiTokenRequestSchema>;
+
+export const createApiTokenResponseSchema = z.object({
+  /** Shown once; only a hash is stored. */
+  token: z.string(),
+  apiToken: apiTokenSchema,
+});
+export type CreateApiTokenResponse = z.infer<typeof createApiTokenResponseSchema>;
+
+// ---------- Feed outputs ----------
+
+/** Streams that can be re-published as a feed; `targetId` is null for `digest`. */
+export const feedOutputKindSchema = z.enum(["digest", "folder", "topic", "saved_search"]);
+export type FeedOutputKind = z.infer<typeof feedOutputKindSchema>;
+
+export const feedOutputFormatSchema = z.enum(["atom", "rss", "json"]);
+export type FeedOutputFormat = z.infer<typeof feedOutputFormatSchema>;
+
+export const feedOutputSchema = z.object({
+  id: z.string(),
+  kind: feedOutputKindSchema,
+  targetId: z.string().nullable(),
+  name: z.string(),
+  tokenPrefix: z.string(),
+  createdAt: z.string().datetime(),
+  rotatedAt: z.string().datetime().nullable(),
+  lastUsedAt: z.string().datetime().nullable(),
+});
+export type FeedOutput = z.infer<typeof feedOutputSchema>;
+
+export const createFeedOutputRequestSchema = z
+  .object({
+    kind: feedOutputKindSchema,
+    targetId: z.string().min(1).nullable().default(null),
+    /** Defaults to the digest, folder, topic or saved search name. */
+    name: z.string().trim().min(1).max(100).optional(),
+  })
+  .refine((value) => (value.kind === "digest") === (value.targetId === null), {
+    message: "targetId is required for folder, topic and saved_search outputs only",
+    path: ["targetId"],
+  });
+export type CreateFeedOutputRequest = z.input<typeof createFeedOutputRequestSchema>;
+
+export const feedOutputTokenResponseSchema = z.object({
+  /** Shown once on create and rotate; only a hash is stored. */
+  token: z.string(),
+  output: feedOutputSchema,
+});
+export type FeedOutputTokenResponse = z.infer<typeof feedOutputTokenResponseSchema>;
+
+// ---------- Outbound webhooks ----------
+
+export const webhookEventTypeSchema = z.enum([
+  "cluster.created",
+  "cluster.saved",
+  "annotation.created",
+  "digest.generated",
+  "feed.failed",
+]);
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+
+export const webhookSubscriptionSchema = z.object({
+  id: z.string(),
+  url: z.string().url(),
+  eventTypes: z.array(webhookEventTypeSchema),
+  /** HMAC-SHA256 key for the `X-Wrangler-Signature` header. */
+  secret: z.string(),
+  enabled: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type WebhookSubscription = z.infer<typeof webhookSubscriptionSchema>;
+
+export const createWebhookSubscriptionRequestSchema = z.object({
+  url: z.string().trim().url().max(2048),
+  eventTypes: z.array(webhookEventTypeSchema).min(1),
+  enabled: z.boolean().default(true),
+});
+export type CreateWebhookSubscriptionRequest = z.input<
+  typeof createWebhookSubscriptionRequestSchema
+>;
+
+export const updateWebhookSubscriptionRequestSchema = z.object({
+  url: z.string().trim().url().max(2048).optional(),
+  eventTypes: z.array(webhookEventTypeSchema).min(1).optional(),
+  enabled: z.boolean().optional(),
+});
+export type UpdateWebhookSubscriptionRequest = z.infer<
+  typeof updateWebhookSubscriptionRequestSchema
+>;
+
+export const webhookDeliverySchema = z.object({
+  id: z.string(),
+  subscriptionId: z.string(),
+  eventId: z.string(),
+  /** A webhook event type, or `webhook.test` for test sends. */
+  eventType: z.string(),
+  status: z.enum(["pending", "succeeded", "failed"]),
+  attemptCount: z.number().int().nonnegative(),
+  lastStatusCode: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  nextAttemptAt: z.string().datetime(),
+  deliveredAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+// ---------- Read-later connectors ----------
+
+export const readLaterProviderSchema = z.enum([
+  "wallabag",
+  "readwise",
+  "instapaper",
+  "pocket",
+  "omnivore",
+  "linkding",
+  "shaarli",
+]);
+export type ReadLaterProvider = z.infer<typeof readLaterProviderSchema>;
+
+/**
+ * What each provider needs: whether a server URL is required (self-hosted),
+ * optional (defaults to the hosted service) or unused, and the credential
+ * fields stored encrypted for it.
+ */
+export const READ_LATER_PROVIDER_FIELDS: Record<
+  ReadLaterProvider,
+  { baseUrl: "required" | "optional" | "none"; credentials: readonly string[] }
+> = {
+  wallabag: {
+    baseUrl: "required",
+    credentials: ["clientId", "clientSecret", "username", "password"],
+  },
+  readwise: { baseUrl: "none", credentials: ["token"] },
+  instapaper: { baseUrl: "none", credentials: ["username", "password"] },
+  pocket: { baseUrl: "optional", credentials: ["consumerKey", "accessToken"] },
+  omnivore: { baseUrl: "optional", credentials: ["apiKey"] },
+  linkding: { baseUrl: "required", credentials: ["token"] },
+  shaarli: { baseUrl: "required", credentials: ["apiSecret"] },
+};
+
+export const readLaterConnectionSchema = z.object({
+  id: z.string(),
+  provider: readLaterProviderSchema,
+  label: z.string(),
+  baseUrl: z.string().nullable(),
+  /** Send every newly saved story to this connection. */
+  autoSend: z.boolean(),
+  enabled: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type ReadLaterConnection = z.infer<typeof readLaterConnectionSchema>;
+
+const readLaterCredentialsSchema = z.record(z.string(), z.string().trim().min(1).max(2048));
+
+export const createReadLaterConnectionRequestSchema = z.object({
+  provider: readLaterProviderSchema,
+  label: z.string().trim().min(1).max(100).optional(),
+  baseUrl: z.string().trim().url().max(2048).optional(),
+  credentials: readLaterCredentialsSchema,
+  autoSend: z.boolean().default(false),
+});
+export type CreateReadLaterConnectionRequest = z.input<
+  typeof createReadLaterConnectionRequestSchema
+>;
+
+export const updateReadLaterConnectionRequestSchema = z.object({
+  label: z.string().trim().min(1).max(100).optional(),
+  baseUrl: z.string().trim().url().max(2048).optional(),
+  /** Replaces the stored credentials; they are never returned. */
+  credentials: readLaterCredentialsSchema.optional(),
+  autoSend: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+});
+export type UpdateReadLaterConnectionRequest = z.infer<
+  typeof updateReadLaterConnectionRequestSchema
+>;
+
+export const sendToReadLaterRequestSchema = z.object({
+  connectionId: z.string().uuid(),
+});
+export type SendToReadLaterRequest = z.infer<typeof sendToReadLaterRequestSchema>;
+
+export const readLaterDeliverySchema = z.object({
+  id: z.string(),
+  connectionId: z.string(),
+  provider: readLaterProviderSchema,
+  connectionLabel: z.string(),
+  clusterId: z.string(),
+  url: z.string(),
+  title: z.string().nullable(),
+  status: z.enum(["pending", "succeeded", "failed"]),
+  attemptCount: z.number().int().nonnegative(),
+  lastStatusCode: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  nextAttemptAt: z.string().datetime(),
+  deliveredAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type ReadLaterDelivery = z.infer<typeof readLaterDeliverySchema>;
+
+export const readLaterDeliveryQuerySchema = z.object({
+  clusterId: z.string().uuid().optional(),
+});
+
+// ---------- Highlights library & export ----------
+
+/** An annotation together with the story it was made on. */
+export const highlightSchema = annotationSchema.extend({
+  storyTitle: z.string(),
+  storyUrl: z.string().nullable(),
+  feedTitle: z.string().nullable(),
+  author: z.string().nullable(),
+  publishedAt: z.string().datetime().nullable(),
+});
+export type Highlight = z.infer<typeof highlightSchema>;
+
+export const highlightListQuerySchema = z.object({
+  /** Matches the highlighted text, the note or the story title. */
+  q: z.string().trim().min(1).max(200).optional(),
+  color: annotationColorSchema.optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+export type HighlightListQuery = z.infer<typeof highlightListQuerySchema>;
+
+export const highlightListResponseSchema = z.object({
+  data: z.array(highlightSchema),
+  nextCursor: z.string().nullable(),
+});
+export type HighlightListResponse = z.infer<typeof highlightListResponseSchema>;
+
+/** File exports; `readwise_api` is the direct push and only tracked as a cursor. */
+export const highlightExportFormatSchema = z.enum(["markdown", "obsidian", "readwise_csv"]);
+export type HighlightExportFormat = z.infer<typeof highlightExportFormatSchema>;
+
+export const highlightExportTargetSchema = z.enum([
+  "markdown",
+  "obsidian",
+  "readwise_csv",
+  "readwise_api",
+]);
+export type HighlightExportTarget = z.infer<typeof highlightExportTargetSchema>;
+
+export const highlightExportQuerySchema = z.object({
+  format: highlightExportFormatSchema,
+  /** Only highlights created since the last export to the same target. */
+  incremental: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+export type HighlightExportQuery = z.input<typeof highlightExportQuerySchema>;
+
+export const highlightExportStatusSchema = z.object({
+  target: highlightExportTargetSchema,
+  /** Creation time of the newest highlight included in the last export. */
+  lastHighlightAt: z.string().datetime().nullable(),
+  lastExportedAt: z.string().datetime().nullable(),
+  /** Highlights an incremental export would include now. */
+  pendingCount: z.number().int().nonnegative(),
+});
+export type HighlightExportStatus = z.infer<typeof highlightExportStatusSchema>;
+
+export const pushHighlightsToReadwiseRequestSchema = z.object({
+  /** A Readwise read-later connection whose token is used; defaults to the first enabled one. */
+  connectionId: z.string().uuid().optional(),
+  incremental: z.boolean().default(true),
+});
+export type PushHighlightsToReadwiseRequest = z.input<typeof pushHighlightsToReadwiseRequestSchema>;
+
+export const pushHighlightsToReadwiseResponseSchema = z.object({
+  exported: z.number().int().nonnegative(),
+  status: highlightExportStatusSchema,
+});
+export type PushHighlightsToReadwiseResponse = z.infer<
+  typeof pushHighlightsToReadwiseResponseSchema
+>;
+
 // ---------- Dwell tracking ----------
 
 export const recordDwellRequestSchema = z.object({
@@ -804,7 +1607,195 @@ export const renameTopicRequestSchema = z.object({
 });
 export type RenameTopicRequest = z.infer<typeof renameTopicRequestSchema>;
 
-export const aiFeatureSchema = z.enum(["summary", "digest", "classification", "recommendation"]);
+const folderNameSchema = z.string().trim().min(1).max(50);
+
+export const createFolderRequestSchema = z.object({
+  name: folderNameSchema,
+  parentId: z.string().uuid().nullable().default(null),
+  icon: folderIconSchema.nullable().default(null),
+  color: folderColorSchema.nullable().default(null),
+});
+export type CreateFolderRequest = z.infer<typeof createFolderRequestSchema>;
+
+/** Moving a folder under a new parent appends it to the parent's children. */
+export const updateFolderRequestSchema = z.object({
+  name: folderNameSchema.optional(),
+  parentId: z.string().uuid().nullable().optional(),
+  icon: folderIconSchema.nullable().optional(),
+  color: folderColorSchema.nullable().optional(),
+});
+export type UpdateFolderRequest = z.infer<typeof updateFolderRequestSchema>;
+
+/** The new order of some or all children of one parent (null for top level). */
+export const reorderFoldersRequestSchema = z.object({
+  parentId: z.string().uuid().nullable().default(null),
+  folderIds: z.array(z.string().uuid()).min(1).max(500),
+});
+export type ReorderFoldersRequest = z.infer<typeof reorderFoldersRequestSchema>;
+
+/**
+ * Feeds, stories, filter rules and feed outputs in a deleted folder move to
+ * `reassignTo`, or to Other when it is omitted. Child folders move up a level.
+ */
+export const deleteFolderQuerySchema = z.object({
+  reassignTo: z.string().uuid().optional(),
+});
+export type DeleteFolderQuery = z.infer<typeof deleteFolderQuerySchema>;
+
+export const extractionRuleSourceSchema = z.enum(["workspace", "bundled"]);
+export type ExtractionRuleSource = z.infer<typeof extractionRuleSourceSchema>;
+
+/** A per-site extraction rule; see extraction-rules.ts for how rules are matched. */
+export const extractionRuleSchema = z.object({
+  id: z.string(),
+  /** Applies to this host and its subdomains. */
+  domain: z.string(),
+  /** CSS selectors tried in order; the first that matches holds the article. */
+  bodySelectors: z.array(z.string()),
+  /** CSS selectors removed from the page before the article is taken. */
+  stripSelectors: z.array(z.string()),
+  /** Link to the next page of a multi-page article. */
+  nextPageSelector: z.string().nullable(),
+  maxPages: z.number().int().min(1).max(10),
+  /** Extra request headers the site needs (e.g. a Referer or Accept-Language). */
+  headers: z.record(z.string(), z.string()),
+  /** Cookie header sent with the request, e.g. a consent or session cookie. */
+  cookie: z.string().nullable(),
+  /** Skip fetching the page and keep the feed's own content as the article. */
+  useFeedContent: z.boolean(),
+  enabled: z.boolean(),
+  source: extractionRuleSourceSchema,
+  updatedAt: z.string().datetime().nullable(),
+});
+export type ExtractionRule = z.infer<typeof extractionRuleSchema>;
+
+export const extractionRulesResponseSchema = z.object({
+  workspace: z.array(extractionRuleSchema),
+  bundled: z.array(extractionRuleSchema),
+});
+export type ExtractionRulesResponse = z.infer<typeof extractionRulesResponseSchema>;
+
+// Cookie has its own field; the rest are set by the fetch itself.
+const RESERVED_EXTRACTION_HEADERS = new Set([
+  "connection",
+  "content-length",
+  "cookie",
+  "host",
+  "transfer-encoding",
+]);
+
+const extractionSelectorSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(300)
+  .refine((value) => !/[\r\n]/.test(value), "selector must be on one line");
+
+const extractionHeadersSchema = z
+  .record(
+    z
+      .string()
+      .regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]{1,64}$/, "invalid header name")
+      .refine((name) => !RESERVED_EXTRACTION_HEADERS.has(name.toLowerCase()), "reserved header"),
+    z
+      .string()
+      .max(1000)
+      .refine((value) => !/[\r\n]/.test(value), "header value must be on one line"),
+  )
+  .refine((headers) => Object.keys(headers).length <= 10, "at most 10 headers");
+
+const extractionRuleDomainSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(253)
+  .transform((value) => normalizeRuleDomain(value))
+  .refine(
+    (value) =>
+      /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/.test(value),
+    "domain must be a host name such as example.com",
+  );
+
+export const createExtractionRuleRequestSchema = z.object({
+  domain: extractionRuleDomainSchema,
+  bodySelectors: z.array(extractionSelectorSchema).max(20).default([]),
+  stripSelectors: z.array(extractionSelectorSchema).max(50).default([]),
+  nextPageSelector: extractionSelectorSchema.nullable().default(null),
+  maxPages: z.number().int().min(1).max(10).default(5),
+  headers: extractionHeadersSchema.default({}),
+  cookie: z
+    .string()
+    .max(4096)
+    .refine((value) => !/[\r\n]/.test(value), "cookie must be on one line")
+    .nullable()
+    .default(null),
+  useFeedContent: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+});
+export type CreateExtractionRuleRequest = z.infer<typeof createExtractionRuleRequestSchema>;
+
+export const updateExtractionRuleRequestSchema = z.object({
+  domain: extractionRuleDomainSchema.optional(),
+  bodySelectors: z.array(extractionSelectorSchema).max(20).optional(),
+  stripSelectors: z.array(extractionSelectorSchema).max(50).optional(),
+  nextPageSelector: extractionSelectorSchema.nullable().optional(),
+  maxPages: z.number().int().min(1).max(10).optional(),
+  headers: extractionHeadersSchema.optional(),
+  cookie: z
+    .string()
+    .max(4096)
+    .refine((value) => !/[\r\n]/.test(value), "cookie must be on one line")
+    .nullable()
+    .optional(),
+  useFeedContent: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+});
+export type UpdateExtractionRuleRequest = z.infer<typeof updateExtractionRuleRequestSchema>;
+
+export const extractionPreviewRequestSchema = z.object({
+  url: z.string().url(),
+});
+export type ExtractionPreviewRequest = z.infer<typeof extractionPreviewRequestSchema>;
+
+export const extractionPreviewStatusSchema = z.enum(["pending", "completed", "failed"]);
+export type ExtractionPreviewStatus = z.infer<typeof extractionPreviewStatusSchema>;
+
+export const extractionMethodSchema = z.enum(["rule", "readability", "feed_content"]);
+export type ExtractionMethod = z.infer<typeof extractionMethodSchema>;
+
+/**
+ * What extraction would store for a URL under the current rules. Previews run
+ * in the worker, so a new preview is `pending` until the worker picks it up.
+ */
+export const extractionPreviewSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  status: extractionPreviewStatusSchema,
+  ruleId: z.string().nullable(),
+  ruleDomain: z.string().nullable(),
+  ruleSource: extractionRuleSourceSchema.nullable(),
+  method: extractionMethodSchema.nullable(),
+  pages: z.number().int().min(0),
+  title: z.string().nullable(),
+  textLength: z.number().int().min(0),
+  /** The start of the extracted plain text. */
+  textSample: z.string().nullable(),
+  html: z.string().nullable(),
+  /** Selectors in the rule that matched nothing on the page. */
+  warnings: z.array(z.string()),
+  error: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+});
+export type ExtractionPreview = z.infer<typeof extractionPreviewSchema>;
+
+export const aiFeatureSchema = z.enum([
+  "summary",
+  "digest",
+  "classification",
+  "recommendation",
+  "embedding",
+]);
 export type AiFeature = z.infer<typeof aiFeatureSchema>;
 
 export const aiUsageRecordSchema = z.object({
@@ -923,15 +1914,29 @@ export const sponsoredCardSchema = z.object({
 export type SponsoredCard = z.infer<typeof sponsoredCardSchema>;
 
 export const apiRoutes = {
+  image: "/v1/images/:signature",
   clusters: "/v1/clusters",
+  clusterRelated: "/v1/clusters/:id/related",
+  clusterSharedSave: "/v1/clusters/:id/shared-save",
+  itemMediaProgress: "/v1/items/:id/media-progress",
   folders: "/v1/folders",
+  folder: "/v1/folders/:id",
+  extractionRules: "/v1/extraction-rules",
+  extractionRule: "/v1/extraction-rules/:id",
+  extractionPreviews: "/v1/extraction-previews",
+  extractionPreview: "/v1/extraction-previews/:id",
+  foldersOrder: "/v1/folders/order",
   feeds: "/v1/feeds",
+  feedDiscover: "/v1/feeds/discover",
   feedPollNow: "/v1/feeds/:id/poll-now",
   filters: "/v1/filters",
   digests: "/v1/digests",
   digestGenerate: "/v1/digest/generate",
+  digestPreview: "/v1/digest/preview",
   events: "/v1/events",
   settings: "/v1/settings",
+  settingsWorkspace: "/v1/settings/workspace",
+  digestEmailAction: "/v1/digest-email/action",
   authLogin: "/v1/auth/login",
   authSignup: "/v1/auth/signup",
   authJoin: "/v1/auth/join",
@@ -950,12 +1955,38 @@ export const apiRoutes = {
   accountDataExportStatus: "/v1/account/data-export",
   accountDataExportRequest: "/v1/account/data-export/request",
   accountDataExportDownload: "/v1/account/data-export/download",
+  accountArchive: "/v1/account/archive",
+  accountArchiveImport: "/v1/account/archive/import",
+  imports: "/v1/imports",
+  importJob: "/v1/imports/:id",
   accountEntitlements: "/v1/account/entitlements",
   billingOverview: "/v1/billing",
   billingCheckout: "/v1/billing/checkout",
   billingPortal: "/v1/billing/portal",
   billingSubscriptionAction: "/v1/billing/subscription-action",
   billingWebhook: "/v1/billing/webhooks/lemon-squeezy",
+  webSubCallback: "/v1/websub/:accountId/:feedId",
+  accountClientApi: "/v1/account/client-api",
+  accountApiTokens: "/v1/account/api-tokens",
+  accountApiToken: "/v1/account/api-tokens/:id",
+  feedOutputs: "/v1/feed-outputs",
+  feedOutput: "/v1/feed-outputs/:id",
+  feedOutputRotate: "/v1/feed-outputs/:id/rotate",
+  feedOutputFeed: "/v1/outputs/:token/:format",
+  webhooks: "/v1/webhooks",
+  webhook: "/v1/webhooks/:id",
+  webhookTest: "/v1/webhooks/:id/test",
+  webhookDeliveries: "/v1/webhooks/:id/deliveries",
+  readLaterConnections: "/v1/read-later/connections",
+  readLaterConnection: "/v1/read-later/connections/:id",
+  readLaterDeliveries: "/v1/read-later/deliveries",
+  clusterReadLater: "/v1/clusters/:id/read-later",
+  highlights: "/v1/highlights",
+  highlightsExport: "/v1/highlights/export",
+  highlightsExportStatus: "/v1/highlights/export/status",
+  highlightsReadwise: "/v1/highlights/readwise",
+  fever: "/fever/",
+  greader: "/api/greader",
   privacyConsent: "/v1/privacy/consent",
   opmlImport: "/v1/opml/import",
   opmlExport: "/v1/opml/export",
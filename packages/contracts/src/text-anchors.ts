@@ -0,0 +1,87 @@
+/**
+ * Text anchors for annotations, shared by the reader (web), annotation
+ * creation (API) and re-anchoring after full-text re-extraction (worker), so
+ * all three place a highlight on the same characters.
+ *
+ * An anchor combines a text-quote selector (the exact text plus a little
+ * context on either side) with a position selector (character offsets into
+ * the story text). The position is only a hint: when the text changes, the
+ * quote and its context are used to find the highlight again.
+ */
+import type { AnnotationAnchor, TextPositionSelector } from "./index.js";
+
+/** Characters of context kept on each side of the quoted text. */
+export const TEXT_ANCHOR_CONTEXT_CHARS = 32;
+
+// Bounds the work for very short quotes in very long articles.
+const MAX_CANDIDATES = 1_000;
+
+/** Builds an anchor for `text.slice(start, end)`. */
+export function buildTextAnchor(text: string, start: number, end: number): AnnotationAnchor {
+  return {
+    quote: {
+      exact: text.slice(start, end),
+      prefix: text.slice(Math.max(0, start - TEXT_ANCHOR_CONTEXT_CHARS), start),
+      suffix: text.slice(end, end + TEXT_ANCHOR_CONTEXT_CHARS),
+    },
+    position: { start, end },
+  };
+}
+
+function sharedSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length += 1;
+  }
+  return length;
+}
+
+function sharedPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length += 1;
+  }
+  return length;
+}
+
+/**
+ * Finds where the anchor's quote lives in `text`. Uses the stored position
+ * when it still holds the quote; otherwise picks the occurrence whose
+ * surrounding text best matches the stored prefix and suffix, preferring the
+ * one closest to the old position on ties. Returns null when the quote is no
+ * longer in the text.
+ */
+export function resolveTextAnchor(
+  text: string,
+  anchor: AnnotationAnchor,
+): TextPositionSelector | null {
+  const { exact, prefix, suffix } = anchor.quote;
+  if (!exact) return null;
+
+  const hint = anchor.position;
+  if (hint && text.slice(hint.start, hint.end) === exact) {
+    return { start: hint.start, end: hint.end };
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  let from = 0;
+  for (let found = 0; found < MAX_CANDIDATES; found += 1) {
+    const start = text.indexOf(exact, from);
+    if (start === -1) break;
+    const end = start + exact.length;
+    const score =
+      sharedSuffixLength(text.slice(Math.max(0, start - prefix.length), start), prefix) +
+      sharedPrefixLength(text.slice(end, end + suffix.length), suffix);
+    const distance = hint ? Math.abs(hint.start - start) : start;
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, score, distance };
+    }
+    from = start + 1;
+  }
+
+  return best ? { start: best.start, end: best.start + exact.length } : null;
+}
@@ -0,0 +1,70 @@
+/**
+ * YouTube URL helpers shared by feed discovery (API), feed parsing (worker)
+ * and the video reader (web). Videos are stored as item enclosures whose URL is
+ * the canonical watch URL.
+ */
+
+/** Enclosure MIME type used for YouTube videos. */
+export const YOUTUBE_VIDEO_MIME_TYPE = "video/x-youtube";
+
+const YOUTUBE_HOSTS = new Set([
+  "youtube.com",
+  "www.youtube.com",
+  "m.youtube.com",
+  "music.youtube.com",
+  "youtu.be",
+  "www.youtube-nocookie.com",
+]);
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const VIDEO_PATH_PREFIXES = ["embed", "v", "shorts", "live"];
+
+export function isYouTubeHost(hostname: string): boolean {
+  return YOUTUBE_HOSTS.has(hostname.toLowerCase());
+}
+
+/**
+ * Extracts the video id from watch, short-link, embed, shorts and live URLs.
+ * Returns null for channel, playlist and non-YouTube URLs.
+ */
+export function youtubeVideoIdFromUrl(rawUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+  if (!isYouTubeHost(url.hostname)) return null;
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  let candidate: string | null | undefined = null;
+  if (url.hostname.toLowerCase() === "youtu.be") {
+    candidate = segments[0];
+  } else if (segments[0] === "watch") {
+    candidate = url.searchParams.get("v");
+  } else if (segments[0] && VIDEO_PATH_PREFIXES.includes(segments[0])) {
+    candidate = segments[1];
+  }
+  return candidate && VIDEO_ID_PATTERN.test(candidate) ? candidate : null;
+}
+
+export function youtubeWatchUrl(videoId: string): string {
+  return `https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`;
+}
+
+/** Privacy-enhanced embed URL; no cookies are set until playback starts. */
+export function youtubeEmbedUrl(videoId: string): string {
+  return `https://www.youtube-nocookie.com/embed/${encodeURIComponent(videoId)}`;
+}
+
+export function youtubeChannelFeedUrl(channelId: string): string {
+  return `https://www.youtube.com/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`;
+}
+
+export function youtubePlaylistFeedUrl(playlistId: string): string {
+  return `https://www.youtube.com/feeds/videos.xml?playlist_id=${encodeURIComponent(playlistId)}`;
+}
+
+export function youtubeUserFeedUrl(username: string): string {
+  return `https://www.youtube.com/feeds/videos.xml?user=${encodeURIComponent(username)}`;
+}